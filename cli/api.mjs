@@ -0,0 +1,63 @@
+/**
+ * Client of the TagLink REST API (/api/v1/*) used by the CLI
+ */
+
+export class ApiError extends Error {
+  constructor(message, status) {
+    super(message)
+    this.name = 'ApiError'
+    this.status = status
+  }
+}
+
+/**
+ * @param {{ url: string, token: string | null }} config
+ */
+export function createApiClient(config) {
+  async function request(method, path, { query, body, raw = false } = {}) {
+    if (!config.token) {
+      throw new ApiError('No access token - run `taglink login <token>` or set TAGLINK_TOKEN', 401)
+    }
+
+    const url = new URL(`/api/v1${path}`, config.url)
+    for (const [key, value] of Object.entries(query || {})) {
+      const text = Array.isArray(value) ? value.join(',') : (value ?? '').toString()
+      if (text !== '') {
+        url.searchParams.set(key, text)
+      }
+    }
+
+    let response
+    try {
+      response = await fetch(url, {
+        method,
+        headers: {
+          Authorization: `Bearer ${config.token}`,
+          ...(body !== undefined && { 'Content-Type': 'application/json' }),
+        },
+        body: body !== undefined ? JSON.stringify(body) : undefined,
+      })
+    } catch (error) {
+      throw new ApiError(`Cannot reach ${config.url} (${error.cause?.code || error.message})`, 0)
+    }
+
+    if (!response.ok) {
+      const payload = await response.json().catch(() => null)
+      const message = payload?.error || `Request failed with HTTP ${response.status}`
+      throw new ApiError(message, response.status)
+    }
+
+    if (raw) return response.text()
+    if (response.status === 204) return null
+    const payload = await response.json()
+    return payload.data
+  }
+
+  return {
+    get: (path, query) => request('GET', path, { query }),
+    post: (path, body) => request('POST', path, { body }),
+    patch: (path, body) => request('PATCH', path, { body }),
+    delete: (path) => request('DELETE', path),
+    download: (path, query) => request('GET', path, { query, raw: true }),
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * Server URL and personal access token of the TagLink CLI
+ * Read from TAGLINK_URL / TAGLINK_TOKEN or from the file written by `taglink login`.
+ */
+
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises'
+import { homedir } from 'node:os'
+import { dirname, join } from 'node:path'
+
+export const DEFAULT_URL = 'http://localhost:3000'
+
+export function getConfigPath() {
+  const base = process.env.XDG_CONFIG_HOME || join(homedir(), '.config')
+  return join(base, 'taglink', 'config.json')
+}
+
+async function readConfigFile() {
+  try {
+    return JSON.parse(await readFile(getConfigPath(), 'utf8'))
+  } catch {
+    return {}
+  }
+}
+
+/**
+ * Settings of this run - flags win over environment variables, which win over the file
+ */
+export async function loadConfig(flags = {}) {
+  const file = await readConfigFile()
+  return {
+    url: (flags.url || process.env.TAGLINK_URL || file.url || DEFAULT_URL).replace(/\/+$/, ''),
+    token: flags.token || process.env.TAGLINK_TOKEN || file.token || null,
+  }
+}
+
+/**
+ * Store the token (readable by the current user only)
+ */
+export async function saveConfig(config) {
+  const path = getConfigPath()
+  await mkdir(dirname(path), { recursive: true })
+  await writeFile(path, `${JSON.stringify(config, null, 2)}\n`, { mode: 0o600 })
+  return path
+}
+
+export async function removeConfig() {
+  await rm(getConfigPath(), { force: true })
+}
@@ -0,0 +1,117 @@
+/**
+ * Output of the TagLink CLI - aligned tables for people, JSON for scripts
+ */
+
+// Widest a table cell gets before it is cut with an ellipsis
+const MAX_CELL_WIDTH = 60
+
+/**
+ * Shorten text to max characters, marking the cut with an ellipsis
+ */
+export function truncate(text, max) {
+  const value = String(text ?? '')
+  return value.length > max ? `${value.slice(0, Math.max(0, max - 1))}…` : value
+}
+
+/**
+ * Render rows as a plain-text table
+ * @param {{ key: string, label: string, maxWidth?: number }[]} columns
+ * @param {Record<string, unknown>[]} rows
+ */
+export function formatTable(columns, rows) {
+  const cells = rows.map((row) =>
+    columns.map((column) =>
+      truncate(
+        (row[column.key] ?? '').toString().replace(/\s+/g, ' '),
+        column.maxWidth ?? MAX_CELL_WIDTH
+      )
+    )
+  )
+  const widths = columns.map((column, index) =>
+    Math.max(column.label.length, ...cells.map((row) => row[index].length))
+  )
+
+  const formatRow = (values) =>
+    values
+      .map((value, index) => (index === values.length - 1 ? value : value.padEnd(widths[index])))
+      .join('  ')
+      .trimEnd()
+
+  return [formatRow(columns.map((column) => column.label)), ...cells.map(formatRow)].join('\n')
+}
+
+/**
+ * Tag names of a link returned by the API (link_tags: [{ tag: { id, name } }])
+ */
+export function getLinkTagNames(link) {
+  return (link.link_tags || []).filter((linkTag) => linkTag.tag).map((linkTag) => linkTag.tag.name)
+}
+
+/**
+ * Table of links (list, search)
+ */
+export function formatLinksTable(links) {
+  if (links.length === 0) return 'No links found.'
+
+  return formatTable(
+    [
+      { key: 'id', label: 'ID', maxWidth: 36 },
+      { key: 'title', label: 'TITLE', maxWidth: 50 },
+      { key: 'tags', label: 'TAGS', maxWidth: 30 },
+      { key: 'state', label: 'STATE' },
+      { key: 'rating', label: 'RATING' },
+    ],
+    links.map((link) => ({
+      id: link.id,
+      title: link.title || link.url,
+      tags: getLinkTagNames(link).join(', '),
+      state: link.reading_state,
+      rating: link.rating ? '★'.repeat(link.rating) : '',
+    }))
+  )
+}
+
+/**
+ * Table of tags with their usage count
+ */
+export function formatTagsTable(tags) {
+  if (tags.length === 0) return 'No tags yet.'
+
+  return formatTable(
+    [
+      { key: 'id', label: 'ID', maxWidth: 36 },
+      { key: 'name', label: 'NAME' },
+      { key: 'links', label: 'LINKS' },
+    ],
+    tags.map((tag) => ({ id: tag.id, name: tag.name, links: tag.link_count ?? 0 }))
+  )
+}
+
+/**
+ * All fields of one link, one per line
+ */
+export function formatLinkDetails(link) {
+  const fields = [
+    ['ID', link.id],
+    ['URL', link.url],
+    ['Title', link.title],
+    ['Description', link.ai_description],
+    ['Tags', getLinkTagNames(link).join(', ')],
+    ['Rating', link.rating ? `${link.rating}/5` : ''],
+    ['State', link.reading_state],
+    ['Processing', link.ai_processing_status],
+    ['Created', link.created_at],
+    ['Notes', link.notes],
+  ].filter(([, value]) => value !== null && value !== undefined && value !== '')
+
+  const width = Math.max(...fields.map(([label]) => label.length))
+  return fields.map(([label, value]) => `${`${label}:`.padEnd(width + 2)}${value}`).join('\n')
+}
+
+/**
+ * Summary line under a page of links
+ */
+export function formatPageSummary(result) {
+  const total = `${result.totalCount} ${result.totalCount === 1 ? 'link' : 'links'}`
+  return result.totalPages > 1 ? `Page ${result.page}/${result.totalPages} · ${total}` : total
+}
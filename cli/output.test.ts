@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest'
+import {
+  formatLinkDetails,
+  formatLinksTable,
+  formatPageSummary,
+  formatTable,
+  formatTagsTable,
+  truncate,
+} from './output.mjs'
+
+const link = {
+  id: '22222222-2222-2222-2222-222222222222',
+  url: 'https://example.com',
+  title: 'Example',
+  ai_description: null,
+  reading_state: 'unread',
+  rating: 3,
+  notes: '',
+  ai_processing_status: 'completed',
+  created_at: '2025-11-01T10:00:00Z',
+  link_tags: [{ tag: { id: 't1', name: 'k8s' } }, { tag: { id: 't2', name: 'ops' } }],
+}
+
+describe('truncate', () => {
+  it('should cut long text with an ellipsis', () => {
+    expect(truncate('abcdef', 4)).toBe('abc…')
+    expect(truncate('abc', 4)).toBe('abc')
+    expect(truncate(null, 4)).toBe('')
+  })
+})
+
+describe('formatTable', () => {
+  it('should align columns to the widest cell', () => {
+    const table = formatTable(
+      [
+        { key: 'name', label: 'NAME' },
+        { key: 'count', label: 'N' },
+      ],
+      [
+        { name: 'kubernetes', count: 12 },
+        { name: 'go', count: 3 },
+      ]
+    )
+    expect(table).toBe(['NAME        N', 'kubernetes  12', 'go          3'].join('\n'))
+  })
+
+  it('should keep every row on one line', () => {
+    const table = formatTable([{ key: 'text', label: 'TEXT', maxWidth: 10 }], [
+      { text: 'line one\nline two' },
+    ])
+    expect(table.split('\n')).toEqual(['TEXT', 'line one …'])
+  })
+})
+
+describe('formatLinksTable', () => {
+  it('should list links with tags, state and rating', () => {
+    const lines = formatLinksTable([link, { ...link, title: null, rating: null, link_tags: [] }])
+      .split('\n')
+    expect(lines[0]).toMatch(/^ID\s+TITLE\s+TAGS\s+STATE\s+RATING$/)
+    expect(lines[1]).toContain('Example')
+    expect(lines[1]).toContain('k8s, ops')
+    expect(lines[1]).toContain('★★★')
+    expect(lines[2]).toContain('https://example.com')
+  })
+
+  it('should say when nothing matched', () => {
+    expect(formatLinksTable([])).toBe('No links found.')
+  })
+})
+
+describe('formatTagsTable', () => {
+  it('should list tags with their link count', () => {
+    expect(formatTagsTable([{ id: 't1', name: 'k8s', link_count: 4 }])).toBe(
+      ['ID  NAME  LINKS', 't1  k8s   4'].join('\n')
+    )
+    expect(formatTagsTable([])).toBe('No tags yet.')
+  })
+})
+
+describe('formatLinkDetails', () => {
+  it('should print the filled fields of a link', () => {
+    const details = formatLinkDetails(link)
+    expect(details).toContain('URL:        https://example.com')
+    expect(details).toContain('Tags:       k8s, ops')
+    expect(details).toContain('Rating:     3/5')
+    expect(details).not.toContain('Description:')
+    expect(details).not.toContain('Notes:')
+  })
+})
+
+describe('formatPageSummary', () => {
+  it('should show the page only when there are several', () => {
+    expect(formatPageSummary({ totalCount: 1, page: 1, totalPages: 1 })).toBe('1 link')
+    expect(formatPageSummary({ totalCount: 45, page: 2, totalPages: 3 })).toBe(
+      'Page 2/3 · 45 links'
+    )
+  })
+})
@@ -0,0 +1,290 @@
+#!/usr/bin/env node
+/**
+ * TagLink command-line client
+ * Talks to the REST API (/api/v1/*) with a personal access token created in Settings.
+ * Run `taglink help` for the commands.
+ */
+
+import { writeFile } from 'node:fs/promises'
+import { parseArgs } from 'node:util'
+import { ApiError, createApiClient } from './api.mjs'
+import { DEFAULT_URL, loadConfig, removeConfig, saveConfig } from './config.mjs'
+import {
+  formatLinkDetails,
+  formatLinksTable,
+  formatPageSummary,
+  formatTagsTable,
+} from './output.mjs'
+
+const HELP = `Usage: taglink <command> [options]
+
+Links
+  add <url> [--title T] [--rating 1-5] [--tag NAME]...   Save a link (missing tags are created)
+  list [--tag NAME]... [--state S] [--sort S] [--page N] [--limit N]
+  search <query> [--tag NAME]... [--state S] [--sort S] [--page N] [--limit N]
+  show <link-id>                                         Show one link
+  update <link-id> [--title T] [--description D] [--rating 1-5] [--notes N]
+                   [--state S] [--tag NAME]...           Change a link (--tag replaces all tags)
+  delete <link-id>                                       Move a link to the trash
+
+Tags
+  tags [list]                                            List tags with their link count
+  tags create <name>
+  tags rename <tag> <new-name>
+  tags merge <source-tag> <target-tag>                   Move all links to target, delete source
+  tags delete <tag>
+
+Export
+  export [--format json|csv|md] [--output FILE]          Export all links (stdout by default)
+
+Account
+  login <token> [--url URL]                              Store a personal access token
+  logout                                                 Forget the stored token
+
+Options
+  --json          Print JSON instead of tables (for scripts)
+  --url URL       TagLink server (default: TAGLINK_URL, stored URL or ${DEFAULT_URL})
+  --token TOKEN   Access token (default: TAGLINK_TOKEN or the stored token)
+  -h, --help      Show this help
+
+Tags can be given by name or ID. States: unread, reading, read, archived.
+Sort: rating, date-desc, date-asc, relevance.
+
+Not available here (use the dashboard): trash and restore, re-processing, imports, collections.`
+
+const OPTIONS = {
+  json: { type: 'boolean' },
+  url: { type: 'string' },
+  token: { type: 'string' },
+  help: { type: 'boolean', short: 'h' },
+  title: { type: 'string' },
+  description: { type: 'string' },
+  notes: { type: 'string' },
+  rating: { type: 'string' },
+  tag: { type: 'string', multiple: true },
+  state: { type: 'string' },
+  sort: { type: 'string' },
+  page: { type: 'string' },
+  limit: { type: 'string' },
+  format: { type: 'string' },
+  output: { type: 'string', short: 'o' },
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+class UsageError extends Error {}
+
+function requireArg(value, name) {
+  if (!value) throw new UsageError(`Missing ${name}`)
+  return value
+}
+
+function parseRating(value) {
+  if (value === undefined) return undefined
+  const rating = Number(value)
+  if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+    throw new UsageError('--rating must be a whole number from 1 to 5')
+  }
+  return rating
+}
+
+function print(flags, data, format) {
+  console.log(flags.json ? JSON.stringify(data, null, 2) : format(data))
+}
+
+/**
+ * Resolve tag names (or IDs) to the tags of the space
+ * @param create - Create tags that do not exist yet instead of failing
+ */
+async function resolveTags(api, refs, { create = false } = {}) {
+  if (!refs || refs.length === 0) return []
+
+  const tags = await api.get('/tags')
+  const resolved = []
+  for (const ref of refs) {
+    const name = ref.trim().toLowerCase()
+    const tag = tags.find((item) => item.id === ref || item.name.toLowerCase() === name)
+    if (tag) {
+      resolved.push(tag)
+    } else if (create && !UUID_PATTERN.test(ref)) {
+      resolved.push(await api.post('/tags', { name }))
+    } else {
+      throw new ApiError(`Tag "${ref}" not found`, 404)
+    }
+  }
+  return resolved
+}
+
+async function resolveTag(api, ref) {
+  const [tag] = await resolveTags(api, [requireArg(ref, 'tag')])
+  return tag
+}
+
+function getSearchQuery(api, flags, query) {
+  return resolveTags(api, flags.tag).then((tags) => ({
+    q: query,
+    tags: tags.map((tag) => tag.id),
+    state: flags.state,
+    sort: flags.sort,
+    page: flags.page,
+    per_page: flags.limit,
+  }))
+}
+
+const commands = {
+  async add(api, flags, [url]) {
+    let link = await api.post('/links', {
+      url: requireArg(url, 'URL'),
+      title: flags.title,
+      rating: parseRating(flags.rating),
+    })
+
+    // Tags are set once the link exists, so a rejected URL creates no tags
+    const tags = await resolveTags(api, flags.tag, { create: true })
+    if (tags.length > 0) {
+      link = await api.patch(`/links/${link.id}`, { tag_ids: tags.map((tag) => tag.id) })
+    }
+    print(flags, link, (data) => `Saved ${data.url}\n${formatLinkDetails(data)}`)
+  },
+
+  async list(api, flags) {
+    const result = await api.get('/links', await getSearchQuery(api, flags))
+    print(flags, result, (data) => `${formatLinksTable(data.links)}\n\n${formatPageSummary(data)}`)
+  },
+
+  async search(api, flags, [query]) {
+    const result = await api.get(
+      '/search',
+      await getSearchQuery(api, flags, requireArg(query, 'search query'))
+    )
+    print(flags, result, (data) => `${formatLinksTable(data.links)}\n\n${formatPageSummary(data)}`)
+  },
+
+  async show(api, flags, [id]) {
+    const link = await api.get(`/links/${requireArg(id, 'link ID')}`)
+    print(flags, link, formatLinkDetails)
+  },
+
+  async update(api, flags, [id]) {
+    const changes = {
+      title: flags.title,
+      ai_description: flags.description,
+      notes: flags.notes,
+      rating: parseRating(flags.rating),
+      reading_state: flags.state,
+      ...(flags.tag && {
+        tag_ids: (await resolveTags(api, flags.tag, { create: true })).map((tag) => tag.id),
+      }),
+    }
+    if (Object.values(changes).every((value) => value === undefined)) {
+      throw new UsageError('Nothing to change - pass --title, --description, --rating, ...')
+    }
+
+    const link = await api.patch(`/links/${requireArg(id, 'link ID')}`, changes)
+    print(flags, link, formatLinkDetails)
+  },
+
+  async delete(api, flags, [id]) {
+    await api.delete(`/links/${requireArg(id, 'link ID')}`)
+    print(flags, { id, deleted: true }, () => 'Moved to the trash.')
+  },
+
+  async tags(api, flags, [action = 'list', ...args]) {
+    switch (action) {
+      case 'list': {
+        print(flags, await api.get('/tags'), formatTagsTable)
+        return
+      }
+      case 'create': {
+        const tag = await api.post('/tags', { name: requireArg(args[0], 'tag name') })
+        print(flags, tag, (data) => `Created tag "${data.name}" (${data.id})`)
+        return
+      }
+      case 'rename': {
+        const tag = await resolveTag(api, args[0])
+        const name = requireArg(args[1], 'new tag name')
+        const renamed = await api.patch(`/tags/${tag.id}`, { name })
+        print(flags, renamed ?? { ...tag, name }, () => `Renamed "${tag.name}" to "${name}"`)
+        return
+      }
+      case 'merge': {
+        const [source, target] = await resolveTags(api, [
+          requireArg(args[0], 'source tag'),
+          requireArg(args[1], 'target tag'),
+        ])
+        const result = await api.post(`/tags/${source.id}/merge`, { target_id: target.id })
+        print(flags, result ?? { source_id: source.id, target_id: target.id }, () =>
+          `Merged "${source.name}" into "${target.name}"`
+        )
+        return
+      }
+      case 'delete': {
+        const tag = await resolveTag(api, args[0])
+        await api.delete(`/tags/${tag.id}`)
+        print(flags, { id: tag.id, deleted: true }, () => `Deleted tag "${tag.name}"`)
+        return
+      }
+      default:
+        throw new UsageError(`Unknown tags command "${action}"`)
+    }
+  },
+
+  async export(api, flags) {
+    const content = await api.download('/export', { format: flags.format || 'json' })
+    if (flags.output) {
+      await writeFile(flags.output, content)
+      console.error(`Exported to ${flags.output}`)
+    } else {
+      process.stdout.write(content.endsWith('\n') ? content : `${content}\n`)
+    }
+  },
+}
+
+async function main() {
+  const { values: flags, positionals } = parseArgs({
+    args: process.argv.slice(2),
+    options: OPTIONS,
+    allowPositionals: true,
+  })
+  const [command, ...args] = positionals
+
+  if (!command || command === 'help' || flags.help) {
+    console.log(HELP)
+    return
+  }
+
+  if (command === 'login') {
+    const token = requireArg(args[0] || flags.token, 'token')
+    const { url } = await loadConfig(flags)
+    const path = await saveConfig({ url, token })
+    console.log(`Token saved to ${path} (server: ${url})`)
+    return
+  }
+
+  if (command === 'logout') {
+    await removeConfig()
+    console.log('Token removed.')
+    return
+  }
+
+  const run = commands[command]
+  if (!run) {
+    throw new UsageError(`Unknown command "${command}"`)
+  }
+
+  const api = createApiClient(await loadConfig(flags))
+  await run(api, flags, args)
+}
+
+main().catch((error) => {
+  if (error instanceof UsageError || error.code === 'ERR_PARSE_ARGS_UNKNOWN_OPTION') {
+    console.error(`${error.message}\nRun \`taglink help\` for usage.`)
+    process.exitCode = 2
+  } else if (error instanceof ApiError) {
+    console.error(`Error: ${error.message}`)
+    process.exitCode = 1
+  } else {
+    console.error(error)
+    process.exitCode = 1
+  }
+})
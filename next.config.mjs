@@ -15,6 +15,16 @@ const nextConfig = {
   },
   async headers() {
     return [
+      {
+        // The service worker must never be served stale, or updates would not reach users
+        source: '/sw.js',
+        headers: [
+          {
+            key: 'Cache-Control',
+            value: 'no-cache, no-store, must-revalidate',
+          },
+        ],
+      },
       {
         // Apply security headers to all routes
         source: '/:path*',
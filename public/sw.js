@@ -0,0 +1,106 @@
+/**
+ * TagLink service worker
+ * Caches the app shell (static assets) and the pages the user opened, so the library stays
+ * browsable offline. Link data itself is kept by the app (src/lib/offline/link-cache.ts),
+ * as it is loaded through server actions (POST) that cannot be cached here.
+ */
+
+const VERSION = 'v1'
+const SHELL_CACHE = `taglink-shell-${VERSION}`
+const PAGES_CACHE = `taglink-pages-${VERSION}`
+
+// Pages kept for offline use, most recently opened first
+const MAX_CACHED_PAGES = 30
+
+const OFFLINE_URL = '/offline'
+const SHELL_URLS = [OFFLINE_URL, '/icon.svg']
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches
+      .open(SHELL_CACHE)
+      .then((cache) => cache.addAll(SHELL_URLS))
+      .then(() => self.skipWaiting())
+  )
+})
+
+self.addEventListener('activate', (event) => {
+  // Drop caches of older versions
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((key) => key.startsWith('taglink-'))
+            .filter((key) => key !== SHELL_CACHE && key !== PAGES_CACHE)
+            .map((key) => caches.delete(key))
+        )
+      )
+      .then(() => self.clients.claim())
+  )
+})
+
+// Signing out removes the pages of the previous user
+self.addEventListener('message', (event) => {
+  if (event.data && event.data.type === 'clear-pages') {
+    event.waitUntil(caches.delete(PAGES_CACHE))
+  }
+})
+
+async function trimPages(cache) {
+  const keys = await cache.keys()
+  // Cache.keys() lists entries in insertion order - the oldest come first
+  const expired = keys.slice(0, Math.max(0, keys.length - MAX_CACHED_PAGES))
+  await Promise.all(expired.map((key) => cache.delete(key)))
+}
+
+// Pages: network first, the saved copy (or the offline page) without a connection
+async function handleNavigation(request) {
+  const cache = await caches.open(PAGES_CACHE)
+
+  try {
+    const response = await fetch(request)
+    if (response.ok && !response.redirected && response.type === 'basic') {
+      // Re-insert so the page counts as recently opened
+      await cache.delete(request)
+      await cache.put(request, response.clone())
+      await trimPages(cache)
+    }
+    return response
+  } catch {
+    return (
+      (await cache.match(request)) ||
+      (await caches.match(OFFLINE_URL)) ||
+      new Response('You are offline', { status: 503, headers: { 'Content-Type': 'text/plain' } })
+    )
+  }
+}
+
+// Build assets have hashed names and never change: cache first
+async function handleAsset(request) {
+  const cached = await caches.match(request)
+  if (cached) return cached
+
+  const response = await fetch(request)
+  if (response.ok) {
+    const cache = await caches.open(SHELL_CACHE)
+    await cache.put(request, response.clone())
+  }
+  return response
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event
+  if (request.method !== 'GET') return
+
+  const url = new URL(request.url)
+  if (url.origin !== self.location.origin) return
+  if (url.pathname.startsWith('/api/') || url.pathname.startsWith('/auth/')) return
+
+  if (request.mode === 'navigate') {
+    event.respondWith(handleNavigation(request))
+  } else if (url.pathname.startsWith('/_next/static/') || SHELL_URLS.includes(url.pathname)) {
+    event.respondWith(handleAsset(request))
+  }
+})
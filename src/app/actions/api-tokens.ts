@@ -0,0 +1,166 @@
+'use server'
+
+import { createServerActionClient } from '@/lib/supabase/server'
+import { revalidatePath } from 'next/cache'
+import { z } from 'zod'
+import { apiTokenIdSchema, createApiTokenSchema } from '@/lib/validations/api-tokens'
+import { generateApiToken, getApiTokenPrefix, hashApiToken } from '@/lib/api/tokens'
+import { getShareExpiresAt } from '@/lib/shares/tokens'
+import { getWorkspaceScope } from '@/lib/workspaces/server'
+import { canEditContent, scopeOwner, READ_ONLY_ERROR } from '@/lib/workspaces/scope'
+import type { ApiTokenInfo } from '@/types'
+
+export type CreateApiTokenInput = z.input<typeof createApiTokenSchema>
+
+// Everything but the hash
+const TOKEN_COLUMNS =
+  'id, user_id, workspace_id, name, token_prefix, scopes, last_used_at, expires_at, created_at'
+
+/**
+ * Get the user's personal access tokens (of all spaces), newest first
+ */
+export async function getApiTokens(): Promise<{
+  success: boolean
+  data?: ApiTokenInfo[]
+  error?: string
+}> {
+  const supabase = await createServerActionClient()
+
+  // Get authenticated user
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { success: false, error: 'Not authenticated' }
+  }
+
+  const { data: tokens, error: fetchError } = await supabase
+    .from('personal_access_tokens')
+    .select(`${TOKEN_COLUMNS}, workspace:workspaces ( name )`)
+    .eq('user_id', user.id)
+    .order('created_at', { ascending: false })
+
+  if (fetchError) {
+    console.error('Error fetching API tokens:', fetchError)
+    return { success: false, error: 'Failed to fetch API tokens' }
+  }
+
+  const tokensWithWorkspace = (tokens || []).map(({ workspace, ...token }) => ({
+    ...token,
+    workspace_name: (workspace as unknown as { name: string } | null)?.name ?? null,
+  }))
+
+  return { success: true, data: tokensWithWorkspace }
+}
+
+/**
+ * Create a token for the active space
+ * The plain token is returned only here - the database keeps its hash.
+ */
+export async function createApiToken(input: CreateApiTokenInput): Promise<{
+  success: boolean
+  data?: { token: string; apiToken: ApiTokenInfo }
+  error?: string
+}> {
+  const supabase = await createServerActionClient()
+
+  // Get authenticated user
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { success: false, error: 'Not authenticated' }
+  }
+
+  // Validate input
+  const validation = createApiTokenSchema.safeParse(input)
+  if (!validation.success) {
+    return {
+      success: false,
+      error: validation.error.issues[0]?.message || 'Validation failed',
+    }
+  }
+
+  const { name, scopes, expiresInDays } = validation.data
+
+  // Viewers can only read through the API
+  const scope = await getWorkspaceScope(supabase, user.id)
+  if (!canEditContent(scope.role) && scopes.some((item) => item.endsWith(':write'))) {
+    return { success: false, error: READ_ONLY_ERROR }
+  }
+
+  const token = generateApiToken()
+
+  const { data: apiToken, error: insertError } = await supabase
+    .from('personal_access_tokens')
+    .insert({
+      ...scopeOwner(scope),
+      name,
+      token_hash: await hashApiToken(token),
+      token_prefix: getApiTokenPrefix(token),
+      scopes,
+      expires_at: getShareExpiresAt(expiresInDays),
+    })
+    .select(`${TOKEN_COLUMNS}, workspace:workspaces ( name )`)
+    .single()
+
+  if (insertError) {
+    console.error('Error creating API token:', insertError)
+    return { success: false, error: 'Failed to create API token' }
+  }
+
+  const { workspace, ...tokenInfo } = apiToken
+
+  revalidatePath('/settings')
+  return {
+    success: true,
+    data: {
+      token,
+      apiToken: {
+        ...tokenInfo,
+        workspace_name: (workspace as unknown as { name: string } | null)?.name ?? null,
+      },
+    },
+  }
+}
+
+/**
+ * Revoke a token - requests with it are rejected right away
+ */
+export async function revokeApiToken(id: string) {
+  const supabase = await createServerActionClient()
+
+  // Get authenticated user
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { success: false, error: 'Not authenticated' }
+  }
+
+  // Validate input
+  const validation = apiTokenIdSchema.safeParse({ id })
+  if (!validation.success) {
+    return { success: false, error: 'Invalid token ID' }
+  }
+
+  const { error: deleteError } = await supabase
+    .from('personal_access_tokens')
+    .delete()
+    .eq('id', id)
+    .eq('user_id', user.id)
+
+  if (deleteError) {
+    console.error('Error revoking API token:', deleteError)
+    return { success: false, error: 'Failed to revoke API token' }
+  }
+
+  revalidatePath('/settings')
+  return { success: true }
+}
@@ -0,0 +1,55 @@
+'use server'
+
+import { createServerActionClient } from '@/lib/supabase/server'
+import { deleteLinkSchema } from '@/lib/validations/links'
+import { sanitizeArticleHtml } from '@/lib/scraping/readability'
+import type { LinkArchive } from '@/types'
+
+/**
+ * Get the readable copy of a link's page (reader view)
+ * Returns null data when the page has not been archived (yet).
+ */
+export async function getLinkArchive(linkId: string): Promise<{
+  success: boolean
+  data?: LinkArchive | null
+  error?: string
+}> {
+  const supabase = await createServerActionClient()
+
+  // Get authenticated user
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { success: false, error: 'Not authenticated' }
+  }
+
+  // Validate input
+  const validation = deleteLinkSchema.safeParse({ id: linkId })
+  if (!validation.success) {
+    return { success: false, error: 'Invalid link ID' }
+  }
+
+  // RLS limits archives to links of the user's spaces
+  const { data: archive, error: fetchError } = await supabase
+    .from('link_archives')
+    .select('*')
+    .eq('link_id', linkId)
+    .maybeSingle()
+
+  if (fetchError) {
+    console.error('Error fetching link archive:', fetchError)
+    return { success: false, error: 'Failed to fetch archived copy' }
+  }
+
+  if (!archive) {
+    return { success: true, data: null }
+  }
+
+  return {
+    success: true,
+    data: { ...archive, content_html: sanitizeArticleHtml(archive.content_html, archive.source_url) },
+  }
+}
@@ -0,0 +1,460 @@
+'use server'
+
+import { createServerActionClient } from '@/lib/supabase/server'
+import { revalidatePath } from 'next/cache'
+import { bulkLinksSchema, bulkRatingSchema, bulkTagsSchema } from '@/lib/validations/links'
+import { addEditedFields } from '@/lib/links/edited-fields'
+import { planTagAdditions } from '@/lib/links/bulk'
+import { getWorkspaceScope } from '@/lib/workspaces/server'
+import {
+  canEditContent,
+  scopeQuery,
+  READ_ONLY_ERROR,
+  type OwnerScope,
+} from '@/lib/workspaces/scope'
+import { emitWebhookEvents } from '@/lib/webhooks'
+import type { WebhookEvent } from '@/lib/webhooks/events'
+
+// Maximum number of tags per link (enforced by check_link_tags_limit in the database)
+const MAX_TAGS_PER_LINK = 10
+
+type BulkActionResult = {
+  success: boolean
+  data?: {
+    updated: number
+    skipped: number // Links left unchanged (tag limit, URL conflict)
+    linkIds?: string[] // Links the action was applied to
+  }
+  error?: string
+}
+
+/**
+ * Add tags to many links
+ * Links that would end up with more than 10 tags are skipped and counted.
+ */
+export async function bulkAddTags(linkIds: string[], tagIds: string[]): Promise<BulkActionResult> {
+  const supabase = await createServerActionClient()
+
+  // Get authenticated user
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { success: false, error: 'Not authenticated' }
+  }
+
+  // Validate input
+  const validation = bulkTagsSchema.safeParse({ linkIds, tagIds })
+  if (!validation.success) {
+    return {
+      success: false,
+      error: validation.error.issues[0]?.message || 'Validation failed',
+    }
+  }
+
+  const scope = await getWorkspaceScope(supabase, user.id)
+  if (!canEditContent(scope.role)) {
+    return { success: false, error: READ_ONLY_ERROR }
+  }
+
+  // Verify the tags are in the active space
+  const uniqueTagIds = Array.from(new Set(tagIds))
+  const { data: tags, error: tagsError } = await scopeQuery(
+    supabase.from('tags').select('id'),
+    scope
+  )
+    .in('id', uniqueTagIds)
+
+  if (tagsError || !tags || tags.length !== uniqueTagIds.length) {
+    return { success: false, error: 'Tag not found' }
+  }
+
+  // Only live links of the active space are changed
+  const { data: links, error: linksError } = await scopeQuery(
+    supabase.from('links').select('id, user_edited_fields, link_tags(tag_id)'),
+    scope
+  )
+    .in('id', linkIds)
+    .is('deleted_at', null)
+
+  if (linksError) {
+    console.error('Error fetching links for bulk tagging:', linksError)
+    return { success: false, error: 'Failed to add tags' }
+  }
+
+  const plan = planTagAdditions(
+    (links || []).map((link) => ({
+      id: link.id,
+      tagIds: (link.link_tags || []).map((lt: { tag_id: string }) => lt.tag_id),
+    })),
+    uniqueTagIds,
+    MAX_TAGS_PER_LINK
+  )
+
+  if (plan.rows.length > 0) {
+    const { error: insertError } = await supabase
+      .from('link_tags')
+      .upsert(plan.rows, { onConflict: 'link_id,tag_id', ignoreDuplicates: true })
+
+    if (insertError) {
+      console.error('Error adding tags in bulk:', insertError)
+      return { success: false, error: 'Failed to add tags' }
+    }
+
+    // Remember the manual tag change so re-processing keeps the user's tags
+    await markTagsEdited(supabase, links || [], plan.changedLinkIds)
+    emitLinkEvents(supabase, scope, 'link.updated', plan.changedLinkIds, { fields: ['tags'] })
+  }
+
+  revalidatePath('/dashboard')
+  return {
+    success: true,
+    data: {
+      updated: plan.changedLinkIds.length,
+      skipped: plan.skippedLinkIds.length,
+      linkIds: plan.changedLinkIds,
+    },
+  }
+}
+
+/**
+ * Remove tags from many links
+ */
+export async function bulkRemoveTags(
+  linkIds: string[],
+  tagIds: string[]
+): Promise<BulkActionResult> {
+  const supabase = await createServerActionClient()
+
+  // Get authenticated user
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { success: false, error: 'Not authenticated' }
+  }
+
+  // Validate input
+  const validation = bulkTagsSchema.safeParse({ linkIds, tagIds })
+  if (!validation.success) {
+    return {
+      success: false,
+      error: validation.error.issues[0]?.message || 'Validation failed',
+    }
+  }
+
+  const scope = await getWorkspaceScope(supabase, user.id)
+  if (!canEditContent(scope.role)) {
+    return { success: false, error: READ_ONLY_ERROR }
+  }
+
+  const { data: links, error: linksError } = await scopeQuery(
+    supabase.from('links').select('id, user_edited_fields'),
+    scope
+  )
+    .in('id', linkIds)
+    .is('deleted_at', null)
+
+  if (linksError) {
+    console.error('Error fetching links for bulk untagging:', linksError)
+    return { success: false, error: 'Failed to remove tags' }
+  }
+
+  if (!links || links.length === 0) {
+    return { success: true, data: { updated: 0, skipped: 0, linkIds: [] } }
+  }
+
+  const { data: removed, error: deleteError } = await supabase
+    .from('link_tags')
+    .delete()
+    .in(
+      'link_id',
+      links.map((link) => link.id)
+    )
+    .in('tag_id', tagIds)
+    .select('link_id')
+
+  if (deleteError) {
+    console.error('Error removing tags in bulk:', deleteError)
+    return { success: false, error: 'Failed to remove tags' }
+  }
+
+  const changedLinkIds = Array.from(new Set((removed || []).map((row) => row.link_id)))
+  await markTagsEdited(supabase, links, changedLinkIds)
+  emitLinkEvents(supabase, scope, 'link.updated', changedLinkIds, { fields: ['tags'] })
+
+  revalidatePath('/dashboard')
+  return {
+    success: true,
+    data: { updated: changedLinkIds.length, skipped: 0, linkIds: changedLinkIds },
+  }
+}
+
+/**
+ * Set (or clear) the rating of many links
+ */
+export async function bulkSetRating(
+  linkIds: string[],
+  rating: number | null
+): Promise<BulkActionResult> {
+  const supabase = await createServerActionClient()
+
+  // Get authenticated user
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { success: false, error: 'Not authenticated' }
+  }
+
+  // Validate input
+  const validation = bulkRatingSchema.safeParse({ linkIds, rating })
+  if (!validation.success) {
+    return {
+      success: false,
+      error: validation.error.issues[0]?.message || 'Validation failed',
+    }
+  }
+
+  const scope = await getWorkspaceScope(supabase, user.id)
+  if (!canEditContent(scope.role)) {
+    return { success: false, error: READ_ONLY_ERROR }
+  }
+
+  const { data: updated, error: updateError } = await scopeQuery(
+    supabase.from('links').update({ rating }),
+    scope
+  )
+    .in('id', linkIds)
+    .is('deleted_at', null)
+    .select('id')
+
+  if (updateError) {
+    console.error('Error rating links in bulk:', updateError)
+    return { success: false, error: 'Failed to update rating' }
+  }
+
+  const updatedIds = (updated || []).map((link) => link.id)
+  emitLinkEvents(supabase, scope, 'link.updated', updatedIds, { fields: ['rating'] }, { rating })
+
+  revalidatePath('/dashboard')
+  return {
+    success: true,
+    data: {
+      updated: updatedIds.length,
+      skipped: 0,
+      linkIds: updatedIds,
+    },
+  }
+}
+
+/**
+ * Move many links to the trash
+ * The IDs of the trashed links are returned so the deletion can be undone.
+ */
+export async function bulkDeleteLinks(linkIds: string[]): Promise<BulkActionResult> {
+  const supabase = await createServerActionClient()
+
+  // Get authenticated user
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { success: false, error: 'Not authenticated' }
+  }
+
+  // Validate input
+  const validation = bulkLinksSchema.safeParse({ linkIds })
+  if (!validation.success) {
+    return {
+      success: false,
+      error: validation.error.issues[0]?.message || 'Validation failed',
+    }
+  }
+
+  const scope = await getWorkspaceScope(supabase, user.id)
+  if (!canEditContent(scope.role)) {
+    return { success: false, error: READ_ONLY_ERROR }
+  }
+
+  // Soft delete (set deleted_at timestamp)
+  const { data: deleted, error: deleteError } = await scopeQuery(
+    supabase.from('links').update({ deleted_at: new Date().toISOString() }),
+    scope
+  )
+    .in('id', linkIds)
+    .is('deleted_at', null)
+    .select('id')
+
+  if (deleteError) {
+    console.error('Error deleting links in bulk:', deleteError)
+    return { success: false, error: 'Failed to delete links' }
+  }
+
+  const deletedIds = (deleted || []).map((link) => link.id)
+  emitLinkEvents(supabase, scope, 'link.deleted', deletedIds)
+
+  revalidatePath('/dashboard')
+  revalidatePath('/trash')
+  return {
+    success: true,
+    data: {
+      updated: deletedIds.length,
+      skipped: 0,
+      linkIds: deletedIds,
+    },
+  }
+}
+
+/**
+ * Move many links out of the trash
+ * Links whose URL has been saved again since are left in the trash and counted
+ * as skipped - restoreLink resolves those one at a time.
+ */
+export async function bulkRestoreLinks(linkIds: string[]): Promise<BulkActionResult> {
+  const supabase = await createServerActionClient()
+
+  // Get authenticated user
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { success: false, error: 'Not authenticated' }
+  }
+
+  // Validate input
+  const validation = bulkLinksSchema.safeParse({ linkIds })
+  if (!validation.success) {
+    return {
+      success: false,
+      error: validation.error.issues[0]?.message || 'Validation failed',
+    }
+  }
+
+  const scope = await getWorkspaceScope(supabase, user.id)
+  if (!canEditContent(scope.role)) {
+    return { success: false, error: READ_ONLY_ERROR }
+  }
+
+  const { data: trashedLinks, error: fetchError } = await scopeQuery(
+    supabase.from('links').select('id, normalized_url'),
+    scope
+  )
+    .in('id', linkIds)
+    .not('deleted_at', 'is', null)
+
+  if (fetchError) {
+    console.error('Error fetching trashed links:', fetchError)
+    return { success: false, error: 'Failed to restore links' }
+  }
+
+  if (!trashedLinks || trashedLinks.length === 0) {
+    return { success: true, data: { updated: 0, skipped: 0, linkIds: [] } }
+  }
+
+  // The unique URL indexes only allow one live link per URL in a space
+  const { data: liveLinks, error: liveError } = await scopeQuery(
+    supabase.from('links').select('normalized_url'),
+    scope
+  )
+    .in(
+      'normalized_url',
+      trashedLinks.map((link) => link.normalized_url)
+    )
+    .is('deleted_at', null)
+
+  if (liveError) {
+    console.error('Error checking for live copies:', liveError)
+    return { success: false, error: 'Failed to restore links' }
+  }
+
+  // The first trashed copy of a URL wins, later ones conflict with it
+  const takenUrls = new Set((liveLinks || []).map((link) => link.normalized_url))
+  const restorableIds: string[] = []
+  trashedLinks.forEach((link) => {
+    if (takenUrls.has(link.normalized_url)) return
+    takenUrls.add(link.normalized_url)
+    restorableIds.push(link.id)
+  })
+
+  if (restorableIds.length > 0) {
+    const { error: restoreError } = await scopeQuery(
+      supabase.from('links').update({ deleted_at: null }),
+      scope
+    )
+      .in('id', restorableIds)
+
+    if (restoreError) {
+      console.error('Error restoring links in bulk:', restoreError)
+      return { success: false, error: 'Failed to restore links' }
+    }
+
+    emitLinkEvents(supabase, scope, 'link.restored', restorableIds)
+  }
+
+  revalidatePath('/dashboard')
+  revalidatePath('/trash')
+  return {
+    success: true,
+    data: {
+      updated: restorableIds.length,
+      skipped: trashedLinks.length - restorableIds.length,
+      linkIds: restorableIds,
+    },
+  }
+}
+
+/**
+ * Send one webhook event per changed link
+ */
+function emitLinkEvents(
+  supabase: Awaited<ReturnType<typeof createServerActionClient>>,
+  scope: OwnerScope,
+  event: WebhookEvent,
+  linkIds: string[],
+  extra: Record<string, unknown> = {},
+  linkFields: Record<string, unknown> = {}
+) {
+  emitWebhookEvents(
+    supabase,
+    scope.userId,
+    event,
+    linkIds.map((id) => ({ link: { id, ...linkFields, workspace_id: scope.workspaceId }, ...extra }))
+  )
+}
+
+/**
+ * Add 'tags' to user_edited_fields of the changed links
+ */
+async function markTagsEdited(
+  supabase: Awaited<ReturnType<typeof createServerActionClient>>,
+  links: { id: string; user_edited_fields: string[] | null }[],
+  changedLinkIds: string[]
+) {
+  const results = await Promise.all(
+    links
+      .filter((link) => changedLinkIds.includes(link.id))
+      .map((link) =>
+        supabase
+          .from('links')
+          .update({ user_edited_fields: addEditedFields(link.user_edited_fields, ['tags']) })
+          .eq('id', link.id)
+      )
+  )
+
+  results.forEach(({ error }) => {
+    if (error) {
+      console.error('Error marking tags as edited:', error)
+    }
+  })
+}
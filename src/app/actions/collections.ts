@@ -0,0 +1,541 @@
+'use server'
+
+import { createServerActionClient } from '@/lib/supabase/server'
+import { revalidatePath } from 'next/cache'
+import {
+  collectionLinksSchema,
+  createCollectionSchema,
+  deleteCollectionSchema,
+  reorderCollectionSchema,
+  updateCollectionSchema,
+} from '@/lib/validations/collections'
+import { deleteLinkSchema } from '@/lib/validations/links'
+import { getWorkspaceScope } from '@/lib/workspaces/server'
+import { canEditContent, scopeOwner, scopeQuery, READ_ONLY_ERROR } from '@/lib/workspaces/scope'
+import type { Collection, CollectionWithCount, CollectionWithLinks, LinkWithTags } from '@/types'
+
+// Postgres unique_violation - the (space, lower(name)) indexes
+const UNIQUE_VIOLATION = '23505'
+
+/**
+ * Get the user's collections with the number of links in each
+ */
+export async function getCollections(): Promise<{
+  success: boolean
+  data?: CollectionWithCount[]
+  error?: string
+}> {
+  const supabase = await createServerActionClient()
+
+  // Get authenticated user
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { success: false, error: 'Not authenticated' }
+  }
+
+  const scope = await getWorkspaceScope(supabase, user.id)
+
+  const { data: collections, error: fetchError } = await scopeQuery(
+    supabase.from('collections').select(
+      `
+      *,
+      collection_links (count)
+    `
+    ),
+    scope
+  )
+    .order('position', { ascending: true })
+    .order('name', { ascending: true })
+
+  if (fetchError) {
+    console.error('Error fetching collections:', fetchError)
+    return { success: false, error: 'Failed to fetch collections' }
+  }
+
+  // Transform the data to include link count
+  const collectionsWithCount = (collections || []).map(
+    ({ collection_links, ...collection }) => ({
+      ...collection,
+      link_count: collection_links?.[0]?.count || 0,
+    })
+  )
+
+  return { success: true, data: collectionsWithCount }
+}
+
+/**
+ * Get a collection with its links in manual order
+ * Links in the trash stay in the collection but are not listed.
+ */
+export async function getCollection(id: string): Promise<{
+  success: boolean
+  data?: CollectionWithLinks
+  error?: string
+}> {
+  const supabase = await createServerActionClient()
+
+  // Get authenticated user
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { success: false, error: 'Not authenticated' }
+  }
+
+  const scope = await getWorkspaceScope(supabase, user.id)
+
+  // Validate input
+  const validation = deleteCollectionSchema.safeParse({ id })
+  if (!validation.success) {
+    return { success: false, error: 'Invalid collection ID' }
+  }
+
+  const { data: collection, error: fetchError } = await scopeQuery(
+    supabase.from('collections').select('*'),
+    scope
+  )
+    .eq('id', id)
+    .maybeSingle()
+
+  if (fetchError) {
+    console.error('Error fetching collection:', fetchError)
+    return { success: false, error: 'Failed to fetch collection' }
+  }
+
+  if (!collection) {
+    return { success: false, error: 'Collection not found' }
+  }
+
+  const { data: entries, error: entriesError } = await supabase
+    .from('collection_links')
+    .select('link_id')
+    .eq('collection_id', id)
+    .order('position', { ascending: true })
+    .order('created_at', { ascending: true })
+
+  if (entriesError) {
+    console.error('Error fetching collection links:', entriesError)
+    return { success: false, error: 'Failed to fetch collection' }
+  }
+
+  const linkIds = (entries || []).map((entry) => entry.link_id)
+  if (linkIds.length === 0) {
+    return { success: true, data: { ...collection, links: [] } }
+  }
+
+  const { data: links, error: linksError } = await scopeQuery(
+    supabase.from('links').select(
+      `
+      *,
+      link_tags (
+        tag:tags (
+          id,
+          name
+        )
+      )
+    `
+    ),
+    scope
+  )
+    .in('id', linkIds)
+    .is('deleted_at', null)
+
+  if (linksError) {
+    console.error('Error fetching collection links:', linksError)
+    return { success: false, error: 'Failed to fetch collection' }
+  }
+
+  // Restore the manual order of the collection
+  const linksById = new Map((links || []).map((link) => [link.id, link]))
+  const orderedLinks = linkIds
+    .map((linkId) => linksById.get(linkId))
+    .filter((link): link is NonNullable<typeof link> => !!link) as LinkWithTags[]
+
+  return { success: true, data: { ...collection, links: orderedLinks } }
+}
+
+/**
+ * Create a collection at the end of the user's list
+ */
+export async function createCollection(input: {
+  name: string
+  description?: string | null
+}): Promise<{ success: boolean; data?: Collection; error?: string }> {
+  const supabase = await createServerActionClient()
+
+  // Get authenticated user
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { success: false, error: 'Not authenticated' }
+  }
+
+  const scope = await getWorkspaceScope(supabase, user.id)
+  if (!canEditContent(scope.role)) {
+    return { success: false, error: READ_ONLY_ERROR }
+  }
+
+  // Validate input
+  const validation = createCollectionSchema.safeParse(input)
+  if (!validation.success) {
+    return {
+      success: false,
+      error: validation.error.issues[0]?.message || 'Validation failed',
+    }
+  }
+
+  const { name, description } = validation.data
+
+  const { data: last } = await scopeQuery(supabase.from('collections').select('position'), scope)
+    .order('position', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  const { data: collection, error: insertError } = await supabase
+    .from('collections')
+    .insert({
+      ...scopeOwner(scope),
+      name,
+      description: description || null,
+      position: last ? last.position + 1 : 0,
+    })
+    .select()
+    .single()
+
+  if (insertError) {
+    if (insertError.code === UNIQUE_VIOLATION) {
+      return { success: false, error: 'Collection already exists' }
+    }
+    console.error('Error creating collection:', insertError)
+    return { success: false, error: 'Failed to create collection' }
+  }
+
+  revalidatePath('/dashboard')
+  revalidatePath('/collections')
+  return { success: true, data: collection }
+}
+
+/**
+ * Rename a collection or change its description
+ */
+export async function updateCollection(input: {
+  id: string
+  name?: string
+  description?: string | null
+}): Promise<{ success: boolean; data?: Collection; error?: string }> {
+  const supabase = await createServerActionClient()
+
+  // Get authenticated user
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { success: false, error: 'Not authenticated' }
+  }
+
+  const scope = await getWorkspaceScope(supabase, user.id)
+  if (!canEditContent(scope.role)) {
+    return { success: false, error: READ_ONLY_ERROR }
+  }
+
+  // Validate input
+  const validation = updateCollectionSchema.safeParse(input)
+  if (!validation.success) {
+    return {
+      success: false,
+      error: validation.error.issues[0]?.message || 'Validation failed',
+    }
+  }
+
+  const { id, name, description } = validation.data
+
+  const updates: { name?: string; description?: string | null } = {}
+  if (name !== undefined) updates.name = name
+  if (description !== undefined) updates.description = description || null
+
+  const { data: collection, error: updateError } = await scopeQuery(
+    supabase.from('collections').update(updates),
+    scope
+  )
+    .eq('id', id)
+    .select()
+    .maybeSingle()
+
+  if (updateError) {
+    if (updateError.code === UNIQUE_VIOLATION) {
+      return { success: false, error: 'Collection already exists' }
+    }
+    console.error('Error updating collection:', updateError)
+    return { success: false, error: 'Failed to update collection' }
+  }
+
+  if (!collection) {
+    return { success: false, error: 'Collection not found' }
+  }
+
+  revalidatePath('/dashboard')
+  revalidatePath('/collections')
+  return { success: true, data: collection }
+}
+
+/**
+ * Delete a collection
+ * The links themselves are kept - only their membership is removed.
+ */
+export async function deleteCollection(id: string) {
+  const supabase = await createServerActionClient()
+
+  // Get authenticated user
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { success: false, error: 'Not authenticated' }
+  }
+
+  const scope = await getWorkspaceScope(supabase, user.id)
+  if (!canEditContent(scope.role)) {
+    return { success: false, error: READ_ONLY_ERROR }
+  }
+
+  // Validate input
+  const validation = deleteCollectionSchema.safeParse({ id })
+  if (!validation.success) {
+    return { success: false, error: 'Invalid collection ID' }
+  }
+
+  const { error: deleteError } = await scopeQuery(supabase.from('collections').delete(), scope)
+    .eq('id', id)
+
+  if (deleteError) {
+    console.error('Error deleting collection:', deleteError)
+    return { success: false, error: 'Failed to delete collection' }
+  }
+
+  revalidatePath('/dashboard')
+  revalidatePath('/collections')
+  return { success: true }
+}
+
+/**
+ * Add links to the end of a collection
+ * Links already in the collection keep their position.
+ */
+export async function addLinksToCollection(collectionId: string, linkIds: string[]) {
+  const supabase = await createServerActionClient()
+
+  // Get authenticated user
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { success: false, error: 'Not authenticated' }
+  }
+
+  const scope = await getWorkspaceScope(supabase, user.id)
+  if (!canEditContent(scope.role)) {
+    return { success: false, error: READ_ONLY_ERROR }
+  }
+
+  // Validate input
+  const validation = collectionLinksSchema.safeParse({ collectionId, linkIds })
+  if (!validation.success) {
+    return {
+      success: false,
+      error: validation.error.issues[0]?.message || 'Validation failed',
+    }
+  }
+
+  const { data: collection } = await scopeQuery(supabase.from('collections').select('id'), scope)
+    .eq('id', collectionId)
+    .maybeSingle()
+
+  if (!collection) {
+    return { success: false, error: 'Collection not found' }
+  }
+
+  // Only links of the collection's space can be added
+  const { data: links, error: linksError } = await scopeQuery(
+    supabase.from('links').select('id'),
+    scope
+  )
+    .in('id', linkIds)
+
+  if (linksError || !links || links.length === 0) {
+    return { success: false, error: 'Links not found' }
+  }
+
+  const { data: last } = await supabase
+    .from('collection_links')
+    .select('position')
+    .eq('collection_id', collectionId)
+    .order('position', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  const start = last ? last.position + 1 : 0
+  const ownedIds = new Set(links.map((link) => link.id))
+  const rows = linkIds
+    .filter((id) => ownedIds.has(id))
+    .map((linkId, index) => ({
+      collection_id: collectionId,
+      link_id: linkId,
+      position: start + index,
+    }))
+
+  const { error: insertError } = await supabase
+    .from('collection_links')
+    .upsert(rows, { onConflict: 'collection_id,link_id', ignoreDuplicates: true })
+
+  if (insertError) {
+    console.error('Error adding links to collection:', insertError)
+    return { success: false, error: 'Failed to add links to collection' }
+  }
+
+  revalidatePath('/dashboard')
+  revalidatePath('/collections')
+  return { success: true, count: rows.length }
+}
+
+/**
+ * Remove a link from a collection
+ */
+export async function removeLinkFromCollection(collectionId: string, linkId: string) {
+  const supabase = await createServerActionClient()
+
+  // Get authenticated user
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { success: false, error: 'Not authenticated' }
+  }
+
+  const scope = await getWorkspaceScope(supabase, user.id)
+  if (!canEditContent(scope.role)) {
+    return { success: false, error: READ_ONLY_ERROR }
+  }
+
+  // Validate input
+  const validation = collectionLinksSchema.safeParse({ collectionId, linkIds: [linkId] })
+  if (!validation.success) {
+    return { success: false, error: 'Invalid link ID' }
+  }
+
+  // RLS limits the delete to the user's collections
+  const { error: deleteError } = await supabase
+    .from('collection_links')
+    .delete()
+    .eq('collection_id', collectionId)
+    .eq('link_id', linkId)
+
+  if (deleteError) {
+    console.error('Error removing link from collection:', deleteError)
+    return { success: false, error: 'Failed to remove link from collection' }
+  }
+
+  revalidatePath('/dashboard')
+  revalidatePath('/collections')
+  return { success: true }
+}
+
+/**
+ * Store a new manual order of the links in a collection
+ */
+export async function reorderCollectionLinks(collectionId: string, linkIds: string[]) {
+  const supabase = await createServerActionClient()
+
+  // Get authenticated user
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { success: false, error: 'Not authenticated' }
+  }
+
+  const scope = await getWorkspaceScope(supabase, user.id)
+  if (!canEditContent(scope.role)) {
+    return { success: false, error: READ_ONLY_ERROR }
+  }
+
+  // Validate input
+  const validation = reorderCollectionSchema.safeParse({ collectionId, linkIds })
+  if (!validation.success) {
+    return {
+      success: false,
+      error: validation.error.issues[0]?.message || 'Validation failed',
+    }
+  }
+
+  // Runs with the caller's rights, so RLS still applies
+  const { error: rpcError } = await supabase.rpc('reorder_collection_links', {
+    p_collection_id: collectionId,
+    p_link_ids: linkIds,
+  })
+
+  if (rpcError) {
+    console.error('Error reordering collection:', rpcError)
+    return { success: false, error: 'Failed to reorder collection' }
+  }
+
+  revalidatePath('/collections')
+  return { success: true }
+}
+
+/**
+ * IDs of the collections a link belongs to
+ */
+export async function getLinkCollectionIds(linkId: string): Promise<{
+  success: boolean
+  data?: string[]
+  error?: string
+}> {
+  const supabase = await createServerActionClient()
+
+  // Get authenticated user
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { success: false, error: 'Not authenticated' }
+  }
+
+  // Validate input
+  const validation = deleteLinkSchema.safeParse({ id: linkId })
+  if (!validation.success) {
+    return { success: false, error: 'Invalid link ID' }
+  }
+
+  const { data: entries, error: fetchError } = await supabase
+    .from('collection_links')
+    .select('collection_id')
+    .eq('link_id', linkId)
+
+  if (fetchError) {
+    console.error('Error fetching link collections:', fetchError)
+    return { success: false, error: 'Failed to fetch link collections' }
+  }
+
+  return { success: true, data: (entries || []).map((entry) => entry.collection_id) }
+}
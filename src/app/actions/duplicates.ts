@@ -0,0 +1,234 @@
+'use server'
+
+import { createServerActionClient } from '@/lib/supabase/server'
+import { revalidatePath } from 'next/cache'
+import { mergeDuplicatesSchema } from '@/lib/validations/links'
+import {
+  findDuplicateGroups,
+  planDuplicateMerge,
+  type DuplicateCandidate,
+} from '@/lib/links/duplicates'
+import { addEditedFields } from '@/lib/links/edited-fields'
+import { getWorkspaceScope } from '@/lib/workspaces/server'
+import { canEditContent, scopeQuery, READ_ONLY_ERROR } from '@/lib/workspaces/scope'
+import { emitWebhookEvent, emitWebhookEvents } from '@/lib/webhooks'
+import type { DuplicateLinkGroup, LinkWithTags, Tag } from '@/types'
+
+// Rows fetched per request while loading all links of the user
+const PAGE_SIZE = 1000
+
+/**
+ * Find groups of links that look like the same page
+ * (same canonical URL variant, same title or nearly the same scraped text)
+ */
+export async function getDuplicateGroups(): Promise<{
+  success: boolean
+  data?: DuplicateLinkGroup[]
+  error?: string
+}> {
+  const supabase = await createServerActionClient()
+
+  // Get authenticated user
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { success: false, error: 'Not authenticated' }
+  }
+
+  const scope = await getWorkspaceScope(supabase, user.id)
+
+  try {
+    const linksById = new Map<string, LinkWithTags>()
+    const candidates: DuplicateCandidate[] = []
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await scopeQuery(
+        supabase.from('links').select(
+          `
+          *,
+          link_tags (
+            tag:tags (
+              id,
+              name
+            )
+          )
+        `
+        ),
+        scope
+      )
+        .is('deleted_at', null)
+        .order('created_at', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1)
+
+      if (error) {
+        console.error('Error fetching links for duplicate check:', error)
+        return { success: false, error: 'Failed to check for duplicates' }
+      }
+
+      for (const link of data || []) {
+        const tags: Tag[] = link.link_tags?.map((lt: { tag: Tag }) => lt.tag).filter(Boolean) || []
+        candidates.push({ ...link, tagIds: tags.map((tag) => tag.id) })
+        // Scraped text is only needed for the comparison
+        linksById.set(link.id, { ...link, link_tags: undefined, tags, scraped_content: null })
+      }
+
+      if (!data || data.length < PAGE_SIZE) break
+    }
+
+    const groups = findDuplicateGroups(candidates).map((group) => ({
+      reasons: group.reasons,
+      links: group.links.map((candidate) => linksById.get(candidate.id)!),
+    }))
+
+    return { success: true, data: groups }
+  } catch (error) {
+    console.error('Unexpected error in getDuplicateGroups:', error)
+    return { success: false, error: 'An unexpected error occurred' }
+  }
+}
+
+/**
+ * Merge duplicate links into one
+ * The kept link gets the best rating, the tags of all links and the oldest
+ * created_at; the other links are moved to the trash.
+ */
+export async function mergeDuplicateLinks(
+  linkIds: string[],
+  keepId: string
+): Promise<{
+  success: boolean
+  data?: { keptLinkId: string; removed: number }
+  error?: string
+}> {
+  const supabase = await createServerActionClient()
+
+  // Get authenticated user
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { success: false, error: 'Not authenticated' }
+  }
+
+  const scope = await getWorkspaceScope(supabase, user.id)
+  if (!canEditContent(scope.role)) {
+    return { success: false, error: READ_ONLY_ERROR }
+  }
+
+  // Validate input
+  const validation = mergeDuplicatesSchema.safeParse({ linkIds, keepId })
+  if (!validation.success) {
+    return {
+      success: false,
+      error: validation.error.issues[0]?.message || 'Validation failed',
+    }
+  }
+
+  try {
+    const { data: links, error: fetchError } = await scopeQuery(
+      supabase.from('links').select('id, url, title, ai_description, notes, scraped_content, rating, created_at, user_edited_fields, link_tags(tag_id)'),
+      scope
+    )
+      .is('deleted_at', null)
+      .in('id', validation.data.linkIds)
+
+    if (fetchError) {
+      console.error('Error fetching links to merge:', fetchError)
+      return { success: false, error: 'Failed to merge links' }
+    }
+
+    if (!links || links.length !== new Set(validation.data.linkIds).size) {
+      return { success: false, error: 'Some links were not found' }
+    }
+
+    const candidates = links.map((link) => ({
+      ...link,
+      tagIds: (link.link_tags || []).map((lt: { tag_id: string }) => lt.tag_id),
+    }))
+    const plan = planDuplicateMerge(candidates, validation.data.keepId)
+    const kept = candidates.find((link) => link.id === plan.keepId)!
+    const removed = candidates.filter((link) => link.id !== plan.keepId)
+    const tagsChanged = plan.tagIds.some((tagId) => !kept.tagIds.includes(tagId))
+
+    // Tags first: link_tags of the removed links stay until they are purged from the trash
+    const newTagIds = plan.tagIds.filter((tagId) => !kept.tagIds.includes(tagId))
+    if (newTagIds.length > 0) {
+      const { error: tagError } = await supabase
+        .from('link_tags')
+        .upsert(
+          newTagIds.map((tagId) => ({ link_id: kept.id, tag_id: tagId })),
+          { onConflict: 'link_id,tag_id', ignoreDuplicates: true }
+        )
+
+      if (tagError) {
+        console.error('Error merging tags:', tagError)
+        return { success: false, error: 'Failed to merge tags' }
+      }
+    }
+
+    const { error: updateError } = await scopeQuery(
+      supabase.from('links').update({
+        rating: plan.rating,
+        created_at: plan.createdAt,
+        // Fill in details the kept link is missing
+        title: kept.title ?? removed.find((link) => link.title)?.title ?? null,
+        ai_description:
+          kept.ai_description ?? removed.find((link) => link.ai_description)?.ai_description ?? null,
+        notes: kept.notes ?? removed.find((link) => link.notes)?.notes ?? null,
+        // Merged tags are a manual choice - keep them when the link is re-processed
+        user_edited_fields: tagsChanged
+          ? addEditedFields(kept.user_edited_fields, ['tags'])
+          : kept.user_edited_fields,
+      }),
+      scope
+    )
+      .eq('id', kept.id)
+
+    if (updateError) {
+      console.error('Error updating merged link:', updateError)
+      return { success: false, error: 'Failed to merge links' }
+    }
+
+    // Soft delete the rest so the merge can be undone from the trash
+    const { error: deleteError } = await scopeQuery(
+      supabase.from('links').update({ deleted_at: new Date().toISOString() }),
+      scope
+    )
+      .in('id', plan.removeIds)
+
+    if (deleteError) {
+      console.error('Error removing merged duplicates:', deleteError)
+      return { success: false, error: 'Failed to remove duplicates' }
+    }
+
+    emitWebhookEvent(supabase, user.id, 'link.updated', {
+      link: { id: kept.id, rating: plan.rating, workspace_id: scope.workspaceId },
+      fields: [
+        'rating',
+        'created_at',
+        'title',
+        'ai_description',
+        'notes',
+        ...(tagsChanged ? ['tags'] : []),
+      ],
+    })
+    emitWebhookEvents(
+      supabase,
+      user.id,
+      'link.deleted',
+      plan.removeIds.map((id) => ({ link: { id, workspace_id: scope.workspaceId } }))
+    )
+
+    revalidatePath('/dashboard')
+    revalidatePath('/trash')
+    return { success: true, data: { keptLinkId: kept.id, removed: plan.removeIds.length } }
+  } catch (error) {
+    console.error('Unexpected error in mergeDuplicateLinks:', error)
+    return { success: false, error: 'An unexpected error occurred' }
+  }
+}
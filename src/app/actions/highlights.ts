@@ -0,0 +1,214 @@
+'use server'
+
+import { createServerActionClient } from '@/lib/supabase/server'
+import { revalidatePath } from 'next/cache'
+import {
+  createHighlightSchema,
+  deleteHighlightSchema,
+  updateHighlightSchema,
+} from '@/lib/validations/highlights'
+import { deleteLinkSchema } from '@/lib/validations/links'
+import { getWorkspaceScope } from '@/lib/workspaces/server'
+import { canEditContent, scopeQuery, READ_ONLY_ERROR } from '@/lib/workspaces/scope'
+import type { LinkHighlight } from '@/types'
+
+export interface CreateHighlightInput {
+  linkId: string
+  quote: string
+  prefix: string
+  suffix: string
+  startOffset: number
+  endOffset: number
+  comment?: string | null
+}
+
+/**
+ * Get the highlights of a link in text order
+ */
+export async function getHighlights(linkId: string): Promise<{
+  success: boolean
+  data?: LinkHighlight[]
+  error?: string
+}> {
+  const supabase = await createServerActionClient()
+
+  // Get authenticated user
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { success: false, error: 'Not authenticated' }
+  }
+
+  // Validate input
+  const validation = deleteLinkSchema.safeParse({ id: linkId })
+  if (!validation.success) {
+    return { success: false, error: 'Invalid link ID' }
+  }
+
+  // RLS limits highlights to links of the user's spaces
+  const { data: highlights, error: fetchError } = await supabase
+    .from('link_highlights')
+    .select('*')
+    .eq('link_id', linkId)
+    .order('start_offset', { ascending: true })
+
+  if (fetchError) {
+    console.error('Error fetching highlights:', fetchError)
+    return { success: false, error: 'Failed to fetch highlights' }
+  }
+
+  return { success: true, data: highlights || [] }
+}
+
+/**
+ * Highlight a passage of a link's archived page
+ */
+export async function createHighlight(input: CreateHighlightInput): Promise<{
+  success: boolean
+  data?: LinkHighlight
+  error?: string
+}> {
+  const supabase = await createServerActionClient()
+
+  // Get authenticated user
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { success: false, error: 'Not authenticated' }
+  }
+
+  const scope = await getWorkspaceScope(supabase, user.id)
+  if (!canEditContent(scope.role)) {
+    return { success: false, error: READ_ONLY_ERROR }
+  }
+
+  // Validate input
+  const validation = createHighlightSchema.safeParse(input)
+  if (!validation.success) {
+    return {
+      success: false,
+      error: validation.error.issues[0]?.message || 'Validation failed',
+    }
+  }
+
+  const { linkId, quote, prefix, suffix, startOffset, endOffset, comment } = validation.data
+
+  // Check if link exists in the active space
+  const { data: link, error: fetchError } = await scopeQuery(
+    supabase.from('links').select('id'),
+    scope
+  )
+    .eq('id', linkId)
+    .is('deleted_at', null)
+    .maybeSingle()
+
+  if (fetchError || !link) {
+    return { success: false, error: 'Link not found' }
+  }
+
+  const { data: highlight, error: insertError } = await supabase
+    .from('link_highlights')
+    .insert({
+      link_id: linkId,
+      user_id: user.id,
+      quote,
+      prefix,
+      suffix,
+      start_offset: startOffset,
+      end_offset: endOffset,
+      comment: comment?.trim() || null,
+    })
+    .select()
+    .single()
+
+  if (insertError) {
+    console.error('Error creating highlight:', insertError)
+    return { success: false, error: 'Failed to save highlight' }
+  }
+
+  revalidatePath('/dashboard')
+  return { success: true, data: highlight }
+}
+
+/**
+ * Change or remove the comment of a highlight
+ */
+export async function updateHighlightComment(highlightId: string, comment: string | null) {
+  const supabase = await createServerActionClient()
+
+  // Get authenticated user
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { success: false, error: 'Not authenticated' }
+  }
+
+  // Validate input
+  const validation = updateHighlightSchema.safeParse({ id: highlightId, comment })
+  if (!validation.success) {
+    return {
+      success: false,
+      error: validation.error.issues[0]?.message || 'Validation failed',
+    }
+  }
+
+  const { error: updateError } = await supabase
+    .from('link_highlights')
+    .update({ comment: comment?.trim() || null })
+    .eq('id', highlightId)
+    .eq('user_id', user.id)
+
+  if (updateError) {
+    console.error('Error updating highlight:', updateError)
+    return { success: false, error: 'Failed to update highlight' }
+  }
+
+  revalidatePath('/dashboard')
+  return { success: true }
+}
+
+/**
+ * Remove a highlight
+ */
+export async function deleteHighlight(highlightId: string) {
+  const supabase = await createServerActionClient()
+
+  // Get authenticated user
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { success: false, error: 'Not authenticated' }
+  }
+
+  // Validate input
+  const validation = deleteHighlightSchema.safeParse({ id: highlightId })
+  if (!validation.success) {
+    return { success: false, error: 'Invalid highlight ID' }
+  }
+
+  const { error: deleteError } = await supabase
+    .from('link_highlights')
+    .delete()
+    .eq('id', highlightId)
+    .eq('user_id', user.id)
+
+  if (deleteError) {
+    console.error('Error deleting highlight:', deleteError)
+    return { success: false, error: 'Failed to delete highlight' }
+  }
+
+  revalidatePath('/dashboard')
+  return { success: true }
+}
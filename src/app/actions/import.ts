@@ -0,0 +1,510 @@
+'use server'
+
+import { createServerActionClient } from '@/lib/supabase/server'
+import { revalidatePath } from 'next/cache'
+import { after } from 'next/server'
+import {
+  bulkImportSchema,
+  bookmarkImportPreviewSchema,
+  bookmarkImportBatchSchema,
+  MAX_BOOKMARK_IMPORT,
+} from '@/lib/validations/links'
+import { canonicalizeUrl, extractUrls } from '@/lib/links/urls'
+import {
+  createLinkForUser,
+  findExistingNormalizedUrls,
+  getRemainingLinkQuota,
+  isDuplicateLink,
+  validateNewLink,
+  RATE_LIMIT_WINDOW_MS,
+} from '@/lib/links/create'
+import { enqueueImports } from '@/lib/links/import-queue'
+import { getOrCreateTagIds } from '@/lib/tags/resolve'
+import { processLinkQueue } from '@/lib/queue'
+import { emitWebhookEvents } from '@/lib/webhooks'
+import { getLinkEventData } from '@/lib/webhooks/events'
+import { getWorkspaceScope } from '@/lib/workspaces/server'
+import { canEditContent, scopeOwner, scopeQuery, READ_ONLY_ERROR } from '@/lib/workspaces/scope'
+import type {
+  BookmarkImportBatchResult,
+  BookmarkImportEntry,
+  BookmarkImportPreview,
+  BulkImportItem,
+  BulkImportResult,
+  BulkImportStatus,
+  Link,
+} from '@/types'
+
+// Upper bound of URLs accepted from one paste
+const MAX_BULK_IMPORT_URLS = 200
+
+const BOOKMARK_IMPORT_WINDOW_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Helper function to truncate string to max length
+ * @param str - String to truncate
+ * @param maxLength - Maximum length (default 500 for database varchar(500))
+ * @returns Truncated string
+ */
+function truncateString(str: string | null | undefined, maxLength: number = 500): string | null {
+  if (!str) return null
+  return str.length > maxLength ? str.substring(0, maxLength) : str
+}
+
+/**
+ * Import every http(s) URL found in a pasted text blob
+ * URLs go through the regular create pipeline; once the hourly limit is reached
+ * the remaining ones are queued and added later by the import worker.
+ */
+export async function bulkImportUrls(text: string): Promise<{
+  success: boolean
+  data?: BulkImportResult
+  error?: string
+}> {
+  const supabase = await createServerActionClient()
+
+  // Get authenticated user
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { success: false, error: 'Not authenticated' }
+  }
+
+  // Validate input
+  const validation = bulkImportSchema.safeParse({ text })
+  if (!validation.success) {
+    return {
+      success: false,
+      error: validation.error.issues[0]?.message || 'Validation failed',
+    }
+  }
+
+  const scope = await getWorkspaceScope(supabase, user.id)
+  if (!canEditContent(scope.role)) {
+    return { success: false, error: READ_ONLY_ERROR }
+  }
+
+  const urls = extractUrls(validation.data.text)
+  if (urls.length === 0) {
+    return { success: false, error: 'No http(s) links found in the text' }
+  }
+
+  if (urls.length > MAX_BULK_IMPORT_URLS) {
+    return {
+      success: false,
+      error: `Found ${urls.length} links. You can import up to ${MAX_BULK_IMPORT_URLS} at once.`,
+    }
+  }
+
+  try {
+    // Indexed like `urls` so the report keeps the order of the pasted text
+    const items: BulkImportItem[] = new Array(urls.length)
+    const seen = new Set<string>()
+    const overflow: number[] = []
+    const createdLinks: Link[] = []
+    let limitReached = false
+
+    for (const [index, url] of urls.entries()) {
+      const normalized = canonicalizeUrl(url)
+      if (seen.has(normalized)) {
+        items[index] = { url, status: 'duplicate', message: 'Listed more than once' }
+        continue
+      }
+      seen.add(normalized)
+
+      if (limitReached) {
+        // Report problems right away instead of queueing URLs that can never be added
+        const validationError = validateNewLink({ url })
+        if (validationError) {
+          items[index] = { url, status: 'invalid', message: validationError }
+        } else if (await isDuplicateLink(supabase, scope, url)) {
+          items[index] = { url, status: 'duplicate', message: 'You have already saved this link' }
+        } else {
+          overflow.push(index)
+        }
+        continue
+      }
+
+      const outcome = await createLinkForUser(supabase, scope, { url })
+
+      switch (outcome.status) {
+        case 'created':
+          items[index] = { url, status: 'created' }
+          if (outcome.link) createdLinks.push(outcome.link)
+          break
+        case 'rate_limited':
+          limitReached = true
+          overflow.push(index)
+          break
+        case 'error':
+          items[index] = { url, status: 'failed', message: outcome.error }
+          break
+        default:
+          items[index] = { url, status: outcome.status, message: outcome.error }
+      }
+    }
+
+    // Links over the hourly limit wait in the import queue instead of being dropped
+    if (overflow.length > 0) {
+      const overflowUrls = overflow.map((index) => urls[index])
+      const queueResult = await enqueueImports(supabase, scope, overflowUrls)
+
+      for (const index of overflow) {
+        const url = urls[index]
+        if (!queueResult.success) {
+          items[index] = { url, status: 'failed', message: queueResult.error }
+        } else if (queueResult.alreadyQueued.includes(url)) {
+          items[index] = { url, status: 'duplicate', message: 'Already waiting in the import queue' }
+        } else {
+          items[index] = {
+            url,
+            status: 'rate_limited',
+            message: 'Hourly limit reached - queued and will be added automatically',
+          }
+        }
+      }
+    }
+
+    const counts: Record<BulkImportStatus, number> = {
+      created: 0,
+      duplicate: 0,
+      invalid: 0,
+      rate_limited: 0,
+      failed: 0,
+    }
+    items.forEach((item) => counts[item.status]++)
+
+    emitWebhookEvents(
+      supabase,
+      user.id,
+      'link.created',
+      createdLinks.map((link) => ({ link: getLinkEventData(link) }))
+    )
+
+    if (counts.created > 0) {
+      // Enrich the new links after the response is sent; the cron worker picks up the rest
+      after(async () => {
+        try {
+          const summary = await processLinkQueue(supabase, {
+            userId: user.id,
+            maxLinks: Math.min(counts.created, 10),
+          })
+          console.log(`[Queue] Bulk import run finished: ${JSON.stringify(summary)}`)
+        } catch (error) {
+          console.error('[Queue] Bulk import run failed:', error)
+        }
+      })
+    }
+
+    revalidatePath('/dashboard')
+    return { success: true, data: { items, counts } }
+  } catch (error) {
+    console.error('Unexpected error in bulkImportUrls:', error)
+    return { success: false, error: 'An unexpected error occurred' }
+  }
+}
+
+/**
+ * Summarize what a bookmark file import would create, without saving anything
+ * The file is parsed in the browser; only URLs and folder tags are sent here.
+ */
+export async function previewBookmarkImport(input: { urls: string[]; tags: string[] }): Promise<{
+  success: boolean
+  data?: BookmarkImportPreview
+  error?: string
+}> {
+  const supabase = await createServerActionClient()
+
+  // Get authenticated user
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { success: false, error: 'Not authenticated' }
+  }
+
+  // Validate input
+  const validation = bookmarkImportPreviewSchema.safeParse(input)
+  if (!validation.success) {
+    return {
+      success: false,
+      error: validation.error.issues[0]?.message || 'Validation failed',
+    }
+  }
+
+  const scope = await getWorkspaceScope(supabase, user.id)
+
+  try {
+    const { urls, tags } = validation.data
+
+    let invalid = 0
+    let duplicates = 0
+    const candidates = new Set<string>()
+
+    for (const url of urls) {
+      if (validateNewLink({ url })) {
+        invalid++
+        continue
+      }
+
+      const normalized = canonicalizeUrl(url)
+      if (candidates.has(normalized)) {
+        duplicates++
+        continue
+      }
+      candidates.add(normalized)
+    }
+
+    const existingUrls = await findExistingNormalizedUrls(supabase, scope, Array.from(candidates))
+    duplicates += existingUrls.size
+
+    // Tags that do not exist yet will be created
+    const uniqueTags = Array.from(new Set(tags.map((tag) => tag.toLowerCase())))
+    const { data: existingTags, error: tagsError } = uniqueTags.length
+      ? await scopeQuery(supabase.from('tags').select('name'), scope).in('name', uniqueTags)
+      : { data: [], error: null }
+
+    if (tagsError) {
+      console.error('Error fetching tags:', tagsError)
+      return { success: false, error: 'Failed to prepare import' }
+    }
+
+    const existingTagNames = new Set((existingTags || []).map((tag) => tag.name))
+
+    return {
+      success: true,
+      data: {
+        totalBookmarks: urls.length,
+        newLinks: candidates.size - existingUrls.size,
+        duplicates,
+        invalid,
+        tagsToCreate: uniqueTags.filter((tag) => !existingTagNames.has(tag)),
+        existingTags: existingTagNames.size,
+      },
+    }
+  } catch (error) {
+    console.error('Unexpected error in previewBookmarkImport:', error)
+    return { success: false, error: 'An unexpected error occurred' }
+  }
+}
+
+/**
+ * Bookmarks the user can still import today (link_import_usage)
+ */
+async function getRemainingBookmarkImports(
+  supabase: Awaited<ReturnType<typeof createServerActionClient>>,
+  userId: string
+): Promise<number> {
+  const windowStart = new Date(Date.now() - BOOKMARK_IMPORT_WINDOW_MS).toISOString()
+  const { data, error } = await supabase
+    .from('link_import_usage')
+    .select('links')
+    .eq('user_id', userId)
+    .gte('created_at', windowStart)
+
+  if (error) {
+    throw new Error(`Failed to read import usage: ${error.message}`)
+  }
+
+  const imported = (data || []).reduce((sum, batch) => sum + batch.links, 0)
+  return Math.max(0, MAX_BOOKMARK_IMPORT - imported)
+}
+
+/**
+ * Save one batch of bookmarks from a bookmark file
+ * - ADD_DATE is kept as created_at
+ * - folder tags are assigned right away and protected from AI re-tagging
+ * - imported links do not count against the hourly limit; instead every batch is logged in
+ *   link_import_usage and at most MAX_BOOKMARK_IMPORT bookmarks are imported per day
+ * - AI processing is optional and only as many links as the hourly limit allows are queued
+ *   for it, the rest is saved without AI processing
+ */
+export async function importBookmarkBatch(
+  bookmarks: BookmarkImportEntry[],
+  options: { processWithAi: boolean }
+): Promise<{
+  success: boolean
+  data?: BookmarkImportBatchResult
+  error?: string
+}> {
+  const supabase = await createServerActionClient()
+
+  // Get authenticated user
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { success: false, error: 'Not authenticated' }
+  }
+
+  // Validate input
+  const validation = bookmarkImportBatchSchema.safeParse({
+    bookmarks,
+    processWithAi: options.processWithAi,
+  })
+  if (!validation.success) {
+    return {
+      success: false,
+      error: validation.error.issues[0]?.message || 'Validation failed',
+    }
+  }
+
+  const scope = await getWorkspaceScope(supabase, user.id)
+  if (!canEditContent(scope.role)) {
+    return { success: false, error: READ_ONLY_ERROR }
+  }
+
+  try {
+    const result: BookmarkImportBatchResult = {
+      created: 0,
+      duplicates: 0,
+      invalid: 0,
+      overLimit: 0,
+      withoutAi: 0,
+    }
+
+    // Drop invalid URLs and repeats within the batch
+    const seen = new Set<string>()
+    const candidates: Array<BookmarkImportEntry & { normalizedUrl: string }> = []
+    for (const bookmark of validation.data.bookmarks) {
+      if (validateNewLink({ url: bookmark.url })) {
+        result.invalid++
+        continue
+      }
+
+      const normalizedUrl = canonicalizeUrl(bookmark.url)
+      if (seen.has(normalizedUrl)) {
+        result.duplicates++
+        continue
+      }
+      seen.add(normalizedUrl)
+      candidates.push({ ...bookmark, normalizedUrl })
+    }
+
+    const existingUrls = await findExistingNormalizedUrls(
+      supabase,
+      scope,
+      candidates.map((bookmark) => bookmark.normalizedUrl)
+    )
+    const unsavedBookmarks = candidates.filter(
+      (bookmark) => !existingUrls.has(bookmark.normalizedUrl)
+    )
+    result.duplicates += candidates.length - unsavedBookmarks.length
+
+    if (unsavedBookmarks.length === 0) {
+      return { success: true, data: result }
+    }
+
+    const remainingImports = await getRemainingBookmarkImports(supabase, user.id)
+    if (remainingImports === 0) {
+      return {
+        success: false,
+        error: `You can import up to ${MAX_BOOKMARK_IMPORT} bookmarks per day`,
+      }
+    }
+    const newBookmarks = unsavedBookmarks.slice(0, remainingImports)
+    result.overLimit = unsavedBookmarks.length - newBookmarks.length
+
+    // AI processing shares the hourly limit with links added one by one
+    const aiQuota = options.processWithAi ? await getRemainingLinkQuota(supabase, user.id) : 0
+
+    const tagIds = await getOrCreateTagIds(
+      supabase,
+      scope,
+      newBookmarks.flatMap((bookmark) => bookmark.tags)
+    )
+
+    const now = new Date().toISOString()
+    const rows = newBookmarks.map((bookmark, index) => ({
+      ...scopeOwner(scope),
+      url: bookmark.url,
+      normalized_url: bookmark.normalizedUrl,
+      title: truncateString(bookmark.title),
+      created_at: bookmark.addDate ?? now,
+      ai_processing_status: index < aiQuota ? ('pending' as const) : ('completed' as const),
+      user_edited_fields: bookmark.tags.length > 0 ? ['tags'] : [],
+    }))
+
+    const { data: insertedLinks, error: insertError } = await supabase
+      .from('links')
+      .insert(rows)
+      .select('id, url, normalized_url, title, workspace_id, created_at')
+
+    if (insertError) {
+      console.error('Error importing bookmarks:', insertError)
+      return { success: false, error: 'Failed to import bookmarks' }
+    }
+
+    result.created = insertedLinks?.length || 0
+
+    const aiRows = rows.filter((row) => row.ai_processing_status === 'pending')
+    if (options.processWithAi) {
+      result.withoutAi = rows.length - aiRows.length
+    }
+
+    // Links dated inside the hourly window are already counted by getRemainingLinkQuota
+    const windowStart = Date.now() - RATE_LIMIT_WINDOW_MS
+    const { error: usageError } = await supabase.from('link_import_usage').insert({
+      user_id: user.id,
+      links: result.created,
+      ai_links: aiRows.filter((row) => new Date(row.created_at).getTime() < windowStart).length,
+    })
+
+    if (usageError) {
+      console.error('Error logging bookmark import:', usageError)
+    }
+
+    // Assign folder tags
+    const linkIdsByUrl = new Map((insertedLinks || []).map((link) => [link.normalized_url, link.id]))
+    const linkTags = newBookmarks.flatMap((bookmark) => {
+      const linkId = linkIdsByUrl.get(bookmark.normalizedUrl)
+      if (!linkId) return []
+      return bookmark.tags
+        .map((tag) => tagIds.get(tag.toLowerCase()))
+        .filter((tagId): tagId is string => !!tagId)
+        .map((tagId) => ({ link_id: linkId, tag_id: tagId }))
+    })
+
+    if (linkTags.length > 0) {
+      const { error: tagError } = await supabase
+        .from('link_tags')
+        .upsert(linkTags, { onConflict: 'link_id,tag_id', ignoreDuplicates: true })
+
+      if (tagError) {
+        console.error('Error assigning imported tags:', tagError)
+      }
+    }
+
+    emitWebhookEvents(
+      supabase,
+      user.id,
+      'link.created',
+      (insertedLinks || []).map((link) => ({ link: getLinkEventData(link) }))
+    )
+
+    if (aiRows.length > 0) {
+      // Start on the first links right away; the cron worker handles the rest
+      after(async () => {
+        try {
+          const summary = await processLinkQueue(supabase, { userId: user.id, maxLinks: 5 })
+          console.log(`[Queue] Bookmark import run finished: ${JSON.stringify(summary)}`)
+        } catch (error) {
+          console.error('[Queue] Bookmark import run failed:', error)
+        }
+      })
+    }
+
+    revalidatePath('/dashboard')
+    return { success: true, data: result }
+  } catch (error) {
+    console.error('Unexpected error in importBookmarkBatch:', error)
+    return { success: false, error: 'An unexpected error occurred' }
+  }
+}
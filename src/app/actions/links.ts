@@ -2,91 +2,187 @@
 
 import { createServerActionClient } from '@/lib/supabase/server'
 import { revalidatePath } from 'next/cache'
-import { createLinkSchema, updateLinkSchema, deleteLinkSchema } from '@/lib/validations/links'
-import { smartScrapeUrl, isUrlScrapable } from '@/lib/scraping'
-import { generateDescriptionAndTags, isAIEnabled } from '@/lib/ai/openrouter'
+import { after } from 'next/server'
+import { updateLinkSchema, reprocessLinksSchema } from '@/lib/validations/links'
+import { createLinkForUser } from '@/lib/links/create'
+import { canonicalizeUrl } from '@/lib/links/urls'
+import {
+  getSpaceLink,
+  setSpaceLinkReadingState,
+  trashSpaceLink,
+  updateSpaceLink,
+} from '@/lib/links/manage'
+import { processLinkQueue } from '@/lib/queue'
+import { emitWebhookEvent } from '@/lib/webhooks'
+import { getLinkEventData } from '@/lib/webhooks/events'
+import { STALE_PROCESSING_MS } from '@/lib/queue/backoff'
+import { getWorkspaceScope } from '@/lib/workspaces/server'
+import {
+  canEditContent,
+  scopeQuery,
+  READ_ONLY_ERROR,
+  type OwnerScope,
+} from '@/lib/workspaces/scope'
+import type { LinkWithTags, ReadingState } from '@/types'
 import type { z } from 'zod'
-import { generateNewTags } from '@/lib/ai/openrouter'
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+// Server actions
+export async function createLink(formData: FormData) {
+  const supabase = await createServerActionClient()
+
+  // Get authenticated user
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { success: false, error: 'Not authenticated' }
+  }
+
+  const scope = await getWorkspaceScope(supabase, user.id)
+  if (!canEditContent(scope.role)) {
+    return { success: false, error: READ_ONLY_ERROR }
+  }
+
+  const url = formData.get('url') as string
+  const titleRaw = formData.get('title') as string | null
+  const title = titleRaw && titleRaw.trim() !== '' ? titleRaw.trim() : undefined
+  const rating = formData.get('rating')
+    ? parseInt(formData.get('rating') as string)
+    : undefined
+
+  const outcome = await createLinkForUser(
+    supabase,
+    scope,
+    { url, title, rating },
+    { logRateLimitViolation: true }
+  )
+
+  if (outcome.status !== 'created') {
+    return { success: false, error: outcome.error || 'Failed to create link' }
+  }
+
+  const newLink = outcome.link
+  processAfterResponse(supabase, user.id)
+  if (newLink) {
+    emitWebhookEvent(supabase, user.id, 'link.created', { link: getLinkEventData(newLink) })
+  }
+
+  revalidatePath('/dashboard')
+  return { success: true, data: newLink }
+}
 
 /**
- * Helper function to truncate string to max length
- * @param str - String to truncate
- * @param maxLength - Maximum length (default 500 for database varchar(500))
- * @returns Truncated string
+ * Save a link from the bookmarklet or a share sheet (/save)
+ * An already saved URL is not an error - the existing link is returned so its tags can be edited.
  */
-function truncateString(str: string | null | undefined, maxLength: number = 500): string | null {
-  if (!str) return null
-  return str.length > maxLength ? str.substring(0, maxLength) : str
+export async function quickSaveLink(
+  url: string,
+  title?: string
+): Promise<{
+  success: boolean
+  data?: { linkId: string; created: boolean }
+  error?: string
+}> {
+  const supabase = await createServerActionClient()
+
+  // Get authenticated user
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { success: false, error: 'Not authenticated' }
+  }
+
+  const scope = await getWorkspaceScope(supabase, user.id)
+  if (!canEditContent(scope.role)) {
+    return { success: false, error: READ_ONLY_ERROR }
+  }
+
+  const outcome = await createLinkForUser(
+    supabase,
+    scope,
+    { url, title },
+    { logRateLimitViolation: true }
+  )
+
+  if (outcome.status === 'duplicate') {
+    const { data: existingLink } = await scopeQuery(supabase.from('links').select('id'), scope)
+      .is('deleted_at', null)
+      .eq('normalized_url', canonicalizeUrl(url))
+      .maybeSingle()
+
+    return existingLink
+      ? { success: true, data: { linkId: existingLink.id, created: false } }
+      : { success: false, error: outcome.error }
+  }
+
+  if (outcome.status !== 'created' || !outcome.link) {
+    return { success: false, error: outcome.error || 'Failed to create link' }
+  }
+
+  processAfterResponse(supabase, user.id)
+  emitWebhookEvent(supabase, user.id, 'link.created', { link: getLinkEventData(outcome.link) })
+
+  revalidatePath('/dashboard')
+  return { success: true, data: { linkId: outcome.link.id, created: true } }
 }
 
 /**
- * Helper function to create tags from AI-generated tag names
- * - Validates each tag (max 2 words)
- * - Checks if tag already exists (case-insensitive)
- * - Creates new tag in database if it doesn't exist
- * - Returns array of tag IDs (both existing and newly created)
+ * Process new links (and any due retries of this user) after the response is sent
  */
-async function createTagsFromAI(
-  userId: string,
-  tagNames: string[],
-  supabase: Awaited<ReturnType<typeof createServerActionClient>>
-): Promise<string[]> {
-  const tagIds: string[] = []
-
-  for (const tagName of tagNames) {
-    // Validate tag format (max 2 words)
-    const words = tagName.trim().split(/\s+/)
-    if (words.length > 2) {
-      console.warn(`Tag "${tagName}" has more than 2 words, skipping`)
-      continue
+function processAfterResponse(supabase: SupabaseClient, userId: string) {
+  after(async () => {
+    try {
+      const summary = await processLinkQueue(supabase, { userId, maxLinks: 5 })
+      console.log(`[Queue] Inline run finished: ${JSON.stringify(summary)}`)
+    } catch (error) {
+      // Link stays pending and is picked up by the cron worker
+      console.error('[Queue] Inline run failed:', error)
     }
+  })
+}
 
-    // Validate tag format (lowercase, alphanumeric, spaces, hyphens)
-    if (!/^[a-z0-9\s-]+$/.test(tagName)) {
-      console.warn(`Tag "${tagName}" has invalid format, skipping`)
-      continue
-    }
+export async function updateLink(data: z.infer<typeof updateLinkSchema>) {
+  const supabase = await createServerActionClient()
 
-    // Check if tag already exists (case-insensitive)
-    const { data: existingTag } = await supabase
-      .from('tags')
-      .select('id')
-      .eq('user_id', userId)
-      .ilike('name', tagName)
-      .single()
-
-    if (existingTag) {
-      console.log(`Tag "${tagName}" already exists, using existing ID`)
-      tagIds.push(existingTag.id)
-      continue
-    }
+  // Get authenticated user
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
 
-    // Create new tag
-    const { data: newTag, error: tagError } = await supabase
-      .from('tags')
-      .insert({
-        user_id: userId,
-        name: tagName,
-      })
-      .select('id')
-      .single()
-
-    if (tagError) {
-      console.error(`Error creating tag "${tagName}":`, tagError)
-      continue
-    }
+  if (authError || !user) {
+    return { success: false, error: 'Not authenticated' }
+  }
 
-    if (newTag) {
-      console.log(`Created new tag "${tagName}" with ID: ${newTag.id}`)
-      tagIds.push(newTag.id)
-    }
+  const scope = await getWorkspaceScope(supabase, user.id)
+  if (!canEditContent(scope.role)) {
+    return { success: false, error: READ_ONLY_ERROR }
   }
 
-  return tagIds
+  const result = await updateSpaceLink(supabase, scope, data)
+  if (result.success) {
+    const { id, ...fields } = data
+    emitWebhookEvent(supabase, user.id, 'link.updated', {
+      link: { id, workspace_id: scope.workspaceId },
+      fields: Object.entries(fields)
+        .filter(([, value]) => value !== undefined)
+        .map(([field]) => field),
+    })
+    revalidatePath('/dashboard')
+  }
+  return result
 }
 
-// Server actions
-export async function createLink(formData: FormData) {
+/**
+ * Move a link to another reading state (unread, reading, read, archived)
+ */
+export async function setReadingState(linkId: string, state: ReadingState) {
   const supabase = await createServerActionClient()
 
   // Get authenticated user
@@ -99,237 +195,166 @@ export async function createLink(formData: FormData) {
     return { success: false, error: 'Not authenticated' }
   }
 
-  // Validate input
-  const url = formData.get('url') as string
-  const titleRaw = formData.get('title') as string | null
-  const title = titleRaw && titleRaw.trim() !== '' ? titleRaw.trim() : undefined
-  const rating = formData.get('rating')
-    ? parseInt(formData.get('rating') as string)
-    : undefined
+  const scope = await getWorkspaceScope(supabase, user.id)
+  if (!canEditContent(scope.role)) {
+    return { success: false, error: READ_ONLY_ERROR }
+  }
 
-  const validation = createLinkSchema.safeParse({ url, title, rating })
-  if (!validation.success) {
-    return {
-      success: false,
-      error: validation.error.issues[0]?.message || 'Validation failed',
-    }
+  const result = await setSpaceLinkReadingState(supabase, scope, linkId, state)
+  if (result.success) {
+    emitWebhookEvent(supabase, user.id, 'link.updated', {
+      link: { id: linkId, reading_state: state, workspace_id: scope.workspaceId },
+      fields: ['reading_state'],
+    })
+    revalidatePath('/dashboard')
   }
+  return result
+}
 
-  // Check for duplicate URL
-  const { data: existingLink } = await supabase
-    .from('links')
-    .select('id, url')
-    .eq('user_id', user.id)
-    .is('deleted_at', null)
-    .eq('normalized_url', url.toLowerCase())
-    .single()
+/**
+ * Get a single link with its tags (link detail view)
+ */
+export async function getLink(linkId: string): Promise<{
+  success: boolean
+  data?: LinkWithTags
+  error?: string
+}> {
+  const supabase = await createServerActionClient()
 
-  if (existingLink) {
-    return {
-      success: false,
-      error: 'You have already saved this link',
-    }
+  // Get authenticated user
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { success: false, error: 'Not authenticated' }
   }
 
-  // Check rate limit (30 links per hour)
-  const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000).toISOString()
-  const { count } = await supabase
-    .from('links')
-    .select('id', { count: 'exact', head: true })
-    .eq('user_id', user.id)
-    .gte('created_at', oneHourAgo)
-
-  if (count !== null && count >= 30) {
-    // Log rate limit violation
-    await supabase.from('rate_limit_violations').insert({
-      user_id: user.id,
-      violation_type: 'links_per_hour',
-      details: { url, attempted_at: new Date().toISOString() },
-    })
+  const scope = await getWorkspaceScope(supabase, user.id)
+  return getSpaceLink(supabase, scope, linkId)
+}
 
-    return {
-      success: false,
-      error: 'Rate limit exceeded. You can add up to 30 links per hour.',
-    }
+export async function deleteLink(linkId: string) {
+  const supabase = await createServerActionClient()
+
+  // Get authenticated user
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { success: false, error: 'Not authenticated' }
   }
 
-  // Check if URL is scrapable
-  const scrapableCheck = isUrlScrapable(url)
-  if (!scrapableCheck.valid) {
-    return {
-      success: false,
-      error: scrapableCheck.reason || 'URL cannot be scraped',
-    }
+  const scope = await getWorkspaceScope(supabase, user.id)
+  if (!canEditContent(scope.role)) {
+    return { success: false, error: READ_ONLY_ERROR }
   }
 
-  // Scrape the URL synchronously before saving
-  let scrapedData = null
-  let scrapingError = null
-
-  try {
-    console.log(`Starting synchronous scraping for URL: ${url}`)
-    const startTime = new Date()
-    scrapedData = await smartScrapeUrl(url, { timeout: 30000 })
-    const endTime = new Date()
-    const duration = endTime.getTime() - startTime.getTime()
-    console.log(`Scraping completed in ${duration}ms`)
-  } catch (error) {
-    console.error('Scraping error:', error)
-    scrapingError = error instanceof Error ? error.message : 'Unknown scraping error'
+  const result = await trashSpaceLink(supabase, scope, linkId)
+  if (result.success) {
+    emitWebhookEvent(supabase, user.id, 'link.deleted', {
+      link: { id: linkId, workspace_id: scope.workspaceId },
+    })
+    revalidatePath('/dashboard')
   }
+  return result
+}
 
-  // AI Processing: Generate description and suggest tags
-  let aiDescription = scrapedData?.success ? (scrapedData.description || scrapedData.ogDescription) : null
-  let suggestedTagIds: string[] = []
-  // Truncate error immediately to prevent database overflow (varchar(500) limit)
-  let aiProcessingError = scrapedData?.success ? null : truncateString(scrapedData?.error || scrapingError || 'Scraping failed', 500)
+type ReprocessLinksResult = {
+  success: boolean
+  data?: { queued: number; remaining?: number } // remaining: failed links not queued (errors)
+  error?: string
+}
 
-  if (scrapedData?.success && isAIEnabled()) {
-    try {
-      console.log('Starting AI processing...')
-      const aiStartTime = new Date()
-
-      // Get user's tags for suggestions
-      const { data: userTags } = await supabase
-        .from('tags')
-        .select('id, name')
-        .eq('user_id', user.id)
-        .order('name')
-
-      const aiResult = await generateDescriptionAndTags(
-        {
-          title: scrapedData.title || scrapedData.ogTitle,
-          description: scrapedData.description || scrapedData.ogDescription,
-          scrapedContent: scrapedData.scrapedContent,
-          url: url,
-        },
-        userTags || []
-      )
-
-      const aiEndTime = new Date()
-      const aiDuration = aiEndTime.getTime() - aiStartTime.getTime()
-      console.log(`AI processing completed in ${aiDuration}ms`)
-
-      // Use AI-generated description if available
-      if (aiResult.description.success) {
-        aiDescription = aiResult.description.description
-        console.log(`AI description generated: ${aiDescription.substring(0, 50)}...`)
-      } else {
-        console.warn(`AI description failed: ${aiResult.description.error}`)
-        aiProcessingError = aiProcessingError || truncateString(aiResult.description.error, 500)
-      }
+// Failed links re-queued per query by reprocessFailedLinks
+const REPROCESS_BATCH_SIZE = 100
 
-      // Store suggested tag IDs for assignment
-      if (aiResult.tags.success) {
-        suggestedTagIds = aiResult.tags.tagIds
-        console.log(`AI suggested ${suggestedTagIds.length} tags`)
-
-        // Fallback: If no existing tags matched, generate new tags
-        if (aiResult.tags.needsNewTags && suggestedTagIds.length === 0) {
-          console.log('No matching tags found, generating new tags...')
-          try {
-            const newTagsResult = await generateNewTags({
-              title: scrapedData.title || scrapedData.ogTitle,
-              description: scrapedData.description || scrapedData.ogDescription,
-              scrapedContent: scrapedData.scrapedContent,
-              url: url,
-            })
-
-            if (newTagsResult.success && newTagsResult.tagNames.length > 0) {
-              console.log(`AI generated ${newTagsResult.tagNames.length} new tags: ${newTagsResult.tagNames.join(', ')}`)
-
-              // Create tags in database
-              const newTagIds = await createTagsFromAI(user.id, newTagsResult.tagNames, supabase)
-
-              if (newTagIds.length > 0) {
-                suggestedTagIds = newTagIds
-                console.log(`Created ${newTagIds.length} new tags in database`)
-              }
-            } else {
-              console.warn(`Failed to generate new tags: ${newTagsResult.success ? 'No tags returned' : newTagsResult.error}`)
-            }
-          } catch (newTagError) {
-            console.error('Error generating new tags:', newTagError)
-          }
-        }
-      } else {
-        console.warn(`AI tag suggestions failed: ${aiResult.tags.error}`)
-      }
-    } catch (error) {
-      console.error('AI processing error:', error)
-      aiProcessingError = truncateString(error instanceof Error ? error.message : 'AI processing failed', 500)
-    }
-  } else if (!isAIEnabled()) {
-    console.log('AI service is not enabled')
-  }
+/**
+ * Reset links to pending (scraping + AI run again)
+ * Links currently being processed are skipped unless they look abandoned.
+ * @returns Number of queued links, null when the update failed
+ */
+async function resetLinksForReprocessing(
+  supabase: Awaited<ReturnType<typeof createServerActionClient>>,
+  scope: OwnerScope,
+  linkIds: string[],
+  keepEdits: boolean
+): Promise<number | null> {
+  const staleBefore = new Date(Date.now() - STALE_PROCESSING_MS).toISOString()
+
+  const { data: queuedLinks, error: queueError } = await scopeQuery(
+    supabase.from('links').update({
+      ai_processing_status: 'pending',
+      ai_processing_attempts: 0,
+      ai_processing_next_attempt_at: null,
+      ai_processing_error: null,
+      ...(keepEdits ? {} : { user_edited_fields: [] }),
+    }),
+    scope
+  )
+    .in('id', linkIds)
+    .is('deleted_at', null)
+    .or(`ai_processing_status.neq.processing,ai_processing_started_at.lt.${staleBefore}`)
+    .select('id')
 
-  // Prepare link data with scraped metadata and AI-enhanced description
-  const linkData = {
-    user_id: user.id,
-    url: url,
-    normalized_url: url.toLowerCase(), // Required for uniqueness checks
-    title: truncateString(title || (scrapedData?.success ? (scrapedData.title || scrapedData.ogTitle) : null) || null),
-    ai_description: truncateString(aiDescription, 280), // DB limit: varchar(280)
-    scraped_content: truncateString(scrapedData?.success ? scrapedData.scrapedContent : null, 3000), // DB limit: varchar(3000)
-    domain: scrapedData?.success ? scrapedData.domain : null,
-    rating: rating || null,
-    ai_processing_status: scrapedData?.success ? 'completed' : 'failed',
-    ai_processing_started_at: new Date().toISOString(),
-    ai_processing_completed_at: new Date().toISOString(),
-    ai_processing_error: aiProcessingError, // Already truncated above
+  if (queueError) {
+    console.error('Error queueing links for re-processing:', queueError)
+    return null
   }
 
-  // Insert link with all metadata already populated
-  const { data: newLink, error: insertError } = await supabase
-    .from('links')
-    .insert(linkData)
-    .select()
-    .single()
+  return queuedLinks?.length || 0
+}
 
-  if (insertError) {
-    console.error('Error creating link:', insertError)
-    return { success: false, error: 'Failed to create link' }
+/**
+ * Start processing right after the response - the cron worker picks up what is left
+ */
+function startReprocessingRun(
+  supabase: Awaited<ReturnType<typeof createServerActionClient>>,
+  scope: OwnerScope,
+  queued: number
+) {
+  if (queued > 0) {
+    // Only links the user created are claimed inline; the cron worker handles the rest
+    after(async () => {
+      try {
+        const summary = await processLinkQueue(supabase, {
+          userId: scope.userId,
+          maxLinks: Math.min(queued, 10),
+        })
+        console.log(`[Queue] Re-processing run finished: ${JSON.stringify(summary)}`)
+      } catch (error) {
+        console.error('[Queue] Re-processing run failed:', error)
+      }
+    })
   }
+}
 
-  console.log(`Link created with status: ${linkData.ai_processing_status}`)
-
-  // Assign suggested tags to the link if available
-  if (newLink && suggestedTagIds.length > 0) {
-    try {
-      const tagAssignments = suggestedTagIds.map(tagId => ({
-        link_id: newLink.id,
-        tag_id: tagId,
-      }))
-
-      const { error: tagError } = await supabase
-        .from('link_tags')
-        .insert(tagAssignments)
-
-      if (tagError) {
-        console.error('Error assigning tags:', tagError)
-      } else {
-        console.log(`Assigned ${suggestedTagIds.length} tags to link`)
-      }
-    } catch (error) {
-      console.error('Error in tag assignment:', error)
-    }
+/**
+ * Put links back into the processing queue
+ */
+async function queueLinksForReprocessing(
+  supabase: Awaited<ReturnType<typeof createServerActionClient>>,
+  scope: OwnerScope,
+  linkIds: string[],
+  keepEdits: boolean
+): Promise<ReprocessLinksResult> {
+  const queued = await resetLinksForReprocessing(supabase, scope, linkIds, keepEdits)
+  if (queued === null) {
+    return { success: false, error: 'Failed to re-process links' }
   }
 
+  startReprocessingRun(supabase, scope, queued)
   revalidatePath('/dashboard')
-  return { success: true, data: newLink }
-}
-
-// Helper function to remove undefined values from objects
-function removeUndefined<T extends Record<string, any>>(obj: T): Partial<T> {
-  return Object.entries(obj).reduce((acc, [key, value]) => {
-    if (value !== undefined) {
-      acc[key as keyof T] = value
-    }
-    return acc
-  }, {} as Partial<T>)
+  return { success: true, data: { queued } }
 }
 
-export async function updateLink(data: z.infer<typeof updateLinkSchema>) {
+export async function reprocessLinks(
+  linkIds: string[],
+  options: { keepEdits: boolean }
+): Promise<ReprocessLinksResult> {
   const supabase = await createServerActionClient()
 
   // Get authenticated user
@@ -343,7 +368,7 @@ export async function updateLink(data: z.infer<typeof updateLinkSchema>) {
   }
 
   // Validate input
-  const validation = updateLinkSchema.safeParse(data)
+  const validation = reprocessLinksSchema.safeParse({ linkIds, keepEdits: options.keepEdits })
   if (!validation.success) {
     return {
       success: false,
@@ -351,36 +376,28 @@ export async function updateLink(data: z.infer<typeof updateLinkSchema>) {
     }
   }
 
-  // Build update object with only defined fields
-  const { id, ...fieldsToUpdate } = data
-  const updateData = removeUndefined({
-    title: fieldsToUpdate.title ? truncateString(fieldsToUpdate.title) : undefined,
-    ai_description: fieldsToUpdate.ai_description ? truncateString(fieldsToUpdate.ai_description, 280) : undefined,
-    rating: fieldsToUpdate.rating,
-  })
-
-  // Check if there's anything to update
-  if (Object.keys(updateData).length === 0) {
-    return { success: false, error: 'No fields to update' }
+  const scope = await getWorkspaceScope(supabase, user.id)
+  if (!canEditContent(scope.role)) {
+    return { success: false, error: READ_ONLY_ERROR }
   }
 
-  // Update link
-  const { error: updateError } = await supabase
-    .from('links')
-    .update(updateData)
-    .eq('id', id)
-    .eq('user_id', user.id)
-
-  if (updateError) {
-    console.error('Error updating link:', updateError)
-    return { success: false, error: 'Failed to update link' }
-  }
+  return queueLinksForReprocessing(supabase, scope, linkIds, options.keepEdits)
+}
 
-  revalidatePath('/dashboard')
-  return { success: true }
+export async function reprocessLink(
+  linkId: string,
+  options: { keepEdits: boolean }
+): Promise<ReprocessLinksResult> {
+  return reprocessLinks([linkId], options)
 }
 
-export async function deleteLink(linkId: string) {
+/**
+ * Re-process every failed link of the space, in batches of REPROCESS_BATCH_SIZE
+ * remaining counts failed links that could not be queued, so the UI can tell the user.
+ */
+export async function reprocessFailedLinks(options: {
+  keepEdits: boolean
+}): Promise<ReprocessLinksResult> {
   const supabase = await createServerActionClient()
 
   // Get authenticated user
@@ -393,24 +410,56 @@ export async function deleteLink(linkId: string) {
     return { success: false, error: 'Not authenticated' }
   }
 
-  // Validate input
-  const validation = deleteLinkSchema.safeParse({ id: linkId })
-  if (!validation.success) {
-    return { success: false, error: 'Invalid link ID' }
+  const scope = await getWorkspaceScope(supabase, user.id)
+  if (!canEditContent(scope.role)) {
+    return { success: false, error: READ_ONLY_ERROR }
   }
 
-  // Soft delete (set deleted_at timestamp)
-  const { error: deleteError } = await supabase
-    .from('links')
-    .update({ deleted_at: new Date().toISOString() })
-    .eq('id', linkId)
-    .eq('user_id', user.id)
+  // Queued links leave the failed state, so every batch reads the newest failed links again
+  let queued = 0
+  let hasMore = true
+  while (hasMore) {
+    const { data: failedLinks, error: fetchError } = await scopeQuery(
+      supabase.from('links').select('id'),
+      scope
+    )
+      .eq('ai_processing_status', 'failed')
+      .is('deleted_at', null)
+      .order('created_at', { ascending: false })
+      .limit(REPROCESS_BATCH_SIZE)
+
+    if (fetchError) {
+      console.error('Error fetching failed links:', fetchError)
+      if (queued === 0) return { success: false, error: 'Failed to re-process links' }
+      break
+    }
+
+    if (!failedLinks || failedLinks.length === 0) break
+
+    const batchQueued = await resetLinksForReprocessing(
+      supabase,
+      scope,
+      failedLinks.map((link) => link.id),
+      options.keepEdits
+    )
+    if (batchQueued === null) {
+      if (queued === 0) return { success: false, error: 'Failed to re-process links' }
+      break
+    }
 
-  if (deleteError) {
-    console.error('Error deleting link:', deleteError)
-    return { success: false, error: 'Failed to delete link' }
+    queued += batchQueued
+    // A short batch was the last one; a batch that queued nothing would repeat forever
+    hasMore = batchQueued > 0 && failedLinks.length === REPROCESS_BATCH_SIZE
   }
 
+  const { count: remaining } = await scopeQuery(
+    supabase.from('links').select('id', { count: 'exact', head: true }),
+    scope
+  )
+    .eq('ai_processing_status', 'failed')
+    .is('deleted_at', null)
+
+  startReprocessingRun(supabase, scope, queued)
   revalidatePath('/dashboard')
-  return { success: true }
+  return { success: true, data: { queued, remaining: remaining ?? 0 } }
 }
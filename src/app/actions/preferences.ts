@@ -3,7 +3,7 @@
 import { createServerActionClient } from '@/lib/supabase/server'
 import { revalidatePath } from 'next/cache'
 import { z } from 'zod'
-import type { UpdatePreferencesInput, UserPreferences } from '@/types'
+import type { TrashRetentionDays, UpdatePreferencesInput, UserPreferences } from '@/types'
 
 // Validation schema
 const updatePreferencesSchema = z.object({
@@ -11,6 +11,11 @@ const updatePreferencesSchema = z.object({
   links_per_page: z.union([z.literal(12), z.literal(24), z.literal(48)]).optional(),
   default_sort: z.enum(['rating-desc', 'date-desc', 'date-asc', 'relevance']).optional(),
   ai_processing_enabled: z.boolean().optional(),
+  trash_retention_days: z
+    .union([z.literal(7), z.literal(14), z.literal(30), z.literal(60), z.literal(90)])
+    .optional(),
+  resolve_canonical_urls: z.boolean().optional(),
+  resurfacing_enabled: z.boolean().optional(),
 })
 
 /**
@@ -56,6 +61,11 @@ export async function updateUserPreferences(formData: FormData) {
       : undefined,
     default_sort: formData.get('default_sort') as 'rating-desc' | 'date-desc' | 'date-asc' | 'relevance' | undefined,
     ai_processing_enabled: formData.get('ai_processing_enabled') === 'true',
+    trash_retention_days: formData.get('trash_retention_days')
+      ? Number(formData.get('trash_retention_days')) as TrashRetentionDays
+      : undefined,
+    resolve_canonical_urls: formData.get('resolve_canonical_urls') === 'true',
+    resurfacing_enabled: formData.get('resurfacing_enabled') === 'true',
   }
 
   // Remove undefined values
@@ -88,6 +98,7 @@ export async function updateUserPreferences(formData: FormData) {
 
   revalidatePath('/dashboard')
   revalidatePath('/settings')
+  revalidatePath('/trash')
 
   return { success: true }
 }
@@ -110,6 +121,9 @@ export async function resetUserPreferences() {
       links_per_page: 12,
       default_sort: 'rating-desc',
       ai_processing_enabled: true,
+      trash_retention_days: 30,
+      resolve_canonical_urls: false,
+      resurfacing_enabled: true,
       updated_at: new Date().toISOString(),
     })
     .eq('user_id', user.id)
@@ -121,6 +135,7 @@ export async function resetUserPreferences() {
 
   revalidatePath('/dashboard')
   revalidatePath('/settings')
+  revalidatePath('/trash')
 
   return { success: true }
 }
@@ -1,7 +1,20 @@
 'use server'
 
 import { createServerActionClient, createAdminClient } from '@/lib/supabase/server'
+import { revalidatePath } from 'next/cache'
 import { z } from 'zod'
+import { createTagSchema } from '@/lib/validations/tags'
+import { bulkLinksSchema } from '@/lib/validations/links'
+import { validateNewLink } from '@/lib/links/create'
+import { canonicalizeUrl } from '@/lib/links/urls'
+import { MAX_NOTES_LENGTH } from '@/lib/links/markdown'
+import { exportSpaceLinks, type ExportFormat, type ExportOptions } from '@/lib/links/export'
+import { getOrCreateTagIds } from '@/lib/tags/resolve'
+import { emitWebhookEvents } from '@/lib/webhooks'
+import { getLinkEventData } from '@/lib/webhooks/events'
+import { getWorkspaceScope } from '@/lib/workspaces/server'
+import { canEditContent, scopeOwner, scopeQuery, READ_ONLY_ERROR } from '@/lib/workspaces/scope'
+import type { ImportConflictPolicy, ImportUserDataResult } from '@/types'
 
 // Validation schemas
 const changePasswordSchema = z.object({
@@ -12,6 +25,43 @@ const changeEmailSchema = z.object({
   newEmail: z.string().email('Invalid email address'),
 })
 
+// One entry of the JSON export (see exportUserData)
+const exportedLinkSchema = z.object({
+  url: z.string(),
+  title: z.string().nullable().optional(),
+  description: z.string().nullable().optional(),
+  notes: z.string().nullable().optional(),
+  rating: z.number().int().min(1).max(5).nullable().optional(),
+  tags: z.array(z.string()).optional(),
+  created: z.string().datetime({ offset: true }).nullable().optional(),
+  deleted: z.string().datetime({ offset: true }).nullable().optional(),
+})
+
+// Trashed entries go back to the trash, so they never collide with live links of the same URL
+const importKey = (normalizedUrl: string, deleted?: string | null) =>
+  deleted ? `trash:${normalizedUrl}` : normalizedUrl
+
+const importUserDataSchema = z.object({
+  links: z
+    .array(z.unknown())
+    .max(500, 'You can import up to 500 links at once'),
+  conflictPolicy: z.enum(['skip', 'overwrite', 'merge']),
+})
+
+// Maximum number of tags per link (enforced by check_link_tags_limit in the database)
+const MAX_TAGS_PER_LINK = 10
+
+/**
+ * Helper function to truncate string to max length
+ * @param str - String to truncate
+ * @param maxLength - Maximum length (default 500 for database varchar(500))
+ * @returns Truncated string
+ */
+function truncateString(str: string | null | undefined, maxLength: number = 500): string | null {
+  if (!str) return null
+  return str.length > maxLength ? str.substring(0, maxLength) : str
+}
+
 /**
  * Get user profile statistics
  */
@@ -122,8 +172,10 @@ export async function changeEmail(formData: FormData) {
 
 /**
  * Export user data in various formats
+ * Pass linkIds to export only those links (dashboard selection). The whole library is
+ * downloaded through /api/export, which streams the file.
  */
-export async function exportUserData(format: 'json' | 'csv' | 'markdown') {
+export async function exportUserData(format: ExportFormat, options: ExportOptions = {}) {
   const supabase = await createServerActionClient()
 
   const { data: { user }, error: authError } = await supabase.auth.getUser()
@@ -131,96 +183,265 @@ export async function exportUserData(format: 'json' | 'csv' | 'markdown') {
     return { success: false, error: 'Unauthorized' }
   }
 
-  // Fetch all user data
-  const { data: links, error: linksError } = await supabase
-    .from('links')
-    .select(`
-      *,
-      link_tags (
-        tags (
-          id,
-          name
-        )
-      )
-    `)
-    .eq('user_id', user.id)
-    .order('created_at', { ascending: false })
+  if (options.linkIds) {
+    const validated = bulkLinksSchema.safeParse({ linkIds: options.linkIds })
+    if (!validated.success) {
+      return { success: false, error: validated.error.issues[0].message }
+    }
+  }
+
+  const scope = await getWorkspaceScope(supabase, user.id)
+
+  return exportSpaceLinks(supabase, scope, format, options)
+}
+
+/**
+ * Import links from a TagLink JSON export (the output of exportUserData('json'))
+ * Links are restored with their original metadata and are not scraped again.
+ * Links whose URL is already saved follow the conflict policy:
+ * - skip: leave the existing link untouched
+ * - overwrite: replace title, description, notes, rating and tags with the imported ones
+ * - merge: keep the existing link and add the imported tags to it
+ */
+export async function importUserData(json: string, conflictPolicy: ImportConflictPolicy) {
+  const supabase = await createServerActionClient()
 
-  if (linksError) {
-    console.error('Error fetching links for export:', linksError)
-    return { success: false, error: 'Failed to export data' }
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return { success: false, error: 'Unauthorized' }
   }
 
-  // Define types for the export data
-  type LinkTag = { tags?: { name: string } | null }
-  type LinkWithTags = {
-    url: string
-    title: string | null
-    ai_description: string | null
-    rating: number | null
-    link_tags?: LinkTag[] | null
-    created_at: string
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(json)
+  } catch {
+    return { success: false, error: 'The file is not valid JSON' }
   }
 
-  // Transform data for export
-  const exportData = (links as LinkWithTags[]).map((link) => ({
-    url: link.url,
-    title: link.title,
-    description: link.ai_description,
-    rating: link.rating,
-    tags: link.link_tags?.map((lt) => lt.tags?.name).filter(Boolean) || [],
-    created: link.created_at,
-  }))
-
-  let output = ''
-  let mimeType = ''
-  let filename = ''
-
-  switch (format) {
-    case 'json':
-      output = JSON.stringify(exportData, null, 2)
-      mimeType = 'application/json'
-      filename = `taglink-export-${Date.now()}.json`
-      break
-
-    case 'csv':
-      // CSV header
-      output = 'URL,Title,Description,Rating,Tags,Created\n'
-      // CSV rows
-      output += exportData.map((item) =>
-        `"${item.url}","${item.title || ''}","${item.description || ''}",${item.rating || ''},"${(item.tags as string[]).join('; ')}","${item.created}"`
-      ).join('\n')
-      mimeType = 'text/csv'
-      filename = `taglink-export-${Date.now()}.csv`
-      break
-
-    case 'markdown':
-      output = '# TagLink Export\n\n'
-      output += `Exported: ${new Date().toISOString()}\n\n`
-      output += `Total Links: ${exportData.length}\n\n---\n\n`
-
-      exportData.forEach((item, index) => {
-        output += `## ${index + 1}. ${item.title || 'Untitled'}\n\n`
-        output += `**URL:** ${item.url}\n\n`
-        if (item.description) output += `**Description:** ${item.description}\n\n`
-        if (item.rating) output += `**Rating:** ${'⭐'.repeat(item.rating)}\n\n`
-        if ((item.tags as string[]).length > 0) output += `**Tags:** ${(item.tags as string[]).join(', ')}\n\n`
-        output += `**Created:** ${new Date(item.created).toLocaleString()}\n\n`
-        output += '---\n\n'
-      })
-      mimeType = 'text/markdown'
-      filename = `taglink-export-${Date.now()}.md`
-      break
+  if (!Array.isArray(parsed)) {
+    return { success: false, error: 'The file is not a TagLink JSON export' }
   }
 
-  return {
-    success: true,
-    data: {
-      content: output,
-      mimeType,
-      filename,
+  const validated = importUserDataSchema.safeParse({ links: parsed, conflictPolicy })
+  if (!validated.success) {
+    return {
+      success: false,
+      error: validated.error.issues[0].message
     }
   }
+
+  const scope = await getWorkspaceScope(supabase, user.id)
+  if (!canEditContent(scope.role)) {
+    return { success: false, error: READ_ONLY_ERROR }
+  }
+
+  const result: ImportUserDataResult = { created: 0, updated: 0, skipped: 0, invalid: 0 }
+
+  // Validate entries one by one so a single bad row does not reject the whole file
+  const seen = new Set<string>()
+  type ImportEntry = z.infer<typeof exportedLinkSchema> & {
+    tags: string[]
+    hasTags: boolean
+    normalizedUrl: string
+    key: string
+  }
+  const entries: ImportEntry[] = []
+  for (const item of validated.data.links) {
+    const entry = exportedLinkSchema.safeParse(item)
+    if (!entry.success || validateNewLink({ url: entry.data.url })) {
+      result.invalid++
+      continue
+    }
+
+    const normalizedUrl = canonicalizeUrl(entry.data.url)
+    const key = importKey(normalizedUrl, entry.data.deleted)
+    if (seen.has(key)) {
+      result.skipped++
+      continue
+    }
+    seen.add(key)
+
+    // Tags that do not pass validation are dropped, the link is still imported
+    const tags = Array.from(new Set(
+      (entry.data.tags ?? [])
+        .map((tag) => tag.toLowerCase().trim())
+        .filter((tag) => createTagSchema.safeParse({ name: tag }).success)
+    )).slice(0, MAX_TAGS_PER_LINK)
+
+    entries.push({ ...entry.data, tags, hasTags: entry.data.tags !== undefined, normalizedUrl, key })
+  }
+
+  if (entries.length === 0) {
+    return { success: true, data: result }
+  }
+
+  // Find links that are already saved (in chunks to keep the request URL short)
+  type ExistingLink = {
+    id: string
+    normalized_url: string
+    deleted_at: string | null
+    link_tags: { tag_id: string }[] | null
+  }
+  const existingByKey = new Map<string, ExistingLink>()
+  const normalizedUrls = Array.from(new Set(entries.map((entry) => entry.normalizedUrl)))
+
+  for (let i = 0; i < normalizedUrls.length; i += 100) {
+    const { data: existingLinks, error: existingError } = await scopeQuery(
+      supabase.from('links').select('id, normalized_url, deleted_at, link_tags(tag_id)'),
+      scope
+    )
+      .in('normalized_url', normalizedUrls.slice(i, i + 100))
+
+    if (existingError) {
+      console.error('Error checking existing links for import:', existingError)
+      return { success: false, error: 'Failed to import data' }
+    }
+
+    for (const link of (existingLinks || []) as ExistingLink[]) {
+      existingByKey.set(importKey(link.normalized_url, link.deleted_at), link)
+    }
+  }
+
+  const tagIds = await getOrCreateTagIds(supabase, scope, entries.flatMap((entry) => entry.tags))
+  const resolveTagIds = (tags: string[]) =>
+    tags.map((tag) => tagIds.get(tag)).filter((tagId): tagId is string => !!tagId)
+
+  // New links - inserted in one batch with their original metadata
+  const newEntries = entries.filter((entry) => !existingByKey.has(entry.key))
+  if (newEntries.length > 0) {
+    const now = new Date().toISOString()
+    const { data: insertedLinks, error: insertError } = await supabase
+      .from('links')
+      .insert(newEntries.map((entry) => ({
+        ...scopeOwner(scope),
+        url: entry.url,
+        normalized_url: entry.normalizedUrl,
+        title: truncateString(entry.title),
+        ai_description: truncateString(entry.description, 280), // DB limit: varchar(280)
+        notes: truncateString(entry.notes, MAX_NOTES_LENGTH),
+        rating: entry.rating ?? null,
+        created_at: entry.created ?? now,
+        deleted_at: entry.deleted ?? null,
+        ai_processing_status: 'completed' as const, // Restored as-is, no scraping
+      })))
+      .select('id, url, normalized_url, title, ai_description, rating, workspace_id, created_at, deleted_at')
+
+    if (insertError) {
+      console.error('Error importing links:', insertError)
+      return { success: false, error: 'Failed to import data' }
+    }
+
+    const insertedByKey = new Map((insertedLinks || []).map((link) => [
+      importKey(link.normalized_url, link.deleted_at),
+      link.id,
+    ]))
+    const linkTags = newEntries.flatMap((entry) => {
+      const linkId = insertedByKey.get(entry.key)
+      if (!linkId) return []
+      return resolveTagIds(entry.tags).map((tagId) => ({ link_id: linkId, tag_id: tagId }))
+    })
+
+    if (linkTags.length > 0) {
+      const { error: tagError } = await supabase.from('link_tags').insert(linkTags)
+      if (tagError) {
+        console.error('Error assigning imported tags:', tagError)
+      }
+    }
+
+    result.created = insertedLinks?.length || 0
+    emitWebhookEvents(
+      supabase,
+      user.id,
+      'link.created',
+      (insertedLinks || [])
+        .filter((link) => !link.deleted_at)
+        .map((link) => ({ link: getLinkEventData(link) }))
+    )
+  }
+
+  // link.updated events of existing links changed by the import
+  const updatedLinks: Record<string, unknown>[] = []
+
+  // Existing links - handled according to the conflict policy
+  for (const entry of entries) {
+    const existing = existingByKey.get(entry.key)
+    if (!existing) continue
+
+    // Links already in the trash are left as they are
+    if (conflictPolicy === 'skip' || entry.deleted) {
+      result.skipped++
+      continue
+    }
+
+    const currentTagIds = (existing.link_tags || []).map((lt) => lt.tag_id)
+    let nextTagIds: string[]
+
+    const overwrites: {
+      title?: string | null
+      ai_description?: string | null
+      notes?: string | null
+      rating?: number | null
+    } = {}
+
+    if (conflictPolicy === 'overwrite') {
+      // Only the fields the entry has are replaced, a missing key keeps the saved value
+      if ('title' in entry) overwrites.title = truncateString(entry.title)
+      if ('description' in entry) overwrites.ai_description = truncateString(entry.description, 280)
+      if ('notes' in entry) overwrites.notes = truncateString(entry.notes, MAX_NOTES_LENGTH)
+      if ('rating' in entry) overwrites.rating = entry.rating ?? null
+
+      const { error: updateError } = Object.keys(overwrites).length > 0
+        ? await supabase.from('links').update(overwrites).eq('id', existing.id)
+        : { error: null }
+
+      if (updateError) {
+        console.error('Error overwriting link during import:', updateError)
+        result.skipped++
+        continue
+      }
+
+      nextTagIds = entry.hasTags ? resolveTagIds(entry.tags) : currentTagIds
+    } else {
+      // Merge: existing tags first, imported ones fill the remaining slots
+      nextTagIds = Array.from(new Set([...currentTagIds, ...resolveTagIds(entry.tags)]))
+        .slice(0, MAX_TAGS_PER_LINK)
+    }
+
+    const removedTagIds = currentTagIds.filter((tagId) => !nextTagIds.includes(tagId))
+    const addedTagIds = nextTagIds.filter((tagId) => !currentTagIds.includes(tagId))
+
+    if (removedTagIds.length > 0) {
+      await supabase
+        .from('link_tags')
+        .delete()
+        .eq('link_id', existing.id)
+        .in('tag_id', removedTagIds)
+    }
+
+    if (addedTagIds.length > 0) {
+      const { error: tagError } = await supabase
+        .from('link_tags')
+        .insert(addedTagIds.map((tagId) => ({ link_id: existing.id, tag_id: tagId })))
+
+      if (tagError) {
+        console.error('Error updating tags during import:', tagError)
+      }
+    }
+
+    const fields = [...Object.keys(overwrites), ...(entry.hasTags ? ['tags'] : [])]
+    if (fields.length === 0) {
+      result.skipped++
+      continue
+    }
+
+    updatedLinks.push({ link: { id: existing.id, workspace_id: scope.workspaceId }, fields })
+    result.updated++
+  }
+
+  emitWebhookEvents(supabase, user.id, 'link.updated', updatedLinks)
+
+  revalidatePath('/dashboard')
+  return { success: true, data: result }
 }
 
 /**
@@ -242,16 +463,11 @@ export async function deleteUserAccount(confirmation: string) {
     }
   }
 
-  // Delete all user data (cascade will handle relations)
-  const { error: linksError } = await supabase
-    .from('links')
-    .delete()
-    .eq('user_id', user.id)
+  // Delete all personal data (cascade will handle relations)
+  const personal = { userId: user.id, workspaceId: null }
+  const { error: linksError } = await scopeQuery(supabase.from('links').delete(), personal)
 
-  const { error: tagsError } = await supabase
-    .from('tags')
-    .delete()
-    .eq('user_id', user.id)
+  const { error: tagsError } = await scopeQuery(supabase.from('tags').delete(), personal)
 
   const { error: prefsError } = await supabase
     .from('user_preferences')
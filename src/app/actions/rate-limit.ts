@@ -1,6 +1,11 @@
 'use server'
 
 import { createServerActionClient } from '@/lib/supabase/server'
+import {
+  getRemainingLinkQuota,
+  LINKS_PER_HOUR_LIMIT,
+  RATE_LIMIT_WINDOW_MS,
+} from '@/lib/links/create'
 
 export interface RateLimitStatus {
   limit: number
@@ -12,7 +17,8 @@ export interface RateLimitStatus {
 
 /**
  * Get current rate limit status for authenticated user
- * Rate limit: 30 links per hour
+ * Rate limit: 30 links per hour - counted like createLink does (getRemainingLinkQuota),
+ * including links of bookmark imports queued for AI processing.
  */
 export async function getRateLimitStatus(): Promise<{
   success: boolean
@@ -31,29 +37,16 @@ export async function getRateLimitStatus(): Promise<{
     return { success: false, error: 'Not authenticated' }
   }
 
-  const RATE_LIMIT = 30 // links per hour
-  const ONE_HOUR_MS = 60 * 60 * 1000
+  const RATE_LIMIT = LINKS_PER_HOUR_LIMIT
+  const ONE_HOUR_MS = RATE_LIMIT_WINDOW_MS
 
   // Calculate time window
   const now = new Date()
-  const oneHourAgo = new Date(now.getTime() - ONE_HOUR_MS)
   const resetAt = new Date(now.getTime() + ONE_HOUR_MS)
 
   try {
-    // Count links created in the last hour
-    const { count, error: countError } = await supabase
-      .from('links')
-      .select('id', { count: 'exact', head: true })
-      .eq('user_id', user.id)
-      .gte('created_at', oneHourAgo.toISOString())
-
-    if (countError) {
-      console.error('Error checking rate limit:', countError)
-      return { success: false, error: 'Failed to check rate limit' }
-    }
-
-    const used = count || 0
-    const remaining = Math.max(0, RATE_LIMIT - used)
+    const remaining = await getRemainingLinkQuota(supabase, user.id)
+    const used = RATE_LIMIT - remaining
     const percentageUsed = Math.round((used / RATE_LIMIT) * 100)
 
     return {
@@ -0,0 +1,221 @@
+'use server'
+
+import { createServerActionClient } from '@/lib/supabase/server'
+import { revalidatePath } from 'next/cache'
+import { deleteLinkSchema, snoozeLinkSchema } from '@/lib/validations/links'
+import { getWorkspaceScope } from '@/lib/workspaces/server'
+import { canEditContent, scopeQuery, READ_ONLY_ERROR } from '@/lib/workspaces/scope'
+import {
+  getDayKey,
+  getResurfacingWindow,
+  getSnoozeUntil,
+  pickDailyLinks,
+  RESURFACE_MIN_RATING,
+} from '@/lib/links/resurfacing'
+import type { LinkWithTags, Tag, TodayLinks } from '@/types'
+
+// Due reminders shown at once; older ones wait until these are handled
+const MAX_REMINDERS = 20
+
+// Candidates loaded for the daily pick of resurfaced links
+const MAX_RESURFACING_CANDIDATES = 200
+
+const LINK_WITH_TAGS = `
+  *,
+  link_tags (
+    tag:tags (
+      id,
+      name
+    )
+  )
+`
+
+/**
+ * Get the links for the dashboard "Today" section
+ * - reminders: links whose remind_at is due, oldest reminder first
+ * - resurfaced: old, highly rated, unread links picked for today (when enabled in preferences)
+ * Reminders, dismissals and reading states are columns of the link, so in a workspace
+ * the section is the same for every member.
+ */
+export async function getTodayLinks(): Promise<{
+  success: boolean
+  data?: TodayLinks
+  error?: string
+}> {
+  const supabase = await createServerActionClient()
+
+  // Get authenticated user
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { success: false, error: 'Not authenticated' }
+  }
+
+  const scope = await getWorkspaceScope(supabase, user.id)
+
+  try {
+    const now = new Date()
+
+    const { data: reminderLinks, error: remindersError } = await scopeQuery(
+      supabase.from('links').select(LINK_WITH_TAGS),
+      scope
+    )
+      .is('deleted_at', null)
+      .lte('remind_at', now.toISOString())
+      .order('remind_at', { ascending: true })
+      .limit(MAX_REMINDERS)
+
+    if (remindersError) {
+      console.error('Error fetching reminders:', remindersError)
+      return { success: false, error: 'Failed to fetch reminders' }
+    }
+
+    const { data: preferences } = await supabase
+      .from('user_preferences')
+      .select('resurfacing_enabled')
+      .eq('user_id', user.id)
+      .maybeSingle()
+
+    let resurfacedLinks: typeof reminderLinks = []
+
+    // Same default as the database when the user has no preferences row yet
+    if (preferences?.resurfacing_enabled ?? true) {
+      const { createdBefore, dismissedBefore } = getResurfacingWindow(now)
+
+      // Links with a pending reminder come back through the reminder instead
+      const { data: candidates, error: candidatesError } = await scopeQuery(
+        supabase.from('links').select(LINK_WITH_TAGS),
+        scope
+      )
+        .is('deleted_at', null)
+        .is('remind_at', null)
+        .eq('reading_state', 'unread')
+        .gte('rating', RESURFACE_MIN_RATING)
+        .lt('created_at', createdBefore)
+        .or(`resurface_dismissed_at.is.null,resurface_dismissed_at.lt.${dismissedBefore}`)
+        .order('rating', { ascending: false })
+        .order('created_at', { ascending: true })
+        .limit(MAX_RESURFACING_CANDIDATES)
+
+      if (candidatesError) {
+        console.error('Error fetching links to resurface:', candidatesError)
+        return { success: false, error: 'Failed to fetch reminders' }
+      }
+
+      resurfacedLinks = pickDailyLinks(candidates || [], getDayKey(now))
+    }
+
+    const withTags = (links: typeof reminderLinks): LinkWithTags[] =>
+      (links || []).map((link) => ({
+        ...link,
+        tags: link.link_tags?.map((lt: { tag: Tag }) => lt.tag).filter(Boolean) || [],
+      }))
+
+    return {
+      success: true,
+      data: {
+        reminders: withTags(reminderLinks),
+        resurfaced: withTags(resurfacedLinks),
+      },
+    }
+  } catch (error) {
+    console.error('Unexpected error in getTodayLinks:', error)
+    return { success: false, error: 'An unexpected error occurred' }
+  }
+}
+
+/**
+ * Hide a link from the Today section for a number of days
+ * The link comes back as a reminder when the snooze ends.
+ */
+export async function snoozeLink(linkId: string, days: number) {
+  const supabase = await createServerActionClient()
+
+  // Get authenticated user
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { success: false, error: 'Not authenticated' }
+  }
+
+  const scope = await getWorkspaceScope(supabase, user.id)
+  if (!canEditContent(scope.role)) {
+    return { success: false, error: READ_ONLY_ERROR }
+  }
+
+  // Validate input
+  const validation = snoozeLinkSchema.safeParse({ id: linkId, days })
+  if (!validation.success) {
+    return {
+      success: false,
+      error: validation.error.issues[0]?.message || 'Validation failed',
+    }
+  }
+
+  const remindAt = getSnoozeUntil(days)
+  const { error: updateError } = await scopeQuery(
+    supabase.from('links').update({ remind_at: remindAt }),
+    scope
+  )
+    .eq('id', linkId)
+    .is('deleted_at', null)
+
+  if (updateError) {
+    console.error('Error snoozing link:', updateError)
+    return { success: false, error: 'Failed to snooze link' }
+  }
+
+  revalidatePath('/dashboard')
+  return { success: true, data: { remindAt } }
+}
+
+/**
+ * Remove a link from the Today section
+ * Clears its reminder and keeps it out of automatic resurfacing for a while.
+ */
+export async function dismissTodayLink(linkId: string) {
+  const supabase = await createServerActionClient()
+
+  // Get authenticated user
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { success: false, error: 'Not authenticated' }
+  }
+
+  const scope = await getWorkspaceScope(supabase, user.id)
+  if (!canEditContent(scope.role)) {
+    return { success: false, error: READ_ONLY_ERROR }
+  }
+
+  // Validate input
+  const validation = deleteLinkSchema.safeParse({ id: linkId })
+  if (!validation.success) {
+    return { success: false, error: 'Invalid link ID' }
+  }
+
+  const { error: updateError } = await scopeQuery(
+    supabase
+      .from('links')
+      .update({ remind_at: null, resurface_dismissed_at: new Date().toISOString() }),
+    scope
+  )
+    .eq('id', linkId)
+
+  if (updateError) {
+    console.error('Error dismissing link:', updateError)
+    return { success: false, error: 'Failed to dismiss link' }
+  }
+
+  revalidatePath('/dashboard')
+  return { success: true }
+}
@@ -2,6 +2,15 @@
 
 import { createServerActionClient } from '@/lib/supabase/server'
 import { revalidatePath } from 'next/cache'
+import { canonicalizeUrl } from '@/lib/links/urls'
+import { getWorkspaceScope } from '@/lib/workspaces/server'
+import {
+  canEditContent,
+  scopeOwner,
+  scopeQuery,
+  READ_ONLY_ERROR,
+  type OwnerScope,
+} from '@/lib/workspaces/scope'
 import sampleData from '@/sample-data.json'
 
 /**
@@ -32,7 +41,7 @@ function extractDomain(url: string): string | null {
  * Returns tag ID
  */
 async function getOrCreateTag(
-  userId: string,
+  owner: OwnerScope,
   tagName: string,
   supabase: Awaited<ReturnType<typeof createServerActionClient>>
 ): Promise<string | null> {
@@ -52,10 +61,7 @@ async function getOrCreateTag(
   }
 
   // Check if tag already exists (case-insensitive)
-  const { data: existingTag } = await supabase
-    .from('tags')
-    .select('id')
-    .eq('user_id', userId)
+  const { data: existingTag } = await scopeQuery(supabase.from('tags').select('id'), owner)
     .ilike('name', normalizedTagName)
     .single()
 
@@ -67,7 +73,7 @@ async function getOrCreateTag(
   const { data: newTag, error: tagError } = await supabase
     .from('tags')
     .insert({
-      user_id: userId,
+      ...scopeOwner(owner),
       name: normalizedTagName,
     })
     .select('id')
@@ -102,15 +108,20 @@ export async function loadSampleData() {
     return { success: false, error: 'Not authenticated' }
   }
 
+  const scope = await getWorkspaceScope(supabase, user.id)
+  if (!canEditContent(scope.role)) {
+    return { success: false, error: READ_ONLY_ERROR }
+  }
+
   try {
     console.log(`Starting sample data load for user: ${user.id}`)
     const startTime = Date.now()
 
-    // Check if user already has links
-    const { count: existingLinksCount } = await supabase
-      .from('links')
-      .select('id', { count: 'exact', head: true })
-      .eq('user_id', user.id)
+    // Check if the space already has links
+    const { count: existingLinksCount } = await scopeQuery(
+      supabase.from('links').select('id', { count: 'exact', head: true }),
+      scope
+    )
       .is('deleted_at', null)
 
     if (existingLinksCount && existingLinksCount > 0) {
@@ -132,7 +143,7 @@ export async function loadSampleData() {
     // Create or get all tags first
     const tagNameToIdMap = new Map<string, string>()
     for (const tagName of allTagNames) {
-      const tagId = await getOrCreateTag(user.id, tagName, supabase)
+      const tagId = await getOrCreateTag(scope, tagName, supabase)
       if (tagId) {
         tagNameToIdMap.set(tagName.toLowerCase(), tagId)
       }
@@ -147,12 +158,9 @@ export async function loadSampleData() {
     for (const item of sampleData) {
       try {
         // Check if URL already exists (shouldn't happen for new user, but defensive)
-        const { data: existingLink } = await supabase
-          .from('links')
-          .select('id')
-          .eq('user_id', user.id)
+        const { data: existingLink } = await scopeQuery(supabase.from('links').select('id'), scope)
           .is('deleted_at', null)
-          .eq('normalized_url', item.url.toLowerCase())
+          .eq('normalized_url', canonicalizeUrl(item.url))
           .single()
 
         if (existingLink) {
@@ -162,9 +170,9 @@ export async function loadSampleData() {
 
         // Prepare link data
         const linkData = {
-          user_id: user.id,
+          ...scopeOwner(scope),
           url: item.url,
-          normalized_url: item.url.toLowerCase(), // Required for uniqueness checks
+          normalized_url: canonicalizeUrl(item.url), // Required for uniqueness checks
           title: truncateString(item.title, 500), // DB limit: varchar(500)
           ai_description: truncateString(item.description, 280), // DB limit: varchar(280)
           domain: extractDomain(item.url),
@@ -274,10 +282,12 @@ export async function checkUserHasLinks() {
     return { success: false, error: 'Not authenticated', hasLinks: false }
   }
 
-  const { count } = await supabase
-    .from('links')
-    .select('id', { count: 'exact', head: true })
-    .eq('user_id', user.id)
+  const scope = await getWorkspaceScope(supabase, user.id)
+
+  const { count } = await scopeQuery(
+    supabase.from('links').select('id', { count: 'exact', head: true }),
+    scope
+  )
     .is('deleted_at', null)
 
   return {
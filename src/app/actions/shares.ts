@@ -0,0 +1,222 @@
+'use server'
+
+import { createServerActionClient } from '@/lib/supabase/server'
+import { revalidatePath } from 'next/cache'
+import { z } from 'zod'
+import { createShareLinkSchema, shareLinkIdSchema } from '@/lib/validations/shares'
+import { generateShareToken, getShareExpiresAt } from '@/lib/shares/tokens'
+import { getWorkspaceScope } from '@/lib/workspaces/server'
+import { canEditContent, scopeOwner, scopeQuery, READ_ONLY_ERROR } from '@/lib/workspaces/scope'
+import type { ShareLink, ShareLinkWithTarget } from '@/types'
+
+export type CreateShareLinkInput = z.input<typeof createShareLinkSchema>
+
+/**
+ * Get the share links of the active space, newest first, with the names of their targets
+ */
+export async function getShareLinks(): Promise<{
+  success: boolean
+  data?: ShareLinkWithTarget[]
+  error?: string
+}> {
+  const supabase = await createServerActionClient()
+
+  // Get authenticated user
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { success: false, error: 'Not authenticated' }
+  }
+
+  const scope = await getWorkspaceScope(supabase, user.id)
+
+  const { data: shares, error: fetchError } = await scopeQuery(
+    supabase.from('share_links').select(
+      `
+      *,
+      tag:tags (
+        name
+      ),
+      collection:collections (
+        name
+      )
+    `
+    ),
+    scope
+  )
+    .order('created_at', { ascending: false })
+
+  if (fetchError) {
+    console.error('Error fetching share links:', fetchError)
+    return { success: false, error: 'Failed to fetch share links' }
+  }
+
+  const sharesWithTarget = (shares || []).map(({ tag, collection, ...share }) => ({
+    ...(share as ShareLink),
+    target_name:
+      (tag as unknown as { name: string } | null)?.name ??
+      (collection as unknown as { name: string } | null)?.name ??
+      null,
+  }))
+
+  return { success: true, data: sharesWithTarget }
+}
+
+/**
+ * Publish a read-only page for a tag, a collection or a saved search
+ */
+export async function createShareLink(input: CreateShareLinkInput): Promise<{
+  success: boolean
+  data?: ShareLink
+  error?: string
+}> {
+  const supabase = await createServerActionClient()
+
+  // Get authenticated user
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { success: false, error: 'Not authenticated' }
+  }
+
+  const scope = await getWorkspaceScope(supabase, user.id)
+  if (!canEditContent(scope.role)) {
+    return { success: false, error: READ_ONLY_ERROR }
+  }
+
+  // Validate input
+  const validation = createShareLinkSchema.safeParse(input)
+  if (!validation.success) {
+    return {
+      success: false,
+      error: validation.error.issues[0]?.message || 'Validation failed',
+    }
+  }
+
+  const data = validation.data
+
+  // The shared tag or collection must be in the active space (RLS checks it again)
+  if (data.kind === 'tag' || data.kind === 'collection') {
+    const { data: target } = await scopeQuery(
+      supabase.from(data.kind === 'tag' ? 'tags' : 'collections').select('id'),
+      scope
+    )
+      .eq('id', data.kind === 'tag' ? data.tagId : data.collectionId)
+      .maybeSingle()
+
+    if (!target) {
+      return { success: false, error: data.kind === 'tag' ? 'Tag not found' : 'Collection not found' }
+    }
+  }
+
+  const { data: share, error: insertError } = await supabase
+    .from('share_links')
+    .insert({
+      ...scopeOwner(scope),
+      token: generateShareToken(),
+      kind: data.kind,
+      tag_id: data.kind === 'tag' ? data.tagId : null,
+      collection_id: data.kind === 'collection' ? data.collectionId : null,
+      filters: data.kind === 'search' ? data.filters : null,
+      title: data.title || null,
+      expires_at: getShareExpiresAt(data.expiresInDays),
+    })
+    .select()
+    .single()
+
+  if (insertError) {
+    console.error('Error creating share link:', insertError)
+    return { success: false, error: 'Failed to create share link' }
+  }
+
+  revalidatePath('/settings')
+  return { success: true, data: share }
+}
+
+/**
+ * Turn a share link off - its page returns 404 from now on
+ */
+export async function revokeShareLink(id: string) {
+  const supabase = await createServerActionClient()
+
+  // Get authenticated user
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { success: false, error: 'Not authenticated' }
+  }
+
+  const scope = await getWorkspaceScope(supabase, user.id)
+  if (!canEditContent(scope.role)) {
+    return { success: false, error: READ_ONLY_ERROR }
+  }
+
+  // Validate input
+  const validation = shareLinkIdSchema.safeParse({ id })
+  if (!validation.success) {
+    return { success: false, error: 'Invalid share link ID' }
+  }
+
+  const { error: updateError } = await scopeQuery(
+    supabase.from('share_links').update({ revoked_at: new Date().toISOString() }),
+    scope
+  )
+    .eq('id', id)
+    .is('revoked_at', null)
+
+  if (updateError) {
+    console.error('Error revoking share link:', updateError)
+    return { success: false, error: 'Failed to revoke share link' }
+  }
+
+  revalidatePath('/settings')
+  return { success: true }
+}
+
+/**
+ * Remove a share link from the list
+ */
+export async function deleteShareLink(id: string) {
+  const supabase = await createServerActionClient()
+
+  // Get authenticated user
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { success: false, error: 'Not authenticated' }
+  }
+
+  const scope = await getWorkspaceScope(supabase, user.id)
+  if (!canEditContent(scope.role)) {
+    return { success: false, error: READ_ONLY_ERROR }
+  }
+
+  // Validate input
+  const validation = shareLinkIdSchema.safeParse({ id })
+  if (!validation.success) {
+    return { success: false, error: 'Invalid share link ID' }
+  }
+
+  const { error: deleteError } = await scopeQuery(supabase.from('share_links').delete(), scope)
+    .eq('id', id)
+
+  if (deleteError) {
+    console.error('Error deleting share link:', deleteError)
+    return { success: false, error: 'Failed to delete share link' }
+  }
+
+  revalidatePath('/settings')
+  return { success: true }
+}
@@ -1,6 +1,9 @@
 'use server'
 
 import { createServerActionClient } from '@/lib/supabase/server'
+import { getWorkspaceScope } from '@/lib/workspaces/server'
+import { scopeQuery } from '@/lib/workspaces/scope'
+import type { ReadingState } from '@/types'
 
 export interface LinkStatistics {
   totalLinks: number
@@ -17,6 +20,8 @@ export interface LinkStatistics {
   recentLinksCount: number // Links added in last 7 days
   completedLinks: number
   failedLinks: number
+  brokenLinks: number // Dead links found by the health checker
+  linksByReadingState: Record<ReadingState, number>
 }
 
 export async function getLinkStatistics(): Promise<{
@@ -37,20 +42,22 @@ export async function getLinkStatistics(): Promise<{
       return { success: false, error: 'Not authenticated' }
     }
 
+    const scope = await getWorkspaceScope(supabase, user.id)
+
     // 1. Total links count
-    const { count: totalLinks, error: countError } = await supabase
-      .from('links')
-      .select('*', { count: 'exact', head: true })
-      .eq('user_id', user.id)
+    const { count: totalLinks, error: countError } = await scopeQuery(
+      supabase.from('links').select('*', { count: 'exact', head: true }),
+      scope
+    )
       .is('deleted_at', null)
 
     if (countError) throw countError
 
-    // 2. Links by rating distribution
-    const { data: ratingData, error: ratingError } = await supabase
-      .from('links')
-      .select('rating')
-      .eq('user_id', user.id)
+    // 2. Links by rating distribution (and reading state, from the same rows)
+    const { data: ratingData, error: ratingError } = await scopeQuery(
+      supabase.from('links').select('rating, reading_state'),
+      scope
+    )
       .is('deleted_at', null)
 
     if (ratingError) throw ratingError
@@ -59,8 +66,15 @@ export async function getLinkStatistics(): Promise<{
     const ratingCounts = new Map<number | null, number>()
     let totalRating = 0
     let ratedLinksCount = 0
+    const linksByReadingState: Record<ReadingState, number> = {
+      unread: 0,
+      reading: 0,
+      read: 0,
+      archived: 0,
+    }
 
     ratingData?.forEach((link) => {
+      linksByReadingState[link.reading_state as ReadingState]++
       const rating = link.rating
       ratingCounts.set(rating, (ratingCounts.get(rating) || 0) + 1)
       if (rating !== null) {
@@ -81,7 +95,7 @@ export async function getLinkStatistics(): Promise<{
     const averageRating = ratedLinksCount > 0 ? totalRating / ratedLinksCount : null
 
     // 4. Most used tags
-    const { data: tagUsageData, error: tagError } = await supabase
+    const tagUsageQuery = supabase
       .from('link_tags')
       .select(
         `
@@ -93,13 +107,18 @@ export async function getLinkStatistics(): Promise<{
         link_id,
         links!inner (
           user_id,
+          workspace_id,
           deleted_at
         )
       `
       )
-      .eq('links.user_id', user.id)
       .is('links.deleted_at', null)
 
+    // Same filter as scopeQuery, on the embedded links
+    const { data: tagUsageData, error: tagError } = await (scope.workspaceId
+      ? tagUsageQuery.eq('links.workspace_id', scope.workspaceId)
+      : tagUsageQuery.eq('links.user_id', user.id).is('links.workspace_id', null))
+
     if (tagError) throw tagError
 
     // Count tag usage
@@ -124,34 +143,44 @@ export async function getLinkStatistics(): Promise<{
     const sevenDaysAgo = new Date()
     sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7)
 
-    const { count: recentLinksCount, error: recentError } = await supabase
-      .from('links')
-      .select('*', { count: 'exact', head: true })
-      .eq('user_id', user.id)
+    const { count: recentLinksCount, error: recentError } = await scopeQuery(
+      supabase.from('links').select('*', { count: 'exact', head: true }),
+      scope
+    )
       .is('deleted_at', null)
       .gte('created_at', sevenDaysAgo.toISOString())
 
     if (recentError) throw recentError
 
     // 6. Processing status counts
-    const { count: completedLinks, error: completedError } = await supabase
-      .from('links')
-      .select('*', { count: 'exact', head: true })
-      .eq('user_id', user.id)
+    const { count: completedLinks, error: completedError } = await scopeQuery(
+      supabase.from('links').select('*', { count: 'exact', head: true }),
+      scope
+    )
       .is('deleted_at', null)
       .eq('ai_processing_status', 'completed')
 
     if (completedError) throw completedError
 
-    const { count: failedLinks, error: failedError } = await supabase
-      .from('links')
-      .select('*', { count: 'exact', head: true })
-      .eq('user_id', user.id)
+    const { count: failedLinks, error: failedError } = await scopeQuery(
+      supabase.from('links').select('*', { count: 'exact', head: true }),
+      scope
+    )
       .is('deleted_at', null)
       .eq('ai_processing_status', 'failed')
 
     if (failedError) throw failedError
 
+    // 7. Broken links
+    const { count: brokenLinks, error: brokenError } = await scopeQuery(
+      supabase.from('links').select('*', { count: 'exact', head: true }),
+      scope
+    )
+      .is('deleted_at', null)
+      .eq('health_status', 'broken')
+
+    if (brokenError) throw brokenError
+
     return {
       success: true,
       data: {
@@ -162,6 +191,8 @@ export async function getLinkStatistics(): Promise<{
         recentLinksCount: recentLinksCount || 0,
         completedLinks: completedLinks || 0,
         failedLinks: failedLinks || 0,
+        brokenLinks: brokenLinks || 0,
+        linksByReadingState,
       },
     }
   } catch (error) {
@@ -0,0 +1,384 @@
+'use server'
+
+import { createServerActionClient } from '@/lib/supabase/server'
+import { revalidatePath } from 'next/cache'
+import { deleteLinkSchema, restoreLinkSchema } from '@/lib/validations/links'
+import { addEditedFields } from '@/lib/links/edited-fields'
+import { getWorkspaceScope } from '@/lib/workspaces/server'
+import { canEditContent, scopeQuery, READ_ONLY_ERROR } from '@/lib/workspaces/scope'
+import { emitWebhookEvent } from '@/lib/webhooks'
+import type {
+  LinkWithTags,
+  RestoreConflictStrategy,
+  RestoreLinkResult,
+  Tag,
+  TrashRetentionDays,
+} from '@/types'
+
+// Maximum number of tags per link (enforced by check_link_tags_limit in the database)
+const MAX_TAGS_PER_LINK = 10
+
+// Used when the user has no preferences row yet (same default as the database)
+const DEFAULT_TRASH_RETENTION_DAYS: TrashRetentionDays = 30
+
+type RestoreLinkResponse = {
+  success: boolean
+  data?: RestoreLinkResult
+  error?: string
+  conflictingLinkId?: string // Set when a live link already has the same URL
+}
+
+/**
+ * Get the user's soft-deleted links, most recently deleted first
+ */
+export async function getTrashedLinks(): Promise<{
+  success: boolean
+  data?: { links: LinkWithTags[]; retentionDays: TrashRetentionDays }
+  error?: string
+}> {
+  const supabase = await createServerActionClient()
+
+  // Get authenticated user
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { success: false, error: 'Not authenticated' }
+  }
+
+  const scope = await getWorkspaceScope(supabase, user.id)
+
+  try {
+    const { data: links, error: linksError } = await scopeQuery(
+      supabase.from('links').select(
+        `
+        *,
+        link_tags (
+          tag:tags (
+            id,
+            name
+          )
+        )
+      `
+      ),
+      scope
+    )
+      .not('deleted_at', 'is', null)
+      .order('deleted_at', { ascending: false })
+
+    if (linksError) {
+      console.error('Error fetching trash:', linksError)
+      return { success: false, error: 'Failed to fetch trash' }
+    }
+
+    const { data: preferences } = await supabase
+      .from('user_preferences')
+      .select('trash_retention_days')
+      .eq('user_id', user.id)
+      .maybeSingle()
+
+    const transformedLinks: LinkWithTags[] = (links || []).map((link) => ({
+      ...link,
+      tags: link.link_tags?.map((lt: { tag: Tag }) => lt.tag).filter(Boolean) || [],
+    }))
+
+    return {
+      success: true,
+      data: {
+        links: transformedLinks,
+        retentionDays: preferences?.trash_retention_days ?? DEFAULT_TRASH_RETENTION_DAYS,
+      },
+    }
+  } catch (error) {
+    console.error('Unexpected error in getTrashedLinks:', error)
+    return { success: false, error: 'An unexpected error occurred' }
+  }
+}
+
+/**
+ * Move a link out of the trash
+ * When the same URL has been saved again since, nothing is changed and the
+ * conflicting link is reported, unless a strategy is given:
+ * - replace: the live copy goes to the trash and the trashed link comes back
+ * - merge: tags and missing details of the trashed link are copied onto the live
+ *   copy, then the trashed link is deleted permanently
+ */
+export async function restoreLink(
+  linkId: string,
+  options: { onConflict?: RestoreConflictStrategy } = {}
+): Promise<RestoreLinkResponse> {
+  const supabase = await createServerActionClient()
+
+  // Get authenticated user
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { success: false, error: 'Not authenticated' }
+  }
+
+  const scope = await getWorkspaceScope(supabase, user.id)
+  if (!canEditContent(scope.role)) {
+    return { success: false, error: READ_ONLY_ERROR }
+  }
+
+  // Validate input
+  const validation = restoreLinkSchema.safeParse({ id: linkId, onConflict: options.onConflict })
+  if (!validation.success) {
+    return { success: false, error: 'Invalid link ID' }
+  }
+
+  try {
+    const { data: trashedLink, error: fetchError } = await scopeQuery(
+      supabase.from('links').select('id, normalized_url, title, ai_description, notes, rating'),
+      scope
+    )
+      .eq('id', linkId)
+      .not('deleted_at', 'is', null)
+      .maybeSingle()
+
+    if (fetchError) {
+      console.error('Error fetching trashed link:', fetchError)
+      return { success: false, error: 'Failed to restore link' }
+    }
+
+    if (!trashedLink) {
+      return { success: false, error: 'Link not found in trash' }
+    }
+
+    // The per-space unique URL indexes only allow one live link per URL
+    const { data: liveLink, error: liveError } = await scopeQuery(
+      supabase.from('links').select('id, title, ai_description, notes, rating, user_edited_fields'),
+      scope
+    )
+      .eq('normalized_url', trashedLink.normalized_url)
+      .is('deleted_at', null)
+      .maybeSingle()
+
+    if (liveError) {
+      console.error('Error checking for a live copy:', liveError)
+      return { success: false, error: 'Failed to restore link' }
+    }
+
+    if (liveLink && !validation.data.onConflict) {
+      return {
+        success: false,
+        error: 'This link has been saved again since it was deleted',
+        conflictingLinkId: liveLink.id,
+      }
+    }
+
+    if (liveLink && validation.data.onConflict === 'merge') {
+      // Tags of the live copy come first, the trashed link fills the remaining slots
+      const { data: linkTags, error: tagsError } = await supabase
+        .from('link_tags')
+        .select('link_id, tag_id')
+        .in('link_id', [liveLink.id, trashedLink.id])
+
+      if (tagsError) {
+        console.error('Error fetching tags to merge:', tagsError)
+        return { success: false, error: 'Failed to merge links' }
+      }
+
+      const liveTagIds = new Set(
+        (linkTags || []).filter((lt) => lt.link_id === liveLink.id).map((lt) => lt.tag_id)
+      )
+      const tagIdsToAdd = (linkTags || [])
+        .filter((lt) => lt.link_id === trashedLink.id && !liveTagIds.has(lt.tag_id))
+        .map((lt) => lt.tag_id)
+        .slice(0, Math.max(0, MAX_TAGS_PER_LINK - liveTagIds.size))
+
+      if (tagIdsToAdd.length > 0) {
+        const { error: insertError } = await supabase
+          .from('link_tags')
+          .upsert(
+            tagIdsToAdd.map((tagId) => ({ link_id: liveLink.id, tag_id: tagId })),
+            { onConflict: 'link_id,tag_id', ignoreDuplicates: true }
+          )
+
+        if (insertError) {
+          console.error('Error merging tags:', insertError)
+          return { success: false, error: 'Failed to merge links' }
+        }
+      }
+
+      const { error: updateError } = await scopeQuery(
+        supabase.from('links').update({
+          title: liveLink.title ?? trashedLink.title,
+          ai_description: liveLink.ai_description ?? trashedLink.ai_description,
+          notes: liveLink.notes ?? trashedLink.notes,
+          rating: liveLink.rating ?? trashedLink.rating,
+          // Merged tags are a manual choice - keep them when the link is re-processed
+          user_edited_fields:
+            tagIdsToAdd.length > 0
+              ? addEditedFields(liveLink.user_edited_fields, ['tags'])
+              : liveLink.user_edited_fields,
+        }),
+        scope
+      )
+        .eq('id', liveLink.id)
+
+      if (updateError) {
+        console.error('Error merging link details:', updateError)
+        return { success: false, error: 'Failed to merge links' }
+      }
+
+      const { error: deleteError } = await scopeQuery(supabase.from('links').delete(), scope)
+        .eq('id', trashedLink.id)
+
+      if (deleteError) {
+        console.error('Error removing merged link from trash:', deleteError)
+      }
+
+      emitWebhookEvent(supabase, user.id, 'link.updated', {
+        link: { id: liveLink.id, workspace_id: scope.workspaceId },
+        fields: [
+          'title',
+          'ai_description',
+          'notes',
+          'rating',
+          ...(tagIdsToAdd.length > 0 ? ['tags'] : []),
+        ],
+      })
+      revalidatePath('/dashboard')
+      revalidatePath('/trash')
+      return { success: true, data: { restoredLinkId: liveLink.id } }
+    }
+
+    if (liveLink) {
+      // replace: move the live copy to the trash to free the URL
+      const { error: trashError } = await scopeQuery(
+        supabase.from('links').update({ deleted_at: new Date().toISOString() }),
+        scope
+      )
+        .eq('id', liveLink.id)
+
+      if (trashError) {
+        console.error('Error moving live copy to trash:', trashError)
+        return { success: false, error: 'Failed to restore link' }
+      }
+    }
+
+    const { error: restoreError } = await scopeQuery(
+      supabase.from('links').update({ deleted_at: null }),
+      scope
+    )
+      .eq('id', trashedLink.id)
+
+    if (restoreError) {
+      if (liveLink) {
+        // Put the live copy back so the user does not lose both
+        await scopeQuery(supabase.from('links').update({ deleted_at: null }), scope)
+          .eq('id', liveLink.id)
+      }
+
+      // The same URL was saved again in the meantime
+      if (restoreError.code === '23505') {
+        return { success: false, error: 'This link has been saved again since it was deleted' }
+      }
+
+      console.error('Error restoring link:', restoreError)
+      return { success: false, error: 'Failed to restore link' }
+    }
+
+    if (liveLink) {
+      emitWebhookEvent(supabase, user.id, 'link.deleted', {
+        link: { id: liveLink.id, workspace_id: scope.workspaceId },
+      })
+    }
+    emitWebhookEvent(supabase, user.id, 'link.restored', {
+      link: { id: trashedLink.id, workspace_id: scope.workspaceId },
+    })
+    revalidatePath('/dashboard')
+    revalidatePath('/trash')
+    return { success: true, data: { restoredLinkId: trashedLink.id } }
+  } catch (error) {
+    console.error('Unexpected error in restoreLink:', error)
+    return { success: false, error: 'An unexpected error occurred' }
+  }
+}
+
+/**
+ * Permanently delete a link that is in the trash
+ */
+export async function deleteLinkForever(linkId: string) {
+  const supabase = await createServerActionClient()
+
+  // Get authenticated user
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { success: false, error: 'Not authenticated' }
+  }
+
+  const scope = await getWorkspaceScope(supabase, user.id)
+  if (!canEditContent(scope.role)) {
+    return { success: false, error: READ_ONLY_ERROR }
+  }
+
+  // Validate input
+  const validation = deleteLinkSchema.safeParse({ id: linkId })
+  if (!validation.success) {
+    return { success: false, error: 'Invalid link ID' }
+  }
+
+  // Only links already in the trash can be removed for good
+  const { error: deleteError } = await scopeQuery(supabase.from('links').delete(), scope)
+    .eq('id', linkId)
+    .not('deleted_at', 'is', null)
+
+  if (deleteError) {
+    console.error('Error deleting link permanently:', deleteError)
+    return { success: false, error: 'Failed to delete link' }
+  }
+
+  revalidatePath('/trash')
+  return { success: true }
+}
+
+/**
+ * Permanently delete every link in the trash
+ */
+export async function emptyTrash(): Promise<{
+  success: boolean
+  data?: { deleted: number }
+  error?: string
+}> {
+  const supabase = await createServerActionClient()
+
+  // Get authenticated user
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { success: false, error: 'Not authenticated' }
+  }
+
+  const scope = await getWorkspaceScope(supabase, user.id)
+  if (!canEditContent(scope.role)) {
+    return { success: false, error: READ_ONLY_ERROR }
+  }
+
+  const { count, error: deleteError } = await scopeQuery(
+    supabase.from('links').delete({ count: 'exact' }),
+    scope
+  )
+    .not('deleted_at', 'is', null)
+
+  if (deleteError) {
+    console.error('Error emptying trash:', deleteError)
+    return { success: false, error: 'Failed to empty trash' }
+  }
+
+  revalidatePath('/trash')
+  return { success: true, data: { deleted: count || 0 } }
+}
@@ -0,0 +1,303 @@
+'use server'
+
+import { createServerActionClient } from '@/lib/supabase/server'
+import { revalidatePath } from 'next/cache'
+import { after } from 'next/server'
+import { z } from 'zod'
+import {
+  createWebhookEndpointSchema,
+  updateWebhookEndpointSchema,
+  webhookDeliveryIdSchema,
+  webhookEndpointIdSchema,
+} from '@/lib/validations/webhooks'
+import { isUrlScrapable } from '@/lib/scraping'
+import { deliverPendingWebhooks } from '@/lib/webhooks'
+import { generateWebhookSecret } from '@/lib/webhooks/signature'
+import type { WebhookDelivery, WebhookEndpoint } from '@/types'
+
+export type CreateWebhookEndpointInput = z.input<typeof createWebhookEndpointSchema>
+export type UpdateWebhookEndpointInput = z.input<typeof updateWebhookEndpointSchema>
+
+// Entries shown in the delivery log of an endpoint
+const DELIVERY_LOG_LIMIT = 20
+
+/**
+ * Get the user's webhook endpoints, newest first
+ */
+export async function getWebhookEndpoints(): Promise<{
+  success: boolean
+  data?: WebhookEndpoint[]
+  error?: string
+}> {
+  const supabase = await createServerActionClient()
+
+  // Get authenticated user
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { success: false, error: 'Not authenticated' }
+  }
+
+  const { data: endpoints, error: fetchError } = await supabase
+    .from('webhook_endpoints')
+    .select('*')
+    .eq('user_id', user.id)
+    .order('created_at', { ascending: false })
+
+  if (fetchError) {
+    console.error('Error fetching webhook endpoints:', fetchError)
+    return { success: false, error: 'Failed to fetch webhooks' }
+  }
+
+  return { success: true, data: endpoints || [] }
+}
+
+/**
+ * Add an endpoint with a new signing secret
+ */
+export async function createWebhookEndpoint(input: CreateWebhookEndpointInput): Promise<{
+  success: boolean
+  data?: WebhookEndpoint
+  error?: string
+}> {
+  const supabase = await createServerActionClient()
+
+  // Get authenticated user
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { success: false, error: 'Not authenticated' }
+  }
+
+  // Validate input
+  const validation = createWebhookEndpointSchema.safeParse(input)
+  if (!validation.success) {
+    return {
+      success: false,
+      error: validation.error.issues[0]?.message || 'Validation failed',
+    }
+  }
+
+  const { url, description, events } = validation.data
+
+  // Same rules as saved links - no localhost or private networks in production
+  const urlCheck = isUrlScrapable(url)
+  if (!urlCheck.valid) {
+    return { success: false, error: urlCheck.reason || 'URL cannot be used for webhooks' }
+  }
+
+  const { data: endpoint, error: insertError } = await supabase
+    .from('webhook_endpoints')
+    .insert({
+      user_id: user.id,
+      url,
+      description,
+      events,
+      secret: generateWebhookSecret(),
+    })
+    .select()
+    .single()
+
+  if (insertError) {
+    console.error('Error creating webhook endpoint:', insertError)
+    return { success: false, error: 'Failed to create webhook' }
+  }
+
+  revalidatePath('/settings')
+  return { success: true, data: endpoint }
+}
+
+/**
+ * Turn an endpoint on or off, or change its events
+ */
+export async function updateWebhookEndpoint(input: UpdateWebhookEndpointInput) {
+  const supabase = await createServerActionClient()
+
+  // Get authenticated user
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { success: false, error: 'Not authenticated' }
+  }
+
+  // Validate input
+  const validation = updateWebhookEndpointSchema.safeParse(input)
+  if (!validation.success) {
+    return {
+      success: false,
+      error: validation.error.issues[0]?.message || 'Validation failed',
+    }
+  }
+
+  const { id, active, events } = validation.data
+
+  const { data: endpoint, error: updateError } = await supabase
+    .from('webhook_endpoints')
+    .update({
+      ...(active !== undefined && { active }),
+      ...(events !== undefined && { events }),
+    })
+    .eq('id', id)
+    .eq('user_id', user.id)
+    .select('id')
+    .maybeSingle()
+
+  if (updateError) {
+    console.error('Error updating webhook endpoint:', updateError)
+    return { success: false, error: 'Failed to update webhook' }
+  }
+
+  if (!endpoint) {
+    return { success: false, error: 'Webhook not found' }
+  }
+
+  revalidatePath('/settings')
+  return { success: true }
+}
+
+/**
+ * Delete an endpoint together with its delivery log
+ */
+export async function deleteWebhookEndpoint(id: string) {
+  const supabase = await createServerActionClient()
+
+  // Get authenticated user
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { success: false, error: 'Not authenticated' }
+  }
+
+  // Validate input
+  const validation = webhookEndpointIdSchema.safeParse({ id })
+  if (!validation.success) {
+    return { success: false, error: 'Invalid webhook ID' }
+  }
+
+  const { error: deleteError } = await supabase
+    .from('webhook_endpoints')
+    .delete()
+    .eq('id', id)
+    .eq('user_id', user.id)
+
+  if (deleteError) {
+    console.error('Error deleting webhook endpoint:', deleteError)
+    return { success: false, error: 'Failed to delete webhook' }
+  }
+
+  revalidatePath('/settings')
+  return { success: true }
+}
+
+/**
+ * Latest deliveries of an endpoint for the delivery log
+ */
+export async function getWebhookDeliveries(endpointId: string): Promise<{
+  success: boolean
+  data?: WebhookDelivery[]
+  error?: string
+}> {
+  const supabase = await createServerActionClient()
+
+  // Get authenticated user
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { success: false, error: 'Not authenticated' }
+  }
+
+  // Validate input
+  const validation = webhookEndpointIdSchema.safeParse({ id: endpointId })
+  if (!validation.success) {
+    return { success: false, error: 'Invalid webhook ID' }
+  }
+
+  const { data: deliveries, error: fetchError } = await supabase
+    .from('webhook_deliveries')
+    .select('*')
+    .eq('endpoint_id', endpointId)
+    .eq('user_id', user.id)
+    .order('created_at', { ascending: false })
+    .limit(DELIVERY_LOG_LIMIT)
+
+  if (fetchError) {
+    console.error('Error fetching webhook deliveries:', fetchError)
+    return { success: false, error: 'Failed to fetch deliveries' }
+  }
+
+  return { success: true, data: deliveries || [] }
+}
+
+/**
+ * Send a delivery again with the same payload and delivery ID
+ * Attempts start over, so a redelivery is retried with backoff like a new event.
+ */
+export async function redeliverWebhook(deliveryId: string) {
+  const supabase = await createServerActionClient()
+
+  // Get authenticated user
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { success: false, error: 'Not authenticated' }
+  }
+
+  // Validate input
+  const validation = webhookDeliveryIdSchema.safeParse({ id: deliveryId })
+  if (!validation.success) {
+    return { success: false, error: 'Invalid delivery ID' }
+  }
+
+  // Deliveries that are being sent right now are left alone
+  const { data: delivery, error: updateError } = await supabase
+    .from('webhook_deliveries')
+    .update({
+      status: 'pending',
+      attempts: 0,
+      next_attempt_at: new Date().toISOString(),
+      last_error: null,
+    })
+    .eq('id', deliveryId)
+    .eq('user_id', user.id)
+    .neq('status', 'sending')
+    .select('id')
+    .maybeSingle()
+
+  if (updateError) {
+    console.error('Error queueing webhook redelivery:', updateError)
+    return { success: false, error: 'Failed to redeliver webhook' }
+  }
+
+  if (!delivery) {
+    return { success: false, error: 'Delivery not found or still sending' }
+  }
+
+  after(async () => {
+    try {
+      await deliverPendingWebhooks(supabase, { userId: user.id })
+    } catch (error) {
+      // The delivery stays pending and is picked up by the cron worker
+      console.error('[Webhooks] Redelivery failed:', error)
+    }
+  })
+
+  return { success: true }
+}
@@ -0,0 +1,697 @@
+'use server'
+
+import { createServerActionClient } from '@/lib/supabase/server'
+import { revalidatePath } from 'next/cache'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import {
+  createInvitationSchema,
+  createWorkspaceSchema,
+  removeMemberSchema,
+  renameWorkspaceSchema,
+  updateMemberRoleSchema,
+  workspaceIdSchema,
+} from '@/lib/validations/workspaces'
+import { generateShareToken, isValidShareToken } from '@/lib/shares/tokens'
+import { getWorkspaceScope, setWorkspaceCookie } from '@/lib/workspaces/server'
+import { canManageWorkspace, getInvitationExpiresAt, isLastOwner } from '@/lib/workspaces/scope'
+import type {
+  ActiveWorkspace,
+  Workspace,
+  WorkspaceInvitation,
+  WorkspaceMemberWithEmail,
+  WorkspaceRole,
+  WorkspaceWithRole,
+} from '@/types'
+
+const LAST_OWNER_ERROR = 'A workspace needs at least one owner - make another member an owner first'
+
+/**
+ * Members of a workspace with their roles (RLS only returns them to members)
+ */
+async function getMemberRoles(
+  supabase: SupabaseClient,
+  workspaceId: string
+): Promise<{ user_id: string; role: WorkspaceRole }[]> {
+  const { data: members } = await supabase
+    .from('workspace_members')
+    .select('user_id, role')
+    .eq('workspace_id', workspaceId)
+
+  return (members || []) as { user_id: string; role: WorkspaceRole }[]
+}
+
+/**
+ * Get the workspaces the user is a member of, with their role and member count
+ */
+export async function getWorkspaces(): Promise<{
+  success: boolean
+  data?: WorkspaceWithRole[]
+  error?: string
+}> {
+  const supabase = await createServerActionClient()
+
+  // Get authenticated user
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { success: false, error: 'Not authenticated' }
+  }
+
+  const { data: memberships, error: fetchError } = await supabase
+    .from('workspace_members')
+    .select(
+      `
+      role,
+      workspace:workspaces (
+        *,
+        workspace_members (count)
+      )
+    `
+    )
+    .eq('user_id', user.id)
+
+  if (fetchError) {
+    console.error('Error fetching workspaces:', fetchError)
+    return { success: false, error: 'Failed to fetch workspaces' }
+  }
+
+  // workspace is one object at runtime, with the member count as [{ count }]
+  const workspaces = (memberships || [])
+    .map((membership) => {
+      const workspace = membership.workspace as unknown as
+        | (Workspace & { workspace_members?: { count: number }[] })
+        | null
+      if (!workspace) return null
+
+      const { workspace_members, ...rest } = workspace
+      return {
+        ...rest,
+        role: membership.role as WorkspaceRole,
+        member_count: workspace_members?.[0]?.count || 0,
+      }
+    })
+    .filter((workspace): workspace is WorkspaceWithRole => !!workspace)
+    .sort((a, b) => a.name.localeCompare(b.name))
+
+  return { success: true, data: workspaces }
+}
+
+/**
+ * Get the space picked in the workspace switcher
+ */
+export async function getActiveWorkspace(): Promise<{
+  success: boolean
+  data?: ActiveWorkspace
+  error?: string
+}> {
+  const supabase = await createServerActionClient()
+
+  // Get authenticated user
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { success: false, error: 'Not authenticated' }
+  }
+
+  const scope = await getWorkspaceScope(supabase, user.id)
+  if (!scope.workspaceId) {
+    return { success: true, data: { workspace: null, role: scope.role, userId: user.id } }
+  }
+
+  const { data: workspace, error: fetchError } = await supabase
+    .from('workspaces')
+    .select('*')
+    .eq('id', scope.workspaceId)
+    .single()
+
+  if (fetchError) {
+    console.error('Error fetching active workspace:', fetchError)
+    return { success: false, error: 'Failed to fetch workspace' }
+  }
+
+  return { success: true, data: { workspace, role: scope.role, userId: user.id } }
+}
+
+/**
+ * Switch to a workspace, or back to the personal space with null
+ */
+export async function setActiveWorkspace(workspaceId: string | null) {
+  const supabase = await createServerActionClient()
+
+  // Get authenticated user
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { success: false, error: 'Not authenticated' }
+  }
+
+  if (workspaceId) {
+    // Validate input
+    const validation = workspaceIdSchema.safeParse({ id: workspaceId })
+    if (!validation.success) {
+      return { success: false, error: 'Invalid workspace ID' }
+    }
+
+    const { data: membership } = await supabase
+      .from('workspace_members')
+      .select('role')
+      .eq('workspace_id', workspaceId)
+      .eq('user_id', user.id)
+      .maybeSingle()
+
+    if (!membership) {
+      return { success: false, error: 'Workspace not found' }
+    }
+  }
+
+  await setWorkspaceCookie(workspaceId)
+
+  revalidatePath('/', 'layout')
+  return { success: true }
+}
+
+/**
+ * Create a workspace - the creator becomes its owner
+ */
+export async function createWorkspace(name: string): Promise<{
+  success: boolean
+  data?: Workspace
+  error?: string
+}> {
+  const supabase = await createServerActionClient()
+
+  // Get authenticated user
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { success: false, error: 'Not authenticated' }
+  }
+
+  // Validate input
+  const validation = createWorkspaceSchema.safeParse({ name })
+  if (!validation.success) {
+    return {
+      success: false,
+      error: validation.error.issues[0]?.message || 'Validation failed',
+    }
+  }
+
+  // The ID is picked here: the workspace is only readable once the owner trigger
+  // has run, so the insert cannot return it
+  const id = crypto.randomUUID()
+  const { error: insertError } = await supabase
+    .from('workspaces')
+    .insert({ id, name: validation.data.name, created_by: user.id })
+
+  if (insertError) {
+    console.error('Error creating workspace:', insertError)
+    return { success: false, error: 'Failed to create workspace' }
+  }
+
+  const { data: workspace, error: fetchError } = await supabase
+    .from('workspaces')
+    .select('*')
+    .eq('id', id)
+    .single()
+
+  if (fetchError) {
+    console.error('Error fetching new workspace:', fetchError)
+    return { success: false, error: 'Failed to create workspace' }
+  }
+
+  revalidatePath('/workspaces')
+  return { success: true, data: workspace }
+}
+
+/**
+ * Rename a workspace (owners only)
+ */
+export async function renameWorkspace(id: string, name: string) {
+  const supabase = await createServerActionClient()
+
+  // Get authenticated user
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { success: false, error: 'Not authenticated' }
+  }
+
+  // Validate input
+  const validation = renameWorkspaceSchema.safeParse({ id, name })
+  if (!validation.success) {
+    return {
+      success: false,
+      error: validation.error.issues[0]?.message || 'Validation failed',
+    }
+  }
+
+  // RLS only lets owners update, so a missing row means no access
+  const { data: workspace, error: updateError } = await supabase
+    .from('workspaces')
+    .update({ name: validation.data.name })
+    .eq('id', id)
+    .select('id')
+    .maybeSingle()
+
+  if (updateError) {
+    console.error('Error renaming workspace:', updateError)
+    return { success: false, error: 'Failed to rename workspace' }
+  }
+
+  if (!workspace) {
+    return { success: false, error: 'Only owners can rename the workspace' }
+  }
+
+  revalidatePath('/workspaces')
+  revalidatePath(`/workspaces/${id}`)
+  return { success: true }
+}
+
+/**
+ * Delete a workspace with all its links, tags and collections (owners only)
+ */
+export async function deleteWorkspace(id: string) {
+  const supabase = await createServerActionClient()
+
+  // Get authenticated user
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { success: false, error: 'Not authenticated' }
+  }
+
+  // Validate input
+  const validation = workspaceIdSchema.safeParse({ id })
+  if (!validation.success) {
+    return { success: false, error: 'Invalid workspace ID' }
+  }
+
+  const { count, error: deleteError } = await supabase
+    .from('workspaces')
+    .delete({ count: 'exact' })
+    .eq('id', id)
+
+  if (deleteError) {
+    console.error('Error deleting workspace:', deleteError)
+    return { success: false, error: 'Failed to delete workspace' }
+  }
+
+  if (!count) {
+    return { success: false, error: 'Only owners can delete the workspace' }
+  }
+
+  // Drop the cookie if it pointed at the deleted workspace
+  const scope = await getWorkspaceScope(supabase, user.id)
+  if (!scope.workspaceId) {
+    await setWorkspaceCookie(null)
+  }
+
+  revalidatePath('/', 'layout')
+  return { success: true }
+}
+
+/**
+ * Leave a workspace - the last owner has to hand over or delete it instead
+ */
+export async function leaveWorkspace(id: string) {
+  const supabase = await createServerActionClient()
+
+  // Get authenticated user
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { success: false, error: 'Not authenticated' }
+  }
+
+  // Validate input
+  const validation = workspaceIdSchema.safeParse({ id })
+  if (!validation.success) {
+    return { success: false, error: 'Invalid workspace ID' }
+  }
+
+  const members = await getMemberRoles(supabase, id)
+  if (isLastOwner(members, user.id)) {
+    return { success: false, error: LAST_OWNER_ERROR }
+  }
+
+  const { error: deleteError } = await supabase
+    .from('workspace_members')
+    .delete()
+    .eq('workspace_id', id)
+    .eq('user_id', user.id)
+
+  if (deleteError) {
+    console.error('Error leaving workspace:', deleteError)
+    return { success: false, error: 'Failed to leave workspace' }
+  }
+
+  // Drop the cookie if it pointed at the workspace just left
+  const scope = await getWorkspaceScope(supabase, user.id)
+  if (!scope.workspaceId) {
+    await setWorkspaceCookie(null)
+  }
+
+  revalidatePath('/', 'layout')
+  return { success: true }
+}
+
+/**
+ * Get the members of a workspace with their emails
+ */
+export async function getWorkspaceMembers(workspaceId: string): Promise<{
+  success: boolean
+  data?: WorkspaceMemberWithEmail[]
+  error?: string
+}> {
+  const supabase = await createServerActionClient()
+
+  // Get authenticated user
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { success: false, error: 'Not authenticated' }
+  }
+
+  // Validate input
+  const validation = workspaceIdSchema.safeParse({ id: workspaceId })
+  if (!validation.success) {
+    return { success: false, error: 'Invalid workspace ID' }
+  }
+
+  const { data: members, error: fetchError } = await supabase.rpc('get_workspace_members', {
+    p_workspace_id: workspaceId,
+  })
+
+  if (fetchError) {
+    console.error('Error fetching workspace members:', fetchError)
+    return { success: false, error: 'Failed to fetch members' }
+  }
+
+  const rows = (members || []) as Omit<WorkspaceMemberWithEmail, 'workspace_id'>[]
+  const membersWithWorkspace = rows.map((member) => ({ ...member, workspace_id: workspaceId }))
+
+  return { success: true, data: membersWithWorkspace }
+}
+
+/**
+ * Change the role of a member (owners only)
+ */
+export async function updateMemberRole(workspaceId: string, userId: string, role: WorkspaceRole) {
+  const supabase = await createServerActionClient()
+
+  // Get authenticated user
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { success: false, error: 'Not authenticated' }
+  }
+
+  // Validate input
+  const validation = updateMemberRoleSchema.safeParse({ workspaceId, userId, role })
+  if (!validation.success) {
+    return {
+      success: false,
+      error: validation.error.issues[0]?.message || 'Validation failed',
+    }
+  }
+
+  const members = await getMemberRoles(supabase, workspaceId)
+  const myRole = members.find((member) => member.user_id === user.id)?.role
+  if (!myRole || !canManageWorkspace(myRole)) {
+    return { success: false, error: 'Only owners can change roles' }
+  }
+
+  if (role !== 'owner' && isLastOwner(members, userId)) {
+    return { success: false, error: LAST_OWNER_ERROR }
+  }
+
+  const { error: updateError } = await supabase
+    .from('workspace_members')
+    .update({ role })
+    .eq('workspace_id', workspaceId)
+    .eq('user_id', userId)
+
+  if (updateError) {
+    console.error('Error updating member role:', updateError)
+    return { success: false, error: 'Failed to change role' }
+  }
+
+  revalidatePath(`/workspaces/${workspaceId}`)
+  return { success: true }
+}
+
+/**
+ * Remove someone else from a workspace (owners only)
+ */
+export async function removeMember(workspaceId: string, userId: string) {
+  const supabase = await createServerActionClient()
+
+  // Get authenticated user
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { success: false, error: 'Not authenticated' }
+  }
+
+  // Validate input
+  const validation = removeMemberSchema.safeParse({ workspaceId, userId })
+  if (!validation.success) {
+    return { success: false, error: 'Invalid member' }
+  }
+
+  if (userId === user.id) {
+    return { success: false, error: 'Use "Leave workspace" to remove yourself' }
+  }
+
+  const members = await getMemberRoles(supabase, workspaceId)
+  const myRole = members.find((member) => member.user_id === user.id)?.role
+  if (!myRole || !canManageWorkspace(myRole)) {
+    return { success: false, error: 'Only owners can remove members' }
+  }
+
+  const { error: deleteError } = await supabase
+    .from('workspace_members')
+    .delete()
+    .eq('workspace_id', workspaceId)
+    .eq('user_id', userId)
+
+  if (deleteError) {
+    console.error('Error removing member:', deleteError)
+    return { success: false, error: 'Failed to remove member' }
+  }
+
+  revalidatePath(`/workspaces/${workspaceId}`)
+  return { success: true }
+}
+
+/**
+ * Get the pending invitations of a workspace (owners only)
+ */
+export async function getInvitations(workspaceId: string): Promise<{
+  success: boolean
+  data?: WorkspaceInvitation[]
+  error?: string
+}> {
+  const supabase = await createServerActionClient()
+
+  // Get authenticated user
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { success: false, error: 'Not authenticated' }
+  }
+
+  // Validate input
+  const validation = workspaceIdSchema.safeParse({ id: workspaceId })
+  if (!validation.success) {
+    return { success: false, error: 'Invalid workspace ID' }
+  }
+
+  // RLS only returns invitations to owners
+  const { data: invitations, error: fetchError } = await supabase
+    .from('workspace_invitations')
+    .select('*')
+    .eq('workspace_id', workspaceId)
+    .is('accepted_at', null)
+    .gt('expires_at', new Date().toISOString())
+    .order('created_at', { ascending: false })
+
+  if (fetchError) {
+    console.error('Error fetching invitations:', fetchError)
+    return { success: false, error: 'Failed to fetch invitations' }
+  }
+
+  return { success: true, data: invitations || [] }
+}
+
+/**
+ * Invite someone by email - they join by opening the invitation link
+ */
+export async function createInvitation(input: {
+  workspaceId: string
+  email: string
+  role: 'editor' | 'viewer'
+}): Promise<{
+  success: boolean
+  data?: WorkspaceInvitation
+  error?: string
+}> {
+  const supabase = await createServerActionClient()
+
+  // Get authenticated user
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { success: false, error: 'Not authenticated' }
+  }
+
+  // Validate input
+  const validation = createInvitationSchema.safeParse(input)
+  if (!validation.success) {
+    return {
+      success: false,
+      error: validation.error.issues[0]?.message || 'Validation failed',
+    }
+  }
+
+  const { workspaceId, email, role } = validation.data
+
+  if (email === user.email?.toLowerCase()) {
+    return { success: false, error: 'You are already a member of this workspace' }
+  }
+
+  const { data: invitation, error: insertError } = await supabase
+    .from('workspace_invitations')
+    .insert({
+      workspace_id: workspaceId,
+      email,
+      role,
+      token: generateShareToken(),
+      invited_by: user.id,
+      expires_at: getInvitationExpiresAt(),
+    })
+    .select()
+    .single()
+
+  if (insertError) {
+    console.error('Error creating invitation:', insertError)
+    return { success: false, error: 'Only owners can invite people' }
+  }
+
+  revalidatePath(`/workspaces/${workspaceId}`)
+  return { success: true, data: invitation }
+}
+
+/**
+ * Withdraw an invitation that was not accepted yet
+ */
+export async function revokeInvitation(id: string) {
+  const supabase = await createServerActionClient()
+
+  // Get authenticated user
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { success: false, error: 'Not authenticated' }
+  }
+
+  // Validate input
+  const validation = workspaceIdSchema.safeParse({ id })
+  if (!validation.success) {
+    return { success: false, error: 'Invalid invitation ID' }
+  }
+
+  const { error: deleteError } = await supabase.from('workspace_invitations').delete().eq('id', id)
+
+  if (deleteError) {
+    console.error('Error revoking invitation:', deleteError)
+    return { success: false, error: 'Failed to revoke invitation' }
+  }
+
+  revalidatePath('/workspaces')
+  return { success: true }
+}
+
+/**
+ * Join a workspace through an invitation link and switch to it
+ */
+export async function acceptInvitation(token: string): Promise<{
+  success: boolean
+  data?: { workspaceId: string }
+  error?: string
+}> {
+  const supabase = await createServerActionClient()
+
+  // Get authenticated user
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return { success: false, error: 'Not authenticated' }
+  }
+
+  const invalidError = 'This invitation is invalid, has expired or was sent to another email address'
+  if (!isValidShareToken(token)) {
+    return { success: false, error: invalidError }
+  }
+
+  const { data: workspaceId, error: acceptError } = await supabase.rpc(
+    'accept_workspace_invitation',
+    { p_token: token }
+  )
+
+  if (acceptError) {
+    console.error('Error accepting invitation:', acceptError)
+    return { success: false, error: 'Failed to accept invitation' }
+  }
+
+  if (!workspaceId) {
+    return { success: false, error: invalidError }
+  }
+
+  await setWorkspaceCookie(workspaceId as string)
+
+  revalidatePath('/', 'layout')
+  return { success: true, data: { workspaceId: workspaceId as string } }
+}
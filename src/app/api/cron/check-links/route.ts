@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server'
+import { createAdminClient } from '@/lib/supabase/server'
+import { isAuthorizedCronRequest } from '@/lib/cron'
+import { checkDueLinks } from '@/lib/health'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Dead-link checker: re-checks links that were not checked in the last week
+ */
+export async function GET(request: Request) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const supabase = createAdminClient()
+    const summary = await checkDueLinks(supabase, { maxLinks: 50 })
+
+    console.log(`[Health] Cron run finished: ${JSON.stringify(summary)}`)
+    return NextResponse.json({ status: 'ok', ...summary })
+  } catch (error) {
+    console.error('[Health] Cron run failed:', error)
+    return NextResponse.json({ error: 'Link health check failed' }, { status: 500 })
+  }
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server'
+import { createAdminClient } from '@/lib/supabase/server'
+import { isAuthorizedCronRequest } from '@/lib/cron'
+import { deliverPendingWebhooks } from '@/lib/webhooks'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Background worker for webhook deliveries
+ * Sends retries whose backoff has passed and deliveries whose inline send never finished
+ */
+export async function GET(request: Request) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const supabase = createAdminClient()
+    const summary = await deliverPendingWebhooks(supabase, { maxDeliveries: 50 })
+
+    console.log(`[Webhooks] Cron run finished: ${JSON.stringify(summary)}`)
+    return NextResponse.json({ status: 'ok', ...summary })
+  } catch (error) {
+    console.error('[Webhooks] Cron run failed:', error)
+    return NextResponse.json({ error: 'Webhook delivery failed' }, { status: 500 })
+  }
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server'
+import { createAdminClient } from '@/lib/supabase/server'
+import { isAuthorizedCronRequest } from '@/lib/cron'
+import { drainImportQueue } from '@/lib/links/import-queue'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Background worker for bulk imports that exceeded the hourly link limit
+ * Created links are 'pending' and get enriched by /api/cron/process-links
+ */
+export async function GET(request: Request) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const supabase = createAdminClient()
+    const summary = await drainImportQueue(supabase, { maxLinks: 100 })
+
+    console.log(`[Import] Cron run finished: ${JSON.stringify(summary)}`)
+    return NextResponse.json({ status: 'ok', ...summary })
+  } catch (error) {
+    console.error('[Import] Cron run failed:', error)
+    return NextResponse.json({ error: 'Import queue processing failed' }, { status: 500 })
+  }
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server'
+import { createAdminClient } from '@/lib/supabase/server'
+import { isAuthorizedCronRequest } from '@/lib/cron'
+import { processLinkQueue } from '@/lib/queue'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Background worker for the link processing queue
+ * Picks up retries and links whose inline processing never finished
+ */
+export async function GET(request: Request) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const supabase = createAdminClient()
+    const summary = await processLinkQueue(supabase, { maxLinks: 20 })
+
+    console.log(`[Queue] Cron run finished: ${JSON.stringify(summary)}`)
+    return NextResponse.json({ status: 'ok', ...summary })
+  } catch (error) {
+    console.error('[Queue] Cron run failed:', error)
+    return NextResponse.json({ error: 'Queue processing failed' }, { status: 500 })
+  }
+}
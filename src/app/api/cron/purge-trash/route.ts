@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server'
+import { createAdminClient } from '@/lib/supabase/server'
+import { isAuthorizedCronRequest } from '@/lib/cron'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Removes links that stayed in the trash longer than their owner's retention period
+ * (user_preferences.trash_retention_days, 30 days by default)
+ */
+export async function GET(request: Request) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const supabase = createAdminClient()
+    const { data: purged, error } = await supabase.rpc('purge_deleted_links')
+
+    if (error) {
+      throw error
+    }
+
+    console.log(`[Trash] Purged ${purged ?? 0} links`)
+    return NextResponse.json({ status: 'ok', purged: purged ?? 0 })
+  } catch (error) {
+    console.error('[Trash] Purge failed:', error)
+    return NextResponse.json({ error: 'Trash purge failed' }, { status: 500 })
+  }
+}
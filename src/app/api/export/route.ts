@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server'
+import { createServerActionClient } from '@/lib/supabase/server'
+import { getWorkspaceScope } from '@/lib/workspaces/server'
+import { parseExportParams } from '@/lib/api/params'
+import { streamSpaceLinks } from '@/lib/links/export'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Download all links of the active space for the signed-in user (export dialog)
+ * Same query string as /api/v1/export: ?format=json|csv|markdown&include_deleted=1
+ */
+export async function GET(request: Request) {
+  const supabase = await createServerActionClient()
+
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const params = parseExportParams(new URL(request.url).searchParams)
+  if (!params.success) {
+    return NextResponse.json({ error: params.error }, { status: 400 })
+  }
+
+  const scope = await getWorkspaceScope(supabase, user.id)
+
+  const result = await streamSpaceLinks(supabase, scope, params.data.format, params.data.options)
+  if (!result.success || !result.data) {
+    return NextResponse.json({ error: result.error || 'Failed to export data' }, { status: 500 })
+  }
+
+  return new Response(result.data.stream, {
+    headers: {
+      'Content-Type': `${result.data.mimeType}; charset=utf-8`,
+      'Content-Disposition': `attachment; filename="${result.data.filename}"`,
+      'Cache-Control': 'no-store',
+    },
+  })
+}
@@ -0,0 +1,33 @@
+import { apiError, authenticateApiRequest } from '@/lib/api/auth'
+import { parseExportParams } from '@/lib/api/params'
+import { streamSpaceLinks } from '@/lib/links/export'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Download all links of the token's space - ?format=json (default), csv or markdown (md)
+ * The file has the same content as the export in Settings and is streamed page by page.
+ * Links in the trash are left out unless ?include_deleted=1.
+ */
+export async function GET(request: Request) {
+  const auth = await authenticateApiRequest(request, 'links:read')
+  if (auth.response) return auth.response
+  const { supabase, scope } = auth.context
+
+  const params = parseExportParams(new URL(request.url).searchParams)
+  if (!params.success) {
+    return apiError(params.error, 400)
+  }
+
+  const result = await streamSpaceLinks(supabase, scope, params.data.format, params.data.options)
+  if (!result.success || !result.data) {
+    return apiError(result.error || 'Failed to export data', 500)
+  }
+
+  return new Response(result.data.stream, {
+    headers: {
+      'Content-Type': `${result.data.mimeType}; charset=utf-8`,
+      'Content-Disposition': `attachment; filename="${result.data.filename}"`,
+    },
+  })
+}
@@ -0,0 +1,106 @@
+import { apiError, authenticateApiRequest } from '@/lib/api/auth'
+import { parseLinkSearchParams } from '@/lib/api/params'
+import { searchSpaceLinks } from '@/lib/links/search'
+import {
+  buildFeed,
+  getFeedItems,
+  getFeedTitle,
+  FEED_CONTENT_TYPES,
+  FEED_FORMATS,
+  FEED_ITEM_LIMIT,
+  type FeedFormat,
+} from '@/lib/links/feeds'
+import { scopeQuery } from '@/lib/workspaces/scope'
+
+export const dynamic = 'force-dynamic'
+
+type FeedRouteContext = {
+  params: Promise<{ format: string }>
+}
+
+function isFeedFormat(format: string): format is FeedFormat {
+  return (FEED_FORMATS as readonly string[]).includes(format)
+}
+
+/**
+ * RSS 2.0 (/api/v1/feeds/rss) or Atom (/api/v1/feeds/atom) feed of the token's space
+ * Takes the filters of /api/v1/links (q, tags, state, sort) and the token as `?token=` or
+ * bearer header. Returns the newest links first unless another sort is given.
+ */
+export async function GET(request: Request, { params }: FeedRouteContext) {
+  const { format } = await params
+  if (!isFeedFormat(format)) {
+    return apiError('Feed format not found', 404)
+  }
+
+  const auth = await authenticateApiRequest(request, 'feeds:read')
+  if (auth.response) return auth.response
+  const { supabase, scope } = auth.context
+
+  const url = new URL(request.url)
+  const filters = parseLinkSearchParams(url.searchParams)
+  if (!filters.success) {
+    return apiError(filters.error, 400)
+  }
+
+  // Tag names for the feed title - also rejects tags of other spaces
+  const tagIds = Array.from(new Set(filters.data.tagIds ?? []))
+  let tagNames: string[] = []
+  if (tagIds.length > 0) {
+    const { data: tags, error: tagsError } = await scopeQuery(
+      supabase.from('tags').select('id, name'),
+      scope
+    ).in('id', tagIds)
+
+    if (tagsError) {
+      console.error('Error fetching feed tags:', tagsError)
+      return apiError('Failed to fetch tags', 500)
+    }
+
+    if (!tags || tags.length !== tagIds.length) {
+      return apiError('Tag not found', 404)
+    }
+    tagNames = tagIds.map((id) => tags.find((tag) => tag.id === id)?.name ?? id)
+  }
+
+  const result = await searchSpaceLinks(supabase, scope, {
+    sortBy: 'date-desc',
+    ...filters.data,
+    page: 1,
+    pageSize: FEED_ITEM_LIMIT,
+  })
+
+  if (!result.success || !result.data) {
+    return apiError(result.error || 'Failed to fetch links', 500)
+  }
+
+  const items = getFeedItems(result.data.links)
+  const updatedAt = items.reduce(
+    (latest, item) => (item.updatedAt > latest ? item.updatedAt : latest),
+    items[0]?.updatedAt ?? new Date().toISOString()
+  )
+
+  // The feed ID must not change when the token is replaced
+  const feedUrl = new URL(url)
+  feedUrl.searchParams.delete('token')
+
+  const xml = buildFeed(
+    format,
+    {
+      id: feedUrl.toString(),
+      title: getFeedTitle({ query: filters.data.query, tagNames }),
+      description: 'Links saved in TagLink',
+      selfUrl: url.toString(),
+      siteUrl: `${url.origin}/dashboard`,
+      updatedAt,
+    },
+    items
+  )
+
+  return new Response(xml, {
+    headers: {
+      'Content-Type': FEED_CONTENT_TYPES[format],
+      'Cache-Control': 'private, max-age=300',
+    },
+  })
+}
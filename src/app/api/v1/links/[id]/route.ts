@@ -0,0 +1,117 @@
+import { apiError, apiResult, authenticateApiRequest, readJsonBody } from '@/lib/api/auth'
+import {
+  getSpaceLink,
+  setSpaceLinkReadingState,
+  trashSpaceLink,
+  updateSpaceLink,
+} from '@/lib/links/manage'
+import { assignSpaceTags } from '@/lib/tags/manage'
+import { emitWebhookEvent } from '@/lib/webhooks'
+import type { ReadingState } from '@/types'
+
+export const dynamic = 'force-dynamic'
+
+type LinkRouteContext = {
+  params: Promise<{ id: string }>
+}
+
+// Fields of PATCH handled by updateSpaceLink
+const UPDATE_FIELDS = ['title', 'ai_description', 'rating', 'notes', 'remind_at'] as const
+
+/**
+ * Get a link with its tags
+ */
+export async function GET(request: Request, { params }: LinkRouteContext) {
+  const auth = await authenticateApiRequest(request, 'links:read')
+  if (auth.response) return auth.response
+  const { supabase, scope } = auth.context
+  const { id } = await params
+
+  return apiResult(await getSpaceLink(supabase, scope, id))
+}
+
+/**
+ * Change a link - body: { title?, ai_description?, rating?, notes?, remind_at?, reading_state?,
+ * tag_ids? } where tag_ids replaces all tags of the link. Returns the updated link.
+ */
+export async function PATCH(request: Request, { params }: LinkRouteContext) {
+  const auth = await authenticateApiRequest(request, 'links:write')
+  if (auth.response) return auth.response
+  const { supabase, scope } = auth.context
+  const { id } = await params
+
+  const body = await readJsonBody(request)
+  if (!body) {
+    return apiError('Request body must be a JSON object', 400)
+  }
+
+  const updates = Object.fromEntries(
+    UPDATE_FIELDS.filter((field) => field in body).map((field) => [field, body[field]])
+  )
+  if (Object.keys(updates).length === 0 && !('reading_state' in body) && !('tag_ids' in body)) {
+    return apiError('No fields to update', 400)
+  }
+
+  if ('tag_ids' in body && !Array.isArray(body.tag_ids)) {
+    return apiError('tag_ids must be an array', 400)
+  }
+
+  // Changes saved so far - a later step can fail after earlier ones were saved
+  const changedLink: Record<string, unknown> = { id, workspace_id: scope.workspaceId }
+  const changedFields: string[] = []
+  const emitUpdated = () => {
+    if (changedFields.length === 0) return
+    emitWebhookEvent(supabase, scope.userId, 'link.updated', {
+      link: changedLink,
+      fields: changedFields,
+    })
+  }
+
+  if (Object.keys(updates).length > 0) {
+    const result = await updateSpaceLink(supabase, scope, { id, ...updates })
+    if (!result.success) return apiResult(result)
+    changedFields.push(...Object.keys(updates))
+  }
+
+  if ('reading_state' in body) {
+    const state = body.reading_state as ReadingState
+    const result = await setSpaceLinkReadingState(supabase, scope, id, state)
+    if (!result.success) {
+      emitUpdated()
+      return apiResult(result)
+    }
+    changedLink.reading_state = state
+    changedFields.push('reading_state')
+  }
+
+  if ('tag_ids' in body) {
+    const result = await assignSpaceTags(supabase, scope, id, body.tag_ids as string[])
+    if (!result.success) {
+      emitUpdated()
+      return apiResult(result)
+    }
+    changedLink.tag_ids = body.tag_ids
+    changedFields.push('tags')
+  }
+
+  emitUpdated()
+  return apiResult(await getSpaceLink(supabase, scope, id))
+}
+
+/**
+ * Move a link to the trash (it can be restored in the dashboard)
+ */
+export async function DELETE(request: Request, { params }: LinkRouteContext) {
+  const auth = await authenticateApiRequest(request, 'links:write')
+  if (auth.response) return auth.response
+  const { supabase, scope } = auth.context
+  const { id } = await params
+
+  const result = await trashSpaceLink(supabase, scope, id)
+  if (result.success) {
+    emitWebhookEvent(supabase, scope.userId, 'link.deleted', {
+      link: { id, workspace_id: scope.workspaceId },
+    })
+  }
+  return apiResult(result)
+}
@@ -0,0 +1,83 @@
+import { after, NextResponse } from 'next/server'
+import { apiError, apiResult, authenticateApiRequest, readJsonBody } from '@/lib/api/auth'
+import { parseLinkSearchParams } from '@/lib/api/params'
+import { createLinkForUser, type CreateLinkStatus } from '@/lib/links/create'
+import { searchSpaceLinks } from '@/lib/links/search'
+import { processLinkQueue } from '@/lib/queue'
+import { emitWebhookEvent } from '@/lib/webhooks'
+import { getLinkEventData } from '@/lib/webhooks/events'
+
+export const dynamic = 'force-dynamic'
+
+// HTTP status of a failed link creation
+const CREATE_ERROR_STATUS: Record<Exclude<CreateLinkStatus, 'created'>, number> = {
+  invalid: 400,
+  duplicate: 409,
+  rate_limited: 429,
+  error: 500,
+}
+
+/**
+ * List the links of the token's space
+ * Same filters as the dashboard: ?q=&tags=&state=&sort=&page=&per_page=
+ */
+export async function GET(request: Request) {
+  const auth = await authenticateApiRequest(request, 'links:read')
+  if (auth.response) return auth.response
+  const { supabase, scope } = auth.context
+
+  const params = parseLinkSearchParams(new URL(request.url).searchParams)
+  if (!params.success) {
+    return apiError(params.error, 400)
+  }
+
+  return apiResult(await searchSpaceLinks(supabase, scope, params.data))
+}
+
+/**
+ * Save a new link - body: { url, title?, rating? }
+ * Scraping and AI enrichment run after the response, like links added in the dashboard.
+ */
+export async function POST(request: Request) {
+  const auth = await authenticateApiRequest(request, 'links:write')
+  if (auth.response) return auth.response
+  const { supabase, scope } = auth.context
+
+  const body = await readJsonBody(request)
+  if (!body) {
+    return apiError('Request body must be a JSON object', 400)
+  }
+
+  const outcome = await createLinkForUser(
+    supabase,
+    scope,
+    {
+      url: body.url as string,
+      title: typeof body.title === 'string' && body.title.trim() ? body.title.trim() : undefined,
+      rating: body.rating as number | undefined,
+    },
+    { logRateLimitViolation: true }
+  )
+
+  if (outcome.status !== 'created') {
+    return apiError(outcome.error || 'Failed to create link', CREATE_ERROR_STATUS[outcome.status])
+  }
+
+  after(async () => {
+    try {
+      const summary = await processLinkQueue(supabase, { userId: scope.userId, maxLinks: 5 })
+      console.log(`[Queue] API run finished: ${JSON.stringify(summary)}`)
+    } catch (error) {
+      // Link stays pending and is picked up by the cron worker
+      console.error('[Queue] API run failed:', error)
+    }
+  })
+
+  if (outcome.link) {
+    emitWebhookEvent(supabase, scope.userId, 'link.created', {
+      link: getLinkEventData(outcome.link),
+    })
+  }
+
+  return NextResponse.json({ data: outcome.link }, { status: 201 })
+}
@@ -0,0 +1,28 @@
+import { apiError, apiResult, authenticateApiRequest } from '@/lib/api/auth'
+import { parseLinkSearchParams } from '@/lib/api/params'
+import { searchSpaceLinks } from '@/lib/links/search'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Full-text search over titles, descriptions, notes and highlights of the token's space
+ * ?q= is required; the other filters match /api/v1/links.
+ */
+export async function GET(request: Request) {
+  const auth = await authenticateApiRequest(request, 'links:read')
+  if (auth.response) return auth.response
+  const { supabase, scope } = auth.context
+
+  const params = parseLinkSearchParams(new URL(request.url).searchParams)
+  if (!params.success) {
+    return apiError(params.error, 400)
+  }
+
+  if (!params.data.query) {
+    return apiError('Search query (q) is required', 400)
+  }
+
+  return apiResult(
+    await searchSpaceLinks(supabase, scope, { sortBy: 'relevance', ...params.data })
+  )
+}
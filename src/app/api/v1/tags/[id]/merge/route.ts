@@ -0,0 +1,44 @@
+import { apiError, apiResult, authenticateApiRequest, readJsonBody } from '@/lib/api/auth'
+import { mergeSpaceTags } from '@/lib/tags/manage'
+import { tagIdSchema } from '@/lib/validations/tags'
+import { emitWebhookEvent } from '@/lib/webhooks'
+
+export const dynamic = 'force-dynamic'
+
+type MergeRouteContext = {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * Merge the tag into another one - body: { target_id }
+ * Links of the tag get the target tag and the tag is deleted.
+ */
+export async function POST(request: Request, { params }: MergeRouteContext) {
+  const auth = await authenticateApiRequest(request, 'tags:write')
+  if (auth.response) return auth.response
+  const { supabase, scope } = auth.context
+  const { id } = await params
+
+  const body = await readJsonBody(request)
+  if (!body || typeof body.target_id !== 'string') {
+    return apiError('target_id is required', 400)
+  }
+
+  const tagIds = [id, body.target_id]
+  if (!tagIds.every((tagId) => tagIdSchema.safeParse({ id: tagId }).success)) {
+    return apiError('Tags not found', 404)
+  }
+
+  if (body.target_id === id) {
+    return apiError('Cannot merge a tag into itself', 400)
+  }
+
+  const result = await mergeSpaceTags(supabase, scope, id, body.target_id)
+  if (result.success) {
+    emitWebhookEvent(supabase, scope.userId, 'tag.merged', {
+      source_tag_id: id,
+      target_tag_id: body.target_id,
+    })
+  }
+  return apiResult(result)
+}
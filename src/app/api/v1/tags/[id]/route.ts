@@ -0,0 +1,49 @@
+import { apiError, apiResult, authenticateApiRequest, readJsonBody } from '@/lib/api/auth'
+import { deleteSpaceTag, renameSpaceTag } from '@/lib/tags/manage'
+import { tagIdSchema } from '@/lib/validations/tags'
+import { emitWebhookEvent } from '@/lib/webhooks'
+
+export const dynamic = 'force-dynamic'
+
+type TagRouteContext = {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * Rename a tag - body: { name }
+ */
+export async function PATCH(request: Request, { params }: TagRouteContext) {
+  const auth = await authenticateApiRequest(request, 'tags:write')
+  if (auth.response) return auth.response
+  const { supabase, scope } = auth.context
+  const { id } = await params
+  if (!tagIdSchema.safeParse({ id }).success) {
+    return apiError('Tag not found', 404)
+  }
+
+  const body = await readJsonBody(request)
+  if (!body || typeof body.name !== 'string') {
+    return apiError('Tag name is required', 400)
+  }
+
+  return apiResult(await renameSpaceTag(supabase, scope, id, body.name))
+}
+
+/**
+ * Delete a tag (its links are kept)
+ */
+export async function DELETE(request: Request, { params }: TagRouteContext) {
+  const auth = await authenticateApiRequest(request, 'tags:write')
+  if (auth.response) return auth.response
+  const { supabase, scope } = auth.context
+  const { id } = await params
+  if (!tagIdSchema.safeParse({ id }).success) {
+    return apiError('Tag not found', 404)
+  }
+
+  const result = await deleteSpaceTag(supabase, scope, id)
+  if (result.success) {
+    emitWebhookEvent(supabase, scope.userId, 'tag.deleted', { tag: { id } })
+  }
+  return apiResult(result)
+}
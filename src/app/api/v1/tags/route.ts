@@ -0,0 +1,36 @@
+import { apiError, apiResult, authenticateApiRequest, readJsonBody } from '@/lib/api/auth'
+import { createSpaceTag, listSpaceTags } from '@/lib/tags/manage'
+import { emitWebhookEvent } from '@/lib/webhooks'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * List the tags of the token's space with their usage count
+ */
+export async function GET(request: Request) {
+  const auth = await authenticateApiRequest(request, 'tags:read')
+  if (auth.response) return auth.response
+  const { supabase, scope } = auth.context
+
+  return apiResult(await listSpaceTags(supabase, scope))
+}
+
+/**
+ * Create a tag - body: { name }
+ */
+export async function POST(request: Request) {
+  const auth = await authenticateApiRequest(request, 'tags:write')
+  if (auth.response) return auth.response
+  const { supabase, scope } = auth.context
+
+  const body = await readJsonBody(request)
+  if (!body || typeof body.name !== 'string') {
+    return apiError('Tag name is required', 400)
+  }
+
+  const result = await createSpaceTag(supabase, scope, body.name)
+  if (result.success) {
+    emitWebhookEvent(supabase, scope.userId, 'tag.created', { tag: result.data })
+  }
+  return apiResult(result, 201)
+}
@@ -0,0 +1,217 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { useParams, useRouter } from 'next/navigation'
+import {
+  ArrowDown,
+  ArrowLeft,
+  ArrowUp,
+  ExternalLink,
+  FolderOpen,
+  Loader2,
+  Pencil,
+  Share2,
+  Trash2,
+  X,
+} from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { CollectionFormDialog } from '@/components/collections/collection-form-dialog'
+import { DeleteCollectionDialog } from '@/components/collections/delete-collection-dialog'
+import { ShareDialog } from '@/components/shares/share-dialog'
+import {
+  useCollection,
+  useRemoveLinkFromCollection,
+  useReorderCollectionLinks,
+} from '@/hooks/queries/use-collections'
+import type { LinkWithTags } from '@/types'
+
+export default function CollectionPage() {
+  const { id } = useParams<{ id: string }>()
+  const router = useRouter()
+  const { data: collection, isLoading, error } = useCollection(id)
+  const reorderMutation = useReorderCollectionLinks()
+  const removeMutation = useRemoveLinkFromCollection()
+
+  const [isEditOpen, setIsEditOpen] = useState(false)
+  const [isDeleteOpen, setIsDeleteOpen] = useState(false)
+  // Shown right away while the new order is being saved
+  const [links, setLinks] = useState<LinkWithTags[]>([])
+
+  useEffect(() => {
+    setLinks(collection?.links || [])
+  }, [collection])
+
+  const moveLink = (index: number, direction: -1 | 1) => {
+    const target = index + direction
+    if (target < 0 || target >= links.length) return
+
+    const reordered = [...links]
+    ;[reordered[index], reordered[target]] = [reordered[target], reordered[index]]
+    setLinks(reordered)
+    reorderMutation.mutate({ collectionId: id, linkIds: reordered.map((link) => link.id) })
+  }
+
+  if (isLoading) {
+    return (
+      <div className="container mx-auto px-4 py-12 flex justify-center">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  if (error || !collection) {
+    return (
+      <div className="container mx-auto px-4 py-12 text-center">
+        <h3 className="text-lg font-semibold mb-2">Collection not found</h3>
+        <Button variant="outline" asChild>
+          <Link href="/collections">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Collections
+          </Link>
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <>
+      {/* Header */}
+      <div className="bg-gradient-main text-white">
+        <div className="container mx-auto px-4 py-8">
+          <Link
+            href="/collections"
+            className="inline-flex items-center gap-1 text-sm text-white/80 hover:text-white mb-3"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            Collections
+          </Link>
+          <div className="flex items-start justify-between gap-4">
+            <div className="min-w-0">
+              <h1 className="text-3xl font-bold break-words flex items-center gap-3">
+                <FolderOpen className="h-8 w-8 flex-shrink-0" />
+                {collection.name}
+              </h1>
+              {collection.description && (
+                <p className="mt-2 text-white/90 whitespace-pre-wrap">{collection.description}</p>
+              )}
+            </div>
+            <div className="flex gap-2 flex-shrink-0">
+              <ShareDialog
+                target={{ kind: 'collection', collectionId: collection.id }}
+                defaultTitle={collection.name}
+                trigger={
+                  <Button variant="secondary" size="sm">
+                    <Share2 className="h-4 w-4 mr-2" />
+                    Share
+                  </Button>
+                }
+              />
+              <Button variant="secondary" size="sm" onClick={() => setIsEditOpen(true)}>
+                <Pencil className="h-4 w-4 mr-2" />
+                Edit
+              </Button>
+              <Button variant="secondary" size="sm" onClick={() => setIsDeleteOpen(true)}>
+                <Trash2 className="h-4 w-4 mr-2" />
+                Delete
+              </Button>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="container mx-auto px-4 py-8">
+        {links.length === 0 ? (
+          <div className="bg-white rounded-lg border p-12 text-center">
+            <FolderOpen className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+            <h3 className="text-lg font-semibold mb-2">This collection is empty</h3>
+            <p className="text-muted-foreground mb-4">
+              Select links on the dashboard and add them to the collection
+            </p>
+            <Button variant="outline" asChild>
+              <Link href="/dashboard">Go to Dashboard</Link>
+            </Button>
+          </div>
+        ) : (
+          <ol className="bg-white rounded-lg border divide-y">
+            {links.map((link, index) => {
+              const tags = link.link_tags?.map((linkTag) => linkTag.tag).filter(Boolean) ?? []
+
+              return (
+                <li key={link.id} className="flex items-center gap-3 p-4">
+                  <span className="w-6 text-sm text-muted-foreground text-right">{index + 1}.</span>
+                  <div className="flex-1 min-w-0">
+                    <Link
+                      href={`/links/${link.id}`}
+                      className="font-medium hover:text-primary line-clamp-1"
+                    >
+                      {link.title || link.domain}
+                    </Link>
+                    <a
+                      href={link.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="inline-flex items-center gap-1 text-xs text-muted-foreground hover:underline max-w-full"
+                    >
+                      <span className="truncate">{link.domain}</span>
+                      <ExternalLink className="h-3 w-3 flex-shrink-0" />
+                    </a>
+                    {tags.length > 0 && (
+                      <div className="mt-1 flex flex-wrap gap-1">
+                        {tags.map((tag) => (
+                          <Badge key={tag.id} variant="secondary" className="text-xs">
+                            {tag.name}
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => moveLink(index, -1)}
+                      disabled={index === 0 || reorderMutation.isPending}
+                      aria-label="Move up"
+                    >
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => moveLink(index, 1)}
+                      disabled={index === links.length - 1 || reorderMutation.isPending}
+                      aria-label="Move down"
+                    >
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-red-600 hover:text-red-700"
+                      onClick={() => removeMutation.mutate({ collectionId: id, linkId: link.id })}
+                      disabled={removeMutation.isPending}
+                      aria-label="Remove from collection"
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </li>
+              )
+            })}
+          </ol>
+        )}
+      </div>
+
+      <CollectionFormDialog collection={collection} open={isEditOpen} onOpenChange={setIsEditOpen} />
+      <DeleteCollectionDialog
+        collection={collection}
+        open={isDeleteOpen}
+        onOpenChange={setIsDeleteOpen}
+        onSuccess={() => router.push('/collections')}
+      />
+    </>
+  )
+}
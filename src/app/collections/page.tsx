@@ -0,0 +1,127 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { FolderOpen, Plus, Pencil, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { TagCardSkeletonGrid } from '@/components/skeletons/tag-card-skeleton'
+import { CollectionFormDialog } from '@/components/collections/collection-form-dialog'
+import { DeleteCollectionDialog } from '@/components/collections/delete-collection-dialog'
+import { useCollections } from '@/hooks/queries/use-collections'
+import type { CollectionWithCount } from '@/types'
+
+export default function CollectionsPage() {
+  const { data: collections = [], isLoading } = useCollections()
+  const [isFormOpen, setIsFormOpen] = useState(false)
+  const [editing, setEditing] = useState<CollectionWithCount | undefined>()
+  const [deleting, setDeleting] = useState<CollectionWithCount | null>(null)
+
+  const openCreate = () => {
+    setEditing(undefined)
+    setIsFormOpen(true)
+  }
+
+  const openEdit = (collection: CollectionWithCount) => {
+    setEditing(collection)
+    setIsFormOpen(true)
+  }
+
+  return (
+    <>
+      {/* Header */}
+      <div className="bg-gradient-main text-white">
+        <div className="container mx-auto px-4 py-8">
+          <div className="flex items-center gap-3 mb-2">
+            <FolderOpen className="h-8 w-8" />
+            <h1 className="text-3xl font-bold">Collections</h1>
+          </div>
+          <div className="min-h-[1.5rem]">
+            <p className="text-white/90">
+              Group links into folders and put them in the order you want to read them
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="container mx-auto px-4 py-8">
+        <div className="mb-6 flex justify-end">
+          <Button onClick={openCreate} className="bg-gradient-main hover:opacity-90">
+            <Plus className="h-4 w-4 mr-2" />
+            Create Collection
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <TagCardSkeletonGrid count={6} />
+        ) : collections.length === 0 ? (
+          <div className="bg-white rounded-lg border p-12 text-center">
+            <FolderOpen className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+            <h3 className="text-lg font-semibold mb-2">No collections yet</h3>
+            <p className="text-muted-foreground mb-4">
+              Create a collection, then add links to it from the dashboard or a link&apos;s page
+            </p>
+            <Button onClick={openCreate} className="bg-gradient-main hover:opacity-90">
+              <Plus className="h-4 w-4 mr-2" />
+              Create Your First Collection
+            </Button>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {collections.map((collection) => (
+              <div
+                key={collection.id}
+                className="bg-white rounded-lg border p-4 flex flex-col hover:shadow-sm transition-shadow"
+              >
+                <Link href={`/collections/${collection.id}`} className="flex-1 group">
+                  <h3 className="font-semibold flex items-center gap-2 group-hover:text-primary">
+                    <FolderOpen className="h-4 w-4 text-muted-foreground" />
+                    <span className="truncate">{collection.name}</span>
+                  </h3>
+                  {collection.description && (
+                    <p className="mt-1 text-sm text-muted-foreground line-clamp-2">
+                      {collection.description}
+                    </p>
+                  )}
+                </Link>
+                <div className="mt-4 flex items-center justify-between">
+                  <span className="text-sm text-muted-foreground">
+                    {collection.link_count} link{collection.link_count !== 1 ? 's' : ''}
+                  </span>
+                  <div className="flex gap-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => openEdit(collection)}
+                      aria-label={`Edit ${collection.name}`}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-red-600 hover:text-red-700"
+                      onClick={() => setDeleting(collection)}
+                      aria-label={`Delete ${collection.name}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <CollectionFormDialog collection={editing} open={isFormOpen} onOpenChange={setIsFormOpen} />
+      {deleting && (
+        <DeleteCollectionDialog
+          collection={deleting}
+          open={!!deleting}
+          onOpenChange={(open) => !open && setDeleting(null)}
+        />
+      )}
+    </>
+  )
+}
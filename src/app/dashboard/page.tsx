@@ -2,25 +2,47 @@
 
 import { useState, useCallback, useTransition, useMemo, useEffect } from 'react'
 import { useRouter, useSearchParams } from 'next/navigation'
+import Link from 'next/link'
 import { Card, CardContent } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Input } from '@/components/ui/input'
-import { ExternalLink, Search } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  ExternalLink,
+  Search,
+  RotateCw,
+  CheckSquare,
+  Copy,
+  FileText,
+  StickyNote,
+  Share2,
+} from 'lucide-react'
 import { EditLinkDialog } from '@/components/links/edit-link-dialog'
 import { DeleteLinkButton } from '@/components/links/delete-link-button'
+import { LinkProcessingStatus } from '@/components/links/link-processing-status'
+import { LinkHealthBadge } from '@/components/links/link-health-badge'
+import { ReprocessLinksDialog } from '@/components/links/reprocess-links-dialog'
+import { ReadingStateToggle, READING_STATE_OPTIONS } from '@/components/links/reading-state-toggle'
 import { SearchFilters } from '@/components/search/search-filters'
 import { SortSelector } from '@/components/search/sort-selector'
 import { Pagination } from '@/components/search/pagination'
 import { LinkStatisticsPanel } from '@/components/statistics/link-statistics'
 import { type SortOption } from '@/app/actions/search'
 import { Skeleton } from '@/components/ui/skeleton'
+import { getNotesExcerpt } from '@/lib/links/markdown'
 import { StarRating } from '@/components/ui/star-rating'
 import { useToast } from '@/hooks/use-toast'
 import { LinkCardSkeletonGrid } from '@/components/skeletons/link-card-skeleton'
-import type { DefaultView } from '@/types'
+import type { DefaultView, ReadingState } from '@/types'
 import { useLinks, useUpdateLink } from '@/hooks/queries/use-links'
 import { useUserPreferences } from '@/hooks/queries/use-user'
 import { EmptyState } from '@/components/dashboard/empty-state'
+import { TodaySection } from '@/components/dashboard/today-section'
+import { CollectionsSidebar } from '@/components/collections/collections-sidebar'
+import { BulkActionBar } from '@/components/links/bulk-action-bar'
+import { ShareDialog, type ShareTarget } from '@/components/shares/share-dialog'
+import { applySelectionRange, getSelectionRange } from '@/lib/links/bulk'
 
 export default function DashboardPage() {
   const router = useRouter()
@@ -32,12 +54,26 @@ export default function DashboardPage() {
     () => searchParams.get('tags')?.split(',').filter(Boolean) || [],
     [searchParams]
   )
+  const selectedReadingStates = useMemo(
+    () =>
+      (searchParams.get('state')?.split(',') || []).filter((state): state is ReadingState =>
+        READING_STATE_OPTIONS.some((option) => option.value === state)
+      ),
+    [searchParams]
+  )
+  const brokenOnly = searchParams.get('broken') === '1'
+  const collectionId = searchParams.get('collection')
   const sortBy = (searchParams.get('sort') || 'rating') as SortOption
   const page = parseInt(searchParams.get('page') || '1', 10)
 
   // Local search state for input (debounced)
   const [searchInput, setSearchInput] = useState(query)
 
+  // Link selection for actions on many links at once
+  const [selectionMode, setSelectionMode] = useState(false)
+  const [selectedLinkIds, setSelectedLinkIds] = useState<string[]>([])
+  const [selectionAnchorId, setSelectionAnchorId] = useState<string | null>(null) // Last clicked link, start of shift-click ranges
+
   // Fetch user preferences with React Query
   const { data: preferences } = useUserPreferences()
   const viewMode = preferences?.default_view || 'grid'
@@ -47,6 +83,9 @@ export default function DashboardPage() {
   const { data: searchResult, isLoading, refetch } = useLinks({
     query,
     tagIds: selectedTagIds,
+    readingStates: selectedReadingStates,
+    brokenOnly,
+    collectionId: collectionId || undefined,
     sortBy,
     page,
     pageSize,
@@ -57,6 +96,9 @@ export default function DashboardPage() {
     (updates: {
       q?: string
       tags?: string[]
+      state?: ReadingState[]
+      broken?: boolean
+      collection?: string | null
       sort?: SortOption
       page?: number
     }) => {
@@ -78,6 +120,30 @@ export default function DashboardPage() {
         }
       }
 
+      if (updates.state !== undefined) {
+        if (updates.state.length > 0) {
+          params.set('state', updates.state.join(','))
+        } else {
+          params.delete('state')
+        }
+      }
+
+      if (updates.broken !== undefined) {
+        if (updates.broken) {
+          params.set('broken', '1')
+        } else {
+          params.delete('broken')
+        }
+      }
+
+      if (updates.collection !== undefined) {
+        if (updates.collection) {
+          params.set('collection', updates.collection)
+        } else {
+          params.delete('collection')
+        }
+      }
+
       if (updates.sort !== undefined) {
         params.set('sort', updates.sort)
       }
@@ -112,6 +178,18 @@ export default function DashboardPage() {
     updateUrlParams({ tags: tagIds, page: 1 })
   }
 
+  const handleReadingStatesChange = (states: ReadingState[]) => {
+    updateUrlParams({ state: states, page: 1 })
+  }
+
+  const handleBrokenOnlyChange = (broken: boolean) => {
+    updateUrlParams({ broken, page: 1 })
+  }
+
+  const handleCollectionChange = (collection: string | null) => {
+    updateUrlParams({ collection, page: 1 })
+  }
+
   const handleSortChange = (newSort: SortOption) => {
     updateUrlParams({ sort: newSort, page: 1 })
   }
@@ -122,11 +200,45 @@ export default function DashboardPage() {
 
   const handleClearFilters = () => {
     setSearchInput('')
-    updateUrlParams({ q: '', tags: [], page: 1 })
+    updateUrlParams({ q: '', tags: [], state: [], broken: false, collection: null, page: 1 })
+  }
+
+  const pageLinkIds = useMemo(
+    () => (searchResult?.links || []).map((link: { id: string }) => link.id),
+    [searchResult]
+  )
+
+  const handleSelectedChange = (linkId: string, selected: boolean, shiftKey: boolean) => {
+    const rangeIds = shiftKey ? getSelectionRange(pageLinkIds, selectionAnchorId, linkId) : [linkId]
+    setSelectedLinkIds((prev) => applySelectionRange(prev, rangeIds, selected))
+    setSelectionAnchorId(linkId)
+  }
+
+  const handleExitSelection = () => {
+    setSelectionMode(false)
+    setSelectedLinkIds([])
+    setSelectionAnchorId(null)
   }
 
   const hasLinks = searchResult && searchResult.links.length > 0
-  const hasActiveFilters = selectedTagIds.length > 0
+  const hasActiveFilters =
+    selectedTagIds.length > 0 ||
+    selectedReadingStates.length > 0 ||
+    brokenOnly ||
+    !!collectionId
+
+  // Share the selected collection, or the current search and filters
+  const shareTarget: ShareTarget = collectionId
+    ? { kind: 'collection', collectionId }
+    : {
+        kind: 'search',
+        filters: {
+          query: query || undefined,
+          tagIds: selectedTagIds,
+          readingStates: selectedReadingStates,
+          sortBy: sortBy === 'relevance' ? undefined : sortBy,
+        },
+      }
 
   // Handler to trigger Add Link dialog from empty state
   const handleOpenAddLinkDialog = () => {
@@ -182,6 +294,19 @@ export default function DashboardPage() {
       {/* Statistics Panel - always visible */}
       <LinkStatisticsPanel />
 
+      {/* Reminders and resurfaced links */}
+      <TodaySection />
+
+      <div className="grid gap-6 lg:grid-cols-[220px_minmax(0,1fr)]">
+      {/* Collections */}
+      <aside className="lg:sticky lg:top-4 h-fit">
+        <CollectionsSidebar
+          selectedCollectionId={collectionId}
+          onSelect={handleCollectionChange}
+        />
+      </aside>
+
+      <div>
       {/* Search and Filters */}
       <div className="flex flex-col gap-4 mb-6">
         {/* Search Input */}
@@ -202,6 +327,10 @@ export default function DashboardPage() {
           <SearchFilters
             selectedTagIds={selectedTagIds}
             onTagsChange={handleTagsChange}
+            selectedReadingStates={selectedReadingStates}
+            onReadingStatesChange={handleReadingStatesChange}
+            brokenOnly={brokenOnly}
+            onBrokenOnlyChange={handleBrokenOnlyChange}
             onClearFilters={handleClearFilters}
           />
           <SortSelector value={sortBy} onChange={handleSortChange} />
@@ -214,10 +343,45 @@ export default function DashboardPage() {
       {/* Links Grid or List */}
       {!isLoading && hasLinks && (
         <>
+          {/* Selection Toolbar */}
+          <div className="flex flex-wrap items-center justify-end gap-2 mb-4 min-h-[36px]">
+            {selectionMode ? (
+              <BulkActionBar
+                selectedLinkIds={selectedLinkIds}
+                pageLinkIds={pageLinkIds}
+                onSelectionChange={setSelectedLinkIds}
+                onExit={handleExitSelection}
+              />
+            ) : (
+              <>
+                <Button variant="ghost" size="sm" asChild>
+                  <Link href="/links/duplicates">
+                    <Copy className="h-4 w-4 mr-2" />
+                    Duplikaty
+                  </Link>
+                </Button>
+                <ShareDialog
+                  target={shareTarget}
+                  defaultTitle={query}
+                  trigger={
+                    <Button variant="ghost" size="sm">
+                      <Share2 className="h-4 w-4 mr-2" />
+                      Udostępnij
+                    </Button>
+                  }
+                />
+                <Button variant="ghost" size="sm" onClick={() => setSelectionMode(true)}>
+                  <CheckSquare className="h-4 w-4 mr-2" />
+                  Zaznacz
+                </Button>
+              </>
+            )}
+          </div>
+
           <div
             className={
               viewMode === 'grid'
-                ? 'grid gap-4 grid-cols-1 md:grid-cols-2 lg:grid-cols-3'
+                ? 'grid gap-4 grid-cols-1 md:grid-cols-2 xl:grid-cols-3'
                 : 'flex flex-col gap-3'
             }
           >
@@ -231,6 +395,11 @@ export default function DashboardPage() {
                   link={link}
                   onRefetch={refetch}
                   viewMode={viewMode}
+                  selectable={selectionMode}
+                  selected={selectedLinkIds.includes(link.id)}
+                  onSelectedChange={(selected, shiftKey) =>
+                    handleSelectedChange(link.id, selected, shiftKey)
+                  }
                 />
               </div>
             ))}
@@ -256,6 +425,8 @@ export default function DashboardPage() {
         </>
       )}
       </div>
+      </div>
+      </div>
     </>
   )
 }
@@ -264,10 +435,16 @@ function LinkCard({
   link,
   onRefetch,
   viewMode = 'grid',
+  selectable = false,
+  selected = false,
+  onSelectedChange,
 }: {
   link: any
   onRefetch: () => void
   viewMode?: DefaultView
+  selectable?: boolean
+  selected?: boolean
+  onSelectedChange?: (selected: boolean, shiftKey: boolean) => void
 }) {
   const [localRating, setLocalRating] = useState(link.rating || null)
   const updateLinkMutation = useUpdateLink()
@@ -298,12 +475,52 @@ function LinkCard({
     )
   }
 
+  const selectCheckbox = selectable && (
+    <Checkbox
+      checked={selected}
+      onClick={(e) => onSelectedChange?.(!selected, e.shiftKey)}
+      aria-label="Zaznacz link"
+      className="flex-shrink-0 mt-1"
+    />
+  )
+
+  const reprocessButton = (
+    <ReprocessLinksDialog
+      linkIds={[link.id]}
+      trigger={
+        <Button variant="ghost" size="sm" aria-label="Re-process link">
+          <RotateCw className="h-4 w-4" />
+        </Button>
+      }
+    />
+  )
+
+  const detailsButton = (
+    <Button variant="ghost" size="sm" aria-label="Link details" asChild>
+      <Link href={`/links/${link.id}`}>
+        <FileText className="h-4 w-4" />
+      </Link>
+    </Button>
+  )
+
+  const notesExcerpt = getNotesExcerpt(link.notes)
+
+  const healthBadgeProps = {
+    status: link.health_status,
+    statusCode: link.health_status_code,
+    error: link.health_error,
+    finalUrl: link.health_final_url,
+    checkedAt: link.health_checked_at,
+  }
+
   // List view - compact horizontal layout
   if (viewMode === 'list') {
     return (
       <Card data-testid="link-card" className="w-full group hover:shadow-md transition-all duration-200 border hover:border-primary/30">
         <CardContent className="p-4">
           <div className="flex items-center gap-4 overflow-hidden">
+            {selectCheckbox}
+
             {/* Title and Link */}
             <div className="flex-1 min-w-0">
               <a
@@ -315,7 +532,21 @@ function LinkCard({
                 <span className="truncate flex-1">{link.title || link.domain}</span>
                 <ExternalLink className="h-3.5 w-3.5 flex-shrink-0" />
               </a>
-              <p className="text-xs text-gray-500 truncate mt-0.5">{link.domain}</p>
+              <p className="text-xs text-gray-500 truncate mt-0.5 flex items-center gap-1.5">
+                <span className="truncate">{link.domain}</span>
+                <LinkHealthBadge {...healthBadgeProps} compact />
+                <LinkProcessingStatus
+                  status={link.ai_processing_status}
+                  attempts={link.ai_processing_attempts}
+                  compact
+                />
+              </p>
+              {notesExcerpt && (
+                <p className="text-xs text-gray-600 truncate mt-0.5 flex items-center gap-1">
+                  <StickyNote className="h-3 w-3 flex-shrink-0" />
+                  <span className="truncate">{notesExcerpt}</span>
+                </p>
+              )}
             </div>
 
             {/* Tags - compact */}
@@ -353,6 +584,9 @@ function LinkCard({
 
             {/* Actions */}
             <div className="flex items-center gap-1 flex-shrink-0">
+              <ReadingStateToggle linkId={link.id} state={link.reading_state} />
+              {detailsButton}
+              {reprocessButton}
               <EditLinkDialog link={link} onSuccess={onRefetch} />
               <DeleteLinkButton
                 linkId={link.id}
@@ -373,6 +607,7 @@ function LinkCard({
           <div className="space-y-3">
             {/* Title and Link with Actions */}
             <div className="flex justify-between items-start gap-2">
+              {selectCheckbox}
               <div className="flex-1 min-w-0">
                 <a
                   href={link.url}
@@ -383,9 +618,15 @@ function LinkCard({
                   <span className="truncate">{link.title || link.domain}</span>
                   <ExternalLink className="h-4 w-4 flex-shrink-0 group-hover:translate-x-0.5 group-hover:-translate-y-0.5 transition-transform" />
                 </a>
-                <p className="text-sm text-gray-500 truncate">{link.domain}</p>
+                <div className="flex items-center gap-2 min-w-0">
+                  <p className="text-sm text-gray-500 truncate">{link.domain}</p>
+                  <LinkHealthBadge {...healthBadgeProps} />
+                </div>
               </div>
               <div className="flex items-center gap-1 flex-shrink-0">
+                <ReadingStateToggle linkId={link.id} state={link.reading_state} />
+                {detailsButton}
+                {reprocessButton}
                 <EditLinkDialog link={link} onSuccess={onRefetch} />
                 <DeleteLinkButton
                   linkId={link.id}
@@ -400,6 +641,13 @@ function LinkCard({
             <p className="text-gray-700 text-sm line-clamp-2">{link.ai_description}</p>
           )}
 
+          {/* Notes */}
+          {notesExcerpt && (
+            <p className="text-gray-600 text-sm line-clamp-2 border-l-2 border-amber-300 pl-2">
+              {notesExcerpt}
+            </p>
+          )}
+
           {/* Tags - max 2 rows */}
           <div className="min-h-[56px] flex items-center">
             {link.link_tags && link.link_tags.length > 0 ? (
@@ -430,20 +678,11 @@ function LinkCard({
             />
 
             {/* Status */}
-            <span className="text-xs text-gray-500">
-              {link.ai_processing_status === 'completed' ? (
-                'Przetworzono'
-              ) : link.ai_processing_status === 'failed' ? (
-                <span
-                  className="text-red-600"
-                  title={link.ai_processing_error || 'Scraping failed'}
-                >
-                  Błąd scrapingu
-                </span>
-              ) : (
-                ''
-              )}
-            </span>
+            <LinkProcessingStatus
+              status={link.ai_processing_status}
+              attempts={link.ai_processing_attempts}
+              error={link.ai_processing_error}
+            />
           </div>
       </CardContent>
     </Card>
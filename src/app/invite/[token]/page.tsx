@@ -0,0 +1,57 @@
+import type { Metadata } from 'next'
+import Link from 'next/link'
+import { Users } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { createServerComponentClient } from '@/lib/supabase/server'
+import { AcceptInvitation } from '@/components/workspaces/accept-invitation'
+
+type InvitePageProps = {
+  params: Promise<{ token: string }>
+}
+
+export const metadata: Metadata = {
+  title: 'Workspace invitation - TagLink',
+  robots: { index: false, follow: false },
+  referrer: 'no-referrer',
+}
+
+/**
+ * Landing page of a workspace invitation link
+ * Open to visitors without a session so they learn which account to log in with.
+ */
+export default async function InvitePage({ params }: InvitePageProps) {
+  const { token } = await params
+  const supabase = await createServerComponentClient()
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+      <div className="bg-white rounded-lg border p-8 max-w-md w-full text-center">
+        <Users className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+        <h1 className="text-2xl font-bold mb-2">Join a workspace</h1>
+
+        {user ? (
+          <AcceptInvitation token={token} email={user.email || ''} />
+        ) : (
+          <>
+            <p className="text-muted-foreground mb-6">
+              Log in or create an account with the email address the invitation was sent to, then
+              open this link again.
+            </p>
+            <div className="flex justify-center gap-2">
+              <Button asChild>
+                <Link href="/login">Log In</Link>
+              </Button>
+              <Button asChild variant="outline">
+                <Link href="/register">Create Account</Link>
+              </Button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
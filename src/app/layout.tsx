@@ -2,6 +2,7 @@ import type { Metadata } from "next";
 import { Inter } from "next/font/google";
 import { Toaster } from "@/components/ui/toaster";
 import { QueryProvider } from "@/providers/query-provider";
+import { OfflineSupport } from "@/components/layout/offline-support";
 import "./globals.css";
 
 const inter = Inter({ subsets: ["latin"] });
@@ -23,6 +24,7 @@ export default function RootLayout({
         <QueryProvider>
           {children}
           <Toaster />
+          <OfflineSupport />
         </QueryProvider>
       </body>
     </html>
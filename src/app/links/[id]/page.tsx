@@ -0,0 +1,191 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { useParams } from 'next/navigation'
+import { ArrowLeft, BookOpen, ExternalLink, Loader2, Pencil, StickyNote } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Textarea } from '@/components/ui/textarea'
+import { StarRating } from '@/components/ui/star-rating'
+import { EditLinkDialog } from '@/components/links/edit-link-dialog'
+import { LinkNotes } from '@/components/links/link-notes'
+import { HighlightsPanel } from '@/components/links/highlights-panel'
+import { LinkCollections } from '@/components/collections/link-collections'
+import { LinkProcessingStatus } from '@/components/links/link-processing-status'
+import { useLink, useUpdateLink } from '@/hooks/queries/use-links'
+import { MAX_NOTES_LENGTH } from '@/lib/links/markdown'
+
+export default function LinkDetailPage() {
+  const { id } = useParams<{ id: string }>()
+  const { data: link, isLoading, error } = useLink(id)
+  const updateLinkMutation = useUpdateLink()
+
+  const [isEditingNotes, setIsEditingNotes] = useState(false)
+  const [notes, setNotes] = useState('')
+
+  const startEditingNotes = () => {
+    setNotes(link?.notes || '')
+    setIsEditingNotes(true)
+  }
+
+  const handleSaveNotes = () => {
+    updateLinkMutation.mutate(
+      { id, notes },
+      { onSuccess: () => setIsEditingNotes(false) }
+    )
+  }
+
+  if (isLoading) {
+    return (
+      <div className="container mx-auto px-4 py-12 flex justify-center">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  if (error || !link) {
+    return (
+      <div className="container mx-auto px-4 py-12 text-center">
+        <h3 className="text-lg font-semibold mb-2">Link not found</h3>
+        <p className="text-muted-foreground mb-4">It may have been moved to the trash.</p>
+        <Button variant="outline" asChild>
+          <Link href="/dashboard">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Dashboard
+          </Link>
+        </Button>
+      </div>
+    )
+  }
+
+  const tags = link.link_tags?.map((linkTag) => linkTag.tag).filter(Boolean) ?? link.tags ?? []
+
+  return (
+    <>
+      {/* Header */}
+      <div className="bg-gradient-main text-white">
+        <div className="container mx-auto px-4 py-8">
+          <Link
+            href="/dashboard"
+            className="inline-flex items-center gap-1 text-sm text-white/80 hover:text-white mb-3"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            Dashboard
+          </Link>
+          <h1 className="text-3xl font-bold break-words">{link.title || link.domain}</h1>
+          <a
+            href={link.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="mt-2 inline-flex items-center gap-1 text-white/90 hover:underline max-w-full"
+          >
+            <span className="truncate">{link.url}</span>
+            <ExternalLink className="h-4 w-4 flex-shrink-0" />
+          </a>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="container mx-auto px-4 py-8 grid gap-6 lg:grid-cols-3">
+        {/* Details */}
+        <div className="bg-white rounded-lg border p-6 space-y-4 lg:order-2 h-fit">
+          <div className="flex items-center justify-between gap-2">
+            <StarRating value={link.rating} size="md" readonly />
+            <EditLinkDialog link={link} />
+          </div>
+          {link.ai_description && <p className="text-sm text-gray-700">{link.ai_description}</p>}
+          <Button variant="outline" size="sm" className="w-full" asChild>
+            <Link href={`/links/${link.id}/read`}>
+              <BookOpen className="h-4 w-4 mr-2" />
+              Read archived copy
+            </Link>
+          </Button>
+          <div className="flex flex-wrap gap-2">
+            {tags.length > 0 ? (
+              tags.map((tag) => (
+                <Badge key={tag.id} variant="secondary">
+                  {tag.name}
+                </Badge>
+              ))
+            ) : (
+              <span className="text-sm text-gray-400 italic">No tags</span>
+            )}
+          </div>
+          <LinkCollections linkId={link.id} />
+          <div className="flex items-center justify-between text-xs text-muted-foreground pt-3 border-t">
+            <span>Saved {new Date(link.created_at).toLocaleDateString()}</span>
+            <LinkProcessingStatus
+              status={link.ai_processing_status}
+              attempts={link.ai_processing_attempts}
+              error={link.ai_processing_error}
+            />
+          </div>
+        </div>
+
+        {/* Notes */}
+        <div className="bg-white rounded-lg border p-6 lg:col-span-2 lg:order-1">
+          <div className="flex items-center justify-between gap-2 mb-4">
+            <h2 className="text-lg font-semibold flex items-center gap-2">
+              <StickyNote className="h-5 w-5" />
+              Notes
+            </h2>
+            {!isEditingNotes && (
+              <Button variant="outline" size="sm" onClick={startEditingNotes}>
+                <Pencil className="h-4 w-4 mr-2" />
+                {link.notes ? 'Edit Notes' : 'Add Notes'}
+              </Button>
+            )}
+          </div>
+
+          {isEditingNotes ? (
+            <div className="space-y-3">
+              <Textarea
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                rows={12}
+                maxLength={MAX_NOTES_LENGTH}
+                disabled={updateLinkMutation.isPending}
+                placeholder="Your own thoughts about this link. Markdown is supported."
+                aria-label="Notes"
+                autoFocus
+              />
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-sm text-muted-foreground">
+                  {notes.length}/{MAX_NOTES_LENGTH} characters · **bold**, *italic*, `code`,
+                  [links](https://…), lists and # headings
+                </p>
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setIsEditingNotes(false)}
+                    disabled={updateLinkMutation.isPending}
+                  >
+                    Cancel
+                  </Button>
+                  <Button size="sm" onClick={handleSaveNotes} disabled={updateLinkMutation.isPending}>
+                    {updateLinkMutation.isPending ? 'Saving...' : 'Save Notes'}
+                  </Button>
+                </div>
+              </div>
+            </div>
+          ) : link.notes ? (
+            <LinkNotes notes={link.notes} />
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              No notes yet. Write down why you saved this link or what you learned from it.
+            </p>
+          )}
+        </div>
+
+        {/* Highlights */}
+        <HighlightsPanel
+          linkId={link.id}
+          className="lg:col-span-2 lg:order-3"
+          emptyMessage="No highlights yet. Open the archived copy to highlight passages."
+        />
+      </div>
+    </>
+  )
+}
@@ -0,0 +1,184 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { useParams } from 'next/navigation'
+import { ArrowLeft, Archive, ExternalLink, Highlighter, Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { ArchiveContent } from '@/components/links/archive-content'
+import { HighlightsPanel } from '@/components/links/highlights-panel'
+import { LinkHealthBadge } from '@/components/links/link-health-badge'
+import { useLink } from '@/hooks/queries/use-links'
+import { useLinkArchive } from '@/hooks/queries/use-archives'
+import { useHighlights, useCreateHighlight } from '@/hooks/queries/use-highlights'
+import { MAX_HIGHLIGHT_COMMENT_LENGTH, type TextAnchor } from '@/lib/highlights/anchors'
+
+export default function LinkReaderPage() {
+  const { id } = useParams<{ id: string }>()
+  const { data: link, isLoading: isLoadingLink, error } = useLink(id)
+  const { data: archive, isLoading: isLoadingArchive } = useLinkArchive(id)
+  const { data: highlights } = useHighlights(id)
+  const createHighlightMutation = useCreateHighlight()
+
+  const [selection, setSelection] = useState<TextAnchor | null>(null)
+  const [comment, setComment] = useState('')
+  const [activeHighlightId, setActiveHighlightId] = useState<string | null>(null)
+
+  const handleSelectionChange = (anchor: TextAnchor | null) => {
+    setSelection(anchor)
+    if (!anchor) setComment('')
+  }
+
+  const handleHighlightClick = (highlightId: string) => {
+    setActiveHighlightId(highlightId)
+    document
+      .querySelector(`mark[data-highlight-id="${highlightId}"]`)
+      ?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+  }
+
+  const handleCreateHighlight = () => {
+    if (!selection) return
+
+    createHighlightMutation.mutate(
+      { linkId: id, ...selection, comment },
+      {
+        onSuccess: (highlight) => {
+          window.getSelection()?.removeAllRanges()
+          setSelection(null)
+          setComment('')
+          setActiveHighlightId(highlight.id)
+        },
+      }
+    )
+  }
+
+  if (isLoadingLink || isLoadingArchive) {
+    return (
+      <div className="container mx-auto px-4 py-12 flex justify-center">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  if (error || !link) {
+    return (
+      <div className="container mx-auto px-4 py-12 text-center">
+        <h3 className="text-lg font-semibold mb-2">Link not found</h3>
+        <p className="text-muted-foreground mb-4">It may have been moved to the trash.</p>
+        <Button variant="outline" asChild>
+          <Link href="/dashboard">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Dashboard
+          </Link>
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8 grid gap-8 lg:grid-cols-[minmax(0,48rem)_20rem] lg:justify-center">
+      <article className="min-w-0">
+        <Link
+          href={`/links/${id}`}
+          className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground mb-6"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          Link details
+        </Link>
+
+        <header className="mb-8 pb-6 border-b">
+          <h1 className="text-3xl font-bold leading-tight break-words">
+            {archive?.title || link.title || link.domain}
+          </h1>
+          <div className="mt-3 flex flex-wrap items-center gap-x-3 gap-y-1 text-sm text-muted-foreground">
+            {archive?.byline && <span>{archive.byline}</span>}
+            <a
+              href={link.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="inline-flex items-center gap-1 hover:underline"
+            >
+              {link.domain}
+              <ExternalLink className="h-3.5 w-3.5" />
+            </a>
+            <LinkHealthBadge
+              status={link.health_status}
+              statusCode={link.health_status_code}
+              error={link.health_error}
+              checkedAt={link.health_checked_at}
+            />
+            {archive && (
+              <>
+                <span className="inline-flex items-center gap-1">
+                  <Archive className="h-3.5 w-3.5" />
+                  Archived {new Date(archive.archived_at).toLocaleDateString()}
+                </span>
+                <span>{Math.max(1, Math.round(archive.word_count / 200))} min read</span>
+              </>
+            )}
+          </div>
+        </header>
+
+        {archive ? (
+          <ArchiveContent
+            html={archive.content_html}
+            highlights={highlights}
+            activeHighlightId={activeHighlightId}
+            onSelectionChange={handleSelectionChange}
+            onHighlightClick={handleHighlightClick}
+          />
+        ) : (
+          <div className="text-center py-12">
+            <Archive className="h-10 w-10 mx-auto text-gray-300 mb-3" />
+            <h3 className="text-lg font-semibold mb-1">No archived copy yet</h3>
+            <p className="text-muted-foreground">
+              {link.ai_processing_status === 'completed'
+                ? 'No readable article was found on this page.'
+                : 'The page is archived when the link is processed.'}
+            </p>
+          </div>
+        )}
+      </article>
+
+      {archive && (
+        <aside className="lg:sticky lg:top-8 h-fit">
+          <HighlightsPanel
+            linkId={id}
+            activeHighlightId={activeHighlightId}
+            onHighlightClick={handleHighlightClick}
+            emptyMessage="Select text in the article to highlight it."
+          />
+        </aside>
+      )}
+
+      {/* Highlight toolbar for the current selection */}
+      {selection && (
+        <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 w-[min(36rem,calc(100%-2rem))] rounded-lg border bg-white shadow-lg p-3 flex flex-col sm:flex-row gap-2">
+          <Input
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleCreateHighlight()}
+            maxLength={MAX_HIGHLIGHT_COMMENT_LENGTH}
+            placeholder="Add a comment (optional)"
+            aria-label="Highlight comment"
+            disabled={createHighlightMutation.isPending}
+          />
+          <div className="flex gap-2 flex-shrink-0">
+            <Button
+              variant="outline"
+              onClick={() => handleSelectionChange(null)}
+              disabled={createHighlightMutation.isPending}
+            >
+              Cancel
+            </Button>
+            <Button onClick={handleCreateHighlight} disabled={createHighlightMutation.isPending}>
+              <Highlighter className="h-4 w-4 mr-2" />
+              {createHighlightMutation.isPending ? 'Saving...' : 'Highlight'}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,142 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { Copy, ExternalLink, Loader2, Merge, ArrowLeft } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Label } from '@/components/ui/label'
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group'
+import { StarRating } from '@/components/ui/star-rating'
+import { useDuplicateGroups, useMergeDuplicates } from '@/hooks/queries/use-duplicates'
+import type { DuplicateLinkGroup, DuplicateReason } from '@/types'
+
+const REASON_LABELS: Record<DuplicateReason, string> = {
+  url: 'Same URL',
+  title: 'Same title',
+  content: 'Similar content',
+}
+
+export default function DuplicatesPage() {
+  const { data: groups = [], isLoading } = useDuplicateGroups()
+
+  return (
+    <>
+      {/* Header */}
+      <div className="bg-gradient-main text-white">
+        <div className="container mx-auto px-4 py-8">
+          <div className="flex items-center gap-3 mb-2">
+            <Copy className="h-8 w-8" />
+            <h1 className="text-3xl font-bold">Duplicates</h1>
+          </div>
+          <div className="min-h-[1.5rem]">
+            <p className="text-white/90">
+              Links that look like the same page. Merging keeps one link with the best rating and
+              all tags, the others go to the trash.
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="container mx-auto px-4 py-8">
+        <div className="mb-6 flex items-center justify-between gap-4">
+          <p className="text-sm text-muted-foreground">
+            {groups.length} {groups.length === 1 ? 'group' : 'groups'} found
+          </p>
+          <Button variant="outline" size="sm" asChild>
+            <Link href="/dashboard">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Dashboard
+            </Link>
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="bg-white rounded-lg border p-12 flex justify-center">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : groups.length === 0 ? (
+          <div className="bg-white rounded-lg border p-12 text-center">
+            <Copy className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+            <h3 className="text-lg font-semibold mb-2">No duplicates found</h3>
+            <p className="text-muted-foreground">Every saved link points to a different page</p>
+          </div>
+        ) : (
+          <div className="space-y-6" data-testid="duplicate-groups">
+            {groups.map((group) => (
+              <DuplicateGroupCard key={group.links[0].id} group={group} />
+            ))}
+          </div>
+        )}
+      </div>
+    </>
+  )
+}
+
+function DuplicateGroupCard({ group }: { group: DuplicateLinkGroup }) {
+  const mergeMutation = useMergeDuplicates()
+  // The oldest link is kept by default
+  const [keepId, setKeepId] = useState(group.links[0].id)
+
+  const handleMerge = () => {
+    mergeMutation.mutate({ linkIds: group.links.map((link) => link.id), keepId })
+  }
+
+  return (
+    <div className="bg-white rounded-lg border">
+      <div className="flex items-center justify-between gap-4 p-4 border-b">
+        <div className="flex flex-wrap items-center gap-2">
+          {group.reasons.map((reason) => (
+            <Badge key={reason} variant="outline">
+              {REASON_LABELS[reason]}
+            </Badge>
+          ))}
+          <span className="text-sm text-muted-foreground">{group.links.length} links</span>
+        </div>
+        <Button size="sm" onClick={handleMerge} disabled={mergeMutation.isPending}>
+          {mergeMutation.isPending ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <Merge className="h-4 w-4 mr-2" />
+          )}
+          Merge
+        </Button>
+      </div>
+
+      <RadioGroup value={keepId} onValueChange={setKeepId} className="divide-y gap-0">
+        {group.links.map((link) => (
+          <div key={link.id} className="flex items-start gap-3 p-4">
+            <RadioGroupItem value={link.id} id={`keep-${link.id}`} className="mt-1" />
+            <div className="min-w-0 flex-1">
+              <Label htmlFor={`keep-${link.id}`} className="font-medium cursor-pointer block truncate">
+                {link.title || link.url}
+              </Label>
+              <a
+                href={link.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-sm text-muted-foreground hover:underline inline-flex items-center gap-1 max-w-full"
+              >
+                <span className="truncate">{link.url}</span>
+                <ExternalLink className="h-3 w-3 flex-shrink-0" />
+              </a>
+              <div className="flex flex-wrap items-center gap-1 mt-2">
+                {link.tags?.map((tag) => (
+                  <Badge key={tag.id} variant="secondary" className="text-xs">
+                    {tag.name}
+                  </Badge>
+                ))}
+                <span className="text-xs text-muted-foreground">
+                  Saved {new Date(link.created_at).toLocaleDateString()}
+                  {link.id === keepId && ' · kept'}
+                </span>
+              </div>
+            </div>
+            <StarRating value={link.rating} size="sm" readonly className="flex-shrink-0" />
+          </div>
+        ))}
+      </RadioGroup>
+    </div>
+  )
+}
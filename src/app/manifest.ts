@@ -0,0 +1,24 @@
+import type { MetadataRoute } from 'next'
+import { QUICK_SAVE_PATH } from '@/lib/links/quick-save'
+
+/**
+ * Web app manifest - installing TagLink adds it to the share sheet of mobile browsers
+ */
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: 'TagLink - Smart Link Management',
+    short_name: 'TagLink',
+    description: 'Organize your links with AI-powered tagging and intelligent search',
+    start_url: '/dashboard',
+    display: 'standalone',
+    background_color: '#f9fafb',
+    theme_color: '#9333ea',
+    icons: [{ src: '/icon.svg', sizes: 'any', type: 'image/svg+xml', purpose: 'any' }],
+    // Shared pages open /save?url=&title=&text= (most apps send the URL in text)
+    share_target: {
+      action: QUICK_SAVE_PATH,
+      method: 'GET',
+      params: { url: 'url', title: 'title', text: 'text' },
+    },
+  }
+}
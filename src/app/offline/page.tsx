@@ -0,0 +1,30 @@
+import type { Metadata } from 'next'
+import Link from 'next/link'
+import { CloudOff } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+
+export const metadata: Metadata = {
+  title: 'Offline - TagLink',
+  robots: { index: false, follow: false },
+}
+
+/**
+ * Shown by the service worker for pages that were never opened on this device while offline
+ */
+export default function OfflinePage() {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 px-4">
+      <div className="max-w-md text-center space-y-4">
+        <CloudOff className="h-12 w-12 mx-auto text-muted-foreground" />
+        <h1 className="text-2xl font-bold">You are offline</h1>
+        <p className="text-muted-foreground">
+          This page has not been saved for offline use yet. Pages of your library that you opened
+          recently are still available, and links you add are sent once you are back online.
+        </p>
+        <Button asChild>
+          <Link href="/dashboard">Go to Dashboard</Link>
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -6,6 +6,8 @@ import { User, Calendar, Link as LinkIcon, Tag, FileDown, AlertTriangle } from '
 import { ChangePasswordDialog } from '@/components/profile/change-password-dialog'
 import { ChangeEmailDialog } from '@/components/profile/change-email-dialog'
 import { ExportDataDialog } from '@/components/profile/export-data-dialog'
+import { ImportBookmarksDialog } from '@/components/profile/import-bookmarks-dialog'
+import { ImportDataDialog } from '@/components/profile/import-data-dialog'
 import { DeleteAccountDialog } from '@/components/profile/delete-account-dialog'
 import { useUserStats } from '@/hooks/queries/use-user'
 
@@ -145,7 +147,7 @@ export default function ProfilePage() {
             Data Management
           </CardTitle>
           <CardDescription>
-            Export your data or delete your account
+            Import or export your data, or delete your account
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
@@ -160,6 +162,28 @@ export default function ProfilePage() {
             <ExportDataDialog />
           </div>
 
+          {/* Import Data */}
+          <div className="flex items-center justify-between pb-4 border-b">
+            <div>
+              <p className="font-medium">Import Your Data</p>
+              <p className="text-sm text-muted-foreground mt-1">
+                Restore links and tags from a TagLink JSON export
+              </p>
+            </div>
+            <ImportDataDialog />
+          </div>
+
+          {/* Import Bookmarks */}
+          <div className="flex items-center justify-between pb-4 border-b">
+            <div>
+              <p className="font-medium">Import Bookmarks</p>
+              <p className="text-sm text-muted-foreground mt-1">
+                Bring in bookmarks exported from your browser - folders become tags
+              </p>
+            </div>
+            <ImportBookmarksDialog />
+          </div>
+
           {/* Delete Account */}
           <div className="flex items-center justify-between">
             <div>
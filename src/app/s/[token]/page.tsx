@@ -0,0 +1,129 @@
+import type { Metadata } from 'next'
+import Link from 'next/link'
+import { notFound } from 'next/navigation'
+import { cache } from 'react'
+import { ExternalLink, Star, Tag } from 'lucide-react'
+import { createAdminClient } from '@/lib/supabase/server'
+import { loadSharedPage } from '@/lib/shares'
+
+// Revoking or expiring a link must take effect immediately
+export const dynamic = 'force-dynamic'
+
+type SharedPageProps = {
+  params: Promise<{ token: string }>
+}
+
+// Shared by generateMetadata and the page within one request
+const getSharedPage = cache(async (token: string) => {
+  try {
+    return await loadSharedPage(createAdminClient(), token)
+  } catch (error) {
+    console.error('[Share] Failed to load shared page:', error)
+    return null
+  }
+})
+
+export async function generateMetadata({ params }: SharedPageProps): Promise<Metadata> {
+  const { token } = await params
+  const page = await getSharedPage(token)
+
+  return {
+    title: page ? `${page.title} - TagLink` : 'TagLink',
+    // Share links are unlisted
+    robots: { index: false, follow: false },
+    referrer: 'no-referrer',
+  }
+}
+
+/**
+ * Public read-only page of a shared tag, collection or saved search
+ */
+export default async function SharedLinksPage({ params }: SharedPageProps) {
+  const { token } = await params
+  const page = await getSharedPage(token)
+
+  if (!page) {
+    notFound()
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-gradient-main text-white">
+        <div className="container mx-auto px-4 py-8">
+          <p className="text-sm text-white/80 mb-2">Shared with TagLink</p>
+          <h1 className="text-3xl font-bold break-words">{page.title}</h1>
+          <p className="mt-2 text-white/90">
+            {page.links.length} link{page.links.length === 1 ? '' : 's'}
+          </p>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="container mx-auto px-4 py-8 max-w-3xl">
+        {page.links.length === 0 ? (
+          <div className="bg-white rounded-lg border p-12 text-center text-muted-foreground">
+            Nothing here yet.
+          </div>
+        ) : (
+          <ul className="space-y-3">
+            {page.links.map((link) => (
+              <li key={link.id} className="bg-white rounded-lg border p-4">
+                <div className="flex items-start justify-between gap-3">
+                  <a
+                    href={link.url}
+                    target="_blank"
+                    rel="noopener noreferrer nofollow"
+                    className="font-semibold hover:text-primary break-words"
+                  >
+                    {link.title || link.domain}
+                  </a>
+                  {link.rating && (
+                    <span
+                      className="flex items-center gap-0.5 flex-shrink-0"
+                      aria-label={`Rating: ${link.rating} of 5`}
+                    >
+                      {Array.from({ length: link.rating }, (_, i) => (
+                        <Star key={i} className="h-4 w-4 fill-yellow-400 text-yellow-400" />
+                      ))}
+                    </span>
+                  )}
+                </div>
+                <a
+                  href={link.url}
+                  target="_blank"
+                  rel="noopener noreferrer nofollow"
+                  className="inline-flex items-center gap-1 text-xs text-muted-foreground hover:underline"
+                >
+                  {link.domain}
+                  <ExternalLink className="h-3 w-3" />
+                </a>
+                {link.description && <p className="mt-2 text-sm text-gray-700">{link.description}</p>}
+                {link.tags.length > 0 && (
+                  <div className="mt-2 flex flex-wrap gap-1">
+                    {link.tags.map((tag) => (
+                      <span
+                        key={tag}
+                        className="inline-flex items-center gap-1 rounded-full bg-slate-100 px-2 py-0.5 text-xs text-slate-700"
+                      >
+                        <Tag className="h-3 w-3" />
+                        {tag}
+                      </span>
+                    ))}
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <p className="mt-8 text-center text-sm text-muted-foreground">
+          Organize your own links with{' '}
+          <Link href="/" className="text-primary hover:underline">
+            TagLink
+          </Link>
+        </p>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,65 @@
+import type { Metadata } from 'next'
+import Link from 'next/link'
+import { BookmarkPlus } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { createServerComponentClient } from '@/lib/supabase/server'
+import { getSharedLink } from '@/lib/links/quick-save'
+import { QuickSave } from '@/components/links/quick-save'
+
+type SavePageProps = {
+  searchParams: Promise<{ url?: string; title?: string; text?: string }>
+}
+
+export const metadata: Metadata = {
+  title: 'Save link - TagLink',
+  robots: { index: false, follow: false },
+}
+
+/**
+ * Target of the bookmarklet and the PWA share sheet (/save?url=&title=)
+ * Open without a session so visitors learn they have to log in first.
+ */
+export default async function SavePage({ searchParams }: SavePageProps) {
+  const sharedLink = getSharedLink(await searchParams)
+  const supabase = await createServerComponentClient()
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+      <div className="bg-white rounded-lg border p-6 max-w-md w-full">
+        <div className="flex items-center gap-2 mb-4">
+          <BookmarkPlus className="h-5 w-5 text-muted-foreground" />
+          <h1 className="text-lg font-bold">
+            <span className="text-gradient">TagLink</span>
+          </h1>
+        </div>
+
+        {!user ? (
+          <>
+            <p className="text-muted-foreground mb-6">
+              Log in to TagLink, then save the page again.
+            </p>
+            <div className="flex gap-2">
+              <Button asChild>
+                <Link href="/login">Log In</Link>
+              </Button>
+              <Button asChild variant="outline">
+                <Link href="/register">Create Account</Link>
+              </Button>
+            </div>
+          </>
+        ) : !sharedLink ? (
+          <p className="text-muted-foreground">
+            There is no web address to save. Use the bookmarklet from Settings or share a page to
+            TagLink.
+          </p>
+        ) : (
+          <QuickSave url={sharedLink.url} title={sharedLink.title} />
+        )}
+      </div>
+    </div>
+  )
+}
@@ -3,8 +3,22 @@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Skeleton } from '@/components/ui/skeleton'
-import { Settings as SettingsIcon, RotateCcw } from 'lucide-react'
+import {
+  Settings as SettingsIcon,
+  RotateCcw,
+  Share2,
+  KeyRound,
+  Plus,
+  BookmarkPlus,
+  Webhook,
+} from 'lucide-react'
 import { PreferencesForm } from '@/components/settings/preferences-form'
+import { ApiTokenDialog } from '@/components/settings/api-token-dialog'
+import { ApiTokensList } from '@/components/settings/api-tokens-list'
+import { BookmarkletLink } from '@/components/settings/bookmarklet-link'
+import { WebhookEndpointDialog } from '@/components/settings/webhook-endpoint-dialog'
+import { WebhooksList } from '@/components/settings/webhooks-list'
+import { ShareLinksList } from '@/components/shares/share-links-list'
 import { useUserPreferences, useResetPreferences } from '@/hooks/queries/use-user'
 
 export default function SettingsPage() {
@@ -78,6 +92,94 @@ export default function SettingsPage() {
         </CardContent>
       </Card>
 
+      {/* Shared Links Card */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Share2 className="h-5 w-5" />
+            Shared Links
+          </CardTitle>
+          <CardDescription>
+            Public read-only pages of your tags, collections and searches
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ShareLinksList />
+        </CardContent>
+      </Card>
+
+      {/* Quick Save Card */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <BookmarkPlus className="h-5 w-5" />
+            Quick Save
+          </CardTitle>
+          <CardDescription>
+            Save links while browsing without opening the dashboard
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <BookmarkletLink />
+        </CardContent>
+      </Card>
+
+      {/* API Tokens Card */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <KeyRound className="h-5 w-5" />
+                API Tokens
+              </CardTitle>
+              <CardDescription>
+                Personal access tokens for the REST API (/api/v1/*)
+              </CardDescription>
+            </div>
+            <ApiTokenDialog
+              trigger={
+                <Button variant="outline" size="sm">
+                  <Plus className="h-4 w-4 mr-2" />
+                  New Token
+                </Button>
+              }
+            />
+          </div>
+        </CardHeader>
+        <CardContent>
+          <ApiTokensList />
+        </CardContent>
+      </Card>
+
+      {/* Webhooks Card */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Webhook className="h-5 w-5" />
+                Webhooks
+              </CardTitle>
+              <CardDescription>
+                Notify other apps when links and tags change
+              </CardDescription>
+            </div>
+            <WebhookEndpointDialog
+              trigger={
+                <Button variant="outline" size="sm">
+                  <Plus className="h-4 w-4 mr-2" />
+                  New Webhook
+                </Button>
+              }
+            />
+          </div>
+        </CardHeader>
+        <CardContent>
+          <WebhooksList />
+        </CardContent>
+      </Card>
+
       {/* Info Card */}
       <Card className="bg-muted/50">
         <CardHeader>
@@ -0,0 +1,252 @@
+'use client'
+
+import { useState } from 'react'
+import { Trash2, RotateCcw, Loader2, ExternalLink } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { RestoreConflictDialog } from '@/components/links/restore-conflict-dialog'
+import {
+  useTrashedLinks,
+  useRestoreLink,
+  useDeleteLinkForever,
+  useEmptyTrash,
+} from '@/hooks/queries/use-trash'
+import type { LinkWithTags, RestoreConflictStrategy } from '@/types'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Days left until the purge job removes a trashed link
+ */
+function getDaysUntilPurge(deletedAt: string, retentionDays: number): number {
+  const purgeAt = new Date(deletedAt).getTime() + retentionDays * DAY_MS
+  return Math.max(0, Math.ceil((purgeAt - Date.now()) / DAY_MS))
+}
+
+export default function TrashPage() {
+  const { data, isLoading } = useTrashedLinks()
+  const restoreMutation = useRestoreLink()
+  const deleteForeverMutation = useDeleteLinkForever()
+  const emptyTrashMutation = useEmptyTrash()
+
+  const [conflictLink, setConflictLink] = useState<LinkWithTags | null>(null)
+  const [linkToDelete, setLinkToDelete] = useState<LinkWithTags | null>(null)
+  const [isEmptyDialogOpen, setIsEmptyDialogOpen] = useState(false)
+
+  const links = data?.links ?? []
+  const retentionDays = data?.retentionDays ?? 30
+
+  const handleRestore = (link: LinkWithTags, onConflict?: RestoreConflictStrategy) => {
+    restoreMutation.mutate(
+      { linkId: link.id, onConflict },
+      {
+        onSuccess: (result) => {
+          // Same URL was saved again - ask how to resolve it
+          setConflictLink(result.success ? null : link)
+        },
+      }
+    )
+  }
+
+  const handleDeleteForever = () => {
+    if (!linkToDelete) return
+    deleteForeverMutation.mutate(linkToDelete.id, {
+      onSettled: () => setLinkToDelete(null),
+    })
+  }
+
+  const handleEmptyTrash = () => {
+    emptyTrashMutation.mutate(undefined, {
+      onSettled: () => setIsEmptyDialogOpen(false),
+    })
+  }
+
+  return (
+    <>
+      {/* Header */}
+      <div className="bg-gradient-main text-white">
+        <div className="container mx-auto px-4 py-8">
+          <div className="flex items-center gap-3 mb-2">
+            <Trash2 className="h-8 w-8" />
+            <h1 className="text-3xl font-bold">Trash</h1>
+          </div>
+          <div className="min-h-[1.5rem]">
+            <p className="text-white/90">
+              Deleted links are kept for {retentionDays} days before they are removed permanently
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="container mx-auto px-4 py-8">
+        {/* Actions Bar */}
+        <div className="mb-6 flex items-center justify-between gap-4">
+          <p className="text-sm text-muted-foreground">
+            {links.length} {links.length === 1 ? 'link' : 'links'} in trash
+          </p>
+          <Button
+            variant="outline"
+            className="text-red-600 hover:text-red-700 hover:bg-red-50"
+            onClick={() => setIsEmptyDialogOpen(true)}
+            disabled={links.length === 0 || emptyTrashMutation.isPending}
+          >
+            <Trash2 className="h-4 w-4 mr-2" />
+            Empty Trash
+          </Button>
+        </div>
+
+        {/* Trashed Links */}
+        {isLoading ? (
+          <div className="bg-white rounded-lg border p-12 flex justify-center">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : links.length === 0 ? (
+          <div className="bg-white rounded-lg border p-12 text-center">
+            <Trash2 className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+            <h3 className="text-lg font-semibold mb-2">Trash is empty</h3>
+            <p className="text-muted-foreground">Links you delete will appear here</p>
+          </div>
+        ) : (
+          <ul className="bg-white rounded-lg border divide-y" data-testid="trash-list">
+            {links.map((link) => {
+              const daysLeft = getDaysUntilPurge(link.deleted_at!, retentionDays)
+              return (
+                <li key={link.id} className="flex flex-col sm:flex-row sm:items-center gap-3 p-4">
+                  <div className="min-w-0 flex-1">
+                    <p className="font-medium truncate">{link.title || link.url}</p>
+                    <a
+                      href={link.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-sm text-muted-foreground hover:underline inline-flex items-center gap-1 max-w-full"
+                    >
+                      <span className="truncate">{link.domain || link.url}</span>
+                      <ExternalLink className="h-3 w-3 flex-shrink-0" />
+                    </a>
+                    <div className="flex flex-wrap items-center gap-1 mt-2">
+                      {link.tags?.map((tag) => (
+                        <Badge key={tag.id} variant="secondary" className="text-xs">
+                          {tag.name}
+                        </Badge>
+                      ))}
+                      <span className="text-xs text-muted-foreground">
+                        Deleted {new Date(link.deleted_at!).toLocaleDateString()} ·{' '}
+                        {daysLeft === 0
+                          ? 'removed at the next cleanup'
+                          : `removed in ${daysLeft} ${daysLeft === 1 ? 'day' : 'days'}`}
+                      </span>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleRestore(link)}
+                      disabled={restoreMutation.isPending}
+                    >
+                      <RotateCcw className="h-4 w-4 mr-2" />
+                      Restore
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                      onClick={() => setLinkToDelete(link)}
+                      aria-label="Delete forever"
+                    >
+                      <Trash2 className="h-4 w-4 mr-2" />
+                      Delete Forever
+                    </Button>
+                  </div>
+                </li>
+              )
+            })}
+          </ul>
+        )}
+      </div>
+
+      <RestoreConflictDialog
+        open={conflictLink !== null}
+        onOpenChange={(open) => !open && setConflictLink(null)}
+        linkTitle={conflictLink?.title || conflictLink?.url}
+        isPending={restoreMutation.isPending}
+        onResolve={(strategy) => conflictLink && handleRestore(conflictLink, strategy)}
+      />
+
+      {/* Delete Forever Confirmation */}
+      <Dialog open={linkToDelete !== null} onOpenChange={(open) => !open && setLinkToDelete(null)}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>Delete Forever</DialogTitle>
+            <DialogDescription>
+              This link will be deleted permanently. This cannot be undone.
+              {linkToDelete && (
+                <span className="block mt-2 font-medium text-foreground">
+                  {linkToDelete.title || linkToDelete.url}
+                </span>
+              )}
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setLinkToDelete(null)}
+              disabled={deleteForeverMutation.isPending}
+            >
+              Cancel
+            </Button>
+            <Button
+              type="button"
+              variant="destructive"
+              onClick={handleDeleteForever}
+              disabled={deleteForeverMutation.isPending}
+            >
+              {deleteForeverMutation.isPending ? 'Deleting...' : 'Delete Forever'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Empty Trash Confirmation */}
+      <Dialog open={isEmptyDialogOpen} onOpenChange={setIsEmptyDialogOpen}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>Empty Trash</DialogTitle>
+            <DialogDescription>
+              All {links.length} links in the trash will be deleted permanently. This cannot be
+              undone.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setIsEmptyDialogOpen(false)}
+              disabled={emptyTrashMutation.isPending}
+            >
+              Cancel
+            </Button>
+            <Button
+              type="button"
+              variant="destructive"
+              onClick={handleEmptyTrash}
+              disabled={emptyTrashMutation.isPending}
+            >
+              {emptyTrashMutation.isPending ? 'Deleting...' : 'Empty Trash'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
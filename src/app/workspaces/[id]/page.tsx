@@ -0,0 +1,22 @@
+import { redirect } from 'next/navigation'
+import { createServerComponentClient } from '@/lib/supabase/server'
+import { WorkspaceDetails } from '@/components/workspaces/workspace-details'
+
+type WorkspacePageProps = {
+  params: Promise<{ id: string }>
+}
+
+export default async function WorkspacePage({ params }: WorkspacePageProps) {
+  const { id } = await params
+  const supabase = await createServerComponentClient()
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    redirect('/login')
+  }
+
+  return <WorkspaceDetails workspaceId={id} currentUserId={user.id} />
+}
@@ -0,0 +1,113 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { Check, Plus, Users } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { TagCardSkeletonGrid } from '@/components/skeletons/tag-card-skeleton'
+import { RoleBadge } from '@/components/workspaces/role-badge'
+import { WorkspaceFormDialog } from '@/components/workspaces/workspace-form-dialog'
+import {
+  useActiveWorkspace,
+  useSetActiveWorkspace,
+  useWorkspaces,
+} from '@/hooks/queries/use-workspaces'
+
+export default function WorkspacesPage() {
+  const router = useRouter()
+  const { data: workspaces = [], isLoading } = useWorkspaces()
+  const { data: active } = useActiveWorkspace()
+  const setActiveMutation = useSetActiveWorkspace()
+  const [isFormOpen, setIsFormOpen] = useState(false)
+
+  const activeId = active?.workspace?.id ?? null
+
+  return (
+    <>
+      {/* Header */}
+      <div className="bg-gradient-main text-white">
+        <div className="container mx-auto px-4 py-8">
+          <div className="flex items-center gap-3 mb-2">
+            <Users className="h-8 w-8" />
+            <h1 className="text-3xl font-bold">Workspaces</h1>
+          </div>
+          <div className="min-h-[1.5rem]">
+            <p className="text-white/90">
+              Collect links together with your team - switch spaces in the header
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="container mx-auto px-4 py-8">
+        <div className="mb-6 flex justify-end">
+          <Button onClick={() => setIsFormOpen(true)} className="bg-gradient-main hover:opacity-90">
+            <Plus className="h-4 w-4 mr-2" />
+            Create Workspace
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <TagCardSkeletonGrid count={3} />
+        ) : workspaces.length === 0 ? (
+          <div className="bg-white rounded-lg border p-12 text-center">
+            <Users className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+            <h3 className="text-lg font-semibold mb-2">No workspaces yet</h3>
+            <p className="text-muted-foreground mb-4">
+              Create a workspace and invite people to share links, tags and collections with them
+            </p>
+            <Button onClick={() => setIsFormOpen(true)} className="bg-gradient-main hover:opacity-90">
+              <Plus className="h-4 w-4 mr-2" />
+              Create Your First Workspace
+            </Button>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {workspaces.map((workspace) => (
+              <div
+                key={workspace.id}
+                className="bg-white rounded-lg border p-4 flex flex-col hover:shadow-sm transition-shadow"
+              >
+                <Link href={`/workspaces/${workspace.id}`} className="flex-1 group">
+                  <h3 className="font-semibold flex items-center gap-2 group-hover:text-primary">
+                    <Users className="h-4 w-4 text-muted-foreground" />
+                    <span className="truncate">{workspace.name}</span>
+                    <RoleBadge role={workspace.role} />
+                  </h3>
+                </Link>
+                <div className="mt-4 flex items-center justify-between">
+                  <span className="text-sm text-muted-foreground">
+                    {workspace.member_count} member{workspace.member_count !== 1 ? 's' : ''}
+                  </span>
+                  {activeId === workspace.id ? (
+                    <span className="text-sm text-muted-foreground flex items-center gap-1">
+                      <Check className="h-4 w-4" />
+                      Active
+                    </span>
+                  ) : (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setActiveMutation.mutate(workspace.id)}
+                      disabled={setActiveMutation.isPending}
+                    >
+                      Switch
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <WorkspaceFormDialog
+        open={isFormOpen}
+        onOpenChange={setIsFormOpen}
+        onCreated={(workspace) => router.push(`/workspaces/${workspace.id}`)}
+      />
+    </>
+  )
+}
@@ -0,0 +1,74 @@
+'use client'
+
+import { FolderPlus } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { useToast } from '@/hooks/use-toast'
+import { useCollections, useAddLinksToCollection } from '@/hooks/queries/use-collections'
+
+interface AddToCollectionMenuProps {
+  linkIds: string[]
+  onSuccess?: () => void
+}
+
+/**
+ * Dropdown adding the selected dashboard links to a collection
+ */
+export function AddToCollectionMenu({ linkIds, onSuccess }: AddToCollectionMenuProps) {
+  const { data: collections = [] } = useCollections()
+  const addMutation = useAddLinksToCollection()
+  const { toast } = useToast()
+
+  const handleAdd = (collectionId: string, name: string) => {
+    addMutation.mutate(
+      { collectionId, linkIds },
+      {
+        onSuccess: () => {
+          toast({
+            title: 'Dodano do kolekcji',
+            description: `Kolekcja „${name}”`,
+          })
+          onSuccess?.()
+        },
+      }
+    )
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={linkIds.length === 0 || addMutation.isPending}
+        >
+          <FolderPlus className="h-4 w-4 mr-2" />
+          Dodaj do kolekcji
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-56">
+        <DropdownMenuLabel>Kolekcje</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {collections.length === 0 ? (
+          <DropdownMenuItem disabled>Brak kolekcji</DropdownMenuItem>
+        ) : (
+          collections.map((collection) => (
+            <DropdownMenuItem
+              key={collection.id}
+              onSelect={() => handleAdd(collection.id, collection.name)}
+            >
+              <span className="truncate">{collection.name}</span>
+            </DropdownMenuItem>
+          ))
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
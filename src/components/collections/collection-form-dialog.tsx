@@ -0,0 +1,108 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Loader2 } from 'lucide-react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { useCreateCollection, useUpdateCollection } from '@/hooks/queries/use-collections'
+import type { Collection } from '@/types'
+
+interface CollectionFormDialogProps {
+  collection?: Collection // Edit this collection instead of creating a new one
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+export function CollectionFormDialog({ collection, open, onOpenChange }: CollectionFormDialogProps) {
+  const createMutation = useCreateCollection()
+  const updateMutation = useUpdateCollection()
+  const isPending = createMutation.isPending || updateMutation.isPending
+
+  const [name, setName] = useState('')
+  const [description, setDescription] = useState('')
+
+  // Start from the current values every time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setName(collection?.name || '')
+      setDescription(collection?.description || '')
+    }
+  }, [open, collection])
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const input = { name: name.trim(), description: description.trim() || null }
+    const options = { onSuccess: () => onOpenChange(false) }
+
+    if (collection) {
+      updateMutation.mutate({ id: collection.id, ...input }, options)
+    } else {
+      createMutation.mutate(input, options)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{collection ? 'Edit Collection' : 'Create New Collection'}</DialogTitle>
+          <DialogDescription>
+            Collections group links in an order you choose. A link can be in several collections.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="collection-name">Name</Label>
+            <Input
+              id="collection-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Thesis research"
+              disabled={isPending}
+              maxLength={100}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="collection-description">Description (optional)</Label>
+            <Textarea
+              id="collection-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={3}
+              disabled={isPending}
+              maxLength={500}
+            />
+            <p className="text-xs text-muted-foreground">{description.length}/500 characters</p>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={isPending}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isPending || !name.trim()}>
+              {isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {collection ? 'Save' : 'Create Collection'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,76 @@
+'use client'
+
+import Link from 'next/link'
+import { FolderOpen, Layers, Settings2 } from 'lucide-react'
+import { Skeleton } from '@/components/ui/skeleton'
+import { cn } from '@/lib/utils'
+import { useCollections } from '@/hooks/queries/use-collections'
+
+interface CollectionsSidebarProps {
+  selectedCollectionId: string | null
+  onSelect: (collectionId: string | null) => void
+}
+
+/**
+ * Dashboard sidebar filtering links by collection
+ */
+export function CollectionsSidebar({ selectedCollectionId, onSelect }: CollectionsSidebarProps) {
+  const { data: collections = [], isLoading } = useCollections()
+
+  const itemClass = (active: boolean) =>
+    cn(
+      'w-full flex items-center gap-2 rounded-md px-3 py-2 text-sm text-left transition-colors',
+      active ? 'bg-blue-500 text-white' : 'hover:bg-gray-100 text-gray-700'
+    )
+
+  return (
+    <nav className="bg-white rounded-lg border p-3" aria-label="Kolekcje">
+      <div className="flex items-center justify-between px-3 pb-2">
+        <h2 className="text-sm font-semibold">Kolekcje</h2>
+        <Link
+          href="/collections"
+          className="text-muted-foreground hover:text-foreground"
+          aria-label="Zarządzaj kolekcjami"
+        >
+          <Settings2 className="h-4 w-4" />
+        </Link>
+      </div>
+
+      <button className={itemClass(!selectedCollectionId)} onClick={() => onSelect(null)}>
+        <Layers className="h-4 w-4 flex-shrink-0" />
+        Wszystkie linki
+      </button>
+
+      {isLoading ? (
+        <div className="space-y-2 mt-2 px-3">
+          <Skeleton className="h-5 w-full" />
+          <Skeleton className="h-5 w-2/3" />
+        </div>
+      ) : collections.length === 0 ? (
+        <p className="px-3 pt-2 text-xs text-muted-foreground">
+          Nie masz jeszcze kolekcji.{' '}
+          <Link href="/collections" className="text-primary hover:underline">
+            Utwórz
+          </Link>
+        </p>
+      ) : (
+        <ul className="mt-1 space-y-0.5">
+          {collections.map((collection) => {
+            const active = collection.id === selectedCollectionId
+            return (
+              <li key={collection.id}>
+                <button className={itemClass(active)} onClick={() => onSelect(collection.id)}>
+                  <FolderOpen className="h-4 w-4 flex-shrink-0" />
+                  <span className="flex-1 truncate">{collection.name}</span>
+                  <span className={cn('text-xs', active ? 'text-white/80' : 'text-muted-foreground')}>
+                    {collection.link_count}
+                  </span>
+                </button>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </nav>
+  )
+}
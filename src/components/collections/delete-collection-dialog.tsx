@@ -0,0 +1,67 @@
+'use client'
+
+import { Loader2 } from 'lucide-react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { useDeleteCollection } from '@/hooks/queries/use-collections'
+import type { Collection } from '@/types'
+
+interface DeleteCollectionDialogProps {
+  collection: Collection
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onSuccess?: () => void
+}
+
+export function DeleteCollectionDialog({
+  collection,
+  open,
+  onOpenChange,
+  onSuccess,
+}: DeleteCollectionDialogProps) {
+  const deleteMutation = useDeleteCollection()
+
+  const handleDelete = () => {
+    deleteMutation.mutate(collection.id, {
+      onSuccess: () => {
+        onOpenChange(false)
+        onSuccess?.()
+      },
+    })
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Delete Collection</DialogTitle>
+          <DialogDescription>
+            Are you sure you want to delete the collection &quot;{collection.name}&quot;? The links
+            in it are not deleted.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex justify-end gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={deleteMutation.isPending}
+          >
+            Cancel
+          </Button>
+          <Button variant="destructive" onClick={handleDelete} disabled={deleteMutation.isPending}>
+            {deleteMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Delete Collection
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,67 @@
+'use client'
+
+import Link from 'next/link'
+import { FolderOpen } from 'lucide-react'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  useCollections,
+  useLinkCollectionIds,
+  useAddLinksToCollection,
+  useRemoveLinkFromCollection,
+} from '@/hooks/queries/use-collections'
+
+interface LinkCollectionsProps {
+  linkId: string
+}
+
+/**
+ * Collections of a link, toggled with checkboxes (link detail page)
+ */
+export function LinkCollections({ linkId }: LinkCollectionsProps) {
+  const { data: collections = [] } = useCollections()
+  const { data: memberIds = [] } = useLinkCollectionIds(linkId)
+  const addMutation = useAddLinksToCollection()
+  const removeMutation = useRemoveLinkFromCollection()
+  const isPending = addMutation.isPending || removeMutation.isPending
+
+  const toggle = (collectionId: string, checked: boolean) => {
+    if (checked) {
+      addMutation.mutate({ collectionId, linkIds: [linkId] })
+    } else {
+      removeMutation.mutate({ collectionId, linkId })
+    }
+  }
+
+  return (
+    <div className="pt-3 border-t">
+      <h3 className="text-sm font-medium flex items-center gap-2 mb-2">
+        <FolderOpen className="h-4 w-4" />
+        Collections
+      </h3>
+      {collections.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No collections yet.{' '}
+          <Link href="/collections" className="text-primary hover:underline">
+            Create one
+          </Link>
+        </p>
+      ) : (
+        <ul className="space-y-1.5">
+          {collections.map((collection) => (
+            <li key={collection.id} className="flex items-center gap-2">
+              <Checkbox
+                id={`collection-${collection.id}`}
+                checked={memberIds.includes(collection.id)}
+                onCheckedChange={(checked) => toggle(collection.id, checked === true)}
+                disabled={isPending}
+              />
+              <label htmlFor={`collection-${collection.id}`} className="text-sm truncate">
+                {collection.name}
+              </label>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
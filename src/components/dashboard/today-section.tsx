@@ -0,0 +1,158 @@
+'use client'
+
+import { AlarmClock, Bell, Clock, ExternalLink, Sparkles, X } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { StarRating } from '@/components/ui/star-rating'
+import { useTodayLinks, useSnoozeLink, useDismissTodayLink } from '@/hooks/queries/use-reminders'
+import { useActiveWorkspace } from '@/hooks/queries/use-workspaces'
+import { SNOOZE_OPTIONS } from '@/lib/links/resurfacing'
+import { canEditContent } from '@/lib/workspaces/scope'
+import type { LinkWithTags } from '@/types'
+
+const SNOOZE_LABELS: Record<(typeof SNOOZE_OPTIONS)[number], string> = {
+  1: 'Jutro',
+  3: 'Za 3 dni',
+  7: 'Za tydzień',
+  30: 'Za miesiąc',
+}
+
+/**
+ * "Na dziś" section of the dashboard
+ * Shows due reminders and old, highly rated links picked for today.
+ * Hidden when there is nothing to show.
+ * Reminders belong to the link, so in a workspace the whole team shares them.
+ */
+export function TodaySection() {
+  const { data } = useTodayLinks()
+  const { data: active } = useActiveWorkspace()
+  const canEdit = !active || canEditContent(active.role)
+
+  const reminders = data?.reminders ?? []
+  const resurfaced = data?.resurfaced ?? []
+
+  if (reminders.length === 0 && resurfaced.length === 0) {
+    return null
+  }
+
+  return (
+    <Card className="mb-8 border-amber-200 bg-amber-50/40" data-testid="today-section">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base font-semibold flex items-center gap-2">
+          <AlarmClock className="h-4 w-4 text-amber-600" />
+          Na dziś
+        </CardTitle>
+        {active?.workspace && (
+          <p className="text-xs text-gray-500">
+            Przypomnienia są wspólne dla całego zespołu.
+          </p>
+        )}
+      </CardHeader>
+      <CardContent>
+        <ul className="divide-y">
+          {reminders.map((link) => (
+            <TodayLinkItem key={link.id} link={link} reason="reminder" canEdit={canEdit} />
+          ))}
+          {resurfaced.map((link) => (
+            <TodayLinkItem key={link.id} link={link} reason="resurfaced" canEdit={canEdit} />
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  )
+}
+
+function TodayLinkItem({
+  link,
+  reason,
+  canEdit,
+}: {
+  link: LinkWithTags
+  reason: 'reminder' | 'resurfaced'
+  canEdit: boolean
+}) {
+  const snoozeMutation = useSnoozeLink()
+  const dismissMutation = useDismissTodayLink()
+  const isPending = snoozeMutation.isPending || dismissMutation.isPending
+
+  return (
+    <li className="flex flex-col sm:flex-row sm:items-center gap-2 py-3">
+      <div className="min-w-0 flex-1">
+        <a
+          href={link.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="font-medium text-blue-600 hover:text-blue-800 inline-flex items-center gap-1 max-w-full"
+        >
+          <span className="truncate">{link.title || link.domain}</span>
+          <ExternalLink className="h-3.5 w-3.5 flex-shrink-0" />
+        </a>
+        <div className="flex flex-wrap items-center gap-2 mt-1 text-xs text-gray-500">
+          {reason === 'reminder' ? (
+            <span className="inline-flex items-center gap-1">
+              <Bell className="h-3 w-3" />
+              Przypomnienie
+            </span>
+          ) : (
+            <span className="inline-flex items-center gap-1">
+              <Sparkles className="h-3 w-3" />
+              Zapisany {new Date(link.created_at).toLocaleDateString()}
+            </span>
+          )}
+          <span>{link.domain}</span>
+          {link.tags?.slice(0, 3).map((tag) => (
+            <Badge key={tag.id} variant="secondary" className="text-xs">
+              {tag.name}
+            </Badge>
+          ))}
+        </div>
+      </div>
+      <div className="flex items-center gap-1 flex-shrink-0">
+        <StarRating value={link.rating} size="sm" readonly />
+        {canEdit && (
+          <>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="sm" disabled={isPending}>
+                  <Clock className="h-4 w-4 mr-1" />
+                  Odłóż
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuLabel>Przypomnij</DropdownMenuLabel>
+                <DropdownMenuSeparator />
+                {SNOOZE_OPTIONS.map((days) => (
+                  <DropdownMenuItem
+                    key={days}
+                    onClick={() => snoozeMutation.mutate({ linkId: link.id, days })}
+                    className="cursor-pointer"
+                  >
+                    {SNOOZE_LABELS[days]}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => dismissMutation.mutate(link.id)}
+              disabled={isPending}
+              aria-label="Odrzuć"
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </>
+        )}
+      </div>
+    </li>
+  )
+}
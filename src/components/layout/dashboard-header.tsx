@@ -6,10 +6,13 @@ import Link from 'next/link'
 import { createClient } from '@/lib/supabase/client'
 import { Button } from '@/components/ui/button'
 import { useToast } from '@/hooks/use-toast'
-import { LogOut, Tag, LayoutDashboard, User as UserIcon, Settings as SettingsIcon, Menu, Plus } from 'lucide-react'
+import { LogOut, Tag, LayoutDashboard, User as UserIcon, Settings as SettingsIcon, Menu, Plus, ListPlus, Trash2, FolderOpen } from 'lucide-react'
 import type { User } from '@supabase/supabase-js'
 import { AddLinkDialog } from '@/components/links/add-link-dialog'
+import { BulkImportDialog } from '@/components/links/bulk-import-dialog'
 import { ShortcutsHelpDialog } from '@/components/keyboard-shortcuts/shortcuts-help-dialog'
+import { WorkspaceSwitcher } from '@/components/workspaces/workspace-switcher'
+import { clearOfflineData } from '@/lib/offline'
 
 interface DashboardHeaderProps {
   user: User
@@ -23,6 +26,7 @@ export default function DashboardHeader({ user }: DashboardHeaderProps) {
 
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false)
   const [addLinkDialogOpen, setAddLinkDialogOpen] = useState(false)
+  const [bulkImportDialogOpen, setBulkImportDialogOpen] = useState(false)
 
   // Listen for keyboard shortcut to open add link dialog
   useEffect(() => {
@@ -51,6 +55,7 @@ export default function DashboardHeader({ user }: DashboardHeaderProps) {
         variant: 'destructive',
       })
     } else {
+      clearOfflineData()
       router.push('/')
     }
   }
@@ -63,6 +68,8 @@ export default function DashboardHeader({ user }: DashboardHeaderProps) {
           <div className="flex items-center space-x-8">
             <h1 className="text-2xl font-bold text-gradient">TagLink</h1>
 
+            <WorkspaceSwitcher />
+
             {/* Desktop Navigation */}
             <nav className="flex items-center gap-2">
               <Button
@@ -87,6 +94,17 @@ export default function DashboardHeader({ user }: DashboardHeaderProps) {
                   Tags
                 </Link>
               </Button>
+              <Button
+                asChild
+                variant={pathname.startsWith('/collections') ? 'default' : 'ghost'}
+                size="sm"
+                className={pathname.startsWith('/collections') ? 'bg-blue-500 hover:bg-blue-600' : ''}
+              >
+                <Link href="/collections">
+                  <FolderOpen className="h-4 w-4 mr-2" />
+                  Collections
+                </Link>
+              </Button>
               <Button
                 asChild
                 variant={pathname === '/profile' ? 'default' : 'ghost'}
@@ -109,12 +127,31 @@ export default function DashboardHeader({ user }: DashboardHeaderProps) {
                   Settings
                 </Link>
               </Button>
+              <Button
+                asChild
+                variant={pathname === '/trash' ? 'default' : 'ghost'}
+                size="sm"
+                className={pathname === '/trash' ? 'bg-blue-500 hover:bg-blue-600' : ''}
+              >
+                <Link href="/trash">
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Trash
+                </Link>
+              </Button>
             </nav>
           </div>
 
           <div className="flex-1"></div>
 
           <div className="flex items-center space-x-2">
+            <Button
+              variant="outline"
+              onClick={() => setBulkImportDialogOpen(true)}
+              aria-label="Import Links"
+            >
+              <ListPlus className="mr-2 h-4 w-4" />
+              Import
+            </Button>
             <Button
               onClick={() => setAddLinkDialogOpen(true)}
               className="bg-gradient-main text-white hover:opacity-90 hover:scale-105 transition-all duration-200 shadow-md hover:shadow-lg"
@@ -163,6 +200,11 @@ export default function DashboardHeader({ user }: DashboardHeaderProps) {
           {/* Mobile Menu */}
           {mobileMenuOpen && (
             <div className="pb-4 border-t border-gray-200">
+              <WorkspaceSwitcher
+                className="w-full max-w-none justify-start my-3"
+                onSwitch={() => setMobileMenuOpen(false)}
+              />
+
               {/* Mobile Navigation */}
               <nav className="flex flex-col space-y-1">
                 <Button
@@ -187,6 +229,17 @@ export default function DashboardHeader({ user }: DashboardHeaderProps) {
                     Tags
                   </Link>
                 </Button>
+                <Button
+                  asChild
+                  variant={pathname.startsWith('/collections') ? 'default' : 'ghost'}
+                  size="sm"
+                  className={`w-full justify-start ${pathname.startsWith('/collections') ? 'bg-blue-500 hover:bg-blue-600' : ''}`}
+                >
+                  <Link href="/collections" onClick={() => setMobileMenuOpen(false)}>
+                    <FolderOpen className="h-4 w-4 mr-2" />
+                    Collections
+                  </Link>
+                </Button>
                 <Button
                   asChild
                   variant={pathname === '/profile' ? 'default' : 'ghost'}
@@ -209,11 +262,33 @@ export default function DashboardHeader({ user }: DashboardHeaderProps) {
                     Settings
                   </Link>
                 </Button>
+                <Button
+                  asChild
+                  variant={pathname === '/trash' ? 'default' : 'ghost'}
+                  size="sm"
+                  className={`w-full justify-start ${pathname === '/trash' ? 'bg-blue-500 hover:bg-blue-600' : ''}`}
+                >
+                  <Link href="/trash" onClick={() => setMobileMenuOpen(false)}>
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    Trash
+                  </Link>
+                </Button>
               </nav>
 
               {/* Mobile Actions */}
               <div className="flex items-center justify-between mt-4 pt-4 border-t border-gray-200">
                 <ShortcutsHelpDialog />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => {
+                    setMobileMenuOpen(false)
+                    setBulkImportDialogOpen(true)
+                  }}
+                >
+                  <ListPlus className="h-4 w-4 mr-2" />
+                  Import
+                </Button>
                 <Button
                   variant="ghost"
                   size="sm"
@@ -228,8 +303,9 @@ export default function DashboardHeader({ user }: DashboardHeaderProps) {
         </div>
       </div>
 
-      {/* Single Dialog instance - outside responsive containers */}
+      {/* Single Dialog instances - outside responsive containers */}
       <AddLinkDialog open={addLinkDialogOpen} onOpenChange={setAddLinkDialogOpen} />
+      <BulkImportDialog open={bulkImportDialogOpen} onOpenChange={setBulkImportDialogOpen} />
     </header>
   )
 }
\ No newline at end of file
@@ -0,0 +1,46 @@
+'use client'
+
+import { useEffect } from 'react'
+import { CloudOff, RefreshCw } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { useOfflineOutbox } from '@/hooks/use-offline-outbox'
+
+/**
+ * Registers the service worker (production only), syncs the offline outbox and shows
+ * the connection state while offline or while links wait to be sent
+ */
+export function OfflineSupport() {
+  const { links, otherSpaceLinks, online, sync } = useOfflineOutbox()
+
+  useEffect(() => {
+    if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) return
+
+    navigator.serviceWorker.register('/sw.js').catch((error) => {
+      console.error('Service worker registration failed:', error)
+    })
+  }, [])
+
+  if (online && links.length === 0 && otherSpaceLinks.length === 0) return null
+
+  const waiting = `${links.length} ${links.length === 1 ? 'link' : 'links'} waiting to sync`
+  const elsewhere = `${otherSpaceLinks.length} saved in another space - switch to it to sync`
+
+  return (
+    <div
+      role="status"
+      className="fixed bottom-4 left-4 z-50 flex items-center gap-2 rounded-lg border bg-white px-3 py-2 text-sm shadow-lg"
+    >
+      <CloudOff className="h-4 w-4 text-muted-foreground" />
+      <span>
+        {online ? (links.length > 0 ? waiting : elsewhere) : 'You are offline - showing saved pages'}
+        {!online && links.length > 0 && ` · ${waiting}`}
+        {online && links.length > 0 && otherSpaceLinks.length > 0 && ` · ${elsewhere}`}
+      </span>
+      {online && links.length > 0 && (
+        <Button variant="ghost" size="sm" onClick={() => sync()} aria-label="Sync now">
+          <RefreshCw className="h-4 w-4" />
+        </Button>
+      )}
+    </div>
+  )
+}
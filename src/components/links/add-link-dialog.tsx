@@ -38,8 +38,7 @@ export function AddLinkDialog({ open: externalOpen, onOpenChange }: AddLinkDialo
     if (title) formData.append('title', title)
 
     createLinkMutation.mutate(formData, {
-      onSuccess: (result) => {
-        const linkTitle = result.data?.title || url
+      onSuccess: () => {
         setUrl('')
         setTitle('')
         setOpen(false)
@@ -60,7 +59,7 @@ export function AddLinkDialog({ open: externalOpen, onOpenChange }: AddLinkDialo
           <DialogHeader>
             <DialogTitle>Add New Link</DialogTitle>
             <DialogDescription>
-              Paste a URL to save it. We'll fetch metadata, generate AI description, and suggest tags automatically (5-15 seconds).
+              Paste a URL to save it. We'll fetch metadata, generate AI description, and suggest tags automatically in the background.
             </DialogDescription>
           </DialogHeader>
           <div className="grid gap-4 py-4">
@@ -106,7 +105,7 @@ export function AddLinkDialog({ open: externalOpen, onOpenChange }: AddLinkDialo
               Cancel
             </Button>
             <Button type="submit" disabled={createLinkMutation.isPending || !url}>
-              {createLinkMutation.isPending ? 'Processing with AI...' : 'Add Link'}
+              {createLinkMutation.isPending ? 'Saving...' : 'Add Link'}
             </Button>
           </DialogFooter>
         </form>
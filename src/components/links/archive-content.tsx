@@ -0,0 +1,157 @@
+'use client'
+
+import { useEffect, useRef } from 'react'
+import { cn } from '@/lib/utils'
+import { createAnchor, resolveAnchor, type TextAnchor, type TextRange } from '@/lib/highlights/anchors'
+import type { LinkHighlight } from '@/types'
+
+// Styles for the sanitized article HTML (see src/lib/scraping/readability.ts for the allowed tags)
+const ARTICLE_STYLES = [
+  'text-[17px] leading-8 text-gray-800 break-words',
+  '[&_p]:mb-5 [&_h2]:text-2xl [&_h2]:font-bold [&_h2]:mt-8 [&_h2]:mb-3',
+  '[&_h3]:text-xl [&_h3]:font-semibold [&_h3]:mt-6 [&_h3]:mb-2 [&_h4]:font-semibold [&_h4]:mt-4',
+  '[&_a]:text-primary [&_a]:underline [&_a]:underline-offset-2',
+  '[&_ul]:list-disc [&_ol]:list-decimal [&_ul]:pl-6 [&_ol]:pl-6 [&_ul]:mb-5 [&_ol]:mb-5',
+  '[&_blockquote]:border-l-4 [&_blockquote]:pl-4 [&_blockquote]:italic [&_blockquote]:text-gray-600 [&_blockquote]:mb-5',
+  '[&_pre]:bg-slate-100 [&_pre]:rounded-md [&_pre]:p-4 [&_pre]:text-sm [&_pre]:overflow-x-auto [&_pre]:mb-5',
+  '[&_code]:text-[0.9em] [&_img]:my-5 [&_img]:max-w-full [&_img]:h-auto [&_img]:rounded-md',
+  '[&_figcaption]:text-sm [&_figcaption]:text-gray-500 [&_table]:mb-5 [&_td]:border [&_td]:p-2 [&_th]:border [&_th]:p-2',
+  '[&_mark]:bg-yellow-200 [&_mark]:rounded-sm [&_mark]:cursor-pointer [&_mark.active]:bg-orange-300',
+].join(' ')
+
+interface ArchiveContentProps {
+  html: string // Article HTML, sanitized by getLinkArchive
+  highlights?: LinkHighlight[]
+  activeHighlightId?: string | null
+  onSelectionChange?: (anchor: TextAnchor | null) => void
+  onHighlightClick?: (highlightId: string) => void
+  className?: string
+}
+
+/**
+ * Wrap a range of the container's text in <mark> elements
+ * The range can span several text nodes (and elements); each piece gets its own mark.
+ */
+function markRange(container: HTMLElement, range: TextRange, highlightId: string) {
+  const walker = document.createTreeWalker(container, NodeFilter.SHOW_TEXT)
+  const pieces: { node: Text; start: number; end: number }[] = []
+
+  let offset = 0
+  while (walker.nextNode()) {
+    const node = walker.currentNode as Text
+    const nodeStart = offset
+    offset += node.data.length
+
+    if (offset <= range.start || nodeStart >= range.end) continue
+    pieces.push({
+      node,
+      start: Math.max(range.start - nodeStart, 0),
+      end: Math.min(range.end - nodeStart, node.data.length),
+    })
+  }
+
+  // Split after walking - changing the tree would confuse the walker
+  for (const { node, start, end } of pieces) {
+    let target = node
+    if (start > 0) target = target.splitText(start)
+    if (end - start < target.data.length) target.splitText(end - start)
+
+    // Whitespace between blocks (e.g. list items) cannot hold a mark
+    if (!target.data.trim()) continue
+
+    const mark = document.createElement('mark')
+    mark.dataset.highlightId = highlightId
+    target.parentNode?.replaceChild(mark, target)
+    mark.appendChild(target)
+  }
+}
+
+/**
+ * Text offsets of the current selection inside the container, without
+ * surrounding whitespace
+ */
+function getSelectionRange(container: HTMLElement): TextRange | null {
+  const selection = window.getSelection()
+  if (!selection || selection.isCollapsed || selection.rangeCount === 0) return null
+
+  const range = selection.getRangeAt(0)
+  if (!container.contains(range.commonAncestorContainer)) return null
+
+  // Same text model as the highlights: concatenated text nodes of the container
+  const before = document.createRange()
+  before.selectNodeContents(container)
+  before.setEnd(range.startContainer, range.startOffset)
+
+  const selected = range.toString()
+  const start = before.toString().length + (selected.length - selected.trimStart().length)
+  const end = start + selected.trim().length
+
+  return end > start ? { start, end } : null
+}
+
+/**
+ * Archived article with highlights
+ * The HTML is managed outside of React so the marks added here survive re-renders.
+ */
+export function ArchiveContent({
+  html,
+  highlights = [],
+  activeHighlightId,
+  onSelectionChange,
+  onHighlightClick,
+  className,
+}: ArchiveContentProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  // Render the article and re-anchor the highlights in its current text
+  useEffect(() => {
+    const container = containerRef.current
+    if (!container) return
+
+    container.innerHTML = html
+    const text = container.textContent || ''
+
+    highlights.forEach((highlight) => {
+      const range = resolveAnchor(text, {
+        quote: highlight.quote,
+        prefix: highlight.prefix,
+        suffix: highlight.suffix,
+        startOffset: highlight.start_offset,
+        endOffset: highlight.end_offset,
+      })
+      if (range) markRange(container, range, highlight.id)
+    })
+  }, [html, highlights])
+
+  useEffect(() => {
+    containerRef.current?.querySelectorAll('mark').forEach((mark) => {
+      mark.classList.toggle('active', mark.dataset.highlightId === activeHighlightId)
+    })
+  }, [activeHighlightId, html, highlights])
+
+  const handleSelection = () => {
+    const container = containerRef.current
+    if (!container || !onSelectionChange) return
+
+    const range = getSelectionRange(container)
+    onSelectionChange(range ? createAnchor(container.textContent || '', range.start, range.end) : null)
+  }
+
+  const handleClick = (event: React.MouseEvent) => {
+    const mark = (event.target as HTMLElement).closest('mark')
+    if (mark?.dataset.highlightId && window.getSelection()?.isCollapsed) {
+      onHighlightClick?.(mark.dataset.highlightId)
+    }
+  }
+
+  return (
+    <div
+      ref={containerRef}
+      className={cn(ARTICLE_STYLES, className)}
+      onMouseUp={handleSelection}
+      onKeyUp={handleSelection}
+      onClick={handleClick}
+      data-testid="archive-content"
+    />
+  )
+}
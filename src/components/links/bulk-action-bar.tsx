@@ -0,0 +1,211 @@
+'use client'
+
+import { useState } from 'react'
+import { ChevronDown, Download, RotateCw, Star, Tag, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { ToastAction } from '@/components/ui/toast'
+import { ReprocessLinksDialog } from '@/components/links/reprocess-links-dialog'
+import { BulkTagsDialog } from '@/components/links/bulk-tags-dialog'
+import { AddToCollectionMenu } from '@/components/collections/add-to-collection-menu'
+import { exportUserData } from '@/app/actions/profile'
+import { useBulkDeleteLinks, useBulkRestoreLinks, useBulkSetRating } from '@/hooks/queries/use-bulk'
+import { useToast } from '@/hooks/use-toast'
+
+type ExportFormat = 'json' | 'csv' | 'markdown'
+
+const EXPORT_FORMATS: { value: ExportFormat; label: string }[] = [
+  { value: 'json', label: 'JSON' },
+  { value: 'csv', label: 'CSV' },
+  { value: 'markdown', label: 'Markdown' },
+]
+
+interface BulkActionBarProps {
+  selectedLinkIds: string[]
+  pageLinkIds: string[] // Links visible on the current page, in display order
+  onSelectionChange: (linkIds: string[]) => void
+  onExit: () => void
+}
+
+/**
+ * Actions on the links selected on the dashboard
+ */
+export function BulkActionBar({
+  selectedLinkIds,
+  pageLinkIds,
+  onSelectionChange,
+  onExit,
+}: BulkActionBarProps) {
+  const ratingMutation = useBulkSetRating()
+  const deleteMutation = useBulkDeleteLinks()
+  const restoreMutation = useBulkRestoreLinks()
+  const { toast } = useToast()
+
+  const [tagsMode, setTagsMode] = useState<'add' | 'remove' | null>(null)
+  const [isExporting, setIsExporting] = useState(false)
+
+  const hasSelection = selectedLinkIds.length > 0
+  const allSelected = pageLinkIds.length > 0 && pageLinkIds.every((id) => selectedLinkIds.includes(id))
+
+  const handleToggleAll = () => {
+    onSelectionChange(allSelected ? [] : pageLinkIds)
+  }
+
+  const handleRating = (rating: number | null) => {
+    ratingMutation.mutate({ linkIds: selectedLinkIds, rating })
+  }
+
+  const handleDelete = () => {
+    deleteMutation.mutate(selectedLinkIds, {
+      onSuccess: ({ linkIds = [] }) => {
+        onExit()
+        toast({
+          title: 'Przeniesiono do kosza',
+          description: `Usunięte linki: ${linkIds.length}`,
+          action: (
+            <ToastAction altText="Cofnij usunięcie" onClick={() => restoreMutation.mutate(linkIds)}>
+              Cofnij
+            </ToastAction>
+          ),
+        })
+      },
+    })
+  }
+
+  const handleExport = async (format: ExportFormat) => {
+    setIsExporting(true)
+    try {
+      const result = await exportUserData(format, { linkIds: selectedLinkIds })
+
+      if (result.success && result.data) {
+        // Create a blob and download
+        const blob = new Blob([result.data.content], { type: result.data.mimeType })
+        const url = window.URL.createObjectURL(blob)
+        const a = document.createElement('a')
+        a.href = url
+        a.download = result.data.filename
+        document.body.appendChild(a)
+        a.click()
+        document.body.removeChild(a)
+        window.URL.revokeObjectURL(url)
+      } else {
+        toast({
+          title: 'Error',
+          description: result.error || 'Failed to export links',
+          variant: 'destructive',
+        })
+      }
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  return (
+    <>
+      <div className="flex flex-wrap items-center justify-end gap-2 w-full">
+        <div className="flex items-center gap-2 mr-auto">
+          <Button variant="ghost" size="sm" onClick={handleToggleAll}>
+            {allSelected ? 'Odznacz wszystkie' : 'Zaznacz wszystkie'}
+          </Button>
+          <span className="text-sm text-muted-foreground">
+            Zaznaczono: {selectedLinkIds.length}
+          </span>
+          <span className="hidden md:inline text-xs text-muted-foreground">
+            (Shift+klik zaznacza zakres)
+          </span>
+        </div>
+
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" disabled={!hasSelection}>
+              <Tag className="h-4 w-4 mr-2" />
+              Tagi
+              <ChevronDown className="h-4 w-4 ml-1" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuItem onSelect={() => setTagsMode('add')}>Dodaj tagi…</DropdownMenuItem>
+            <DropdownMenuItem onSelect={() => setTagsMode('remove')}>Usuń tagi…</DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" disabled={!hasSelection || ratingMutation.isPending}>
+              <Star className="h-4 w-4 mr-2" />
+              Ocena
+              <ChevronDown className="h-4 w-4 ml-1" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            {[5, 4, 3, 2, 1].map((rating) => (
+              <DropdownMenuItem key={rating} onSelect={() => handleRating(rating)}>
+                {'⭐'.repeat(rating)}
+              </DropdownMenuItem>
+            ))}
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onSelect={() => handleRating(null)}>Usuń ocenę</DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        <AddToCollectionMenu linkIds={selectedLinkIds} />
+
+        <ReprocessLinksDialog
+          linkIds={selectedLinkIds}
+          onSuccess={onExit}
+          trigger={
+            <Button variant="outline" size="sm" disabled={!hasSelection}>
+              <RotateCw className="h-4 w-4 mr-2" />
+              Przetwórz ponownie
+            </Button>
+          }
+        />
+
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" disabled={!hasSelection || isExporting}>
+              <Download className="h-4 w-4 mr-2" />
+              Eksportuj
+              <ChevronDown className="h-4 w-4 ml-1" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            {EXPORT_FORMATS.map((format) => (
+              <DropdownMenuItem key={format.value} onSelect={() => handleExport(format.value)}>
+                {format.label}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        <Button
+          variant="outline"
+          size="sm"
+          className="text-red-600 hover:text-red-700"
+          onClick={handleDelete}
+          disabled={!hasSelection || deleteMutation.isPending}
+        >
+          <Trash2 className="h-4 w-4 mr-2" />
+          Usuń
+        </Button>
+
+        <Button variant="ghost" size="sm" onClick={onExit}>
+          Anuluj
+        </Button>
+      </div>
+
+      <BulkTagsDialog
+        mode={tagsMode || 'add'}
+        linkIds={selectedLinkIds}
+        open={tagsMode !== null}
+        onOpenChange={(open) => !open && setTagsMode(null)}
+      />
+    </>
+  )
+}
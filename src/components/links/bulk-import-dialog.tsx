@@ -0,0 +1,181 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { useBulkImportLinks } from '@/hooks/queries/use-links'
+import { RateLimitIndicator, refreshRateLimit } from '@/components/rate-limit/rate-limit-indicator'
+import { extractUrls } from '@/lib/links/urls'
+import { cn } from '@/lib/utils'
+import type { BulkImportResult, BulkImportStatus } from '@/types'
+
+interface BulkImportDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+const STATUS_LABELS: Record<BulkImportStatus, string> = {
+  created: 'Added',
+  duplicate: 'Duplicate',
+  invalid: 'Invalid',
+  rate_limited: 'Queued',
+  failed: 'Failed',
+}
+
+const STATUS_STYLES: Record<BulkImportStatus, string> = {
+  created: 'bg-green-100 text-green-800',
+  duplicate: 'bg-gray-100 text-gray-700',
+  invalid: 'bg-red-100 text-red-800',
+  rate_limited: 'bg-amber-100 text-amber-800',
+  failed: 'bg-red-100 text-red-800',
+}
+
+export function BulkImportDialog({ open, onOpenChange }: BulkImportDialogProps) {
+  const [text, setText] = useState('')
+  const [result, setResult] = useState<BulkImportResult | null>(null)
+  const bulkImportMutation = useBulkImportLinks()
+
+  // Preview of what will be imported
+  const detectedCount = useMemo(() => new Set(extractUrls(text)).size, [text])
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      setText('')
+      setResult(null)
+    }
+    onOpenChange(nextOpen)
+  }
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+
+    bulkImportMutation.mutate(text, {
+      onSuccess: (data) => {
+        setResult(data)
+        refreshRateLimit()
+      },
+      onError: () => {
+        refreshRateLimit()
+      },
+    })
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[600px] animate-scale-in">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>Import Links</DialogTitle>
+            <DialogDescription>
+              Paste any text - a reading list, notes or an email. Every http(s) link in it will be
+              saved and processed in the background.
+            </DialogDescription>
+          </DialogHeader>
+
+          {result ? (
+            <div className="grid gap-3 py-4">
+              <div className="flex flex-wrap gap-2 text-sm">
+                {(Object.keys(STATUS_LABELS) as BulkImportStatus[])
+                  .filter((status) => result.counts[status] > 0)
+                  .map((status) => (
+                    <Badge key={status} variant="secondary" className={STATUS_STYLES[status]}>
+                      {STATUS_LABELS[status]}: {result.counts[status]}
+                    </Badge>
+                  ))}
+              </div>
+              <ul
+                className="border rounded-md divide-y max-h-[320px] overflow-y-auto text-sm"
+                data-testid="bulk-import-results"
+              >
+                {result.items.map((item, index) => (
+                  <li key={`${item.url}-${index}`} className="flex items-start gap-3 px-3 py-2">
+                    <Badge
+                      variant="secondary"
+                      className={cn('flex-shrink-0', STATUS_STYLES[item.status])}
+                    >
+                      {STATUS_LABELS[item.status]}
+                    </Badge>
+                    <div className="min-w-0">
+                      <p className="truncate">{item.url}</p>
+                      {item.message && (
+                        <p className="text-xs text-muted-foreground">{item.message}</p>
+                      )}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ) : (
+            <div className="grid gap-4 py-4">
+              {/* Rate Limit Indicator */}
+              <div className="rounded-lg border bg-muted/50 p-3">
+                <RateLimitIndicator variant="detailed" showDetails />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="bulk-import-text">Text with links</Label>
+                <Textarea
+                  id="bulk-import-text"
+                  placeholder={'https://example.com/article\nhttps://blog.example.org/post'}
+                  value={text}
+                  onChange={(e) => setText(e.target.value)}
+                  className="min-h-[200px] font-mono text-xs"
+                  disabled={bulkImportMutation.isPending}
+                  autoFocus
+                />
+                <p className="text-sm text-muted-foreground">
+                  {detectedCount === 0
+                    ? 'No links detected yet.'
+                    : `${detectedCount} unique link${detectedCount === 1 ? '' : 's'} detected. Links over the hourly limit are queued and added automatically later.`}
+                </p>
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            {result ? (
+              <>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => {
+                    setText('')
+                    setResult(null)
+                  }}
+                >
+                  Import More
+                </Button>
+                <Button type="button" onClick={() => handleOpenChange(false)}>
+                  Done
+                </Button>
+              </>
+            ) : (
+              <>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => handleOpenChange(false)}
+                  disabled={bulkImportMutation.isPending}
+                >
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={bulkImportMutation.isPending || detectedCount === 0}>
+                  {bulkImportMutation.isPending ? 'Importing...' : 'Import'}
+                </Button>
+              </>
+            )}
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
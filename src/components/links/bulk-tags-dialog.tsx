@@ -0,0 +1,108 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { useTags } from '@/hooks/queries/use-tags'
+import { useBulkAddTags, useBulkRemoveTags } from '@/hooks/queries/use-bulk'
+
+interface BulkTagsDialogProps {
+  mode: 'add' | 'remove'
+  linkIds: string[]
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onSuccess?: () => void
+}
+
+/**
+ * Pick tags to add to or remove from the selected links
+ */
+export function BulkTagsDialog({ mode, linkIds, open, onOpenChange, onSuccess }: BulkTagsDialogProps) {
+  const { data: tags = [] } = useTags()
+  const addMutation = useBulkAddTags()
+  const removeMutation = useBulkRemoveTags()
+  const mutation = mode === 'add' ? addMutation : removeMutation
+
+  const [selectedTagIds, setSelectedTagIds] = useState<string[]>([])
+
+  useEffect(() => {
+    if (open) setSelectedTagIds([])
+  }, [open])
+
+  // A link can have at most 10 tags, so more can never be added at once
+  const isAtLimit = mode === 'add' && selectedTagIds.length >= 10
+
+  const toggleTag = (tagId: string, checked: boolean) => {
+    setSelectedTagIds((prev) => (checked ? [...prev, tagId] : prev.filter((id) => id !== tagId)))
+  }
+
+  const handleSubmit = () => {
+    mutation.mutate(
+      { linkIds, tagIds: selectedTagIds },
+      {
+        onSuccess: () => {
+          onOpenChange(false)
+          onSuccess?.()
+        },
+      }
+    )
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>{mode === 'add' ? 'Dodaj tagi' : 'Usuń tagi'}</DialogTitle>
+          <DialogDescription>
+            {mode === 'add'
+              ? `Wybrane tagi zostaną dodane do zaznaczonych linków (${linkIds.length}). Linki, które miałyby więcej niż 10 tagów, zostaną pominięte.`
+              : `Wybrane tagi zostaną usunięte z zaznaczonych linków (${linkIds.length}).`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {tags.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nie masz jeszcze żadnych tagów.</p>
+        ) : (
+          <ul className="max-h-72 overflow-y-auto space-y-2 pr-1">
+            {tags.map((tag) => (
+              <li key={tag.id} className="flex items-center gap-2">
+                <Checkbox
+                  id={`bulk-tag-${tag.id}`}
+                  checked={selectedTagIds.includes(tag.id)}
+                  onCheckedChange={(checked) => toggleTag(tag.id, checked === true)}
+                  disabled={mutation.isPending || (isAtLimit && !selectedTagIds.includes(tag.id))}
+                />
+                <label htmlFor={`bulk-tag-${tag.id}`} className="text-sm">
+                  {tag.name}
+                </label>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={mutation.isPending}>
+            Anuluj
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={mutation.isPending || selectedTagIds.length === 0}
+            variant={mode === 'remove' ? 'destructive' : 'default'}
+          >
+            {mutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {mode === 'add' ? 'Dodaj' : 'Usuń'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
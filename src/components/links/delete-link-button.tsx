@@ -47,7 +47,8 @@ export function DeleteLinkButton({ linkId, linkTitle, onSuccess }: DeleteLinkBut
         <DialogHeader>
           <DialogTitle>Delete Link</DialogTitle>
           <DialogDescription>
-            Are you sure you want to delete this link?
+            The link will be moved to the trash. You can restore it from there until it is
+            removed permanently.
             {linkTitle && (
               <span className="block mt-2 font-medium text-foreground">
                 {linkTitle}
@@ -19,9 +19,21 @@ import { StarRating } from '@/components/ui/star-rating'
 import { Edit2, Loader2 } from 'lucide-react'
 import { useUpdateLink } from '@/hooks/queries/use-links'
 import { getUserTags, assignTagsToLink } from '@/app/actions/tags'
+import { MAX_NOTES_LENGTH } from '@/lib/links/markdown'
 import { useToast } from '@/hooks/use-toast'
 import type { LinkWithTags, Tag } from '@/types'
 
+/**
+ * Reminder timestamp as a value for a date input (local date)
+ */
+function toDateInputValue(timestamp: string | null): string {
+  if (!timestamp) return ''
+  const date = new Date(timestamp)
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
 interface EditLinkDialogProps {
   link: LinkWithTags
   onSuccess?: () => void
@@ -32,6 +44,8 @@ export function EditLinkDialog({ link, onSuccess }: EditLinkDialogProps) {
   const [title, setTitle] = useState(link.title || '')
   const [description, setDescription] = useState(link.ai_description || '')
   const [rating, setRating] = useState(link.rating || null)
+  const [notes, setNotes] = useState(link.notes || '')
+  const [remindOn, setRemindOn] = useState(toDateInputValue(link.remind_at))
   const [availableTags, setAvailableTags] = useState<Tag[]>([])
   const [selectedTagIds, setSelectedTagIds] = useState<string[]>([])
   const [isLoadingTags, setIsLoadingTags] = useState(true)
@@ -45,6 +59,8 @@ export function EditLinkDialog({ link, onSuccess }: EditLinkDialogProps) {
       setTitle(link.title || '')
       setDescription(link.ai_description || '')
       setRating(link.rating || null)
+      setNotes(link.notes || '')
+      setRemindOn(toDateInputValue(link.remind_at))
       setSelectedTagIds([]) // Reset tags before loading
       loadTags()
     }
@@ -118,6 +134,14 @@ export function EditLinkDialog({ link, onSuccess }: EditLinkDialogProps) {
         title: title || undefined,
         ai_description: description || undefined,
         rating: rating,
+        notes: notes,
+        // Only send the reminder when it changed - the input drops the time of day
+        remind_at:
+          remindOn !== toDateInputValue(link.remind_at)
+            ? remindOn
+              ? new Date(`${remindOn}T00:00:00`).toISOString()
+              : null
+            : undefined,
       },
       {
         onSuccess: async () => {
@@ -151,7 +175,7 @@ export function EditLinkDialog({ link, onSuccess }: EditLinkDialogProps) {
           <Edit2 className="h-4 w-4" />
         </Button>
       </DialogTrigger>
-      <DialogContent className="sm:max-w-[525px]">
+      <DialogContent className="sm:max-w-[525px] max-h-[90vh] overflow-y-auto">
         <form onSubmit={handleSubmit}>
           <DialogHeader>
             <DialogTitle>Edit Link</DialogTitle>
@@ -191,6 +215,48 @@ export function EditLinkDialog({ link, onSuccess }: EditLinkDialogProps) {
                 {description.length}/280 characters
               </p>
             </div>
+            <div className="grid gap-2">
+              <Label htmlFor="edit-notes">Notes</Label>
+              <Textarea
+                id="edit-notes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                disabled={updateLinkMutation.isPending}
+                rows={5}
+                maxLength={MAX_NOTES_LENGTH}
+                placeholder="Your own thoughts about this link. Markdown is supported."
+              />
+              <p className="text-sm text-muted-foreground">
+                {notes.length}/{MAX_NOTES_LENGTH} characters
+              </p>
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="edit-remind-on">Remind me on</Label>
+              <div className="flex items-center gap-2">
+                <Input
+                  id="edit-remind-on"
+                  type="date"
+                  value={remindOn}
+                  onChange={(e) => setRemindOn(e.target.value)}
+                  disabled={updateLinkMutation.isPending}
+                  className="w-auto"
+                />
+                {remindOn && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setRemindOn('')}
+                    disabled={updateLinkMutation.isPending}
+                  >
+                    Clear
+                  </Button>
+                )}
+              </div>
+              <p className="text-sm text-muted-foreground">
+                The link shows up in the Today section on the dashboard on this day
+              </p>
+            </div>
             <div className="grid gap-2">
               <Label htmlFor="edit-rating">Rating</Label>
               <StarRating
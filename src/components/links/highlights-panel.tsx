@@ -0,0 +1,165 @@
+'use client'
+
+import { useState } from 'react'
+import { Highlighter, Loader2, MessageSquare, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Textarea } from '@/components/ui/textarea'
+import { cn } from '@/lib/utils'
+import { MAX_HIGHLIGHT_COMMENT_LENGTH } from '@/lib/highlights/anchors'
+import {
+  useHighlights,
+  useUpdateHighlightComment,
+  useDeleteHighlight,
+} from '@/hooks/queries/use-highlights'
+import type { LinkHighlight } from '@/types'
+
+interface HighlightsPanelProps {
+  linkId: string
+  activeHighlightId?: string | null
+  onHighlightClick?: (highlightId: string) => void
+  emptyMessage?: string
+  className?: string
+}
+
+/**
+ * List of a link's highlights with their comments
+ * Used next to the reader view and on the link detail page.
+ */
+export function HighlightsPanel({
+  linkId,
+  activeHighlightId,
+  onHighlightClick,
+  emptyMessage = 'No highlights yet.',
+  className,
+}: HighlightsPanelProps) {
+  const { data: highlights, isLoading } = useHighlights(linkId)
+
+  return (
+    <div className={cn('bg-white rounded-lg border p-6', className)} data-testid="highlights-panel">
+      <h2 className="text-lg font-semibold flex items-center gap-2 mb-4">
+        <Highlighter className="h-5 w-5" />
+        Highlights
+        {highlights && highlights.length > 0 && (
+          <span className="text-sm font-normal text-muted-foreground">({highlights.length})</span>
+        )}
+      </h2>
+
+      {isLoading ? (
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      ) : !highlights || highlights.length === 0 ? (
+        <p className="text-sm text-muted-foreground">{emptyMessage}</p>
+      ) : (
+        <ul className="space-y-4">
+          {highlights.map((highlight) => (
+            <HighlightItem
+              key={highlight.id}
+              highlight={highlight}
+              isActive={highlight.id === activeHighlightId}
+              onClick={onHighlightClick}
+            />
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+function HighlightItem({
+  highlight,
+  isActive,
+  onClick,
+}: {
+  highlight: LinkHighlight
+  isActive: boolean
+  onClick?: (highlightId: string) => void
+}) {
+  const updateMutation = useUpdateHighlightComment()
+  const deleteMutation = useDeleteHighlight()
+
+  const [isEditing, setIsEditing] = useState(false)
+  const [comment, setComment] = useState('')
+
+  const startEditing = () => {
+    setComment(highlight.comment || '')
+    setIsEditing(true)
+  }
+
+  const handleSave = () => {
+    updateMutation.mutate(
+      { id: highlight.id, linkId: highlight.link_id, comment },
+      { onSuccess: () => setIsEditing(false) }
+    )
+  }
+
+  return (
+    <li
+      className={cn(
+        'group rounded-md border-l-4 border-yellow-300 pl-3 py-1',
+        isActive && 'border-orange-400 bg-orange-50'
+      )}
+    >
+      <blockquote
+        className={cn('text-sm text-gray-800 line-clamp-4', onClick && 'cursor-pointer')}
+        onClick={() => onClick?.(highlight.id)}
+      >
+        {highlight.quote}
+      </blockquote>
+
+      {isEditing ? (
+        <div className="mt-2 space-y-2">
+          <Textarea
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            rows={3}
+            maxLength={MAX_HIGHLIGHT_COMMENT_LENGTH}
+            disabled={updateMutation.isPending}
+            placeholder="Add a comment"
+            aria-label="Comment"
+            autoFocus
+          />
+          <div className="flex justify-end gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setIsEditing(false)}
+              disabled={updateMutation.isPending}
+            >
+              Cancel
+            </Button>
+            <Button size="sm" onClick={handleSave} disabled={updateMutation.isPending}>
+              {updateMutation.isPending ? 'Saving...' : 'Save'}
+            </Button>
+          </div>
+        </div>
+      ) : (
+        highlight.comment && (
+          <p className="mt-1 text-sm text-muted-foreground whitespace-pre-wrap">{highlight.comment}</p>
+        )
+      )}
+
+      {!isEditing && (
+        <div className="mt-1 flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 px-2 text-xs"
+            onClick={startEditing}
+          >
+            <MessageSquare className="h-3.5 w-3.5 mr-1" />
+            {highlight.comment ? 'Edit comment' : 'Comment'}
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 px-2 text-xs text-red-600 hover:text-red-700"
+            onClick={() => deleteMutation.mutate({ id: highlight.id, linkId: highlight.link_id })}
+            disabled={deleteMutation.isPending}
+            aria-label="Delete highlight"
+          >
+            <Trash2 className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      )}
+    </li>
+  )
+}
@@ -0,0 +1,56 @@
+'use client'
+
+import { AlertTriangle } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import type { LinkHealthStatus } from '@/types'
+
+interface LinkHealthBadgeProps {
+  status: LinkHealthStatus
+  statusCode?: number | null
+  error?: string | null
+  finalUrl?: string | null
+  checkedAt?: string | null
+  compact?: boolean // Icon only (list view)
+  className?: string
+}
+
+/**
+ * Marks links the periodic health checker found dead
+ * Renders nothing for links that work or were not checked yet.
+ */
+export function LinkHealthBadge({
+  status,
+  statusCode,
+  error,
+  finalUrl,
+  checkedAt,
+  compact = false,
+  className,
+}: LinkHealthBadgeProps) {
+  if (status !== 'broken') {
+    return null
+  }
+
+  const details = [
+    statusCode ? `HTTP ${statusCode}` : error,
+    finalUrl && `→ ${finalUrl}`,
+    checkedAt && `Sprawdzono ${new Date(checkedAt).toLocaleDateString()}`,
+  ]
+    .filter(Boolean)
+    .join('\n')
+
+  return (
+    <span
+      className={cn(
+        'inline-flex items-center gap-1 rounded-full bg-red-50 px-2 py-0.5 text-xs font-medium text-red-700 flex-shrink-0',
+        compact && 'px-1',
+        className
+      )}
+      title={details || undefined}
+      data-testid="link-health-badge"
+    >
+      <AlertTriangle className="h-3 w-3" />
+      {!compact && 'Niedziałający'}
+    </span>
+  )
+}
@@ -0,0 +1,109 @@
+import { Fragment } from 'react'
+import { parseMarkdown, type MarkdownInline } from '@/lib/links/markdown'
+import { cn } from '@/lib/utils'
+
+interface LinkNotesProps {
+  notes: string
+  className?: string
+}
+
+function InlineContent({ nodes }: { nodes: MarkdownInline[] }) {
+  return (
+    <>
+      {nodes.map((node, index) => {
+        switch (node.type) {
+          case 'strong':
+            return (
+              <strong key={index}>
+                <InlineContent nodes={node.children} />
+              </strong>
+            )
+          case 'em':
+            return (
+              <em key={index}>
+                <InlineContent nodes={node.children} />
+              </em>
+            )
+          case 'code':
+            return (
+              <code key={index} className="rounded bg-slate-100 px-1 py-0.5 text-[0.9em]">
+                {node.text}
+              </code>
+            )
+          case 'link':
+            return (
+              <a
+                key={index}
+                href={node.href}
+                target="_blank"
+                rel="noopener noreferrer nofollow"
+                className="text-primary underline underline-offset-2 break-words"
+              >
+                <InlineContent nodes={node.children} />
+              </a>
+            )
+          default:
+            return <Fragment key={index}>{node.text}</Fragment>
+        }
+      })}
+    </>
+  )
+}
+
+/**
+ * Render personal link notes written in markdown
+ * Parsed notes are rendered as React elements - user input is never injected as HTML.
+ */
+export function LinkNotes({ notes, className }: LinkNotesProps) {
+  const blocks = parseMarkdown(notes)
+
+  return (
+    <div className={cn('space-y-3 text-sm leading-relaxed', className)}>
+      {blocks.map((block, index) => {
+        switch (block.type) {
+          case 'heading': {
+            const sizes = { 1: 'text-lg', 2: 'text-base', 3: 'text-sm' }
+            return (
+              <p key={index} className={cn('font-semibold', sizes[block.level])}>
+                <InlineContent nodes={block.children} />
+              </p>
+            )
+          }
+          case 'list': {
+            const ListTag = block.ordered ? 'ol' : 'ul'
+            return (
+              <ListTag
+                key={index}
+                className={cn('pl-5 space-y-1', block.ordered ? 'list-decimal' : 'list-disc')}
+              >
+                {block.items.map((item, itemIndex) => (
+                  <li key={itemIndex}>
+                    <InlineContent nodes={item} />
+                  </li>
+                ))}
+              </ListTag>
+            )
+          }
+          case 'quote':
+            return (
+              <blockquote key={index} className="border-l-2 pl-3 text-muted-foreground italic">
+                <InlineContent nodes={block.children} />
+              </blockquote>
+            )
+          case 'code':
+            return (
+              <pre key={index} className="rounded-md bg-slate-100 p-3 text-xs overflow-x-auto">
+                <code>{block.text}</code>
+              </pre>
+            )
+          default:
+            return (
+              <p key={index}>
+                <InlineContent nodes={block.children} />
+              </p>
+            )
+        }
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,70 @@
+'use client'
+
+import { Clock, Loader2 } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { MAX_PROCESSING_ATTEMPTS } from '@/lib/queue/backoff'
+import type { LinkStatus } from '@/types'
+
+interface LinkProcessingStatusProps {
+  status: LinkStatus
+  attempts?: number
+  error?: string | null
+  compact?: boolean // Only show in-flight states (list view)
+  className?: string
+}
+
+/**
+ * Per-card progress of the background scraping/AI queue
+ */
+export function LinkProcessingStatus({
+  status,
+  attempts = 0,
+  error,
+  compact = false,
+  className,
+}: LinkProcessingStatusProps) {
+  // Attempt counter is only interesting once a retry happened
+  const attemptLabel = attempts > 1 ? ` (próba ${attempts}/${MAX_PROCESSING_ATTEMPTS})` : ''
+
+  if (status === 'pending') {
+    return (
+      <span
+        className={cn('inline-flex items-center gap-1 text-xs text-gray-500', className)}
+        title={error || undefined}
+        data-testid="link-processing-status"
+      >
+        <Clock className="h-3 w-3" />
+        {!compact && <>W kolejce{attemptLabel}</>}
+      </span>
+    )
+  }
+
+  if (status === 'processing') {
+    return (
+      <span
+        className={cn('inline-flex items-center gap-1 text-xs text-blue-600', className)}
+        data-testid="link-processing-status"
+      >
+        <Loader2 className="h-3 w-3 animate-spin" />
+        {!compact && <>Przetwarzanie{attemptLabel}...</>}
+      </span>
+    )
+  }
+
+  if (compact) {
+    return null
+  }
+
+  if (status === 'failed') {
+    return (
+      <span
+        className={cn('text-xs text-red-600', className)}
+        title={error || 'Scraping failed'}
+      >
+        Błąd scrapingu
+      </span>
+    )
+  }
+
+  return <span className={cn('text-xs text-gray-500', className)}>Przetworzono</span>
+}
@@ -0,0 +1,194 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { BookmarkPlus, Check, ExternalLink, Loader2, Sparkles, X } from 'lucide-react'
+import { badgeVariants } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { cn } from '@/lib/utils'
+import { useLink, useQuickSaveLink } from '@/hooks/queries/use-links'
+import { useAssignTags, useTags } from '@/hooks/queries/use-tags'
+import type { LinkWithTags } from '@/types'
+
+// Same limit as the edit dialog and assignTagsSchema
+const MAX_TAGS = 10
+
+interface QuickSaveProps {
+  url: string
+  title?: string
+}
+
+function getLinkTagIds(link: LinkWithTags): string[] {
+  return (link.link_tags || []).filter((linkTag) => linkTag.tag).map((linkTag) => linkTag.tag.id)
+}
+
+/**
+ * Save the shared link once the user confirms, then offer the AI-suggested tags to keep or change
+ * Nothing is saved on page load: /save is a GET page, so any site could open it with a URL
+ * of its choice.
+ */
+export function QuickSave({ url, title }: QuickSaveProps) {
+  const router = useRouter()
+  const saveMutation = useQuickSaveLink()
+  const assignMutation = useAssignTags()
+  const savedLink = saveMutation.data
+  const { data: link } = useLink(savedLink?.linkId ?? '')
+  const { data: tags = [], refetch: refetchTags } = useTags()
+  const [selectedTagIds, setSelectedTagIds] = useState<string[] | null>(null)
+
+  const isProcessing =
+    !link || link.ai_processing_status === 'pending' || link.ai_processing_status === 'processing'
+
+  // Take the suggestions once processing finished (AI may have created new tags)
+  useEffect(() => {
+    if (link && !isProcessing && selectedTagIds === null) {
+      setSelectedTagIds(getLinkTagIds(link))
+      refetchTags()
+    }
+  }, [link, isProcessing, selectedTagIds, refetchTags])
+
+  const toggleTag = (tagId: string) => {
+    setSelectedTagIds((current) => {
+      const ids = current ?? []
+      if (ids.includes(tagId)) return ids.filter((id) => id !== tagId)
+      return ids.length < MAX_TAGS ? [...ids, tagId] : ids
+    })
+  }
+
+  // The bookmarklet opens a popup; share sheets and typed URLs open a normal tab
+  const handleDone = () => {
+    if (window.opener) {
+      window.close()
+    } else {
+      router.push('/dashboard')
+    }
+  }
+
+  const handleSaveTags = () => {
+    if (!savedLink || !selectedTagIds) return
+    assignMutation.mutate({ linkId: savedLink.linkId, tagIds: selectedTagIds })
+  }
+
+  if (saveMutation.isError) {
+    return (
+      <div className="text-center space-y-4">
+        <p className="text-sm text-red-600" role="alert">
+          {saveMutation.error.message}
+        </p>
+        <Button variant="outline" onClick={() => saveMutation.mutate({ url, title })}>
+          Try Again
+        </Button>
+      </div>
+    )
+  }
+
+  if (saveMutation.isPending) {
+    return (
+      <div className="flex items-center justify-center gap-2 text-muted-foreground py-8">
+        <Loader2 className="h-5 w-5 animate-spin" />
+        Saving link...
+      </div>
+    )
+  }
+
+  if (!savedLink) {
+    return (
+      <div className="space-y-5">
+        <div className="min-w-0">
+          <p className="font-semibold truncate">{title || url}</p>
+          <p className="text-sm text-muted-foreground break-all">{url}</p>
+        </div>
+        <div className="flex flex-wrap justify-end gap-2">
+          <Button variant="outline" onClick={handleDone}>
+            Cancel
+          </Button>
+          <Button onClick={() => saveMutation.mutate({ url, title })} autoFocus>
+            <BookmarkPlus className="h-4 w-4 mr-2" />
+            Save Link
+          </Button>
+        </div>
+      </div>
+    )
+  }
+
+  const selected = selectedTagIds ?? []
+  const linkTagIds = link ? getLinkTagIds(link) : []
+  const tagsChanged =
+    !!selectedTagIds &&
+    (selected.length !== linkTagIds.length || selected.some((id) => !linkTagIds.includes(id)))
+
+  return (
+    <div className="space-y-5">
+      <div className="flex items-start gap-3">
+        <div className="rounded-full bg-green-100 p-1.5 text-green-700">
+          <Check className="h-4 w-4" />
+        </div>
+        <div className="min-w-0">
+          <p className="font-semibold">{savedLink.created ? 'Saved to TagLink' : 'Already saved'}</p>
+          <p className="text-sm text-muted-foreground truncate">{link?.title || title || url}</p>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-sm font-medium flex items-center gap-1">
+          <Sparkles className="h-4 w-4" />
+          Tags
+          <span className="text-muted-foreground font-normal">
+            ({selected.length}/{MAX_TAGS})
+          </span>
+        </p>
+
+        {isProcessing ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Suggesting tags...
+          </div>
+        ) : tags.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No tags in this space yet.</p>
+        ) : (
+          <div className="flex flex-wrap gap-1.5 max-h-48 overflow-y-auto">
+            {/* Tags of the link (the suggestions) first */}
+            {[...tags]
+              .sort((a, b) => Number(linkTagIds.includes(b.id)) - Number(linkTagIds.includes(a.id)))
+              .map((tag) => {
+                const isSelected = selected.includes(tag.id)
+                return (
+                  <button
+                    key={tag.id}
+                    type="button"
+                    onClick={() => toggleTag(tag.id)}
+                    aria-pressed={isSelected}
+                    className={cn(
+                      badgeVariants({ variant: isSelected ? 'default' : 'outline' }),
+                      'cursor-pointer capitalize'
+                    )}
+                  >
+                    {tag.name}
+                    {isSelected && <X className="h-3 w-3 ml-1" />}
+                  </button>
+                )
+              })}
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-wrap justify-end gap-2">
+        <Button variant="outline" asChild>
+          <Link href={`/links/${savedLink.linkId}`} target="_blank">
+            <ExternalLink className="h-4 w-4 mr-2" />
+            Open
+          </Link>
+        </Button>
+        {tagsChanged ? (
+          <Button onClick={handleSaveTags} disabled={assignMutation.isPending}>
+            {assignMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save Tags
+          </Button>
+        ) : (
+          <Button onClick={handleDone}>Done</Button>
+        )}
+      </div>
+    </div>
+  )
+}
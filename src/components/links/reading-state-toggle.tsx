@@ -0,0 +1,95 @@
+'use client'
+
+import { Archive, BookOpen, BookOpenCheck, ChevronDown, Circle, type LucideIcon } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { useSetReadingState } from '@/hooks/queries/use-links'
+import { useActiveWorkspace } from '@/hooks/queries/use-workspaces'
+import { cn } from '@/lib/utils'
+import { canEditContent } from '@/lib/workspaces/scope'
+import type { ReadingState } from '@/types'
+
+export const READING_STATE_OPTIONS: {
+  value: ReadingState
+  label: string
+  icon: LucideIcon
+  className: string
+}[] = [
+  { value: 'unread', label: 'Nieprzeczytane', icon: Circle, className: 'text-gray-400' },
+  { value: 'reading', label: 'W trakcie', icon: BookOpen, className: 'text-blue-600' },
+  { value: 'read', label: 'Przeczytane', icon: BookOpenCheck, className: 'text-green-600' },
+  { value: 'archived', label: 'Zarchiwizowane', icon: Archive, className: 'text-amber-600' },
+]
+
+interface ReadingStateToggleProps {
+  linkId: string
+  state: ReadingState
+}
+
+/**
+ * Quick reading state switch for link cards
+ * Clicking the icon toggles read/unread, the menu offers every state.
+ * In a workspace the state is shared by all members, so viewers only see it.
+ */
+export function ReadingStateToggle({ linkId, state }: ReadingStateToggleProps) {
+  const setReadingStateMutation = useSetReadingState()
+  const { data: active } = useActiveWorkspace()
+  const readOnly = active ? !canEditContent(active.role) : false
+  const disabled = readOnly || setReadingStateMutation.isPending
+  const current = READING_STATE_OPTIONS.find((option) => option.value === state) ?? READING_STATE_OPTIONS[0]
+  const Icon = current.icon
+
+  const handleChange = (value: string) => {
+    if (value === state) return
+    setReadingStateMutation.mutate({ linkId, state: value as ReadingState })
+  }
+
+  return (
+    <div className="flex items-center">
+      <Button
+        variant="ghost"
+        size="sm"
+        className="pr-1"
+        onClick={() => handleChange(state === 'read' ? 'unread' : 'read')}
+        disabled={disabled}
+        aria-label={state === 'read' ? 'Oznacz jako nieprzeczytane' : 'Oznacz jako przeczytane'}
+        title={readOnly ? `${current.label} (wspólny stan zespołu)` : current.label}
+      >
+        <Icon className={cn('h-4 w-4', current.className)} />
+      </Button>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="px-1"
+            disabled={disabled}
+            aria-label="Zmień stan czytania"
+          >
+            <ChevronDown className="h-3 w-3 text-muted-foreground" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuLabel>Stan czytania</DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          <DropdownMenuRadioGroup value={state} onValueChange={handleChange}>
+            {READING_STATE_OPTIONS.map((option) => (
+              <DropdownMenuRadioItem key={option.value} value={option.value} className="cursor-pointer">
+                <option.icon className={cn('h-4 w-4 mr-2', option.className)} />
+                {option.label}
+              </DropdownMenuRadioItem>
+            ))}
+          </DropdownMenuRadioGroup>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  )
+}
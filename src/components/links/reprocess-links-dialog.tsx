@@ -0,0 +1,100 @@
+'use client'
+
+import { useState, type ReactNode } from 'react'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { useReprocessLinks } from '@/hooks/queries/use-links'
+
+interface ReprocessLinksDialogProps {
+  linkIds?: string[] // Omit to re-process all failed links
+  trigger: ReactNode
+  onSuccess?: () => void
+}
+
+export function ReprocessLinksDialog({ linkIds, trigger, onSuccess }: ReprocessLinksDialogProps) {
+  const [open, setOpen] = useState(false)
+  const [keepEdits, setKeepEdits] = useState(true)
+  const reprocessMutation = useReprocessLinks()
+
+  const description = !linkIds
+    ? 'All failed links will be scraped and analyzed by AI again.'
+    : linkIds.length === 1
+      ? 'This link will be scraped and analyzed by AI again.'
+      : `${linkIds.length} links will be scraped and analyzed by AI again.`
+
+  const handleReprocess = () => {
+    reprocessMutation.mutate(
+      { linkIds, keepEdits },
+      {
+        onSuccess: () => {
+          setOpen(false)
+          onSuccess?.()
+        },
+        onError: () => {
+          setOpen(false)
+        },
+      }
+    )
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Re-process {linkIds?.length === 1 ? 'Link' : 'Links'}</DialogTitle>
+          <DialogDescription>
+            {description} Title, description and tags are refreshed from the page content.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-start space-x-2 py-2">
+          <Checkbox
+            id="reprocess-keep-edits"
+            checked={keepEdits}
+            onCheckedChange={(checked) => setKeepEdits(checked as boolean)}
+            disabled={reprocessMutation.isPending}
+          />
+          <div className="grid gap-1">
+            <label
+              htmlFor="reprocess-keep-edits"
+              className="text-sm font-medium leading-none cursor-pointer"
+            >
+              Keep my manual edits
+            </label>
+            <p className="text-xs text-muted-foreground">
+              Titles, descriptions and tags you changed yourself will not be overwritten.
+            </p>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => setOpen(false)}
+            disabled={reprocessMutation.isPending}
+          >
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            onClick={handleReprocess}
+            disabled={reprocessMutation.isPending}
+          >
+            {reprocessMutation.isPending ? 'Queueing...' : 'Re-process'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,84 @@
+'use client'
+
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import type { RestoreConflictStrategy } from '@/types'
+
+interface RestoreConflictDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  linkTitle?: string
+  isPending: boolean
+  onResolve: (strategy: RestoreConflictStrategy) => void
+}
+
+/**
+ * Asks how to restore a trashed link whose URL has been saved again since
+ */
+export function RestoreConflictDialog({
+  open,
+  onOpenChange,
+  linkTitle,
+  isPending,
+  onResolve,
+}: RestoreConflictDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Link Already Saved</DialogTitle>
+          <DialogDescription>
+            You saved this URL again after deleting it. Choose how to restore it.
+            {linkTitle && (
+              <span className="block mt-2 font-medium text-foreground">{linkTitle}</span>
+            )}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-3 py-2 text-sm">
+          <div className="rounded-md border p-3">
+            <div className="font-medium">Merge</div>
+            <div className="text-muted-foreground">
+              Keep the newer link and add the tags, rating and description of the deleted one.
+            </div>
+          </div>
+          <div className="rounded-md border p-3">
+            <div className="font-medium">Replace</div>
+            <div className="text-muted-foreground">
+              Bring back the deleted link and move the newer one to the trash.
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={isPending}
+          >
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => onResolve('replace')}
+            disabled={isPending}
+          >
+            Replace
+          </Button>
+          <Button type="button" onClick={() => onResolve('merge')} disabled={isPending}>
+            Merge
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -11,29 +11,43 @@ import {
   DialogTitle,
   DialogTrigger,
 } from '@/components/ui/dialog'
+import { Checkbox } from '@/components/ui/checkbox'
 import { Label } from '@/components/ui/label'
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group'
 import { Loader2, Download } from 'lucide-react'
-import { exportUserData } from '@/app/actions/profile'
 import { useToast } from '@/hooks/use-toast'
 
+// Name the route gave the file, e.g. attachment; filename="taglink-export-123.csv"
+function getDownloadFilename(response: Response, fallback: string): string {
+  const disposition = response.headers.get('Content-Disposition') || ''
+  return disposition.match(/filename="([^"]+)"/)?.[1] || fallback
+}
+
 export function ExportDataDialog() {
   const [open, setOpen] = useState(false)
   const [format, setFormat] = useState<'json' | 'csv' | 'markdown'>('json')
+  const [includeDeleted, setIncludeDeleted] = useState(false)
   const [isPending, startTransition] = useTransition()
   const { toast } = useToast()
 
   const handleExport = () => {
     startTransition(async () => {
-      const result = await exportUserData(format)
+      // The route streams the file, so large libraries never have to fit in one response
+      const params = new URLSearchParams({ format, include_deleted: includeDeleted ? '1' : '0' })
+
+      try {
+        const response = await fetch(`/api/export?${params}`)
+        if (!response.ok) {
+          const body = await response.json().catch(() => null)
+          throw new Error(body?.error || 'Failed to export data')
+        }
 
-      if (result.success && result.data) {
         // Create a blob and download
-        const blob = new Blob([result.data.content], { type: result.data.mimeType })
+        const blob = await response.blob()
         const url = window.URL.createObjectURL(blob)
         const a = document.createElement('a')
         a.href = url
-        a.download = result.data.filename
+        a.download = getDownloadFilename(response, 'taglink-export')
         document.body.appendChild(a)
         a.click()
         document.body.removeChild(a)
@@ -44,10 +58,10 @@ export function ExportDataDialog() {
           description: `Your data has been exported as ${format.toUpperCase()}`,
         })
         setOpen(false)
-      } else {
+      } catch (error) {
         toast({
           title: 'Export Failed',
-          description: result.error || 'Failed to export data',
+          description: error instanceof Error ? error.message : 'Failed to export data',
           variant: 'destructive',
         })
       }
@@ -78,7 +92,7 @@ export function ExportDataDialog() {
                   JSON
                 </Label>
                 <p className="text-sm text-muted-foreground">
-                  Structured data format, ideal for importing to other applications
+                  Structured data format, can be imported back into TagLink or other applications
                 </p>
               </div>
             </div>
@@ -105,6 +119,23 @@ export function ExportDataDialog() {
               </div>
             </div>
           </RadioGroup>
+
+          <div className="flex items-start space-x-2 pt-4 border-t">
+            <Checkbox
+              id="export-include-deleted"
+              checked={includeDeleted}
+              onCheckedChange={(checked) => setIncludeDeleted(checked as boolean)}
+              disabled={isPending}
+            />
+            <div className="grid gap-1">
+              <label htmlFor="export-include-deleted" className="font-medium leading-none cursor-pointer">
+                Include links in the trash
+              </label>
+              <p className="text-xs text-muted-foreground">
+                Deleted links get their deletion date in the export.
+              </p>
+            </div>
+          </div>
         </div>
         <DialogFooter>
           <Button
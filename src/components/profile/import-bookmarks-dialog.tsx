@@ -0,0 +1,266 @@
+'use client'
+
+import { useState } from 'react'
+import { useQueryClient } from '@tanstack/react-query'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Loader2, Upload } from 'lucide-react'
+import { previewBookmarkImport, importBookmarkBatch } from '@/app/actions/import'
+import { parseNetscapeBookmarks, getBookmarkTags } from '@/lib/links/netscape-bookmarks'
+import { queryKeys } from '@/lib/react-query/query-client'
+import { useToast } from '@/hooks/use-toast'
+import type { BookmarkImportEntry, BookmarkImportPreview } from '@/types'
+
+// Bookmarks sent to the server per request
+const BATCH_SIZE = 100
+
+export function ImportBookmarksDialog() {
+  const [open, setOpen] = useState(false)
+  const [entries, setEntries] = useState<BookmarkImportEntry[]>([])
+  const [preview, setPreview] = useState<BookmarkImportPreview | null>(null)
+  const [processWithAi, setProcessWithAi] = useState(false)
+  const [isPreparing, setIsPreparing] = useState(false)
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null)
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  const isImporting = progress !== null
+
+  const reset = () => {
+    setEntries([])
+    setPreview(null)
+    setProcessWithAi(false)
+    setProgress(null)
+  }
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (isImporting) return // Keep the dialog open until all batches are sent
+    if (!nextOpen) reset()
+    setOpen(nextOpen)
+  }
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+
+    setIsPreparing(true)
+    setPreview(null)
+
+    try {
+      const bookmarks = parseNetscapeBookmarks(await file.text())
+      const parsedEntries: BookmarkImportEntry[] = bookmarks.map((bookmark) => ({
+        url: bookmark.url,
+        title: bookmark.title,
+        addDate: bookmark.addDate,
+        tags: getBookmarkTags(bookmark.folders),
+      }))
+
+      if (parsedEntries.length === 0) {
+        toast({
+          title: 'No Bookmarks Found',
+          description: 'The file does not look like a browser bookmark export',
+          variant: 'destructive',
+        })
+        return
+      }
+
+      const result = await previewBookmarkImport({
+        urls: parsedEntries.map((entry) => entry.url),
+        tags: Array.from(new Set(parsedEntries.flatMap((entry) => entry.tags))),
+      })
+
+      if (result.success && result.data) {
+        setEntries(parsedEntries)
+        setPreview(result.data)
+      } else {
+        toast({
+          title: 'Import Failed',
+          description: result.error || 'Failed to read bookmarks',
+          variant: 'destructive',
+        })
+      }
+    } finally {
+      setIsPreparing(false)
+    }
+  }
+
+  const handleImport = async () => {
+    const totals = { created: 0, duplicates: 0, invalid: 0, overLimit: 0, withoutAi: 0 }
+    let failed = false
+    setProgress({ done: 0, total: entries.length })
+
+    for (let i = 0; i < entries.length; i += BATCH_SIZE) {
+      const batch = entries.slice(i, i + BATCH_SIZE)
+      const result = await importBookmarkBatch(batch, { processWithAi })
+
+      if (!result.success || !result.data) {
+        toast({
+          title: 'Import Stopped',
+          description: `${result.error || 'Failed to import bookmarks'}. ${totals.created} links were imported before the error.`,
+          variant: 'destructive',
+        })
+        failed = true
+        break
+      }
+
+      totals.created += result.data.created
+      totals.duplicates += result.data.duplicates
+      totals.invalid += result.data.invalid
+      totals.overLimit += result.data.overLimit
+      totals.withoutAi += result.data.withoutAi
+      setProgress({ done: Math.min(i + BATCH_SIZE, entries.length), total: entries.length })
+    }
+
+    queryClient.invalidateQueries({ queryKey: queryKeys.links.all })
+    queryClient.invalidateQueries({ queryKey: queryKeys.links.statistics })
+    queryClient.invalidateQueries({ queryKey: queryKeys.tags.all })
+    queryClient.invalidateQueries({ queryKey: queryKeys.user.stats })
+
+    if (!failed) {
+      let description = `${totals.created} links imported, ${totals.duplicates} duplicates and ${totals.invalid} invalid skipped`
+      if (totals.overLimit > 0) {
+        description += `. ${totals.overLimit} were left out because of the daily import limit`
+      }
+      if (totals.withoutAi > 0) {
+        description += `. ${totals.withoutAi} were saved without AI processing because of the hourly limit`
+      }
+      toast({
+        title: 'Import Finished',
+        description,
+      })
+    }
+
+    setProgress(null)
+    reset()
+    setOpen(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Upload className="h-4 w-4 mr-2" />
+          Import Bookmarks
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Import Browser Bookmarks</DialogTitle>
+          <DialogDescription>
+            Upload the bookmarks.html file exported from Chrome, Firefox, Safari or Edge. Folders
+            become tags and the original bookmark dates are kept.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-4">
+          <div className="grid gap-2">
+            <Label htmlFor="bookmarks-file">Bookmark file</Label>
+            <Input
+              id="bookmarks-file"
+              type="file"
+              accept=".html,.htm,text/html"
+              onChange={handleFileChange}
+              disabled={isPreparing || isImporting}
+            />
+          </div>
+
+          {isPreparing && (
+            <p className="text-sm text-muted-foreground flex items-center gap-2">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Reading bookmarks...
+            </p>
+          )}
+
+          {preview && (
+            <div className="rounded-lg border bg-muted/50 p-3 space-y-3 text-sm" data-testid="bookmark-import-preview">
+              <div className="grid grid-cols-2 gap-2">
+                <span>Bookmarks in file</span>
+                <span className="font-medium text-right">{preview.totalBookmarks}</span>
+                <span>New links</span>
+                <span className="font-medium text-right">{preview.newLinks}</span>
+                <span>Already saved / repeated</span>
+                <span className="font-medium text-right">{preview.duplicates}</span>
+                <span>Invalid URLs</span>
+                <span className="font-medium text-right">{preview.invalid}</span>
+                <span>New tags</span>
+                <span className="font-medium text-right">{preview.tagsToCreate.length}</span>
+                <span>Existing tags reused</span>
+                <span className="font-medium text-right">{preview.existingTags}</span>
+              </div>
+
+              {preview.tagsToCreate.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  {preview.tagsToCreate.slice(0, 15).map((tag) => (
+                    <Badge key={tag} variant="secondary" className="text-xs">
+                      {tag}
+                    </Badge>
+                  ))}
+                  {preview.tagsToCreate.length > 15 && (
+                    <Badge variant="secondary" className="text-xs">
+                      +{preview.tagsToCreate.length - 15}
+                    </Badge>
+                  )}
+                </div>
+              )}
+
+              <div className="flex items-start space-x-2 pt-2 border-t">
+                <Checkbox
+                  id="bookmarks-process-ai"
+                  checked={processWithAi}
+                  onCheckedChange={(checked) => setProcessWithAi(checked as boolean)}
+                  disabled={isImporting}
+                />
+                <div className="grid gap-1">
+                  <label htmlFor="bookmarks-process-ai" className="font-medium leading-none cursor-pointer">
+                    Generate AI descriptions and tags
+                  </label>
+                  <p className="text-xs text-muted-foreground">
+                    Links are processed in the background. Only as many links as your hourly limit
+                    allows are processed, the rest is saved without AI descriptions.
+                  </p>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {progress && (
+            <p className="text-sm text-muted-foreground flex items-center gap-2">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Importing {progress.done} / {progress.total}...
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => handleOpenChange(false)}
+            disabled={isImporting}
+          >
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            onClick={handleImport}
+            disabled={!preview || preview.newLinks === 0 || isImporting}
+          >
+            {isImporting ? 'Importing...' : `Import ${preview?.newLinks ?? 0} Links`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,203 @@
+'use client'
+
+import { useState } from 'react'
+import { useQueryClient } from '@tanstack/react-query'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group'
+import { Loader2, FileUp } from 'lucide-react'
+import { importUserData } from '@/app/actions/profile'
+import { queryKeys } from '@/lib/react-query/query-client'
+import { useToast } from '@/hooks/use-toast'
+import type { ImportConflictPolicy, ImportUserDataResult } from '@/types'
+
+// Links sent to the server per request
+const CHUNK_SIZE = 200
+
+const POLICY_OPTIONS: Array<{ value: ImportConflictPolicy; label: string; description: string }> = [
+  {
+    value: 'skip',
+    label: 'Skip',
+    description: 'Keep links you already have exactly as they are',
+  },
+  {
+    value: 'overwrite',
+    label: 'Overwrite',
+    description: 'Replace title, description, notes, rating and tags with the imported ones',
+  },
+  {
+    value: 'merge',
+    label: 'Merge tags',
+    description: 'Keep existing links and add the imported tags to them',
+  },
+]
+
+export function ImportDataDialog() {
+  const [open, setOpen] = useState(false)
+  const [links, setLinks] = useState<unknown[] | null>(null)
+  const [conflictPolicy, setConflictPolicy] = useState<ImportConflictPolicy>('skip')
+  const [isImporting, setIsImporting] = useState(false)
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (isImporting) return
+    if (!nextOpen) {
+      setLinks(null)
+      setConflictPolicy('skip')
+    }
+    setOpen(nextOpen)
+  }
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    setLinks(null)
+    if (!file) return
+
+    try {
+      const parsed = JSON.parse(await file.text())
+      if (!Array.isArray(parsed)) {
+        throw new Error('Not an array')
+      }
+      setLinks(parsed)
+    } catch {
+      toast({
+        title: 'Invalid File',
+        description: 'Choose a JSON file exported from TagLink',
+        variant: 'destructive',
+      })
+    }
+  }
+
+  const handleImport = async () => {
+    if (!links) return
+
+    setIsImporting(true)
+    const totals: ImportUserDataResult = { created: 0, updated: 0, skipped: 0, invalid: 0 }
+    let error: string | null = null
+
+    for (let i = 0; i < links.length; i += CHUNK_SIZE) {
+      const result = await importUserData(JSON.stringify(links.slice(i, i + CHUNK_SIZE)), conflictPolicy)
+
+      if (!result.success || !result.data) {
+        error = result.error || 'Failed to import data'
+        break
+      }
+
+      totals.created += result.data.created
+      totals.updated += result.data.updated
+      totals.skipped += result.data.skipped
+      totals.invalid += result.data.invalid
+    }
+
+    queryClient.invalidateQueries({ queryKey: queryKeys.links.all })
+    queryClient.invalidateQueries({ queryKey: queryKeys.links.statistics })
+    queryClient.invalidateQueries({ queryKey: queryKeys.tags.all })
+    queryClient.invalidateQueries({ queryKey: queryKeys.user.stats })
+
+    const summary = `${totals.created} created, ${totals.updated} updated, ${totals.skipped} skipped, ${totals.invalid} invalid`
+    if (error) {
+      toast({
+        title: 'Import Stopped',
+        description: `${error}. So far: ${summary}`,
+        variant: 'destructive',
+      })
+    } else {
+      toast({
+        title: 'Import Successful',
+        description: summary,
+      })
+    }
+
+    setIsImporting(false)
+    setLinks(null)
+    setOpen(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <FileUp className="h-4 w-4 mr-2" />
+          Import Data
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Import Your Data</DialogTitle>
+          <DialogDescription>
+            Restore links and tags from a TagLink JSON export. Links keep their original
+            description, rating and date and are not scraped again.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-6 py-4">
+          <div className="grid gap-2">
+            <Label htmlFor="import-data-file">JSON export</Label>
+            <Input
+              id="import-data-file"
+              type="file"
+              accept=".json,application/json"
+              onChange={handleFileChange}
+              disabled={isImporting}
+            />
+            {links && (
+              <p className="text-sm text-muted-foreground">
+                {links.length} {links.length === 1 ? 'link' : 'links'} found in the file
+              </p>
+            )}
+          </div>
+
+          <div className="grid gap-3">
+            <Label>When a link is already saved</Label>
+            <RadioGroup
+              value={conflictPolicy}
+              onValueChange={(value: string) => setConflictPolicy(value as ImportConflictPolicy)}
+              disabled={isImporting}
+            >
+              {POLICY_OPTIONS.map((option) => (
+                <div key={option.value} className="flex items-start space-x-3 space-y-0">
+                  <RadioGroupItem value={option.value} id={`conflict-${option.value}`} />
+                  <div className="space-y-1 leading-none">
+                    <Label htmlFor={`conflict-${option.value}`} className="font-medium cursor-pointer">
+                      {option.label}
+                    </Label>
+                    <p className="text-sm text-muted-foreground">{option.description}</p>
+                  </div>
+                </div>
+              ))}
+            </RadioGroup>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => handleOpenChange(false)}
+            disabled={isImporting}
+          >
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={!links || links.length === 0 || isImporting}>
+            {isImporting ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Importing...
+              </>
+            ) : (
+              'Import'
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -11,12 +11,18 @@ import {
   DropdownMenuSeparator,
   DropdownMenuLabel,
 } from '@/components/ui/dropdown-menu'
-import { Filter, X, Check } from 'lucide-react'
+import { Filter, X, Check, BookOpen, AlertTriangle } from 'lucide-react'
 import { getTagsForFilter } from '@/app/actions/search'
+import { READING_STATE_OPTIONS } from '@/components/links/reading-state-toggle'
+import type { ReadingState } from '@/types'
 
 interface SearchFiltersProps {
   selectedTagIds: string[]
   onTagsChange: (tagIds: string[]) => void
+  selectedReadingStates: ReadingState[]
+  onReadingStatesChange: (states: ReadingState[]) => void
+  brokenOnly: boolean
+  onBrokenOnlyChange: (brokenOnly: boolean) => void
   onClearFilters: () => void
 }
 
@@ -29,6 +35,10 @@ interface Tag {
 export function SearchFilters({
   selectedTagIds,
   onTagsChange,
+  selectedReadingStates,
+  onReadingStatesChange,
+  brokenOnly,
+  onBrokenOnlyChange,
   onClearFilters,
 }: SearchFiltersProps) {
   const [tags, setTags] = useState<Tag[]>([])
@@ -55,8 +65,20 @@ export function SearchFilters({
     }
   }
 
+  const toggleReadingState = (state: ReadingState) => {
+    if (selectedReadingStates.includes(state)) {
+      onReadingStatesChange(selectedReadingStates.filter((s) => s !== state))
+    } else {
+      onReadingStatesChange([...selectedReadingStates, state])
+    }
+  }
+
   const selectedTags = tags.filter((tag) => selectedTagIds.includes(tag.id))
-  const hasActiveFilters = selectedTagIds.length > 0
+  const selectedStateOptions = READING_STATE_OPTIONS.filter((option) =>
+    selectedReadingStates.includes(option.value)
+  )
+  const hasActiveFilters =
+    selectedTagIds.length > 0 || selectedReadingStates.length > 0 || brokenOnly
 
   return (
     <div className="flex items-center gap-2 flex-wrap">
@@ -66,11 +88,11 @@ export function SearchFilters({
           <Button
             variant="outline"
             size="sm"
-            className={hasActiveFilters ? 'border-blue-500 bg-blue-50' : ''}
+            className={selectedTagIds.length > 0 ? 'border-blue-500 bg-blue-50' : ''}
           >
             <Filter className="h-4 w-4 mr-2" />
             Tagi
-            {hasActiveFilters && (
+            {selectedTagIds.length > 0 && (
               <Badge variant="secondary" className="ml-2 px-1.5 py-0.5 text-xs">
                 {selectedTagIds.length}
               </Badge>
@@ -102,6 +124,73 @@ export function SearchFilters({
         </DropdownMenuContent>
       </DropdownMenu>
 
+      {/* Reading State Filter Dropdown */}
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="outline"
+            size="sm"
+            className={selectedReadingStates.length > 0 ? 'border-blue-500 bg-blue-50' : ''}
+          >
+            <BookOpen className="h-4 w-4 mr-2" />
+            Stan
+            {selectedReadingStates.length > 0 && (
+              <Badge variant="secondary" className="ml-2 px-1.5 py-0.5 text-xs">
+                {selectedReadingStates.length}
+              </Badge>
+            )}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-56">
+          <DropdownMenuLabel>Filtruj po stanie czytania</DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          {READING_STATE_OPTIONS.map((option) => (
+            <DropdownMenuCheckboxItem
+              key={option.value}
+              checked={selectedReadingStates.includes(option.value)}
+              onCheckedChange={() => toggleReadingState(option.value)}
+              className="cursor-pointer"
+            >
+              {option.label}
+            </DropdownMenuCheckboxItem>
+          ))}
+          <DropdownMenuSeparator />
+          <p className="px-2 py-1.5 text-xs text-gray-500">
+            Bez filtra zarchiwizowane linki są ukryte
+          </p>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      {/* Broken Links Toggle */}
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => onBrokenOnlyChange(!brokenOnly)}
+        className={brokenOnly ? 'border-red-500 bg-red-50 text-red-700' : ''}
+        aria-pressed={brokenOnly}
+      >
+        <AlertTriangle className="h-4 w-4 mr-2" />
+        Niedziałające
+      </Button>
+
+      {/* Active Reading State Badges */}
+      {selectedStateOptions.map((option) => (
+        <Badge
+          key={option.value}
+          variant="secondary"
+          className="gap-1 pr-1 cursor-pointer hover:bg-gray-200"
+        >
+          <span>{option.label}</span>
+          <button
+            onClick={() => toggleReadingState(option.value)}
+            className="rounded-full hover:bg-gray-300 p-0.5"
+            aria-label={`Remove ${option.label} filter`}
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </Badge>
+      ))}
+
       {/* Active Tag Badges */}
       {selectedTags.map((tag) => (
         <Badge
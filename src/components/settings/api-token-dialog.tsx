@@ -0,0 +1,200 @@
+'use client'
+
+import { useEffect, useState, type ReactNode } from 'react'
+import { Check, Copy, Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { API_SCOPES, API_TOKEN_EXPIRY_OPTIONS, type ApiScope } from '@/lib/api/tokens'
+import { useCreateApiToken } from '@/hooks/queries/use-api-tokens'
+
+const SCOPE_LABELS: Record<ApiScope, string> = {
+  'links:read': 'Read links and search',
+  'links:write': 'Add, change and delete links',
+  'tags:read': 'Read tags',
+  'tags:write': 'Create, rename, merge and delete tags',
+  'feeds:read': 'Subscribe to RSS/Atom feeds (the token is part of the feed URL)',
+}
+
+const DEFAULT_SCOPES: ApiScope[] = ['links:read', 'tags:read']
+
+const FEED_PATH = '/api/v1/feeds/rss'
+
+interface ApiTokenDialogProps {
+  trigger: ReactNode
+}
+
+/**
+ * Create a personal access token for the active space and show it once
+ */
+export function ApiTokenDialog({ trigger }: ApiTokenDialogProps) {
+  const createMutation = useCreateApiToken()
+
+  const [open, setOpen] = useState(false)
+  const [name, setName] = useState('')
+  const [scopes, setScopes] = useState<ApiScope[]>(DEFAULT_SCOPES)
+  const [expiry, setExpiry] = useState('90')
+  const [token, setToken] = useState<string | null>(null)
+  const [copied, setCopied] = useState(false)
+
+  // Start from a clean form every time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setName('')
+      setScopes(DEFAULT_SCOPES)
+      setExpiry('90')
+      setToken(null)
+      setCopied(false)
+    }
+  }, [open])
+
+  const toggleScope = (scope: ApiScope, checked: boolean) => {
+    setScopes((current) =>
+      checked ? [...current, scope] : current.filter((item) => item !== scope)
+    )
+  }
+
+  const handleCreate = () => {
+    createMutation.mutate(
+      {
+        name,
+        scopes,
+        expiresInDays: expiry === 'never' ? null : Number(expiry),
+      },
+      { onSuccess: (result) => setToken(result.token) }
+    )
+  }
+
+  const handleCopy = async () => {
+    if (!token) return
+    await navigator.clipboard.writeText(token)
+    setCopied(true)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>New API Token</DialogTitle>
+          <DialogDescription>
+            The token works in the space you are in now. Send it as{' '}
+            <code>Authorization: Bearer &lt;token&gt;</code> to the /api/v1 endpoints.
+          </DialogDescription>
+        </DialogHeader>
+
+        {token ? (
+          <div className="space-y-2">
+            <Label htmlFor="api-token">Your token</Label>
+            <div className="flex gap-2">
+              <Input
+                id="api-token"
+                value={token}
+                readOnly
+                className="font-mono"
+                onFocus={(e) => e.target.select()}
+              />
+              <Button variant="outline" onClick={handleCopy} aria-label="Copy token">
+                {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+              </Button>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Copy it now - it is not shown again.
+            </p>
+            {scopes.includes('feeds:read') && (
+              <div className="space-y-2 pt-2">
+                <Label htmlFor="api-token-feed">RSS feed of the whole library</Label>
+                <Input
+                  id="api-token-feed"
+                  value={`${window.location.origin}${FEED_PATH}?token=${token}`}
+                  readOnly
+                  className="font-mono text-xs"
+                  onFocus={(e) => e.target.select()}
+                />
+                <p className="text-sm text-muted-foreground">
+                  Use <code>/atom</code> instead of <code>/rss</code> for Atom. Narrow the feed
+                  with <code>tags</code>, <code>q</code> and <code>sort</code> like in the search
+                  API.
+                </p>
+              </div>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="api-token-name">Name</Label>
+              <Input
+                id="api-token-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Raycast extension"
+                maxLength={100}
+                disabled={createMutation.isPending}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Scopes</Label>
+              {API_SCOPES.map((scope) => (
+                <div key={scope} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`api-scope-${scope}`}
+                    checked={scopes.includes(scope)}
+                    onCheckedChange={(checked) => toggleScope(scope, checked as boolean)}
+                    disabled={createMutation.isPending}
+                  />
+                  <Label htmlFor={`api-scope-${scope}`} className="font-normal">
+                    <code className="text-xs">{scope}</code> - {SCOPE_LABELS[scope]}
+                  </Label>
+                </div>
+              ))}
+            </div>
+            <div className="space-y-2">
+              <Label>Expires</Label>
+              <Select value={expiry} onValueChange={setExpiry} disabled={createMutation.isPending}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {API_TOKEN_EXPIRY_OPTIONS.map((days) => (
+                    <SelectItem key={days} value={String(days)}>
+                      After {days} days
+                    </SelectItem>
+                  ))}
+                  <SelectItem value="never">Never</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setOpen(false)} disabled={createMutation.isPending}>
+                Cancel
+              </Button>
+              <Button
+                onClick={handleCreate}
+                disabled={createMutation.isPending || !name.trim() || scopes.length === 0}
+              >
+                {createMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Create Token
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,73 @@
+'use client'
+
+import { Ban, Loader2 } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { useApiTokens, useRevokeApiToken } from '@/hooks/queries/use-api-tokens'
+import type { ApiTokenInfo } from '@/types'
+
+function getTokenStatus(token: ApiTokenInfo): string {
+  if (!token.expires_at) return 'Never expires'
+  const expiresAt = new Date(token.expires_at)
+  return expiresAt.getTime() <= Date.now()
+    ? 'Expired'
+    : `Expires ${expiresAt.toLocaleDateString()}`
+}
+
+/**
+ * The user's personal access tokens with their scopes, last use and a revoke action (settings page)
+ */
+export function ApiTokensList() {
+  const { data: tokens = [], isLoading } = useApiTokens()
+  const revokeMutation = useRevokeApiToken()
+
+  if (isLoading) {
+    return <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+  }
+
+  if (tokens.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        You have no API tokens yet. Create one to use TagLink from scripts and other apps.
+      </p>
+    )
+  }
+
+  return (
+    <ul className="divide-y">
+      {tokens.map((token) => (
+        <li key={token.id} className="py-3 flex items-center gap-3">
+          <div className="flex-1 min-w-0 space-y-1">
+            <p className="font-medium truncate">
+              {token.name}{' '}
+              <code className="text-xs text-muted-foreground">{token.token_prefix}…</code>
+            </p>
+            <div className="flex flex-wrap items-center gap-1">
+              {token.scopes.map((scope) => (
+                <Badge key={scope} variant="secondary">
+                  {scope}
+                </Badge>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {token.workspace_name || 'Personal space'} · {getTokenStatus(token)} ·{' '}
+              {token.last_used_at
+                ? `Last used ${new Date(token.last_used_at).toLocaleString()}`
+                : 'Never used'}
+            </p>
+          </div>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-red-600 hover:text-red-700"
+            onClick={() => revokeMutation.mutate(token.id)}
+            disabled={revokeMutation.isPending}
+          >
+            <Ban className="h-4 w-4 mr-1" />
+            Revoke
+          </Button>
+        </li>
+      ))}
+    </ul>
+  )
+}
@@ -0,0 +1,35 @@
+'use client'
+
+import { useEffect, useRef } from 'react'
+import { BookmarkPlus } from 'lucide-react'
+import { getBookmarkletCode } from '@/lib/links/quick-save'
+
+/**
+ * Draggable "Save to TagLink" bookmarklet for the bookmarks bar
+ */
+export function BookmarkletLink() {
+  const linkRef = useRef<HTMLAnchorElement>(null)
+
+  // Set outside of React, which warns about javascript: URLs in href
+  useEffect(() => {
+    linkRef.current?.setAttribute('href', getBookmarkletCode(window.location.origin))
+  }, [])
+
+  return (
+    <div className="space-y-3">
+      <a
+        ref={linkRef}
+        onClick={(e) => e.preventDefault()}
+        className="inline-flex items-center gap-2 rounded-md bg-gradient-main px-4 py-2 text-sm font-medium text-white cursor-grab"
+      >
+        <BookmarkPlus className="h-4 w-4" />
+        Save to TagLink
+      </a>
+      <p className="text-sm text-muted-foreground">
+        Drag the button to your bookmarks bar. Click it on any page to save that page and review
+        the suggested tags. On mobile, install TagLink from the browser menu and use
+        &quot;Share&quot; &rarr; TagLink.
+      </p>
+    </div>
+  )
+}
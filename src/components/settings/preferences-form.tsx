@@ -8,7 +8,13 @@ import { Switch } from '@/components/ui/switch'
 import { Loader2, Grid3x3, List, Save } from 'lucide-react'
 import { updateUserPreferences } from '@/app/actions/preferences'
 import { useToast } from '@/hooks/use-toast'
-import type { UserPreferences, DefaultView, LinksPerPage, DefaultSort } from '@/types'
+import type {
+  UserPreferences,
+  DefaultView,
+  LinksPerPage,
+  DefaultSort,
+  TrashRetentionDays,
+} from '@/types'
 
 interface PreferencesFormProps {
   preferences: UserPreferences
@@ -20,6 +26,13 @@ export function PreferencesForm({ preferences, onSuccess }: PreferencesFormProps
   const [linksPerPage, setLinksPerPage] = useState<LinksPerPage>(preferences.links_per_page)
   const [defaultSort, setDefaultSort] = useState<DefaultSort>(preferences.default_sort)
   const [aiEnabled, setAiEnabled] = useState(preferences.ai_processing_enabled)
+  const [resolveCanonical, setResolveCanonical] = useState(
+    preferences.resolve_canonical_urls ?? false
+  )
+  const [resurfacing, setResurfacing] = useState(preferences.resurfacing_enabled ?? true)
+  const [trashRetention, setTrashRetention] = useState<TrashRetentionDays>(
+    preferences.trash_retention_days ?? 30
+  )
   const [isPending, startTransition] = useTransition()
   const { toast } = useToast()
 
@@ -27,7 +40,10 @@ export function PreferencesForm({ preferences, onSuccess }: PreferencesFormProps
     defaultView !== preferences.default_view ||
     linksPerPage !== preferences.links_per_page ||
     defaultSort !== preferences.default_sort ||
-    aiEnabled !== preferences.ai_processing_enabled
+    aiEnabled !== preferences.ai_processing_enabled ||
+    resolveCanonical !== (preferences.resolve_canonical_urls ?? false) ||
+    resurfacing !== (preferences.resurfacing_enabled ?? true) ||
+    trashRetention !== (preferences.trash_retention_days ?? 30)
 
   const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault()
@@ -37,6 +53,9 @@ export function PreferencesForm({ preferences, onSuccess }: PreferencesFormProps
     formData.append('links_per_page', linksPerPage.toString())
     formData.append('default_sort', defaultSort)
     formData.append('ai_processing_enabled', aiEnabled.toString())
+    formData.append('resolve_canonical_urls', resolveCanonical.toString())
+    formData.append('resurfacing_enabled', resurfacing.toString())
+    formData.append('trash_retention_days', trashRetention.toString())
 
     startTransition(async () => {
       const result = await updateUserPreferences(formData)
@@ -211,6 +230,83 @@ export function PreferencesForm({ preferences, onSuccess }: PreferencesFormProps
         </div>
       </div>
 
+      {/* Canonical URLs Toggle */}
+      <div className="space-y-4">
+        <div>
+          <Label className="text-base font-semibold">Canonical URLs</Label>
+          <p className="text-sm text-muted-foreground mt-1">
+            Many pages declare their preferred address (rel=canonical), e.g. AMP or mobile versions
+          </p>
+        </div>
+        <div className="flex items-center justify-between rounded-md border p-4">
+          <div className="space-y-0.5">
+            <div className="font-medium">Use the page&apos;s canonical URL</div>
+            <div className="text-sm text-muted-foreground">
+              Saved links are switched to the canonical address when they are processed
+            </div>
+          </div>
+          <Switch
+            checked={resolveCanonical}
+            onCheckedChange={setResolveCanonical}
+          />
+        </div>
+      </div>
+
+      {/* Resurfacing Toggle */}
+      <div className="space-y-4">
+        <div>
+          <Label className="text-base font-semibold">Resurfacing</Label>
+          <p className="text-sm text-muted-foreground mt-1">
+            Old links are easy to forget once newer ones pile up on top of them
+          </p>
+        </div>
+        <div className="flex items-center justify-between rounded-md border p-4">
+          <div className="space-y-0.5">
+            <div className="font-medium">Bring back old favorites</div>
+            <div className="text-sm text-muted-foreground">
+              A few unread links rated 4 stars or more, saved over a month ago, show up in the
+              Today section every day
+            </div>
+          </div>
+          <Switch
+            checked={resurfacing}
+            onCheckedChange={setResurfacing}
+          />
+        </div>
+      </div>
+
+      {/* Trash Retention */}
+      <div className="space-y-4">
+        <div>
+          <Label className="text-base font-semibold">Trash Retention</Label>
+          <p className="text-sm text-muted-foreground mt-1">
+            Deleted links stay in the trash for this many days before they are removed permanently
+          </p>
+        </div>
+        <RadioGroup
+          value={trashRetention.toString()}
+          onValueChange={(value: string) => setTrashRetention(Number(value) as TrashRetentionDays)}
+          className="grid grid-cols-5 gap-2"
+        >
+          {[7, 14, 30, 60, 90].map((days) => (
+            <div key={days}>
+              <RadioGroupItem
+                value={days.toString()}
+                id={`trash-${days}`}
+                className="peer sr-only"
+              />
+              <Label
+                htmlFor={`trash-${days}`}
+                className="flex flex-col items-center justify-center rounded-md border-2 border-muted bg-popover p-3 hover:bg-accent hover:text-accent-foreground peer-data-[state=checked]:border-primary [&:has([data-state=checked])]:border-primary cursor-pointer"
+              >
+                <div className="font-semibold text-lg">{days}</div>
+                <div className="text-xs text-muted-foreground mt-1">days</div>
+              </Label>
+            </div>
+          ))}
+        </RadioGroup>
+      </div>
+
       {/* Save Button */}
       <div className="flex justify-end">
         <Button type="submit" disabled={isPending || !hasChanges}>
@@ -0,0 +1,73 @@
+'use client'
+
+import { Loader2, RotateCw } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { useRedeliverWebhook, useWebhookDeliveries } from '@/hooks/queries/use-webhooks'
+import type { WebhookDelivery } from '@/types'
+
+const STATUS_VARIANTS: Record<string, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  succeeded: 'secondary',
+  failed: 'destructive',
+  pending: 'outline',
+  sending: 'outline',
+}
+
+function getDeliveryDetails(delivery: WebhookDelivery): string {
+  const attempts = `${delivery.attempts} ${delivery.attempts === 1 ? 'attempt' : 'attempts'}`
+  if (delivery.status === 'pending' && delivery.attempts > 0 && delivery.next_attempt_at) {
+    return `${attempts} · next retry ${new Date(delivery.next_attempt_at).toLocaleString()}`
+  }
+  if (delivery.last_error) {
+    return `${attempts} · ${delivery.last_error}`
+  }
+  return delivery.response_status ? `${attempts} · HTTP ${delivery.response_status}` : attempts
+}
+
+interface WebhookDeliveryLogProps {
+  endpointId: string
+}
+
+/**
+ * Latest deliveries of an endpoint with their result and a redeliver action
+ */
+export function WebhookDeliveryLog({ endpointId }: WebhookDeliveryLogProps) {
+  const { data: deliveries = [], isLoading } = useWebhookDeliveries(endpointId)
+  const redeliverMutation = useRedeliverWebhook(endpointId)
+
+  if (isLoading) {
+    return <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+  }
+
+  if (deliveries.length === 0) {
+    return <p className="text-xs text-muted-foreground">No events were sent to this endpoint yet.</p>
+  }
+
+  return (
+    <ul className="space-y-2">
+      {deliveries.map((delivery) => (
+        <li key={delivery.id} className="flex items-center gap-2 text-sm">
+          <Badge variant={STATUS_VARIANTS[delivery.status] ?? 'outline'}>{delivery.status}</Badge>
+          <div className="flex-1 min-w-0">
+            <p className="truncate">
+              <code className="text-xs">{delivery.event}</code>{' '}
+              <span className="text-xs text-muted-foreground">
+                {delivery.created_at && new Date(delivery.created_at).toLocaleString()}
+              </span>
+            </p>
+            <p className="text-xs text-muted-foreground truncate">{getDeliveryDetails(delivery)}</p>
+          </div>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => redeliverMutation.mutate(delivery.id)}
+            disabled={redeliverMutation.isPending || delivery.status === 'sending'}
+          >
+            <RotateCw className="h-4 w-4 mr-1" />
+            Redeliver
+          </Button>
+        </li>
+      ))}
+    </ul>
+  )
+}
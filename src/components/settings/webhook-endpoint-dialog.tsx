@@ -0,0 +1,137 @@
+'use client'
+
+import { useEffect, useState, type ReactNode } from 'react'
+import { Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { WEBHOOK_EVENTS, type WebhookEvent } from '@/lib/webhooks/events'
+import { useCreateWebhookEndpoint } from '@/hooks/queries/use-webhooks'
+
+const WEBHOOK_EVENT_LABELS: Record<WebhookEvent, string> = {
+  'link.created': 'A link was added',
+  'link.processed': 'Scraping and AI tagging of a link finished',
+  'link.updated': 'A link, its reading state or its tags changed',
+  'link.deleted': 'A link was moved to the trash',
+  'link.restored': 'A link was restored from the trash',
+  'tag.created': 'A tag was created',
+  'tag.merged': 'A tag was merged into another',
+  'tag.deleted': 'A tag was deleted',
+}
+
+interface WebhookEndpointDialogProps {
+  trigger: ReactNode
+}
+
+/**
+ * Add an endpoint that receives the selected events
+ */
+export function WebhookEndpointDialog({ trigger }: WebhookEndpointDialogProps) {
+  const createMutation = useCreateWebhookEndpoint()
+
+  const [open, setOpen] = useState(false)
+  const [url, setUrl] = useState('')
+  const [description, setDescription] = useState('')
+  const [events, setEvents] = useState<WebhookEvent[]>([...WEBHOOK_EVENTS])
+
+  // Start from a clean form every time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setUrl('')
+      setDescription('')
+      setEvents([...WEBHOOK_EVENTS])
+    }
+  }, [open])
+
+  const toggleEvent = (event: WebhookEvent, checked: boolean) => {
+    setEvents((current) =>
+      checked ? [...current, event] : current.filter((item) => item !== event)
+    )
+  }
+
+  const handleCreate = () => {
+    createMutation.mutate({ url, description, events }, { onSuccess: () => setOpen(false) })
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>New Webhook</DialogTitle>
+          <DialogDescription>
+            TagLink sends a signed POST request with a JSON body to this URL for every selected
+            event.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="webhook-url">Endpoint URL</Label>
+            <Input
+              id="webhook-url"
+              type="url"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              placeholder="https://example.com/hooks/taglink"
+              maxLength={2000}
+              disabled={createMutation.isPending}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="webhook-description">Description (optional)</Label>
+            <Input
+              id="webhook-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="e.g. Sync to Notion"
+              maxLength={100}
+              disabled={createMutation.isPending}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Events</Label>
+            {WEBHOOK_EVENTS.map((event) => (
+              <div key={event} className="flex items-center gap-2">
+                <Checkbox
+                  id={`webhook-event-${event}`}
+                  checked={events.includes(event)}
+                  onCheckedChange={(checked) => toggleEvent(event, checked as boolean)}
+                  disabled={createMutation.isPending}
+                />
+                <Label htmlFor={`webhook-event-${event}`} className="font-normal">
+                  <code className="text-xs">{event}</code> - {WEBHOOK_EVENT_LABELS[event]}
+                </Label>
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button
+              variant="outline"
+              onClick={() => setOpen(false)}
+              disabled={createMutation.isPending}
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleCreate}
+              disabled={createMutation.isPending || !url.trim() || events.length === 0}
+            >
+              {createMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Add Webhook
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,129 @@
+'use client'
+
+import { useState } from 'react'
+import { Check, ChevronDown, ChevronRight, Copy, Loader2, Trash2 } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Switch } from '@/components/ui/switch'
+import {
+  useDeleteWebhookEndpoint,
+  useUpdateWebhookEndpoint,
+  useWebhookEndpoints,
+} from '@/hooks/queries/use-webhooks'
+import { SIGNATURE_HEADER } from '@/lib/webhooks/signature'
+import { WebhookDeliveryLog } from './webhook-delivery-log'
+
+/**
+ * The user's webhook endpoints with their secret, an on/off switch and the delivery log
+ * (settings page)
+ */
+export function WebhooksList() {
+  const { data: endpoints = [], isLoading } = useWebhookEndpoints()
+  const updateMutation = useUpdateWebhookEndpoint()
+  const deleteMutation = useDeleteWebhookEndpoint()
+  const [openLogId, setOpenLogId] = useState<string | null>(null)
+  const [copiedId, setCopiedId] = useState<string | null>(null)
+
+  const handleCopySecret = async (id: string, secret: string) => {
+    await navigator.clipboard.writeText(secret)
+    setCopiedId(id)
+  }
+
+  if (isLoading) {
+    return <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+  }
+
+  if (endpoints.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        You have no webhooks yet. Add one to push link and tag changes to other apps.
+      </p>
+    )
+  }
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-muted-foreground">
+        Verify requests with the <code>{SIGNATURE_HEADER}</code> header:{' '}
+        <code>t=&lt;timestamp&gt;,v1=&lt;HMAC-SHA256 of &quot;timestamp.body&quot;&gt;</code>{' '}
+        signed with the endpoint secret. Failed deliveries are retried with backoff.
+      </p>
+      <ul className="divide-y">
+        {endpoints.map((endpoint) => {
+          const isLogOpen = openLogId === endpoint.id
+          return (
+            <li key={endpoint.id} className="py-3 space-y-2">
+              <div className="flex items-center gap-3">
+                <div className="flex-1 min-w-0 space-y-1">
+                  <p className="font-medium truncate">{endpoint.url}</p>
+                  {endpoint.description && (
+                    <p className="text-sm text-muted-foreground truncate">
+                      {endpoint.description}
+                    </p>
+                  )}
+                  <div className="flex flex-wrap items-center gap-1">
+                    {endpoint.events.map((event) => (
+                      <Badge key={event} variant="secondary">
+                        {event}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+                <Switch
+                  checked={endpoint.active}
+                  onCheckedChange={(active) =>
+                    updateMutation.mutate({ id: endpoint.id, active })
+                  }
+                  disabled={updateMutation.isPending}
+                  aria-label={endpoint.active ? 'Disable webhook' : 'Enable webhook'}
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-red-600 hover:text-red-700"
+                  onClick={() => deleteMutation.mutate(endpoint.id)}
+                  disabled={deleteMutation.isPending}
+                  aria-label="Delete webhook"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+              <div className="flex flex-wrap items-center gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleCopySecret(endpoint.id, endpoint.secret)}
+                >
+                  {copiedId === endpoint.id ? (
+                    <Check className="h-4 w-4 mr-1" />
+                  ) : (
+                    <Copy className="h-4 w-4 mr-1" />
+                  )}
+                  Copy Secret
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setOpenLogId(isLogOpen ? null : endpoint.id)}
+                  aria-expanded={isLogOpen}
+                >
+                  {isLogOpen ? (
+                    <ChevronDown className="h-4 w-4 mr-1" />
+                  ) : (
+                    <ChevronRight className="h-4 w-4 mr-1" />
+                  )}
+                  Recent Deliveries
+                </Button>
+              </div>
+              {isLogOpen && (
+                <div className="rounded-md border p-3">
+                  <WebhookDeliveryLog endpointId={endpoint.id} />
+                </div>
+              )}
+            </li>
+          )
+        })}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,162 @@
+'use client'
+
+import { useEffect, useState, type ReactNode } from 'react'
+import { Check, Copy, Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { SHARE_EXPIRY_OPTIONS } from '@/lib/shares/tokens'
+import { useCreateShareLink } from '@/hooks/queries/use-shares'
+import type { ShareSearchFilters } from '@/types'
+
+export type ShareTarget =
+  | { kind: 'tag'; tagId: string }
+  | { kind: 'collection'; collectionId: string }
+  | { kind: 'search'; filters: ShareSearchFilters }
+
+interface ShareDialogProps {
+  target: ShareTarget
+  defaultTitle?: string
+  trigger?: ReactNode
+  open?: boolean // Controlled mode, e.g. when opened from a dropdown menu
+  onOpenChange?: (open: boolean) => void
+}
+
+/**
+ * URL of the public page of a share token
+ */
+export function getShareUrl(token: string): string {
+  return `${window.location.origin}/s/${token}`
+}
+
+/**
+ * Create a public read-only page for a tag, a collection or the current filters
+ */
+export function ShareDialog({
+  target,
+  defaultTitle = '',
+  trigger,
+  open: controlledOpen,
+  onOpenChange,
+}: ShareDialogProps) {
+  const createMutation = useCreateShareLink()
+
+  const [uncontrolledOpen, setUncontrolledOpen] = useState(false)
+  const open = controlledOpen ?? uncontrolledOpen
+  const [title, setTitle] = useState(defaultTitle)
+  const [expiry, setExpiry] = useState('never')
+  const [shareUrl, setShareUrl] = useState<string | null>(null)
+  const [copied, setCopied] = useState(false)
+
+  // Start from a clean form every time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setTitle(defaultTitle)
+      setExpiry('never')
+      setShareUrl(null)
+      setCopied(false)
+    }
+  }, [open, defaultTitle])
+
+  const setOpen = (nextOpen: boolean) => {
+    setUncontrolledOpen(nextOpen)
+    onOpenChange?.(nextOpen)
+  }
+
+  const handleCreate = () => {
+    createMutation.mutate(
+      {
+        ...target,
+        title: title.trim() || null,
+        expiresInDays: expiry === 'never' ? null : Number(expiry),
+      },
+      { onSuccess: (share) => setShareUrl(getShareUrl(share.token)) }
+    )
+  }
+
+  const handleCopy = async () => {
+    if (!shareUrl) return
+    await navigator.clipboard.writeText(shareUrl)
+    setCopied(true)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      {trigger && <DialogTrigger asChild>{trigger}</DialogTrigger>}
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Share Publicly</DialogTitle>
+          <DialogDescription>
+            Anyone with the link can see the titles, descriptions, ratings and tags of these links.
+            Notes and highlights stay private. You can revoke the link in Settings.
+          </DialogDescription>
+        </DialogHeader>
+
+        {shareUrl ? (
+          <div className="space-y-2">
+            <Label htmlFor="share-url">Public link</Label>
+            <div className="flex gap-2">
+              <Input id="share-url" value={shareUrl} readOnly onFocus={(e) => e.target.select()} />
+              <Button variant="outline" onClick={handleCopy} aria-label="Copy link">
+                {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="share-title">Page title (optional)</Label>
+              <Input
+                id="share-title"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                maxLength={100}
+                disabled={createMutation.isPending}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Expires</Label>
+              <Select value={expiry} onValueChange={setExpiry} disabled={createMutation.isPending}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="never">Never</SelectItem>
+                  {SHARE_EXPIRY_OPTIONS.map((days) => (
+                    <SelectItem key={days} value={String(days)}>
+                      After {days} day{days === 1 ? '' : 's'}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setOpen(false)} disabled={createMutation.isPending}>
+                Cancel
+              </Button>
+              <Button onClick={handleCreate} disabled={createMutation.isPending}>
+                {createMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Create Link
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
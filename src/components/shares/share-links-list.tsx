@@ -0,0 +1,110 @@
+'use client'
+
+import { useState } from 'react'
+import { Ban, Check, Copy, ExternalLink, Loader2, Trash2 } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { isShareActive } from '@/lib/shares/tokens'
+import { useShareLinks, useRevokeShareLink, useDeleteShareLink } from '@/hooks/queries/use-shares'
+import { getShareUrl } from './share-dialog'
+import type { ShareLinkWithTarget } from '@/types'
+
+const KIND_LABELS: Record<ShareLinkWithTarget['kind'], string> = {
+  tag: 'Tag',
+  collection: 'Collection',
+  search: 'Saved search',
+}
+
+function getShareStatus(share: ShareLinkWithTarget): string {
+  if (share.revoked_at) return 'Revoked'
+  if (!isShareActive(share)) return 'Expired'
+  return share.expires_at ? `Expires ${new Date(share.expires_at).toLocaleDateString()}` : 'Active'
+}
+
+/**
+ * The user's public share links with copy, revoke and delete actions (settings page)
+ */
+export function ShareLinksList() {
+  const { data: shares = [], isLoading } = useShareLinks()
+  const revokeMutation = useRevokeShareLink()
+  const deleteMutation = useDeleteShareLink()
+  const [copiedId, setCopiedId] = useState<string | null>(null)
+
+  const handleCopy = async (share: ShareLinkWithTarget) => {
+    await navigator.clipboard.writeText(getShareUrl(share.token))
+    setCopiedId(share.id)
+  }
+
+  if (isLoading) {
+    return <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+  }
+
+  if (shares.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        You have not shared anything yet. Use &quot;Share&quot; on a tag, a collection or the
+        dashboard filters.
+      </p>
+    )
+  }
+
+  return (
+    <ul className="divide-y">
+      {shares.map((share) => {
+        const active = isShareActive(share)
+
+        return (
+          <li key={share.id} className="py-3 flex items-center gap-3">
+            <div className="flex-1 min-w-0">
+              <p className="font-medium truncate">
+                {share.title || share.target_name || KIND_LABELS[share.kind]}
+              </p>
+              <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                <Badge variant="secondary">{KIND_LABELS[share.kind]}</Badge>
+                <span>{getShareStatus(share)}</span>
+                <span>
+                  · {share.view_count} view{share.view_count === 1 ? '' : 's'}
+                </span>
+              </div>
+            </div>
+            <div className="flex items-center gap-1">
+              {active && (
+                <>
+                  <Button variant="ghost" size="sm" onClick={() => handleCopy(share)} aria-label="Copy link">
+                    {copiedId === share.id ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                  </Button>
+                  <Button variant="ghost" size="sm" asChild aria-label="Open public page">
+                    <a href={getShareUrl(share.token)} target="_blank" rel="noopener noreferrer">
+                      <ExternalLink className="h-4 w-4" />
+                    </a>
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => revokeMutation.mutate(share.id)}
+                    disabled={revokeMutation.isPending}
+                  >
+                    <Ban className="h-4 w-4 mr-1" />
+                    Revoke
+                  </Button>
+                </>
+              )}
+              {!active && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-red-600 hover:text-red-700"
+                  onClick={() => deleteMutation.mutate(share.id)}
+                  disabled={deleteMutation.isPending}
+                  aria-label="Delete share link"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          </li>
+        )
+      })}
+    </ul>
+  )
+}
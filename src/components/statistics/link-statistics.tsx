@@ -3,6 +3,7 @@
 import { useEffect, useState } from 'react'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
 import { StarRating } from '@/components/ui/star-rating'
 import {
   Link as LinkIcon,
@@ -11,9 +12,12 @@ import {
   TrendingUp,
   CheckCircle,
   XCircle,
+  RotateCw,
+  AlertTriangle,
 } from 'lucide-react'
 import { getLinkStatistics, type LinkStatistics } from '@/app/actions/statistics'
 import { StatisticsPanelSkeleton } from '@/components/skeletons/statistics-skeleton'
+import { ReprocessLinksDialog } from '@/components/links/reprocess-links-dialog'
 
 interface LinkStatisticsPanelProps {
   onLoadingChange?: (loading: boolean) => void
@@ -23,18 +27,18 @@ export function LinkStatisticsPanel({ onLoadingChange }: LinkStatisticsPanelProp
   const [statistics, setStatistics] = useState<LinkStatistics | null>(null)
   const [isLoading, setIsLoading] = useState(true)
 
-  useEffect(() => {
-    const fetchStatistics = async () => {
-      setIsLoading(true)
-      onLoadingChange?.(true)
-      const result = await getLinkStatistics()
-      if (result.success && result.data) {
-        setStatistics(result.data)
-      }
-      setIsLoading(false)
-      onLoadingChange?.(false)
+  const fetchStatistics = async () => {
+    setIsLoading(true)
+    onLoadingChange?.(true)
+    const result = await getLinkStatistics()
+    if (result.success && result.data) {
+      setStatistics(result.data)
     }
+    setIsLoading(false)
+    onLoadingChange?.(false)
+  }
 
+  useEffect(() => {
     fetchStatistics()
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [])
@@ -56,6 +60,11 @@ export function LinkStatisticsPanel({ onLoadingChange }: LinkStatisticsPanelProp
           <p className="text-xs text-muted-foreground">
             {statistics.recentLinksCount} added in last 7 days
           </p>
+          <p className="text-xs text-muted-foreground mt-1" data-testid="reading-state-counts">
+            {statistics.linksByReadingState.unread} unread · {statistics.linksByReadingState.reading}{' '}
+            reading · {statistics.linksByReadingState.read} read ·{' '}
+            {statistics.linksByReadingState.archived} archived
+          </p>
         </CardContent>
       </Card>
 
@@ -106,6 +115,24 @@ export function LinkStatisticsPanel({ onLoadingChange }: LinkStatisticsPanelProp
               </span>
               <span className="text-sm font-medium">{statistics.failedLinks}</span>
             </div>
+            <div className="flex items-center justify-between">
+              <span className="text-sm flex items-center gap-1">
+                <AlertTriangle className="h-3 w-3 text-orange-600" />
+                Broken
+              </span>
+              <span className="text-sm font-medium">{statistics.brokenLinks}</span>
+            </div>
+            {statistics.failedLinks > 0 && (
+              <ReprocessLinksDialog
+                onSuccess={fetchStatistics}
+                trigger={
+                  <Button variant="outline" size="sm" className="w-full mt-2 h-7 text-xs">
+                    <RotateCw className="h-3 w-3 mr-1" />
+                    Retry all failed
+                  </Button>
+                }
+              />
+            )}
           </div>
         </CardContent>
       </Card>
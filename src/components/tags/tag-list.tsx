@@ -1,7 +1,7 @@
 'use client'
 
 import { useState } from 'react'
-import { MoreHorizontal, Edit, Trash2, GitMerge, Link as LinkIcon } from 'lucide-react'
+import { MoreHorizontal, Edit, Trash2, GitMerge, Link as LinkIcon, Share2 } from 'lucide-react'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import {
@@ -14,6 +14,7 @@ import {
 import { RenameTagDialog } from '@/components/tags/rename-tag-dialog'
 import { MergeTagDialog } from '@/components/tags/merge-tag-dialog'
 import { DeleteTagDialog } from '@/components/tags/delete-tag-dialog'
+import { ShareDialog } from '@/components/shares/share-dialog'
 
 interface TagWithUsage {
   id: string
@@ -31,6 +32,7 @@ export function TagList({ tags, onUpdate }: TagListProps) {
   const [renameDialogOpen, setRenameDialogOpen] = useState(false)
   const [mergeDialogOpen, setMergeDialogOpen] = useState(false)
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false)
+  const [shareDialogOpen, setShareDialogOpen] = useState(false)
   const [selectedTag, setSelectedTag] = useState<TagWithUsage | null>(null)
 
   const handleRename = (tag: TagWithUsage) => {
@@ -43,6 +45,11 @@ export function TagList({ tags, onUpdate }: TagListProps) {
     setMergeDialogOpen(true)
   }
 
+  const handleShare = (tag: TagWithUsage) => {
+    setSelectedTag(tag)
+    setShareDialogOpen(true)
+  }
+
   const handleDelete = (tag: TagWithUsage) => {
     setSelectedTag(tag)
     setDeleteDialogOpen(true)
@@ -94,6 +101,10 @@ export function TagList({ tags, onUpdate }: TagListProps) {
                     <GitMerge className="h-4 w-4 mr-2" />
                     Merge
                   </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => handleShare(tag)}>
+                    <Share2 className="h-4 w-4 mr-2" />
+                    Share
+                  </DropdownMenuItem>
                   <DropdownMenuSeparator />
                   <DropdownMenuItem
                     onClick={() => handleDelete(tag)}
@@ -135,6 +146,12 @@ export function TagList({ tags, onUpdate }: TagListProps) {
             onOpenChange={setDeleteDialogOpen}
             onSuccess={handleSuccess}
           />
+          <ShareDialog
+            target={{ kind: 'tag', tagId: selectedTag.id }}
+            defaultTitle={selectedTag.name}
+            open={shareDialogOpen}
+            onOpenChange={setShareDialogOpen}
+          />
         </>
       )}
     </>
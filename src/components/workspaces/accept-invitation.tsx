@@ -0,0 +1,44 @@
+'use client'
+
+import { useRouter } from 'next/navigation'
+import { Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { useAcceptInvitation } from '@/hooks/queries/use-workspaces'
+
+interface AcceptInvitationProps {
+  token: string
+  email: string // Email of the signed-in user - the invitation has to match it
+}
+
+/**
+ * Join the workspace of an invitation and open its dashboard
+ */
+export function AcceptInvitation({ token, email }: AcceptInvitationProps) {
+  const router = useRouter()
+  const acceptMutation = useAcceptInvitation()
+
+  const handleAccept = () => {
+    acceptMutation.mutate(token, {
+      onSuccess: () => router.push('/dashboard'),
+    })
+  }
+
+  return (
+    <>
+      <p className="text-muted-foreground mb-6">
+        You are signed in as <span className="font-medium text-foreground">{email}</span>.
+      </p>
+
+      {acceptMutation.isError && (
+        <p className="text-sm text-red-600 mb-4" role="alert">
+          {acceptMutation.error.message}
+        </p>
+      )}
+
+      <Button onClick={handleAccept} disabled={acceptMutation.isPending}>
+        {acceptMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+        Accept Invitation
+      </Button>
+    </>
+  )
+}
@@ -0,0 +1,83 @@
+'use client'
+
+import { Loader2 } from 'lucide-react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { useDeleteWorkspace, useLeaveWorkspace } from '@/hooks/queries/use-workspaces'
+import type { Workspace } from '@/types'
+
+interface LeaveWorkspaceDialogProps {
+  workspace: Workspace
+  mode: 'leave' | 'delete'
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onSuccess?: () => void
+}
+
+/**
+ * Confirm leaving a workspace, or deleting it with everything in it
+ */
+export function LeaveWorkspaceDialog({
+  workspace,
+  mode,
+  open,
+  onOpenChange,
+  onSuccess,
+}: LeaveWorkspaceDialogProps) {
+  const leaveMutation = useLeaveWorkspace()
+  const deleteMutation = useDeleteWorkspace()
+  const mutation = mode === 'delete' ? deleteMutation : leaveMutation
+
+  const handleConfirm = () => {
+    mutation.mutate(workspace.id, {
+      onSuccess: () => {
+        onOpenChange(false)
+        onSuccess?.()
+      },
+    })
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{mode === 'delete' ? 'Delete Workspace' : 'Leave Workspace'}</DialogTitle>
+          <DialogDescription>
+            {mode === 'delete' ? (
+              <>
+                Are you sure you want to delete &quot;{workspace.name}&quot;? All its links, tags
+                and collections are deleted for every member. This cannot be undone.
+              </>
+            ) : (
+              <>
+                Are you sure you want to leave &quot;{workspace.name}&quot;? You will need a new
+                invitation to join again.
+              </>
+            )}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex justify-end gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={mutation.isPending}
+          >
+            Cancel
+          </Button>
+          <Button variant="destructive" onClick={handleConfirm} disabled={mutation.isPending}>
+            {mutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {mode === 'delete' ? 'Delete Workspace' : 'Leave Workspace'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
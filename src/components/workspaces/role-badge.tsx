@@ -0,0 +1,23 @@
+import { Badge } from '@/components/ui/badge'
+import { cn } from '@/lib/utils'
+import type { WorkspaceRole } from '@/types'
+
+const ROLE_LABELS: Record<WorkspaceRole, string> = {
+  owner: 'Owner',
+  editor: 'Editor',
+  viewer: 'Viewer',
+}
+
+/**
+ * Role of a workspace member
+ */
+export function RoleBadge({ role, className }: { role: WorkspaceRole; className?: string }) {
+  return (
+    <Badge
+      variant={role === 'owner' ? 'default' : 'secondary'}
+      className={cn('px-1.5 py-0 text-[10px] font-medium', className)}
+    >
+      {ROLE_LABELS[role]}
+    </Badge>
+  )
+}
@@ -0,0 +1,123 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { ArrowLeft, Loader2, LogOut, Pencil, Trash2, Users } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { canManageWorkspace } from '@/lib/workspaces/scope'
+import { useWorkspaces } from '@/hooks/queries/use-workspaces'
+import { LeaveWorkspaceDialog } from './leave-workspace-dialog'
+import { RoleBadge } from './role-badge'
+import { WorkspaceFormDialog } from './workspace-form-dialog'
+import { WorkspaceInvitations } from './workspace-invitations'
+import { WorkspaceMembers } from './workspace-members'
+
+interface WorkspaceDetailsProps {
+  workspaceId: string
+  currentUserId: string
+}
+
+/**
+ * Settings of one workspace: name, members, invitations, leaving and deleting
+ */
+export function WorkspaceDetails({ workspaceId, currentUserId }: WorkspaceDetailsProps) {
+  const router = useRouter()
+  const { data: workspaces, isLoading } = useWorkspaces()
+  const [isRenameOpen, setIsRenameOpen] = useState(false)
+  const [confirmMode, setConfirmMode] = useState<'leave' | 'delete' | null>(null)
+
+  const workspace = workspaces?.find((item) => item.id === workspaceId)
+
+  if (isLoading) {
+    return (
+      <div className="container mx-auto px-4 py-12 flex justify-center">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  if (!workspace) {
+    return (
+      <div className="container mx-auto px-4 py-12 text-center">
+        <h2 className="text-xl font-semibold mb-2">Workspace not found</h2>
+        <p className="text-muted-foreground mb-4">
+          It may have been deleted, or you are no longer a member.
+        </p>
+        <Button asChild variant="outline">
+          <Link href="/workspaces">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Workspaces
+          </Link>
+        </Button>
+      </div>
+    )
+  }
+
+  const canManage = canManageWorkspace(workspace.role)
+
+  return (
+    <>
+      {/* Header */}
+      <div className="bg-gradient-main text-white">
+        <div className="container mx-auto px-4 py-8">
+          <Link
+            href="/workspaces"
+            className="inline-flex items-center text-sm text-white/80 hover:text-white mb-4"
+          >
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Workspaces
+          </Link>
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div className="flex items-center gap-3">
+              <Users className="h-8 w-8" />
+              <h1 className="text-3xl font-bold">{workspace.name}</h1>
+              <RoleBadge role={workspace.role} className="bg-white/20 text-white" />
+            </div>
+            {canManage && (
+              <Button variant="secondary" onClick={() => setIsRenameOpen(true)}>
+                <Pencil className="h-4 w-4 mr-2" />
+                Rename
+              </Button>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="container mx-auto px-4 py-8 max-w-3xl space-y-6">
+        <WorkspaceMembers
+          workspaceId={workspace.id}
+          currentUserId={currentUserId}
+          canManage={canManage}
+        />
+
+        {canManage && <WorkspaceInvitations workspaceId={workspace.id} />}
+
+        <div className="bg-white rounded-lg border border-red-200 p-6 flex flex-wrap gap-2 justify-end">
+          <Button variant="outline" onClick={() => setConfirmMode('leave')}>
+            <LogOut className="h-4 w-4 mr-2" />
+            Leave Workspace
+          </Button>
+          {canManage && (
+            <Button variant="destructive" onClick={() => setConfirmMode('delete')}>
+              <Trash2 className="h-4 w-4 mr-2" />
+              Delete Workspace
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <WorkspaceFormDialog workspace={workspace} open={isRenameOpen} onOpenChange={setIsRenameOpen} />
+      {confirmMode && (
+        <LeaveWorkspaceDialog
+          workspace={workspace}
+          mode={confirmMode}
+          open={!!confirmMode}
+          onOpenChange={(open) => !open && setConfirmMode(null)}
+          onSuccess={() => router.push('/workspaces')}
+        />
+      )}
+    </>
+  )
+}
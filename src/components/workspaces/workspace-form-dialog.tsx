@@ -0,0 +1,103 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Loader2 } from 'lucide-react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { useCreateWorkspace, useRenameWorkspace } from '@/hooks/queries/use-workspaces'
+import type { Workspace } from '@/types'
+
+interface WorkspaceFormDialogProps {
+  workspace?: Workspace // Rename this workspace instead of creating a new one
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onCreated?: (workspace: Workspace) => void
+}
+
+export function WorkspaceFormDialog({
+  workspace,
+  open,
+  onOpenChange,
+  onCreated,
+}: WorkspaceFormDialogProps) {
+  const createMutation = useCreateWorkspace()
+  const renameMutation = useRenameWorkspace()
+  const isPending = createMutation.isPending || renameMutation.isPending
+
+  const [name, setName] = useState('')
+
+  // Start from the current name every time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setName(workspace?.name || '')
+    }
+  }, [open, workspace])
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (workspace) {
+      renameMutation.mutate(
+        { id: workspace.id, name: name.trim() },
+        { onSuccess: () => onOpenChange(false) }
+      )
+    } else {
+      createMutation.mutate(name.trim(), {
+        onSuccess: (created) => {
+          onOpenChange(false)
+          onCreated?.(created)
+        },
+      })
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{workspace ? 'Rename Workspace' : 'Create New Workspace'}</DialogTitle>
+          <DialogDescription>
+            A workspace has its own links, tags and collections that everyone you invite can see.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="workspace-name">Name</Label>
+            <Input
+              id="workspace-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Design team"
+              disabled={isPending}
+              maxLength={100}
+            />
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={isPending}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isPending || !name.trim()}>
+              {isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {workspace ? 'Save' : 'Create Workspace'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,145 @@
+'use client'
+
+import { useState } from 'react'
+import { Check, Copy, Loader2, Mail, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  useCreateInvitation,
+  useInvitations,
+  useRevokeInvitation,
+} from '@/hooks/queries/use-workspaces'
+import { INVITATION_EXPIRY_DAYS } from '@/lib/workspaces/scope'
+import { RoleBadge } from './role-badge'
+
+/**
+ * URL of the page that accepts an invitation
+ */
+export function getInvitationUrl(token: string): string {
+  return `${window.location.origin}/invite/${token}`
+}
+
+/**
+ * Invite people by email and list the invitations nobody accepted yet (owners only)
+ * Invitations are not emailed - the owner sends the link themselves.
+ */
+export function WorkspaceInvitations({ workspaceId }: { workspaceId: string }) {
+  const { data: invitations = [], isLoading } = useInvitations(workspaceId)
+  const createMutation = useCreateInvitation()
+  const revokeMutation = useRevokeInvitation()
+
+  const [email, setEmail] = useState('')
+  const [role, setRole] = useState<'editor' | 'viewer'>('editor')
+  const [copiedId, setCopiedId] = useState<string | null>(null)
+
+  const handleCopy = async (id: string, token: string) => {
+    await navigator.clipboard.writeText(getInvitationUrl(token))
+    setCopiedId(id)
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    createMutation.mutate(
+      { workspaceId, email: email.trim(), role },
+      {
+        onSuccess: (invitation) => {
+          setEmail('')
+          handleCopy(invitation.id, invitation.token)
+        },
+      }
+    )
+  }
+
+  return (
+    <div className="bg-white rounded-lg border p-6">
+      <h2 className="text-lg font-semibold flex items-center gap-2 mb-1">
+        <Mail className="h-5 w-5" />
+        Invitations
+      </h2>
+      <p className="text-sm text-muted-foreground mb-4">
+        The invitation link is copied to your clipboard. Send it to the person you invite - it only
+        works for their email address and expires after {INVITATION_EXPIRY_DAYS} days.
+      </p>
+
+      <form onSubmit={handleSubmit} className="flex flex-col sm:flex-row gap-2 sm:items-end">
+        <div className="flex-1 space-y-2">
+          <Label htmlFor="invite-email">Email</Label>
+          <Input
+            id="invite-email"
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="name@example.com"
+            disabled={createMutation.isPending}
+            maxLength={255}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Role</Label>
+          <Select
+            value={role}
+            onValueChange={(value) => setRole(value as 'editor' | 'viewer')}
+            disabled={createMutation.isPending}
+          >
+            <SelectTrigger className="w-full sm:w-[120px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="editor">Editor</SelectItem>
+              <SelectItem value="viewer">Viewer</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <Button type="submit" disabled={createMutation.isPending || !email.trim()}>
+          {createMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Invite
+        </Button>
+      </form>
+
+      {isLoading ? (
+        <Loader2 className="h-5 w-5 mt-4 animate-spin text-muted-foreground" />
+      ) : (
+        invitations.length > 0 && (
+          <ul className="mt-4 divide-y border-t">
+            {invitations.map((invitation) => (
+              <li key={invitation.id} className="py-3 flex items-center gap-3">
+                <span className="flex-1 truncate text-sm">{invitation.email}</span>
+                <RoleBadge role={invitation.role} />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleCopy(invitation.id, invitation.token)}
+                  aria-label={`Copy invitation link for ${invitation.email}`}
+                >
+                  {copiedId === invitation.id ? (
+                    <Check className="h-4 w-4" />
+                  ) : (
+                    <Copy className="h-4 w-4" />
+                  )}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-red-600 hover:text-red-700"
+                  onClick={() => revokeMutation.mutate({ id: invitation.id, workspaceId })}
+                  disabled={revokeMutation.isPending}
+                  aria-label={`Revoke invitation for ${invitation.email}`}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,103 @@
+'use client'
+
+import { Loader2, UserMinus, Users } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  useRemoveMember,
+  useUpdateMemberRole,
+  useWorkspaceMembers,
+} from '@/hooks/queries/use-workspaces'
+import type { WorkspaceRole } from '@/types'
+import { RoleBadge } from './role-badge'
+
+interface WorkspaceMembersProps {
+  workspaceId: string
+  currentUserId: string
+  canManage: boolean // Owners change roles and remove members
+}
+
+/**
+ * Members of a workspace with their roles
+ */
+export function WorkspaceMembers({ workspaceId, currentUserId, canManage }: WorkspaceMembersProps) {
+  const { data: members = [], isLoading } = useWorkspaceMembers(workspaceId)
+  const updateRoleMutation = useUpdateMemberRole()
+  const removeMutation = useRemoveMember()
+
+  return (
+    <div className="bg-white rounded-lg border p-6">
+      <h2 className="text-lg font-semibold flex items-center gap-2 mb-4">
+        <Users className="h-5 w-5" />
+        Members
+        {members.length > 0 && (
+          <span className="text-sm font-normal text-muted-foreground">({members.length})</span>
+        )}
+      </h2>
+
+      {isLoading ? (
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      ) : (
+        <ul className="divide-y">
+          {members.map((member) => {
+            const isMe = member.user_id === currentUserId
+
+            return (
+              <li key={member.user_id} className="py-3 flex items-center gap-3">
+                <span className="flex-1 truncate text-sm">
+                  {member.email}
+                  {isMe && <span className="text-muted-foreground"> (you)</span>}
+                </span>
+
+                {canManage && !isMe ? (
+                  <>
+                    <Select
+                      value={member.role}
+                      onValueChange={(role) =>
+                        updateRoleMutation.mutate({
+                          workspaceId,
+                          userId: member.user_id,
+                          role: role as WorkspaceRole,
+                        })
+                      }
+                      disabled={updateRoleMutation.isPending}
+                    >
+                      <SelectTrigger className="w-[120px] h-8" aria-label="Role">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="owner">Owner</SelectItem>
+                        <SelectItem value="editor">Editor</SelectItem>
+                        <SelectItem value="viewer">Viewer</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-red-600 hover:text-red-700"
+                      onClick={() =>
+                        removeMutation.mutate({ workspaceId, userId: member.user_id })
+                      }
+                      disabled={removeMutation.isPending}
+                      aria-label={`Remove ${member.email}`}
+                    >
+                      <UserMinus className="h-4 w-4" />
+                    </Button>
+                  </>
+                ) : (
+                  <RoleBadge role={member.role} />
+                )}
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,90 @@
+'use client'
+
+import Link from 'next/link'
+import { Check, ChevronDown, Settings2, User as UserIcon, Users } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { cn } from '@/lib/utils'
+import {
+  useActiveWorkspace,
+  useSetActiveWorkspace,
+  useWorkspaces,
+} from '@/hooks/queries/use-workspaces'
+import { RoleBadge } from './role-badge'
+
+interface WorkspaceSwitcherProps {
+  className?: string
+  onSwitch?: () => void // e.g. close the mobile menu
+}
+
+/**
+ * Pick the space the dashboard works in: the personal one or a shared workspace
+ */
+export function WorkspaceSwitcher({ className, onSwitch }: WorkspaceSwitcherProps) {
+  const { data: workspaces = [] } = useWorkspaces()
+  const { data: active } = useActiveWorkspace()
+  const setActiveMutation = useSetActiveWorkspace()
+
+  const activeId = active?.workspace?.id ?? null
+
+  const handleSwitch = (workspaceId: string | null) => {
+    if (workspaceId !== activeId) {
+      setActiveMutation.mutate(workspaceId)
+    }
+    onSwitch?.()
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className={cn('max-w-[220px]', className)}
+          disabled={setActiveMutation.isPending}
+          aria-label="Switch workspace"
+          data-testid="workspace-switcher"
+        >
+          {active?.workspace ? (
+            <Users className="h-4 w-4 mr-2 shrink-0" />
+          ) : (
+            <UserIcon className="h-4 w-4 mr-2 shrink-0" />
+          )}
+          <span className="truncate">{active?.workspace?.name || 'Personal'}</span>
+          {active?.workspace && <RoleBadge role={active.role} className="ml-2" />}
+          <ChevronDown className="h-4 w-4 ml-1 shrink-0" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="w-64">
+        <DropdownMenuLabel>Workspaces</DropdownMenuLabel>
+        <DropdownMenuItem onClick={() => handleSwitch(null)}>
+          <UserIcon className="h-4 w-4 mr-2" />
+          <span className="flex-1">Personal</span>
+          {activeId === null && <Check className="h-4 w-4" />}
+        </DropdownMenuItem>
+        {workspaces.map((workspace) => (
+          <DropdownMenuItem key={workspace.id} onClick={() => handleSwitch(workspace.id)}>
+            <Users className="h-4 w-4 mr-2" />
+            <span className="flex-1 truncate">{workspace.name}</span>
+            <RoleBadge role={workspace.role} className="ml-2" />
+            {activeId === workspace.id && <Check className="h-4 w-4 ml-2" />}
+          </DropdownMenuItem>
+        ))}
+        <DropdownMenuSeparator />
+        <DropdownMenuItem asChild>
+          <Link href="/workspaces" onClick={onSwitch}>
+            <Settings2 className="h-4 w-4 mr-2" />
+            Manage workspaces
+          </Link>
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -0,0 +1,87 @@
+'use client'
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import {
+  getApiTokens,
+  createApiToken,
+  revokeApiToken,
+  type CreateApiTokenInput,
+} from '@/app/actions/api-tokens'
+import { queryKeys } from '@/lib/react-query/query-client'
+import { useToast } from '@/hooks/use-toast'
+
+/**
+ * Hook for fetching the user's personal access tokens
+ */
+export function useApiTokens() {
+  return useQuery({
+    queryKey: queryKeys.apiTokens.all,
+    queryFn: async () => {
+      const result = await getApiTokens()
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to fetch API tokens')
+      }
+      return result.data!
+    },
+  })
+}
+
+/**
+ * Hook for creating a token - the plain token is only in the mutation result
+ */
+export function useCreateApiToken() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: async (input: CreateApiTokenInput) => {
+      const result = await createApiToken(input)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to create API token')
+      }
+      return result.data!
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.apiTokens.all })
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      })
+    },
+  })
+}
+
+/**
+ * Hook for revoking a token
+ */
+export function useRevokeApiToken() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const result = await revokeApiToken(id)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to revoke API token')
+      }
+      return result
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.apiTokens.all })
+      toast({
+        title: 'Token Revoked',
+        description: 'Requests with this token are rejected from now on',
+      })
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      })
+    },
+  })
+}
@@ -0,0 +1,23 @@
+'use client'
+
+import { useQuery } from '@tanstack/react-query'
+import { getLinkArchive } from '@/app/actions/archives'
+import { queryKeys } from '@/lib/react-query/query-client'
+
+/**
+ * Hook for fetching the archived, readable copy of a link (reader view)
+ * The archive only changes when the link is re-processed, so it stays fresh longer.
+ */
+export function useLinkArchive(linkId: string) {
+  return useQuery({
+    queryKey: queryKeys.links.archive(linkId),
+    queryFn: async () => {
+      const result = await getLinkArchive(linkId)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to fetch archived copy')
+      }
+      return result.data ?? null
+    },
+    staleTime: 30 * 60 * 1000,
+  })
+}
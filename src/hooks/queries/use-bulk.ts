@@ -0,0 +1,191 @@
+'use client'
+
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import {
+  bulkAddTags,
+  bulkRemoveTags,
+  bulkSetRating,
+  bulkDeleteLinks,
+  bulkRestoreLinks,
+} from '@/app/actions/bulk'
+import { queryKeys } from '@/lib/react-query/query-client'
+import { useToast } from '@/hooks/use-toast'
+
+const plural = (count: number) => `${count} link${count === 1 ? '' : 's'}`
+
+/**
+ * Shared cache refresh after a bulk action (links.all also covers the trash list)
+ */
+function useInvalidateAfterBulk() {
+  const queryClient = useQueryClient()
+
+  return () => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.links.all })
+    queryClient.invalidateQueries({ queryKey: queryKeys.tags.all })
+    queryClient.invalidateQueries({ queryKey: queryKeys.collections.all })
+    queryClient.invalidateQueries({ queryKey: queryKeys.user.stats })
+  }
+}
+
+/**
+ * Hook for adding tags to the selected links
+ */
+export function useBulkAddTags() {
+  const invalidate = useInvalidateAfterBulk()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: async ({ linkIds, tagIds }: { linkIds: string[]; tagIds: string[] }) => {
+      const result = await bulkAddTags(linkIds, tagIds)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to add tags')
+      }
+      return result.data!
+    },
+    onSuccess: ({ updated, skipped }) => {
+      invalidate()
+      toast({
+        title: 'Tags Added',
+        description:
+          skipped > 0
+            ? `${plural(updated)} updated, ${plural(skipped)} skipped (10 tags per link at most)`
+            : `${plural(updated)} updated`,
+      })
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      })
+    },
+  })
+}
+
+/**
+ * Hook for removing tags from the selected links
+ */
+export function useBulkRemoveTags() {
+  const invalidate = useInvalidateAfterBulk()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: async ({ linkIds, tagIds }: { linkIds: string[]; tagIds: string[] }) => {
+      const result = await bulkRemoveTags(linkIds, tagIds)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to remove tags')
+      }
+      return result.data!
+    },
+    onSuccess: ({ updated }) => {
+      invalidate()
+      toast({
+        title: 'Tags Removed',
+        description: `${plural(updated)} updated`,
+      })
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      })
+    },
+  })
+}
+
+/**
+ * Hook for setting the rating of the selected links
+ */
+export function useBulkSetRating() {
+  const invalidate = useInvalidateAfterBulk()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: async ({ linkIds, rating }: { linkIds: string[]; rating: number | null }) => {
+      const result = await bulkSetRating(linkIds, rating)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to update rating')
+      }
+      return result.data!
+    },
+    onSuccess: ({ updated }) => {
+      invalidate()
+      toast({
+        title: 'Rating Updated',
+        description: `${plural(updated)} updated`,
+      })
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      })
+    },
+  })
+}
+
+/**
+ * Hook for moving the selected links to the trash
+ * No success toast - the caller shows one with an undo action.
+ */
+export function useBulkDeleteLinks() {
+  const invalidate = useInvalidateAfterBulk()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: async (linkIds: string[]) => {
+      const result = await bulkDeleteLinks(linkIds)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to delete links')
+      }
+      return result.data!
+    },
+    onSuccess: () => {
+      invalidate()
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      })
+    },
+  })
+}
+
+/**
+ * Hook for moving links out of the trash (undo of a bulk delete)
+ */
+export function useBulkRestoreLinks() {
+  const invalidate = useInvalidateAfterBulk()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: async (linkIds: string[]) => {
+      const result = await bulkRestoreLinks(linkIds)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to restore links')
+      }
+      return result.data!
+    },
+    onSuccess: ({ updated, skipped }) => {
+      invalidate()
+      toast({
+        title: 'Links Restored',
+        description:
+          skipped > 0
+            ? `${plural(updated)} restored, ${plural(skipped)} saved again since - restore them from the trash`
+            : `${plural(updated)} restored`,
+      })
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      })
+    },
+  })
+}
@@ -0,0 +1,256 @@
+'use client'
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import {
+  getCollections,
+  getCollection,
+  createCollection,
+  updateCollection,
+  deleteCollection,
+  addLinksToCollection,
+  removeLinkFromCollection,
+  reorderCollectionLinks,
+  getLinkCollectionIds,
+} from '@/app/actions/collections'
+import { queryKeys } from '@/lib/react-query/query-client'
+import { useToast } from '@/hooks/use-toast'
+
+/**
+ * Hook for fetching the user's collections with link counts
+ */
+export function useCollections() {
+  return useQuery({
+    queryKey: queryKeys.collections.lists(),
+    queryFn: async () => {
+      const result = await getCollections()
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to fetch collections')
+      }
+      return result.data!
+    },
+  })
+}
+
+/**
+ * Hook for fetching a collection with its ordered links
+ */
+export function useCollection(id: string) {
+  return useQuery({
+    queryKey: queryKeys.collections.detail(id),
+    queryFn: async () => {
+      const result = await getCollection(id)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to fetch collection')
+      }
+      return result.data!
+    },
+    enabled: !!id,
+  })
+}
+
+/**
+ * Hook for fetching the IDs of the collections a link belongs to
+ */
+export function useLinkCollectionIds(linkId: string) {
+  return useQuery({
+    queryKey: queryKeys.collections.forLink(linkId),
+    queryFn: async () => {
+      const result = await getLinkCollectionIds(linkId)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to fetch link collections')
+      }
+      return result.data!
+    },
+    enabled: !!linkId,
+  })
+}
+
+/**
+ * Shared cache refresh: collections and link lists (the dashboard filters by collection)
+ */
+function useInvalidateCollections() {
+  const queryClient = useQueryClient()
+
+  return () => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.collections.all })
+    queryClient.invalidateQueries({ queryKey: queryKeys.links.lists() })
+  }
+}
+
+/**
+ * Hook for creating a collection
+ */
+export function useCreateCollection() {
+  const invalidateCollections = useInvalidateCollections()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: async (input: { name: string; description?: string | null }) => {
+      const result = await createCollection(input)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to create collection')
+      }
+      return result.data!
+    },
+    onSuccess: () => {
+      invalidateCollections()
+      toast({
+        title: 'Collection Created',
+      })
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      })
+    },
+  })
+}
+
+/**
+ * Hook for renaming a collection or changing its description
+ */
+export function useUpdateCollection() {
+  const invalidateCollections = useInvalidateCollections()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: async (input: { id: string; name?: string; description?: string | null }) => {
+      const result = await updateCollection(input)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to update collection')
+      }
+      return result.data!
+    },
+    onSuccess: () => {
+      invalidateCollections()
+      toast({
+        title: 'Collection Updated',
+      })
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      })
+    },
+  })
+}
+
+/**
+ * Hook for deleting a collection (its links are kept)
+ */
+export function useDeleteCollection() {
+  const invalidateCollections = useInvalidateCollections()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const result = await deleteCollection(id)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to delete collection')
+      }
+      return result
+    },
+    onSuccess: () => {
+      invalidateCollections()
+      toast({
+        title: 'Collection Deleted',
+        description: 'The links in it were kept',
+      })
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      })
+    },
+  })
+}
+
+/**
+ * Hook for adding links to a collection
+ */
+export function useAddLinksToCollection() {
+  const invalidateCollections = useInvalidateCollections()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: async ({ collectionId, linkIds }: { collectionId: string; linkIds: string[] }) => {
+      const result = await addLinksToCollection(collectionId, linkIds)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to add links to collection')
+      }
+      return result
+    },
+    onSuccess: () => {
+      invalidateCollections()
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      })
+    },
+  })
+}
+
+/**
+ * Hook for removing a link from a collection
+ */
+export function useRemoveLinkFromCollection() {
+  const invalidateCollections = useInvalidateCollections()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: async ({ collectionId, linkId }: { collectionId: string; linkId: string }) => {
+      const result = await removeLinkFromCollection(collectionId, linkId)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to remove link from collection')
+      }
+      return result
+    },
+    onSuccess: () => {
+      invalidateCollections()
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      })
+    },
+  })
+}
+
+/**
+ * Hook for storing the manual order of a collection's links
+ */
+export function useReorderCollectionLinks() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: async ({ collectionId, linkIds }: { collectionId: string; linkIds: string[] }) => {
+      const result = await reorderCollectionLinks(collectionId, linkIds)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to reorder collection')
+      }
+      return result
+    },
+    onSettled: (_, __, { collectionId }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.collections.detail(collectionId) })
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      })
+    },
+  })
+}
@@ -0,0 +1,59 @@
+'use client'
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { getDuplicateGroups, mergeDuplicateLinks } from '@/app/actions/duplicates'
+import { queryKeys } from '@/lib/react-query/query-client'
+import { useToast } from '@/hooks/use-toast'
+
+/**
+ * Hook for fetching groups of near-duplicate links
+ */
+export function useDuplicateGroups() {
+  return useQuery({
+    queryKey: queryKeys.links.duplicates,
+    queryFn: async () => {
+      const result = await getDuplicateGroups()
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to check for duplicates')
+      }
+      return result.data ?? []
+    },
+  })
+}
+
+/**
+ * Hook for merging a group of duplicates into one link
+ */
+export function useMergeDuplicates() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: async ({ linkIds, keepId }: { linkIds: string[]; keepId: string }) => {
+      const result = await mergeDuplicateLinks(linkIds, keepId)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to merge links')
+      }
+      return result.data
+    },
+    onSuccess: (data) => {
+      // links.all also covers the duplicate groups and the trash
+      queryClient.invalidateQueries({ queryKey: queryKeys.links.all })
+      queryClient.invalidateQueries({ queryKey: queryKeys.links.statistics })
+      queryClient.invalidateQueries({ queryKey: queryKeys.tags.all })
+      queryClient.invalidateQueries({ queryKey: queryKeys.user.stats })
+
+      toast({
+        title: 'Links Merged',
+        description: `${data?.removed ?? 0} duplicates moved to the trash`,
+      })
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      })
+    },
+  })
+}
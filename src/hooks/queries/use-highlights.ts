@@ -0,0 +1,127 @@
+'use client'
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import {
+  getHighlights,
+  createHighlight,
+  updateHighlightComment,
+  deleteHighlight,
+  type CreateHighlightInput,
+} from '@/app/actions/highlights'
+import { queryKeys } from '@/lib/react-query/query-client'
+import { useToast } from '@/hooks/use-toast'
+
+/**
+ * Hook for fetching the highlights of a link (reader view and highlights panel)
+ */
+export function useHighlights(linkId: string) {
+  return useQuery({
+    queryKey: queryKeys.links.highlights(linkId),
+    queryFn: async () => {
+      const result = await getHighlights(linkId)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to fetch highlights')
+      }
+      return result.data!
+    },
+  })
+}
+
+/**
+ * Shared cache refresh: the link's highlights and search results (highlights are searchable)
+ */
+function useInvalidateHighlights() {
+  const queryClient = useQueryClient()
+
+  return (linkId: string) => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.links.highlights(linkId) })
+    queryClient.invalidateQueries({ queryKey: queryKeys.links.lists() })
+  }
+}
+
+/**
+ * Hook for highlighting a passage in the reader view
+ */
+export function useCreateHighlight() {
+  const invalidateHighlights = useInvalidateHighlights()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: async (input: CreateHighlightInput) => {
+      const result = await createHighlight(input)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to save highlight')
+      }
+      return result.data!
+    },
+    onSuccess: (highlight) => {
+      invalidateHighlights(highlight.link_id)
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      })
+    },
+  })
+}
+
+/**
+ * Hook for editing the comment of a highlight
+ */
+export function useUpdateHighlightComment() {
+  const invalidateHighlights = useInvalidateHighlights()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: async ({ id, comment }: { id: string; linkId: string; comment: string | null }) => {
+      const result = await updateHighlightComment(id, comment)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to update highlight')
+      }
+      return result
+    },
+    onSuccess: (_, { linkId }) => {
+      invalidateHighlights(linkId)
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      })
+    },
+  })
+}
+
+/**
+ * Hook for removing a highlight
+ */
+export function useDeleteHighlight() {
+  const invalidateHighlights = useInvalidateHighlights()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: async ({ id }: { id: string; linkId: string }) => {
+      const result = await deleteHighlight(id)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to delete highlight')
+      }
+      return result
+    },
+    onSuccess: (_, { linkId }) => {
+      invalidateHighlights(linkId)
+      toast({
+        title: 'Highlight Removed',
+      })
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      })
+    },
+  })
+}
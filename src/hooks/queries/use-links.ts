@@ -1,32 +1,129 @@
 'use client'
 
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { useQuery, useMutation, useQueryClient, type QueryClient } from '@tanstack/react-query'
 import { searchLinks, type SearchParams, type SearchResult } from '@/app/actions/search'
-import { createLink, updateLink, deleteLink } from '@/app/actions/links'
+import {
+  getLink,
+  createLink,
+  quickSaveLink,
+  updateLink,
+  setReadingState,
+  deleteLink,
+  reprocessLinks,
+  reprocessFailedLinks,
+} from '@/app/actions/links'
+import { bulkImportUrls } from '@/app/actions/import'
 import { queryKeys } from '@/lib/react-query/query-client'
 import { useToast } from '@/hooks/use-toast'
+import { fetchWithOfflineCopy } from '@/lib/offline/link-cache'
+import { isNetworkError, isOffline } from '@/lib/offline/network'
+import { addToOutbox } from '@/lib/offline/outbox'
+import { fetchActiveWorkspace } from '@/hooks/queries/use-workspaces'
+import type { Link, LinkWithTags, ReadingState } from '@/types'
+
+// Poll interval while links on the current page are waiting for background processing
+const PROCESSING_POLL_INTERVAL = 3000
+
+/**
+ * Check if a link is still queued or being processed
+ */
+function isInProcessing(link: Pick<Link, 'ai_processing_status'>): boolean {
+  return link.ai_processing_status === 'pending' || link.ai_processing_status === 'processing'
+}
+
+/**
+ * Check if any link in the result is still queued or being processed
+ */
+function hasLinksInProcessing(result?: SearchResult): boolean {
+  return !!result?.links.some(isInProcessing)
+}
 
 /**
  * Hook for fetching and searching links with caching
  * Automatically caches results based on search parameters
+ * Polls while any visible link is still being processed in the background
+ * Recently viewed pages stay browsable offline
  */
 export function useLinks(params: SearchParams = {}) {
+  const queryKey = queryKeys.links.list(params)
+
   return useQuery({
-    queryKey: queryKeys.links.list(params),
-    queryFn: async () => {
-      const result = await searchLinks(params)
-      if (!result.success) {
-        throw new Error(result.error || 'Failed to fetch links')
-      }
-      return result.data as SearchResult
-    },
+    queryKey,
+    queryFn: () =>
+      fetchWithOfflineCopy(queryKey, async () => {
+        const result = await searchLinks(params)
+        if (!result.success) {
+          throw new Error(result.error || 'Failed to fetch links')
+        }
+        return result.data as SearchResult
+      }),
+    // Run while offline too, so the saved copy can be shown
+    networkMode: 'offlineFirst',
     // Keep data fresh for 5 minutes
     staleTime: 5 * 60 * 1000,
+    // Live progress for cards in the processing queue
+    refetchInterval: (query) =>
+      hasLinksInProcessing(query.state.data) ? PROCESSING_POLL_INTERVAL : false,
   })
 }
 
+/**
+ * Hook for fetching a single link (detail view)
+ * Polls while the link is still being processed in the background
+ */
+export function useLink(linkId: string) {
+  const queryKey = queryKeys.links.detail(linkId)
+
+  return useQuery({
+    queryKey,
+    queryFn: () =>
+      fetchWithOfflineCopy(queryKey, async () => {
+        const result = await getLink(linkId)
+        if (!result.success) {
+          throw new Error(result.error || 'Failed to fetch link')
+        }
+        return result.data as LinkWithTags
+      }),
+    networkMode: 'offlineFirst',
+    enabled: !!linkId,
+    refetchInterval: (query) =>
+      query.state.data && isInProcessing(query.state.data) ? PROCESSING_POLL_INTERVAL : false,
+  })
+}
+
+/**
+ * Put a link into the offline outbox instead of sending it
+ * The entry remembers the active user and space, so it is not sent into another one.
+ */
+async function queueOfflineLink(queryClient: QueryClient, formData: FormData) {
+  const active = await queryClient
+    .ensureQueryData({
+      queryKey: queryKeys.workspaces.active,
+      queryFn: fetchActiveWorkspace,
+      networkMode: 'always',
+    })
+    .catch(() => null)
+  if (!active) {
+    throw new Error('You are offline and the active space is not known on this device yet')
+  }
+
+  const title = formData.get('title') as string | null
+  const queued = addToOutbox(
+    {
+      url: formData.get('url') as string,
+      title: title || undefined,
+    },
+    { userId: active.userId, workspaceId: active.workspace?.id ?? null }
+  )
+  if (!queued) {
+    throw new Error('You are offline and this browser cannot keep links for later')
+  }
+  return { success: true, queued: true, data: undefined }
+}
+
 /**
  * Hook for creating a new link with automatic cache invalidation
+ * Offline, the link goes to the outbox and is sent when the connection returns
  */
 export function useCreateLink() {
   const queryClient = useQueryClient()
@@ -34,13 +131,34 @@ export function useCreateLink() {
 
   return useMutation({
     mutationFn: async (formData: FormData) => {
-      const result = await createLink(formData)
+      if (isOffline()) {
+        return queueOfflineLink(queryClient, formData)
+      }
+
+      let result: Awaited<ReturnType<typeof createLink>>
+      try {
+        result = await createLink(formData)
+      } catch (error) {
+        if (isNetworkError(error)) return queueOfflineLink(queryClient, formData)
+        throw error
+      }
+
       if (!result.success) {
         throw new Error(result.error || 'Failed to create link')
       }
-      return result
+      return { ...result, queued: false }
     },
+    // Not paused while offline - the outbox takes the link
+    networkMode: 'always',
     onSuccess: (result) => {
+      if (result.queued) {
+        toast({
+          title: 'Saved offline',
+          description: 'The link will be added when you are back online.',
+        })
+        return
+      }
+
       // Invalidate all link queries to refetch data
       queryClient.invalidateQueries({ queryKey: queryKeys.links.all })
       queryClient.invalidateQueries({ queryKey: queryKeys.links.statistics })
@@ -49,7 +167,7 @@ export function useCreateLink() {
       const linkTitle = result.data?.title || 'Link'
       toast({
         title: 'Link added!',
-        description: `"${linkTitle}" has been saved with AI-generated description and tags.`,
+        description: `"${linkTitle}" has been saved. AI description and tags will appear in a moment.`,
       })
     },
     onError: (error: Error) => {
@@ -62,6 +180,29 @@ export function useCreateLink() {
   })
 }
 
+/**
+ * Hook for saving a link from the bookmarklet or a share sheet (/save)
+ * Errors are shown on the page instead of a toast, as it may be a popup.
+ */
+export function useQuickSaveLink() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ url, title }: { url: string; title?: string }) => {
+      const result = await quickSaveLink(url, title)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to save link')
+      }
+      return result.data!
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.links.all })
+      queryClient.invalidateQueries({ queryKey: queryKeys.links.statistics })
+      queryClient.invalidateQueries({ queryKey: queryKeys.user.stats })
+    },
+  })
+}
+
 /**
  * Hook for updating an existing link
  */
@@ -99,6 +240,36 @@ export function useUpdateLink() {
   })
 }
 
+/**
+ * Hook for moving a link to another reading state
+ * Used by quick toggles, so only failures are announced
+ */
+export function useSetReadingState() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: async ({ linkId, state }: { linkId: string; state: ReadingState }) => {
+      const result = await setReadingState(linkId, state)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to update reading state')
+      }
+      return result
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.links.all })
+      queryClient.invalidateQueries({ queryKey: queryKeys.links.statistics })
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      })
+    },
+  })
+}
+
 /**
  * Hook for deleting a link (soft delete)
  */
@@ -122,7 +293,98 @@ export function useDeleteLink() {
 
       toast({
         title: 'Link Deleted',
-        description: 'The link has been removed',
+        description: 'The link has been moved to the trash',
+      })
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      })
+    },
+  })
+}
+
+export interface ReprocessLinksInput {
+  linkIds?: string[] // Omit to re-process all failed links
+  keepEdits: boolean
+}
+
+/**
+ * Hook for sending links through scraping + AI processing again
+ */
+export function useReprocessLinks() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: async ({ linkIds, keepEdits }: ReprocessLinksInput) => {
+      const result = linkIds
+        ? await reprocessLinks(linkIds, { keepEdits })
+        : await reprocessFailedLinks({ keepEdits })
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to re-process links')
+      }
+      return result
+    },
+    onSuccess: (result) => {
+      // Refetch so the cards switch to the queued state and polling kicks in
+      queryClient.invalidateQueries({ queryKey: queryKeys.links.all })
+      queryClient.invalidateQueries({ queryKey: queryKeys.links.statistics })
+
+      const queued = result.data?.queued || 0
+      const remaining = result.data?.remaining || 0
+      let description =
+        queued > 0
+          ? `${queued} link${queued === 1 ? '' : 's'} queued for scraping and AI processing.`
+          : 'The selected links are already being processed.'
+      if (remaining > 0) {
+        description += ` ${remaining} failed link${remaining === 1 ? ' is' : 's are'} left, try again.`
+      }
+      toast({
+        title: queued > 0 ? 'Re-processing started' : 'Nothing to re-process',
+        description,
+      })
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      })
+    },
+  })
+}
+
+/**
+ * Hook for importing every URL found in a pasted text blob
+ * The per-URL report is returned to the caller; the toast only summarizes it
+ */
+export function useBulkImportLinks() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: async (text: string) => {
+      const result = await bulkImportUrls(text)
+      if (!result.success || !result.data) {
+        throw new Error(result.error || 'Failed to import links')
+      }
+      return result.data
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.links.all })
+      queryClient.invalidateQueries({ queryKey: queryKeys.links.statistics })
+      queryClient.invalidateQueries({ queryKey: queryKeys.user.stats })
+
+      const { created, rate_limited } = result.counts
+      toast({
+        title: 'Import finished',
+        description:
+          rate_limited > 0
+            ? `${created} added now, ${rate_limited} queued until your hourly limit resets.`
+            : `${created} link${created === 1 ? '' : 's'} added.`,
       })
     },
     onError: (error: Error) => {
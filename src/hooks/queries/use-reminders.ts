@@ -0,0 +1,85 @@
+'use client'
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { getTodayLinks, snoozeLink, dismissTodayLink } from '@/app/actions/reminders'
+import { queryKeys } from '@/lib/react-query/query-client'
+import { useToast } from '@/hooks/use-toast'
+
+/**
+ * Hook for fetching the dashboard "Today" section
+ */
+export function useTodayLinks() {
+  return useQuery({
+    queryKey: queryKeys.links.today,
+    queryFn: async () => {
+      const result = await getTodayLinks()
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to fetch reminders')
+      }
+      return result.data!
+    },
+  })
+}
+
+/**
+ * Hook for snoozing a link in the Today section
+ */
+export function useSnoozeLink() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: async ({ linkId, days }: { linkId: string; days: number }) => {
+      const result = await snoozeLink(linkId, days)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to snooze link')
+      }
+      return result.data
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.links.all })
+
+      toast({
+        title: 'Link Snoozed',
+        description: data
+          ? `The link will come back on ${new Date(data.remindAt).toLocaleDateString()}`
+          : 'The link will come back later',
+      })
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      })
+    },
+  })
+}
+
+/**
+ * Hook for dismissing a link from the Today section
+ */
+export function useDismissTodayLink() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: async (linkId: string) => {
+      const result = await dismissTodayLink(linkId)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to dismiss link')
+      }
+      return result
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.links.all })
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      })
+    },
+  })
+}
@@ -0,0 +1,116 @@
+'use client'
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import {
+  getShareLinks,
+  createShareLink,
+  revokeShareLink,
+  deleteShareLink,
+  type CreateShareLinkInput,
+} from '@/app/actions/shares'
+import { queryKeys } from '@/lib/react-query/query-client'
+import { useToast } from '@/hooks/use-toast'
+
+/**
+ * Hook for fetching the user's public share links
+ */
+export function useShareLinks() {
+  return useQuery({
+    queryKey: queryKeys.shares.all,
+    queryFn: async () => {
+      const result = await getShareLinks()
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to fetch share links')
+      }
+      return result.data!
+    },
+  })
+}
+
+/**
+ * Hook for publishing a tag, collection or saved search
+ */
+export function useCreateShareLink() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: async (input: CreateShareLinkInput) => {
+      const result = await createShareLink(input)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to create share link')
+      }
+      return result.data!
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.shares.all })
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      })
+    },
+  })
+}
+
+/**
+ * Hook for turning a share link off
+ */
+export function useRevokeShareLink() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const result = await revokeShareLink(id)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to revoke share link')
+      }
+      return result
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.shares.all })
+      toast({
+        title: 'Share Link Revoked',
+        description: 'The public page is no longer available',
+      })
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      })
+    },
+  })
+}
+
+/**
+ * Hook for removing a share link from the list
+ */
+export function useDeleteShareLink() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const result = await deleteShareLink(id)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to delete share link')
+      }
+      return result
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.shares.all })
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      })
+    },
+  })
+}
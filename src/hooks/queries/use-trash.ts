@@ -0,0 +1,141 @@
+'use client'
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { getTrashedLinks, restoreLink, deleteLinkForever, emptyTrash } from '@/app/actions/trash'
+import { queryKeys } from '@/lib/react-query/query-client'
+import { useToast } from '@/hooks/use-toast'
+import type { RestoreConflictStrategy } from '@/types'
+
+/**
+ * Hook for fetching the links in the trash
+ */
+export function useTrashedLinks() {
+  return useQuery({
+    queryKey: queryKeys.links.trash,
+    queryFn: async () => {
+      const result = await getTrashedLinks()
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to fetch trash')
+      }
+      return result.data
+    },
+  })
+}
+
+/**
+ * Hook for restoring a link from the trash
+ * A URL conflict is not an error: the result carries conflictingLinkId so the
+ * caller can ask the user how to resolve it and call again with onConflict.
+ */
+export function useRestoreLink() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: async ({
+      linkId,
+      onConflict,
+    }: {
+      linkId: string
+      onConflict?: RestoreConflictStrategy
+    }) => {
+      const result = await restoreLink(linkId, { onConflict })
+      if (!result.success && !result.conflictingLinkId) {
+        throw new Error(result.error || 'Failed to restore link')
+      }
+      return result
+    },
+    onSuccess: (result, { onConflict }) => {
+      if (!result.success) return
+
+      // links.all also covers the trash list
+      queryClient.invalidateQueries({ queryKey: queryKeys.links.all })
+      queryClient.invalidateQueries({ queryKey: queryKeys.links.statistics })
+      queryClient.invalidateQueries({ queryKey: queryKeys.tags.all })
+      queryClient.invalidateQueries({ queryKey: queryKeys.user.stats })
+
+      toast({
+        title: onConflict === 'merge' ? 'Links Merged' : 'Link Restored',
+        description:
+          onConflict === 'merge'
+            ? 'Tags and details were added to the link you saved again'
+            : 'The link is back on your dashboard',
+      })
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      })
+    },
+  })
+}
+
+/**
+ * Hook for permanently deleting a link from the trash
+ */
+export function useDeleteLinkForever() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: async (linkId: string) => {
+      const result = await deleteLinkForever(linkId)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to delete link')
+      }
+      return result
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.links.trash })
+      queryClient.invalidateQueries({ queryKey: queryKeys.tags.all })
+
+      toast({
+        title: 'Link Deleted',
+        description: 'The link has been deleted permanently',
+      })
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      })
+    },
+  })
+}
+
+/**
+ * Hook for permanently deleting everything in the trash
+ */
+export function useEmptyTrash() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: async () => {
+      const result = await emptyTrash()
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to empty trash')
+      }
+      return result.data
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.links.trash })
+      queryClient.invalidateQueries({ queryKey: queryKeys.tags.all })
+
+      toast({
+        title: 'Trash Emptied',
+        description: `${data?.deleted ?? 0} links deleted permanently`,
+      })
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      })
+    },
+  })
+}
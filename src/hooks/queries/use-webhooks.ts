@@ -0,0 +1,172 @@
+'use client'
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import {
+  getWebhookEndpoints,
+  createWebhookEndpoint,
+  updateWebhookEndpoint,
+  deleteWebhookEndpoint,
+  getWebhookDeliveries,
+  redeliverWebhook,
+  type CreateWebhookEndpointInput,
+  type UpdateWebhookEndpointInput,
+} from '@/app/actions/webhooks'
+import { queryKeys } from '@/lib/react-query/query-client'
+import { useToast } from '@/hooks/use-toast'
+
+/**
+ * Hook for fetching the user's webhook endpoints
+ */
+export function useWebhookEndpoints() {
+  return useQuery({
+    queryKey: queryKeys.webhooks.all,
+    queryFn: async () => {
+      const result = await getWebhookEndpoints()
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to fetch webhooks')
+      }
+      return result.data!
+    },
+  })
+}
+
+/**
+ * Hook for the delivery log of an endpoint (loaded when the log is opened)
+ */
+export function useWebhookDeliveries(endpointId: string, enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.webhooks.deliveries(endpointId),
+    queryFn: async () => {
+      const result = await getWebhookDeliveries(endpointId)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to fetch deliveries')
+      }
+      return result.data!
+    },
+    enabled,
+  })
+}
+
+/**
+ * Hook for adding an endpoint
+ */
+export function useCreateWebhookEndpoint() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: async (input: CreateWebhookEndpointInput) => {
+      const result = await createWebhookEndpoint(input)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to create webhook')
+      }
+      return result.data!
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.webhooks.all })
+      toast({
+        title: 'Webhook Added',
+        description: 'Events are sent to the endpoint from now on',
+      })
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      })
+    },
+  })
+}
+
+/**
+ * Hook for turning an endpoint on/off or changing its events
+ */
+export function useUpdateWebhookEndpoint() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: async (input: UpdateWebhookEndpointInput) => {
+      const result = await updateWebhookEndpoint(input)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to update webhook')
+      }
+      return result
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.webhooks.all })
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      })
+    },
+  })
+}
+
+/**
+ * Hook for deleting an endpoint
+ */
+export function useDeleteWebhookEndpoint() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const result = await deleteWebhookEndpoint(id)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to delete webhook')
+      }
+      return result
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.webhooks.all })
+      toast({
+        title: 'Webhook Deleted',
+        description: 'The endpoint no longer receives events',
+      })
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      })
+    },
+  })
+}
+
+/**
+ * Hook for sending a delivery again
+ */
+export function useRedeliverWebhook(endpointId: string) {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: async (deliveryId: string) => {
+      const result = await redeliverWebhook(deliveryId)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to redeliver webhook')
+      }
+      return result
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.webhooks.deliveries(endpointId) })
+      toast({
+        title: 'Redelivery Queued',
+        description: 'The event is sent again in a moment',
+      })
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      })
+    },
+  })
+}
@@ -0,0 +1,414 @@
+'use client'
+
+import { useRouter } from 'next/navigation'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import {
+  getWorkspaces,
+  getActiveWorkspace,
+  setActiveWorkspace,
+  createWorkspace,
+  renameWorkspace,
+  deleteWorkspace,
+  leaveWorkspace,
+  getWorkspaceMembers,
+  updateMemberRole,
+  removeMember,
+  getInvitations,
+  createInvitation,
+  revokeInvitation,
+  acceptInvitation,
+} from '@/app/actions/workspaces'
+import { queryKeys } from '@/lib/react-query/query-client'
+import { clearCachedQueries, fetchWithOfflineCopy } from '@/lib/offline/link-cache'
+import { useToast } from '@/hooks/use-toast'
+import type { ActiveWorkspace, WorkspaceRole } from '@/types'
+
+/**
+ * Hook for fetching the workspaces the user is a member of
+ */
+export function useWorkspaces() {
+  return useQuery({
+    queryKey: queryKeys.workspaces.lists(),
+    queryFn: async () => {
+      const result = await getWorkspaces()
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to fetch workspaces')
+      }
+      return result.data!
+    },
+  })
+}
+
+/**
+ * Get the space picked in the workspace switcher
+ * Offline, the copy from the last visit is used so links queued in the outbox know their space.
+ */
+export function fetchActiveWorkspace(): Promise<ActiveWorkspace> {
+  return fetchWithOfflineCopy(queryKeys.workspaces.active, async () => {
+    const result = await getActiveWorkspace()
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to fetch workspace')
+    }
+    return result.data!
+  })
+}
+
+/**
+ * Hook for fetching the space picked in the workspace switcher
+ */
+export function useActiveWorkspace() {
+  return useQuery({
+    queryKey: queryKeys.workspaces.active,
+    queryFn: fetchActiveWorkspace,
+    networkMode: 'offlineFirst',
+  })
+}
+
+/**
+ * Everything cached belongs to the previous space - refetch it all after a switch
+ */
+function useResetSpace() {
+  const queryClient = useQueryClient()
+  const router = useRouter()
+
+  return () => {
+    clearCachedQueries()
+    queryClient.invalidateQueries()
+    router.refresh()
+  }
+}
+
+/**
+ * Hook for switching between the personal space (null) and workspaces
+ */
+export function useSetActiveWorkspace() {
+  const resetSpace = useResetSpace()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: async (workspaceId: string | null) => {
+      const result = await setActiveWorkspace(workspaceId)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to switch workspace')
+      }
+      return result
+    },
+    onSuccess: () => {
+      resetSpace()
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      })
+    },
+  })
+}
+
+/**
+ * Hook for creating a workspace
+ */
+export function useCreateWorkspace() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: async (name: string) => {
+      const result = await createWorkspace(name)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to create workspace')
+      }
+      return result.data!
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.workspaces.lists() })
+      toast({
+        title: 'Workspace Created',
+        description: 'Invite people to start sharing links',
+      })
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      })
+    },
+  })
+}
+
+/**
+ * Hook for renaming a workspace
+ */
+export function useRenameWorkspace() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: async ({ id, name }: { id: string; name: string }) => {
+      const result = await renameWorkspace(id, name)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to rename workspace')
+      }
+      return result
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.workspaces.all })
+      toast({
+        title: 'Workspace Renamed',
+      })
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      })
+    },
+  })
+}
+
+/**
+ * Hook for deleting a workspace with all its content
+ */
+export function useDeleteWorkspace() {
+  const resetSpace = useResetSpace()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const result = await deleteWorkspace(id)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to delete workspace')
+      }
+      return result
+    },
+    onSuccess: () => {
+      resetSpace()
+      toast({
+        title: 'Workspace Deleted',
+      })
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      })
+    },
+  })
+}
+
+/**
+ * Hook for leaving a workspace
+ */
+export function useLeaveWorkspace() {
+  const resetSpace = useResetSpace()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const result = await leaveWorkspace(id)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to leave workspace')
+      }
+      return result
+    },
+    onSuccess: () => {
+      resetSpace()
+      toast({
+        title: 'Left Workspace',
+      })
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      })
+    },
+  })
+}
+
+/**
+ * Hook for fetching the members of a workspace
+ */
+export function useWorkspaceMembers(workspaceId: string) {
+  return useQuery({
+    queryKey: queryKeys.workspaces.members(workspaceId),
+    queryFn: async () => {
+      const result = await getWorkspaceMembers(workspaceId)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to fetch members')
+      }
+      return result.data!
+    },
+    enabled: !!workspaceId,
+  })
+}
+
+/**
+ * Hook for changing the role of a member
+ */
+export function useUpdateMemberRole() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: async ({
+      workspaceId,
+      userId,
+      role,
+    }: {
+      workspaceId: string
+      userId: string
+      role: WorkspaceRole
+    }) => {
+      const result = await updateMemberRole(workspaceId, userId, role)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to change role')
+      }
+      return result
+    },
+    onSuccess: (_, { workspaceId }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.workspaces.members(workspaceId) })
+      queryClient.invalidateQueries({ queryKey: queryKeys.workspaces.lists() })
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      })
+    },
+  })
+}
+
+/**
+ * Hook for removing a member from a workspace
+ */
+export function useRemoveMember() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: async ({ workspaceId, userId }: { workspaceId: string; userId: string }) => {
+      const result = await removeMember(workspaceId, userId)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to remove member')
+      }
+      return result
+    },
+    onSuccess: (_, { workspaceId }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.workspaces.members(workspaceId) })
+      queryClient.invalidateQueries({ queryKey: queryKeys.workspaces.lists() })
+      toast({
+        title: 'Member Removed',
+      })
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      })
+    },
+  })
+}
+
+/**
+ * Hook for fetching the pending invitations of a workspace (owners only)
+ */
+export function useInvitations(workspaceId: string, enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.workspaces.invitations(workspaceId),
+    queryFn: async () => {
+      const result = await getInvitations(workspaceId)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to fetch invitations')
+      }
+      return result.data!
+    },
+    enabled: !!workspaceId && enabled,
+  })
+}
+
+/**
+ * Hook for inviting someone to a workspace
+ */
+export function useCreateInvitation() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: async (input: { workspaceId: string; email: string; role: 'editor' | 'viewer' }) => {
+      const result = await createInvitation(input)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to create invitation')
+      }
+      return result.data!
+    },
+    onSuccess: (invitation) => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.workspaces.invitations(invitation.workspace_id),
+      })
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      })
+    },
+  })
+}
+
+/**
+ * Hook for withdrawing an invitation
+ */
+export function useRevokeInvitation() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  return useMutation({
+    mutationFn: async ({ id }: { id: string; workspaceId: string }) => {
+      const result = await revokeInvitation(id)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to revoke invitation')
+      }
+      return result
+    },
+    onSuccess: (_, { workspaceId }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.workspaces.invitations(workspaceId) })
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      })
+    },
+  })
+}
+
+/**
+ * Hook for joining a workspace through an invitation link
+ */
+export function useAcceptInvitation() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (token: string) => {
+      const result = await acceptInvitation(token)
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to accept invitation')
+      }
+      return result.data!
+    },
+    onSuccess: () => {
+      // The invitation switches to the new workspace
+      queryClient.invalidateQueries()
+    },
+  })
+}
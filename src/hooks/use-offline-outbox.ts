@@ -0,0 +1,138 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { useQueryClient } from '@tanstack/react-query'
+import { createLink } from '@/app/actions/links'
+import { queryKeys } from '@/lib/react-query/query-client'
+import { useToast } from '@/hooks/use-toast'
+import { fetchActiveWorkspace, useActiveWorkspace } from '@/hooks/queries/use-workspaces'
+import { isNetworkError, isOffline } from '@/lib/offline/network'
+import {
+  getOutbox,
+  getOutboxSyncOutcome,
+  isInOutboxSpace,
+  removeFromOutbox,
+  OUTBOX_CHANGE_EVENT,
+  type OutboxLink,
+  type OutboxSpace,
+} from '@/lib/offline/outbox'
+
+/**
+ * Hook for the offline outbox: the queued links and whether the browser is online
+ * Sends the queued links through createLink on mount and whenever the connection returns.
+ * Links added in another space (or by another user) wait until that space is active again
+ * and are returned separately as `otherSpaceLinks`.
+ * Mount it once (OfflineSupport), otherwise links are sent twice.
+ */
+export function useOfflineOutbox() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+  const { data: active } = useActiveWorkspace()
+  const [allLinks, setAllLinks] = useState<OutboxLink[]>([])
+  const [online, setOnline] = useState(true)
+  const syncingRef = useRef(false)
+
+  const sync = useCallback(async () => {
+    if (syncingRef.current || isOffline()) return
+    syncingRef.current = true
+
+    let synced = 0
+    try {
+      let activeSpace: OutboxSpace
+      try {
+        const current = await queryClient.fetchQuery({
+          queryKey: queryKeys.workspaces.active,
+          queryFn: fetchActiveWorkspace,
+        })
+        activeSpace = { userId: current.userId, workspaceId: current.workspace?.id ?? null }
+      } catch {
+        // Signed out or the connection dropped - try again on the next sync
+        return
+      }
+
+      for (const link of getOutbox()) {
+        if (!isInOutboxSpace(link, activeSpace)) continue
+
+        const formData = new FormData()
+        formData.append('url', link.url)
+        if (link.title) formData.append('title', link.title)
+
+        let result: { success: boolean; error?: string }
+        try {
+          result = await createLink(formData)
+        } catch (error) {
+          // Connection dropped again - keep the rest for the next attempt
+          if (isNetworkError(error)) break
+          result = { success: false, error: error instanceof Error ? error.message : undefined }
+        }
+
+        const outcome = getOutboxSyncOutcome(result)
+        if (outcome === 'retry') break
+
+        removeFromOutbox(link.id)
+        if (outcome === 'synced') {
+          synced++
+        } else if (outcome === 'conflict') {
+          toast({
+            title: 'Already saved',
+            description: `${link.url} is already in your library - the offline copy was dropped.`,
+          })
+        } else {
+          toast({
+            title: 'Could not add offline link',
+            description: `${link.url}: ${result.error || 'Failed to create link'}`,
+            variant: 'destructive',
+          })
+        }
+      }
+    } finally {
+      syncingRef.current = false
+    }
+
+    if (synced > 0) {
+      queryClient.invalidateQueries({ queryKey: queryKeys.links.all })
+      queryClient.invalidateQueries({ queryKey: queryKeys.links.statistics })
+      queryClient.invalidateQueries({ queryKey: queryKeys.user.stats })
+      toast({
+        title: 'Offline links synced',
+        description: `${synced} ${synced === 1 ? 'link was' : 'links were'} added to your library.`,
+      })
+    }
+  }, [queryClient, toast])
+
+  useEffect(() => {
+    const handleOutboxChange = () => setAllLinks(getOutbox())
+    const handleOnline = () => {
+      setOnline(true)
+      sync()
+    }
+    const handleOffline = () => setOnline(false)
+
+    handleOutboxChange()
+    setOnline(!isOffline())
+    sync()
+
+    window.addEventListener(OUTBOX_CHANGE_EVENT, handleOutboxChange)
+    window.addEventListener('online', handleOnline)
+    window.addEventListener('offline', handleOffline)
+
+    return () => {
+      window.removeEventListener(OUTBOX_CHANGE_EVENT, handleOutboxChange)
+      window.removeEventListener('online', handleOnline)
+      window.removeEventListener('offline', handleOffline)
+    }
+  }, [sync])
+
+  // Links of the space switched to are sent right away
+  const userId = active?.userId
+  const workspaceId = active?.workspace?.id ?? null
+  useEffect(() => {
+    if (userId) sync()
+  }, [userId, workspaceId, sync])
+
+  const space = userId ? { userId, workspaceId } : null
+  const links = space ? allLinks.filter((link) => isInOutboxSpace(link, space)) : allLinks
+  const otherSpaceLinks = space ? allLinks.filter((link) => !isInOutboxSpace(link, space)) : []
+
+  return { links, otherSpaceLinks, online, sync }
+}
@@ -0,0 +1,145 @@
+/**
+ * Authentication and responses of the REST API (/api/v1/*)
+ * Requests carry a personal access token instead of a session, so the routes use the
+ * service role and every query is limited to the token's space with scopeQuery.
+ */
+
+import { NextResponse } from 'next/server'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createAdminClient } from '@/lib/supabase/server'
+import { canEditContent, READ_ONLY_ERROR, type WorkspaceScope } from '@/lib/workspaces/scope'
+import type { WorkspaceRole } from '@/types'
+import {
+  getQueryToken,
+  hasApiScope,
+  hashApiToken,
+  isValidApiToken,
+  parseBearerToken,
+  type ApiScope,
+} from './tokens'
+
+export interface ApiContext {
+  supabase: SupabaseClient // Service role client - always filter by scope
+  scope: WorkspaceScope
+}
+
+export type ApiAuthResult =
+  | { context: ApiContext; response?: undefined }
+  | { context?: undefined; response: NextResponse }
+
+/**
+ * JSON error body of the API
+ */
+export function apiError(error: string, status: number): NextResponse {
+  return NextResponse.json({ error }, { status })
+}
+
+/**
+ * Turn a `{ success, data, error }` result of the shared link and tag helpers into a response
+ * Missing rows answer 404, name clashes 409, failed queries 500 and everything else
+ * (validation) 400.
+ */
+export function apiResult<T>(
+  result: { success: boolean; data?: T; error?: string },
+  successStatus = 200
+): NextResponse {
+  if (result.success) {
+    return NextResponse.json({ data: result.data ?? null }, { status: successStatus })
+  }
+
+  const error = result.error || 'Request failed'
+  if (/not found$/i.test(error)) return apiError(error, 404)
+  if (/already exists$/i.test(error)) return apiError(error, 409)
+  if (/^failed/i.test(error)) return apiError(error, 500)
+  return apiError(error, 400)
+}
+
+/**
+ * Parse a JSON request body, null when it is missing or malformed
+ */
+export async function readJsonBody(request: Request): Promise<Record<string, unknown> | null> {
+  try {
+    const body = await request.json()
+    return body && typeof body === 'object' && !Array.isArray(body) ? body : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Check the bearer token of a request and that it grants the scope
+ * Write scopes also need a role that can change content in the token's space.
+ * Feeds (feeds:read) also accept the token as `?token=`.
+ */
+export async function authenticateApiRequest(
+  request: Request,
+  requiredScope: ApiScope
+): Promise<ApiAuthResult> {
+  const token =
+    parseBearerToken(request.headers.get('authorization')) ??
+    (requiredScope === 'feeds:read' ? getQueryToken(request.url) : null)
+  if (!token || !isValidApiToken(token)) {
+    return { response: apiError('Missing or invalid access token', 401) }
+  }
+
+  const supabase = createAdminClient()
+  const { data: apiToken, error } = await supabase
+    .from('personal_access_tokens')
+    .select('id, user_id, workspace_id, scopes, expires_at')
+    .eq('token_hash', await hashApiToken(token))
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error looking up access token:', error)
+    return { response: apiError('Failed to verify access token', 500) }
+  }
+
+  if (!apiToken) {
+    return { response: apiError('Missing or invalid access token', 401) }
+  }
+
+  if (apiToken.expires_at && new Date(apiToken.expires_at).getTime() <= Date.now()) {
+    return { response: apiError('Access token has expired', 401) }
+  }
+
+  if (!hasApiScope(apiToken.scopes, requiredScope)) {
+    return { response: apiError(`Access token is missing the ${requiredScope} scope`, 403) }
+  }
+
+  // Look the role up on every request so removed members lose access right away
+  let role: WorkspaceRole = 'owner'
+  if (apiToken.workspace_id) {
+    const { data: membership } = await supabase
+      .from('workspace_members')
+      .select('role')
+      .eq('workspace_id', apiToken.workspace_id)
+      .eq('user_id', apiToken.user_id)
+      .maybeSingle()
+
+    if (!membership) {
+      return { response: apiError('You are no longer a member of this workspace', 403) }
+    }
+    role = membership.role as WorkspaceRole
+  }
+
+  if (requiredScope.endsWith(':write') && !canEditContent(role)) {
+    return { response: apiError(READ_ONLY_ERROR, 403) }
+  }
+
+  // Best effort - a failed timestamp update does not fail the request
+  const { error: touchError } = await supabase
+    .from('personal_access_tokens')
+    .update({ last_used_at: new Date().toISOString() })
+    .eq('id', apiToken.id)
+
+  if (touchError) {
+    console.error('Error updating token last use:', touchError)
+  }
+
+  return {
+    context: {
+      supabase,
+      scope: { userId: apiToken.user_id, workspaceId: apiToken.workspace_id, role },
+    },
+  }
+}
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest'
+import { parseExportParams, parseLinkSearchParams } from './params'
+
+const validId = '123e4567-e89b-12d3-a456-426614174000'
+
+describe('parseLinkSearchParams', () => {
+  it('should map the query string to search filters', () => {
+    const result = parseLinkSearchParams(
+      new URLSearchParams(
+        `q=react&tags=${validId}&state=unread,reading&sort=date-desc&page=2&per_page=50`
+      )
+    )
+
+    expect(result).toEqual({
+      success: true,
+      data: {
+        query: 'react',
+        tagIds: [validId],
+        readingStates: ['unread', 'reading'],
+        sortBy: 'date-desc',
+        page: 2,
+        pageSize: 50,
+      },
+    })
+  })
+
+  it('should use the default page size', () => {
+    const result = parseLinkSearchParams(new URLSearchParams())
+    expect(result.success && result.data.pageSize).toBe(20)
+  })
+
+  it('should reject unknown states and oversized pages', () => {
+    expect(parseLinkSearchParams(new URLSearchParams('state=later')).success).toBe(false)
+    expect(parseLinkSearchParams(new URLSearchParams('per_page=500')).success).toBe(false)
+    expect(parseLinkSearchParams(new URLSearchParams('tags=abc')).success).toBe(false)
+  })
+})
+
+describe('parseExportParams', () => {
+  it('should export JSON without deleted links by default', () => {
+    expect(parseExportParams(new URLSearchParams())).toEqual({
+      success: true,
+      data: { format: 'json', options: { includeDeleted: false } },
+    })
+  })
+
+  it('should accept md for markdown and the include_deleted flag', () => {
+    expect(parseExportParams(new URLSearchParams('format=md&include_deleted=1'))).toEqual({
+      success: true,
+      data: { format: 'markdown', options: { includeDeleted: true } },
+    })
+    const result = parseExportParams(new URLSearchParams('format=csv&include_deleted=false'))
+    expect(result.success && result.data.options.includeDeleted).toBe(false)
+  })
+
+  it('should reject unknown formats and flag values', () => {
+    expect(parseExportParams(new URLSearchParams('format=xml')).success).toBe(false)
+    expect(parseExportParams(new URLSearchParams('include_deleted=yes')).success).toBe(false)
+  })
+})
@@ -0,0 +1,102 @@
+/**
+ * Query string of the link list and search endpoints (/api/v1/links, /api/v1/search)
+ * e.g. ?q=react&tags=<id>,<id>&state=unread,reading&sort=date-desc&page=2&per_page=50
+ * and of the export downloads (/api/export, /api/v1/export), e.g. ?format=csv&include_deleted=1
+ */
+
+import { z } from 'zod'
+import { readingStateSchema } from '@/lib/validations/links'
+import type { SearchParams } from '@/lib/links/search'
+import { EXPORT_FORMATS, type ExportFormat, type ExportOptions } from '@/lib/links/export'
+
+export const API_DEFAULT_PAGE_SIZE = 20
+export const API_MAX_PAGE_SIZE = 100
+
+// Comma separated list, empty entries dropped
+const listParam = z
+  .string()
+  .transform((value) => value.split(',').map((item) => item.trim()).filter(Boolean))
+
+const linkSearchQuerySchema = z.object({
+  q: z.string().trim().max(200, 'Query can be at most 200 characters').optional(),
+  tags: listParam.pipe(z.array(z.string().uuid('Invalid tag ID')).max(10)).optional(),
+  state: listParam.pipe(z.array(readingStateSchema)).optional(),
+  sort: z.enum(['rating', 'date-desc', 'date-asc', 'relevance']).optional(),
+  page: z.coerce.number().int().min(1).optional(),
+  per_page: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .max(API_MAX_PAGE_SIZE, `per_page can be at most ${API_MAX_PAGE_SIZE}`)
+    .optional(),
+})
+
+/**
+ * Read the search filters of a request URL
+ */
+export function parseLinkSearchParams(
+  searchParams: URLSearchParams
+): { success: true; data: SearchParams } | { success: false; error: string } {
+  const validation = linkSearchQuerySchema.safeParse(Object.fromEntries(searchParams))
+  if (!validation.success) {
+    return {
+      success: false,
+      error: validation.error.issues[0]?.message || 'Invalid query parameters',
+    }
+  }
+
+  const { q, tags, state, sort, page, per_page } = validation.data
+  return {
+    success: true,
+    data: {
+      query: q,
+      tagIds: tags,
+      readingStates: state,
+      sortBy: sort,
+      page,
+      pageSize: per_page ?? API_DEFAULT_PAGE_SIZE,
+    },
+  }
+}
+
+// Short names accepted next to the full ones
+const EXPORT_FORMAT_ALIASES: Record<string, ExportFormat> = { md: 'markdown' }
+
+const flagParam = z
+  .enum(['1', '0', 'true', 'false'], 'Use 1/true or 0/false')
+  .transform((value) => value === '1' || value === 'true')
+
+const exportQuerySchema = z.object({
+  format: z
+    .string()
+    .transform((value) => EXPORT_FORMAT_ALIASES[value] ?? value)
+    .pipe(z.enum(EXPORT_FORMATS, 'Unknown format (use json, csv or markdown)'))
+    .optional(),
+  include_deleted: flagParam.optional(),
+})
+
+/**
+ * Read the format and options of an export request - JSON unless ?format= says otherwise
+ */
+export function parseExportParams(
+  searchParams: URLSearchParams
+):
+  | { success: true; data: { format: ExportFormat; options: ExportOptions } }
+  | { success: false; error: string } {
+  const validation = exportQuerySchema.safeParse(Object.fromEntries(searchParams))
+  if (!validation.success) {
+    return {
+      success: false,
+      error: validation.error.issues[0]?.message || 'Invalid query parameters',
+    }
+  }
+
+  const { format, include_deleted } = validation.data
+  return {
+    success: true,
+    data: {
+      format: format ?? 'json',
+      options: { includeDeleted: include_deleted ?? false },
+    },
+  }
+}
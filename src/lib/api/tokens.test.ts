@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest'
+import {
+  generateApiToken,
+  getApiTokenPrefix,
+  getQueryToken,
+  hasApiScope,
+  hashApiToken,
+  isValidApiToken,
+  parseBearerToken,
+} from './tokens'
+
+describe('generateApiToken', () => {
+  it('should create distinct prefixed tokens', () => {
+    const first = generateApiToken()
+    const second = generateApiToken()
+
+    expect(first).not.toBe(second)
+    expect(first.startsWith('tl_pat_')).toBe(true)
+    expect(isValidApiToken(first)).toBe(true)
+  })
+})
+
+describe('isValidApiToken', () => {
+  it('should reject malformed tokens', () => {
+    expect(isValidApiToken('')).toBe(false)
+    expect(isValidApiToken('a'.repeat(32))).toBe(false)
+    expect(isValidApiToken('tl_pat_short')).toBe(false)
+  })
+})
+
+describe('hashApiToken', () => {
+  it('should return the hex SHA-256 digest', async () => {
+    expect(await hashApiToken('abc')).toBe(
+      'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad'
+    )
+  })
+})
+
+describe('getApiTokenPrefix', () => {
+  it('should keep the prefix and a few random characters', () => {
+    expect(getApiTokenPrefix('tl_pat_AbCdEfGhIjKl')).toBe('tl_pat_AbCdEf')
+  })
+})
+
+describe('parseBearerToken', () => {
+  it('should read the token of a bearer header', () => {
+    expect(parseBearerToken('Bearer tl_pat_abc')).toBe('tl_pat_abc')
+    expect(parseBearerToken('bearer  tl_pat_abc')).toBe('tl_pat_abc')
+  })
+
+  it('should return null for missing or other headers', () => {
+    expect(parseBearerToken(null)).toBeNull()
+    expect(parseBearerToken('Basic dXNlcjpwYXNz')).toBeNull()
+    expect(parseBearerToken('Bearer')).toBeNull()
+  })
+})
+
+describe('getQueryToken', () => {
+  it('should read the token parameter of a feed URL', () => {
+    expect(getQueryToken('https://taglink.app/api/v1/feeds/rss?tags=1&token=tl_pat_abc')).toBe(
+      'tl_pat_abc'
+    )
+    expect(getQueryToken('https://taglink.app/api/v1/feeds/rss')).toBeNull()
+  })
+})
+
+describe('hasApiScope', () => {
+  it('should check the granted scopes', () => {
+    expect(hasApiScope(['links:read', 'tags:read'], 'links:read')).toBe(true)
+    expect(hasApiScope(['links:read'], 'links:write')).toBe(false)
+  })
+})
@@ -0,0 +1,80 @@
+/**
+ * Personal access tokens of the REST API (/api/v1/*)
+ * Tokens are sent as `Authorization: Bearer tl_pat_<random>`; only their SHA-256 hash is stored.
+ */
+
+import { generateShareToken } from '@/lib/shares/tokens'
+
+export const API_TOKEN_PREFIX = 'tl_pat_'
+
+// What a token may do - reads and writes of links and tags are granted separately;
+// feeds:read only opens the RSS/Atom feeds, which take the token from the URL
+export const API_SCOPES = [
+  'links:read',
+  'links:write',
+  'tags:read',
+  'tags:write',
+  'feeds:read',
+] as const
+
+export type ApiScope = (typeof API_SCOPES)[number]
+
+// Lifetimes offered when creating a token (null = never expires)
+export const API_TOKEN_EXPIRY_OPTIONS = [30, 90, 365] as const
+
+// Characters kept in token_prefix so users can tell their tokens apart
+const VISIBLE_PREFIX_LENGTH = API_TOKEN_PREFIX.length + 6
+
+const TOKEN_PATTERN = /^tl_pat_[A-Za-z0-9_-]{32}$/
+
+/**
+ * Create a new token (the same random part as share links, behind a recognizable prefix)
+ */
+export function generateApiToken(): string {
+  return `${API_TOKEN_PREFIX}${generateShareToken()}`
+}
+
+/**
+ * Check the shape of a token before hashing and looking it up
+ */
+export function isValidApiToken(token: string): boolean {
+  return TOKEN_PATTERN.test(token)
+}
+
+/**
+ * Hex SHA-256 of a token (Web Crypto, so it also runs outside Node)
+ */
+export async function hashApiToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token))
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * Start of a token shown in the token list, e.g. "tl_pat_AbC123"
+ */
+export function getApiTokenPrefix(token: string): string {
+  return token.slice(0, VISIBLE_PREFIX_LENGTH)
+}
+
+/**
+ * Token of an `Authorization: Bearer <token>` header
+ * @returns null when the header is missing or malformed
+ */
+export function parseBearerToken(header: string | null): string | null {
+  const match = header?.match(/^Bearer\s+(\S+)$/i)
+  return match ? match[1] : null
+}
+
+/**
+ * Token of the `?token=` query parameter (feed readers cannot send headers)
+ */
+export function getQueryToken(url: string): string | null {
+  return new URL(url).searchParams.get('token')
+}
+
+/**
+ * Does the token grant the scope
+ */
+export function hasApiScope(scopes: readonly string[], scope: ApiScope): boolean {
+  return scopes.includes(scope)
+}
@@ -0,0 +1,13 @@
+/**
+ * Shared guard for scheduled job endpoints (/api/cron/*)
+ * The scheduler must send `Authorization: Bearer <CRON_SECRET>`
+ */
+export function isAuthorizedCronRequest(request: Request): boolean {
+  const secret = process.env.CRON_SECRET
+  if (!secret) {
+    console.error('CRON_SECRET is not set, rejecting cron request')
+    return false
+  }
+
+  return request.headers.get('authorization') === `Bearer ${secret}`
+}
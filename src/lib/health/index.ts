@@ -0,0 +1,124 @@
+/**
+ * Link health checker
+ * Re-checks saved URLs with lightweight requests (HEAD, falling back to GET)
+ * and records the status code, the final URL after redirects and the check time.
+ *
+ * Runs periodically from /api/cron/check-links (service role, all users).
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { LinkHealthStatus } from '@/types'
+import { fetchPage, simplifyFetchError } from '@/lib/scraping/lightweight'
+import {
+  evaluateHealth,
+  getHealthCheckCutoff,
+  shouldRetryWithGet,
+  type HealthCheckResult,
+} from './status'
+
+export interface HealthCheckOptions {
+  maxLinks?: number // Upper bound of links checked in one run
+  concurrency?: number // Requests in flight at once
+}
+
+export interface HealthCheckSummary {
+  checked: number
+  ok: number
+  broken: number
+}
+
+// Health checks only need the status line, so they give up sooner than scraping
+const HEALTH_CHECK_TIMEOUT_MS = 8000
+
+type LinkToCheck = {
+  id: string
+  url: string
+  health_status: LinkHealthStatus
+  health_failures: number
+}
+
+/**
+ * Request a URL and report what happened
+ */
+export async function checkUrl(url: string): Promise<HealthCheckResult> {
+  try {
+    let response = await fetchPage(url, { method: 'HEAD', timeout: HEALTH_CHECK_TIMEOUT_MS })
+
+    if (shouldRetryWithGet(response.status)) {
+      response = await fetchPage(url, { timeout: HEALTH_CHECK_TIMEOUT_MS })
+      // Only the status matters - do not download the page
+      await response.body?.cancel()
+    }
+
+    return { statusCode: response.status, finalUrl: response.url || url, error: null }
+  } catch (error) {
+    return { statusCode: null, finalUrl: null, error: simplifyFetchError(error) }
+  }
+}
+
+/**
+ * Check one link and store the result
+ */
+async function checkLink(supabase: SupabaseClient, link: LinkToCheck): Promise<LinkHealthStatus> {
+  const result = await checkUrl(link.url)
+  const health = evaluateHealth(result, {
+    status: link.health_status,
+    failures: link.health_failures,
+  })
+
+  const { error } = await supabase
+    .from('links')
+    .update({
+      health_status: health.status,
+      health_failures: health.failures,
+      health_status_code: result.statusCode,
+      health_final_url: result.finalUrl,
+      health_error: result.error,
+      health_checked_at: new Date().toISOString(),
+    })
+    .eq('id', link.id)
+
+  if (error) {
+    console.error(`[Health] Failed to save check of link ${link.id}:`, error)
+  }
+
+  return health.status
+}
+
+/**
+ * Check the links that were not checked for the longest time
+ */
+export async function checkDueLinks(
+  supabase: SupabaseClient,
+  options: HealthCheckOptions = {}
+): Promise<HealthCheckSummary> {
+  const { maxLinks = 50, concurrency = 5 } = options
+  const summary: HealthCheckSummary = { checked: 0, ok: 0, broken: 0 }
+
+  const { data: links, error } = await supabase
+    .from('links')
+    .select('id, url, health_status, health_failures')
+    .is('deleted_at', null)
+    .or(`health_checked_at.is.null,health_checked_at.lt.${getHealthCheckCutoff()}`)
+    .order('health_checked_at', { ascending: true, nullsFirst: true })
+    .limit(maxLinks)
+
+  if (error) {
+    throw error
+  }
+
+  const due = (links || []) as LinkToCheck[]
+  for (let i = 0; i < due.length; i += concurrency) {
+    const statuses = await Promise.all(
+      due.slice(i, i + concurrency).map((link) => checkLink(supabase, link))
+    )
+
+    statuses.forEach((status) => {
+      summary.checked++
+      if (status === 'ok') summary.ok++
+      if (status === 'broken') summary.broken++
+    })
+  }
+
+  return summary
+}
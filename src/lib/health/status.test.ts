@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest'
+import { evaluateHealth, getHealthCheckCutoff, shouldRetryWithGet } from './status'
+
+const fresh = { status: 'unchecked' as const, failures: 0 }
+
+describe('evaluateHealth', () => {
+  it('should mark successful and redirected responses as ok', () => {
+    expect(evaluateHealth({ statusCode: 200, finalUrl: 'https://a.com', error: null }, fresh)).toEqual({
+      status: 'ok',
+      failures: 0,
+    })
+    expect(
+      evaluateHealth({ statusCode: 301, finalUrl: 'https://a.com', error: null }, { status: 'broken', failures: 3 })
+    ).toEqual({ status: 'ok', failures: 0 })
+  })
+
+  it('should treat bot blocking as ok', () => {
+    expect(evaluateHealth({ statusCode: 403, finalUrl: null, error: null }, fresh).status).toBe('ok')
+    expect(evaluateHealth({ statusCode: 429, finalUrl: null, error: null }, fresh).status).toBe('ok')
+  })
+
+  it('should mark gone pages as broken right away', () => {
+    expect(evaluateHealth({ statusCode: 404, finalUrl: null, error: null }, fresh)).toEqual({
+      status: 'broken',
+      failures: 1,
+    })
+    expect(evaluateHealth({ statusCode: null, finalUrl: null, error: 'Domain not found' }, fresh).status).toBe(
+      'broken'
+    )
+  })
+
+  it('should wait for repeated temporary failures', () => {
+    const first = evaluateHealth({ statusCode: 503, finalUrl: null, error: null }, { status: 'ok', failures: 0 })
+    expect(first).toEqual({ status: 'ok', failures: 1 })
+
+    const second = evaluateHealth({ statusCode: null, finalUrl: null, error: 'Request timeout' }, first)
+    expect(second).toEqual({ status: 'broken', failures: 2 })
+  })
+})
+
+describe('shouldRetryWithGet', () => {
+  it('should retry when HEAD is not supported', () => {
+    expect(shouldRetryWithGet(405)).toBe(true)
+    expect(shouldRetryWithGet(404)).toBe(true)
+    expect(shouldRetryWithGet(200)).toBe(false)
+    expect(shouldRetryWithGet(410)).toBe(false)
+  })
+})
+
+describe('getHealthCheckCutoff', () => {
+  it('should return the time one check interval ago', () => {
+    expect(getHealthCheckCutoff(new Date('2025-06-15T00:00:00.000Z'))).toBe('2025-06-08T00:00:00.000Z')
+  })
+})
@@ -0,0 +1,68 @@
+/**
+ * Rules for deciding whether a saved link is broken
+ */
+
+import type { LinkHealthStatus } from '@/types'
+
+// Links are re-checked once this much time has passed since the last check
+export const HEALTH_CHECK_INTERVAL_MS = 7 * 24 * 60 * 60 * 1000
+
+// Errors that may be temporary (timeouts, 5xx) mark a link as broken only after this many checks in a row
+export const BROKEN_AFTER_FAILURES = 2
+
+// Status codes that mean the page is gone for good
+const GONE_STATUS_CODES = [404, 410, 451]
+
+// The server answered but refuses bots - the page itself is still there
+const BLOCKED_STATUS_CODES = [401, 403, 429]
+
+// Servers that do not implement HEAD properly answer with one of these
+const HEAD_UNSUPPORTED_STATUS_CODES = [400, 403, 404, 405, 500, 501]
+
+export interface HealthCheckResult {
+  statusCode: number | null // null when no response was received
+  finalUrl: string | null // URL after redirects
+  error: string | null
+}
+
+/**
+ * Check if a HEAD response should be confirmed with a GET request
+ */
+export function shouldRetryWithGet(statusCode: number): boolean {
+  return HEAD_UNSUPPORTED_STATUS_CODES.includes(statusCode)
+}
+
+/**
+ * Health of a link after a check
+ * @param result - Outcome of the request
+ * @param previous - Status and consecutive failures before this check
+ */
+export function evaluateHealth(
+  result: HealthCheckResult,
+  previous: { status: LinkHealthStatus; failures: number }
+): { status: LinkHealthStatus; failures: number } {
+  const { statusCode, error } = result
+
+  if (statusCode !== null && (statusCode < 400 || BLOCKED_STATUS_CODES.includes(statusCode))) {
+    return { status: 'ok', failures: 0 }
+  }
+
+  const failures = previous.failures + 1
+
+  // Definitely gone - no need to wait for another check
+  if ((statusCode !== null && GONE_STATUS_CODES.includes(statusCode)) || error === 'Domain not found') {
+    return { status: 'broken', failures }
+  }
+
+  return {
+    status: failures >= BROKEN_AFTER_FAILURES ? 'broken' : previous.status,
+    failures,
+  }
+}
+
+/**
+ * Cutoff for links due for a check (checked before this time or never)
+ */
+export function getHealthCheckCutoff(now: Date = new Date()): string {
+  return new Date(now.getTime() - HEALTH_CHECK_INTERVAL_MS).toISOString()
+}
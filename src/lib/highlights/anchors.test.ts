@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest'
+import { createAnchor, resolveAnchor, ANCHOR_CONTEXT_LENGTH } from './anchors'
+
+const TEXT =
+  'The quick brown fox jumps over the lazy dog. Later that day the quick brown fox went home to sleep.'
+
+describe('createAnchor', () => {
+  it('should store the quote, its context and its position', () => {
+    const start = TEXT.indexOf('lazy dog')
+    const anchor = createAnchor(TEXT, start, start + 8)
+
+    expect(anchor.quote).toBe('lazy dog')
+    expect(anchor.prefix).toBe('The quick brown fox jumps over the '.slice(-ANCHOR_CONTEXT_LENGTH))
+    expect(anchor.suffix.startsWith('. Later that day')).toBe(true)
+    expect(anchor).toMatchObject({ startOffset: start, endOffset: start + 8 })
+  })
+
+  it('should cut the context at the text boundaries', () => {
+    const anchor = createAnchor(TEXT, 0, 3)
+    expect(anchor.prefix).toBe('')
+    expect(createAnchor(TEXT, TEXT.length - 6, TEXT.length).suffix).toBe('')
+  })
+})
+
+describe('resolveAnchor', () => {
+  const second = TEXT.lastIndexOf('quick brown fox')
+  const anchor = createAnchor(TEXT, second, second + 15)
+
+  it('should use the stored position while the text is unchanged', () => {
+    expect(resolveAnchor(TEXT, anchor)).toEqual({ start: second, end: second + 15 })
+  })
+
+  it('should find the passage by its context after the text moved', () => {
+    const changed = `Intro added later. ${TEXT}`
+    const start = changed.lastIndexOf('quick brown fox')
+
+    expect(resolveAnchor(changed, anchor)).toEqual({ start, end: start + 15 })
+  })
+
+  it('should prefer the matching context over the closer occurrence', () => {
+    // The first "quick brown fox" now sits at the old position of the second one
+    const changed = TEXT.replace('The quick brown fox jumps', 'x'.repeat(second) + ' quick brown fox jumps')
+    const start = changed.lastIndexOf('quick brown fox')
+
+    expect(resolveAnchor(changed, anchor)).toEqual({ start, end: start + 15 })
+  })
+
+  it('should return null when the quote is gone', () => {
+    expect(resolveAnchor(TEXT.replace(/fox/g, 'cat'), anchor)).toBeNull()
+    expect(resolveAnchor(TEXT, { ...anchor, quote: '' })).toBeNull()
+  })
+})
@@ -0,0 +1,96 @@
+/**
+ * Text anchors for highlights on archived pages
+ * A highlight stores both the position of the passage in the article's plain text
+ * (startOffset/endOffset) and the passage itself with a bit of surrounding context
+ * (quote/prefix/suffix), like the W3C text position and text quote selectors.
+ * The position is used while the text is unchanged; when the article is archived
+ * again and the text shifts, the quote and its context find the passage again.
+ */
+
+export interface TextAnchor {
+  quote: string
+  prefix: string
+  suffix: string
+  startOffset: number
+  endOffset: number
+}
+
+export interface TextRange {
+  start: number
+  end: number
+}
+
+// Characters of context stored on each side of the quote
+export const ANCHOR_CONTEXT_LENGTH = 32
+
+// DB limits: link_highlights.quote / comment
+export const MAX_HIGHLIGHT_LENGTH = 2000
+export const MAX_HIGHLIGHT_COMMENT_LENGTH = 1000
+
+/**
+ * Build the anchor for a passage of the text
+ */
+export function createAnchor(text: string, start: number, end: number): TextAnchor {
+  return {
+    quote: text.slice(start, end),
+    prefix: text.slice(Math.max(0, start - ANCHOR_CONTEXT_LENGTH), start),
+    suffix: text.slice(end, end + ANCHOR_CONTEXT_LENGTH),
+    startOffset: start,
+    endOffset: end,
+  }
+}
+
+/**
+ * Number of characters two strings share at their ends (or starts)
+ */
+function sharedLength(a: string, b: string, fromEnd: boolean): number {
+  const max = Math.min(a.length, b.length)
+  let length = 0
+  while (
+    length < max &&
+    (fromEnd
+      ? a[a.length - 1 - length] === b[b.length - 1 - length]
+      : a[length] === b[length])
+  ) {
+    length++
+  }
+  return length
+}
+
+/**
+ * Find the passage of an anchor in the (possibly changed) text
+ * - the stored position wins when it still holds the quote
+ * - otherwise every occurrence of the quote is scored by how much of the stored
+ *   context surrounds it; the one closest to the old position breaks ties
+ * @returns The range, or null when the quote no longer appears in the text
+ */
+export function resolveAnchor(text: string, anchor: TextAnchor): TextRange | null {
+  const { quote, prefix, suffix, startOffset } = anchor
+  if (!quote) return null
+
+  if (text.slice(startOffset, startOffset + quote.length) === quote) {
+    return { start: startOffset, end: startOffset + quote.length }
+  }
+
+  let best: TextRange | null = null
+  let bestScore = -Infinity
+
+  for (let index = text.indexOf(quote); index !== -1; index = text.indexOf(quote, index + 1)) {
+    const end = index + quote.length
+    const before = text.slice(Math.max(0, index - prefix.length), index)
+    const after = text.slice(end, end + suffix.length)
+
+    // Context counts in whole characters, the distance only breaks ties
+    const score =
+      sharedLength(before, prefix, true) +
+      sharedLength(after, suffix, false) -
+      Math.abs(index - startOffset) / (text.length + 1)
+
+    if (score > bestScore) {
+      best = { start: index, end }
+      bestScore = score
+    }
+  }
+
+  return best
+}
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest'
+import { applySelectionRange, getSelectionRange, planTagAdditions } from './bulk'
+
+describe('planTagAdditions', () => {
+  it('should add only the tags a link does not have yet', () => {
+    const plan = planTagAdditions(
+      [
+        { id: 'a', tagIds: ['t1'] },
+        { id: 'b', tagIds: [] },
+      ],
+      ['t1', 't2'],
+      10
+    )
+
+    expect(plan.rows).toEqual([
+      { link_id: 'a', tag_id: 't2' },
+      { link_id: 'b', tag_id: 't1' },
+      { link_id: 'b', tag_id: 't2' },
+    ])
+    expect(plan.changedLinkIds).toEqual(['a', 'b'])
+    expect(plan.skippedLinkIds).toEqual([])
+  })
+
+  it('should leave links that already have every tag alone', () => {
+    const plan = planTagAdditions([{ id: 'a', tagIds: ['t1', 't2'] }], ['t2', 't1'], 10)
+    expect(plan).toEqual({ rows: [], changedLinkIds: [], skippedLinkIds: [] })
+  })
+
+  it('should skip links that would go over the tag limit', () => {
+    const full = Array.from({ length: 9 }, (_, i) => `x${i}`)
+    const plan = planTagAdditions(
+      [
+        { id: 'a', tagIds: full },
+        { id: 'b', tagIds: ['t1'] },
+      ],
+      ['t1', 't2'],
+      10
+    )
+
+    expect(plan.skippedLinkIds).toEqual(['a'])
+    expect(plan.changedLinkIds).toEqual(['b'])
+    expect(plan.rows).toEqual([{ link_id: 'b', tag_id: 't2' }])
+  })
+
+  it('should ignore repeated tag IDs', () => {
+    const plan = planTagAdditions([{ id: 'a', tagIds: [] }], ['t1', 't1'], 1)
+    expect(plan.rows).toEqual([{ link_id: 'a', tag_id: 't1' }])
+  })
+})
+
+describe('getSelectionRange', () => {
+  const ids = ['a', 'b', 'c', 'd', 'e']
+
+  it('should return the links between anchor and target in either direction', () => {
+    expect(getSelectionRange(ids, 'b', 'd')).toEqual(['b', 'c', 'd'])
+    expect(getSelectionRange(ids, 'd', 'b')).toEqual(['b', 'c', 'd'])
+  })
+
+  it('should fall back to the target without a usable anchor', () => {
+    expect(getSelectionRange(ids, null, 'c')).toEqual(['c'])
+    expect(getSelectionRange(ids, 'gone', 'c')).toEqual(['c'])
+    expect(getSelectionRange(ids, 'a', 'gone')).toEqual([])
+  })
+})
+
+describe('applySelectionRange', () => {
+  it('should add a range without duplicates', () => {
+    expect(applySelectionRange(['a', 'c'], ['b', 'c', 'd'], true)).toEqual(['a', 'c', 'b', 'd'])
+  })
+
+  it('should remove a range', () => {
+    expect(applySelectionRange(['a', 'b', 'c', 'e'], ['b', 'c', 'd'], false)).toEqual(['a', 'e'])
+  })
+})
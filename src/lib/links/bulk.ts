@@ -0,0 +1,68 @@
+/**
+ * Helpers for actions on many links at once (dashboard selection mode)
+ */
+
+export interface LinkTagState {
+  id: string
+  tagIds: string[]
+}
+
+export interface TagAdditionPlan {
+  rows: { link_id: string; tag_id: string }[] // New link_tags rows
+  changedLinkIds: string[] // Links that get at least one new tag
+  skippedLinkIds: string[] // Links that would go over the tag limit
+}
+
+/**
+ * Work out which tags to add to which links
+ * A link that cannot take all the missing tags is left unchanged rather than
+ * getting only some of them, so every updated link ends up with the full set.
+ */
+export function planTagAdditions(
+  links: LinkTagState[],
+  tagIds: string[],
+  maxTagsPerLink: number
+): TagAdditionPlan {
+  const plan: TagAdditionPlan = { rows: [], changedLinkIds: [], skippedLinkIds: [] }
+  const uniqueTagIds = Array.from(new Set(tagIds))
+
+  links.forEach((link) => {
+    const missing = uniqueTagIds.filter((tagId) => !link.tagIds.includes(tagId))
+    if (missing.length === 0) return
+
+    if (link.tagIds.length + missing.length > maxTagsPerLink) {
+      plan.skippedLinkIds.push(link.id)
+      return
+    }
+
+    plan.changedLinkIds.push(link.id)
+    missing.forEach((tagId) => plan.rows.push({ link_id: link.id, tag_id: tagId }))
+  })
+
+  return plan
+}
+
+/**
+ * IDs between two links in display order, both included (shift-click selection)
+ * Falls back to just the target when the anchor is no longer on the page.
+ */
+export function getSelectionRange(orderedIds: string[], anchorId: string | null, targetId: string): string[] {
+  const targetIndex = orderedIds.indexOf(targetId)
+  if (targetIndex === -1) return []
+
+  const anchorIndex = anchorId ? orderedIds.indexOf(anchorId) : -1
+  if (anchorIndex === -1) return [targetId]
+
+  const [from, to] = anchorIndex < targetIndex ? [anchorIndex, targetIndex] : [targetIndex, anchorIndex]
+  return orderedIds.slice(from, to + 1)
+}
+
+/**
+ * Select or deselect a range of links, keeping the rest of the selection
+ */
+export function applySelectionRange(selectedIds: string[], rangeIds: string[], selected: boolean): string[] {
+  if (selected) {
+    return Array.from(new Set([...selectedIds, ...rangeIds]))
+  }
+  return selectedIds.filter((id) => !rangeIds.includes(id))
+}
@@ -0,0 +1,207 @@
+/**
+ * Link creation pipeline shared by the add-link dialog, bulk import and the import queue worker
+ * Validates the URL, rejects duplicates, enforces the hourly limit and saves the link as 'pending'.
+ * Scraping and AI enrichment are left to the processing queue (src/lib/queue).
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Link } from '@/types'
+import { createLinkSchema } from '@/lib/validations/links'
+import { isUrlScrapable } from '@/lib/scraping'
+import { scopeOwner, scopeQuery, type OwnerScope } from '@/lib/workspaces/scope'
+import { canonicalizeUrl } from './urls'
+
+// Rate limit: 30 links per hour
+export const LINKS_PER_HOUR_LIMIT = 30
+export const RATE_LIMIT_WINDOW_MS = 60 * 60 * 1000
+
+export type CreateLinkStatus = 'created' | 'duplicate' | 'invalid' | 'rate_limited' | 'error'
+
+export interface CreateLinkInput {
+  url: string
+  title?: string
+  rating?: number
+}
+
+export interface CreateLinkOutcome {
+  status: CreateLinkStatus
+  link?: Link
+  error?: string
+}
+
+export interface CreateLinkOptions {
+  logRateLimitViolation?: boolean // Record hits of the hourly limit in rate_limit_violations
+}
+
+/**
+ * Helper function to truncate string to max length
+ * @param str - String to truncate
+ * @param maxLength - Maximum length (default 500 for database varchar(500))
+ * @returns Truncated string
+ */
+function truncateString(str: string | null | undefined, maxLength: number = 500): string | null {
+  if (!str) return null
+  return str.length > maxLength ? str.substring(0, maxLength) : str
+}
+
+/**
+ * Check the URL and fields of a new link without touching the database
+ * @returns Error message or null when the link can be saved
+ */
+export function validateNewLink(input: CreateLinkInput): string | null {
+  const validation = createLinkSchema.safeParse(input)
+  if (!validation.success) {
+    return validation.error.issues[0]?.message || 'Validation failed'
+  }
+
+  // Check if URL is scrapable
+  const scrapableCheck = isUrlScrapable(input.url)
+  if (!scrapableCheck.valid) {
+    return scrapableCheck.reason || 'URL cannot be scraped'
+  }
+
+  return null
+}
+
+/**
+ * Check if the URL is already saved in the space (not counting deleted links)
+ */
+export async function isDuplicateLink(
+  supabase: SupabaseClient,
+  owner: OwnerScope,
+  url: string
+): Promise<boolean> {
+  const { data: existingLink } = await scopeQuery(supabase.from('links').select('id'), owner)
+    .is('deleted_at', null)
+    .eq('normalized_url', canonicalizeUrl(url))
+    .maybeSingle()
+
+  return !!existingLink
+}
+
+/**
+ * Which of the given normalized URLs are already saved in the space (not counting deleted links)
+ * Looked up in chunks to keep the request URL short.
+ */
+export async function findExistingNormalizedUrls(
+  supabase: SupabaseClient,
+  owner: OwnerScope,
+  normalizedUrls: string[]
+): Promise<Set<string>> {
+  const existing = new Set<string>()
+  const chunkSize = 100
+
+  for (let i = 0; i < normalizedUrls.length; i += chunkSize) {
+    const chunk = normalizedUrls.slice(i, i + chunkSize)
+    const { data, error } = await scopeQuery(supabase.from('links').select('normalized_url'), owner)
+      .is('deleted_at', null)
+      .in('normalized_url', chunk)
+
+    if (error) {
+      throw new Error(`Failed to check existing links: ${error.message}`)
+    }
+
+    data?.forEach((link) => existing.add(link.normalized_url))
+  }
+
+  return existing
+}
+
+/**
+ * Number of links the user can still add in the current hour (in all their spaces)
+ * Bookmark imports keep old created_at dates - their AI-processed links are counted
+ * through link_import_usage.
+ */
+export async function getRemainingLinkQuota(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<number> {
+  const windowStart = new Date(Date.now() - RATE_LIMIT_WINDOW_MS).toISOString()
+  const [{ count }, { data: imports }] = await Promise.all([
+    supabase
+      .from('links')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .is('deleted_at', null)
+      .gte('created_at', windowStart),
+    supabase
+      .from('link_import_usage')
+      .select('ai_links')
+      .eq('user_id', userId)
+      .gte('created_at', windowStart),
+  ])
+
+  const importedForAi = (imports || []).reduce((sum, batch) => sum + batch.ai_links, 0)
+  return Math.max(0, LINKS_PER_HOUR_LIMIT - (count || 0) - importedForAi)
+}
+
+/**
+ * Validate and save a new link created by the user in a space
+ */
+export async function createLinkForUser(
+  supabase: SupabaseClient,
+  owner: OwnerScope,
+  input: CreateLinkInput,
+  options: CreateLinkOptions = {}
+): Promise<CreateLinkOutcome> {
+  const { url, title, rating } = input
+
+  const validationError = validateNewLink(input)
+  if (validationError) {
+    return { status: 'invalid', error: validationError }
+  }
+
+  // Check for duplicate URL
+  if (await isDuplicateLink(supabase, owner, url)) {
+    return {
+      status: 'duplicate',
+      error: 'You have already saved this link',
+    }
+  }
+
+  // Check rate limit (30 links per hour)
+  const remaining = await getRemainingLinkQuota(supabase, owner.userId)
+  if (remaining === 0) {
+    if (options.logRateLimitViolation) {
+      await supabase.from('rate_limit_violations').insert({
+        user_id: owner.userId,
+        violation_type: 'links_per_hour',
+        details: { url, attempted_at: new Date().toISOString() },
+      })
+    }
+
+    return {
+      status: 'rate_limited',
+      error: `Rate limit exceeded. You can add up to ${LINKS_PER_HOUR_LIMIT} links per hour.`,
+    }
+  }
+
+  // Save the link right away - scraping and AI enrichment run in the background
+  const linkData = {
+    ...scopeOwner(owner),
+    url: url,
+    normalized_url: canonicalizeUrl(url), // Recomputed by the links_before_upsert trigger
+    title: truncateString(title),
+    rating: rating || null,
+    ai_processing_status: 'pending' as const,
+    user_edited_fields: title ? ['title'] : [], // A typed-in title wins over the scraped one
+  }
+
+  const { data: newLink, error: insertError } = await supabase
+    .from('links')
+    .insert(linkData)
+    .select()
+    .single()
+
+  if (insertError) {
+    // Unique index on (space, normalized_url) - saved concurrently
+    if (insertError.code === '23505') {
+      return { status: 'duplicate', error: 'You have already saved this link' }
+    }
+
+    console.error('Error creating link:', insertError)
+    return { status: 'error', error: 'Failed to create link' }
+  }
+
+  return { status: 'created', link: newLink as Link }
+}
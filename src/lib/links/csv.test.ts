@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest'
+import { escapeCsvField, toCsvRecord } from './csv'
+
+describe('escapeCsvField', () => {
+  it('should leave plain fields as they are', () => {
+    expect(escapeCsvField('https://example.com/a?b=c')).toBe('https://example.com/a?b=c')
+    expect(escapeCsvField(5)).toBe('5')
+  })
+
+  it('should quote fields with commas, quotes and line breaks', () => {
+    expect(escapeCsvField('Hello, world')).toBe('"Hello, world"')
+    expect(escapeCsvField('Say "hi"')).toBe('"Say ""hi"""')
+    expect(escapeCsvField('line one\nline two')).toBe('"line one\nline two"')
+    expect(escapeCsvField('carriage\rreturn')).toBe('"carriage\rreturn"')
+  })
+
+  it('should keep spreadsheets from running text as a formula', () => {
+    expect(escapeCsvField('=HYPERLINK("https://evil.example")')).toBe(
+      '"\'=HYPERLINK(""https://evil.example"")"'
+    )
+    expect(escapeCsvField('+1 for this')).toBe("'+1 for this")
+    expect(escapeCsvField('-5 tips')).toBe("'-5 tips")
+    expect(escapeCsvField('@SUM(A1)')).toBe("'@SUM(A1)")
+    expect(escapeCsvField('\tindented')).toBe("'\tindented")
+    expect(escapeCsvField('\rcmd')).toBe('"\'\rcmd"')
+  })
+
+  it('should leave numbers and text with formula characters later on alone', () => {
+    expect(escapeCsvField(-1)).toBe('-1')
+    expect(escapeCsvField('a = b')).toBe('a = b')
+  })
+
+  it('should write empty fields for missing values', () => {
+    expect(escapeCsvField(null)).toBe('')
+    expect(escapeCsvField(undefined)).toBe('')
+    expect(escapeCsvField('')).toBe('')
+  })
+})
+
+describe('toCsvRecord', () => {
+  it('should join fields and end the record with CRLF', () => {
+    expect(toCsvRecord(['a', 'b, c', null, 3])).toBe('a,"b, c",,3\r\n')
+  })
+
+  it('should keep quoted line breaks inside one record', () => {
+    const record = toCsvRecord(['"Quoted" title', 'notes\r\nwith lines'])
+    expect(record).toBe('"""Quoted"" title","notes\r\nwith lines"\r\n')
+  })
+})
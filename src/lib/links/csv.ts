@@ -0,0 +1,33 @@
+/**
+ * CSV writing as specified in RFC 4180
+ * Fields with commas, quotes or line breaks are quoted, quotes inside are doubled,
+ * and records end with CRLF.
+ * Text that a spreadsheet would run as a formula (=, +, -, @, tab, CR) gets a leading
+ * apostrophe, so titles and notes taken from scraped pages cannot inject formulas.
+ */
+
+const CSV_LINE_BREAK = '\r\n'
+
+const NEEDS_QUOTES = /[",\r\n]/
+
+const FORMULA_START = /^[=+\-@\t\r]/
+
+/**
+ * One field of a record - null and undefined become empty fields
+ */
+export function escapeCsvField(value: string | number | boolean | null | undefined): string {
+  if (value === null || value === undefined) return ''
+
+  // Numbers are written as they are, only text can start a formula
+  const text = typeof value === 'string' && FORMULA_START.test(value) ? `'${value}` : String(value)
+  return NEEDS_QUOTES.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * One record including its line break
+ */
+export function toCsvRecord(
+  fields: ReadonlyArray<string | number | boolean | null | undefined>
+): string {
+  return `${fields.map(escapeCsvField).join(',')}${CSV_LINE_BREAK}`
+}
@@ -0,0 +1,193 @@
+import { describe, it, expect } from 'vitest'
+import {
+  findDuplicateGroups,
+  getContentSimilarity,
+  getDuplicateFinalUrlKey,
+  getDuplicateTitleKey,
+  getDuplicateUrlKey,
+  getShingles,
+  planDuplicateMerge,
+  type DuplicateCandidate,
+} from './duplicates'
+
+const ARTICLE = Array.from({ length: 60 }, (_, i) => `word${i}`).join(' ')
+
+function candidate(overrides: Partial<DuplicateCandidate> & { id: string }): DuplicateCandidate {
+  return {
+    url: `https://example.com/${overrides.id}`,
+    title: null,
+    scraped_content: null,
+    rating: null,
+    created_at: '2025-01-01T00:00:00.000Z',
+    tagIds: [],
+    ...overrides,
+  }
+}
+
+describe('getDuplicateUrlKey', () => {
+  it('should ignore scheme and www/mobile/amp subdomains', () => {
+    const key = getDuplicateUrlKey('https://example.com/post')
+    expect(getDuplicateUrlKey('http://www.example.com/post')).toBe(key)
+    expect(getDuplicateUrlKey('https://m.example.com/post')).toBe(key)
+    expect(getDuplicateUrlKey('https://amp.example.com/post')).toBe(key)
+  })
+
+  it('should ignore AMP path segments and flags', () => {
+    const key = getDuplicateUrlKey('https://example.com/news/post')
+    expect(getDuplicateUrlKey('https://example.com/amp/news/post')).toBe(key)
+    expect(getDuplicateUrlKey('https://example.com/news/post/amp/')).toBe(key)
+    expect(getDuplicateUrlKey('https://example.com/news/post?amp=1')).toBe(key)
+    expect(getDuplicateUrlKey('https://example.com/news/post.amp')).toBe(key)
+  })
+
+  it('should keep different pages apart', () => {
+    expect(getDuplicateUrlKey('https://example.com/a')).not.toBe(getDuplicateUrlKey('https://example.com/b'))
+    expect(getDuplicateUrlKey('https://example.com/a?id=1')).not.toBe(
+      getDuplicateUrlKey('https://example.com/a?id=2')
+    )
+  })
+})
+
+describe('getDuplicateFinalUrlKey', () => {
+  it('should use the address a short link redirects to', () => {
+    expect(getDuplicateFinalUrlKey('https://bit.ly/x', 'https://blog.dev/hooks')).toBe(
+      getDuplicateUrlKey('https://blog.dev/hooks')
+    )
+  })
+
+  it('should skip final URLs that add nothing', () => {
+    expect(getDuplicateFinalUrlKey('https://blog.dev/hooks', null)).toBeNull()
+    expect(getDuplicateFinalUrlKey('http://blog.dev/hooks', 'https://blog.dev/hooks')).toBeNull()
+    // Redirect to the home page (login wall, removed article)
+    expect(getDuplicateFinalUrlKey('https://blog.dev/old-post', 'https://blog.dev/')).toBeNull()
+  })
+})
+
+describe('getDuplicateTitleKey', () => {
+  it('should ignore case, punctuation and diacritics', () => {
+    expect(getDuplicateTitleKey('Żółw: Jak działa React?')).toBe(getDuplicateTitleKey('zolw - jak dziala react'))
+  })
+
+  it('should ignore titles that are too short', () => {
+    expect(getDuplicateTitleKey('Home')).toBeNull()
+    expect(getDuplicateTitleKey(null)).toBeNull()
+  })
+})
+
+describe('getContentSimilarity', () => {
+  it('should return 1 for identical texts', () => {
+    const shingles = getShingles(ARTICLE)
+    expect(getContentSimilarity(shingles, getShingles(ARTICLE))).toBe(1)
+  })
+
+  it('should ignore texts that are too short', () => {
+    expect(getShingles('just a few words').size).toBe(0)
+    expect(getContentSimilarity(getShingles('a b c'), getShingles('a b c'))).toBe(0)
+  })
+
+  it('should score unrelated texts low', () => {
+    const other = Array.from({ length: 60 }, (_, i) => `other${i}`).join(' ')
+    expect(getContentSimilarity(getShingles(ARTICLE), getShingles(other))).toBe(0)
+  })
+})
+
+describe('findDuplicateGroups', () => {
+  it('should group AMP and mobile variants of one URL', () => {
+    const groups = findDuplicateGroups([
+      candidate({ id: 'a', url: 'https://example.com/post' }),
+      candidate({ id: 'b', url: 'https://m.example.com/post' }),
+      candidate({ id: 'c', url: 'https://example.com/other' }),
+    ])
+
+    expect(groups).toHaveLength(1)
+    expect(groups[0].links.map((link) => link.id)).toEqual(['a', 'b'])
+    expect(groups[0].reasons).toEqual(['url'])
+  })
+
+  it('should group a short link with the page it redirects to', () => {
+    const groups = findDuplicateGroups([
+      candidate({ id: 'a', url: 'https://blog.dev/hooks' }),
+      candidate({ id: 'b', url: 'https://bit.ly/x', health_final_url: 'https://blog.dev/hooks' }),
+    ])
+
+    expect(groups).toHaveLength(1)
+    expect(groups[0].reasons).toEqual(['url'])
+  })
+
+  it('should group links with the same title', () => {
+    const groups = findDuplicateGroups([
+      candidate({ id: 'a', url: 'https://bit.ly/x', title: 'Understanding React Hooks' }),
+      candidate({ id: 'b', url: 'https://blog.dev/hooks', title: 'Understanding React hooks!' }),
+    ])
+
+    expect(groups).toHaveLength(1)
+    expect(groups[0].reasons).toEqual(['title'])
+  })
+
+  it('should group links with nearly identical content', () => {
+    const groups = findDuplicateGroups([
+      candidate({ id: 'a', scraped_content: ARTICLE }),
+      candidate({ id: 'b', scraped_content: `${ARTICLE} word60` }),
+    ])
+
+    expect(groups).toHaveLength(1)
+    expect(groups[0].reasons).toEqual(['content'])
+  })
+
+  it('should merge chains of matches into one group, oldest first', () => {
+    const groups = findDuplicateGroups([
+      candidate({ id: 'c', url: 'https://other.com/x', title: 'A long enough shared title', created_at: '2025-03-01T00:00:00.000Z' }),
+      candidate({ id: 'b', url: 'https://www.example.com/post', title: 'A long enough shared title', created_at: '2025-02-01T00:00:00.000Z' }),
+      candidate({ id: 'a', url: 'https://example.com/post', created_at: '2025-01-01T00:00:00.000Z' }),
+    ])
+
+    expect(groups).toHaveLength(1)
+    expect(groups[0].links.map((link) => link.id)).toEqual(['a', 'b', 'c'])
+    expect(groups[0].reasons).toEqual(['url', 'title'])
+  })
+
+  it('should return nothing when there are no duplicates', () => {
+    expect(
+      findDuplicateGroups([candidate({ id: 'a' }), candidate({ id: 'b' })])
+    ).toEqual([])
+  })
+})
+
+describe('planDuplicateMerge', () => {
+  const links = [
+    candidate({ id: 'new', rating: 5, created_at: '2025-03-01T00:00:00.000Z', tagIds: ['t2', 't3'] }),
+    candidate({ id: 'old', rating: 2, created_at: '2025-01-01T00:00:00.000Z', tagIds: ['t1'] }),
+    candidate({ id: 'mid', rating: null, created_at: '2025-02-01T00:00:00.000Z', tagIds: ['t3'] }),
+  ]
+
+  it('should keep the oldest link with the best rating and all tags', () => {
+    expect(planDuplicateMerge(links)).toEqual({
+      keepId: 'old',
+      removeIds: ['mid', 'new'],
+      rating: 5,
+      createdAt: '2025-01-01T00:00:00.000Z',
+      tagIds: ['t1', 't3', 't2'],
+    })
+  })
+
+  it('should keep the chosen link but the oldest creation date', () => {
+    const plan = planDuplicateMerge(links, 'new')
+    expect(plan.keepId).toBe('new')
+    expect(plan.removeIds).toEqual(['old', 'mid'])
+    expect(plan.createdAt).toBe('2025-01-01T00:00:00.000Z')
+    expect(plan.tagIds.slice(0, 2)).toEqual(['t2', 't3'])
+  })
+
+  it('should cap tags at 10', () => {
+    const plan = planDuplicateMerge([
+      candidate({ id: 'a', tagIds: Array.from({ length: 8 }, (_, i) => `a${i}`) }),
+      candidate({ id: 'b', tagIds: Array.from({ length: 8 }, (_, i) => `b${i}`) }),
+    ])
+    expect(plan.tagIds).toHaveLength(10)
+    expect(plan.tagIds.slice(0, 8)).toEqual(Array.from({ length: 8 }, (_, i) => `a${i}`))
+  })
+
+  it('should leave the rating empty when no link is rated', () => {
+    expect(planDuplicateMerge([candidate({ id: 'a' }), candidate({ id: 'b' })]).rating).toBeNull()
+  })
+})
@@ -0,0 +1,318 @@
+/**
+ * Near-duplicate detection for saved links
+ * The unique index only catches identical canonical URLs; the same article also
+ * ends up saved as an AMP page, on a mobile subdomain or behind a short link.
+ * Links are grouped when any of these match:
+ * - url: same address once AMP/mobile/www variants and the scheme are ignored; the address
+ *   a link redirected to in its last health check counts too, which resolves short links
+ * - title: same title once case and punctuation are ignored
+ * - content: scraped text that is almost the same
+ */
+
+import type { DuplicateReason } from '@/types'
+import { canonicalizeUrl } from './urls'
+
+export interface DuplicateCandidate {
+  id: string
+  url: string
+  title: string | null
+  scraped_content: string | null
+  rating: number | null
+  created_at: string
+  health_final_url?: string | null // URL after redirects, from the health checker
+  tagIds: string[]
+}
+
+export interface DuplicateGroup<T extends DuplicateCandidate = DuplicateCandidate> {
+  links: T[] // Oldest first
+  reasons: DuplicateReason[]
+}
+
+export interface MergePlan {
+  keepId: string
+  removeIds: string[]
+  rating: number | null
+  createdAt: string
+  tagIds: string[]
+}
+
+// Maximum number of tags per link (enforced by check_link_tags_limit in the database)
+const MAX_TAGS_PER_LINK = 10
+
+// Titles shorter than this ("Home", "Blog") say nothing about the page
+const MIN_TITLE_LENGTH = 12
+
+// Pages with less text than this are not compared by content
+const MIN_CONTENT_WORDS = 30
+
+// Share of word triples two pages must have in common to count as the same text
+export const CONTENT_SIMILARITY_THRESHOLD = 0.8
+
+// Size of the per-link sketch used to find candidate pairs for the content check
+const SKETCH_SIZE = 8
+
+const MOBILE_SUBDOMAINS = /^(www|m|mobile|amp)\./
+
+/**
+ * URL key that ignores the usual variants of the same page
+ * (http/https, www., m., mobile., amp. subdomains, /amp path segments, amp query flags)
+ */
+export function getDuplicateUrlKey(url: string): string {
+  const canonical = canonicalizeUrl(url)
+  const match = canonical.match(/^[a-z][a-z0-9+.-]*:\/\/([^/?]*)([^?]*)(?:\?(.*))?$/)
+  if (!match) return canonical
+
+  let host = match[1]
+  while (MOBILE_SUBDOMAINS.test(host)) {
+    host = host.replace(MOBILE_SUBDOMAINS, '')
+  }
+
+  const path = match[2]
+    .split('/')
+    .filter((segment) => segment.toLowerCase() !== 'amp')
+    .join('/')
+    .replace(/\.amp(\.html?)?$/i, '$1')
+    .replace(/\/+$/, '')
+
+  const params = (match[3] ?? '')
+    .split('&')
+    .filter((param) => {
+      const key = param.split('=')[0].toLowerCase()
+      return param !== '' && key !== 'amp' && key !== 'outputtype'
+    })
+  const query = params.length > 0 ? `?${params.join('&')}` : ''
+
+  return `${host}${path}${query}`
+}
+
+/**
+ * URL key of the address a link redirects to
+ * Redirects to a bare home page (login walls, removed pages) say nothing about the
+ * article, so only final URLs with a path or query are used.
+ * @returns null when the final URL adds nothing to the link's own key
+ */
+export function getDuplicateFinalUrlKey(
+  url: string,
+  finalUrl: string | null | undefined
+): string | null {
+  if (!finalUrl) return null
+
+  const key = getDuplicateUrlKey(finalUrl)
+  if (key === getDuplicateUrlKey(url) || !/[/?]/.test(key)) return null
+  return key
+}
+
+/**
+ * Title key: lowercase letters and digits only
+ * @returns null when the title is too short to identify a page
+ */
+export function getDuplicateTitleKey(title: string | null | undefined): string | null {
+  if (!title) return null
+
+  const key = title
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '') // Strip diacritics
+    .replace(/ł/g, 'l')
+    .replace(/Ł/g, 'L')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim()
+
+  return key.length >= MIN_TITLE_LENGTH ? key : null
+}
+
+/**
+ * Word triples (shingles) of a text, used for content similarity
+ */
+export function getShingles(text: string | null | undefined): Set<string> {
+  const words = (text || '')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean)
+
+  const shingles = new Set<string>()
+  if (words.length < MIN_CONTENT_WORDS) return shingles
+
+  for (let i = 0; i + 3 <= words.length; i++) {
+    shingles.add(`${words[i]} ${words[i + 1]} ${words[i + 2]}`)
+  }
+  return shingles
+}
+
+/**
+ * Jaccard similarity of two shingle sets (0 - nothing in common, 1 - identical)
+ */
+export function getContentSimilarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0
+
+  const [smaller, larger] = a.size <= b.size ? [a, b] : [b, a]
+  let shared = 0
+  smaller.forEach((shingle) => {
+    if (larger.has(shingle)) shared++
+  })
+
+  return shared / (a.size + b.size - shared)
+}
+
+/**
+ * 32-bit FNV-1a hash, enough to order shingles for sketches
+ */
+function hashString(value: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+/**
+ * Bottom-k sketch: the shingles with the smallest hashes
+ * Similar texts share most of them, so only links with a common sketch entry are compared.
+ */
+function getSketch(shingles: Set<string>): string[] {
+  return Array.from(shingles)
+    .map((shingle) => ({ shingle, hash: hashString(shingle) }))
+    .sort((a, b) => a.hash - b.hash)
+    .slice(0, SKETCH_SIZE)
+    .map(({ shingle }) => shingle)
+}
+
+/**
+ * Group links that look like the same page
+ * Groups are transitive: A~B and B~C put A, B and C in one group.
+ */
+export function findDuplicateGroups<T extends DuplicateCandidate>(links: T[]): DuplicateGroup<T>[] {
+  const parent = links.map((_, index) => index)
+  const pairReasons = new Map<string, Set<DuplicateReason>>()
+
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]]
+      index = parent[index]
+    }
+    return index
+  }
+
+  const link = (a: number, b: number, reason: DuplicateReason) => {
+    const key = a < b ? `${a}:${b}` : `${b}:${a}`
+    const reasons = pairReasons.get(key) ?? new Set<DuplicateReason>()
+    reasons.add(reason)
+    pairReasons.set(key, reasons)
+    parent[find(a)] = find(b)
+  }
+
+  // Exact matches on url and title keys
+  const byKey = new Map<string, number>()
+  const addKey = (key: string | null, index: number, reason: DuplicateReason) => {
+    if (!key) return
+    const mapKey = `${reason}:${key}`
+    const first = byKey.get(mapKey)
+    if (first === undefined) {
+      byKey.set(mapKey, index)
+    } else {
+      link(first, index, reason)
+    }
+  }
+
+  links.forEach((item, index) => {
+    addKey(getDuplicateUrlKey(item.url), index, 'url')
+    addKey(getDuplicateFinalUrlKey(item.url, item.health_final_url), index, 'url')
+    addKey(getDuplicateTitleKey(item.title), index, 'title')
+  })
+
+  // Similar content, compared only for links that share a sketch entry
+  const shingles = links.map((item) => getShingles(item.scraped_content))
+  const bySketchEntry = new Map<string, number[]>()
+  shingles.forEach((set, index) => {
+    getSketch(set).forEach((shingle) => {
+      const indexes = bySketchEntry.get(shingle) ?? []
+      indexes.push(index)
+      bySketchEntry.set(shingle, indexes)
+    })
+  })
+
+  const compared = new Set<string>()
+  bySketchEntry.forEach((indexes) => {
+    for (let i = 0; i < indexes.length; i++) {
+      for (let j = i + 1; j < indexes.length; j++) {
+        const pairKey = `${indexes[i]}:${indexes[j]}`
+        if (compared.has(pairKey)) continue
+        compared.add(pairKey)
+
+        const similarity = getContentSimilarity(shingles[indexes[i]], shingles[indexes[j]])
+        if (similarity >= CONTENT_SIMILARITY_THRESHOLD) {
+          link(indexes[i], indexes[j], 'content')
+        }
+      }
+    }
+  })
+
+  // Collect groups
+  const members = new Map<number, number[]>()
+  links.forEach((_, index) => {
+    const root = find(index)
+    const indexes = members.get(root) ?? []
+    indexes.push(index)
+    members.set(root, indexes)
+  })
+
+  const groups: DuplicateGroup<T>[] = []
+  members.forEach((indexes) => {
+    if (indexes.length < 2) return
+
+    const memberSet = new Set(indexes)
+    const reasons = new Set<DuplicateReason>()
+    pairReasons.forEach((pair, key) => {
+      const [a] = key.split(':').map(Number)
+      if (memberSet.has(a)) pair.forEach((reason) => reasons.add(reason))
+    })
+
+    groups.push({
+      links: indexes
+        .map((index) => links[index])
+        .sort((a, b) => a.created_at.localeCompare(b.created_at)),
+      reasons: (['url', 'title', 'content'] as DuplicateReason[]).filter((reason) =>
+        reasons.has(reason)
+      ),
+    })
+  })
+
+  // Largest groups first
+  return groups.sort((a, b) => b.links.length - a.links.length)
+}
+
+/**
+ * Decide what merging a group of duplicates produces
+ * - the kept link defaults to the oldest one
+ * - best rating, oldest created_at
+ * - tags of all links, the kept link's own tags first, then the most common ones
+ */
+export function planDuplicateMerge(links: DuplicateCandidate[], keepId?: string): MergePlan {
+  if (links.length === 0) {
+    throw new Error('Nothing to merge')
+  }
+
+  const byAge = [...links].sort((a, b) => a.created_at.localeCompare(b.created_at))
+  const kept = byAge.find((item) => item.id === keepId) ?? byAge[0]
+
+  const ratings = links
+    .map((item) => item.rating)
+    .filter((rating): rating is number => rating !== null)
+
+  const tagCounts = new Map<string, number>()
+  links.forEach((item) =>
+    item.tagIds.forEach((tagId) => tagCounts.set(tagId, (tagCounts.get(tagId) ?? 0) + 1))
+  )
+  const otherTags = Array.from(tagCounts.keys())
+    .filter((tagId) => !kept.tagIds.includes(tagId))
+    .sort((a, b) => (tagCounts.get(b) ?? 0) - (tagCounts.get(a) ?? 0))
+
+  return {
+    keepId: kept.id,
+    removeIds: byAge.filter((item) => item.id !== kept.id).map((item) => item.id),
+    rating: ratings.length > 0 ? Math.max(...ratings) : null,
+    createdAt: byAge[0].created_at,
+    tagIds: [...kept.tagIds, ...otherTags].slice(0, MAX_TAGS_PER_LINK),
+  }
+}
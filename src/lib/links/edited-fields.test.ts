@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest'
+import { addEditedFields, isFieldEdited } from './edited-fields'
+
+describe('addEditedFields', () => {
+  it('should start from an empty list', () => {
+    expect(addEditedFields(null, ['title'])).toEqual(['title'])
+    expect(addEditedFields(undefined, ['tags'])).toEqual(['tags'])
+  })
+
+  it('should append new fields to existing ones', () => {
+    expect(addEditedFields(['title'], ['tags'])).toEqual(['title', 'tags'])
+  })
+
+  it('should not duplicate fields', () => {
+    expect(addEditedFields(['title', 'tags'], ['title'])).toEqual(['title', 'tags'])
+  })
+
+  it('should return the current list when nothing is added', () => {
+    expect(addEditedFields(['ai_description'], [])).toEqual(['ai_description'])
+  })
+})
+
+describe('isFieldEdited', () => {
+  it('should detect edited fields', () => {
+    expect(isFieldEdited(['title', 'tags'], 'tags')).toBe(true)
+  })
+
+  it('should return false for untouched fields', () => {
+    expect(isFieldEdited(['title'], 'ai_description')).toBe(false)
+    expect(isFieldEdited(null, 'title')).toBe(false)
+  })
+})
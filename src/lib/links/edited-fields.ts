@@ -0,0 +1,28 @@
+/**
+ * Tracking of manually edited link fields (links.user_edited_fields)
+ * The processing queue leaves these fields alone when a link is re-processed.
+ */
+
+import type { EditableLinkField } from '@/types'
+
+/**
+ * Add fields to the list of edited fields, keeping it free of duplicates
+ */
+export function addEditedFields(
+  current: readonly string[] | null | undefined,
+  fields: EditableLinkField[]
+): EditableLinkField[] {
+  const result = new Set((current || []) as EditableLinkField[])
+  fields.forEach((field) => result.add(field))
+  return Array.from(result)
+}
+
+/**
+ * Check whether the user changed a field by hand
+ */
+export function isFieldEdited(
+  current: readonly string[] | null | undefined,
+  field: EditableLinkField
+): boolean {
+  return (current || []).includes(field)
+}
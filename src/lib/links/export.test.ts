@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest'
+import {
+  toExportItem,
+  formatCsvItem,
+  formatJsonItem,
+  formatMarkdownItem,
+  CSV_COLUMNS,
+  type ExportLinkRow,
+} from './export'
+
+const row: ExportLinkRow = {
+  url: 'https://example.com/post',
+  title: 'Commas, "quotes"\nand lines',
+  domain: 'example.com',
+  ai_description: 'A post',
+  notes: 'First line\nSecond line',
+  rating: 4,
+  ai_processing_status: 'completed',
+  link_tags: [{ tags: { name: 'news' } }, { tags: null }, { tags: { name: 'tech' } }],
+  link_highlights: [
+    { quote: 'later', comment: null, start_offset: 40 },
+    { quote: 'earlier', comment: 'Good point', start_offset: 10 },
+  ],
+  collection_links: [{ collections: { name: 'Reading' } }],
+  created_at: '2025-01-02T03:04:05.000Z',
+  deleted_at: null,
+}
+
+describe('toExportItem', () => {
+  it('should flatten relations and skip missing tags', () => {
+    const item = toExportItem(row)
+    expect(item.tags).toEqual(['news', 'tech'])
+    expect(item.collections).toEqual(['Reading'])
+    expect(item.status).toBe('completed')
+  })
+
+  it('should order highlights as on the page', () => {
+    const item = toExportItem(row)
+    expect(item.highlights.map((highlight) => highlight.quote)).toEqual(['earlier', 'later'])
+  })
+})
+
+describe('formatCsvItem', () => {
+  it('should write one field per column and escape special characters', () => {
+    const record = formatCsvItem(toExportItem(row))
+    expect(record).toBe(
+      'https://example.com/post,"Commas, ""quotes""\nand lines",A post,example.com,4,' +
+        'news; tech,Reading,completed,2025-01-02T03:04:05.000Z,,"First line\nSecond line"\r\n'
+    )
+  })
+
+  it('should fill the Deleted column for links in the trash', () => {
+    const record = formatCsvItem(toExportItem({ ...row, deleted_at: '2025-02-01T00:00:00.000Z' }))
+    expect(record).toContain(',2025-02-01T00:00:00.000Z,')
+  })
+
+  it('should neutralize formulas in titles, descriptions, notes and tags', () => {
+    const item = toExportItem({
+      ...row,
+      title: '=cmd',
+      ai_description: '+desc',
+      notes: '@note',
+      link_tags: [{ tags: { name: '-tag' } }],
+    })
+    expect(formatCsvItem(item)).toBe(
+      "https://example.com/post,'=cmd,'+desc,example.com,4," +
+        "'-tag,Reading,completed,2025-01-02T03:04:05.000Z,,'@note\r\n"
+    )
+  })
+
+  it('should have a field for every column', () => {
+    const item = toExportItem({ ...row, title: 'Plain', notes: null })
+    expect(formatCsvItem(item).trimEnd().split(',')).toHaveLength(CSV_COLUMNS.length)
+  })
+})
+
+describe('formatJsonItem', () => {
+  it('should indent the entry as an element of the top-level array', () => {
+    const item = toExportItem(row)
+    const file = `[\n${formatJsonItem(item)}\n]`
+    expect(file).toBe(
+      JSON.stringify(
+        [
+          {
+            url: item.url,
+            title: item.title,
+            description: item.description,
+            notes: item.notes,
+            rating: item.rating,
+            tags: item.tags,
+            collections: item.collections,
+            created: item.created,
+          },
+        ],
+        null,
+        2
+      )
+    )
+  })
+
+  it('should only add the deleted date for links in the trash', () => {
+    expect(JSON.parse(formatJsonItem(toExportItem(row)))).not.toHaveProperty('deleted')
+    const deleted = toExportItem({ ...row, deleted_at: '2025-02-01T00:00:00.000Z' })
+    expect(JSON.parse(formatJsonItem(deleted)).deleted).toBe('2025-02-01T00:00:00.000Z')
+  })
+})
+
+describe('formatMarkdownItem', () => {
+  it('should number the section and quote highlights', () => {
+    const section = formatMarkdownItem(toExportItem(row), 3)
+    expect(section.startsWith('## 3. Commas')).toBe(true)
+    expect(section).toContain('**Tags:** news, tech')
+    expect(section).toContain('> earlier\n\nGood point\n\n> later')
+    expect(section).not.toContain('**Deleted:**')
+  })
+})
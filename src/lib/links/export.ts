@@ -0,0 +1,413 @@
+/**
+ * Export of the links of a space as JSON, CSV or Markdown
+ * Shared by the export dialogs (exportUserData, /api/export) and the REST API (/api/v1/export).
+ * Links are read in pages and written as chunks, so large libraries can be streamed.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { scopeQuery, type OwnerScope } from '@/lib/workspaces/scope'
+import { toCsvRecord } from './csv'
+
+export const EXPORT_FORMATS = ['json', 'csv', 'markdown'] as const
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number]
+
+// Links read per query
+const EXPORT_PAGE_SIZE = 500
+
+export interface ExportOptions {
+  linkIds?: string[] // Only these links (bulk export)
+  includeDeleted?: boolean // Links in the trash as well
+}
+
+export interface ExportFile {
+  content: string
+  mimeType: string
+  filename: string
+}
+
+export interface ExportStream {
+  stream: ReadableStream<Uint8Array>
+  mimeType: string
+  filename: string
+}
+
+type Highlight = { quote: string; comment: string | null; start_offset: number }
+
+export interface ExportLinkRow {
+  url: string
+  title: string | null
+  domain: string
+  ai_description: string | null
+  notes: string | null
+  rating: number | null
+  ai_processing_status: string | null
+  link_tags?: { tags?: { name: string } | null }[] | null
+  link_highlights?: Highlight[] | null
+  collection_links?: { collections?: { name: string } | null }[] | null
+  created_at: string
+  deleted_at: string | null
+}
+
+export interface ExportItem {
+  url: string
+  title: string | null
+  domain: string
+  description: string | null
+  notes: string | null
+  rating: number | null
+  status: string | null
+  tags: string[]
+  collections: string[]
+  created: string
+  deleted: string | null
+  highlights: Highlight[]
+}
+
+const EXPORT_SELECT = `
+  url,
+  title,
+  domain,
+  ai_description,
+  notes,
+  rating,
+  ai_processing_status,
+  created_at,
+  deleted_at,
+  link_tags (
+    tags (
+      name
+    )
+  ),
+  link_highlights (
+    quote,
+    comment,
+    start_offset
+  ),
+  collection_links (
+    collections (
+      name
+    )
+  )
+`
+
+export const CSV_COLUMNS = [
+  'URL',
+  'Title',
+  'Description',
+  'Domain',
+  'Rating',
+  'Tags',
+  'Collections',
+  'Status',
+  'Created',
+  'Deleted',
+  'Notes',
+] as const
+
+/**
+ * Flatten a link row with its relations
+ */
+export function toExportItem(link: ExportLinkRow): ExportItem {
+  return {
+    url: link.url,
+    title: link.title,
+    domain: link.domain,
+    description: link.ai_description,
+    notes: link.notes,
+    rating: link.rating,
+    status: link.ai_processing_status,
+    tags: (link.link_tags || []).flatMap((lt) => (lt.tags?.name ? [lt.tags.name] : [])),
+    collections: (link.collection_links || []).flatMap((cl) =>
+      cl.collections?.name ? [cl.collections.name] : []
+    ),
+    created: link.created_at,
+    deleted: link.deleted_at,
+    // Reading order of the page
+    highlights: [...(link.link_highlights || [])].sort((a, b) => a.start_offset - b.start_offset),
+  }
+}
+
+/**
+ * One CSV record of a link - columns as in CSV_COLUMNS
+ */
+export function formatCsvItem(item: ExportItem): string {
+  return toCsvRecord([
+    item.url,
+    item.title,
+    item.description,
+    item.domain,
+    item.rating,
+    item.tags.join('; '),
+    item.collections.join('; '),
+    item.status,
+    item.created,
+    item.deleted,
+    item.notes,
+  ])
+}
+
+/**
+ * One entry of the JSON export, indented as an element of the top-level array
+ * Keeps the fields importUserData reads - highlights are only part of the markdown export.
+ */
+export function formatJsonItem(item: ExportItem): string {
+  const entry = {
+    url: item.url,
+    title: item.title,
+    description: item.description,
+    notes: item.notes,
+    rating: item.rating,
+    tags: item.tags,
+    collections: item.collections,
+    created: item.created,
+    ...(item.deleted && { deleted: item.deleted }),
+  }
+
+  return JSON.stringify(entry, null, 2)
+    .split('\n')
+    .map((line) => `  ${line}`)
+    .join('\n')
+}
+
+/**
+ * Title block of the markdown export
+ */
+export function formatMarkdownHeader(total: number): string {
+  let output = '# TagLink Export\n\n'
+  output += `Exported: ${new Date().toISOString()}\n\n`
+  output += `Total Links: ${total}\n\n---\n\n`
+  return output
+}
+
+/**
+ * One section of the markdown export (position is 1-based)
+ */
+export function formatMarkdownItem(item: ExportItem, position: number): string {
+  let output = `## ${position}. ${item.title || 'Untitled'}\n\n`
+  output += `**URL:** ${item.url}\n\n`
+  if (item.description) output += `**Description:** ${item.description}\n\n`
+  if (item.rating) output += `**Rating:** ${'⭐'.repeat(item.rating)}\n\n`
+  if (item.tags.length > 0) output += `**Tags:** ${item.tags.join(', ')}\n\n`
+  if (item.collections.length > 0) output += `**Collections:** ${item.collections.join(', ')}\n\n`
+  output += `**Created:** ${new Date(item.created).toLocaleString()}\n\n`
+  if (item.deleted) output += `**Deleted:** ${new Date(item.deleted).toLocaleString()}\n\n`
+  if (item.notes) output += `**Notes:**\n\n${item.notes}\n\n`
+  if (item.highlights.length > 0) {
+    output += '**Highlights:**\n\n'
+    item.highlights.forEach((highlight) => {
+      output += `${highlight.quote.split('\n').map((line) => `> ${line}`).join('\n')}\n\n`
+      if (highlight.comment) output += `${highlight.comment}\n\n`
+    })
+  }
+  output += '---\n\n'
+  return output
+}
+
+/**
+ * File type and name of an export
+ */
+export function getExportFileInfo(format: ExportFormat): { mimeType: string; filename: string } {
+  switch (format) {
+    case 'json':
+      return { mimeType: 'application/json', filename: `taglink-export-${Date.now()}.json` }
+    case 'csv':
+      return { mimeType: 'text/csv', filename: `taglink-export-${Date.now()}.csv` }
+    case 'markdown':
+      return { mimeType: 'text/markdown', filename: `taglink-export-${Date.now()}.md` }
+  }
+}
+
+// The part of a Supabase filter builder filterExportQuery needs (see scopeQuery)
+interface ExportFilterable {
+  in(column: string, values: string[]): ExportFilterable
+  is(column: string, value: null): ExportFilterable
+}
+
+/**
+ * Limit a query to the links of the export
+ */
+function filterExportQuery<T extends { in: unknown; is: unknown }>(
+  query: T,
+  options: ExportOptions
+): T {
+  let filtered = query as unknown as ExportFilterable
+  if (options.linkIds) {
+    filtered = filtered.in('id', options.linkIds)
+  }
+  if (!options.includeDeleted) {
+    filtered = filtered.is('deleted_at', null)
+  }
+  return filtered as unknown as T
+}
+
+/**
+ * Number of links the export will contain (for the markdown header)
+ */
+async function countExportLinks(
+  supabase: SupabaseClient,
+  scope: OwnerScope,
+  options: ExportOptions
+): Promise<number> {
+  const { count, error } = await filterExportQuery(
+    scopeQuery(supabase.from('links').select('id', { count: 'exact', head: true }), scope),
+    options
+  )
+
+  if (error) {
+    throw new Error(`Failed to count links for export: ${error.message}`)
+  }
+
+  return count ?? 0
+}
+
+/**
+ * Read the links of the export page by page, newest first
+ */
+async function* fetchExportItems(
+  supabase: SupabaseClient,
+  scope: OwnerScope,
+  options: ExportOptions
+): AsyncGenerator<ExportItem[]> {
+  for (let from = 0; ; from += EXPORT_PAGE_SIZE) {
+    const { data, error } = await filterExportQuery(
+      scopeQuery(supabase.from('links').select(EXPORT_SELECT), scope),
+      options
+    )
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .range(from, from + EXPORT_PAGE_SIZE - 1)
+
+    if (error) {
+      throw new Error(`Failed to fetch links for export: ${error.message}`)
+    }
+
+    const rows = (data || []) as unknown as ExportLinkRow[]
+    if (rows.length > 0) {
+      yield rows.map(toExportItem)
+    }
+    if (rows.length < EXPORT_PAGE_SIZE) return
+  }
+}
+
+/**
+ * The export file as text chunks, one chunk per page of links
+ * Throws when the links cannot be read.
+ */
+export async function* generateExport(
+  supabase: SupabaseClient,
+  scope: OwnerScope,
+  format: ExportFormat,
+  options: ExportOptions = {}
+): AsyncGenerator<string> {
+  const pages = fetchExportItems(supabase, scope, options)
+
+  switch (format) {
+    case 'json': {
+      let first = true
+      for await (const items of pages) {
+        const entries = items.map(formatJsonItem).join(',\n')
+        yield first ? `[\n${entries}` : `,\n${entries}`
+        first = false
+      }
+      yield first ? '[]' : '\n]'
+      break
+    }
+
+    case 'csv':
+      yield toCsvRecord(CSV_COLUMNS)
+      for await (const items of pages) {
+        yield items.map(formatCsvItem).join('')
+      }
+      break
+
+    case 'markdown': {
+      yield formatMarkdownHeader(await countExportLinks(supabase, scope, options))
+      let position = 0
+      for await (const items of pages) {
+        yield items.map((item) => formatMarkdownItem(item, ++position)).join('')
+      }
+      break
+    }
+  }
+}
+
+/**
+ * Export all links of the space (or only linkIds) in the format
+ * Builds the whole file in memory - large libraries are downloaded with streamSpaceLinks.
+ */
+export async function exportSpaceLinks(
+  supabase: SupabaseClient,
+  scope: OwnerScope,
+  format: ExportFormat,
+  options: ExportOptions = {}
+): Promise<{ success: boolean; data?: ExportFile; error?: string }> {
+  let content = ''
+
+  try {
+    for await (const chunk of generateExport(supabase, scope, format, options)) {
+      content += chunk
+    }
+  } catch (error) {
+    console.error('Error exporting links:', error)
+    return { success: false, error: 'Failed to export data' }
+  }
+
+  return { success: true, data: { content, ...getExportFileInfo(format) } }
+}
+
+/**
+ * Export as a stream for download routes
+ * The first page is read before returning, so errors of the query still become an error
+ * response; a failure later on aborts the download.
+ */
+export async function streamSpaceLinks(
+  supabase: SupabaseClient,
+  scope: OwnerScope,
+  format: ExportFormat,
+  options: ExportOptions = {}
+): Promise<{ success: boolean; data?: ExportStream; error?: string }> {
+  const chunks = generateExport(supabase, scope, format, options)
+  const encoder = new TextEncoder()
+  let firstChunk: IteratorResult<string>
+
+  try {
+    firstChunk = await chunks.next()
+    // The markdown and CSV headers come before the first page
+    if (!firstChunk.done && format !== 'json') {
+      const secondChunk = await chunks.next()
+      if (!secondChunk.done) {
+        firstChunk = { done: false, value: firstChunk.value + secondChunk.value }
+      }
+    }
+  } catch (error) {
+    console.error('Error exporting links:', error)
+    return { success: false, error: 'Failed to export data' }
+  }
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      if (!firstChunk.done) {
+        controller.enqueue(encoder.encode(firstChunk.value))
+      }
+    },
+    async pull(controller) {
+      try {
+        const { done, value } = await chunks.next()
+        if (done) {
+          controller.close()
+        } else {
+          controller.enqueue(encoder.encode(value))
+        }
+      } catch (error) {
+        console.error('Error streaming export:', error)
+        controller.error(error)
+      }
+    },
+    async cancel() {
+      await chunks.return(undefined)
+    },
+  })
+
+  return { success: true, data: { stream, ...getExportFileInfo(format) } }
+}
@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildAtomFeed,
+  buildRssFeed,
+  escapeXml,
+  getFeedItems,
+  getFeedTitle,
+  type FeedInfo,
+} from './feeds'
+import type { LinkWithTags } from '@/types'
+
+const info: FeedInfo = {
+  id: 'https://taglink.app/api/v1/feeds/atom?tags=1',
+  title: 'TagLink: security',
+  description: 'Links tagged security',
+  selfUrl: 'https://taglink.app/api/v1/feeds/atom?tags=1&token=abc',
+  siteUrl: 'https://taglink.app/dashboard',
+  updatedAt: '2025-11-20T10:00:00.000Z',
+}
+
+const link = {
+  id: '123e4567-e89b-12d3-a456-426614174000',
+  url: 'https://example.com/?a=1&b=2',
+  title: 'XSS <script> & friends',
+  ai_description: 'How "escaping" works',
+  created_at: '2025-11-19T08:30:00.000Z',
+  updated_at: '2025-11-20T09:00:00.000Z',
+  link_tags: [{ tag: { id: 't1', name: 'security' } }, { tag: { id: 't2', name: 'web' } }],
+} as unknown as LinkWithTags
+
+describe('escapeXml', () => {
+  it('should escape markup characters', () => {
+    expect(escapeXml(`<a href="x">Tom & 'Jerry'</a>`)).toBe(
+      '&lt;a href=&quot;x&quot;&gt;Tom &amp; &apos;Jerry&apos;&lt;/a&gt;'
+    )
+  })
+
+  it('should drop characters that are not allowed in XML', () => {
+    expect(escapeXml('a\u0000b\u0008c\nd')).toBe('abc\nd')
+  })
+})
+
+describe('getFeedTitle', () => {
+  it('should name the tags and the query', () => {
+    expect(getFeedTitle({ tagNames: ['security'] })).toBe('TagLink: security')
+    expect(getFeedTitle({ query: 'react', tagNames: ['web', 'js'] })).toBe(
+      'TagLink: web + js, search for react'
+    )
+  })
+
+  it('should fall back to the whole library', () => {
+    expect(getFeedTitle({})).toBe('TagLink: all links')
+  })
+})
+
+describe('getFeedItems', () => {
+  it('should take the description and tags of a link', () => {
+    expect(getFeedItems([link])).toEqual([
+      {
+        id: link.id,
+        url: link.url,
+        title: 'XSS <script> & friends',
+        summary: 'How "escaping" works',
+        categories: ['security', 'web'],
+        publishedAt: '2025-11-19T08:30:00.000Z',
+        updatedAt: '2025-11-20T09:00:00.000Z',
+      },
+    ])
+  })
+
+  it('should use the URL when a link has no title yet', () => {
+    const [item] = getFeedItems([{ ...link, title: null, link_tags: undefined }])
+    expect(item.title).toBe(link.url)
+    expect(item.categories).toEqual([])
+  })
+})
+
+describe('buildRssFeed', () => {
+  it('should build an RSS 2.0 channel with escaped items', () => {
+    const xml = buildRssFeed(info, getFeedItems([link]))
+
+    expect(xml).toMatch(/^<\?xml version="1.0" encoding="UTF-8"\?>\n<rss version="2.0"/)
+    expect(xml).toContain('<title>TagLink: security</title>')
+    expect(xml).toContain(
+      '<atom:link href="https://taglink.app/api/v1/feeds/atom?tags=1&amp;token=abc" rel="self"'
+    )
+    expect(xml).toContain('<title>XSS &lt;script&gt; &amp; friends</title>')
+    expect(xml).toContain('<link>https://example.com/?a=1&amp;b=2</link>')
+    expect(xml).toContain(`<guid isPermaLink="false">urn:uuid:${link.id}</guid>`)
+    expect(xml).toContain('<pubDate>Wed, 19 Nov 2025 08:30:00 GMT</pubDate>')
+    expect(xml).toContain('<description>How &quot;escaping&quot; works</description>')
+    expect(xml).toContain('<category>security</category>')
+    expect(xml).toContain('<category>web</category>')
+  })
+
+  it('should build an empty channel', () => {
+    const xml = buildRssFeed(info, [])
+    expect(xml).not.toContain('<item>')
+    expect(xml).toContain('</channel>')
+  })
+})
+
+describe('buildAtomFeed', () => {
+  it('should build an Atom feed with escaped entries', () => {
+    const xml = buildAtomFeed(info, getFeedItems([link]))
+
+    expect(xml).toContain('<feed xmlns="http://www.w3.org/2005/Atom">')
+    expect(xml).toContain('<id>https://taglink.app/api/v1/feeds/atom?tags=1</id>')
+    expect(xml).toContain('<updated>2025-11-20T10:00:00.000Z</updated>')
+    expect(xml).toContain(`<id>urn:uuid:${link.id}</id>`)
+    expect(xml).toContain('<link href="https://example.com/?a=1&amp;b=2" />')
+    expect(xml).toContain('<published>2025-11-19T08:30:00.000Z</published>')
+    expect(xml).toContain('<summary>How &quot;escaping&quot; works</summary>')
+    expect(xml).toContain('<category term="security" />')
+  })
+
+  it('should leave out the summary of links without a description', () => {
+    const xml = buildAtomFeed(info, getFeedItems([{ ...link, ai_description: null }]))
+    expect(xml).not.toContain('<summary>')
+  })
+})
@@ -0,0 +1,164 @@
+/**
+ * RSS 2.0 and Atom feeds of saved links (/api/v1/feeds/rss, /api/v1/feeds/atom)
+ * Every item carries the AI description as its summary and the link's tags as categories.
+ */
+
+import type { LinkWithTags } from '@/types'
+
+export const FEED_FORMATS = ['rss', 'atom'] as const
+
+export type FeedFormat = (typeof FEED_FORMATS)[number]
+
+export const FEED_CONTENT_TYPES: Record<FeedFormat, string> = {
+  rss: 'application/rss+xml; charset=utf-8',
+  atom: 'application/atom+xml; charset=utf-8',
+}
+
+// Items per feed - readers poll often, so the newest links are enough
+export const FEED_ITEM_LIMIT = 50
+
+export interface FeedInfo {
+  id: string // Stable identifier of the feed (Atom <id>), without the token
+  title: string
+  description: string
+  selfUrl: string // URL the feed was requested with
+  siteUrl: string // Where the links live in the app
+  updatedAt: string
+}
+
+export interface FeedItem {
+  id: string
+  url: string
+  title: string
+  summary: string | null
+  categories: string[]
+  publishedAt: string
+  updatedAt: string
+}
+
+// Characters that are not allowed anywhere in XML 1.0
+const INVALID_XML_CHARS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g
+
+/**
+ * Escape text for XML element content and attribute values
+ */
+export function escapeXml(value: string): string {
+  return value
+    .replace(INVALID_XML_CHARS, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+/**
+ * Feed title for the filters, e.g. "TagLink: security" or "TagLink: search for react"
+ */
+export function getFeedTitle(filters: { query?: string; tagNames?: string[] }): string {
+  const parts: string[] = []
+  if (filters.tagNames && filters.tagNames.length > 0) {
+    parts.push(filters.tagNames.join(' + '))
+  }
+  if (filters.query) {
+    parts.push(`search for ${filters.query}`)
+  }
+  return parts.length > 0 ? `TagLink: ${parts.join(', ')}` : 'TagLink: all links'
+}
+
+/**
+ * Feed items of search results (links with their tags)
+ */
+export function getFeedItems(links: LinkWithTags[]): FeedItem[] {
+  return links.map((link) => ({
+    id: link.id,
+    url: link.url,
+    title: link.title || link.url,
+    summary: link.ai_description,
+    categories: (link.link_tags || [])
+      .filter((linkTag) => linkTag.tag)
+      .map((linkTag) => linkTag.tag.name),
+    publishedAt: link.created_at,
+    updatedAt: link.updated_at,
+  }))
+}
+
+function getItemGuid(item: FeedItem): string {
+  return `urn:uuid:${item.id}`
+}
+
+/**
+ * RSS 2.0 document
+ */
+export function buildRssFeed(info: FeedInfo, items: FeedItem[]): string {
+  const entries = items.map((item) =>
+    [
+      '    <item>',
+      `      <title>${escapeXml(item.title)}</title>`,
+      `      <link>${escapeXml(item.url)}</link>`,
+      `      <guid isPermaLink="false">${getItemGuid(item)}</guid>`,
+      `      <pubDate>${new Date(item.publishedAt).toUTCString()}</pubDate>`,
+      ...(item.summary ? [`      <description>${escapeXml(item.summary)}</description>`] : []),
+      ...item.categories.map((category) => `      <category>${escapeXml(category)}</category>`),
+      '    </item>',
+    ].join('\n')
+  )
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">',
+    '  <channel>',
+    `    <title>${escapeXml(info.title)}</title>`,
+    `    <link>${escapeXml(info.siteUrl)}</link>`,
+    `    <description>${escapeXml(info.description)}</description>`,
+    `    <atom:link href="${escapeXml(info.selfUrl)}" rel="self" type="application/rss+xml" />`,
+    `    <lastBuildDate>${new Date(info.updatedAt).toUTCString()}</lastBuildDate>`,
+    ...entries,
+    '  </channel>',
+    '</rss>',
+    '',
+  ].join('\n')
+}
+
+/**
+ * Atom 1.0 document
+ */
+export function buildAtomFeed(info: FeedInfo, items: FeedItem[]): string {
+  const entries = items.map((item) =>
+    [
+      '  <entry>',
+      `    <id>${getItemGuid(item)}</id>`,
+      `    <title>${escapeXml(item.title)}</title>`,
+      `    <link href="${escapeXml(item.url)}" />`,
+      `    <published>${new Date(item.publishedAt).toISOString()}</published>`,
+      `    <updated>${new Date(item.updatedAt).toISOString()}</updated>`,
+      ...(item.summary ? [`    <summary>${escapeXml(item.summary)}</summary>`] : []),
+      ...item.categories.map((category) => `    <category term="${escapeXml(category)}" />`),
+      '  </entry>',
+    ].join('\n')
+  )
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <id>${escapeXml(info.id)}</id>`,
+    `  <title>${escapeXml(info.title)}</title>`,
+    `  <subtitle>${escapeXml(info.description)}</subtitle>`,
+    `  <link href="${escapeXml(info.siteUrl)}" />`,
+    `  <link href="${escapeXml(info.selfUrl)}" rel="self" type="application/atom+xml" />`,
+    `  <updated>${new Date(info.updatedAt).toISOString()}</updated>`,
+    '  <author>',
+    '    <name>TagLink</name>',
+    '  </author>',
+    ...entries,
+    '</feed>',
+    '',
+  ].join('\n')
+}
+
+/**
+ * Feed document in the requested format
+ */
+export function buildFeed(format: FeedFormat, info: FeedInfo, items: FeedItem[]): string {
+  return format === 'atom' ? buildAtomFeed(info, items) : buildRssFeed(info, items)
+}
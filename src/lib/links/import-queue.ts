@@ -0,0 +1,182 @@
+/**
+ * Overflow queue for bulk imports (link_import_queue)
+ * URLs that hit the hourly link limit wait here and are added by
+ * /api/cron/import-links once the user's limit allows it.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { scopeOwner, scopeQuery, rowScope, type OwnerScope } from '@/lib/workspaces/scope'
+import { deliverPendingWebhooks, queueWebhookEvent } from '@/lib/webhooks'
+import { getLinkEventData } from '@/lib/webhooks/events'
+import { createLinkForUser, LINKS_PER_HOUR_LIMIT } from './create'
+import { canonicalizeUrl } from './urls'
+
+// Tries before a queued URL that keeps failing to save ends as 'failed'
+export const MAX_IMPORT_ATTEMPTS = 5
+
+// No user can add more links than this in an hour, so more rows per run are never needed
+const QUEUED_IMPORTS_PER_USER = LINKS_PER_HOUR_LIMIT
+
+export interface DrainImportQueueOptions {
+  maxLinks?: number // Upper bound of queued URLs looked at in one run
+}
+
+export interface DrainImportQueueSummary {
+  processed: number
+  created: number
+  duplicate: number
+  invalid: number
+  failed: number // Gave up after MAX_IMPORT_ATTEMPTS errors
+  deferred: number // Still queued (limit reached again or temporary error)
+}
+
+interface QueuedImport {
+  id: string
+  user_id: string
+  workspace_id: string | null
+  url: string
+  title: string | null
+  attempts: number
+}
+
+/**
+ * Add URLs to the user's import queue for a space
+ * @returns URLs that were already waiting in the queue
+ */
+export async function enqueueImports(
+  supabase: SupabaseClient,
+  owner: OwnerScope,
+  urls: string[]
+): Promise<{ success: boolean; alreadyQueued: string[]; error?: string }> {
+  if (urls.length === 0) {
+    return { success: true, alreadyQueued: [] }
+  }
+
+  const normalizedUrls = urls.map(canonicalizeUrl)
+
+  const { data: existing, error: fetchError } = await scopeQuery(
+    supabase.from('link_import_queue').select('normalized_url'),
+    owner
+  )
+    .eq('user_id', owner.userId)
+    .eq('status', 'queued')
+    .in('normalized_url', normalizedUrls)
+
+  if (fetchError) {
+    console.error('Error checking import queue:', fetchError)
+    return { success: false, alreadyQueued: [], error: 'Failed to queue links' }
+  }
+
+  const queuedSet = new Set((existing || []).map((row) => row.normalized_url as string))
+  const alreadyQueued = urls.filter((_, i) => queuedSet.has(normalizedUrls[i]))
+  const rows = urls
+    .map((url, i) => ({ ...scopeOwner(owner), url, normalized_url: normalizedUrls[i] }))
+    .filter((row) => !queuedSet.has(row.normalized_url))
+
+  if (rows.length > 0) {
+    const { error: insertError } = await supabase.from('link_import_queue').insert(rows)
+
+    if (insertError) {
+      console.error('Error queueing imports:', insertError)
+      return { success: false, alreadyQueued, error: 'Failed to queue links' }
+    }
+  }
+
+  return { success: true, alreadyQueued }
+}
+
+/**
+ * Turn queued imports into links while the users' hourly limits allow it
+ * Rows are handed out round robin (next_queued_imports), so every user with queued URLs
+ * gets a share of the run no matter how large someone else's backlog is.
+ */
+export async function drainImportQueue(
+  supabase: SupabaseClient,
+  options: DrainImportQueueOptions = {}
+): Promise<DrainImportQueueSummary> {
+  const { maxLinks = 50 } = options
+  const summary: DrainImportQueueSummary = {
+    processed: 0,
+    created: 0,
+    duplicate: 0,
+    invalid: 0,
+    failed: 0,
+    deferred: 0,
+  }
+
+  const { data: queued, error } = await supabase.rpc('next_queued_imports', {
+    p_per_user: QUEUED_IMPORTS_PER_USER,
+    p_limit: maxLinks,
+  })
+
+  if (error) {
+    console.error('Error fetching import queue:', error)
+    return summary
+  }
+
+  // Users whose limit is used up are skipped for the rest of this run
+  const limitedUsers = new Set<string>()
+  let webhooksQueued = false
+
+  for (const item of (queued || []) as QueuedImport[]) {
+    summary.processed++
+
+    if (limitedUsers.has(item.user_id)) {
+      summary.deferred++
+      continue
+    }
+
+    const outcome = await createLinkForUser(supabase, rowScope(item), {
+      url: item.url,
+      title: item.title ?? undefined,
+    })
+
+    if (outcome.status === 'rate_limited') {
+      limitedUsers.add(item.user_id)
+      summary.deferred++
+      continue
+    }
+
+    if (outcome.status === 'error') {
+      const attempts = item.attempts + 1
+      const givenUp = attempts >= MAX_IMPORT_ATTEMPTS
+
+      await supabase
+        .from('link_import_queue')
+        .update({
+          attempts,
+          error: outcome.error,
+          ...(givenUp && { status: 'failed', processed_at: new Date().toISOString() }),
+        })
+        .eq('id', item.id)
+
+      summary[givenUp ? 'failed' : 'deferred']++
+      continue
+    }
+
+    await supabase
+      .from('link_import_queue')
+      .update({
+        status: outcome.status,
+        error: outcome.status === 'created' ? null : outcome.error,
+        processed_at: new Date().toISOString(),
+      })
+      .eq('id', item.id)
+
+    if (outcome.status === 'created' && outcome.link) {
+      const queuedEvents = await queueWebhookEvent(supabase, item.user_id, 'link.created', {
+        link: getLinkEventData(outcome.link),
+      })
+      webhooksQueued ||= queuedEvents.length > 0
+    }
+
+    summary[outcome.status]++
+  }
+
+  // Send the link.created events now; the webhook cron worker retries failures
+  if (webhooksQueued) {
+    await deliverPendingWebhooks(supabase)
+  }
+
+  return summary
+}
@@ -0,0 +1,235 @@
+/**
+ * Reading and editing single links, shared by the dashboard (server actions) and the REST API
+ * Callers check that the user may change the space before calling the write helpers.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { z } from 'zod'
+import { deleteLinkSchema, setReadingStateSchema, updateLinkSchema } from '@/lib/validations/links'
+import { addEditedFields } from '@/lib/links/edited-fields'
+import { scopeQuery, type OwnerScope } from '@/lib/workspaces/scope'
+import type { EditableLinkField, LinkWithTags, ReadingState } from '@/types'
+
+/**
+ * Helper function to truncate string to max length
+ * @param str - String to truncate
+ * @param maxLength - Maximum length (default 500 for database varchar(500))
+ * @returns Truncated string
+ */
+function truncateString(str: string | null | undefined, maxLength: number = 500): string | null {
+  if (!str) return null
+  return str.length > maxLength ? str.substring(0, maxLength) : str
+}
+
+// Helper function to remove undefined values from objects
+function removeUndefined<T extends Record<string, any>>(obj: T): Partial<T> {
+  return Object.entries(obj).reduce((acc, [key, value]) => {
+    if (value !== undefined) {
+      acc[key as keyof T] = value
+    }
+    return acc
+  }, {} as Partial<T>)
+}
+
+/**
+ * Get a live link of a space with its tags
+ */
+export async function getSpaceLink(
+  supabase: SupabaseClient,
+  scope: OwnerScope,
+  linkId: string
+): Promise<{
+  success: boolean
+  data?: LinkWithTags
+  error?: string
+}> {
+  // Validate input
+  const validation = deleteLinkSchema.safeParse({ id: linkId })
+  if (!validation.success) {
+    return { success: false, error: 'Invalid link ID' }
+  }
+
+  const { data: link, error: fetchError } = await scopeQuery(
+    supabase.from('links').select(
+      `
+      *,
+      link_tags (
+        tag:tags (
+          id,
+          name
+        )
+      )
+    `
+    ),
+    scope
+  )
+    .eq('id', linkId)
+    .is('deleted_at', null)
+    .maybeSingle()
+
+  if (fetchError) {
+    console.error('Error fetching link:', fetchError)
+    return { success: false, error: 'Failed to fetch link' }
+  }
+
+  if (!link) {
+    return { success: false, error: 'Link not found' }
+  }
+
+  return { success: true, data: link }
+}
+
+/**
+ * Change the title, description, rating, notes or reminder of a link
+ * Manual title and description changes are remembered so re-processing keeps them.
+ */
+export async function updateSpaceLink(
+  supabase: SupabaseClient,
+  scope: OwnerScope,
+  data: z.infer<typeof updateLinkSchema>
+): Promise<{ success: boolean; error?: string }> {
+  // Validate input
+  const validation = updateLinkSchema.safeParse(data)
+  if (!validation.success) {
+    return {
+      success: false,
+      error: validation.error.issues[0]?.message || 'Validation failed',
+    }
+  }
+
+  // Build update object with only defined fields
+  const { id, ...fieldsToUpdate } = data
+  const updateData: Record<string, unknown> = removeUndefined({
+    title: fieldsToUpdate.title ? truncateString(fieldsToUpdate.title) : undefined,
+    ai_description: fieldsToUpdate.ai_description ? truncateString(fieldsToUpdate.ai_description, 280) : undefined,
+    rating: fieldsToUpdate.rating,
+    // Empty notes are stored as null
+    notes: fieldsToUpdate.notes !== undefined ? fieldsToUpdate.notes?.trim() || null : undefined,
+    remind_at: fieldsToUpdate.remind_at,
+  })
+
+  // Check if there's anything to update
+  if (Object.keys(updateData).length === 0) {
+    return { success: false, error: 'No fields to update' }
+  }
+
+  const { data: currentLink, error: fetchError } = await scopeQuery(
+    supabase.from('links').select('title, ai_description, user_edited_fields'),
+    scope
+  )
+    .eq('id', id)
+    .is('deleted_at', null)
+    .single()
+
+  if (fetchError || !currentLink) {
+    return { success: false, error: 'Link not found' }
+  }
+
+  // Remember manual changes so re-processing does not overwrite them
+  const editedFields: EditableLinkField[] = []
+  if (updateData.title !== undefined && updateData.title !== currentLink.title) {
+    editedFields.push('title')
+  }
+  if (updateData.ai_description !== undefined && updateData.ai_description !== currentLink.ai_description) {
+    editedFields.push('ai_description')
+  }
+  if (editedFields.length > 0) {
+    updateData.user_edited_fields = addEditedFields(currentLink.user_edited_fields, editedFields)
+  }
+
+  // Update link - the link may have been trashed in the meantime
+  const { data: updatedLinks, error: updateError } = await scopeQuery(
+    supabase.from('links').update(updateData),
+    scope
+  )
+    .eq('id', id)
+    .is('deleted_at', null)
+    .select('id')
+
+  if (updateError) {
+    console.error('Error updating link:', updateError)
+    return { success: false, error: 'Failed to update link' }
+  }
+
+  if (!updatedLinks || updatedLinks.length === 0) {
+    return { success: false, error: 'Link not found' }
+  }
+
+  return { success: true }
+}
+
+/**
+ * Move a link to another reading state (unread, reading, read, archived)
+ * The database trigger stamps reading_started_at, read_at and archived_at.
+ * The state is a column of the link - in a workspace every member sees the same one.
+ */
+export async function setSpaceLinkReadingState(
+  supabase: SupabaseClient,
+  scope: OwnerScope,
+  linkId: string,
+  state: ReadingState
+): Promise<{ success: boolean; error?: string }> {
+  // Validate input
+  const validation = setReadingStateSchema.safeParse({ id: linkId, state })
+  if (!validation.success) {
+    return {
+      success: false,
+      error: validation.error.issues[0]?.message || 'Validation failed',
+    }
+  }
+
+  const { data: updatedLinks, error: updateError } = await scopeQuery(
+    supabase.from('links').update({ reading_state: state }),
+    scope
+  )
+    .eq('id', linkId)
+    .is('deleted_at', null)
+    .select('id')
+
+  if (updateError) {
+    console.error('Error updating reading state:', updateError)
+    return { success: false, error: 'Failed to update reading state' }
+  }
+
+  if (!updatedLinks || updatedLinks.length === 0) {
+    return { success: false, error: 'Link not found' }
+  }
+
+  return { success: true }
+}
+
+/**
+ * Move a link to the trash (soft delete)
+ * Links already in the trash count as not found, so their deleted_at stays as it was.
+ */
+export async function trashSpaceLink(
+  supabase: SupabaseClient,
+  scope: OwnerScope,
+  linkId: string
+): Promise<{ success: boolean; error?: string }> {
+  // Validate input
+  const validation = deleteLinkSchema.safeParse({ id: linkId })
+  if (!validation.success) {
+    return { success: false, error: 'Invalid link ID' }
+  }
+
+  // Soft delete (set deleted_at timestamp)
+  const { data: deletedLinks, error: deleteError } = await scopeQuery(
+    supabase.from('links').update({ deleted_at: new Date().toISOString() }),
+    scope
+  )
+    .eq('id', linkId)
+    .is('deleted_at', null)
+    .select('id')
+
+  if (deleteError) {
+    console.error('Error deleting link:', deleteError)
+    return { success: false, error: 'Failed to delete link' }
+  }
+
+  if (!deletedLinks || deletedLinks.length === 0) {
+    return { success: false, error: 'Link not found' }
+  }
+
+  return { success: true }
+}
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest'
+import { getNotesExcerpt, isSafeHref, parseInline, parseMarkdown } from './markdown'
+
+describe('parseInline', () => {
+  it('should parse bold, italic and code', () => {
+    expect(parseInline('a **b** *c* `d`')).toEqual([
+      { type: 'text', text: 'a ' },
+      { type: 'strong', children: [{ type: 'text', text: 'b' }] },
+      { type: 'text', text: ' ' },
+      { type: 'em', children: [{ type: 'text', text: 'c' }] },
+      { type: 'text', text: ' ' },
+      { type: 'code', text: 'd' },
+    ])
+  })
+
+  it('should parse links with safe targets', () => {
+    expect(parseInline('[docs](https://example.com/docs)')).toEqual([
+      { type: 'link', href: 'https://example.com/docs', children: [{ type: 'text', text: 'docs' }] },
+    ])
+  })
+
+  it('should turn bare URLs into links without trailing punctuation', () => {
+    expect(parseInline('see https://example.com/a.')).toEqual([
+      { type: 'text', text: 'see ' },
+      { type: 'link', href: 'https://example.com/a', children: [{ type: 'text', text: 'https://example.com/a' }] },
+      { type: 'text', text: '.' },
+    ])
+  })
+
+  it('should drop unsafe link targets and keep the label', () => {
+    expect(parseInline('[click](javascript:alert(1))')).not.toContainEqual(
+      expect.objectContaining({ type: 'link' })
+    )
+    expect(parseInline('[click](data:text/html,x)')).toEqual([{ type: 'text', text: 'click' }])
+  })
+
+  it('should keep HTML as plain text', () => {
+    expect(parseInline('<script>alert(1)</script>')).toEqual([
+      { type: 'text', text: '<script>alert(1)</script>' },
+    ])
+  })
+})
+
+describe('isSafeHref', () => {
+  it('should allow http, https and mailto only', () => {
+    expect(isSafeHref('https://example.com')).toBe(true)
+    expect(isSafeHref('mailto:me@example.com')).toBe(true)
+    expect(isSafeHref('javascript:alert(1)')).toBe(false)
+    expect(isSafeHref('JAVASCRIPT:alert(1)')).toBe(false)
+    expect(isSafeHref('/relative')).toBe(false)
+  })
+})
+
+describe('parseMarkdown', () => {
+  it('should parse headings, lists, quotes and paragraphs', () => {
+    const blocks = parseMarkdown('# Title\n\n- one\n- two\n\n1. first\n\n> quoted\n> text\n\nline one\nline two')
+    expect(blocks.map((block) => block.type)).toEqual(['heading', 'list', 'list', 'quote', 'paragraph'])
+    expect(blocks[1]).toMatchObject({ ordered: false, items: [[{ text: 'one' }], [{ text: 'two' }]] })
+    expect(blocks[2]).toMatchObject({ ordered: true })
+    expect(blocks[3]).toEqual({ type: 'quote', children: [{ type: 'text', text: 'quoted text' }] })
+    expect(blocks[4]).toEqual({ type: 'paragraph', children: [{ type: 'text', text: 'line one line two' }] })
+  })
+
+  it('should keep code blocks verbatim', () => {
+    expect(parseMarkdown('```\n**not bold**\n  indented\n```')).toEqual([
+      { type: 'code', text: '**not bold**\n  indented' },
+    ])
+  })
+
+  it('should return nothing for empty notes', () => {
+    expect(parseMarkdown('')).toEqual([])
+    expect(parseMarkdown(null)).toEqual([])
+  })
+})
+
+describe('getNotesExcerpt', () => {
+  it('should strip formatting', () => {
+    expect(getNotesExcerpt('## Why\n\n**Great** intro to [hooks](https://react.dev)\n\n- a\n- b')).toBe(
+      'Why Great intro to hooks a, b'
+    )
+  })
+
+  it('should cut long notes at a word boundary', () => {
+    const excerpt = getNotesExcerpt('word '.repeat(100), 20)
+    expect(excerpt).toBe('word word word word…')
+  })
+})
@@ -0,0 +1,205 @@
+/**
+ * Minimal markdown support for personal link notes
+ * Notes are parsed into plain data and rendered as React elements, never as raw
+ * HTML, so whatever the user types cannot inject markup or scripts.
+ * Supported: headings, paragraphs, bullet and numbered lists, quotes, code blocks,
+ * **bold**, *italic*, `code` and [links](https://...).
+ */
+
+// Maximum length of the notes of one link (enforced by a check constraint in the database)
+export const MAX_NOTES_LENGTH = 10000
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'strong'; children: MarkdownInline[] }
+  | { type: 'em'; children: MarkdownInline[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; children: MarkdownInline[] }
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: 1 | 2 | 3; children: MarkdownInline[] }
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'list'; ordered: boolean; items: MarkdownInline[][] }
+  | { type: 'quote'; children: MarkdownInline[] }
+  | { type: 'code'; text: string }
+
+const HEADING = /^(#{1,3})\s+(.*)$/
+const BULLET_ITEM = /^\s*[-*+]\s+(.*)$/
+const ORDERED_ITEM = /^\s*\d+[.)]\s+(.*)$/
+const QUOTE = /^\s*>\s?(.*)$/
+const FENCE = /^\s*```/
+
+// Only links that open a page or an e-mail client - no javascript:, data: etc.
+const SAFE_HREF = /^(https?:\/\/|mailto:)/i
+
+/**
+ * Check whether a link target is safe to render
+ */
+export function isSafeHref(href: string): boolean {
+  return SAFE_HREF.test(href.trim())
+}
+
+/**
+ * Parse inline formatting of a single block
+ */
+export function parseInline(text: string): MarkdownInline[] {
+  const result: MarkdownInline[] = []
+  let buffer = ''
+
+  const flush = () => {
+    if (buffer) result.push({ type: 'text', text: buffer })
+    buffer = ''
+  }
+
+  let i = 0
+  while (i < text.length) {
+    const rest = text.slice(i)
+    let match: RegExpMatchArray | null
+
+    if ((match = rest.match(/^`([^`]+)`/))) {
+      flush()
+      result.push({ type: 'code', text: match[1] })
+    } else if ((match = rest.match(/^\*\*(.+?)\*\*/)) || (match = rest.match(/^__(.+?)__/))) {
+      flush()
+      result.push({ type: 'strong', children: parseInline(match[1]) })
+    } else if ((match = rest.match(/^\*([^*\s](?:[^*]*[^*\s])?)\*/)) || (match = rest.match(/^_([^_\s](?:[^_]*[^_\s])?)_/))) {
+      flush()
+      result.push({ type: 'em', children: parseInline(match[1]) })
+    } else if ((match = rest.match(/^\[([^\]]+)\]\(([^)\s]+)\)/))) {
+      flush()
+      if (isSafeHref(match[2])) {
+        result.push({ type: 'link', href: match[2].trim(), children: parseInline(match[1]) })
+      } else {
+        // Unsafe target: keep the label as plain text
+        result.push(...parseInline(match[1]))
+      }
+    } else if ((match = rest.match(/^https?:\/\/[^\s<>()]+[^\s<>().,;:!?'"]/))) {
+      flush()
+      result.push({ type: 'link', href: match[0], children: [{ type: 'text', text: match[0] }] })
+    } else {
+      buffer += text[i]
+      i++
+      continue
+    }
+
+    i += match[0].length
+  }
+
+  flush()
+  return result
+}
+
+/**
+ * Parse notes into blocks
+ */
+export function parseMarkdown(markdown: string | null | undefined): MarkdownBlock[] {
+  const lines = (markdown || '').replace(/\r\n?/g, '\n').split('\n')
+  const blocks: MarkdownBlock[] = []
+  let i = 0
+
+  while (i < lines.length) {
+    const line = lines[i]
+
+    if (line.trim() === '') {
+      i++
+      continue
+    }
+
+    // Fenced code block - kept verbatim until the closing fence (or the end)
+    if (FENCE.test(line)) {
+      const code: string[] = []
+      i++
+      while (i < lines.length && !FENCE.test(lines[i])) {
+        code.push(lines[i])
+        i++
+      }
+      blocks.push({ type: 'code', text: code.join('\n') })
+      i++
+      continue
+    }
+
+    const heading = line.match(HEADING)
+    if (heading) {
+      blocks.push({
+        type: 'heading',
+        level: heading[1].length as 1 | 2 | 3,
+        children: parseInline(heading[2].trim()),
+      })
+      i++
+      continue
+    }
+
+    if (BULLET_ITEM.test(line) || ORDERED_ITEM.test(line)) {
+      const ordered = !BULLET_ITEM.test(line)
+      const pattern = ordered ? ORDERED_ITEM : BULLET_ITEM
+      const items: MarkdownInline[][] = []
+      while (i < lines.length && pattern.test(lines[i])) {
+        items.push(parseInline(lines[i].match(pattern)![1].trim()))
+        i++
+      }
+      blocks.push({ type: 'list', ordered, items })
+      continue
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = []
+      while (i < lines.length && QUOTE.test(lines[i])) {
+        quoted.push(lines[i].match(QUOTE)![1].trim())
+        i++
+      }
+      blocks.push({ type: 'quote', children: parseInline(quoted.join(' ')) })
+      continue
+    }
+
+    // Paragraph - runs until an empty line or the start of another block
+    const paragraph: string[] = []
+    while (
+      i < lines.length &&
+      lines[i].trim() !== '' &&
+      !FENCE.test(lines[i]) &&
+      !HEADING.test(lines[i]) &&
+      !BULLET_ITEM.test(lines[i]) &&
+      !ORDERED_ITEM.test(lines[i]) &&
+      !QUOTE.test(lines[i])
+    ) {
+      paragraph.push(lines[i].trim())
+      i++
+    }
+    blocks.push({ type: 'paragraph', children: parseInline(paragraph.join(' ')) })
+  }
+
+  return blocks
+}
+
+function inlineToText(nodes: MarkdownInline[]): string {
+  return nodes
+    .map((node) => ('children' in node ? inlineToText(node.children) : node.text))
+    .join('')
+}
+
+/**
+ * Plain-text excerpt of the notes for link cards
+ * Formatting is dropped and the text is cut at a word boundary.
+ */
+export function getNotesExcerpt(markdown: string | null | undefined, maxLength: number = 160): string {
+  const text = parseMarkdown(markdown)
+    .map((block) => {
+      switch (block.type) {
+        case 'list':
+          return block.items.map(inlineToText).join(', ')
+        case 'code':
+          return block.text
+        default:
+          return inlineToText(block.children)
+      }
+    })
+    .join(' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+
+  if (text.length <= maxLength) return text
+
+  const cut = text.slice(0, maxLength)
+  const lastSpace = cut.lastIndexOf(' ')
+  return `${(lastSpace > maxLength / 2 ? cut.slice(0, lastSpace) : cut).replace(/[\s.,;:!?-]+$/, '')}…`
+}
@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest'
+import {
+  parseNetscapeBookmarks,
+  folderToTagName,
+  getBookmarkTags,
+  decodeHtmlEntities,
+} from './netscape-bookmarks'
+
+const sampleFile = `<!DOCTYPE NETSCAPE-Bookmark-file-1>
+<!-- This is an automatically generated file. -->
+<META HTTP-EQUIV="Content-Type" CONTENT="text/html; charset=UTF-8">
+<TITLE>Bookmarks</TITLE>
+<H1>Bookmarks</H1>
+<DL><p>
+    <DT><H3 ADD_DATE="1600000000" PERSONAL_TOOLBAR_FOLDER="true">Bookmarks bar</H3>
+    <DL><p>
+        <DT><A HREF="https://example.com/" ADD_DATE="1650000000">Example &amp; Co</A>
+        <DT><H3 ADD_DATE="1600000000">Dev</H3>
+        <DL><p>
+            <DT><A HREF="https://react.dev/learn" ADD_DATE="1700000000" ICON="data:image/png;base64,AAA">React Docs</A>
+            <DT><H3>Tools &amp; Libs</H3>
+            <DL><p>
+                <DT><A HREF="https://vitest.dev">Vitest</A>
+            </DL><p>
+        </DL><p>
+        <DT><A HREF="javascript:alert(1)">Bookmarklet</A>
+    </DL><p>
+    <DT><A HREF="http://top-level.example.org/page?a=1&amp;b=2" ADD_DATE="1500000000">Top level</A>
+</DL><p>
+`
+
+describe('parseNetscapeBookmarks', () => {
+  const now = new Date('2025-01-01T00:00:00Z')
+  const bookmarks = parseNetscapeBookmarks(sampleFile, now)
+
+  it('should find all http(s) bookmarks', () => {
+    expect(bookmarks.map((b) => b.url)).toEqual([
+      'https://example.com/',
+      'https://react.dev/learn',
+      'https://vitest.dev',
+      'http://top-level.example.org/page?a=1&b=2',
+    ])
+  })
+
+  it('should decode titles', () => {
+    expect(bookmarks[0].title).toBe('Example & Co')
+    expect(bookmarks[1].title).toBe('React Docs')
+  })
+
+  it('should track the folder path of each bookmark', () => {
+    expect(bookmarks[0].folders).toEqual(['Bookmarks bar'])
+    expect(bookmarks[1].folders).toEqual(['Bookmarks bar', 'Dev'])
+    expect(bookmarks[2].folders).toEqual(['Bookmarks bar', 'Dev', 'Tools & Libs'])
+    expect(bookmarks[3].folders).toEqual([])
+  })
+
+  it('should convert ADD_DATE to ISO timestamps', () => {
+    expect(bookmarks[1].addDate).toBe('2023-11-14T22:13:20.000Z')
+    expect(bookmarks[2].addDate).toBeNull()
+  })
+
+  it('should accept ADD_DATE in microseconds', () => {
+    const [bookmark] = parseNetscapeBookmarks(
+      '<DL><DT><A HREF="https://a.com" ADD_DATE="1700000000000000">A</A></DL>',
+      now
+    )
+    expect(bookmark.addDate).toBe('2023-11-14T22:13:20.000Z')
+  })
+
+  it('should clamp dates in the future to now', () => {
+    const [bookmark] = parseNetscapeBookmarks(
+      '<DL><DT><A HREF="https://a.com" ADD_DATE="4000000000">A</A></DL>',
+      now
+    )
+    expect(bookmark.addDate).toBe(now.toISOString())
+  })
+
+  it('should return an empty list for files without bookmarks', () => {
+    expect(parseNetscapeBookmarks('<html><body>Nothing here</body></html>')).toEqual([])
+  })
+})
+
+describe('folderToTagName', () => {
+  it('should lowercase folder names', () => {
+    expect(folderToTagName('Dev')).toBe('dev')
+  })
+
+  it('should replace unsupported characters with spaces', () => {
+    expect(folderToTagName('Tools & Libs')).toBe('tools libs')
+    expect(folderToTagName('front_end/ui')).toBe('front end ui')
+  })
+
+  it('should strip diacritics', () => {
+    expect(folderToTagName('Książki')).toBe('ksiazki')
+    expect(folderToTagName('Łódź')).toBe('lodz')
+  })
+
+  it('should skip browser root folders', () => {
+    expect(folderToTagName('Bookmarks bar')).toBeNull()
+    expect(folderToTagName('Other bookmarks')).toBeNull()
+  })
+
+  it('should skip names that are not valid tags', () => {
+    expect(folderToTagName('A')).toBeNull()
+    expect(folderToTagName('!!!')).toBeNull()
+    expect(folderToTagName('a'.repeat(31))).toBeNull()
+  })
+})
+
+describe('getBookmarkTags', () => {
+  it('should map each folder of the path to a tag', () => {
+    expect(getBookmarkTags(['Bookmarks bar', 'Dev', 'Tools & Libs'])).toEqual(['dev', 'tools libs'])
+  })
+
+  it('should not repeat tags', () => {
+    expect(getBookmarkTags(['Dev', 'dev'])).toEqual(['dev'])
+  })
+
+  it('should keep the 10 deepest folders', () => {
+    const folders = Array.from({ length: 12 }, (_, i) => `folder ${i + 1}`)
+    const tags = getBookmarkTags(folders)
+    expect(tags).toHaveLength(10)
+    expect(tags[0]).toBe('folder 3')
+    expect(tags[9]).toBe('folder 12')
+  })
+})
+
+describe('decodeHtmlEntities', () => {
+  it('should decode named and numeric entities', () => {
+    expect(decodeHtmlEntities('a &lt;b&gt; &quot;c&quot; &#39;d&#39; &#x26;')).toBe(`a <b> "c" 'd' &`)
+  })
+
+  it('should leave unknown entities alone', () => {
+    expect(decodeHtmlEntities('&unknown;')).toBe('&unknown;')
+  })
+})
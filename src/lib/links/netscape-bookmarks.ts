@@ -0,0 +1,170 @@
+/**
+ * Parser for Netscape bookmark files (bookmarks.html)
+ * The format every browser uses for bookmark export:
+ *
+ *   <DT><H3 ADD_DATE="...">Folder</H3>
+ *   <DL><p>
+ *     <DT><A HREF="https://..." ADD_DATE="1700000000">Title</A>
+ *   </DL><p>
+ *
+ * Works on plain strings (no DOM) so it runs in the browser and on the server.
+ */
+
+import { createTagSchema } from '@/lib/validations/tags'
+
+export interface ParsedBookmark {
+  url: string
+  title: string | null
+  addDate: string | null // ISO timestamp from ADD_DATE
+  folders: string[] // Folder path from the root, e.g. ['Dev', 'React']
+}
+
+// Maximum number of tags per link (enforced by check_link_tags_limit in the database)
+const MAX_TAGS_PER_LINK = 10
+
+// Top-level folders browsers create on their own - not meaningful as tags
+const ROOT_FOLDERS = new Set([
+  'bookmarks',
+  'bookmarks bar',
+  'bookmarks toolbar',
+  'bookmarks menu',
+  'other bookmarks',
+  'mobile bookmarks',
+  'favorites',
+  'favorites bar',
+  'pasek zakładek',
+  'inne zakładki',
+  'zakładki na komórce',
+])
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+}
+
+/**
+ * Decode the HTML entities browsers use in exported titles and URLs
+ */
+export function decodeHtmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const codePoint =
+        entity[1] === 'x' || entity[1] === 'X'
+          ? parseInt(entity.slice(2), 16)
+          : parseInt(entity.slice(1), 10)
+      return Number.isNaN(codePoint) ? match : String.fromCodePoint(codePoint)
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match
+  })
+}
+
+/**
+ * Read an attribute value from the inside of a tag
+ */
+function getAttribute(attributes: string, name: string): string | null {
+  const match = attributes.match(new RegExp(`\\b${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i'))
+  if (!match) return null
+  return decodeHtmlEntities(match[1] ?? match[2] ?? match[3] ?? '')
+}
+
+/**
+ * Convert ADD_DATE (seconds since epoch, some exporters use microseconds) to ISO
+ * Dates in the future are clamped to now.
+ */
+function parseAddDate(value: string | null, now: Date): string | null {
+  if (!value || !/^\d+$/.test(value)) return null
+
+  let seconds = parseInt(value, 10)
+  // Microseconds or milliseconds - bring back to seconds
+  while (seconds > 1e11) {
+    seconds = Math.floor(seconds / 1000)
+  }
+  if (seconds <= 0) return null
+
+  const date = new Date(seconds * 1000)
+  return date > now ? now.toISOString() : date.toISOString()
+}
+
+function stripTags(html: string): string {
+  return decodeHtmlEntities(html.replace(/<[^>]*>/g, '')).replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * Parse a Netscape bookmark file into a flat list of bookmarks
+ * Non-http(s) entries (javascript:, place:, file:) are skipped.
+ */
+export function parseNetscapeBookmarks(html: string, now: Date = new Date()): ParsedBookmark[] {
+  const bookmarks: ParsedBookmark[] = []
+  const folderStack: string[] = []
+  let pendingFolder: string | null = null
+
+  const tokenPattern = /<h3\b[^>]*>([\s\S]*?)<\/h3>|<a\b([^>]*)>([\s\S]*?)<\/a>|<dl\b[^>]*>|<\/dl>/gi
+  let match: RegExpExecArray | null
+
+  while ((match = tokenPattern.exec(html)) !== null) {
+    const token = match[0].toLowerCase()
+
+    if (token.startsWith('<h3')) {
+      pendingFolder = stripTags(match[1])
+    } else if (token.startsWith('<a')) {
+      const url = getAttribute(match[2], 'href')?.trim()
+      if (!url || !/^https?:\/\//i.test(url)) continue
+
+      bookmarks.push({
+        url,
+        title: stripTags(match[3]) || null,
+        addDate: parseAddDate(getAttribute(match[2], 'add_date'), now),
+        folders: [...folderStack],
+      })
+    } else if (token.startsWith('<dl')) {
+      // A list opened right after a folder heading holds that folder's contents
+      folderStack.push(pendingFolder ?? '')
+      pendingFolder = null
+    } else {
+      folderStack.pop()
+    }
+  }
+
+  // Drop the placeholders of lists without a heading (the root list)
+  return bookmarks.map((bookmark) => ({
+    ...bookmark,
+    folders: bookmark.folders.filter(Boolean),
+  }))
+}
+
+/**
+ * Turn a folder name into a valid tag name (see createTagSchema)
+ * @returns Tag name or null when the folder cannot be used as a tag
+ */
+export function folderToTagName(folder: string): string | null {
+  const name = folder
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '') // Strip diacritics (ą -> a)
+    .replace(/ł/g, 'l')
+    .replace(/Ł/g, 'L')
+    .toLowerCase()
+    .replace(/[^a-z0-9\s-]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+
+  if (ROOT_FOLDERS.has(folder.trim().toLowerCase())) return null
+  if (!createTagSchema.safeParse({ name }).success) return null
+
+  return name
+}
+
+/**
+ * Tags for a bookmark, one per folder in its path
+ * Deeper (more specific) folders win when the path is longer than the tag limit.
+ */
+export function getBookmarkTags(folders: string[]): string[] {
+  const tags = folders
+    .map(folderToTagName)
+    .filter((tag): tag is string => tag !== null)
+
+  return Array.from(new Set(tags)).slice(-MAX_TAGS_PER_LINK)
+}
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest'
+import { getBookmarkletCode, getSharedLink } from './quick-save'
+
+describe('getSharedLink', () => {
+  it('should use the url and title parameters', () => {
+    expect(getSharedLink({ url: 'https://example.com/post', title: '  A post ' })).toEqual({
+      url: 'https://example.com/post',
+      title: 'A post',
+    })
+  })
+
+  it('should find the URL in shared text', () => {
+    expect(
+      getSharedLink({ title: 'Read this', text: 'Look at https://example.com/a?b=1 later' })
+    ).toEqual({ url: 'https://example.com/a?b=1', title: 'Read this' })
+  })
+
+  it('should reject missing and non-http URLs', () => {
+    expect(getSharedLink({})).toBeNull()
+    expect(getSharedLink({ url: 'javascript:alert(1)' })).toBeNull()
+    expect(getSharedLink({ text: 'no link here' })).toBeNull()
+  })
+
+  it('should cap long titles', () => {
+    const result = getSharedLink({ url: 'https://example.com', title: 'a'.repeat(600) })
+    expect(result?.title).toHaveLength(500)
+  })
+})
+
+describe('getBookmarkletCode', () => {
+  it('should open the save page of the origin', () => {
+    const code = getBookmarkletCode('https://taglink.app')
+
+    expect(code.startsWith('javascript:')).toBe(true)
+    expect(code).toContain("window.open('https://taglink.app/save?url='")
+    expect(code).toContain('encodeURIComponent(document.title)')
+  })
+})
@@ -0,0 +1,60 @@
+/**
+ * One-click saving from other pages and apps (/save)
+ * The bookmarklet and the PWA share target both open /save?url=&title= (share sheets may
+ * only send the URL inside `text`).
+ */
+
+export const QUICK_SAVE_PATH = '/save'
+
+export interface SharedLinkParams {
+  url?: string | null
+  title?: string | null
+  text?: string | null
+}
+
+export interface SharedLink {
+  url: string
+  title?: string
+}
+
+// Longest title kept, as links.title is varchar(500)
+const MAX_TITLE_LENGTH = 500
+
+const URL_IN_TEXT_PATTERN = /https?:\/\/[^\s<>"']+/i
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const { protocol } = new URL(value)
+    return protocol === 'http:' || protocol === 'https:'
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Link to save from the query of /save
+ * @returns null when neither `url` nor `text` holds an http(s) URL
+ */
+export function getSharedLink(params: SharedLinkParams): SharedLink | null {
+  const candidate = params.url?.trim() || params.text?.match(URL_IN_TEXT_PATTERN)?.[0]
+  if (!candidate || !isHttpUrl(candidate)) {
+    return null
+  }
+
+  const title = params.title?.trim().slice(0, MAX_TITLE_LENGTH)
+  return title ? { url: candidate, title } : { url: candidate }
+}
+
+/**
+ * `javascript:` bookmarklet that opens /save for the current page in a small popup
+ */
+export function getBookmarkletCode(origin: string): string {
+  const saveUrl = `${origin}${QUICK_SAVE_PATH}`
+  return (
+    'javascript:(function(){' +
+    `window.open('${saveUrl}?url='+encodeURIComponent(location.href)` +
+    "+'&title='+encodeURIComponent(document.title)," +
+    "'taglink-save','width=480,height=640')" +
+    '})()'
+  )
+}
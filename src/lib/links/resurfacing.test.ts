@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest'
+import {
+  getDayKey,
+  getResurfacingWindow,
+  getSnoozeUntil,
+  pickDailyLinks,
+  RESURFACE_DAILY_LIMIT,
+} from './resurfacing'
+
+const NOW = new Date('2025-06-15T10:30:00.000Z')
+
+const links = Array.from({ length: 20 }, (_, i) => ({ id: `link-${i}`, rating: 4 }))
+
+describe('getDayKey', () => {
+  it('should return the UTC date', () => {
+    expect(getDayKey(NOW)).toBe('2025-06-15')
+  })
+})
+
+describe('getResurfacingWindow', () => {
+  it('should return the age and cooldown cutoffs', () => {
+    expect(getResurfacingWindow(NOW)).toEqual({
+      createdBefore: '2025-05-16T10:30:00.000Z',
+      dismissedBefore: '2025-03-17T10:30:00.000Z',
+    })
+  })
+})
+
+describe('getSnoozeUntil', () => {
+  it('should return the start of the day the link comes back', () => {
+    expect(getSnoozeUntil(1, NOW)).toBe('2025-06-16T00:00:00.000Z')
+    expect(getSnoozeUntil(7, NOW)).toBe('2025-06-22T00:00:00.000Z')
+  })
+})
+
+describe('pickDailyLinks', () => {
+  it('should pick the same links for the same day', () => {
+    expect(pickDailyLinks(links, '2025-06-15')).toEqual(pickDailyLinks([...links].reverse(), '2025-06-15'))
+    expect(pickDailyLinks(links, '2025-06-15')).toHaveLength(RESURFACE_DAILY_LIMIT)
+  })
+
+  it('should pick different links on different days', () => {
+    const days = ['2025-06-15', '2025-06-16', '2025-06-17'].map((day) =>
+      pickDailyLinks(links, day).map((link) => link.id).join(',')
+    )
+    expect(new Set(days).size).toBeGreaterThan(1)
+  })
+
+  it('should prefer higher rated links', () => {
+    const picked = pickDailyLinks([...links, { id: 'best', rating: 5 }], '2025-06-15')
+    expect(picked[0].id).toBe('best')
+  })
+
+  it('should return fewer links when there are not enough candidates', () => {
+    expect(pickDailyLinks(links.slice(0, 2), '2025-06-15')).toHaveLength(2)
+    expect(pickDailyLinks([], '2025-06-15')).toEqual([])
+  })
+})
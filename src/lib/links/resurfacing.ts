@@ -0,0 +1,85 @@
+/**
+ * Resurfacing of old saved links for the "Today" section on the dashboard
+ * Two sources feed the section:
+ * - reminders: links with remind_at in the past (set by the user or by snoozing)
+ * - automatic resurfacing: old, highly rated, unread links, a few per day
+ * The daily pick is derived from the date and the link ids only, so every device
+ * shows the same links on the same day without storing the pick.
+ */
+
+// Only links rated at least this high come back on their own
+export const RESURFACE_MIN_RATING = 4
+
+// Links must have been saved at least this long ago
+export const RESURFACE_MIN_AGE_DAYS = 30
+
+// A dismissed link stays away from automatic resurfacing for this long
+export const RESURFACE_COOLDOWN_DAYS = 90
+
+// Automatically resurfaced links per day
+export const RESURFACE_DAILY_LIMIT = 3
+
+// Snooze options offered in the UI (days)
+export const SNOOZE_OPTIONS = [1, 3, 7, 30] as const
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Day key (YYYY-MM-DD, UTC) the daily pick is based on
+ */
+export function getDayKey(now: Date = new Date()): string {
+  return now.toISOString().slice(0, 10)
+}
+
+/**
+ * Cutoffs for the automatic resurfacing query
+ * - createdBefore: links saved after this are too new
+ * - dismissedBefore: links dismissed after this are still cooling down
+ */
+export function getResurfacingWindow(now: Date = new Date()): {
+  createdBefore: string
+  dismissedBefore: string
+} {
+  return {
+    createdBefore: new Date(now.getTime() - RESURFACE_MIN_AGE_DAYS * DAY_MS).toISOString(),
+    dismissedBefore: new Date(now.getTime() - RESURFACE_COOLDOWN_DAYS * DAY_MS).toISOString(),
+  }
+}
+
+/**
+ * Date a snoozed link comes back (start of the day, UTC, `days` days from now)
+ */
+export function getSnoozeUntil(days: number, now: Date = new Date()): string {
+  const until = new Date(now.getTime() + days * DAY_MS)
+  until.setUTCHours(0, 0, 0, 0)
+  return until.toISOString()
+}
+
+/**
+ * 32-bit FNV-1a hash used to shuffle candidates per day
+ */
+function hashString(value: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+/**
+ * Pick the links resurfaced on a given day
+ * Higher rated links win; links with the same rating are shuffled by day so a
+ * different set comes back each day.
+ */
+export function pickDailyLinks<T extends { id: string; rating: number | null }>(
+  candidates: T[],
+  dayKey: string,
+  limit: number = RESURFACE_DAILY_LIMIT
+): T[] {
+  return candidates
+    .map((link) => ({ link, order: hashString(`${dayKey}:${link.id}`) }))
+    .sort((a, b) => (b.link.rating ?? 0) - (a.link.rating ?? 0) || a.order - b.order)
+    .slice(0, limit)
+    .map(({ link }) => link)
+}
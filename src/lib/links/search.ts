@@ -0,0 +1,251 @@
+/**
+ * Link search shared by the dashboard (server actions) and the REST API
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { scopeQuery, type OwnerScope } from '@/lib/workspaces/scope'
+import type { ReadingState } from '@/types'
+
+export type SortOption = 'rating' | 'date-desc' | 'date-asc' | 'relevance'
+
+export interface SearchParams {
+  query?: string
+  tagIds?: string[]
+  readingStates?: ReadingState[] // Empty: everything except archived links
+  brokenOnly?: boolean // Only links the health checker marked as broken
+  collectionId?: string // Only links in this collection
+  sortBy?: SortOption
+  page?: number
+  pageSize?: number
+}
+
+export interface SearchResult {
+  links: any[]
+  totalCount: number
+  page: number
+  pageSize: number
+  totalPages: number
+}
+
+/**
+ * Search and filter links with pagination
+ * Implements:
+ * - Full-text search across title, description, tags and highlights
+ * - Tag filtering with AND logic (all selected tags must match)
+ * - Reading state filtering (archived links are hidden unless selected)
+ * - Broken link filtering (dead links found by the health checker)
+ * - Collection filtering
+ * - Multiple sorting options
+ * - Pagination
+ */
+export async function searchSpaceLinks(
+  supabase: SupabaseClient,
+  scope: OwnerScope,
+  params: SearchParams = {}
+): Promise<{
+  success: boolean
+  data?: SearchResult
+  error?: string
+}> {
+  // Default values
+  const {
+    query = '',
+    tagIds = [],
+    readingStates = [],
+    brokenOnly = false,
+    collectionId,
+    sortBy = 'rating',
+    page = 1,
+    pageSize = 12,
+  } = params
+
+  try {
+    // Start building the query
+    let queryBuilder = scopeQuery(
+      supabase.from('links').select(
+        `
+        *,
+        link_tags (
+          tag:tags (
+            id,
+            name
+          )
+        )
+      `,
+        { count: 'exact' }
+      ),
+      scope
+    ).is('deleted_at', null)
+
+    // Apply full-text search if query provided
+    if (query && query.trim()) {
+      const searchTerm = query.trim()
+
+      // Links of the space with a matching highlight or highlight comment (filtered on the
+      // embedded links, as the REST API reads with the service role)
+      const highlightQuery = supabase
+        .from('link_highlights')
+        .select('link_id, links!inner ( user_id, workspace_id )')
+        .or(`quote.ilike.%${searchTerm}%,comment.ilike.%${searchTerm}%`)
+      const { data: highlightMatches, error: highlightError } = await (scope.workspaceId
+        ? highlightQuery.eq('links.workspace_id', scope.workspaceId)
+        : highlightQuery.eq('links.user_id', scope.userId).is('links.workspace_id', null))
+
+      if (highlightError) {
+        console.error('Error searching highlights:', highlightError)
+        return { success: false, error: 'Failed to search links' }
+      }
+
+      const highlightedLinkIds = Array.from(new Set((highlightMatches || []).map((h) => h.link_id)))
+      const highlightFilter =
+        highlightedLinkIds.length > 0 ? `,id.in.(${highlightedLinkIds.join(',')})` : ''
+
+      // Search in title, description, domain, personal notes and highlights using ILIKE for simple pattern matching
+      // Note: For better performance with large datasets, consider using Postgres full-text search
+      queryBuilder = queryBuilder.or(
+        `title.ilike.%${searchTerm}%,ai_description.ilike.%${searchTerm}%,domain.ilike.%${searchTerm}%,notes.ilike.%${searchTerm}%${highlightFilter}`
+      )
+    }
+
+    // Apply reading state filtering - archived links stay hidden unless asked for
+    if (readingStates.length > 0) {
+      queryBuilder = queryBuilder.in('reading_state', readingStates)
+    } else {
+      queryBuilder = queryBuilder.neq('reading_state', 'archived')
+    }
+
+    if (brokenOnly) {
+      queryBuilder = queryBuilder.eq('health_status', 'broken')
+    }
+
+    // Apply collection filtering (the scoped links query drops links of other spaces)
+    if (collectionId) {
+      const { data: collectionLinks, error: collectionError } = await supabase
+        .from('collection_links')
+        .select('link_id')
+        .eq('collection_id', collectionId)
+
+      if (collectionError) {
+        console.error('Error filtering by collection:', collectionError)
+        return { success: false, error: 'Failed to filter by collection' }
+      }
+
+      if (!collectionLinks || collectionLinks.length === 0) {
+        return {
+          success: true,
+          data: {
+            links: [],
+            totalCount: 0,
+            page,
+            pageSize,
+            totalPages: 0,
+          },
+        }
+      }
+
+      queryBuilder = queryBuilder.in(
+        'id',
+        collectionLinks.map((item) => item.link_id)
+      )
+    }
+
+    // Apply tag filtering with AND logic
+    if (tagIds.length > 0) {
+      // For AND logic: link must have ALL selected tags
+      // We need to use a subquery approach
+      // First, get links that have at least one of the selected tags
+      const { data: linksWithTags, error: tagError } = await supabase
+        .from('link_tags')
+        .select('link_id')
+        .in('tag_id', tagIds)
+
+      if (tagError) {
+        console.error('Error filtering by tags:', tagError)
+        return { success: false, error: 'Failed to filter by tags' }
+      }
+
+      // Count occurrences of each link_id
+      const linkIdCounts = new Map<string, number>()
+      linksWithTags?.forEach((item) => {
+        const count = linkIdCounts.get(item.link_id) || 0
+        linkIdCounts.set(item.link_id, count + 1)
+      })
+
+      // Get only links that have ALL selected tags (count equals tagIds.length)
+      const validLinkIds = Array.from(linkIdCounts.entries())
+        .filter(([_, count]) => count === tagIds.length)
+        .map(([linkId]) => linkId)
+
+      if (validLinkIds.length === 0) {
+        // No links match all selected tags
+        return {
+          success: true,
+          data: {
+            links: [],
+            totalCount: 0,
+            page,
+            pageSize,
+            totalPages: 0,
+          },
+        }
+      }
+
+      queryBuilder = queryBuilder.in('id', validLinkIds)
+    }
+
+    // Apply sorting
+    switch (sortBy) {
+      case 'rating':
+        // Rating descending (nulls last), then by creation date
+        queryBuilder = queryBuilder
+          .order('rating', { ascending: false, nullsFirst: false })
+          .order('created_at', { ascending: false })
+        break
+      case 'date-desc':
+        queryBuilder = queryBuilder.order('created_at', { ascending: false })
+        break
+      case 'date-asc':
+        queryBuilder = queryBuilder.order('created_at', { ascending: true })
+        break
+      case 'relevance':
+        // For relevance, we'll use creation date for now
+        // In the future, could implement proper relevance scoring
+        queryBuilder = queryBuilder.order('created_at', { ascending: false })
+        break
+      default:
+        queryBuilder = queryBuilder.order('rating', { ascending: false, nullsFirst: false })
+    }
+
+    // Get total count before pagination
+    const { count: totalCount } = await queryBuilder
+
+    // Apply pagination
+    const from = (page - 1) * pageSize
+    const to = from + pageSize - 1
+    queryBuilder = queryBuilder.range(from, to)
+
+    // Execute query
+    const { data: links, error: fetchError } = await queryBuilder
+
+    if (fetchError) {
+      console.error('Error searching links:', fetchError)
+      return { success: false, error: 'Failed to search links' }
+    }
+
+    const totalPages = Math.ceil((totalCount || 0) / pageSize)
+
+    return {
+      success: true,
+      data: {
+        links: links || [],
+        totalCount: totalCount || 0,
+        page,
+        pageSize,
+        totalPages,
+      },
+    }
+  } catch (error) {
+    console.error('Error in searchLinks:', error)
+    return { success: false, error: 'An error occurred while searching' }
+  }
+}
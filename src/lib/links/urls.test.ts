@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest'
+import { canonicalizeUrl, extractUrls, resolveCanonicalHref } from './urls'
+
+describe('canonicalizeUrl', () => {
+  it('should remove trailing slashes from paths', () => {
+    expect(canonicalizeUrl('https://example.com/path/')).toBe('https://example.com/path')
+    expect(canonicalizeUrl('https://example.com/path//')).toBe('https://example.com/path')
+  })
+
+  it('should treat domain-only URLs with and without slash the same', () => {
+    expect(canonicalizeUrl('https://example.com/')).toBe('https://example.com')
+    expect(canonicalizeUrl('https://example.com')).toBe('https://example.com')
+  })
+
+  it('should lowercase scheme and host but keep the path case', () => {
+    expect(canonicalizeUrl('HTTPS://Example.COM/Path')).toBe('https://example.com/Path')
+  })
+
+  it('should keep user info as typed', () => {
+    expect(canonicalizeUrl('https://User@Example.com/a')).toBe('https://User@example.com/a')
+  })
+
+  it('should drop default ports only', () => {
+    expect(canonicalizeUrl('http://example.com:80/a')).toBe('http://example.com/a')
+    expect(canonicalizeUrl('https://example.com:443/a')).toBe('https://example.com/a')
+    expect(canonicalizeUrl('https://example.com:/a')).toBe('https://example.com/a')
+    expect(canonicalizeUrl('http://example.com:443/a')).toBe('http://example.com:443/a')
+    expect(canonicalizeUrl('https://example.com:8080/a')).toBe('https://example.com:8080/a')
+  })
+
+  it('should drop fragments', () => {
+    expect(canonicalizeUrl('https://example.com/a#section')).toBe('https://example.com/a')
+    expect(canonicalizeUrl('https://example.com/a?b=1#c')).toBe('https://example.com/a?b=1')
+  })
+
+  it('should strip tracking parameters', () => {
+    expect(
+      canonicalizeUrl('https://example.com/a?utm_source=x&UTM_Medium=y&fbclid=1&gclid=2&id=5')
+    ).toBe('https://example.com/a?id=5')
+    expect(canonicalizeUrl('https://example.com/a?utm_source=x')).toBe('https://example.com/a')
+  })
+
+  it('should sort the remaining query parameters', () => {
+    expect(canonicalizeUrl('https://example.com/a?b=2&a=1&c')).toBe('https://example.com/a?a=1&b=2&c')
+  })
+
+  it('should drop empty query parameters', () => {
+    expect(canonicalizeUrl('https://example.com/a?&b=2&&')).toBe('https://example.com/a?b=2')
+    expect(canonicalizeUrl('https://example.com/?')).toBe('https://example.com')
+  })
+
+  it('should be idempotent', () => {
+    const once = canonicalizeUrl('HTTP://Example.com:80/x/?z=1&utm_campaign=a&a=2#top')
+    expect(once).toBe('http://example.com/x?a=2&z=1')
+    expect(canonicalizeUrl(once)).toBe(once)
+  })
+
+  it('should leave strings that are not URLs untouched', () => {
+    expect(canonicalizeUrl('not a url')).toBe('not a url')
+  })
+})
+
+describe('resolveCanonicalHref', () => {
+  it('should resolve relative hrefs against the page URL', () => {
+    expect(resolveCanonicalHref('/article', 'https://example.com/amp/article')).toBe(
+      'https://example.com/article'
+    )
+  })
+
+  it('should keep absolute hrefs', () => {
+    expect(resolveCanonicalHref('https://other.com/post', 'https://example.com/a')).toBe(
+      'https://other.com/post'
+    )
+  })
+
+  it('should reject missing and non-http hrefs', () => {
+    expect(resolveCanonicalHref(null, 'https://example.com')).toBeNull()
+    expect(resolveCanonicalHref('  ', 'https://example.com')).toBeNull()
+    expect(resolveCanonicalHref('javascript:void(0)', 'https://example.com')).toBeNull()
+  })
+})
+
+describe('extractUrls', () => {
+  it('should find URLs in free-form text', () => {
+    const text = `Reading list:
+- https://example.com/article
+- http://blog.example.org/post?id=1 (great read)
+Something else without links`
+
+    expect(extractUrls(text)).toEqual([
+      'https://example.com/article',
+      'http://blog.example.org/post?id=1',
+    ])
+  })
+
+  it('should strip trailing sentence punctuation', () => {
+    expect(extractUrls('See https://example.com/a. Also https://example.com/b, and https://example.com/c!')).toEqual([
+      'https://example.com/a',
+      'https://example.com/b',
+      'https://example.com/c',
+    ])
+  })
+
+  it('should drop unbalanced closing brackets', () => {
+    expect(extractUrls('(see https://example.com/page)')).toEqual(['https://example.com/page'])
+  })
+
+  it('should keep balanced brackets that belong to the URL', () => {
+    expect(extractUrls('https://en.wikipedia.org/wiki/Rust_(programming_language)')).toEqual([
+      'https://en.wikipedia.org/wiki/Rust_(programming_language)',
+    ])
+  })
+
+  it('should find URLs inside markdown and HTML', () => {
+    expect(
+      extractUrls('[docs](https://example.com/docs) <a href="https://example.com/html">x</a>')
+    ).toEqual(['https://example.com/docs', 'https://example.com/html'])
+  })
+
+  it('should keep duplicates in order of appearance', () => {
+    expect(extractUrls('https://a.com/x https://b.com https://a.com/x')).toEqual([
+      'https://a.com/x',
+      'https://b.com',
+      'https://a.com/x',
+    ])
+  })
+
+  it('should ignore non-http schemes and bare domains', () => {
+    expect(extractUrls('ftp://files.example.com example.com mailto:a@b.com https://')).toEqual([])
+  })
+
+  it('should return an empty list for empty text', () => {
+    expect(extractUrls('')).toEqual([])
+  })
+})
@@ -0,0 +1,117 @@
+/**
+ * URL helpers shared by link creation and bulk import
+ */
+
+// Query parameters that only track where a visitor came from
+const TRACKING_PARAMS = new Set(['fbclid', 'gclid'])
+
+const DEFAULT_PORTS: Record<string, string> = { http: '80', https: '443' }
+
+function isTrackingParam(param: string): boolean {
+  const key = param.split('=')[0].toLowerCase()
+  return key.startsWith('utm_') || TRACKING_PARAMS.has(key)
+}
+
+/**
+ * Canonical form of a URL, used as links.normalized_url for duplicate checks
+ * Mirrors normalize_url() in SQL - keep both in sync.
+ *
+ * - scheme and host are lowercased (path and query keep their case)
+ * - default ports (:80 for http, :443 for https) and fragments are dropped
+ * - utm_*, fbclid and gclid parameters are removed, the rest are sorted
+ * - trailing slashes are removed from the path
+ *
+ * Works on the raw string instead of `new URL()` so the SQL version can
+ * produce exactly the same result.
+ */
+export function canonicalizeUrl(url: string): string {
+  const match = url.match(/^([a-z][a-z0-9+.-]*):\/\/([^/?#]*)([^?#]*)(?:\?([^#]*))?(?:#.*)?$/i)
+  if (!match) return url
+
+  const scheme = match[1].toLowerCase()
+
+  // Lowercase the host but keep user info (user:password@) as typed
+  const authority = match[2]
+  const atIndex = authority.lastIndexOf('@')
+  const userInfo = authority.slice(0, atIndex + 1)
+  let host = authority.slice(atIndex + 1).toLowerCase()
+
+  const port = host.match(/:(\d*)$/)
+  if (port && (port[1] === '' || port[1] === DEFAULT_PORTS[scheme])) {
+    host = host.slice(0, -port[0].length)
+  }
+
+  const path = match[3].replace(/\/+$/, '')
+
+  const params = (match[4] ?? '')
+    .split('&')
+    .filter((param) => param !== '' && !isTrackingParam(param))
+    .sort()
+  const query = params.length > 0 ? `?${params.join('&')}` : ''
+
+  return `${scheme}://${userInfo}${host}${path}${query}`
+}
+
+/**
+ * Resolve the href of a page's <link rel="canonical"> against the page URL
+ * @returns Absolute http(s) URL or null when the href is missing or unusable
+ */
+export function resolveCanonicalHref(href: string | null | undefined, pageUrl: string): string | null {
+  if (!href || !href.trim()) return null
+
+  try {
+    const resolved = new URL(href.trim(), pageUrl)
+    if (resolved.protocol !== 'http:' && resolved.protocol !== 'https:') return null
+    return resolved.toString()
+  } catch {
+    return null
+  }
+}
+
+// Characters that commonly end a sentence around a pasted URL
+const TRAILING_PUNCTUATION = /[.,;:!?'"]+$/
+
+// Closing brackets are only part of the URL when the URL also opens them
+const BRACKET_PAIRS: Record<string, string> = { ')': '(', ']': '[', '}': '{' }
+
+function countChar(str: string, char: string): number {
+  return str.split(char).length - 1
+}
+
+/**
+ * Strip punctuation that belongs to the surrounding text, e.g. "(see https://a.com/x)."
+ */
+function trimUrlMatch(match: string): string {
+  let url = match
+
+  while (url.length > 0) {
+    const withoutPunctuation = url.replace(TRAILING_PUNCTUATION, '')
+    if (withoutPunctuation !== url) {
+      url = withoutPunctuation
+      continue
+    }
+
+    const last = url[url.length - 1]
+    const opening = BRACKET_PAIRS[last]
+    if (opening && countChar(url, last) > countChar(url, opening)) {
+      url = url.slice(0, -1)
+      continue
+    }
+
+    break
+  }
+
+  return url
+}
+
+/**
+ * Pull every http(s) URL out of free-form text (reading lists, notes, exports)
+ * URLs are returned in order of appearance; duplicates are kept so callers can report them.
+ */
+export function extractUrls(text: string): string[] {
+  const matches = text.match(/https?:\/\/[^\s<>"'`]+/gi) || []
+
+  return matches
+    .map(trimUrlMatch)
+    .filter((url) => /^https?:\/\/[^/?#\s]+/i.test(url))
+}
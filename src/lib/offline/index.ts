@@ -0,0 +1,15 @@
+/**
+ * Offline support: service worker page cache, saved link pages and the outbox
+ */
+
+import { clearCachedQueries } from './link-cache'
+import { clearOutbox } from './outbox'
+
+/**
+ * Remove everything kept for offline use on this device (sign out)
+ */
+export function clearOfflineData(): void {
+  clearCachedQueries()
+  clearOutbox()
+  navigator.serviceWorker?.controller?.postMessage({ type: 'clear-pages' })
+}
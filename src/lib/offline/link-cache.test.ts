@@ -0,0 +1,50 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import {
+  clearCachedQueries,
+  getCachedQuery,
+  getQueryCacheKey,
+  saveCachedQuery,
+  MAX_CACHED_QUERIES,
+} from './link-cache'
+
+describe('link cache', () => {
+  beforeEach(() => {
+    window.localStorage.clear()
+  })
+
+  it('should return the saved result of a query', () => {
+    saveCachedQuery(['links', 'list', { page: 2 }], { links: [{ id: '1' }], totalCount: 1 })
+
+    const cached = getCachedQuery(['links', 'list', { page: 2 }])
+    expect(cached?.data).toEqual({ links: [{ id: '1' }], totalCount: 1 })
+    expect(cached?.savedAt).toEqual(expect.any(String))
+    expect(getCachedQuery(['links', 'list', { page: 3 }])).toBeNull()
+  })
+
+  it('should replace older results of the same query', () => {
+    saveCachedQuery(['links', 'detail', '1'], { title: 'Old' })
+    saveCachedQuery(['links', 'detail', '1'], { title: 'New' })
+
+    expect(getCachedQuery(['links', 'detail', '1'])?.data).toEqual({ title: 'New' })
+  })
+
+  it('should keep only the most recently viewed queries', () => {
+    for (let page = 1; page <= MAX_CACHED_QUERIES + 5; page++) {
+      saveCachedQuery(['links', 'list', { page }], { page })
+    }
+
+    expect(getCachedQuery(['links', 'list', { page: 1 }])).toBeNull()
+    expect(getCachedQuery(['links', 'list', { page: MAX_CACHED_QUERIES + 5 }])).not.toBeNull()
+  })
+
+  it('should forget everything on clear', () => {
+    saveCachedQuery(['links', 'detail', '1'], { title: 'A' })
+    clearCachedQueries()
+
+    expect(getCachedQuery(['links', 'detail', '1'])).toBeNull()
+  })
+
+  it('should build the same key for the same query', () => {
+    expect(getQueryCacheKey(['links', { page: 1 }])).toBe(getQueryCacheKey(['links', { page: 1 }]))
+  })
+})
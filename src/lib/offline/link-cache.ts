@@ -0,0 +1,107 @@
+/**
+ * Copies of recently viewed link pages (search results and link details) and of the active
+ * space in localStorage
+ * React Query falls back to them when a request fails because the device is offline.
+ */
+
+import { isNetworkError } from './network'
+
+const CACHE_KEY = 'taglink:offline-links'
+
+// Most recently viewed queries kept - each page of results holds up to 100 links
+export const MAX_CACHED_QUERIES = 30
+
+export interface CachedQuery<T = unknown> {
+  key: string
+  data: T
+  savedAt: string
+}
+
+function getStorage(): Storage | null {
+  try {
+    return typeof window !== 'undefined' ? window.localStorage : null
+  } catch {
+    // Storage disabled (e.g. blocked cookies)
+    return null
+  }
+}
+
+function readCache(storage: Storage): CachedQuery[] {
+  try {
+    const entries = JSON.parse(storage.getItem(CACHE_KEY) || '[]')
+    return Array.isArray(entries) ? entries : []
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Stable string of a React Query key
+ */
+export function getQueryCacheKey(queryKey: readonly unknown[]): string {
+  return JSON.stringify(queryKey)
+}
+
+/**
+ * Keep the result of a query, most recent first
+ * When storage is full the oldest half is dropped and saving is tried once more.
+ */
+export function saveCachedQuery(queryKey: readonly unknown[], data: unknown): void {
+  const storage = getStorage()
+  if (!storage) return
+
+  const key = getQueryCacheKey(queryKey)
+  const entry: CachedQuery = { key, data, savedAt: new Date().toISOString() }
+  const entries = [entry, ...readCache(storage).filter((item) => item.key !== key)].slice(
+    0,
+    MAX_CACHED_QUERIES
+  )
+
+  try {
+    storage.setItem(CACHE_KEY, JSON.stringify(entries))
+  } catch {
+    try {
+      storage.setItem(CACHE_KEY, JSON.stringify(entries.slice(0, Math.ceil(entries.length / 2))))
+    } catch {
+      // Still no room - offline copies are best effort
+    }
+  }
+}
+
+/**
+ * Saved result of a query, null when it was never viewed on this device
+ */
+export function getCachedQuery<T>(queryKey: readonly unknown[]): CachedQuery<T> | null {
+  const storage = getStorage()
+  if (!storage) return null
+
+  const key = getQueryCacheKey(queryKey)
+  const entry = readCache(storage).find((item) => item.key === key)
+  return entry ? (entry as CachedQuery<T>) : null
+}
+
+/**
+ * Run a query and keep its result for offline use
+ * Without a connection the copy from the last visit is returned instead.
+ */
+export async function fetchWithOfflineCopy<T>(
+  queryKey: readonly unknown[],
+  fetcher: () => Promise<T>
+): Promise<T> {
+  try {
+    const data = await fetcher()
+    saveCachedQuery(queryKey, data)
+    return data
+  } catch (error) {
+    const cached = isNetworkError(error) ? getCachedQuery<T>(queryKey) : null
+    if (cached) return cached.data
+    throw error
+  }
+}
+
+/**
+ * Forget all saved pages (sign out, switching spaces)
+ */
+export function clearCachedQueries(): void {
+  getStorage()?.removeItem(CACHE_KEY)
+}
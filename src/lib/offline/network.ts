@@ -0,0 +1,18 @@
+/**
+ * Connectivity checks of the offline support
+ */
+
+/**
+ * The browser reports that there is no connection
+ */
+export function isOffline(): boolean {
+  return typeof navigator !== 'undefined' && navigator.onLine === false
+}
+
+/**
+ * The request never reached the server - server actions reject with a TypeError
+ * ("Failed to fetch") when the connection is gone
+ */
+export function isNetworkError(error: unknown): boolean {
+  return isOffline() || error instanceof TypeError
+}
@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import {
+  addToOutbox,
+  clearOutbox,
+  getOutbox,
+  getOutboxSyncOutcome,
+  isInOutboxSpace,
+  removeFromOutbox,
+  OUTBOX_CHANGE_EVENT,
+} from './outbox'
+
+const personal = { userId: 'user-1', workspaceId: null }
+const workspace = { userId: 'user-1', workspaceId: 'workspace-1' }
+
+describe('outbox', () => {
+  beforeEach(() => {
+    window.localStorage.clear()
+  })
+
+  it('should queue links oldest first', () => {
+    addToOutbox({ url: 'https://example.com/a', title: 'A' }, personal)
+    addToOutbox({ url: 'https://example.com/b' }, personal)
+
+    const links = getOutbox()
+    expect(links.map((link) => link.url)).toEqual([
+      'https://example.com/a',
+      'https://example.com/b',
+    ])
+    expect(links[0].title).toBe('A')
+    expect(links[1]).not.toHaveProperty('title')
+  })
+
+  it('should keep the first entry of a URL', () => {
+    const first = addToOutbox({ url: 'https://example.com/a' }, personal)
+    const second = addToOutbox({ url: 'https://example.com/a', title: 'Again' }, personal)
+
+    expect(second).toEqual(first)
+    expect(getOutbox()).toHaveLength(1)
+  })
+
+  it('should keep a URL once per space', () => {
+    const first = addToOutbox({ url: 'https://example.com/a' }, personal)
+    const second = addToOutbox({ url: 'https://example.com/a' }, workspace)
+
+    expect(second).not.toEqual(first)
+    expect(second).toMatchObject({ userId: 'user-1', workspaceId: 'workspace-1' })
+    expect(getOutbox()).toHaveLength(2)
+  })
+
+  it('should remove sent links', () => {
+    const entry = addToOutbox({ url: 'https://example.com/a' }, personal)!
+    addToOutbox({ url: 'https://example.com/b' }, personal)
+
+    removeFromOutbox(entry.id)
+    expect(getOutbox().map((link) => link.url)).toEqual(['https://example.com/b'])
+
+    clearOutbox()
+    expect(getOutbox()).toEqual([])
+  })
+
+  it('should announce changes', () => {
+    const listener = vi.fn()
+    window.addEventListener(OUTBOX_CHANGE_EVENT, listener)
+
+    addToOutbox({ url: 'https://example.com/a' }, personal)
+    expect(listener).toHaveBeenCalledTimes(1)
+
+    window.removeEventListener(OUTBOX_CHANGE_EVENT, listener)
+  })
+
+  it('should ignore a corrupted outbox', () => {
+    window.localStorage.setItem('taglink:outbox', '{not json')
+    expect(getOutbox()).toEqual([])
+  })
+})
+
+describe('isInOutboxSpace', () => {
+  beforeEach(() => {
+    window.localStorage.clear()
+  })
+
+  it('should match the user and space the link was added in', () => {
+    const entry = addToOutbox({ url: 'https://example.com/a' }, workspace)!
+
+    expect(isInOutboxSpace(entry, workspace)).toBe(true)
+    expect(isInOutboxSpace(entry, personal)).toBe(false)
+    expect(isInOutboxSpace(entry, { userId: 'user-2', workspaceId: 'workspace-1' })).toBe(false)
+  })
+
+  it('should send entries queued without a space anywhere', () => {
+    const legacy = { id: '1', url: 'https://example.com/a', queuedAt: '2025-11-01T00:00:00Z' }
+
+    expect(isInOutboxSpace(legacy, personal)).toBe(true)
+    expect(isInOutboxSpace(legacy, workspace)).toBe(true)
+  })
+})
+
+describe('getOutboxSyncOutcome', () => {
+  it('should remove saved links and duplicates', () => {
+    expect(getOutboxSyncOutcome({ success: true })).toBe('synced')
+    expect(
+      getOutboxSyncOutcome({ success: false, error: 'You have already saved this link' })
+    ).toBe('conflict')
+  })
+
+  it('should retry after rate limits and expired sessions', () => {
+    expect(
+      getOutboxSyncOutcome({
+        success: false,
+        error: 'Rate limit exceeded. You can add up to 30 links per hour.',
+      })
+    ).toBe('retry')
+    expect(getOutboxSyncOutcome({ success: false, error: 'Not authenticated' })).toBe('retry')
+  })
+
+  it('should reject links the server refuses', () => {
+    expect(getOutboxSyncOutcome({ success: false, error: 'Invalid URL format' })).toBe('rejected')
+    expect(getOutboxSyncOutcome({ success: false })).toBe('rejected')
+  })
+})
@@ -0,0 +1,131 @@
+/**
+ * Outbox of links added while offline (localStorage)
+ * The links are sent through the createLink action once the connection returns, but only
+ * while the user and space they were added in are active again.
+ */
+
+const OUTBOX_KEY = 'taglink:outbox'
+
+// Window event fired whenever the outbox changes, so indicators can re-read it
+export const OUTBOX_CHANGE_EVENT = 'offline-outbox-change'
+
+// User and space a link was added in
+export interface OutboxSpace {
+  userId: string
+  workspaceId: string | null // null = personal space
+}
+
+export interface OutboxLink extends Partial<OutboxSpace> {
+  id: string
+  url: string
+  title?: string
+  queuedAt: string
+}
+
+// What to do with an outbox entry after trying to send it
+export type OutboxSyncOutcome = 'synced' | 'conflict' | 'rejected' | 'retry'
+
+function getStorage(): Storage | null {
+  try {
+    return typeof window !== 'undefined' ? window.localStorage : null
+  } catch {
+    return null
+  }
+}
+
+function writeOutbox(storage: Storage, links: OutboxLink[]): void {
+  if (links.length > 0) {
+    storage.setItem(OUTBOX_KEY, JSON.stringify(links))
+  } else {
+    storage.removeItem(OUTBOX_KEY)
+  }
+  window.dispatchEvent(new CustomEvent(OUTBOX_CHANGE_EVENT))
+}
+
+/**
+ * Links waiting to be sent, oldest first
+ */
+export function getOutbox(): OutboxLink[] {
+  const storage = getStorage()
+  if (!storage) return []
+
+  try {
+    const links = JSON.parse(storage.getItem(OUTBOX_KEY) || '[]')
+    return Array.isArray(links) ? links : []
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Whether an entry was added in the space
+ * Entries queued before outbox entries recorded their space belong to any space.
+ */
+export function isInOutboxSpace(link: OutboxLink, space: OutboxSpace): boolean {
+  if (link.userId === undefined) return true
+  return link.userId === space.userId && (link.workspaceId ?? null) === space.workspaceId
+}
+
+/**
+ * Queue a link - adding the same URL twice in a space keeps the first entry
+ * @returns The queued entry, null when storage is not available
+ */
+export function addToOutbox(
+  link: { url: string; title?: string },
+  space: OutboxSpace
+): OutboxLink | null {
+  const storage = getStorage()
+  if (!storage) return null
+
+  const links = getOutbox()
+  const existing = links.find((item) => item.url === link.url && isInOutboxSpace(item, space))
+  if (existing) return existing
+
+  const entry: OutboxLink = {
+    id: crypto.randomUUID(),
+    url: link.url,
+    ...(link.title && { title: link.title }),
+    userId: space.userId,
+    workspaceId: space.workspaceId,
+    queuedAt: new Date().toISOString(),
+  }
+  writeOutbox(storage, [...links, entry])
+  return entry
+}
+
+/**
+ * Remove a sent (or rejected) link
+ */
+export function removeFromOutbox(id: string): void {
+  const storage = getStorage()
+  if (!storage) return
+
+  writeOutbox(storage, getOutbox().filter((item) => item.id !== id))
+}
+
+/**
+ * Forget queued links (sign out)
+ */
+export function clearOutbox(): void {
+  const storage = getStorage()
+  if (storage) writeOutbox(storage, [])
+}
+
+/**
+ * Decide what happens to an entry from the createLink result
+ * - synced: saved, remove it
+ * - conflict: the URL is already in the library, remove it and tell the user
+ * - retry: rate limit or expired session, keep it for the next sync
+ * - rejected: the server refused it (invalid URL, read-only space), remove it and tell the user
+ */
+export function getOutboxSyncOutcome(result: {
+  success: boolean
+  error?: string
+}): OutboxSyncOutcome {
+  if (result.success) return 'synced'
+
+  const error = result.error || ''
+  if (/already saved/i.test(error)) return 'conflict'
+  if (/rate limit|not authenticated/i.test(error)) return 'retry'
+  return 'rejected'
+}
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest'
+import { getRetryDelay, shouldRetry, getNextAttemptAt, MAX_PROCESSING_ATTEMPTS } from './backoff'
+
+describe('getRetryDelay', () => {
+  it('should wait 30 seconds after the first attempt', () => {
+    expect(getRetryDelay(1)).toBe(30 * 1000)
+  })
+
+  it('should grow exponentially with each attempt', () => {
+    expect(getRetryDelay(2)).toBe(2 * 60 * 1000)
+    expect(getRetryDelay(3)).toBe(8 * 60 * 1000)
+  })
+
+  it('should treat attempt 0 like the first attempt', () => {
+    expect(getRetryDelay(0)).toBe(getRetryDelay(1))
+  })
+})
+
+describe('shouldRetry', () => {
+  it('should retry while below the attempt limit', () => {
+    expect(shouldRetry(1)).toBe(true)
+    expect(shouldRetry(MAX_PROCESSING_ATTEMPTS - 1)).toBe(true)
+  })
+
+  it('should give up once the attempt limit is reached', () => {
+    expect(shouldRetry(MAX_PROCESSING_ATTEMPTS)).toBe(false)
+    expect(shouldRetry(MAX_PROCESSING_ATTEMPTS + 1)).toBe(false)
+  })
+})
+
+describe('getNextAttemptAt', () => {
+  it('should add the retry delay to the given time', () => {
+    const now = new Date('2025-01-01T12:00:00.000Z')
+    expect(getNextAttemptAt(1, now)).toBe('2025-01-01T12:00:30.000Z')
+  })
+})
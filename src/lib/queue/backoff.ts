@@ -0,0 +1,39 @@
+/**
+ * Retry policy for the link processing queue
+ */
+
+// Total number of times a link may be claimed before it is marked as failed
+export const MAX_PROCESSING_ATTEMPTS = 3
+
+// A link stuck in 'processing' longer than this is considered abandoned
+// (same as the p_stale_after default of claim_pending_links)
+export const STALE_PROCESSING_MS = 10 * 60 * 1000
+
+// First retry after 30 seconds, then 2 minutes, 8 minutes, ...
+const BASE_RETRY_DELAY_MS = 30 * 1000
+const RETRY_MULTIPLIER = 4
+
+/**
+ * Delay before the next attempt after `attempt` failed attempts
+ * @param attempt - Number of attempts made so far (1-based)
+ * @returns Delay in milliseconds
+ */
+export function getRetryDelay(attempt: number): number {
+  const exponent = Math.max(0, attempt - 1)
+  return BASE_RETRY_DELAY_MS * Math.pow(RETRY_MULTIPLIER, exponent)
+}
+
+/**
+ * Check if a failed link should be retried or given up on
+ * @param attempt - Number of attempts made so far (1-based)
+ */
+export function shouldRetry(attempt: number): boolean {
+  return attempt < MAX_PROCESSING_ATTEMPTS
+}
+
+/**
+ * Compute the ISO timestamp of the next attempt
+ */
+export function getNextAttemptAt(attempt: number, now: Date = new Date()): string {
+  return new Date(now.getTime() + getRetryDelay(attempt)).toISOString()
+}
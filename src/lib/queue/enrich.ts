@@ -0,0 +1,204 @@
+/**
+ * Link enrichment pipeline
+ * Scrapes a saved link and runs the AI description/tag pipeline on the result.
+ * Only computes the new metadata - writing the link row is up to the caller.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { smartScrapeUrl } from '@/lib/scraping'
+import { extractReadableArticle, type ReadableArticle } from '@/lib/scraping/readability'
+import { generateDescriptionAndTags, generateNewTags, isAIEnabled } from '@/lib/ai/openrouter'
+import { rowScope, scopeOwner, scopeQuery, type OwnerScope } from '@/lib/workspaces/scope'
+
+export interface EnrichmentResult {
+  success: boolean // false when the page could not be scraped
+  title: string | null
+  description: string | null
+  scrapedContent: string | null
+  canonicalUrl: string | null // rel=canonical declared by the page
+  article: ReadableArticle | null // Cleaned article body for the offline archive
+  suggestedTagIds: string[]
+  error: string | null // scraping error, or non-fatal AI error on success
+}
+
+/**
+ * Helper function to create tags from AI-generated tag names
+ * - Validates each tag (max 2 words)
+ * - Checks if tag already exists (case-insensitive)
+ * - Creates new tag in database if it doesn't exist
+ * - Returns array of tag IDs (both existing and newly created)
+ */
+async function createTagsFromAI(
+  owner: OwnerScope,
+  tagNames: string[],
+  supabase: SupabaseClient
+): Promise<string[]> {
+  const tagIds: string[] = []
+
+  for (const tagName of tagNames) {
+    // Validate tag format (max 2 words)
+    const words = tagName.trim().split(/\s+/)
+    if (words.length > 2) {
+      console.warn(`Tag "${tagName}" has more than 2 words, skipping`)
+      continue
+    }
+
+    // Validate tag format (lowercase, alphanumeric, spaces, hyphens)
+    if (!/^[a-z0-9\s-]+$/.test(tagName)) {
+      console.warn(`Tag "${tagName}" has invalid format, skipping`)
+      continue
+    }
+
+    // Check if tag already exists (case-insensitive)
+    const { data: existingTag } = await scopeQuery(supabase.from('tags').select('id'), owner)
+      .ilike('name', tagName)
+      .single()
+
+    if (existingTag) {
+      console.log(`Tag "${tagName}" already exists, using existing ID`)
+      tagIds.push(existingTag.id)
+      continue
+    }
+
+    // Create new tag
+    const { data: newTag, error: tagError } = await supabase
+      .from('tags')
+      .insert({
+        ...scopeOwner(owner),
+        name: tagName,
+      })
+      .select('id')
+      .single()
+
+    if (tagError) {
+      console.error(`Error creating tag "${tagName}":`, tagError)
+      continue
+    }
+
+    if (newTag) {
+      console.log(`Created new tag "${tagName}" with ID: ${newTag.id}`)
+      tagIds.push(newTag.id)
+    }
+  }
+
+  return tagIds
+}
+
+/**
+ * Scrape the URL and generate AI description and tag suggestions
+ * - Scraping failure is reported with success=false (caller decides about retries)
+ * - AI failures are non-fatal: scraped metadata is still returned
+ */
+export async function enrichLink(
+  supabase: SupabaseClient,
+  link: { url: string; user_id: string; workspace_id: string | null }
+): Promise<EnrichmentResult> {
+  const result: EnrichmentResult = {
+    success: false,
+    title: null,
+    description: null,
+    scrapedContent: null,
+    canonicalUrl: null,
+    article: null,
+    suggestedTagIds: [],
+    error: null,
+  }
+
+  // Scrape the page
+  let scrapedData
+  try {
+    console.log(`Starting scraping for URL: ${link.url}`)
+    const startTime = Date.now()
+    scrapedData = await smartScrapeUrl(link.url, { timeout: 30000 })
+    console.log(`Scraping completed in ${Date.now() - startTime}ms`)
+  } catch (error) {
+    console.error('Scraping error:', error)
+    result.error = error instanceof Error ? error.message : 'Unknown scraping error'
+    return result
+  }
+
+  if (!scrapedData.success) {
+    result.error = scrapedData.error || 'Scraping failed'
+    return result
+  }
+
+  result.success = true
+  result.title = scrapedData.title || scrapedData.ogTitle
+  result.description = scrapedData.description || scrapedData.ogDescription
+  result.scrapedContent = scrapedData.scrapedContent
+  result.canonicalUrl = scrapedData.canonicalUrl
+
+  if (scrapedData.html) {
+    try {
+      result.article = extractReadableArticle(scrapedData.html, scrapedData.canonicalUrl || link.url)
+    } catch (error) {
+      // The archive is a bonus - never fail the link because of it
+      console.error('Article extraction error:', error)
+    }
+  }
+
+  if (!isAIEnabled()) {
+    console.log('AI service is not enabled')
+    return result
+  }
+
+  const aiContent = {
+    title: scrapedData.title || scrapedData.ogTitle,
+    description: scrapedData.description || scrapedData.ogDescription,
+    scrapedContent: scrapedData.scrapedContent,
+    url: link.url,
+  }
+
+  // AI Processing: Generate description and suggest tags
+  try {
+    console.log('Starting AI processing...')
+    const aiStartTime = Date.now()
+
+    // Get the tags of the link's space for suggestions
+    const { data: userTags } = await scopeQuery(
+      supabase.from('tags').select('id, name'),
+      rowScope(link)
+    ).order('name')
+
+    const aiResult = await generateDescriptionAndTags(aiContent, userTags || [])
+    console.log(`AI processing completed in ${Date.now() - aiStartTime}ms`)
+
+    // Use AI-generated description if available
+    if (aiResult.description.success) {
+      result.description = aiResult.description.description
+    } else {
+      console.warn(`AI description failed: ${aiResult.description.error}`)
+      result.error = aiResult.description.error
+    }
+
+    // Store suggested tag IDs for assignment
+    if (aiResult.tags.success) {
+      result.suggestedTagIds = aiResult.tags.tagIds
+      console.log(`AI suggested ${result.suggestedTagIds.length} tags`)
+
+      // Fallback: If no existing tags matched, generate new tags
+      if (aiResult.tags.needsNewTags && result.suggestedTagIds.length === 0) {
+        console.log('No matching tags found, generating new tags...')
+        try {
+          const newTagsResult = await generateNewTags(aiContent)
+
+          if (newTagsResult.success && newTagsResult.tagNames.length > 0) {
+            console.log(`AI generated ${newTagsResult.tagNames.length} new tags: ${newTagsResult.tagNames.join(', ')}`)
+            result.suggestedTagIds = await createTagsFromAI(rowScope(link), newTagsResult.tagNames, supabase)
+          } else {
+            console.warn(`Failed to generate new tags: ${newTagsResult.success ? 'No tags returned' : newTagsResult.error}`)
+          }
+        } catch (newTagError) {
+          console.error('Error generating new tags:', newTagError)
+        }
+      }
+    } else {
+      console.warn(`AI tag suggestions failed: ${aiResult.tags.error}`)
+    }
+  } catch (error) {
+    console.error('AI processing error:', error)
+    result.error = error instanceof Error ? error.message : 'AI processing failed'
+  }
+
+  return result
+}
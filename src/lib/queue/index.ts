@@ -0,0 +1,315 @@
+/**
+ * Link processing queue
+ * Links are saved immediately as 'pending'; this worker claims them,
+ * runs scraping + AI enrichment and moves them to 'completed' or 'failed'.
+ *
+ * Runs in two places:
+ * - right after a link is created or queued for re-processing (next/server `after`, scoped to the user)
+ * - periodically from /api/cron/process-links (service role, all users)
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Link } from '@/types'
+import { enrichLink, type EnrichmentResult } from './enrich'
+import { MAX_PROCESSING_ATTEMPTS, getNextAttemptAt, shouldRetry } from './backoff'
+import { isFieldEdited } from '@/lib/links/edited-fields'
+import { canonicalizeUrl } from '@/lib/links/urls'
+import { isUrlScrapable } from '@/lib/scraping'
+import { deliverPendingWebhooks, queueWebhookEvent } from '@/lib/webhooks'
+import { getLinkEventData } from '@/lib/webhooks/events'
+
+export interface ProcessQueueOptions {
+  userId?: string // Only process links of this user
+  maxLinks?: number // Upper bound of links processed in one run
+}
+
+export interface ProcessQueueSummary {
+  processed: number
+  completed: number
+  retried: number
+  failed: number
+}
+
+type ProcessingOutcome = 'completed' | 'retried' | 'failed'
+
+/**
+ * Helper function to truncate string to max length
+ * @param str - String to truncate
+ * @param maxLength - Maximum length (default 500 for database varchar(500))
+ * @returns Truncated string
+ */
+function truncateString(str: string | null | undefined, maxLength: number = 500): string | null {
+  if (!str) return null
+  return str.length > maxLength ? str.substring(0, maxLength) : str
+}
+
+/**
+ * Atomically claim due pending links (pending -> processing)
+ */
+export async function claimPendingLinks(
+  supabase: SupabaseClient,
+  options: { userId?: string; limit?: number } = {}
+): Promise<Link[]> {
+  const { data, error } = await supabase.rpc('claim_pending_links', {
+    p_limit: options.limit ?? 1,
+    p_user_id: options.userId ?? null,
+  })
+
+  if (error) {
+    console.error('Error claiming pending links:', error)
+    return []
+  }
+
+  return (data as Link[]) || []
+}
+
+/**
+ * Mark a claimed link as failed or reschedule it for another attempt
+ */
+async function handleFailure(
+  supabase: SupabaseClient,
+  link: Link,
+  errorMessage: string
+): Promise<ProcessingOutcome> {
+  const attempt = link.ai_processing_attempts
+
+  if (shouldRetry(attempt)) {
+    const nextAttemptAt = getNextAttemptAt(attempt)
+    console.log(`Link ${link.id} failed attempt ${attempt}/${MAX_PROCESSING_ATTEMPTS}, retrying at ${nextAttemptAt}`)
+
+    await supabase
+      .from('links')
+      .update({
+        ai_processing_status: 'pending',
+        ai_processing_next_attempt_at: nextAttemptAt,
+        ai_processing_error: truncateString(errorMessage, 500),
+      })
+      .eq('id', link.id)
+
+    return 'retried'
+  }
+
+  console.log(`Link ${link.id} failed after ${attempt} attempts`)
+
+  await supabase
+    .from('links')
+    .update({
+      ai_processing_status: 'failed',
+      ai_processing_error: truncateString(errorMessage, 500),
+    })
+    .eq('id', link.id)
+
+  return 'failed'
+}
+
+/**
+ * Switch the link to the rel=canonical URL of the page when the user opted in
+ * Skipped when the canonical URL is already saved as another link. The page controls the
+ * canonical URL, so it has to pass the same checks as a URL the user adds (no local or
+ * private hosts) - re-processing and the health checker fetch it later.
+ */
+async function applyCanonicalUrl(
+  supabase: SupabaseClient,
+  link: Link,
+  canonicalUrl: string | null
+): Promise<void> {
+  if (!canonicalUrl || canonicalUrl.length > 2048) return // DB limit: varchar(2048)
+  if (canonicalizeUrl(canonicalUrl) === link.normalized_url) return
+
+  const scrapableCheck = isUrlScrapable(canonicalUrl)
+  if (!scrapableCheck.valid) {
+    console.log(`Ignoring canonical URL of link ${link.id}: ${scrapableCheck.reason}`)
+    return
+  }
+
+  const { data: preferences } = await supabase
+    .from('user_preferences')
+    .select('resolve_canonical_urls')
+    .eq('user_id', link.user_id)
+    .maybeSingle()
+
+  if (!preferences?.resolve_canonical_urls) return
+
+  // normalized_url and domain are recomputed by the links_before_upsert trigger
+  const { error } = await supabase
+    .from('links')
+    .update({ url: canonicalUrl })
+    .eq('id', link.id)
+
+  if (error?.code === '23505') {
+    console.log(`Canonical URL of link ${link.id} is already saved, keeping ${link.url}`)
+  } else if (error) {
+    console.error(`Error saving canonical URL for link ${link.id}:`, error)
+  }
+}
+
+/**
+ * Store the readable copy of the page, replacing an older one
+ * Pages without a readable article keep their previous archive.
+ */
+async function saveArchive(
+  supabase: SupabaseClient,
+  link: Link,
+  article: EnrichmentResult['article']
+): Promise<void> {
+  if (!article) return
+
+  const { error } = await supabase.from('link_archives').upsert(
+    {
+      link_id: link.id,
+      user_id: link.user_id,
+      source_url: link.url,
+      title: truncateString(article.title),
+      byline: truncateString(article.byline),
+      content_html: article.contentHtml,
+      content_text: article.contentText,
+      word_count: article.wordCount,
+      archived_at: new Date().toISOString(),
+    },
+    { onConflict: 'link_id' }
+  )
+
+  if (error) {
+    console.error(`Error archiving link ${link.id}:`, error)
+  }
+}
+
+/**
+ * Run the enrichment pipeline for a claimed link and store the results
+ */
+export async function processClaimedLink(
+  supabase: SupabaseClient,
+  link: Link
+): Promise<ProcessingOutcome> {
+  // Reclaimed after a crash too many times - stop trying
+  if (link.ai_processing_attempts > MAX_PROCESSING_ATTEMPTS) {
+    return handleFailure(supabase, link, 'Processing timed out')
+  }
+
+  const enrichment = await enrichLink(supabase, link)
+
+  if (!enrichment.success) {
+    return handleFailure(supabase, link, enrichment.error || 'Scraping failed')
+  }
+
+  // Fields the user edited by hand are never overwritten
+  const edited = link.user_edited_fields
+  const { error: updateError } = await supabase
+    .from('links')
+    .update({
+      title: isFieldEdited(edited, 'title')
+        ? link.title
+        : truncateString(enrichment.title) || link.title,
+      ai_description: isFieldEdited(edited, 'ai_description')
+        ? link.ai_description
+        : truncateString(enrichment.description, 280) || link.ai_description, // DB limit: varchar(280)
+      scraped_content: truncateString(enrichment.scrapedContent, 3000), // DB limit: varchar(3000)
+      ai_processing_status: 'completed',
+      ai_processing_error: truncateString(enrichment.error, 500),
+    })
+    .eq('id', link.id)
+
+  if (updateError) {
+    console.error(`Error saving processed link ${link.id}:`, updateError)
+    return handleFailure(supabase, link, 'Failed to save processing results')
+  }
+
+  await saveArchive(supabase, link, enrichment.article)
+  await applyCanonicalUrl(supabase, link, enrichment.canonicalUrl)
+
+  // Replace tags with the suggested ones unless the user picked tags manually
+  if (enrichment.suggestedTagIds.length > 0 && !isFieldEdited(edited, 'tags')) {
+    const { error: clearError } = await supabase
+      .from('link_tags')
+      .delete()
+      .eq('link_id', link.id)
+
+    if (clearError) {
+      console.error('Error removing old tags:', clearError)
+      return 'completed'
+    }
+
+    const tagAssignments = enrichment.suggestedTagIds.map((tagId) => ({
+      link_id: link.id,
+      tag_id: tagId,
+    }))
+
+    const { error: tagError } = await supabase
+      .from('link_tags')
+      .upsert(tagAssignments, { onConflict: 'link_id,tag_id', ignoreDuplicates: true })
+
+    if (tagError) {
+      console.error('Error assigning tags:', tagError)
+    } else {
+      console.log(`Assigned ${enrichment.suggestedTagIds.length} tags to link`)
+    }
+  }
+
+  return 'completed'
+}
+
+/**
+ * Queue the link.processed webhook event with the enriched link
+ * @returns true when a delivery was queued
+ */
+async function queueProcessedEvent(supabase: SupabaseClient, link: Link): Promise<boolean> {
+  const { data: processed, error } = await supabase
+    .from('links')
+    .select('*')
+    .eq('id', link.id)
+    .single()
+
+  if (error || !processed) {
+    console.error(`Error fetching processed link ${link.id}:`, error)
+    return false
+  }
+
+  const queued = await queueWebhookEvent(supabase, link.user_id, 'link.processed', {
+    link: getLinkEventData(processed as Link),
+  })
+  return queued.length > 0
+}
+
+/**
+ * Claim and process due links one by one until the queue is empty
+ * or maxLinks have been processed
+ */
+export async function processLinkQueue(
+  supabase: SupabaseClient,
+  options: ProcessQueueOptions = {}
+): Promise<ProcessQueueSummary> {
+  const { userId, maxLinks = 10 } = options
+  const summary: ProcessQueueSummary = { processed: 0, completed: 0, retried: 0, failed: 0 }
+  let webhooksQueued = false
+
+  while (summary.processed < maxLinks) {
+    const [link] = await claimPendingLinks(supabase, { userId, limit: 1 })
+    if (!link) break
+
+    let outcome: ProcessingOutcome
+    try {
+      outcome = await processClaimedLink(supabase, link)
+    } catch (error) {
+      console.error(`Unexpected error processing link ${link.id}:`, error)
+      outcome = await handleFailure(
+        supabase,
+        link,
+        error instanceof Error ? error.message : 'Unknown processing error'
+      )
+    }
+
+    summary.processed++
+    summary[outcome]++
+
+    if (outcome === 'completed' && (await queueProcessedEvent(supabase, link))) {
+      webhooksQueued = true
+    }
+  }
+
+  // Leftovers (e.g. unreachable endpoints) are retried by the webhook worker
+  if (webhooksQueued) {
+    await deliverPendingWebhooks(supabase, { userId })
+  }
+
+  return summary
+}
@@ -48,7 +48,12 @@ export const queryKeys = {
     }) => [...queryKeys.links.lists(), filters] as const,
     details: () => [...queryKeys.links.all, 'detail'] as const,
     detail: (id: string) => [...queryKeys.links.details(), id] as const,
+    archive: (id: string) => [...queryKeys.links.detail(id), 'archive'] as const,
+    highlights: (id: string) => [...queryKeys.links.detail(id), 'highlights'] as const,
     statistics: ['links', 'statistics'] as const,
+    trash: ['links', 'trash'] as const,
+    duplicates: ['links', 'duplicates'] as const,
+    today: ['links', 'today'] as const,
   },
 
   // Tags
@@ -61,6 +66,41 @@ export const queryKeys = {
     statistics: ['tags', 'statistics'] as const,
   },
 
+  // Collections
+  collections: {
+    all: ['collections'] as const,
+    lists: () => [...queryKeys.collections.all, 'list'] as const,
+    details: () => [...queryKeys.collections.all, 'detail'] as const,
+    detail: (id: string) => [...queryKeys.collections.details(), id] as const,
+    forLink: (linkId: string) => [...queryKeys.collections.all, 'link', linkId] as const,
+  },
+
+  // Public share links
+  shares: {
+    all: ['shares'] as const,
+  },
+
+  // Personal access tokens of the REST API
+  apiTokens: {
+    all: ['api-tokens'] as const,
+  },
+
+  // Outgoing webhooks
+  webhooks: {
+    all: ['webhooks'] as const,
+    deliveries: (endpointId: string) =>
+      [...queryKeys.webhooks.all, endpointId, 'deliveries'] as const,
+  },
+
+  // Shared workspaces
+  workspaces: {
+    all: ['workspaces'] as const,
+    lists: () => [...queryKeys.workspaces.all, 'list'] as const,
+    active: ['workspaces', 'active'] as const,
+    members: (id: string) => [...queryKeys.workspaces.all, id, 'members'] as const,
+    invitations: (id: string) => [...queryKeys.workspaces.all, id, 'invitations'] as const,
+  },
+
   // User
   user: {
     profile: ['user', 'profile'] as const,
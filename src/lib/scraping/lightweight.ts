@@ -4,6 +4,7 @@
  */
 
 import { ScrapedMetadata } from './playwright'
+import { resolveCanonicalHref } from '@/lib/links/urls'
 
 /**
  * Parse HTML meta tags using regex (lightweight alternative to DOM parsing)
@@ -62,6 +63,21 @@ function extractFavicon(html: string, domain: string): string | null {
   return `https://${domain}/favicon.ico`
 }
 
+/**
+ * Extract the href of <link rel="canonical">
+ */
+function extractCanonicalHref(html: string): string | null {
+  const linkTags = html.match(/<link\b[^>]*>/gi) || []
+
+  for (const tag of linkTags) {
+    if (!/\brel=["']?canonical["'\s>/]/i.test(tag)) continue
+    const href = tag.match(/\bhref=["']([^"']*)["']/i)
+    if (href) return href[1]
+  }
+
+  return null
+}
+
 /**
  * Extract text content from HTML
  */
@@ -135,6 +151,61 @@ function extractDomain(url: string): string {
   }
 }
 
+const DEFAULT_USER_AGENT = 'Mozilla/5.0 (compatible; TagLink/1.0; +https://taglink.app/bot)'
+
+/**
+ * Fetch a page the way the lightweight scraper does (browser-like headers,
+ * redirects followed, aborted after the timeout)
+ * Shared with the link health checker.
+ */
+export async function fetchPage(
+  url: string,
+  options: { method?: 'GET' | 'HEAD'; timeout?: number; userAgent?: string } = {}
+): Promise<Response> {
+  const controller = new AbortController()
+  const timeoutId = setTimeout(() => controller.abort(), options.timeout || 10000)
+
+  try {
+    return await fetch(url, {
+      method: options.method || 'GET',
+      signal: controller.signal,
+      headers: {
+        'User-Agent': options.userAgent || DEFAULT_USER_AGENT,
+        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+        'Accept-Language': 'en-US,en;q=0.5',
+        'Accept-Encoding': 'gzip, deflate',
+        'DNT': '1',
+        'Connection': 'keep-alive',
+        'Upgrade-Insecure-Requests': '1',
+      },
+      redirect: 'follow',
+    })
+  } finally {
+    clearTimeout(timeoutId)
+  }
+}
+
+/**
+ * Short, user-facing message for a failed fetch
+ */
+export function simplifyFetchError(error: unknown): string {
+  const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred'
+  // Node's fetch hides network errors behind "fetch failed", the code is on the cause
+  const cause = error instanceof Error && error.cause instanceof Error ? error.cause.message : ''
+  const details = `${errorMessage} ${cause}`
+
+  if (details.includes('aborted')) {
+    return 'Request timeout'
+  } else if (details.includes('ENOTFOUND')) {
+    return 'Domain not found'
+  } else if (details.includes('ECONNREFUSED')) {
+    return 'Connection refused'
+  } else if (details.includes('ETIMEDOUT')) {
+    return 'Connection timeout'
+  }
+  return errorMessage
+}
+
 /**
  * Lightweight scraping function using fetch
  * No browser dependencies required
@@ -145,8 +216,7 @@ export async function scrapeLightweight(
 ): Promise<ScrapedMetadata> {
   const config = {
     timeout: options.timeout || 10000, // 10 seconds default (faster than browser)
-    userAgent: options.userAgent ||
-      'Mozilla/5.0 (compatible; TagLink/1.0; +https://taglink.app/bot)'
+    userAgent: options.userAgent || DEFAULT_USER_AGENT,
   }
 
   const domain = extractDomain(url)
@@ -160,29 +230,14 @@ export async function scrapeLightweight(
     ogTitle: null,
     ogDescription: null,
     ogImage: null,
+    canonicalUrl: null,
     scrapedContent: null,
+    html: null,
     success: false,
   }
 
   try {
-    const controller = new AbortController()
-    const timeoutId = setTimeout(() => controller.abort(), config.timeout)
-
-    const response = await fetch(url, {
-      signal: controller.signal,
-      headers: {
-        'User-Agent': config.userAgent,
-        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
-        'Accept-Language': 'en-US,en;q=0.5',
-        'Accept-Encoding': 'gzip, deflate',
-        'DNT': '1',
-        'Connection': 'keep-alive',
-        'Upgrade-Insecure-Requests': '1',
-      },
-      redirect: 'follow',
-    })
-
-    clearTimeout(timeoutId)
+    const response = await fetchPage(url, config)
 
     if (!response.ok) {
       throw new Error(`HTTP ${response.status}: ${response.statusText}`)
@@ -202,25 +257,17 @@ export async function scrapeLightweight(
     result.ogDescription = extractMetaTag(html, 'og:description')
     result.ogImage = extractMetaTag(html, 'og:image')
     result.favicon = extractFavicon(html, domain)
+    // Relative hrefs are resolved against the final URL (after redirects)
+    result.canonicalUrl = resolveCanonicalHref(extractCanonicalHref(html), response.url || url)
     result.scrapedContent = extractTextContent(html)
+    result.html = html
 
     result.success = true
 
     return result
   } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred'
-
     // Simplify error messages for production
-    let simplifiedError = errorMessage
-    if (errorMessage.includes('aborted')) {
-      simplifiedError = 'Request timeout'
-    } else if (errorMessage.includes('ENOTFOUND')) {
-      simplifiedError = 'Domain not found'
-    } else if (errorMessage.includes('ECONNREFUSED')) {
-      simplifiedError = 'Connection refused'
-    } else if (errorMessage.includes('ETIMEDOUT')) {
-      simplifiedError = 'Connection timeout'
-    }
+    const simplifiedError = simplifyFetchError(error)
 
     result.error = simplifiedError
     result.success = false
@@ -1,4 +1,5 @@
 import { chromium, Browser, Page } from 'playwright'
+import { resolveCanonicalHref } from '@/lib/links/urls'
 
 /**
  * Scraped metadata from a webpage
@@ -12,7 +13,9 @@ export interface ScrapedMetadata {
   ogTitle: string | null
   ogDescription: string | null
   ogImage: string | null
+  canonicalUrl: string | null // Absolute <link rel="canonical"> URL, if the page declares one
   scrapedContent: string | null
+  html: string | null // Full page HTML, used for the readable archive
   success: boolean
   error?: string
 }
@@ -92,6 +95,19 @@ async function getMetaContent(page: Page, property: string): Promise<string | nu
   }
 }
 
+/**
+ * Extract the canonical URL declared by the page
+ */
+async function extractCanonicalUrl(page: Page): Promise<string | null> {
+  try {
+    const element = await page.$('link[rel="canonical"]')
+    if (!element) return null
+    return resolveCanonicalHref(await element.getAttribute('href'), page.url())
+  } catch {
+    return null
+  }
+}
+
 /**
  * Extract first 500 words of text content from page
  */
@@ -169,7 +185,9 @@ export async function scrapeUrl(
     ogTitle: null,
     ogDescription: null,
     ogImage: null,
+    canonicalUrl: null,
     scrapedContent: null,
+    html: null,
     success: false,
   }
 
@@ -214,6 +232,9 @@ export async function scrapeUrl(
     result.ogDescription = await getMetaContent(page, 'og:description')
     result.ogImage = await getMetaContent(page, 'og:image')
     result.favicon = await extractFavicon(page, domain)
+    result.canonicalUrl = await extractCanonicalUrl(page)
+    // Captured before text extraction strips elements from the page
+    result.html = await page.content()
     result.scrapedContent = await extractTextContent(page)
 
     result.success = true
@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest'
+import { extractReadableArticle, sanitizeArticleHtml } from './readability'
+
+const BASE_URL = 'https://example.com/blog/post'
+
+const paragraph = (text: string) =>
+  `<p>${text}, with enough words in it to look like real prose, and a few commas, too.</p>`
+
+const page = (body: string, head = '<title>Example post</title>') =>
+  `<!doctype html><html><head>${head}</head><body>${body}</body></html>`
+
+describe('extractReadableArticle', () => {
+  it('should pick the main content and drop navigation, sidebars and scripts', () => {
+    const article = extractReadableArticle(
+      page(`
+        <nav><a href="/">Home</a><a href="/about">About</a></nav>
+        <div class="sidebar"><p>Subscribe to our newsletter, it is great, really great, trust us.</p></div>
+        <div class="post-content">
+          <h1>The title</h1>
+          ${paragraph('First paragraph')}
+          ${paragraph('Second paragraph')}
+          <script>alert('x')</script>
+        </div>
+        <footer>Copyright</footer>
+      `),
+      BASE_URL
+    )
+
+    expect(article).not.toBeNull()
+    expect(article!.title).toBe('Example post')
+    expect(article!.contentHtml).toContain('<h2>The title</h2>')
+    expect(article!.contentHtml).toContain('First paragraph')
+    expect(article!.contentHtml).not.toMatch(/Subscribe|Home|Copyright|script|alert/)
+    expect(article!.contentText.split('\n\n')[0]).toBe('The title')
+  })
+
+  it('should strip attributes and unsafe URLs', () => {
+    const article = extractReadableArticle(
+      page(`
+        <article>
+          <p class="lead" onclick="steal()" style="color:red">Read <a href="/docs" onmouseover="x()">the docs</a>
+          or <a href="javascript:alert(1)">this</a>, it is long enough, with commas, to count as text.</p>
+          <p><img src="/img/a.png" alt="Chart" onerror="x()"><img src="data:image/png;base64,AAA"></p>
+          ${paragraph('Another paragraph')}
+        </article>
+      `),
+      BASE_URL
+    )
+
+    const html = article!.contentHtml
+    expect(html).toContain(
+      '<a href="https://example.com/docs" rel="noopener noreferrer nofollow" target="_blank">the docs</a>'
+    )
+    expect(html).toContain('<img src="https://example.com/img/a.png" alt="Chart" loading="lazy">')
+    expect(html).not.toMatch(/onclick|onmouseover|onerror|style=|class=|javascript:|data:image/)
+  })
+
+  it('should escape text and decode entities', () => {
+    const article = extractReadableArticle(
+      page(`<article>${paragraph('Tom &amp; Jerry &lt;script&gt; &#8220;quoted&#8221;')}</article>`),
+      BASE_URL
+    )
+
+    expect(article!.contentHtml).toContain('Tom &amp; Jerry &lt;script&gt; “quoted”')
+    expect(article!.contentText).toContain('Tom & Jerry <script> “quoted”')
+  })
+
+  it('should close unclosed paragraphs and list items', () => {
+    const article = extractReadableArticle(
+      page(`<main><p>One paragraph without a closing tag, long enough to be kept around, okay.
+        <p>Another one, also without closing tag, and with commas, too.
+        <ul><li>First<li>Second</ul></main>`),
+      BASE_URL
+    )
+
+    expect(article!.contentHtml).toMatch(/<p>One paragraph[^<]*<\/p>\s*<p>Another one/)
+    expect(article!.contentHtml).toContain('<li>First</li><li>Second</li>')
+  })
+
+  it('should turn text-only wrappers into paragraphs', () => {
+    const article = extractReadableArticle(
+      page(`<article><div>Loose text in a div, long enough to be worth keeping, with commas, yes.</div>
+        ${paragraph('Regular paragraph')}</article>`),
+      BASE_URL
+    )
+
+    expect(article!.contentHtml).toMatch(/^<p>Loose text in a div/)
+  })
+
+  it('should read the byline and prefer og:title', () => {
+    const article = extractReadableArticle(
+      page(
+        `<article>${paragraph('Body')}${paragraph('More body')}</article>`,
+        '<title>Site | Post</title><meta property="og:title" content="Post"><meta name="author" content="Jane Doe">'
+      ),
+      BASE_URL
+    )
+
+    expect(article!.title).toBe('Post')
+    expect(article!.byline).toBe('Jane Doe')
+    expect(article!.wordCount).toBeGreaterThan(20)
+  })
+
+  it('should return null for pages without meaningful text', () => {
+    expect(extractReadableArticle(page('<div><a href="/">Home</a></div>'), BASE_URL)).toBeNull()
+    expect(extractReadableArticle('', BASE_URL)).toBeNull()
+  })
+})
+
+describe('sanitizeArticleHtml', () => {
+  it('should keep archived HTML unchanged', () => {
+    const article = extractReadableArticle(
+      page(`<article>${paragraph('Intro <a href="/x">link</a>')}${paragraph('More')}<ul><li>One</li></ul></article>`),
+      BASE_URL
+    )
+
+    expect(sanitizeArticleHtml(article!.contentHtml, BASE_URL)).toBe(article!.contentHtml)
+  })
+
+  it('should strip markup that did not come from the archiver', () => {
+    expect(
+      sanitizeArticleHtml(
+        '<p onclick="x()">Hi</p><script>alert(1)</script><img src="x" onerror="alert(1)"><iframe src="https://evil"></iframe>',
+        BASE_URL
+      )
+    ).toBe('<p>Hi</p><img src="https://example.com/blog/x" loading="lazy">')
+  })
+})
@@ -0,0 +1,461 @@
+/**
+ * Readable article extraction for the offline archive
+ * A small, dependency-free take on Mozilla's Readability: the page is parsed into
+ * a lightweight tree, paragraphs are scored to find the main content element and
+ * that element is serialized back with a strict whitelist of tags and attributes.
+ * The stored HTML is safe to render as-is (no scripts, styles, handlers or
+ * non-http URLs).
+ */
+
+export interface ReadableArticle {
+  title: string | null
+  byline: string | null
+  contentHtml: string
+  contentText: string
+  wordCount: number
+}
+
+// Pages with less readable text than this are not worth archiving
+export const MIN_ARTICLE_TEXT_LENGTH = 100
+
+// DB limits: link_archives.content_html / content_text
+export const MAX_ARCHIVE_HTML_LENGTH = 500000
+export const MAX_ARCHIVE_TEXT_LENGTH = 200000
+
+type ElementNode = {
+  tag: string
+  attrs: Record<string, string>
+  children: Node[]
+  parent: ElementNode | null
+}
+
+type Node = ElementNode | string
+
+// Removed together with everything inside them
+const REMOVED_TAGS = new Set([
+  'head', 'script', 'style', 'noscript', 'template', 'svg', 'math', 'iframe', 'object', 'embed',
+  'canvas', 'video', 'audio', 'form', 'button', 'input', 'select', 'textarea', 'nav', 'header',
+  'footer', 'aside', 'dialog',
+])
+
+const VOID_TAGS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'param', 'source',
+  'track', 'wbr',
+])
+
+// Tags kept in the archived HTML; everything else is unwrapped
+const ALLOWED_TAGS = new Set([
+  'p', 'br', 'hr', 'h2', 'h3', 'h4', 'h5', 'h6', 'ul', 'ol', 'li', 'blockquote', 'pre', 'code',
+  'em', 'i', 'strong', 'b', 'a', 'img', 'figure', 'figcaption', 'table', 'thead', 'tbody', 'tr',
+  'th', 'td', 'sup', 'sub', 'dl', 'dt', 'dd', 'del', 's', 'mark', 'small',
+])
+
+const BLOCK_TAGS = new Set([
+  'address', 'article', 'blockquote', 'dd', 'div', 'dl', 'dt', 'figcaption', 'figure', 'h1', 'h2',
+  'h3', 'h4', 'h5', 'h6', 'hr', 'li', 'main', 'ol', 'p', 'pre', 'section', 'table', 'tbody', 'td',
+  'th', 'thead', 'tr', 'ul',
+])
+
+// Wrappers turned into paragraphs when they only hold inline content
+const WRAPPER_TAGS = new Set(['div', 'section', 'article', 'main'])
+
+const UNLIKELY_CANDIDATE =
+  /ad-|ads|advert|banner|breadcrumb|combx|comment|community|cookie|disqus|footer|gdpr|header|menu|modal|nav|newsletter|pagination|popup|promo|related|remark|share|sidebar|social|sponsor|subscribe|widget/i
+const LIKELY_CANDIDATE = /article|body|column|content|entry|main|page|post|story|text/i
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', ndash: '–', mdash: '—',
+  hellip: '…', lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', laquo: '«', raquo: '»',
+  copy: '©', reg: '®', trade: '™', middot: '·', bull: '•',
+}
+
+/**
+ * Decode HTML entities in text and attribute values
+ */
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code =
+        entity[1] === 'x' || entity[1] === 'X'
+          ? parseInt(entity.slice(2), 16)
+          : parseInt(entity.slice(1), 10)
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match
+  })
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {}
+  const pattern = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g
+  let match
+  while ((match = pattern.exec(source))) {
+    attrs[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '')
+  }
+  return attrs
+}
+
+/**
+ * Parse HTML into a lightweight element tree
+ * Forgiving like browsers in the common cases: unclosed <p>/<li>, stray closing tags.
+ */
+function parseHtml(html: string): ElementNode {
+  const root: ElementNode = { tag: '#root', attrs: {}, children: [], parent: null }
+  let current = root
+
+  // Raw text elements would confuse the tokenizer, drop them up front
+  const source = html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(script|style|noscript|template|textarea)\b[\s\S]*?<\/\1\s*>/gi, '')
+
+  const tokenPattern = /<(\/?)([a-zA-Z][a-zA-Z0-9-]*)((?:[^>"']|"[^"]*"|'[^']*')*)>|<![^>]*>|[^<]+|</g
+  let match
+  while ((match = tokenPattern.exec(source))) {
+    const [token, closing, rawTag, rawAttrs] = match
+
+    if (!rawTag) {
+      if (!token.startsWith('<!')) current.children.push(decodeEntities(token))
+      continue
+    }
+
+    const tag = rawTag.toLowerCase()
+
+    if (closing) {
+      // Close up to the matching open element; ignore the tag when nothing matches
+      let node: ElementNode | null = current
+      while (node && node.tag !== tag) node = node.parent
+      if (node?.parent) current = node.parent
+      continue
+    }
+
+    // Implicitly close paragraphs and list items like the HTML parser does
+    if (current.tag === 'p' && BLOCK_TAGS.has(tag) && current.parent) {
+      current = current.parent
+    }
+    if (tag === 'li' && current.tag === 'li' && current.parent) {
+      current = current.parent
+    }
+
+    const element: ElementNode = {
+      tag,
+      attrs: parseAttributes(rawAttrs),
+      children: [],
+      parent: current,
+    }
+    current.children.push(element)
+
+    if (!VOID_TAGS.has(tag) && !rawAttrs.trimEnd().endsWith('/')) {
+      current = element
+    }
+  }
+
+  return root
+}
+
+function isElement(node: Node): node is ElementNode {
+  return typeof node !== 'string'
+}
+
+function* walk(node: ElementNode): Generator<ElementNode> {
+  for (const child of node.children) {
+    if (isElement(child)) {
+      yield child
+      yield* walk(child)
+    }
+  }
+}
+
+function findFirst(root: ElementNode, tag: string): ElementNode | null {
+  for (const element of walk(root)) {
+    if (element.tag === tag) return element
+  }
+  return null
+}
+
+function getText(node: Node): string {
+  return isElement(node) ? node.children.map(getText).join('') : node
+}
+
+function normalizeSpace(value: string): string {
+  return value.replace(/\s+/g, ' ').trim()
+}
+
+function getClassAndId(element: ElementNode): string {
+  return `${element.attrs.class || ''} ${element.attrs.id || ''}`
+}
+
+/**
+ * Drop elements that never hold the article: scripts, navigation, forms
+ * and blocks whose class or id looks like boilerplate
+ */
+function removeBoilerplate(element: ElementNode): void {
+  element.children = element.children.filter((child) => {
+    if (!isElement(child)) return true
+    if (REMOVED_TAGS.has(child.tag)) return false
+    if (child.attrs.hidden !== undefined || child.attrs['aria-hidden'] === 'true') return false
+
+    const classAndId = getClassAndId(child)
+    if (
+      child.tag !== 'body' &&
+      child.tag !== 'a' &&
+      UNLIKELY_CANDIDATE.test(classAndId) &&
+      !LIKELY_CANDIDATE.test(classAndId)
+    ) {
+      return false
+    }
+
+    removeBoilerplate(child)
+    return true
+  })
+}
+
+/**
+ * Drop removed tags (scripts, forms...) without the class/id heuristics
+ */
+function removeDisallowedElements(element: ElementNode): void {
+  element.children = element.children.filter((child) => {
+    if (!isElement(child)) return true
+    if (REMOVED_TAGS.has(child.tag)) return false
+    removeDisallowedElements(child)
+    return true
+  })
+}
+
+function getLinkDensity(element: ElementNode): number {
+  const textLength = normalizeSpace(getText(element)).length
+  if (textLength === 0) return 0
+
+  let linkLength = 0
+  for (const child of walk(element)) {
+    if (child.tag === 'a') linkLength += normalizeSpace(getText(child)).length
+  }
+  return linkLength / textLength
+}
+
+function getInitialScore(element: ElementNode): number {
+  let score = 0
+
+  if (['div', 'article', 'main'].includes(element.tag)) score += 5
+  else if (['pre', 'td', 'blockquote'].includes(element.tag)) score += 3
+  else if (['ol', 'ul', 'dl', 'dd', 'dt', 'li'].includes(element.tag)) score -= 3
+  else if (/^h[1-6]$/.test(element.tag) || element.tag === 'th') score -= 5
+
+  const classAndId = getClassAndId(element)
+  if (LIKELY_CANDIDATE.test(classAndId)) score += 25
+  if (UNLIKELY_CANDIDATE.test(classAndId)) score -= 25
+
+  return score
+}
+
+/**
+ * Find the element holding the article text
+ * Every paragraph adds points (more for longer text and commas) to its parent
+ * and half of them to its grandparent; link-heavy candidates are penalized.
+ */
+function findMainContent(body: ElementNode): ElementNode {
+  const scores = new Map<ElementNode, number>()
+
+  for (const element of walk(body)) {
+    if (!['p', 'pre', 'td', 'blockquote'].includes(element.tag)) continue
+
+    const text = normalizeSpace(getText(element))
+    if (text.length < 25) continue
+
+    const points = 1 + text.split(',').length + Math.min(Math.floor(text.length / 100), 3)
+    const parent = element.parent
+    const grandparent = parent?.parent
+
+    if (parent && parent.tag !== '#root') {
+      scores.set(parent, (scores.get(parent) ?? getInitialScore(parent)) + points)
+    }
+    if (grandparent && grandparent.tag !== '#root') {
+      scores.set(grandparent, (scores.get(grandparent) ?? getInitialScore(grandparent)) + points / 2)
+    }
+  }
+
+  let best: ElementNode = body
+  let bestScore = 0
+  scores.forEach((score, element) => {
+    const finalScore = score * (1 - getLinkDensity(element))
+    if (finalScore > bestScore) {
+      best = element
+      bestScore = finalScore
+    }
+  })
+
+  return best
+}
+
+/**
+ * Absolute http(s)/mailto URL, or null for anything else (javascript:, data: etc.)
+ */
+function resolveUrl(value: string | undefined, baseUrl: string, allowMailto = false): string | null {
+  if (!value) return null
+  try {
+    const url = new URL(value.trim(), baseUrl)
+    const allowed = allowMailto ? ['http:', 'https:', 'mailto:'] : ['http:', 'https:']
+    return allowed.includes(url.protocol) ? url.toString() : null
+  } catch {
+    return null
+  }
+}
+
+function hasBlockChildren(element: ElementNode): boolean {
+  return element.children.some((child) => isElement(child) && BLOCK_TAGS.has(child.tag))
+}
+
+/**
+ * Serialize a node with the tag/attribute whitelist
+ */
+function serialize(node: Node, baseUrl: string): string {
+  if (!isElement(node)) {
+    return escapeHtml(node)
+  }
+
+  const inner = () => node.children.map((child) => serialize(child, baseUrl)).join('')
+
+  // The page title is shown separately, so in-article h1s become h2s
+  const tag = node.tag === 'h1' ? 'h2' : node.tag
+
+  if (tag === 'img') {
+    const src = resolveUrl(node.attrs.src || node.attrs['data-src'], baseUrl)
+    if (!src) return ''
+    const alt = node.attrs.alt ? ` alt="${escapeHtml(node.attrs.alt)}"` : ''
+    return `<img src="${escapeHtml(src)}"${alt} loading="lazy">`
+  }
+
+  if (tag === 'br' || tag === 'hr') {
+    return `<${tag}>`
+  }
+
+  if (tag === 'a') {
+    const href = resolveUrl(node.attrs.href, baseUrl, true)
+    const content = inner()
+    if (!href) return content
+    return `<a href="${escapeHtml(href)}" rel="noopener noreferrer nofollow" target="_blank">${content}</a>`
+  }
+
+  if (WRAPPER_TAGS.has(tag) && !hasBlockChildren(node)) {
+    const content = inner()
+    return normalizeSpace(getText(node)) ? `<p>${content}</p>` : content
+  }
+
+  if (!ALLOWED_TAGS.has(tag)) {
+    return inner()
+  }
+
+  const content = inner()
+  if (tag === 'p' && !normalizeSpace(getText(node)) && !content.includes('<img')) {
+    return ''
+  }
+
+  let attrs = ''
+  if (tag === 'td' || tag === 'th') {
+    for (const name of ['colspan', 'rowspan']) {
+      if (/^\d+$/.test(node.attrs[name] || '')) attrs += ` ${name}="${node.attrs[name]}"`
+    }
+  }
+
+  return `<${tag}${attrs}>${content}</${tag}>`
+}
+
+/**
+ * Plain text of the article: blocks separated by blank lines, whitespace collapsed
+ * (preformatted blocks keep their line breaks)
+ */
+function toPlainText(node: Node): string {
+  if (!isElement(node)) return node
+  if (node.tag === 'br') return '\n'
+  if (node.tag === 'pre') return `\n\n${getText(node)}\n\n`
+  if (node.tag === 'img') return ''
+
+  const content = node.children.map(toPlainText).join('')
+  return BLOCK_TAGS.has(node.tag) ? `\n\n${content}\n\n` : content
+}
+
+function cleanPlainText(text: string): string {
+  return text
+    .split(/\n{2,}/)
+    .map((block) =>
+      block
+        .split('\n')
+        .map((line) => line.replace(/[ \t\f\v\r]+/g, ' ').trim())
+        .join('\n')
+        .trim()
+    )
+    .filter(Boolean)
+    .join('\n\n')
+}
+
+function getMetaContent(root: ElementNode, names: string[]): string | null {
+  for (const element of walk(root)) {
+    if (element.tag !== 'meta') continue
+    const key = (element.attrs.property || element.attrs.name || '').toLowerCase()
+    if (names.includes(key) && element.attrs.content) {
+      return normalizeSpace(element.attrs.content)
+    }
+  }
+  return null
+}
+
+/**
+ * Run stored article HTML through the whitelist again before it is rendered
+ * Archive rows are written with the user's own credentials, so they are not trusted blindly.
+ */
+export function sanitizeArticleHtml(html: string, baseUrl: string): string {
+  const document = parseHtml(html)
+  removeDisallowedElements(document)
+  return document.children.map((child) => serialize(child, baseUrl)).join('')
+}
+
+/**
+ * Extract the readable article from a page
+ * @param html - Full page HTML
+ * @param baseUrl - URL of the page, relative links and images are resolved against it
+ * @returns Cleaned article, or null when the page has no meaningful text
+ */
+export function extractReadableArticle(html: string, baseUrl: string): ReadableArticle | null {
+  const document = parseHtml(html)
+
+  // Metadata is read before boilerplate removal drops <head>
+  const titleElement = findFirst(document, 'title')
+  const title =
+    getMetaContent(document, ['og:title']) ||
+    (titleElement && normalizeSpace(getText(titleElement))) ||
+    null
+  const byline = getMetaContent(document, ['author', 'article:author'])
+
+  const body = findFirst(document, 'body') || document
+  removeBoilerplate(body)
+
+  const content = findMainContent(body)
+
+  // Serialize block by block so a size cut never leaves an unclosed tag
+  let contentHtml = ''
+  for (const child of content.children) {
+    const part = serialize(child, baseUrl)
+    if (contentHtml.length + part.length > MAX_ARCHIVE_HTML_LENGTH) break
+    contentHtml += part
+  }
+
+  const contentText = cleanPlainText(toPlainText(content)).slice(0, MAX_ARCHIVE_TEXT_LENGTH)
+  if (contentText.length < MIN_ARTICLE_TEXT_LENGTH) {
+    return null
+  }
+
+  return {
+    title,
+    byline,
+    contentHtml: contentHtml.trim(),
+    contentText,
+    wordCount: contentText.split(/\s+/).filter(Boolean).length,
+  }
+}
@@ -0,0 +1,224 @@
+/**
+ * Public share pages
+ * Loads what /s/<token> shows: a tag, a collection or a saved search of one space.
+ * Runs with the service role (visitors have no session), so every query here is
+ * scoped to the space of the share and only public fields are returned.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { ShareLink, ShareSearchFilters, SharedLink, SharedPage } from '@/types'
+import { rowScope, scopeQuery, type OwnerScope } from '@/lib/workspaces/scope'
+import { isShareActive, isValidShareToken } from './tokens'
+
+// Upper bound of links on one public page
+const MAX_SHARED_LINKS = 500
+
+const SHARED_LINK_FIELDS = `
+  id,
+  url,
+  domain,
+  title,
+  ai_description,
+  rating,
+  link_tags (
+    tag:tags (
+      name
+    )
+  )
+`
+
+type SharedLinkRow = {
+  id: string
+  url: string
+  domain: string
+  title: string | null
+  ai_description: string | null
+  rating: number | null
+  link_tags?: { tag: unknown }[] | null // tag is one { name } object at runtime
+}
+
+function toSharedLink(row: SharedLinkRow): SharedLink {
+  return {
+    id: row.id,
+    url: row.url,
+    domain: row.domain,
+    title: row.title,
+    description: row.ai_description,
+    rating: row.rating,
+    tags: (row.link_tags || [])
+      .map((lt) => (lt.tag as { name: string } | null)?.name)
+      .filter((name): name is string => !!name),
+  }
+}
+
+/**
+ * Links of the space matching a saved search (same rules as the dashboard, minus private fields)
+ */
+async function getSearchLinks(
+  supabase: SupabaseClient,
+  owner: OwnerScope,
+  filters: ShareSearchFilters
+): Promise<SharedLinkRow[]> {
+  let query = scopeQuery(supabase.from('links').select(SHARED_LINK_FIELDS), owner).is(
+    'deleted_at',
+    null
+  )
+
+  const searchTerm = filters.query?.trim()
+  if (searchTerm) {
+    // Notes and highlights are private, so they are not searched here
+    query = query.or(
+      `title.ilike.%${searchTerm}%,ai_description.ilike.%${searchTerm}%,domain.ilike.%${searchTerm}%`
+    )
+  }
+
+  if (filters.readingStates && filters.readingStates.length > 0) {
+    query = query.in('reading_state', filters.readingStates)
+  } else {
+    query = query.neq('reading_state', 'archived')
+  }
+
+  // Tag filtering with AND logic (all tags must match)
+  const tagIds = filters.tagIds || []
+  if (tagIds.length > 0) {
+    const { data: linkTags, error } = await supabase
+      .from('link_tags')
+      .select('link_id')
+      .in('tag_id', tagIds)
+
+    if (error) throw error
+
+    const counts = new Map<string, number>()
+    ;(linkTags || []).forEach((lt) => counts.set(lt.link_id, (counts.get(lt.link_id) || 0) + 1))
+    const linkIds = Array.from(counts.entries())
+      .filter(([, count]) => count === tagIds.length)
+      .map(([linkId]) => linkId)
+
+    if (linkIds.length === 0) return []
+    query = query.in('id', linkIds)
+  }
+
+  switch (filters.sortBy) {
+    case 'date-desc':
+      query = query.order('created_at', { ascending: false })
+      break
+    case 'date-asc':
+      query = query.order('created_at', { ascending: true })
+      break
+    default:
+      query = query
+        .order('rating', { ascending: false, nullsFirst: false })
+        .order('created_at', { ascending: false })
+  }
+
+  const { data, error } = await query.limit(MAX_SHARED_LINKS)
+  if (error) throw error
+  return (data || []) as SharedLinkRow[]
+}
+
+/**
+ * Links of the space with a tag, best rated first
+ */
+async function getTagLinks(
+  supabase: SupabaseClient,
+  owner: OwnerScope,
+  tagId: string
+): Promise<SharedLinkRow[]> {
+  return getSearchLinks(supabase, owner, { tagIds: [tagId] })
+}
+
+/**
+ * Live links of a collection in its manual order
+ */
+async function getCollectionLinks(
+  supabase: SupabaseClient,
+  owner: OwnerScope,
+  collectionId: string
+): Promise<SharedLinkRow[]> {
+  const { data: entries, error: entriesError } = await supabase
+    .from('collection_links')
+    .select('link_id')
+    .eq('collection_id', collectionId)
+    .order('position', { ascending: true })
+    .order('created_at', { ascending: true })
+    .limit(MAX_SHARED_LINKS)
+
+  if (entriesError) throw entriesError
+
+  const linkIds = (entries || []).map((entry) => entry.link_id as string)
+  if (linkIds.length === 0) return []
+
+  const { data: links, error } = await scopeQuery(
+    supabase.from('links').select(SHARED_LINK_FIELDS),
+    owner
+  )
+    .in('id', linkIds)
+    .is('deleted_at', null)
+
+  if (error) throw error
+
+  const linksById = new Map(((links || []) as SharedLinkRow[]).map((link) => [link.id, link]))
+  return linkIds
+    .map((linkId) => linksById.get(linkId))
+    .filter((link): link is SharedLinkRow => !!link)
+}
+
+/**
+ * Load the public page of a share token
+ * Returns null for unknown, revoked and expired tokens.
+ */
+export async function loadSharedPage(
+  supabase: SupabaseClient,
+  token: string
+): Promise<SharedPage | null> {
+  if (!isValidShareToken(token)) return null
+
+  const { data: share, error } = await supabase
+    .from('share_links')
+    .select('*')
+    .eq('token', token)
+    .maybeSingle<ShareLink>()
+
+  if (error) throw error
+  if (!share || !isShareActive(share)) return null
+
+  const owner = rowScope(share)
+  let title = share.title
+  let rows: SharedLinkRow[] = []
+
+  if (share.kind === 'tag' && share.tag_id) {
+    const { data: tag } = await scopeQuery(supabase.from('tags').select('name'), owner)
+      .eq('id', share.tag_id)
+      .maybeSingle()
+    if (!tag) return null
+
+    title = title || `#${tag.name}`
+    rows = await getTagLinks(supabase, owner, share.tag_id)
+  } else if (share.kind === 'collection' && share.collection_id) {
+    const { data: collection } = await scopeQuery(
+      supabase.from('collections').select('name'),
+      owner
+    )
+      .eq('id', share.collection_id)
+      .maybeSingle()
+    if (!collection) return null
+
+    title = title || collection.name
+    rows = await getCollectionLinks(supabase, owner, share.collection_id)
+  } else if (share.kind === 'search' && share.filters) {
+    title = title || 'Shared links'
+    rows = await getSearchLinks(supabase, owner, share.filters as ShareSearchFilters)
+  }
+
+  // Best effort - a failed counter update must not break the page
+  const { error: viewError } = await supabase
+    .from('share_links')
+    .update({ view_count: share.view_count + 1, last_viewed_at: new Date().toISOString() })
+    .eq('id', share.id)
+
+  if (viewError) {
+    console.error(`[Share] Failed to record view of share ${share.id}:`, viewError)
+  }
+
+  return { title: title || 'Shared links', links: rows.map(toSharedLink) }
+}
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest'
+import { generateShareToken, getShareExpiresAt, isShareActive, isValidShareToken } from './tokens'
+
+describe('generateShareToken', () => {
+  it('should create distinct URL-safe tokens', () => {
+    const first = generateShareToken()
+    const second = generateShareToken()
+
+    expect(first).not.toBe(second)
+    expect(isValidShareToken(first)).toBe(true)
+    expect(encodeURIComponent(first)).toBe(first)
+  })
+})
+
+describe('isValidShareToken', () => {
+  it('should reject malformed tokens', () => {
+    expect(isValidShareToken('')).toBe(false)
+    expect(isValidShareToken('short')).toBe(false)
+    expect(isValidShareToken('a'.repeat(31) + '/')).toBe(false)
+  })
+})
+
+describe('getShareExpiresAt', () => {
+  const now = new Date('2025-01-01T12:00:00.000Z')
+
+  it('should add the lifetime in days', () => {
+    expect(getShareExpiresAt(7, now)).toBe('2025-01-08T12:00:00.000Z')
+  })
+
+  it('should return null for links that never expire', () => {
+    expect(getShareExpiresAt(null, now)).toBeNull()
+  })
+})
+
+describe('isShareActive', () => {
+  const now = new Date('2025-01-01T12:00:00.000Z')
+
+  it('should accept links without expiry', () => {
+    expect(isShareActive({ revoked_at: null, expires_at: null }, now)).toBe(true)
+  })
+
+  it('should reject revoked links', () => {
+    expect(isShareActive({ revoked_at: '2024-12-31T00:00:00.000Z', expires_at: null }, now)).toBe(
+      false
+    )
+  })
+
+  it('should reject expired links', () => {
+    expect(isShareActive({ revoked_at: null, expires_at: '2025-01-01T11:59:59.000Z' }, now)).toBe(
+      false
+    )
+    expect(isShareActive({ revoked_at: null, expires_at: '2025-01-02T00:00:00.000Z' }, now)).toBe(
+      true
+    )
+  })
+})
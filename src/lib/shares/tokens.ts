@@ -0,0 +1,49 @@
+/**
+ * Tokens and lifetime of public share links (/s/<token>)
+ */
+
+// 24 random bytes = 192 bits, 32 characters in base64url
+const TOKEN_BYTES = 24
+
+// Lifetimes offered when creating a share link (null = never expires)
+export const SHARE_EXPIRY_OPTIONS = [1, 7, 30, 90] as const
+
+const TOKEN_PATTERN = /^[A-Za-z0-9_-]{32}$/
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Create an unguessable URL-safe token (Web Crypto, so it also runs outside Node)
+ */
+export function generateShareToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(TOKEN_BYTES))
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '')
+}
+
+/**
+ * Check the shape of a token before looking it up
+ */
+export function isValidShareToken(token: string): boolean {
+  return TOKEN_PATTERN.test(token)
+}
+
+/**
+ * Expiry timestamp for a lifetime in days, or null for a link that does not expire
+ */
+export function getShareExpiresAt(days: number | null, now: Date = new Date()): string | null {
+  return days === null ? null : new Date(now.getTime() + days * DAY_MS).toISOString()
+}
+
+/**
+ * A share link works until it is revoked or expires
+ */
+export function isShareActive(
+  share: { revoked_at: string | null; expires_at: string | null },
+  now: Date = new Date()
+): boolean {
+  if (share.revoked_at) return false
+  return !share.expires_at || new Date(share.expires_at).getTime() > now.getTime()
+}
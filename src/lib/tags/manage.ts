@@ -0,0 +1,305 @@
+/**
+ * Tag management shared by the dashboard (server actions) and the REST API
+ * Callers check that the user may change the space before calling the write helpers.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { assignTagsSchema, createTagSchema } from '@/lib/validations/tags'
+import { addEditedFields } from '@/lib/links/edited-fields'
+import { scopeOwner, scopeQuery, type OwnerScope } from '@/lib/workspaces/scope'
+
+/**
+ * Tags of a space with the number of links using them
+ */
+export async function listSpaceTags(supabase: SupabaseClient, scope: OwnerScope) {
+  // Fetch the space's tags with usage count
+  const { data: tags, error: fetchError } = await scopeQuery(
+    supabase.from('tags').select(
+      `
+      id,
+      name,
+      created_at,
+      link_tags (count)
+    `
+    ),
+    scope
+  )
+    .order('name', { ascending: true })
+
+  if (fetchError) {
+    console.error('Error fetching tags:', fetchError)
+    return { success: false, error: 'Failed to fetch tags', data: [] }
+  }
+
+  // Transform the data to include usage count
+  const tagsWithCount = tags.map((tag: any) => ({
+    ...tag,
+    usage_count: tag.link_tags?.[0]?.count || 0,
+  }))
+
+  return { success: true, data: tagsWithCount }
+}
+
+/**
+ * Create a tag in a space
+ */
+export async function createSpaceTag(supabase: SupabaseClient, scope: OwnerScope, name: string) {
+  // Validate input
+  const validation = createTagSchema.safeParse({ name })
+  if (!validation.success) {
+    return {
+      success: false,
+      error: validation.error.issues[0]?.message || 'Validation failed',
+    }
+  }
+
+  // Check if tag already exists (case-insensitive)
+  const { data: existingTag } = await scopeQuery(supabase.from('tags').select('id, name'), scope)
+    .ilike('name', name.toLowerCase())
+    .single()
+
+  if (existingTag) {
+    return {
+      success: false,
+      error: 'Tag already exists',
+      data: existingTag,
+    }
+  }
+
+  // Create tag
+  const { data: newTag, error: insertError } = await supabase
+    .from('tags')
+    .insert({
+      ...scopeOwner(scope),
+      name: name.toLowerCase(), // Will be converted to lowercase by trigger anyway
+    })
+    .select()
+    .single()
+
+  if (insertError) {
+    console.error('Error creating tag:', insertError)
+    return { success: false, error: 'Failed to create tag' }
+  }
+
+  return { success: true, data: newTag }
+}
+
+/**
+ * Replace the tags of a link in a space
+ */
+export async function assignSpaceTags(
+  supabase: SupabaseClient,
+  scope: OwnerScope,
+  linkId: string,
+  tagIds: string[]
+) {
+  // Validate input
+  const validation = assignTagsSchema.safeParse({ linkId, tagIds })
+  if (!validation.success) {
+    return {
+      success: false,
+      error: validation.error.issues[0]?.message || 'Validation failed',
+    }
+  }
+
+  // Verify the link is in the active space
+  const { data: link, error: linkError } = await scopeQuery(
+    supabase.from('links').select('id, user_edited_fields, link_tags(tag_id)'),
+    scope
+  )
+    .eq('id', linkId)
+    .single()
+
+  if (linkError || !link) {
+    return { success: false, error: 'Link not found' }
+  }
+
+  // Verify the tags are in the same space (the REST API writes with the service role)
+  if (tagIds.length > 0) {
+    const { data: tags, error: tagsError } = await scopeQuery(
+      supabase.from('tags').select('id'),
+      scope
+    ).in('id', tagIds)
+
+    if (tagsError || tags.length !== new Set(tagIds).size) {
+      return { success: false, error: 'Tags not found' }
+    }
+  }
+
+  // Remember a manual tag change so re-processing keeps the user's tags
+  const currentTagIds = (link.link_tags || []).map((lt: { tag_id: string }) => lt.tag_id)
+  const tagsChanged =
+    currentTagIds.length !== tagIds.length || tagIds.some((tagId) => !currentTagIds.includes(tagId))
+
+  // Remove existing tag associations
+  const { error: deleteError } = await supabase
+    .from('link_tags')
+    .delete()
+    .eq('link_id', linkId)
+
+  if (deleteError) {
+    console.error('Error removing old tags:', deleteError)
+    return { success: false, error: 'Failed to update tags' }
+  }
+
+  // Insert new tag associations
+  const linkTagsData = tagIds.map((tagId) => ({
+    link_id: linkId,
+    tag_id: tagId,
+  }))
+
+  const { error: insertError } = await supabase.from('link_tags').insert(linkTagsData)
+
+  if (insertError) {
+    console.error('Error assigning tags:', insertError)
+    return { success: false, error: 'Failed to assign tags' }
+  }
+
+  if (tagsChanged) {
+    await supabase
+      .from('links')
+      .update({ user_edited_fields: addEditedFields(link.user_edited_fields, ['tags']) })
+      .eq('id', linkId)
+  }
+
+  return { success: true }
+}
+
+/**
+ * Rename a tag of a space
+ */
+export async function renameSpaceTag(
+  supabase: SupabaseClient,
+  scope: OwnerScope,
+  tagId: string,
+  newName: string
+) {
+  // Validate new name
+  const validation = createTagSchema.safeParse({ name: newName })
+  if (!validation.success) {
+    return {
+      success: false,
+      error: validation.error.issues[0]?.message || 'Validation failed',
+    }
+  }
+
+  // Check if new name already exists (case-insensitive)
+  const { data: existingTag } = await scopeQuery(supabase.from('tags').select('id, name'), scope)
+    .ilike('name', newName.toLowerCase())
+    .neq('id', tagId) // Exclude current tag
+    .single()
+
+  if (existingTag) {
+    return {
+      success: false,
+      error: 'A tag with this name already exists',
+    }
+  }
+
+  // Update tag name
+  const { data: renamedTags, error: updateError } = await scopeQuery(
+    supabase.from('tags').update({ name: newName.toLowerCase() }),
+    scope
+  )
+    .eq('id', tagId)
+    .select('id')
+
+  if (updateError) {
+    console.error('Error renaming tag:', updateError)
+    return { success: false, error: 'Failed to rename tag' }
+  }
+
+  if (!renamedTags || renamedTags.length === 0) {
+    return { success: false, error: 'Tag not found' }
+  }
+
+  return { success: true }
+}
+
+/**
+ * Move the links of the source tag to the target tag and delete the source tag
+ */
+export async function mergeSpaceTags(
+  supabase: SupabaseClient,
+  scope: OwnerScope,
+  sourceTagId: string,
+  targetTagId: string
+) {
+  // Verify both tags are in the space
+  const { data: tags, error: tagsError } = await scopeQuery(
+    supabase.from('tags').select('id, name'),
+    scope
+  )
+    .in('id', [sourceTagId, targetTagId])
+
+  if (tagsError || tags.length !== 2) {
+    return { success: false, error: 'Tags not found' }
+  }
+
+  // Get all link_tags for source tag
+  const { data: linkTags, error: linkTagsError } = await supabase
+    .from('link_tags')
+    .select('link_id')
+    .eq('tag_id', sourceTagId)
+
+  if (linkTagsError) {
+    console.error('Error fetching link tags:', linkTagsError)
+    return { success: false, error: 'Failed to merge tags' }
+  }
+
+  if (linkTags && linkTags.length > 0) {
+    // For each link with source tag, check if it already has target tag
+    for (const linkTag of linkTags) {
+      const { data: existing } = await supabase
+        .from('link_tags')
+        .select('link_id')
+        .eq('link_id', linkTag.link_id)
+        .eq('tag_id', targetTagId)
+        .single()
+
+      // If link doesn't have target tag, add it
+      if (!existing) {
+        await supabase.from('link_tags').insert({
+          link_id: linkTag.link_id,
+          tag_id: targetTagId,
+        })
+      }
+    }
+  }
+
+  // Delete source tag (will cascade delete its link_tags)
+  const { error: deleteError } = await scopeQuery(supabase.from('tags').delete(), scope)
+    .eq('id', sourceTagId)
+
+  if (deleteError) {
+    console.error('Error deleting source tag:', deleteError)
+    return { success: false, error: 'Failed to complete merge' }
+  }
+
+  return { success: true }
+}
+
+/**
+ * Delete a tag of a space (its links are kept)
+ * Tags of other spaces count as not found.
+ */
+export async function deleteSpaceTag(supabase: SupabaseClient, scope: OwnerScope, tagId: string) {
+  // Delete tag (will cascade delete link_tags associations)
+  const { data: deletedTags, error: deleteError } = await scopeQuery(
+    supabase.from('tags').delete(),
+    scope
+  )
+    .eq('id', tagId)
+    .select('id')
+
+  if (deleteError) {
+    console.error('Error deleting tag:', deleteError)
+    return { success: false, error: 'Failed to delete tag' }
+  }
+
+  if (!deletedTags || deletedTags.length === 0) {
+    return { success: false, error: 'Tag not found' }
+  }
+
+  return { success: true }
+}
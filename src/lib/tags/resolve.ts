@@ -0,0 +1,54 @@
+/**
+ * Batch lookup/creation of tags by name, used by importers
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { scopeOwner, scopeQuery, type OwnerScope } from '@/lib/workspaces/scope'
+
+/**
+ * Find the space's tags with the given names and create the missing ones
+ * Names must already be valid tag names (see createTagSchema); they are matched lowercase.
+ * @returns Map of lowercase tag name -> tag ID (names that could not be created are left out)
+ */
+export async function getOrCreateTagIds(
+  supabase: SupabaseClient,
+  owner: OwnerScope,
+  names: string[]
+): Promise<Map<string, string>> {
+  const tagIds = new Map<string, string>()
+  const uniqueNames = Array.from(new Set(names.map((name) => name.toLowerCase().trim())))
+
+  if (uniqueNames.length === 0) {
+    return tagIds
+  }
+
+  const { data: existingTags, error: fetchError } = await scopeQuery(
+    supabase.from('tags').select('id, name'),
+    owner
+  ).in('name', uniqueNames)
+
+  if (fetchError) {
+    console.error('Error fetching tags:', fetchError)
+    return tagIds
+  }
+
+  existingTags?.forEach((tag) => tagIds.set(tag.name, tag.id))
+
+  const missingNames = uniqueNames.filter((name) => !tagIds.has(name))
+  if (missingNames.length === 0) {
+    return tagIds
+  }
+
+  const { data: newTags, error: insertError } = await supabase
+    .from('tags')
+    .insert(missingNames.map((name) => ({ ...scopeOwner(owner), name })))
+    .select('id, name')
+
+  if (insertError) {
+    console.error('Error creating tags:', insertError)
+    return tagIds
+  }
+
+  newTags?.forEach((tag) => tagIds.set(tag.name, tag.id))
+  return tagIds
+}
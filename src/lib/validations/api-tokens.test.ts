@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest'
+import { createApiTokenSchema } from './api-tokens'
+
+describe('createApiTokenSchema', () => {
+  it('should accept a named token with scopes', () => {
+    const result = createApiTokenSchema.safeParse({
+      name: '  Raycast ',
+      scopes: ['links:read', 'links:write', 'links:read'],
+      expiresInDays: 90,
+    })
+    expect(result.success).toBe(true)
+    if (result.success) {
+      expect(result.data.name).toBe('Raycast')
+      expect(result.data.scopes).toEqual(['links:read', 'links:write'])
+    }
+  })
+
+  it('should accept tokens that never expire', () => {
+    const result = createApiTokenSchema.safeParse({
+      name: 'CLI',
+      scopes: ['tags:read'],
+      expiresInDays: null,
+    })
+    expect(result.success).toBe(true)
+  })
+
+  it('should require at least one known scope', () => {
+    expect(
+      createApiTokenSchema.safeParse({ name: 'CLI', scopes: [], expiresInDays: null }).success
+    ).toBe(false)
+    expect(
+      createApiTokenSchema.safeParse({ name: 'CLI', scopes: ['admin'], expiresInDays: null }).success
+    ).toBe(false)
+  })
+
+  it('should reject an empty name and unknown lifetimes', () => {
+    expect(
+      createApiTokenSchema.safeParse({ name: '  ', scopes: ['tags:read'], expiresInDays: null })
+        .success
+    ).toBe(false)
+    expect(
+      createApiTokenSchema.safeParse({ name: 'CLI', scopes: ['tags:read'], expiresInDays: 7 })
+        .success
+    ).toBe(false)
+  })
+})
@@ -0,0 +1,26 @@
+import { z } from 'zod'
+import { API_SCOPES, API_TOKEN_EXPIRY_OPTIONS } from '@/lib/api/tokens'
+
+// Validation schemas for personal access tokens of the REST API
+export const createApiTokenSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Token name is required')
+    .max(100, 'Token name can be at most 100 characters'),
+  scopes: z
+    .array(z.enum(API_SCOPES))
+    .min(1, 'Select at least one scope')
+    .transform((scopes) => Array.from(new Set(scopes))),
+  expiresInDays: z
+    .number()
+    .int()
+    .refine((days) => (API_TOKEN_EXPIRY_OPTIONS as readonly number[]).includes(days), {
+      message: 'Invalid expiry',
+    })
+    .nullable(),
+})
+
+export const apiTokenIdSchema = z.object({
+  id: z.string().uuid(),
+})
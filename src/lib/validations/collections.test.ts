@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createCollectionSchema,
+  updateCollectionSchema,
+  reorderCollectionSchema,
+} from './collections'
+
+const ID_A = '123e4567-e89b-12d3-a456-426614174000'
+const ID_B = '123e4567-e89b-12d3-a456-426614174001'
+
+describe('createCollectionSchema', () => {
+  it('should accept a name with a description', () => {
+    const result = createCollectionSchema.safeParse({
+      name: '  Thesis research ',
+      description: 'Papers and articles',
+    })
+    expect(result.success).toBe(true)
+    if (result.success) {
+      expect(result.data.name).toBe('Thesis research')
+    }
+  })
+
+  it('should reject a blank name', () => {
+    const result = createCollectionSchema.safeParse({ name: '   ' })
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.error.issues[0].message).toBe('Collection name is required')
+    }
+  })
+
+  it('should reject a too long description', () => {
+    const result = createCollectionSchema.safeParse({ name: 'Ok', description: 'x'.repeat(501) })
+    expect(result.success).toBe(false)
+  })
+})
+
+describe('updateCollectionSchema', () => {
+  it('should allow clearing the description', () => {
+    expect(updateCollectionSchema.safeParse({ id: ID_A, description: null }).success).toBe(true)
+  })
+})
+
+describe('reorderCollectionSchema', () => {
+  it('should accept a new order', () => {
+    const result = reorderCollectionSchema.safeParse({ collectionId: ID_A, linkIds: [ID_B, ID_A] })
+    expect(result.success).toBe(true)
+  })
+
+  it('should reject repeated links', () => {
+    const result = reorderCollectionSchema.safeParse({ collectionId: ID_A, linkIds: [ID_B, ID_B] })
+    expect(result.success).toBe(false)
+  })
+})
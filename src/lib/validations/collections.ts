@@ -0,0 +1,47 @@
+import { z } from 'zod'
+
+// Links added, removed or reordered in one request
+export const MAX_COLLECTION_BATCH = 500
+
+const nameSchema = z
+  .string()
+  .trim()
+  .min(1, 'Collection name is required')
+  .max(100, 'Collection name can be at most 100 characters')
+
+const descriptionSchema = z
+  .string()
+  .trim()
+  .max(500, 'Description can be at most 500 characters')
+  .nullable()
+  .optional()
+
+// Validation schemas for collections
+export const createCollectionSchema = z.object({
+  name: nameSchema,
+  description: descriptionSchema,
+})
+
+export const updateCollectionSchema = z.object({
+  id: z.string().uuid(),
+  name: nameSchema.optional(),
+  description: descriptionSchema,
+})
+
+export const deleteCollectionSchema = z.object({
+  id: z.string().uuid(),
+})
+
+export const collectionLinksSchema = z.object({
+  collectionId: z.string().uuid(),
+  linkIds: z
+    .array(z.string().uuid())
+    .min(1, 'Select at least one link')
+    .max(MAX_COLLECTION_BATCH, `At most ${MAX_COLLECTION_BATCH} links at once`),
+})
+
+// The new order lists every link once
+export const reorderCollectionSchema = collectionLinksSchema.refine(
+  (data) => new Set(data.linkIds).size === data.linkIds.length,
+  { message: 'Each link can appear only once', path: ['linkIds'] }
+)
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest'
+import { createHighlightSchema, updateHighlightSchema } from './highlights'
+
+const validHighlight = {
+  linkId: '123e4567-e89b-12d3-a456-426614174000',
+  quote: 'lazy dog',
+  prefix: 'jumps over the ',
+  suffix: '. Later',
+  startOffset: 35,
+  endOffset: 43,
+  comment: 'Classic',
+}
+
+describe('createHighlightSchema', () => {
+  it('should accept a valid highlight', () => {
+    expect(createHighlightSchema.safeParse(validHighlight).success).toBe(true)
+    expect(createHighlightSchema.safeParse({ ...validHighlight, comment: null }).success).toBe(true)
+  })
+
+  it('should reject an empty quote', () => {
+    const result = createHighlightSchema.safeParse({ ...validHighlight, quote: '', endOffset: 35 })
+    expect(result.success).toBe(false)
+  })
+
+  it('should reject offsets that do not match the quote', () => {
+    const result = createHighlightSchema.safeParse({ ...validHighlight, endOffset: 50 })
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.error.issues[0].message).toBe('Highlight position does not match the selected text')
+    }
+  })
+
+  it('should reject a too long context', () => {
+    const result = createHighlightSchema.safeParse({ ...validHighlight, prefix: 'x'.repeat(33) })
+    expect(result.success).toBe(false)
+  })
+})
+
+describe('updateHighlightSchema', () => {
+  it('should reject a too long comment', () => {
+    const result = updateHighlightSchema.safeParse({
+      id: validHighlight.linkId,
+      comment: 'x'.repeat(1001),
+    })
+    expect(result.success).toBe(false)
+  })
+})
@@ -0,0 +1,43 @@
+import { z } from 'zod'
+import {
+  ANCHOR_CONTEXT_LENGTH,
+  MAX_HIGHLIGHT_COMMENT_LENGTH,
+  MAX_HIGHLIGHT_LENGTH,
+} from '@/lib/highlights/anchors'
+
+const commentSchema = z
+  .string()
+  .max(
+    MAX_HIGHLIGHT_COMMENT_LENGTH,
+    `Comments can be at most ${MAX_HIGHLIGHT_COMMENT_LENGTH} characters`
+  )
+  .nullable()
+  .optional()
+
+// Validation schemas for highlights on archived pages
+export const createHighlightSchema = z
+  .object({
+    linkId: z.string().uuid(),
+    quote: z
+      .string()
+      .min(1, 'Select some text to highlight')
+      .max(MAX_HIGHLIGHT_LENGTH, `Highlights can be at most ${MAX_HIGHLIGHT_LENGTH} characters`),
+    prefix: z.string().max(ANCHOR_CONTEXT_LENGTH),
+    suffix: z.string().max(ANCHOR_CONTEXT_LENGTH),
+    startOffset: z.number().int().min(0),
+    endOffset: z.number().int(),
+    comment: commentSchema,
+  })
+  .refine((data) => data.endOffset - data.startOffset === data.quote.length, {
+    message: 'Highlight position does not match the selected text',
+    path: ['endOffset'],
+  })
+
+export const updateHighlightSchema = z.object({
+  id: z.string().uuid(),
+  comment: commentSchema,
+})
+
+export const deleteHighlightSchema = z.object({
+  id: z.string().uuid(),
+})
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest'
-import { createLinkSchema, updateLinkSchema, deleteLinkSchema } from './links'
+import { createLinkSchema, updateLinkSchema, deleteLinkSchema, restoreLinkSchema, mergeDuplicatesSchema, setReadingStateSchema, snoozeLinkSchema, reprocessLinksSchema, bulkTagsSchema, bulkRatingSchema, bulkImportSchema, bookmarkImportBatchSchema } from './links'
 
 describe('createLinkSchema', () => {
   it('should accept valid URL', () => {
@@ -161,6 +161,25 @@ describe('updateLinkSchema', () => {
     expect(result.success).toBe(true)
   })
 
+  it('should accept markdown notes and null to clear them', () => {
+    expect(updateLinkSchema.safeParse({ id: validUuid, notes: '# Notes\n\n- point' }).success).toBe(true)
+    expect(updateLinkSchema.safeParse({ id: validUuid, notes: null }).success).toBe(true)
+  })
+
+  it('should reject notes longer than 10000 characters', () => {
+    const result = updateLinkSchema.safeParse({
+      id: validUuid,
+      notes: 'a'.repeat(10001),
+    })
+    expect(result.success).toBe(false)
+  })
+
+  it('should accept a reminder date and null to clear it', () => {
+    expect(updateLinkSchema.safeParse({ id: validUuid, remind_at: '2025-07-01T00:00:00.000Z' }).success).toBe(true)
+    expect(updateLinkSchema.safeParse({ id: validUuid, remind_at: null }).success).toBe(true)
+    expect(updateLinkSchema.safeParse({ id: validUuid, remind_at: 'tomorrow' }).success).toBe(false)
+  })
+
   it('should reject rating below 1', () => {
     const result = updateLinkSchema.safeParse({
       id: validUuid,
@@ -224,3 +243,230 @@ describe('deleteLinkSchema', () => {
     expect(result.success).toBe(false)
   })
 })
+
+describe('restoreLinkSchema', () => {
+  const validId = '123e4567-e89b-12d3-a456-426614174000'
+
+  it('should accept a link ID without a conflict strategy', () => {
+    const result = restoreLinkSchema.safeParse({ id: validId })
+    expect(result.success).toBe(true)
+  })
+
+  it('should accept replace and merge strategies', () => {
+    expect(restoreLinkSchema.safeParse({ id: validId, onConflict: 'replace' }).success).toBe(true)
+    expect(restoreLinkSchema.safeParse({ id: validId, onConflict: 'merge' }).success).toBe(true)
+  })
+
+  it('should reject unknown strategies', () => {
+    const result = restoreLinkSchema.safeParse({ id: validId, onConflict: 'overwrite' })
+    expect(result.success).toBe(false)
+  })
+
+  it('should reject invalid UUIDs', () => {
+    const result = restoreLinkSchema.safeParse({ id: 'not-a-uuid' })
+    expect(result.success).toBe(false)
+  })
+})
+
+describe('mergeDuplicatesSchema', () => {
+  const firstId = '123e4567-e89b-12d3-a456-426614174000'
+  const secondId = '123e4567-e89b-12d3-a456-426614174001'
+
+  it('should accept two links and the one to keep', () => {
+    const result = mergeDuplicatesSchema.safeParse({ linkIds: [firstId, secondId], keepId: secondId })
+    expect(result.success).toBe(true)
+  })
+
+  it('should reject a single link', () => {
+    const result = mergeDuplicatesSchema.safeParse({ linkIds: [firstId], keepId: firstId })
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.error.issues[0].message).toBe('Select at least two links to merge')
+    }
+  })
+
+  it('should reject a kept link outside the merged links', () => {
+    const result = mergeDuplicatesSchema.safeParse({
+      linkIds: [firstId, firstId.replace(/0$/, '2')],
+      keepId: secondId,
+    })
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.error.issues[0].message).toBe('The link to keep must be one of the merged links')
+    }
+  })
+})
+
+describe('setReadingStateSchema', () => {
+  const validUuid = '123e4567-e89b-12d3-a456-426614174000'
+
+  it('should accept every reading state', () => {
+    for (const state of ['unread', 'reading', 'read', 'archived']) {
+      expect(setReadingStateSchema.safeParse({ id: validUuid, state }).success).toBe(true)
+    }
+  })
+
+  it('should reject unknown states', () => {
+    expect(setReadingStateSchema.safeParse({ id: validUuid, state: 'done' }).success).toBe(false)
+  })
+})
+
+describe('snoozeLinkSchema', () => {
+  const validUuid = '123e4567-e89b-12d3-a456-426614174000'
+
+  it('should accept whole days up to a year', () => {
+    expect(snoozeLinkSchema.safeParse({ id: validUuid, days: 1 }).success).toBe(true)
+    expect(snoozeLinkSchema.safeParse({ id: validUuid, days: 365 }).success).toBe(true)
+  })
+
+  it('should reject zero, fractional and too long snoozes', () => {
+    expect(snoozeLinkSchema.safeParse({ id: validUuid, days: 0 }).success).toBe(false)
+    expect(snoozeLinkSchema.safeParse({ id: validUuid, days: 1.5 }).success).toBe(false)
+    expect(snoozeLinkSchema.safeParse({ id: validUuid, days: 366 }).success).toBe(false)
+  })
+})
+
+describe('reprocessLinksSchema', () => {
+  const validId = '123e4567-e89b-12d3-a456-426614174000'
+
+  it('should accept a list of link IDs', () => {
+    const result = reprocessLinksSchema.safeParse({
+      linkIds: [validId],
+      keepEdits: true,
+    })
+    expect(result.success).toBe(true)
+  })
+
+  it('should reject an empty list', () => {
+    const result = reprocessLinksSchema.safeParse({
+      linkIds: [],
+      keepEdits: true,
+    })
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.error.issues[0].message).toBe('Select at least one link')
+    }
+  })
+
+  it('should reject more than 100 links', () => {
+    const result = reprocessLinksSchema.safeParse({
+      linkIds: Array(101).fill(validId),
+      keepEdits: false,
+    })
+    expect(result.success).toBe(false)
+  })
+
+  it('should reject invalid UUIDs', () => {
+    const result = reprocessLinksSchema.safeParse({
+      linkIds: ['not-a-uuid'],
+      keepEdits: true,
+    })
+    expect(result.success).toBe(false)
+  })
+
+  it('should require keepEdits', () => {
+    const result = reprocessLinksSchema.safeParse({
+      linkIds: [validId],
+    })
+    expect(result.success).toBe(false)
+  })
+})
+
+describe('bulkTagsSchema', () => {
+  const validId = '123e4567-e89b-12d3-a456-426614174000'
+
+  it('should accept links and tags', () => {
+    const result = bulkTagsSchema.safeParse({ linkIds: [validId], tagIds: [validId] })
+    expect(result.success).toBe(true)
+  })
+
+  it('should require at least one tag', () => {
+    const result = bulkTagsSchema.safeParse({ linkIds: [validId], tagIds: [] })
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.error.issues[0].message).toBe('Select at least one tag')
+    }
+  })
+
+  it('should reject more than 100 links', () => {
+    const result = bulkTagsSchema.safeParse({
+      linkIds: Array(101).fill(validId),
+      tagIds: [validId],
+    })
+    expect(result.success).toBe(false)
+  })
+})
+
+describe('bulkRatingSchema', () => {
+  const validId = '123e4567-e89b-12d3-a456-426614174000'
+
+  it('should accept a rating or null to clear it', () => {
+    expect(bulkRatingSchema.safeParse({ linkIds: [validId], rating: 4 }).success).toBe(true)
+    expect(bulkRatingSchema.safeParse({ linkIds: [validId], rating: null }).success).toBe(true)
+  })
+
+  it('should reject ratings outside 1-5', () => {
+    expect(bulkRatingSchema.safeParse({ linkIds: [validId], rating: 0 }).success).toBe(false)
+    expect(bulkRatingSchema.safeParse({ linkIds: [validId], rating: 6 }).success).toBe(false)
+  })
+})
+
+describe('bulkImportSchema', () => {
+  it('should accept text with links', () => {
+    const result = bulkImportSchema.safeParse({
+      text: 'https://example.com and https://example.org',
+    })
+    expect(result.success).toBe(true)
+  })
+
+  it('should reject whitespace-only text', () => {
+    const result = bulkImportSchema.safeParse({ text: '   \n  ' })
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.error.issues[0].message).toBe('Paste some text containing links')
+    }
+  })
+
+  it('should reject text over 100,000 characters', () => {
+    const result = bulkImportSchema.safeParse({ text: 'a'.repeat(100001) })
+    expect(result.success).toBe(false)
+  })
+})
+
+describe('bookmarkImportBatchSchema', () => {
+  const entry = {
+    url: 'https://example.com',
+    title: 'Example',
+    addDate: '2023-11-14T22:13:20.000Z',
+    tags: ['dev', 'tools libs'],
+  }
+
+  it('should accept a batch of bookmarks', () => {
+    const result = bookmarkImportBatchSchema.safeParse({ bookmarks: [entry], processWithAi: false })
+    expect(result.success).toBe(true)
+  })
+
+  it('should accept bookmarks without title and date', () => {
+    const result = bookmarkImportBatchSchema.safeParse({
+      bookmarks: [{ ...entry, title: null, addDate: null, tags: [] }],
+      processWithAi: true,
+    })
+    expect(result.success).toBe(true)
+  })
+
+  it('should reject invalid tag names', () => {
+    const result = bookmarkImportBatchSchema.safeParse({
+      bookmarks: [{ ...entry, tags: ['tools & libs'] }],
+      processWithAi: false,
+    })
+    expect(result.success).toBe(false)
+  })
+
+  it('should reject batches over 100 bookmarks', () => {
+    const result = bookmarkImportBatchSchema.safeParse({
+      bookmarks: Array(101).fill(entry),
+      processWithAi: false,
+    })
+    expect(result.success).toBe(false)
+  })
+})
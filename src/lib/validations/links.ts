@@ -1,4 +1,6 @@
 import { z } from 'zod'
+import { createTagSchema } from './tags'
+import { MAX_NOTES_LENGTH } from '@/lib/links/markdown'
 
 // Validation schemas for links
 export const createLinkSchema = z.object({
@@ -12,8 +14,108 @@ export const updateLinkSchema = z.object({
   title: z.string().optional(),
   ai_description: z.string().max(280).optional(),
   rating: z.number().min(1).max(5).nullable().optional(),
+  notes: z
+    .string()
+    .max(MAX_NOTES_LENGTH, `Notes can be at most ${MAX_NOTES_LENGTH} characters`)
+    .nullable()
+    .optional(),
+  remind_at: z.string().datetime({ offset: true }).nullable().optional(),
 })
 
 export const deleteLinkSchema = z.object({
   id: z.string().uuid(),
 })
+
+// Restoring from the trash can conflict with a live link that has the same URL
+export const restoreLinkSchema = z.object({
+  id: z.string().uuid(),
+  onConflict: z.enum(['replace', 'merge']).optional(),
+})
+
+// Merging near-duplicates keeps one link and moves the rest to the trash
+export const mergeDuplicatesSchema = z
+  .object({
+    linkIds: z
+      .array(z.string().uuid())
+      .min(2, 'Select at least two links to merge')
+      .max(50, 'You can merge up to 50 links at once'),
+    keepId: z.string().uuid(),
+  })
+  .refine((data) => data.linkIds.includes(data.keepId), {
+    message: 'The link to keep must be one of the merged links',
+    path: ['keepId'],
+  })
+
+// Re-processing runs the scraping + AI pipeline again for existing links
+export const reprocessLinksSchema = z.object({
+  linkIds: z
+    .array(z.string().uuid())
+    .min(1, 'Select at least one link')
+    .max(100, 'You can re-process up to 100 links at once'),
+  keepEdits: z.boolean(),
+})
+
+// Bulk actions on the dashboard selection
+export const bulkLinksSchema = z.object({
+  linkIds: z
+    .array(z.string().uuid())
+    .min(1, 'Select at least one link')
+    .max(100, 'You can change up to 100 links at once'),
+})
+
+export const bulkTagsSchema = bulkLinksSchema.extend({
+  tagIds: z
+    .array(z.string().uuid())
+    .min(1, 'Select at least one tag')
+    .max(10, 'Maximum 10 tags allowed'),
+})
+
+export const bulkRatingSchema = bulkLinksSchema.extend({
+  rating: z.number().int().min(1).max(5).nullable(),
+})
+
+export const readingStateSchema = z.enum(['unread', 'reading', 'read', 'archived'])
+
+export const setReadingStateSchema = z.object({
+  id: z.string().uuid(),
+  state: readingStateSchema,
+})
+
+// Snoozing hides a link from the Today section until the given number of days passed
+export const snoozeLinkSchema = z.object({
+  id: z.string().uuid(),
+  days: z.number().int().min(1, 'Snooze for at least one day').max(365, 'Snooze for at most a year'),
+})
+
+// Bulk import takes a free-form text blob and extracts the URLs from it
+export const bulkImportSchema = z.object({
+  text: z
+    .string()
+    .trim()
+    .min(1, 'Paste some text containing links')
+    .max(100000, 'Text is too long (max 100,000 characters)'),
+})
+
+// Bookmark file import - entries are parsed in the browser and sent in batches
+// Bookmarks one user can import per day (also enforced per batch by importBookmarkBatch)
+export const MAX_BOOKMARK_IMPORT = 5000
+
+export const bookmarkImportEntrySchema = z.object({
+  url: z.string().min(1, 'URL is required'),
+  title: z.string().nullable(),
+  addDate: z.string().datetime().nullable(),
+  tags: z.array(createTagSchema.shape.name).max(10, 'Maximum 10 tags allowed'),
+})
+
+export const bookmarkImportPreviewSchema = z.object({
+  urls: z
+    .array(z.string())
+    .min(1, 'No bookmarks found in the file')
+    .max(MAX_BOOKMARK_IMPORT, `You can import up to ${MAX_BOOKMARK_IMPORT} bookmarks at once`),
+  tags: z.array(createTagSchema.shape.name),
+})
+
+export const bookmarkImportBatchSchema = z.object({
+  bookmarks: z.array(bookmarkImportEntrySchema).min(1).max(100),
+  processWithAi: z.boolean(),
+})
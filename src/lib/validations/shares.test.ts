@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest'
+import { createShareLinkSchema } from './shares'
+
+const validId = '123e4567-e89b-12d3-a456-426614174000'
+
+describe('createShareLinkSchema', () => {
+  it('should accept a tag share without expiry', () => {
+    const result = createShareLinkSchema.safeParse({
+      kind: 'tag',
+      tagId: validId,
+      expiresInDays: null,
+    })
+    expect(result.success).toBe(true)
+  })
+
+  it('should accept a saved search share', () => {
+    const result = createShareLinkSchema.safeParse({
+      kind: 'search',
+      filters: { query: 'k8s', tagIds: [validId], readingStates: ['unread'], sortBy: 'rating' },
+      title: '  Reading list ',
+      expiresInDays: 30,
+    })
+    expect(result.success).toBe(true)
+    if (result.success) {
+      expect(result.data.title).toBe('Reading list')
+    }
+  })
+
+  it('should require the target of the kind', () => {
+    const result = createShareLinkSchema.safeParse({
+      kind: 'collection',
+      tagId: validId,
+      expiresInDays: null,
+    })
+    expect(result.success).toBe(false)
+  })
+
+  it('should only accept the offered lifetimes', () => {
+    const result = createShareLinkSchema.safeParse({
+      kind: 'tag',
+      tagId: validId,
+      expiresInDays: 5,
+    })
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.error.issues[0].message).toBe('Invalid expiry')
+    }
+  })
+})
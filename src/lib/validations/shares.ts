@@ -0,0 +1,51 @@
+import { z } from 'zod'
+import { SHARE_EXPIRY_OPTIONS } from '@/lib/shares/tokens'
+import { readingStateSchema } from './links'
+
+const titleSchema = z
+  .string()
+  .trim()
+  .max(100, 'Title can be at most 100 characters')
+  .nullable()
+  .optional()
+
+const expiresInDaysSchema = z
+  .number()
+  .int()
+  .refine((days) => (SHARE_EXPIRY_OPTIONS as readonly number[]).includes(days), {
+    message: 'Invalid expiry',
+  })
+  .nullable()
+
+export const shareSearchFiltersSchema = z.object({
+  query: z.string().trim().max(200).optional(),
+  tagIds: z.array(z.string().uuid()).max(10).optional(),
+  readingStates: z.array(readingStateSchema).optional(),
+  sortBy: z.enum(['rating', 'date-desc', 'date-asc']).optional(),
+})
+
+// Validation schemas for public share links
+export const createShareLinkSchema = z.discriminatedUnion('kind', [
+  z.object({
+    kind: z.literal('tag'),
+    tagId: z.string().uuid(),
+    title: titleSchema,
+    expiresInDays: expiresInDaysSchema,
+  }),
+  z.object({
+    kind: z.literal('collection'),
+    collectionId: z.string().uuid(),
+    title: titleSchema,
+    expiresInDays: expiresInDaysSchema,
+  }),
+  z.object({
+    kind: z.literal('search'),
+    filters: shareSearchFiltersSchema,
+    title: titleSchema,
+    expiresInDays: expiresInDaysSchema,
+  }),
+])
+
+export const shareLinkIdSchema = z.object({
+  id: z.string().uuid(),
+})
@@ -9,6 +9,10 @@ export const createTagSchema = z.object({
     .regex(/^[a-z0-9\s-]+$/i, 'Tag can only contain letters, numbers, spaces, and hyphens'),
 })
 
+export const tagIdSchema = z.object({
+  id: z.string().uuid(),
+})
+
 export const assignTagsSchema = z.object({
   linkId: z.string().uuid(),
   tagIds: z.array(z.string().uuid()).max(10, 'Maximum 10 tags allowed'),
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest'
+import { createWebhookEndpointSchema, updateWebhookEndpointSchema } from './webhooks'
+
+describe('createWebhookEndpointSchema', () => {
+  it('should accept an endpoint with events', () => {
+    const result = createWebhookEndpointSchema.safeParse({
+      url: ' https://example.com/hooks/taglink ',
+      description: '  Zapier ',
+      events: ['link.created', 'tag.merged', 'link.created'],
+    })
+    expect(result.success).toBe(true)
+    if (result.success) {
+      expect(result.data.url).toBe('https://example.com/hooks/taglink')
+      expect(result.data.description).toBe('Zapier')
+      expect(result.data.events).toEqual(['link.created', 'tag.merged'])
+    }
+  })
+
+  it('should store an empty description as null', () => {
+    const result = createWebhookEndpointSchema.safeParse({
+      url: 'https://example.com/hook',
+      description: '   ',
+      events: ['link.deleted'],
+    })
+    expect(result.success).toBe(true)
+    if (result.success) {
+      expect(result.data.description).toBeNull()
+    }
+  })
+
+  it('should reject non-http URLs', () => {
+    expect(
+      createWebhookEndpointSchema.safeParse({ url: 'ftp://example.com', events: ['tag.created'] })
+        .success
+    ).toBe(false)
+    expect(
+      createWebhookEndpointSchema.safeParse({ url: 'not a url', events: ['tag.created'] }).success
+    ).toBe(false)
+  })
+
+  it('should require at least one known event', () => {
+    expect(
+      createWebhookEndpointSchema.safeParse({ url: 'https://example.com', events: [] }).success
+    ).toBe(false)
+    expect(
+      createWebhookEndpointSchema.safeParse({ url: 'https://example.com', events: ['link.read'] })
+        .success
+    ).toBe(false)
+  })
+})
+
+describe('updateWebhookEndpointSchema', () => {
+  it('should accept toggling an endpoint', () => {
+    const result = updateWebhookEndpointSchema.safeParse({
+      id: '123e4567-e89b-12d3-a456-426614174000',
+      active: false,
+    })
+    expect(result.success).toBe(true)
+  })
+
+  it('should reject an empty event list', () => {
+    const result = updateWebhookEndpointSchema.safeParse({
+      id: '123e4567-e89b-12d3-a456-426614174000',
+      events: [],
+    })
+    expect(result.success).toBe(false)
+  })
+})
@@ -0,0 +1,38 @@
+import { z } from 'zod'
+import { WEBHOOK_EVENTS } from '@/lib/webhooks/events'
+
+// Validation schemas for webhook endpoints
+const webhookEventsSchema = z
+  .array(z.enum(WEBHOOK_EVENTS))
+  .min(1, 'Select at least one event')
+  .transform((events) => Array.from(new Set(events)))
+
+export const createWebhookEndpointSchema = z.object({
+  url: z
+    .string()
+    .trim()
+    .url('Invalid URL format')
+    .max(2000, 'URL can be at most 2000 characters')
+    .refine((url) => /^https?:\/\//i.test(url), 'Only HTTP/HTTPS URLs are supported'),
+  description: z
+    .string()
+    .trim()
+    .max(100, 'Description can be at most 100 characters')
+    .optional()
+    .transform((description) => description || null),
+  events: webhookEventsSchema,
+})
+
+export const updateWebhookEndpointSchema = z.object({
+  id: z.string().uuid(),
+  active: z.boolean().optional(),
+  events: webhookEventsSchema.optional(),
+})
+
+export const webhookEndpointIdSchema = z.object({
+  id: z.string().uuid(),
+})
+
+export const webhookDeliveryIdSchema = z.object({
+  id: z.string().uuid(),
+})
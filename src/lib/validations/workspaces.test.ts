@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest'
+import { createInvitationSchema, createWorkspaceSchema, updateMemberRoleSchema } from './workspaces'
+
+const ID_A = '123e4567-e89b-12d3-a456-426614174000'
+const ID_B = '123e4567-e89b-12d3-a456-426614174001'
+
+describe('createWorkspaceSchema', () => {
+  it('should trim the name', () => {
+    const result = createWorkspaceSchema.safeParse({ name: '  Design team ' })
+    expect(result.success).toBe(true)
+    if (result.success) {
+      expect(result.data.name).toBe('Design team')
+    }
+  })
+
+  it('should reject a blank name', () => {
+    const result = createWorkspaceSchema.safeParse({ name: '   ' })
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.error.issues[0].message).toBe('Workspace name is required')
+    }
+  })
+})
+
+describe('createInvitationSchema', () => {
+  it('should normalize the email address', () => {
+    const result = createInvitationSchema.safeParse({
+      workspaceId: ID_A,
+      email: ' Ana@Example.com ',
+      role: 'editor',
+    })
+    expect(result.success).toBe(true)
+    if (result.success) {
+      expect(result.data.email).toBe('ana@example.com')
+    }
+  })
+
+  it('should reject an invalid email address', () => {
+    const result = createInvitationSchema.safeParse({
+      workspaceId: ID_A,
+      email: 'not-an-email',
+      role: 'viewer',
+    })
+    expect(result.success).toBe(false)
+  })
+
+  it('should not invite straight in as owner', () => {
+    const result = createInvitationSchema.safeParse({
+      workspaceId: ID_A,
+      email: 'ana@example.com',
+      role: 'owner',
+    })
+    expect(result.success).toBe(false)
+  })
+})
+
+describe('updateMemberRoleSchema', () => {
+  it('should accept every role', () => {
+    for (const role of ['owner', 'editor', 'viewer']) {
+      expect(updateMemberRoleSchema.safeParse({ workspaceId: ID_A, userId: ID_B, role }).success).toBe(
+        true
+      )
+    }
+  })
+})
@@ -0,0 +1,41 @@
+import { z } from 'zod'
+
+const nameSchema = z
+  .string()
+  .trim()
+  .min(1, 'Workspace name is required')
+  .max(100, 'Workspace name can be at most 100 characters')
+
+// Owners are made by the workspace itself or by promoting a member
+const invitedRoleSchema = z.enum(['editor', 'viewer'])
+
+// Validation schemas for workspaces
+export const createWorkspaceSchema = z.object({
+  name: nameSchema,
+})
+
+export const renameWorkspaceSchema = z.object({
+  id: z.string().uuid(),
+  name: nameSchema,
+})
+
+export const workspaceIdSchema = z.object({
+  id: z.string().uuid(),
+})
+
+export const updateMemberRoleSchema = z.object({
+  workspaceId: z.string().uuid(),
+  userId: z.string().uuid(),
+  role: z.enum(['owner', 'editor', 'viewer']),
+})
+
+export const removeMemberSchema = z.object({
+  workspaceId: z.string().uuid(),
+  userId: z.string().uuid(),
+})
+
+export const createInvitationSchema = z.object({
+  workspaceId: z.string().uuid(),
+  email: z.string().trim().toLowerCase().email('Enter a valid email address').max(255),
+  role: invitedRoleSchema,
+})
@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest'
+import {
+  getDeliveryRetryDelay,
+  getNextDeliveryAt,
+  shouldRetryDelivery,
+  MAX_DELIVERY_ATTEMPTS,
+} from './backoff'
+
+describe('getDeliveryRetryDelay', () => {
+  it('should wait a minute after the first attempt', () => {
+    expect(getDeliveryRetryDelay(1)).toBe(60 * 1000)
+  })
+
+  it('should grow exponentially with each attempt', () => {
+    expect(getDeliveryRetryDelay(2)).toBe(5 * 60 * 1000)
+    expect(getDeliveryRetryDelay(3)).toBe(25 * 60 * 1000)
+  })
+})
+
+describe('shouldRetryDelivery', () => {
+  it('should retry until the attempt limit is reached', () => {
+    expect(shouldRetryDelivery(1)).toBe(true)
+    expect(shouldRetryDelivery(MAX_DELIVERY_ATTEMPTS - 1)).toBe(true)
+    expect(shouldRetryDelivery(MAX_DELIVERY_ATTEMPTS)).toBe(false)
+  })
+})
+
+describe('getNextDeliveryAt', () => {
+  it('should add the retry delay to the given time', () => {
+    const now = new Date('2025-01-01T12:00:00.000Z')
+    expect(getNextDeliveryAt(2, now)).toBe('2025-01-01T12:05:00.000Z')
+  })
+})
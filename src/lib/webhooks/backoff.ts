@@ -0,0 +1,35 @@
+/**
+ * Retry policy for webhook deliveries
+ */
+
+// Total number of attempts before a delivery is marked as failed
+export const MAX_DELIVERY_ATTEMPTS = 6
+
+// First retry after 1 minute, then 5 minutes, 25 minutes, ~2 hours, ~10 hours
+const BASE_RETRY_DELAY_MS = 60 * 1000
+const RETRY_MULTIPLIER = 5
+
+/**
+ * Delay before the next attempt after `attempt` failed attempts
+ * @param attempt - Number of attempts made so far (1-based)
+ * @returns Delay in milliseconds
+ */
+export function getDeliveryRetryDelay(attempt: number): number {
+  const exponent = Math.max(0, attempt - 1)
+  return BASE_RETRY_DELAY_MS * Math.pow(RETRY_MULTIPLIER, exponent)
+}
+
+/**
+ * Check if a failed delivery should be retried or given up on
+ * @param attempt - Number of attempts made so far (1-based)
+ */
+export function shouldRetryDelivery(attempt: number): boolean {
+  return attempt < MAX_DELIVERY_ATTEMPTS
+}
+
+/**
+ * Compute the ISO timestamp of the next attempt
+ */
+export function getNextDeliveryAt(attempt: number, now: Date = new Date()): string {
+  return new Date(now.getTime() + getDeliveryRetryDelay(attempt)).toISOString()
+}
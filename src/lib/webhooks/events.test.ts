@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest'
+import { getLinkEventData } from './events'
+
+describe('getLinkEventData', () => {
+  it('should keep the public link fields', () => {
+    expect(
+      getLinkEventData({
+        id: 'link-1',
+        url: 'https://example.com',
+        title: 'Example',
+        notes: 'private',
+        scraped_content: 'page text',
+        workspace_id: null,
+      })
+    ).toEqual({ id: 'link-1', url: 'https://example.com', title: 'Example', workspace_id: null })
+  })
+
+  it('should work with only the ID', () => {
+    expect(getLinkEventData({ id: 'link-1' })).toEqual({ id: 'link-1' })
+  })
+})
@@ -0,0 +1,52 @@
+/**
+ * Events that can be sent to webhook endpoints
+ */
+
+import type { Link } from '@/types'
+
+export const WEBHOOK_EVENTS = [
+  'link.created',
+  'link.processed',
+  'link.updated',
+  'link.deleted',
+  'link.restored',
+  'tag.created',
+  'tag.merged',
+  'tag.deleted',
+] as const
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number]
+
+// Body of every delivery - `data` depends on the event
+export interface WebhookPayload {
+  id: string // Delivery ID, also sent as X-TagLink-Delivery
+  event: WebhookEvent
+  created_at: string
+  data: Record<string, unknown>
+}
+
+// Link fields sent with link events - notes and scraped content stay private
+const LINK_EVENT_FIELDS = [
+  'id',
+  'url',
+  'title',
+  'ai_description',
+  'rating',
+  'reading_state',
+  'workspace_id',
+  'created_at',
+] as const
+
+/**
+ * `data.link` of a link event, with the fields that are known at the time of the event
+ */
+export function getLinkEventData(
+  link: Pick<Link, 'id'> & Partial<Link>
+): Record<string, unknown> {
+  return Object.fromEntries(
+    LINK_EVENT_FIELDS.filter((field) => link[field] !== undefined).map((field) => [
+      field,
+      link[field],
+    ])
+  )
+}
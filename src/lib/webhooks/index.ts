@@ -0,0 +1,296 @@
+/**
+ * Webhook delivery queue (webhook_deliveries)
+ * An event becomes one delivery per subscribed endpoint of the user. Deliveries are sent right
+ * after the response (emitWebhookEvent) and retried with backoff by /api/cron/deliver-webhooks.
+ */
+
+import { after } from 'next/server'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Json } from '@/types/database.types'
+import type { WebhookDelivery } from '@/types'
+import { getNextDeliveryAt, shouldRetryDelivery, MAX_DELIVERY_ATTEMPTS } from './backoff'
+import { signWebhookPayload, SIGNATURE_HEADER } from './signature'
+import type { WebhookEvent, WebhookPayload } from './events'
+
+// Receivers have to answer quickly - slow work belongs in their own queue
+const DELIVERY_TIMEOUT_MS = 10 * 1000
+
+export interface DeliverWebhooksOptions {
+  userId?: string // Only deliveries of this user (inline runs)
+  maxDeliveries?: number
+}
+
+export interface DeliverWebhooksSummary {
+  sent: number
+  succeeded: number
+  retried: number
+  failed: number
+}
+
+type DeliveryOutcome = 'succeeded' | 'retried' | 'failed'
+
+interface EndpointTarget {
+  id: string
+  url: string
+  secret: string
+  active: boolean
+}
+
+/**
+ * Queue an event for every active endpoint of the user subscribed to it
+ * @returns IDs of the queued deliveries
+ */
+export async function queueWebhookEvent(
+  supabase: SupabaseClient,
+  userId: string,
+  event: WebhookEvent,
+  data: Record<string, unknown>
+): Promise<string[]> {
+  return queueWebhookEvents(supabase, userId, event, [data])
+}
+
+/**
+ * Queue one event per entry of `items` (bulk actions, imports) with a single insert
+ * @returns IDs of the queued deliveries
+ */
+export async function queueWebhookEvents(
+  supabase: SupabaseClient,
+  userId: string,
+  event: WebhookEvent,
+  items: Record<string, unknown>[]
+): Promise<string[]> {
+  if (items.length === 0) {
+    return []
+  }
+
+  const { data: endpoints, error: fetchError } = await supabase
+    .from('webhook_endpoints')
+    .select('id')
+    .eq('user_id', userId)
+    .eq('active', true)
+    .contains('events', [event])
+
+  if (fetchError) {
+    console.error('Error fetching webhook endpoints:', fetchError)
+    return []
+  }
+
+  if (!endpoints || endpoints.length === 0) {
+    return []
+  }
+
+  const createdAt = new Date().toISOString()
+  const deliveries = items.flatMap((data) =>
+    endpoints.map((endpoint) => {
+      const id = crypto.randomUUID()
+      const payload: WebhookPayload = { id, event, created_at: createdAt, data }
+      return {
+        id,
+        endpoint_id: endpoint.id,
+        user_id: userId,
+        event,
+        payload: payload as unknown as Json,
+      }
+    })
+  )
+
+  const { error: insertError } = await supabase.from('webhook_deliveries').insert(deliveries)
+
+  if (insertError) {
+    console.error('Error queueing webhook deliveries:', insertError)
+    return []
+  }
+
+  return deliveries.map((delivery) => delivery.id)
+}
+
+/**
+ * Queue an event and send it after the response
+ * For server actions and route handlers - background workers queue with queueWebhookEvent.
+ */
+export function emitWebhookEvent(
+  supabase: SupabaseClient,
+  userId: string,
+  event: WebhookEvent,
+  data: Record<string, unknown>
+): void {
+  emitWebhookEvents(supabase, userId, event, [data])
+}
+
+/**
+ * Queue one event per entry of `items` and send them after the response
+ */
+export function emitWebhookEvents(
+  supabase: SupabaseClient,
+  userId: string,
+  event: WebhookEvent,
+  items: Record<string, unknown>[]
+): void {
+  if (items.length === 0) return
+
+  after(async () => {
+    try {
+      const queued = await queueWebhookEvents(supabase, userId, event, items)
+      if (queued.length > 0) {
+        await deliverPendingWebhooks(supabase, { userId })
+      }
+    } catch (error) {
+      // Queued deliveries are picked up by the cron worker
+      console.error(`[Webhooks] Inline delivery of ${event} failed:`, error)
+    }
+  })
+}
+
+/**
+ * Claim due deliveries (pending -> sending) so parallel runs never send one twice
+ */
+async function claimDeliveries(
+  supabase: SupabaseClient,
+  options: { userId?: string; limit: number }
+): Promise<WebhookDelivery[]> {
+  const { data, error } = await supabase.rpc('claim_webhook_deliveries', {
+    p_limit: options.limit,
+    p_user_id: options.userId ?? null,
+  })
+
+  if (error) {
+    console.error('Error claiming webhook deliveries:', error)
+    return []
+  }
+
+  return (data as WebhookDelivery[]) || []
+}
+
+/**
+ * Store the result of an attempt and schedule a retry when attempts are left
+ */
+async function recordAttempt(
+  supabase: SupabaseClient,
+  delivery: WebhookDelivery,
+  result: { ok: boolean; responseStatus: number | null; error: string | null }
+): Promise<DeliveryOutcome> {
+  let outcome: DeliveryOutcome = 'succeeded'
+  let update: Record<string, unknown> = {
+    status: 'succeeded',
+    response_status: result.responseStatus,
+    last_error: null,
+  }
+
+  if (!result.ok) {
+    outcome = shouldRetryDelivery(delivery.attempts) ? 'retried' : 'failed'
+    update = {
+      status: outcome === 'retried' ? 'pending' : 'failed',
+      response_status: result.responseStatus,
+      last_error: result.error?.substring(0, 500) ?? null,
+      ...(outcome === 'retried' && { next_attempt_at: getNextDeliveryAt(delivery.attempts) }),
+    }
+  }
+
+  const { error } = await supabase.from('webhook_deliveries').update(update).eq('id', delivery.id)
+  if (error) {
+    console.error(`Error saving webhook delivery ${delivery.id}:`, error)
+  }
+
+  return outcome
+}
+
+/**
+ * POST a signed delivery to its endpoint
+ * Any 2xx answer counts as delivered; redirects are not followed.
+ */
+async function sendDelivery(
+  supabase: SupabaseClient,
+  delivery: WebhookDelivery,
+  endpoint: EndpointTarget | undefined
+): Promise<DeliveryOutcome> {
+  if (!endpoint || !endpoint.active) {
+    // Nothing to retry - the endpoint was turned off after the event was queued
+    const { error } = await supabase
+      .from('webhook_deliveries')
+      .update({ status: 'failed', last_error: 'Endpoint is disabled' })
+      .eq('id', delivery.id)
+    if (error) {
+      console.error(`Error saving webhook delivery ${delivery.id}:`, error)
+    }
+    return 'failed'
+  }
+
+  const body = JSON.stringify(delivery.payload)
+
+  try {
+    const response = await fetch(endpoint.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'TagLink-Webhooks/1.0',
+        'X-TagLink-Event': delivery.event,
+        'X-TagLink-Delivery': delivery.id,
+        [SIGNATURE_HEADER]: await signWebhookPayload(endpoint.secret, body),
+      },
+      body,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    })
+
+    const ok = response.status >= 200 && response.status < 300
+    return recordAttempt(supabase, delivery, {
+      ok,
+      responseStatus: response.status,
+      error: ok ? null : `Endpoint answered HTTP ${response.status}`,
+    })
+  } catch (error) {
+    const message =
+      error instanceof Error && error.name === 'TimeoutError'
+        ? `No answer within ${DELIVERY_TIMEOUT_MS / 1000} seconds`
+        : error instanceof Error
+          ? error.message
+          : 'Request failed'
+    return recordAttempt(supabase, delivery, { ok: false, responseStatus: null, error: message })
+  }
+}
+
+/**
+ * Send due deliveries until none are left or maxDeliveries have been sent
+ */
+export async function deliverPendingWebhooks(
+  supabase: SupabaseClient,
+  options: DeliverWebhooksOptions = {}
+): Promise<DeliverWebhooksSummary> {
+  const { userId, maxDeliveries = 20 } = options
+  const summary: DeliverWebhooksSummary = { sent: 0, succeeded: 0, retried: 0, failed: 0 }
+
+  while (summary.sent < maxDeliveries) {
+    const deliveries = await claimDeliveries(supabase, {
+      userId,
+      limit: Math.min(10, maxDeliveries - summary.sent),
+    })
+    if (deliveries.length === 0) break
+
+    const endpointIds = Array.from(new Set(deliveries.map((delivery) => delivery.endpoint_id)))
+    const { data: endpoints, error } = await supabase
+      .from('webhook_endpoints')
+      .select('id, url, secret, active')
+      .in('id', endpointIds)
+
+    if (error) {
+      // Claimed rows go back to the queue once they count as stale
+      console.error('Error fetching webhook endpoints:', error)
+      break
+    }
+
+    for (const delivery of deliveries) {
+      const endpoint = (endpoints as EndpointTarget[]).find((item) => item.id === delivery.endpoint_id)
+      const outcome = await sendDelivery(supabase, delivery, endpoint)
+
+      summary.sent++
+      summary[outcome]++
+      if (outcome === 'failed') {
+        console.warn(
+          `[Webhooks] Delivery ${delivery.id} failed after ${delivery.attempts}/${MAX_DELIVERY_ATTEMPTS} attempts`
+        )
+      }
+    }
+  }
+
+  return summary
+}
@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest'
+import { generateWebhookSecret, signWebhookPayload } from './signature'
+
+describe('generateWebhookSecret', () => {
+  it('should create distinct prefixed secrets', () => {
+    const first = generateWebhookSecret()
+
+    expect(first).toMatch(/^whsec_[A-Za-z0-9_-]{32}$/)
+    expect(first).not.toBe(generateWebhookSecret())
+  })
+})
+
+describe('signWebhookPayload', () => {
+  it('should sign the timestamp and body with HMAC-SHA256', async () => {
+    expect(await signWebhookPayload('secret', '{"a":1}', 1700000000)).toBe(
+      't=1700000000,v1=49f24e537407743fa4a0242bb63b94b9a47ee99cbbe071ccd8a22550ae411686'
+    )
+  })
+
+  it('should change with the timestamp', async () => {
+    const first = await signWebhookPayload('secret', '{"a":1}', 1700000000)
+    const second = await signWebhookPayload('secret', '{"a":1}', 1700000001)
+
+    expect(first.split('v1=')[1]).not.toBe(second.split('v1=')[1])
+  })
+})
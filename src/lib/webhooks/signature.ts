@@ -0,0 +1,41 @@
+/**
+ * HMAC signatures of webhook deliveries
+ * Header: `X-TagLink-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">`
+ * Receivers recompute the HMAC with the endpoint secret and reject old timestamps.
+ */
+
+import { generateShareToken } from '@/lib/shares/tokens'
+
+export const SIGNATURE_HEADER = 'X-TagLink-Signature'
+
+/**
+ * Create a new endpoint secret
+ */
+export function generateWebhookSecret(): string {
+  return `whsec_${generateShareToken()}`
+}
+
+async function hmacHex(secret: string, message: string): Promise<string> {
+  const encoder = new TextEncoder()
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  )
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(message))
+  return Array.from(new Uint8Array(signature), (byte) => byte.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * Signature header value for a request body
+ * @param timestamp - Unix time in seconds
+ */
+export async function signWebhookPayload(
+  secret: string,
+  body: string,
+  timestamp: number = Math.floor(Date.now() / 1000)
+): Promise<string> {
+  return `t=${timestamp},v1=${await hmacHex(secret, `${timestamp}.${body}`)}`
+}
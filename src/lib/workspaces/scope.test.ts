@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest'
+import {
+  canEditContent,
+  canManageWorkspace,
+  getInvitationExpiresAt,
+  isLastOwner,
+  rowScope,
+  scopeOwner,
+  scopeQuery,
+} from './scope'
+
+// Records the filters scopeQuery adds
+function createBuilder() {
+  const filters: string[] = []
+  const builder = {
+    eq(column: string, value: string) {
+      filters.push(`${column}=${value}`)
+      return builder
+    },
+    is(column: string, value: null) {
+      filters.push(`${column} is ${value}`)
+      return builder
+    },
+  }
+  return { builder, filters }
+}
+
+describe('scopeQuery', () => {
+  it('should limit the personal space to the user and rows without a workspace', () => {
+    const { builder, filters } = createBuilder()
+    scopeQuery(builder, { userId: 'user-1', workspaceId: null })
+    expect(filters).toEqual(['user_id=user-1', 'workspace_id is null'])
+  })
+
+  it('should limit a workspace to its rows, whoever created them', () => {
+    const { builder, filters } = createBuilder()
+    scopeQuery(builder, { userId: 'user-1', workspaceId: 'ws-1' })
+    expect(filters).toEqual(['workspace_id=ws-1'])
+  })
+})
+
+describe('scopeOwner and rowScope', () => {
+  it('should round-trip the owner of a row', () => {
+    const owner = { userId: 'user-1', workspaceId: 'ws-1' }
+    expect(rowScope(scopeOwner(owner))).toEqual(owner)
+  })
+
+  it('should treat rows without a workspace as personal', () => {
+    expect(rowScope({ user_id: 'user-1' })).toEqual({ userId: 'user-1', workspaceId: null })
+  })
+})
+
+describe('roles', () => {
+  it('should let owners and editors change content', () => {
+    expect(canEditContent('owner')).toBe(true)
+    expect(canEditContent('editor')).toBe(true)
+    expect(canEditContent('viewer')).toBe(false)
+  })
+
+  it('should let only owners manage the workspace', () => {
+    expect(canManageWorkspace('owner')).toBe(true)
+    expect(canManageWorkspace('editor')).toBe(false)
+  })
+})
+
+describe('isLastOwner', () => {
+  it('should detect the only owner', () => {
+    const members = [
+      { user_id: 'a', role: 'owner' as const },
+      { user_id: 'b', role: 'editor' as const },
+    ]
+    expect(isLastOwner(members, 'a')).toBe(true)
+    expect(isLastOwner(members, 'b')).toBe(false)
+  })
+
+  it('should allow an owner to leave when there is another owner', () => {
+    const members = [
+      { user_id: 'a', role: 'owner' as const },
+      { user_id: 'b', role: 'owner' as const },
+    ]
+    expect(isLastOwner(members, 'a')).toBe(false)
+  })
+})
+
+describe('invitations', () => {
+  const now = new Date('2025-01-01T12:00:00.000Z')
+
+  it('should expire after a week', () => {
+    expect(getInvitationExpiresAt(now)).toBe('2025-01-08T12:00:00.000Z')
+  })
+})
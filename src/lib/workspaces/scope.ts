@@ -0,0 +1,98 @@
+/**
+ * Spaces that own links, tags and collections
+ * Every user has a personal space (workspace_id null) and can be a member of shared
+ * workspaces. Rows keep user_id as their creator; the workspace decides who sees them.
+ */
+
+import type { WorkspaceRole } from '@/types'
+
+// Cookie holding the ID of the workspace picked in the switcher (absent = personal space)
+export const WORKSPACE_COOKIE = 'taglink-workspace'
+
+// How long an invitation link stays valid
+export const INVITATION_EXPIRY_DAYS = 7
+
+export const READ_ONLY_ERROR = 'You have view-only access to this workspace'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Owner of content: the creator and the workspace it lives in
+ */
+export interface OwnerScope {
+  userId: string
+  workspaceId: string | null // null = personal space of userId
+}
+
+/**
+ * Space the signed-in user is working in, with their role there
+ */
+export interface WorkspaceScope extends OwnerScope {
+  role: WorkspaceRole // Always 'owner' in the personal space
+}
+
+// The part of a Supabase filter builder scopeQuery needs. Kept loose on purpose:
+// matching the builder's generic filter signatures is too deep for untyped clients.
+interface ScopeFilterable {
+  eq(column: string, value: string): ScopeFilterable
+  is(column: string, value: null): ScopeFilterable
+}
+
+/**
+ * Limit a query to the rows of a space
+ * Personal rows also match on user_id - RLS would allow nothing else, but the
+ * service role (cron workers) sees every user's rows.
+ */
+export function scopeQuery<T extends { eq: unknown; is: unknown }>(query: T, scope: OwnerScope): T {
+  const builder = query as unknown as ScopeFilterable
+  const scoped = scope.workspaceId
+    ? builder.eq('workspace_id', scope.workspaceId)
+    : builder.eq('user_id', scope.userId).is('workspace_id', null)
+  return scoped as unknown as T
+}
+
+/**
+ * Ownership columns of a new row in the space
+ */
+export function scopeOwner(scope: OwnerScope): { user_id: string; workspace_id: string | null } {
+  return { user_id: scope.userId, workspace_id: scope.workspaceId }
+}
+
+/**
+ * Owner scope of an existing row (e.g. a link picked up by a background worker)
+ */
+export function rowScope(row: { user_id: string; workspace_id?: string | null }): OwnerScope {
+  return { userId: row.user_id, workspaceId: row.workspace_id ?? null }
+}
+
+/**
+ * Can the role change links, tags and collections
+ */
+export function canEditContent(role: WorkspaceRole): boolean {
+  return role === 'owner' || role === 'editor'
+}
+
+/**
+ * Can the role rename the workspace and manage its members and invitations
+ */
+export function canManageWorkspace(role: WorkspaceRole): boolean {
+  return role === 'owner'
+}
+
+/**
+ * Would the workspace be left without an owner after a member changes role or leaves
+ */
+export function isLastOwner(
+  members: { user_id: string; role: WorkspaceRole }[],
+  userId: string
+): boolean {
+  const owners = members.filter((member) => member.role === 'owner')
+  return owners.length === 1 && owners[0].user_id === userId
+}
+
+/**
+ * Expiry timestamp of an invitation created now
+ */
+export function getInvitationExpiresAt(now: Date = new Date()): string {
+  return new Date(now.getTime() + INVITATION_EXPIRY_DAYS * DAY_MS).toISOString()
+}
@@ -0,0 +1,62 @@
+/**
+ * Active workspace of the signed-in user (server side)
+ */
+
+import { cookies } from 'next/headers'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { WorkspaceRole } from '@/types'
+import { WORKSPACE_COOKIE, type WorkspaceScope } from './scope'
+
+/**
+ * Resolve the workspace picked in the switcher
+ * Falls back to the personal space when no workspace is picked or the user
+ * is no longer a member of it.
+ */
+export async function getWorkspaceScope(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<WorkspaceScope> {
+  const personal: WorkspaceScope = { userId, workspaceId: null, role: 'owner' }
+
+  const cookieStore = await cookies()
+  const workspaceId = cookieStore.get(WORKSPACE_COOKIE)?.value
+  if (!workspaceId) {
+    return personal
+  }
+
+  const { data: membership, error } = await supabase
+    .from('workspace_members')
+    .select('role')
+    .eq('workspace_id', workspaceId)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error || !membership) {
+    return personal
+  }
+
+  return { userId, workspaceId, role: membership.role as WorkspaceRole }
+}
+
+/**
+ * Remember the workspace picked in the switcher (null = personal space)
+ * Only callable from server actions and route handlers.
+ */
+export async function setWorkspaceCookie(workspaceId: string | null): Promise<void> {
+  const cookieStore = await cookies()
+
+  if (!workspaceId) {
+    cookieStore.delete(WORKSPACE_COOKIE)
+    return
+  }
+
+  cookieStore.set({
+    name: WORKSPACE_COOKIE,
+    value: workspaceId,
+    path: '/',
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    maxAge: 60 * 60 * 24 * 365,
+  })
+}
@@ -8,6 +8,11 @@ export async function middleware(request: NextRequest) {
     return NextResponse.next()
   }
 
+  // Public share pages (/s/<token>) are read without a session
+  if (pathname.startsWith('/s/')) {
+    return NextResponse.next()
+  }
+
   // Check if Supabase env vars are set
   if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY) {
     console.error('Missing Supabase environment variables in middleware')
@@ -101,7 +106,9 @@ export async function middleware(request: NextRequest) {
       request.nextUrl.pathname.startsWith('/links') ||
       request.nextUrl.pathname.startsWith('/tags') ||
       request.nextUrl.pathname.startsWith('/profile') ||
-      request.nextUrl.pathname.startsWith('/settings')) {
+      request.nextUrl.pathname.startsWith('/settings') ||
+      request.nextUrl.pathname.startsWith('/trash') ||
+      request.nextUrl.pathname.startsWith('/workspaces')) {
     if (!user) {
       return NextResponse.redirect(new URL('/login', request.url))
     }
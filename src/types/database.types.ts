@@ -13,17 +13,34 @@ export interface Database {
         Row: {
           id: string
           user_id: string
+          workspace_id: string | null
           url: string
           normalized_url: string
           domain: string
           title: string | null
           ai_description: string | null
+          notes: string | null
           scraped_content: string | null
           rating: number | null
           ai_processing_status: 'pending' | 'processing' | 'completed' | 'failed'
           ai_processing_started_at: string | null
           ai_processing_completed_at: string | null
           ai_processing_error: string | null
+          ai_processing_attempts: number
+          ai_processing_next_attempt_at: string | null
+          user_edited_fields: string[]
+          reading_state: 'unread' | 'reading' | 'read' | 'archived'
+          reading_started_at: string | null
+          read_at: string | null
+          archived_at: string | null
+          remind_at: string | null
+          resurface_dismissed_at: string | null
+          health_status: 'unchecked' | 'ok' | 'broken'
+          health_status_code: number | null
+          health_final_url: string | null
+          health_error: string | null
+          health_failures: number
+          health_checked_at: string | null
           deleted_at: string | null
           created_at: string
           updated_at: string
@@ -31,17 +48,34 @@ export interface Database {
         Insert: {
           id?: string
           user_id: string
+          workspace_id?: string | null
           url: string
           normalized_url?: string
           domain?: string
           title?: string | null
           ai_description?: string | null
+          notes?: string | null
           scraped_content?: string | null
           rating?: number | null
           ai_processing_status?: 'pending' | 'processing' | 'completed' | 'failed'
           ai_processing_started_at?: string | null
           ai_processing_completed_at?: string | null
           ai_processing_error?: string | null
+          ai_processing_attempts?: number
+          ai_processing_next_attempt_at?: string | null
+          user_edited_fields?: string[]
+          reading_state?: 'unread' | 'reading' | 'read' | 'archived'
+          reading_started_at?: string | null
+          read_at?: string | null
+          archived_at?: string | null
+          remind_at?: string | null
+          resurface_dismissed_at?: string | null
+          health_status?: 'unchecked' | 'ok' | 'broken'
+          health_status_code?: number | null
+          health_final_url?: string | null
+          health_error?: string | null
+          health_failures?: number
+          health_checked_at?: string | null
           deleted_at?: string | null
           created_at?: string
           updated_at?: string
@@ -49,17 +83,34 @@ export interface Database {
         Update: {
           id?: string
           user_id?: string
+          workspace_id?: string | null
           url?: string
           normalized_url?: string
           domain?: string
           title?: string | null
           ai_description?: string | null
+          notes?: string | null
           scraped_content?: string | null
           rating?: number | null
           ai_processing_status?: 'pending' | 'processing' | 'completed' | 'failed'
           ai_processing_started_at?: string | null
           ai_processing_completed_at?: string | null
           ai_processing_error?: string | null
+          ai_processing_attempts?: number
+          ai_processing_next_attempt_at?: string | null
+          user_edited_fields?: string[]
+          reading_state?: 'unread' | 'reading' | 'read' | 'archived'
+          reading_started_at?: string | null
+          read_at?: string | null
+          archived_at?: string | null
+          remind_at?: string | null
+          resurface_dismissed_at?: string | null
+          health_status?: 'unchecked' | 'ok' | 'broken'
+          health_status_code?: number | null
+          health_final_url?: string | null
+          health_error?: string | null
+          health_failures?: number
+          health_checked_at?: string | null
           deleted_at?: string | null
           created_at?: string
           updated_at?: string
@@ -69,6 +120,7 @@ export interface Database {
         Row: {
           id: string
           user_id: string
+          workspace_id: string | null
           name: string
           created_at: string
           updated_at: string
@@ -76,6 +128,7 @@ export interface Database {
         Insert: {
           id?: string
           user_id: string
+          workspace_id?: string | null
           name: string
           created_at?: string
           updated_at?: string
@@ -83,6 +136,7 @@ export interface Database {
         Update: {
           id?: string
           user_id?: string
+          workspace_id?: string | null
           name?: string
           created_at?: string
           updated_at?: string
@@ -128,6 +182,443 @@ export interface Database {
           details?: Json | null
         }
       }
+      link_import_usage: {
+        Row: {
+          id: string
+          user_id: string
+          links: number
+          ai_links: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          links: number
+          ai_links?: number
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          links?: number
+          ai_links?: number
+          created_at?: string
+        }
+      }
+      link_import_queue: {
+        Row: {
+          id: string
+          user_id: string
+          workspace_id: string | null
+          url: string
+          normalized_url: string
+          title: string | null
+          status: 'queued' | 'created' | 'duplicate' | 'invalid' | 'failed'
+          error: string | null
+          attempts: number
+          created_at: string
+          processed_at: string | null
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          workspace_id?: string | null
+          url: string
+          normalized_url: string
+          title?: string | null
+          status?: 'queued' | 'created' | 'duplicate' | 'invalid' | 'failed'
+          error?: string | null
+          attempts?: number
+          created_at?: string
+          processed_at?: string | null
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          workspace_id?: string | null
+          url?: string
+          normalized_url?: string
+          title?: string | null
+          status?: 'queued' | 'created' | 'duplicate' | 'invalid' | 'failed'
+          error?: string | null
+          attempts?: number
+          created_at?: string
+          processed_at?: string | null
+        }
+      }
+      link_archives: {
+        Row: {
+          link_id: string
+          user_id: string
+          source_url: string
+          title: string | null
+          byline: string | null
+          content_html: string
+          content_text: string
+          word_count: number
+          archived_at: string
+        }
+        Insert: {
+          link_id: string
+          user_id: string
+          source_url: string
+          title?: string | null
+          byline?: string | null
+          content_html: string
+          content_text: string
+          word_count?: number
+          archived_at?: string
+        }
+        Update: {
+          link_id?: string
+          user_id?: string
+          source_url?: string
+          title?: string | null
+          byline?: string | null
+          content_html?: string
+          content_text?: string
+          word_count?: number
+          archived_at?: string
+        }
+      }
+      link_highlights: {
+        Row: {
+          id: string
+          link_id: string
+          user_id: string
+          quote: string
+          prefix: string
+          suffix: string
+          start_offset: number
+          end_offset: number
+          comment: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          link_id: string
+          user_id: string
+          quote: string
+          prefix?: string
+          suffix?: string
+          start_offset: number
+          end_offset: number
+          comment?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          link_id?: string
+          user_id?: string
+          quote?: string
+          prefix?: string
+          suffix?: string
+          start_offset?: number
+          end_offset?: number
+          comment?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      collections: {
+        Row: {
+          id: string
+          user_id: string
+          workspace_id: string | null
+          name: string
+          description: string | null
+          position: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          workspace_id?: string | null
+          name: string
+          description?: string | null
+          position?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          workspace_id?: string | null
+          name?: string
+          description?: string | null
+          position?: number
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      collection_links: {
+        Row: {
+          collection_id: string
+          link_id: string
+          position: number
+          created_at: string
+        }
+        Insert: {
+          collection_id: string
+          link_id: string
+          position?: number
+          created_at?: string
+        }
+        Update: {
+          collection_id?: string
+          link_id?: string
+          position?: number
+          created_at?: string
+        }
+      }
+      share_links: {
+        Row: {
+          id: string
+          user_id: string
+          workspace_id: string | null
+          token: string
+          kind: 'tag' | 'collection' | 'search'
+          tag_id: string | null
+          collection_id: string | null
+          filters: Json | null
+          title: string | null
+          expires_at: string | null
+          revoked_at: string | null
+          view_count: number
+          last_viewed_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          workspace_id?: string | null
+          token: string
+          kind: 'tag' | 'collection' | 'search'
+          tag_id?: string | null
+          collection_id?: string | null
+          filters?: Json | null
+          title?: string | null
+          expires_at?: string | null
+          revoked_at?: string | null
+          view_count?: number
+          last_viewed_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          workspace_id?: string | null
+          token?: string
+          kind?: 'tag' | 'collection' | 'search'
+          tag_id?: string | null
+          collection_id?: string | null
+          filters?: Json | null
+          title?: string | null
+          expires_at?: string | null
+          revoked_at?: string | null
+          view_count?: number
+          last_viewed_at?: string | null
+          created_at?: string
+        }
+      }
+      workspaces: {
+        Row: {
+          id: string
+          name: string
+          created_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      workspace_members: {
+        Row: {
+          workspace_id: string
+          user_id: string
+          role: 'owner' | 'editor' | 'viewer'
+          created_at: string
+        }
+        Insert: {
+          workspace_id: string
+          user_id: string
+          role: 'owner' | 'editor' | 'viewer'
+          created_at?: string
+        }
+        Update: {
+          workspace_id?: string
+          user_id?: string
+          role?: 'owner' | 'editor' | 'viewer'
+          created_at?: string
+        }
+      }
+      workspace_invitations: {
+        Row: {
+          id: string
+          workspace_id: string
+          email: string
+          role: 'editor' | 'viewer'
+          token: string
+          invited_by: string
+          expires_at: string
+          accepted_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          workspace_id: string
+          email: string
+          role: 'editor' | 'viewer'
+          token: string
+          invited_by: string
+          expires_at: string
+          accepted_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          workspace_id?: string
+          email?: string
+          role?: 'editor' | 'viewer'
+          token?: string
+          invited_by?: string
+          expires_at?: string
+          accepted_at?: string | null
+          created_at?: string
+        }
+      }
+      personal_access_tokens: {
+        Row: {
+          id: string
+          user_id: string
+          workspace_id: string | null
+          name: string
+          token_hash: string
+          token_prefix: string
+          scopes: string[]
+          last_used_at: string | null
+          expires_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          workspace_id?: string | null
+          name: string
+          token_hash: string
+          token_prefix: string
+          scopes: string[]
+          last_used_at?: string | null
+          expires_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          workspace_id?: string | null
+          name?: string
+          token_hash?: string
+          token_prefix?: string
+          scopes?: string[]
+          last_used_at?: string | null
+          expires_at?: string | null
+          created_at?: string
+        }
+      }
+      webhook_endpoints: {
+        Row: {
+          id: string
+          user_id: string
+          url: string
+          description: string | null
+          secret: string
+          events: string[]
+          active: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          url: string
+          description?: string | null
+          secret: string
+          events: string[]
+          active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          url?: string
+          description?: string | null
+          secret?: string
+          events?: string[]
+          active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      webhook_deliveries: {
+        Row: {
+          id: string
+          endpoint_id: string
+          user_id: string
+          event: string
+          payload: Json
+          status: 'pending' | 'sending' | 'succeeded' | 'failed'
+          attempts: number
+          next_attempt_at: string
+          last_attempt_at: string | null
+          response_status: number | null
+          last_error: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          endpoint_id: string
+          user_id: string
+          event: string
+          payload: Json
+          status?: 'pending' | 'sending' | 'succeeded' | 'failed'
+          attempts?: number
+          next_attempt_at?: string
+          last_attempt_at?: string | null
+          response_status?: number | null
+          last_error?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          endpoint_id?: string
+          user_id?: string
+          event?: string
+          payload?: Json
+          status?: 'pending' | 'sending' | 'succeeded' | 'failed'
+          attempts?: number
+          next_attempt_at?: string
+          last_attempt_at?: string | null
+          response_status?: number | null
+          last_error?: string | null
+          created_at?: string
+        }
+      }
     }
     Views: {
       [_ in never]: never
@@ -4,9 +4,28 @@ export type Link = Database['public']['Tables']['links']['Row']
 export type Tag = Database['public']['Tables']['tags']['Row']
 export type LinkTag = Database['public']['Tables']['link_tags']['Row']
 export type RateLimitViolation = Database['public']['Tables']['rate_limit_violations']['Row']
+export type LinkArchive = Database['public']['Tables']['link_archives']['Row']
+export type LinkHighlight = Database['public']['Tables']['link_highlights']['Row']
+export type Collection = Database['public']['Tables']['collections']['Row']
+export type ShareLink = Database['public']['Tables']['share_links']['Row']
+export type Workspace = Database['public']['Tables']['workspaces']['Row']
+export type WorkspaceMember = Database['public']['Tables']['workspace_members']['Row']
+export type WorkspaceInvitation = Database['public']['Tables']['workspace_invitations']['Row']
+export type PersonalAccessToken = Database['public']['Tables']['personal_access_tokens']['Row']
+export type WebhookEndpoint = Database['public']['Tables']['webhook_endpoints']['Row']
+export type WebhookDelivery = Database['public']['Tables']['webhook_deliveries']['Row']
 
 export type LinkStatus = 'pending' | 'processing' | 'completed' | 'failed'
 
+// Read-later queue state of a link
+export type ReadingState = 'unread' | 'reading' | 'read' | 'archived'
+
+// Result of the periodic dead-link check
+export type LinkHealthStatus = 'unchecked' | 'ok' | 'broken'
+
+// Fields the user changed by hand - re-processing keeps them unless asked not to
+export type EditableLinkField = 'title' | 'ai_description' | 'tags'
+
 export interface LinkWithTags extends Link {
   tags?: Tag[]
   link_tags?: Array<{
@@ -29,9 +48,146 @@ export interface UpdateLinkInput {
   title?: string
   ai_description?: string
   rating?: number
+  notes?: string | null
+  remind_at?: string | null
   tag_ids?: string[]
 }
 
+// Bulk import (pasted text)
+export type BulkImportStatus = 'created' | 'duplicate' | 'invalid' | 'rate_limited' | 'failed'
+
+export interface BulkImportItem {
+  url: string
+  status: BulkImportStatus
+  message?: string
+}
+
+export interface BulkImportResult {
+  items: BulkImportItem[]
+  counts: Record<BulkImportStatus, number>
+}
+
+// Bookmark file import (Netscape bookmarks.html)
+export interface BookmarkImportEntry {
+  url: string
+  title: string | null
+  addDate: string | null // ISO timestamp, used as created_at
+  tags: string[]
+}
+
+export interface BookmarkImportPreview {
+  totalBookmarks: number
+  newLinks: number
+  duplicates: number
+  invalid: number
+  tagsToCreate: string[]
+  existingTags: number
+}
+
+export interface BookmarkImportBatchResult {
+  created: number
+  duplicates: number
+  invalid: number
+  overLimit: number // Not imported - the daily import cap was reached
+  withoutAi: number // Imported without AI processing - the hourly limit was reached
+}
+
+// Restore from TagLink's own JSON export
+export type ImportConflictPolicy = 'skip' | 'overwrite' | 'merge'
+
+export interface ImportUserDataResult {
+  created: number
+  updated: number // Existing links overwritten or merged
+  skipped: number // Existing links left untouched
+  invalid: number
+}
+
+// Trash (soft-deleted links)
+// replace: move the live copy to the trash, merge: fold the trashed link into the live copy
+export type RestoreConflictStrategy = 'replace' | 'merge'
+
+export interface RestoreLinkResult {
+  restoredLinkId: string // Id of the live link after the restore (the existing one after a merge)
+}
+
+// Near-duplicate links (see src/lib/links/duplicates.ts)
+export type DuplicateReason = 'url' | 'title' | 'content'
+
+export interface DuplicateLinkGroup {
+  links: LinkWithTags[] // Oldest first
+  reasons: DuplicateReason[]
+}
+
+// Dashboard "Today" section
+export interface TodayLinks {
+  reminders: LinkWithTags[] // remind_at is due
+  resurfaced: LinkWithTags[] // Picked automatically for today
+}
+
+// Collections (curated, manually ordered groups of links)
+export interface CollectionWithCount extends Collection {
+  link_count: number
+}
+
+export interface CollectionWithLinks extends Collection {
+  links: LinkWithTags[] // In manual order
+}
+
+// Public share pages (/s/<token>)
+export type ShareKind = ShareLink['kind']
+
+// Filters stored with a shared saved search (a subset of the dashboard filters)
+export interface ShareSearchFilters {
+  query?: string
+  tagIds?: string[]
+  readingStates?: ReadingState[]
+  sortBy?: 'rating' | 'date-desc' | 'date-asc'
+}
+
+export interface ShareLinkWithTarget extends ShareLink {
+  target_name: string | null // Name of the shared tag or collection
+}
+
+// What the public page shows of a link - nothing private (notes, highlights, reading state)
+export interface SharedLink {
+  id: string
+  url: string
+  domain: string
+  title: string | null
+  description: string | null
+  rating: number | null
+  tags: string[]
+}
+
+export interface SharedPage {
+  title: string
+  links: SharedLink[]
+}
+
+// Shared team workspaces (null workspace = the user's personal space)
+export type WorkspaceRole = WorkspaceMember['role']
+
+export interface WorkspaceWithRole extends Workspace {
+  role: WorkspaceRole // Role of the current user
+  member_count: number
+}
+
+export interface WorkspaceMemberWithEmail extends WorkspaceMember {
+  email: string
+}
+
+// The space the user is working in, selected with the workspace switcher
+export interface ActiveWorkspace {
+  workspace: Workspace | null // null = personal space
+  role: WorkspaceRole
+  userId: string // Signed-in user (offline outbox entries are tied to user and space)
+}
+
+// REST API tokens (/api/v1/*) - the hash never leaves the server
+export type ApiTokenInfo = Omit<PersonalAccessToken, 'token_hash'> & {
+  workspace_name: string | null // null = personal space
+}
+
 export interface CreateTagInput {
   name: string
 }
@@ -48,6 +204,7 @@ export interface SearchFilters {
 export type DefaultView = 'grid' | 'list'
 export type LinksPerPage = 12 | 24 | 48
 export type DefaultSort = 'rating-desc' | 'date-desc' | 'date-asc' | 'relevance'
+export type TrashRetentionDays = 7 | 14 | 30 | 60 | 90
 
 export interface UserPreferences {
   user_id: string
@@ -55,6 +212,9 @@ export interface UserPreferences {
   links_per_page: LinksPerPage
   default_sort: DefaultSort
   ai_processing_enabled: boolean
+  trash_retention_days: TrashRetentionDays
+  resolve_canonical_urls: boolean
+  resurfacing_enabled: boolean
   created_at: string
   updated_at: string
 }
@@ -64,4 +224,7 @@ export interface UpdatePreferencesInput {
   links_per_page?: LinksPerPage
   default_sort?: DefaultSort
   ai_processing_enabled?: boolean
+  trash_retention_days?: TrashRetentionDays
+  resolve_canonical_urls?: boolean
+  resurfacing_enabled?: boolean
 }
\ No newline at end of file
@@ -0,0 +1,80 @@
+-- migration: link_processing_queue
+-- purpose: turn ai_processing_status into a background work queue for scraping and ai enrichment
+-- affected objects:
+--   - tables: links (new columns ai_processing_attempts, ai_processing_next_attempt_at)
+--   - functions: claim_pending_links
+--   - indexes: idx_links_ai_status (recreated to cover retry scheduling)
+-- notes:
+--   - links are inserted as 'pending' and picked up by the worker (see src/lib/queue)
+--   - failed attempts are rescheduled with backoff until the attempt limit is reached
+--   - rows stuck in 'processing' (crashed worker) are reclaimed after a timeout
+
+-- ============================================================================
+-- 1. retry bookkeeping columns
+-- ============================================================================
+
+alter table links
+    add column ai_processing_attempts int not null default 0,
+    add column ai_processing_next_attempt_at timestamptz;
+
+comment on column links.ai_processing_attempts is 'number of times the worker has claimed this link for processing';
+comment on column links.ai_processing_next_attempt_at is 'earliest time a pending link may be retried (null = immediately)';
+
+-- ============================================================================
+-- 2. queue index
+-- ============================================================================
+
+-- recreate the queue index so it also covers the retry schedule
+drop index if exists idx_links_ai_status;
+
+create index idx_links_ai_status
+on links(ai_processing_status, ai_processing_next_attempt_at)
+where deleted_at is null and ai_processing_status in ('pending', 'processing');
+
+-- ============================================================================
+-- 3. claim function
+-- ============================================================================
+
+-- atomically moves up to p_limit due links to 'processing' and returns them
+-- uses skip locked so several workers never claim the same row
+-- security invoker: authenticated users can only claim their own rows (rls),
+-- the service role (cron worker) can claim rows of every user
+create or replace function claim_pending_links(
+    p_limit int default 1,
+    p_user_id uuid default null,
+    p_stale_after interval default interval '10 minutes'
+)
+returns setof links as $$
+begin
+    return query
+    update links
+    set ai_processing_status = 'processing',
+        ai_processing_started_at = current_timestamp,
+        ai_processing_attempts = links.ai_processing_attempts + 1,
+        ai_processing_next_attempt_at = null
+    where links.id in (
+        select l.id
+        from links l
+        where l.deleted_at is null
+          and (p_user_id is null or l.user_id = p_user_id)
+          and (
+              -- pending links whose retry time has come
+              (l.ai_processing_status = 'pending'
+                  and (l.ai_processing_next_attempt_at is null
+                       or l.ai_processing_next_attempt_at <= current_timestamp))
+              or
+              -- links abandoned by a crashed worker
+              (l.ai_processing_status = 'processing'
+                  and l.ai_processing_started_at < current_timestamp - p_stale_after)
+          )
+        order by l.created_at
+        limit p_limit
+        for update skip locked
+    )
+    returning links.*;
+end;
+$$ language plpgsql;
+
+comment on function claim_pending_links is 'claims due pending links for background processing (pending->processing)';
+
+grant execute on function claim_pending_links(int, uuid, interval) to authenticated, service_role;
@@ -0,0 +1,14 @@
+-- migration: link_user_edits
+-- purpose: remember which link fields were edited by hand so re-processing can keep them
+-- affected objects:
+--   - tables: links (new column user_edited_fields)
+-- notes:
+--   - set by the application when the user changes title, description or tags
+--   - the processing queue never overwrites fields listed here
+--   - re-processing with "discard my edits" clears the list
+
+alter table links
+    add column user_edited_fields text[] not null default '{}'
+        check (user_edited_fields <@ array['title', 'ai_description', 'tags']::text[]);
+
+comment on column links.user_edited_fields is 'fields changed manually by the user (title, ai_description, tags) - protected from ai re-processing';
@@ -0,0 +1,71 @@
+-- migration: link_import_queue
+-- purpose: hold bulk-imported urls that exceeded the hourly link limit until they can be added
+-- affected objects:
+--   - tables: link_import_queue (new)
+--   - indexes: idx_link_import_queue_pending, idx_link_import_queue_user_url_unique
+--   - policies: rls for link_import_queue
+-- notes:
+--   - rows are created by the bulk import dialog when the 30 links/hour limit is reached
+--   - the /api/cron/import-links worker turns queued rows into links once the limit allows it
+--   - processed rows keep their final status for reporting
+
+-- ============================================================================
+-- 1. table
+-- ============================================================================
+
+create table link_import_queue (
+    id uuid default gen_random_uuid() primary key,
+    user_id uuid not null references auth.users(id) on delete cascade,
+    url text not null,
+    normalized_url text not null, -- same value as normalize_url(url), used for duplicate checks
+    title varchar(500),
+    status varchar(20) not null default 'queued'
+        check (status in ('queued', 'created', 'duplicate', 'invalid')),
+    error varchar(500),
+    created_at timestamptz default current_timestamp,
+    processed_at timestamptz
+);
+
+comment on table link_import_queue is 'bulk-imported urls waiting for the hourly link limit to reset';
+comment on column link_import_queue.status is 'queued until the worker adds the link, then the final import outcome';
+
+-- ============================================================================
+-- 2. indexes
+-- ============================================================================
+
+-- worker picks queued rows in insertion order
+create index idx_link_import_queue_pending
+on link_import_queue(created_at)
+where status = 'queued';
+
+-- the same url can only wait in the queue once per user
+create unique index idx_link_import_queue_user_url_unique
+on link_import_queue(user_id, normalized_url)
+where status = 'queued';
+
+-- ============================================================================
+-- 3. row level security
+-- ============================================================================
+
+alter table link_import_queue enable row level security;
+
+-- select policy: users can only view their own queued imports
+create policy "authenticated users can select own link_import_queue"
+on link_import_queue for select
+to authenticated
+using (auth.uid() = user_id);
+
+-- insert policy: users can only queue imports for themselves
+create policy "authenticated users can insert own link_import_queue"
+on link_import_queue for insert
+to authenticated
+with check (auth.uid() = user_id);
+
+-- delete policy: users can cancel their own queued imports
+create policy "authenticated users can delete own link_import_queue"
+on link_import_queue for delete
+to authenticated
+using (auth.uid() = user_id);
+
+-- anonymous users cannot access queued imports
+-- no policies created = no access
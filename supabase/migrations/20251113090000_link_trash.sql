@@ -0,0 +1,57 @@
+-- migration: link_trash
+-- purpose: keep soft-deleted links in a trash that users can restore from, and purge them after a retention period
+-- affected objects:
+--   - tables: user_preferences (new column trash_retention_days)
+--   - functions: purge_deleted_links
+--   - indexes: idx_links_deleted_at
+-- notes:
+--   - deleteLink still only sets deleted_at; the /trash page lists those rows
+--   - the /api/cron/purge-trash worker calls purge_deleted_links() with the service role
+--   - users without a preferences row use the default retention of 30 days
+
+-- ============================================================================
+-- 1. retention preference
+-- ============================================================================
+
+alter table user_preferences
+    add column trash_retention_days int not null default 30
+        check (trash_retention_days in (7, 14, 30, 60, 90));
+
+comment on column user_preferences.trash_retention_days is 'days a deleted link stays in the trash before it is purged';
+
+-- ============================================================================
+-- 2. trash index
+-- ============================================================================
+
+-- trash listing and purge only look at soft-deleted rows
+create index idx_links_deleted_at
+on links(user_id, deleted_at desc)
+where deleted_at is not null;
+
+-- ============================================================================
+-- 3. purge function
+-- ============================================================================
+
+-- permanently deletes links that have been in the trash longer than the owner's retention
+-- link_tags rows go away with the link (on delete cascade)
+create or replace function purge_deleted_links()
+returns int as $$
+declare
+    v_deleted int;
+begin
+    delete from links l
+    where l.deleted_at is not null
+      and l.deleted_at < current_timestamp - make_interval(days => coalesce(
+          (select p.trash_retention_days from user_preferences p where p.user_id = l.user_id),
+          30
+      ));
+
+    get diagnostics v_deleted = row_count;
+    return v_deleted;
+end;
+$$ language plpgsql;
+
+comment on function purge_deleted_links is 'removes links whose trash retention period has passed, returns the number of removed links';
+
+revoke execute on function purge_deleted_links() from public;
+grant execute on function purge_deleted_links() to service_role;
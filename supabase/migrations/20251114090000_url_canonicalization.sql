@@ -0,0 +1,176 @@
+-- migration: url_canonicalization
+-- purpose: make normalized_url a real canonical form so duplicate checks match what users consider the same link
+-- affected objects:
+--   - functions: normalize_url, extract_domain, links_before_upsert (replaced)
+--   - tables: links, link_import_queue (normalized_url backfilled), user_preferences (new column resolve_canonical_urls)
+-- notes:
+--   - normalize_url() mirrors canonicalizeUrl() in src/lib/links/urls.ts - keep both in sync
+--   - canonical form: lowercase scheme and host, no default port, no fragment, no utm_*/fbclid/gclid
+--     parameters, remaining parameters sorted, no trailing slash
+--   - the trigger now only recomputes normalized_url when the url changes, so updating other
+--     columns of old rows never trips idx_links_user_url_unique
+--   - live links that become duplicates under the new rules keep their old normalized_url;
+--     the oldest link of each group gets the canonical value
+
+-- ============================================================================
+-- 1. canonicalization functions
+-- ============================================================================
+
+create or replace function normalize_url(input_url text)
+returns text as $$
+declare
+    parts text[];
+    scheme text;
+    authority text;
+    user_info text := '';
+    host text;
+    path text;
+    query text;
+begin
+    -- scheme, authority, path, query (fragment is matched and dropped)
+    parts := regexp_match(input_url, '^([a-z][a-z0-9+.-]*)://([^/?#]*)([^?#]*)(?:\?([^#]*))?(?:#.*)?$', 'i');
+    if parts is null then
+        return input_url;
+    end if;
+
+    scheme := lower(parts[1]);
+
+    -- lowercase the host but keep user info (user:password@) as typed
+    authority := parts[2];
+    if position('@' in authority) > 0 then
+        user_info := substring(authority from '^(.*@)');
+        host := substring(authority from '^.*@(.*)$');
+    else
+        host := authority;
+    end if;
+    host := lower(host);
+
+    -- drop empty and default ports (http://example.com:80 -> http://example.com)
+    if host ~ ':$'
+        or (scheme = 'http' and host ~ ':80$')
+        or (scheme = 'https' and host ~ ':443$') then
+        host := regexp_replace(host, ':[0-9]*$', '');
+    end if;
+
+    -- remove trailing slashes, including the root path (https://example.com/ -> https://example.com)
+    path := regexp_replace(parts[3], '/+$', '');
+
+    -- drop tracking parameters and sort the rest (byte order, same as javascript sort)
+    select string_agg(param, '&' order by param collate "C")
+    into query
+    from regexp_split_to_table(coalesce(parts[4], ''), '&') as param
+    where param <> ''
+      and lower(split_part(param, '=', 1)) not like 'utm\_%'
+      and lower(split_part(param, '=', 1)) not in ('fbclid', 'gclid');
+
+    return scheme || '://' || user_info || host || path || coalesce('?' || query, '');
+end;
+$$ language plpgsql immutable;
+
+comment on function normalize_url is 'canonical form of a url for uniqueness checking (mirrors canonicalizeUrl in the app)';
+
+create or replace function extract_domain(input_url text)
+returns text as $$
+begin
+    -- hosts are case-insensitive, group them in lowercase
+    return lower((regexp_match(input_url, '^https?://([^/:?]+)', 'i'))[1]);
+end;
+$$ language plpgsql immutable;
+
+-- ============================================================================
+-- 2. links trigger
+-- ============================================================================
+
+create or replace function links_before_upsert()
+returns trigger as $$
+begin
+    -- normalize url and extract domain only when the url is set or changed
+    if tg_op = 'INSERT' or new.url is distinct from old.url then
+        new.normalized_url := normalize_url(new.url);
+        new.domain := extract_domain(new.url);
+    end if;
+
+    -- always update the updated_at timestamp
+    new.updated_at := current_timestamp;
+
+    -- track ai processing timestamps based on status changes
+    if old.ai_processing_status is distinct from new.ai_processing_status then
+        if new.ai_processing_status = 'processing' then
+            -- starting processing
+            new.ai_processing_started_at := current_timestamp;
+        elsif new.ai_processing_status in ('completed', 'failed') then
+            -- finished processing (success or failure)
+            new.ai_processing_completed_at := current_timestamp;
+        end if;
+    end if;
+
+    return new;
+end;
+$$ language plpgsql;
+
+-- ============================================================================
+-- 3. backfill
+-- ============================================================================
+
+-- trashed links are not covered by the unique index and can always be updated
+update links
+set normalized_url = normalize_url(url),
+    domain = extract_domain(url)
+where deleted_at is not null
+  and normalized_url is distinct from normalize_url(url);
+
+-- live links: one winner per (user, canonical url); a row that already holds the
+-- canonical value wins, otherwise the oldest one
+with ranked as (
+    select id,
+           normalized_url,
+           normalize_url(url) as canonical_url,
+           row_number() over (
+               partition by user_id, normalize_url(url)
+               order by (normalized_url = normalize_url(url)) desc, created_at, id
+           ) as position
+    from links
+    where deleted_at is null
+)
+update links l
+set normalized_url = ranked.canonical_url
+from ranked
+where l.id = ranked.id
+  and ranked.position = 1
+  and ranked.normalized_url is distinct from ranked.canonical_url;
+
+-- domains are not unique, lowercase all of them
+update links
+set domain = extract_domain(url)
+where domain is distinct from extract_domain(url);
+
+-- queued imports: the first queued row of each canonical url stays, repeats are closed as duplicates
+with ranked as (
+    select id,
+           row_number() over (
+               partition by user_id, normalize_url(url)
+               order by created_at, id
+           ) as position
+    from link_import_queue
+    where status = 'queued'
+)
+update link_import_queue q
+set status = 'duplicate',
+    error = 'Already waiting in the import queue',
+    processed_at = current_timestamp
+from ranked
+where q.id = ranked.id
+  and ranked.position > 1;
+
+update link_import_queue
+set normalized_url = normalize_url(url)
+where normalized_url is distinct from normalize_url(url);
+
+-- ============================================================================
+-- 4. canonical link preference
+-- ============================================================================
+
+alter table user_preferences
+    add column resolve_canonical_urls boolean not null default false;
+
+comment on column user_preferences.resolve_canonical_urls is 'replace saved urls with the rel=canonical url declared by the page during processing';
@@ -0,0 +1,14 @@
+-- migration: link_notes
+-- purpose: give every link a long-form markdown field for the user's own notes
+-- affected objects:
+--   - tables: links (new column notes)
+-- notes:
+--   - written only by the user, never by ai processing, so it is not tracked in user_edited_fields
+--   - stored as raw markdown; the app renders it without html so no sanitizing is needed here
+--   - the length limit mirrors MAX_NOTES_LENGTH in src/lib/links/markdown.ts
+
+alter table links
+    add column notes text
+        check (char_length(notes) <= 10000);
+
+comment on column links.notes is 'personal markdown notes written by the user (max 10000 characters)';
@@ -0,0 +1,80 @@
+-- migration: link_reading_state
+-- purpose: track links as a read-later queue (unread -> reading -> read, or archived)
+-- affected objects:
+--   - tables: links (new columns reading_state, reading_started_at, read_at, archived_at)
+--   - functions: links_before_upsert (replaced - stamps the reading timestamps)
+--   - indexes: idx_links_user_reading_state
+-- notes:
+--   - existing links start as unread
+--   - each timestamp holds the last time the link entered that state; going back to unread
+--     clears all of them and leaving the archive clears archived_at
+--   - archived links are hidden from the dashboard unless the reading state filter asks for them
+
+-- ============================================================================
+-- 1. columns
+-- ============================================================================
+
+alter table links
+    add column reading_state text not null default 'unread'
+        check (reading_state in ('unread', 'reading', 'read', 'archived')),
+    add column reading_started_at timestamptz,
+    add column read_at timestamptz,
+    add column archived_at timestamptz;
+
+comment on column links.reading_state is 'read-later state: unread, reading, read or archived';
+comment on column links.reading_started_at is 'when the link was last marked as reading';
+comment on column links.read_at is 'when the link was last marked as read';
+comment on column links.archived_at is 'when the link was archived (null when not archived)';
+
+-- dashboard filter and per-state statistics
+create index idx_links_user_reading_state on links(user_id, reading_state) where deleted_at is null;
+
+-- ============================================================================
+-- 2. links trigger
+-- ============================================================================
+
+create or replace function links_before_upsert()
+returns trigger as $$
+begin
+    -- normalize url and extract domain only when the url is set or changed
+    if tg_op = 'INSERT' or new.url is distinct from old.url then
+        new.normalized_url := normalize_url(new.url);
+        new.domain := extract_domain(new.url);
+    end if;
+
+    -- always update the updated_at timestamp
+    new.updated_at := current_timestamp;
+
+    -- track ai processing timestamps based on status changes
+    if old.ai_processing_status is distinct from new.ai_processing_status then
+        if new.ai_processing_status = 'processing' then
+            -- starting processing
+            new.ai_processing_started_at := current_timestamp;
+        elsif new.ai_processing_status in ('completed', 'failed') then
+            -- finished processing (success or failure)
+            new.ai_processing_completed_at := current_timestamp;
+        end if;
+    end if;
+
+    -- track reading timestamps based on state changes
+    if old.reading_state is distinct from new.reading_state then
+        if new.reading_state = 'unread' then
+            -- back in the queue
+            new.reading_started_at := null;
+            new.read_at := null;
+        elsif new.reading_state = 'reading' then
+            new.reading_started_at := current_timestamp;
+        elsif new.reading_state = 'read' then
+            new.read_at := current_timestamp;
+        end if;
+
+        if new.reading_state = 'archived' then
+            new.archived_at := current_timestamp;
+        else
+            new.archived_at := null;
+        end if;
+    end if;
+
+    return new;
+end;
+$$ language plpgsql;
@@ -0,0 +1,36 @@
+-- migration: link_reminders
+-- purpose: bring saved links back on the dashboard ("today" section) with reminders and automatic resurfacing
+-- affected objects:
+--   - tables: links (new columns remind_at, resurface_dismissed_at),
+--     user_preferences (new column resurfacing_enabled)
+--   - indexes: idx_links_user_remind_at
+-- notes:
+--   - remind_at is set by the user (edit dialog) or by snoozing a link; the link shows up once it is due
+--   - dismissing a link clears remind_at and stamps resurface_dismissed_at, which keeps it out of
+--     automatic resurfacing for a while (see src/lib/links/resurfacing.ts)
+--   - the daily pick of automatically resurfaced links is computed by the app from the date,
+--     so it does not need to be stored
+
+-- ============================================================================
+-- 1. links
+-- ============================================================================
+
+alter table links
+    add column remind_at timestamptz,
+    add column resurface_dismissed_at timestamptz;
+
+comment on column links.remind_at is 'when the link should show up in the today section (null = no reminder)';
+comment on column links.resurface_dismissed_at is 'when the link was last dismissed from the today section';
+
+-- due reminders per user
+create index idx_links_user_remind_at on links(user_id, remind_at)
+    where remind_at is not null and deleted_at is null;
+
+-- ============================================================================
+-- 2. user preferences
+-- ============================================================================
+
+alter table user_preferences
+    add column resurfacing_enabled boolean not null default true;
+
+comment on column user_preferences.resurfacing_enabled is 'bring back old, highly rated, unread links in the today section';
@@ -0,0 +1,34 @@
+-- migration: link_health
+-- purpose: record the result of the periodic dead-link check for every saved link
+-- affected objects:
+--   - tables: links (new columns health_status, health_status_code, health_final_url,
+--     health_error, health_failures, health_checked_at)
+--   - indexes: idx_links_health_checked_at, idx_links_user_health_status
+-- notes:
+--   - written only by /api/cron/check-links (service role), see src/lib/health
+--   - temporary errors (timeouts, 5xx) count up health_failures; a link becomes broken after
+--     repeated failures, or at once for 404/410/451 and unknown domains
+--   - health_final_url is the address after redirects, health_status_code is null when no
+--     response was received
+
+alter table links
+    add column health_status text not null default 'unchecked'
+        check (health_status in ('unchecked', 'ok', 'broken')),
+    add column health_status_code int,
+    add column health_final_url text,
+    add column health_error text,
+    add column health_failures int not null default 0,
+    add column health_checked_at timestamptz;
+
+comment on column links.health_status is 'result of the dead-link check: unchecked, ok or broken';
+comment on column links.health_status_code is 'http status of the last check (null when the request failed)';
+comment on column links.health_final_url is 'url after following redirects in the last check';
+comment on column links.health_error is 'network error of the last check (timeout, unknown domain, ...)';
+comment on column links.health_failures is 'failed checks in a row';
+comment on column links.health_checked_at is 'when the link was last checked';
+
+-- the checker picks the links checked longest ago
+create index idx_links_health_checked_at on links(health_checked_at nulls first) where deleted_at is null;
+
+-- dashboard filter and statistics
+create index idx_links_user_health_status on links(user_id, health_status) where deleted_at is null;
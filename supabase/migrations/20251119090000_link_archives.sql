@@ -0,0 +1,72 @@
+-- migration: link_archives
+-- purpose: keep a cleaned, readable copy of every scraped page so it can still be read after the site goes away
+-- affected objects:
+--   - tables: link_archives (new)
+--   - policies: rls for link_archives
+-- notes:
+--   - one row per link, written by the processing queue each time the link is scraped successfully
+--   - content_html is already sanitized by the app (tag/attribute whitelist in src/lib/scraping/readability.ts)
+--   - links.scraped_content stays as the short ai input; the archive is the full article
+--   - the length limits mirror MAX_ARCHIVE_HTML_LENGTH / MAX_ARCHIVE_TEXT_LENGTH
+--   - rows go away with the link (purged from the trash or merged as a duplicate)
+
+-- ============================================================================
+-- 1. table
+-- ============================================================================
+
+create table link_archives (
+    link_id uuid primary key references links(id) on delete cascade,
+    user_id uuid not null references auth.users(id) on delete cascade,
+    source_url text not null, -- url the archived copy was fetched from
+    title varchar(500),
+    byline varchar(500),
+    content_html text not null check (char_length(content_html) <= 500000),
+    content_text text not null check (char_length(content_text) <= 200000),
+    word_count int not null default 0,
+    archived_at timestamptz not null default current_timestamp
+);
+
+comment on table link_archives is 'readable copy of the saved page, shown in the reader view when the original is unavailable';
+comment on column link_archives.content_html is 'sanitized article html (whitelisted tags and attributes only)';
+comment on column link_archives.archived_at is 'when the page was last archived';
+
+-- ============================================================================
+-- 2. indexes
+-- ============================================================================
+
+create index idx_link_archives_user_id
+on link_archives(user_id);
+
+-- ============================================================================
+-- 3. row level security
+-- ============================================================================
+
+alter table link_archives enable row level security;
+
+-- select policy: users can only read archives of their own links
+create policy "authenticated users can select own link_archives"
+on link_archives for select
+to authenticated
+using (auth.uid() = user_id);
+
+-- insert policy: the queue runs as the user right after a link is saved
+create policy "authenticated users can insert own link_archives"
+on link_archives for insert
+to authenticated
+with check (auth.uid() = user_id);
+
+-- update policy: re-processing a link refreshes its archive
+create policy "authenticated users can update own link_archives"
+on link_archives for update
+to authenticated
+using (auth.uid() = user_id)
+with check (auth.uid() = user_id);
+
+-- delete policy: users can remove archived copies of their own links
+create policy "authenticated users can delete own link_archives"
+on link_archives for delete
+to authenticated
+using (auth.uid() = user_id);
+
+-- anonymous users cannot access archives
+-- no policies created = no access
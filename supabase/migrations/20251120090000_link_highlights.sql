@@ -0,0 +1,102 @@
+-- migration: link_highlights
+-- purpose: let users highlight passages of archived pages and attach short comments to them
+-- affected objects:
+--   - tables: link_highlights (new)
+--   - indexes: idx_link_highlights_link_id, idx_link_highlights_user_id
+--   - triggers: trigger_link_highlights_updated_at
+--   - policies: rls for link_highlights
+-- notes:
+--   - highlights are anchored in the plain text of link_archives.content_text as rendered in the reader
+--   - start_offset/end_offset locate the passage while the archive is unchanged; quote, prefix and
+--     suffix find it again after re-archiving (see src/lib/highlights/anchors.ts)
+--   - the length limits mirror MAX_HIGHLIGHT_LENGTH / MAX_HIGHLIGHT_COMMENT_LENGTH
+--   - rows go away with the link; an archive refresh keeps them
+
+-- ============================================================================
+-- 1. table
+-- ============================================================================
+
+create table link_highlights (
+    id uuid default gen_random_uuid() primary key,
+    link_id uuid not null references links(id) on delete cascade,
+    user_id uuid not null references auth.users(id) on delete cascade,
+    quote text not null check (char_length(quote) between 1 and 2000),
+    prefix text not null default '' check (char_length(prefix) <= 32),
+    suffix text not null default '' check (char_length(suffix) <= 32),
+    start_offset int not null check (start_offset >= 0),
+    end_offset int not null,
+    comment text check (char_length(comment) <= 1000),
+    created_at timestamptz default current_timestamp,
+    updated_at timestamptz default current_timestamp,
+    constraint link_highlights_offsets_check check (end_offset > start_offset)
+);
+
+comment on table link_highlights is 'highlighted passages of archived pages with optional comments';
+comment on column link_highlights.quote is 'highlighted text, used to re-anchor the highlight when the archive changes';
+comment on column link_highlights.prefix is 'text right before the quote (up to 32 characters)';
+comment on column link_highlights.suffix is 'text right after the quote (up to 32 characters)';
+
+-- ============================================================================
+-- 2. indexes
+-- ============================================================================
+
+-- reader view and highlights panel list a link's highlights in text order
+create index idx_link_highlights_link_id
+on link_highlights(link_id, start_offset);
+
+create index idx_link_highlights_user_id
+on link_highlights(user_id);
+
+-- ============================================================================
+-- 3. updated_at trigger
+-- ============================================================================
+
+create or replace function update_link_highlights_updated_at()
+returns trigger as $$
+begin
+    new.updated_at := current_timestamp;
+    return new;
+end;
+$$ language plpgsql;
+
+create trigger trigger_link_highlights_updated_at
+    before update on link_highlights
+    for each row
+    execute function update_link_highlights_updated_at();
+
+-- ============================================================================
+-- 4. row level security
+-- ============================================================================
+
+alter table link_highlights enable row level security;
+
+-- select policy: users can only view their own highlights
+create policy "authenticated users can select own link_highlights"
+on link_highlights for select
+to authenticated
+using (auth.uid() = user_id);
+
+-- insert policy: users can only highlight their own links
+create policy "authenticated users can insert own link_highlights"
+on link_highlights for insert
+to authenticated
+with check (
+    auth.uid() = user_id
+    and exists (select 1 from links l where l.id = link_id and l.user_id = auth.uid())
+);
+
+-- update policy: users can edit comments of their own highlights
+create policy "authenticated users can update own link_highlights"
+on link_highlights for update
+to authenticated
+using (auth.uid() = user_id)
+with check (auth.uid() = user_id);
+
+-- delete policy: users can remove their own highlights
+create policy "authenticated users can delete own link_highlights"
+on link_highlights for delete
+to authenticated
+using (auth.uid() = user_id);
+
+-- anonymous users cannot access highlights
+-- no policies created = no access
@@ -0,0 +1,184 @@
+-- migration: collections
+-- purpose: curated, manually ordered groups of links (projects, reading lists) next to the flat tags
+-- affected objects:
+--   - tables: collections (new), collection_links (new)
+--   - functions: update_collections_updated_at, reorder_collection_links
+--   - triggers: trigger_collections_updated_at
+--   - indexes: idx_collections_user_name_unique, idx_collections_user_position,
+--     idx_collection_links_link_id, idx_collection_links_position
+--   - policies: rls for collections and collection_links
+-- notes:
+--   - unlike tags there is no limit on how many collections a link belongs to
+--   - collection_links.position is the manual order inside a collection (0 = first)
+--   - trashed links stay in their collections so restoring them brings them back in place;
+--     the app hides them while they are in the trash
+
+-- ============================================================================
+-- 1. tables
+-- ============================================================================
+
+create table collections (
+    id uuid default gen_random_uuid() primary key,
+    user_id uuid not null references auth.users(id) on delete cascade,
+    name varchar(100) not null check (char_length(trim(name)) >= 1),
+    description varchar(500),
+    position int not null default 0, -- order of collections in the sidebar
+    created_at timestamptz default current_timestamp,
+    updated_at timestamptz default current_timestamp
+);
+
+comment on table collections is 'user-curated, ordered groups of links';
+comment on column collections.position is 'order of the collection in lists (0 = first)';
+
+create table collection_links (
+    collection_id uuid not null references collections(id) on delete cascade,
+    link_id uuid not null references links(id) on delete cascade,
+    position int not null default 0,
+    created_at timestamptz default current_timestamp,
+
+    primary key (collection_id, link_id)
+);
+
+comment on table collection_links is 'links in a collection (many-to-many) with their manual order';
+comment on column collection_links.position is 'order of the link inside the collection (0 = first)';
+
+-- ============================================================================
+-- 2. indexes
+-- ============================================================================
+
+-- collection names are unique per user, ignoring case
+create unique index idx_collections_user_name_unique
+on collections(user_id, lower(name));
+
+create index idx_collections_user_position
+on collections(user_id, position);
+
+-- reverse lookup: collections of a link
+create index idx_collection_links_link_id
+on collection_links(link_id);
+
+-- links of a collection in manual order
+create index idx_collection_links_position
+on collection_links(collection_id, position);
+
+-- ============================================================================
+-- 3. functions and triggers
+-- ============================================================================
+
+create or replace function update_collections_updated_at()
+returns trigger as $$
+begin
+    new.updated_at := current_timestamp;
+    return new;
+end;
+$$ language plpgsql;
+
+create trigger trigger_collections_updated_at
+    before update on collections
+    for each row
+    execute function update_collections_updated_at();
+
+-- sets the manual order of a collection's links in one statement
+-- p_link_ids lists the links in their new order; links not listed keep their position
+-- runs with the caller's rights, so rls limits it to the caller's own collections
+create or replace function reorder_collection_links(p_collection_id uuid, p_link_ids uuid[])
+returns void as $$
+begin
+    update collection_links cl
+    set position = ordered.ordinality - 1
+    from unnest(p_link_ids) with ordinality as ordered(link_id, ordinality)
+    where cl.collection_id = p_collection_id
+      and cl.link_id = ordered.link_id;
+end;
+$$ language plpgsql;
+
+comment on function reorder_collection_links is 'stores the manual order of links in a collection';
+
+-- ============================================================================
+-- 4. row level security
+-- ============================================================================
+
+alter table collections enable row level security;
+alter table collection_links enable row level security;
+
+-- select policy: users can only view their own collections
+create policy "authenticated users can select own collections"
+on collections for select
+to authenticated
+using (auth.uid() = user_id);
+
+-- insert policy: users can only create collections for themselves
+create policy "authenticated users can insert own collections"
+on collections for insert
+to authenticated
+with check (auth.uid() = user_id);
+
+-- update policy: users can only update their own collections
+create policy "authenticated users can update own collections"
+on collections for update
+to authenticated
+using (auth.uid() = user_id)
+with check (auth.uid() = user_id);
+
+-- delete policy: users can only delete their own collections
+create policy "authenticated users can delete own collections"
+on collections for delete
+to authenticated
+using (auth.uid() = user_id);
+
+-- select policy: users can view the contents of their own collections
+create policy "authenticated users can select own collection_links"
+on collection_links for select
+to authenticated
+using (
+    exists (
+        select 1 from collections
+        where collections.id = collection_links.collection_id
+        and collections.user_id = auth.uid()
+    )
+);
+
+-- insert policy: users can add their own links to their own collections
+create policy "authenticated users can insert own collection_links"
+on collection_links for insert
+to authenticated
+with check (
+    exists (
+        select 1 from collections
+        where collections.id = collection_links.collection_id
+        and collections.user_id = auth.uid()
+    )
+    and
+    exists (
+        select 1 from links
+        where links.id = collection_links.link_id
+        and links.user_id = auth.uid()
+    )
+);
+
+-- update policy: users can reorder links in their own collections
+create policy "authenticated users can update own collection_links"
+on collection_links for update
+to authenticated
+using (
+    exists (
+        select 1 from collections
+        where collections.id = collection_links.collection_id
+        and collections.user_id = auth.uid()
+    )
+);
+
+-- delete policy: users can remove links from their own collections
+create policy "authenticated users can delete own collection_links"
+on collection_links for delete
+to authenticated
+using (
+    exists (
+        select 1 from collections
+        where collections.id = collection_links.collection_id
+        and collections.user_id = auth.uid()
+    )
+);
+
+-- anonymous users cannot access collections
+-- no policies created = no access
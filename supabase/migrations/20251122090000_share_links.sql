@@ -0,0 +1,96 @@
+-- migration: share links
+-- purpose: read-only public pages for a tag, a collection or a saved search, reachable
+--          through an unguessable token url (/s/<token>)
+-- affected objects:
+--   - tables: share_links (new)
+--   - indexes: idx_share_links_token_unique, idx_share_links_user_id
+--   - policies: rls for share_links
+-- notes:
+--   - the public page reads shares and links with the service role; the token is the only secret,
+--     so anonymous users get no policies here
+--   - revoked_at / expires_at turn a link off without deleting it, so the owner can see what was shared
+--   - deleting the shared tag or collection deletes its share links
+
+-- ============================================================================
+-- 1. tables
+-- ============================================================================
+
+create table share_links (
+    id uuid default gen_random_uuid() primary key,
+    user_id uuid not null references auth.users(id) on delete cascade,
+    token varchar(64) not null,
+    kind varchar(20) not null check (kind in ('tag', 'collection', 'search')),
+    tag_id uuid references tags(id) on delete cascade,
+    collection_id uuid references collections(id) on delete cascade,
+    filters jsonb, -- saved search: query, tagIds, readingStates, sortBy
+    title varchar(100), -- heading of the public page, defaults to the tag/collection name
+    expires_at timestamptz,
+    revoked_at timestamptz,
+    view_count int not null default 0,
+    last_viewed_at timestamptz,
+    created_at timestamptz default current_timestamp,
+
+    -- exactly the target of its kind
+    constraint share_links_target_check check (
+        (kind = 'tag' and tag_id is not null and collection_id is null and filters is null)
+        or (kind = 'collection' and collection_id is not null and tag_id is null and filters is null)
+        or (kind = 'search' and filters is not null and tag_id is null and collection_id is null)
+    )
+);
+
+comment on table share_links is 'public read-only share pages for a tag, collection or saved search';
+comment on column share_links.token is 'random url token of the public page (/s/<token>)';
+comment on column share_links.revoked_at is 'set when the owner turns the share off; revoked links return 404';
+
+-- ============================================================================
+-- 2. indexes
+-- ============================================================================
+
+create unique index idx_share_links_token_unique
+on share_links(token);
+
+create index idx_share_links_user_id
+on share_links(user_id, created_at desc);
+
+-- ============================================================================
+-- 3. row level security
+-- ============================================================================
+
+alter table share_links enable row level security;
+
+-- select policy: users can only view their own share links
+create policy "authenticated users can select own share_links"
+on share_links for select
+to authenticated
+using (auth.uid() = user_id);
+
+-- insert policy: users can only share their own tags and collections
+create policy "authenticated users can insert own share_links"
+on share_links for insert
+to authenticated
+with check (
+    auth.uid() = user_id
+    and (tag_id is null or exists (
+        select 1 from tags where tags.id = share_links.tag_id and tags.user_id = auth.uid()
+    ))
+    and (collection_id is null or exists (
+        select 1 from collections
+        where collections.id = share_links.collection_id and collections.user_id = auth.uid()
+    ))
+);
+
+-- update policy: users can only revoke their own share links
+create policy "authenticated users can update own share_links"
+on share_links for update
+to authenticated
+using (auth.uid() = user_id)
+with check (auth.uid() = user_id);
+
+-- delete policy: users can only delete their own share links
+create policy "authenticated users can delete own share_links"
+on share_links for delete
+to authenticated
+using (auth.uid() = user_id);
+
+-- anonymous users cannot access share_links
+-- no policies created = no access
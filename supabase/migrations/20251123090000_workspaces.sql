@@ -0,0 +1,673 @@
+-- migration: workspaces
+-- purpose: shared team workspaces where members curate links, tags and collections together
+-- affected objects:
+--   - tables: workspaces (new), workspace_members (new), workspace_invitations (new)
+--   - columns: workspace_id on links, tags, collections, share_links, link_import_queue
+--   - functions: workspace_role, can_access_space, can_edit_space, add_workspace_owner,
+--     accept_workspace_invitation, get_workspace_members
+--   - triggers: trigger_workspaces_add_owner, trigger_workspaces_updated_at
+--   - indexes: per-space unique indexes replace idx_links_user_url_unique, idx_tags_user_name_unique
+--     and idx_collections_user_name_unique
+--   - policies: rls of all content tables is rewritten to be workspace-aware
+-- notes:
+--   - workspace_id is null for the personal space, so all existing rows stay personal
+--   - user_id keeps meaning "created by"; in a workspace every member sees every row
+--   - roles: owner (manages members and the workspace), editor (changes content), viewer (read only)
+--   - invitations are bound to an email address and accepted through a token link
+--   - rows a member created in a workspace are handed to another member when their account is
+--     deleted (see 20251127120000_workspace_content_handover.sql)
+--   - the helper functions are security definer so policies can read workspace_members
+--     without recursing into its own policies
+
+-- ============================================================================
+-- 1. tables
+-- ============================================================================
+
+create table workspaces (
+    id uuid default gen_random_uuid() primary key,
+    name varchar(100) not null check (char_length(trim(name)) >= 1),
+    created_by uuid references auth.users(id) on delete set null, -- the workspace outlives its creator
+    created_at timestamptz default current_timestamp,
+    updated_at timestamptz default current_timestamp
+);
+
+comment on table workspaces is 'shared spaces with their own links, tags and collections';
+
+create table workspace_members (
+    workspace_id uuid not null references workspaces(id) on delete cascade,
+    user_id uuid not null references auth.users(id) on delete cascade,
+    role varchar(20) not null check (role in ('owner', 'editor', 'viewer')),
+    created_at timestamptz default current_timestamp,
+
+    primary key (workspace_id, user_id)
+);
+
+comment on table workspace_members is 'members of a workspace and their roles';
+comment on column workspace_members.role is 'owner manages the workspace, editor changes content, viewer reads';
+
+create table workspace_invitations (
+    id uuid default gen_random_uuid() primary key,
+    workspace_id uuid not null references workspaces(id) on delete cascade,
+    email varchar(255) not null,
+    role varchar(20) not null check (role in ('editor', 'viewer')),
+    token varchar(64) not null,
+    invited_by uuid not null references auth.users(id) on delete cascade,
+    expires_at timestamptz not null,
+    accepted_at timestamptz,
+    created_at timestamptz default current_timestamp
+);
+
+comment on table workspace_invitations is 'pending invitations to join a workspace';
+comment on column workspace_invitations.token is 'random token of the invitation link (/workspaces/invite/<token>)';
+
+-- ============================================================================
+-- 2. workspace columns on content tables
+-- ============================================================================
+
+alter table links add column workspace_id uuid references workspaces(id) on delete cascade;
+alter table tags add column workspace_id uuid references workspaces(id) on delete cascade;
+alter table collections add column workspace_id uuid references workspaces(id) on delete cascade;
+alter table share_links add column workspace_id uuid references workspaces(id) on delete cascade;
+alter table link_import_queue add column workspace_id uuid references workspaces(id) on delete cascade;
+
+comment on column links.workspace_id is 'workspace of the link; null = personal link of user_id';
+comment on column tags.workspace_id is 'workspace of the tag; null = personal tag of user_id';
+comment on column collections.workspace_id is 'workspace of the collection; null = personal collection of user_id';
+
+-- ============================================================================
+-- 3. indexes
+-- ============================================================================
+
+create unique index idx_workspace_invitations_token_unique
+on workspace_invitations(token);
+
+create index idx_workspace_invitations_workspace_id
+on workspace_invitations(workspace_id)
+where accepted_at is null;
+
+-- workspaces of a user (switcher)
+create index idx_workspace_members_user_id
+on workspace_members(user_id);
+
+-- urls, tag names and collection names are unique per space instead of per user
+drop index idx_links_user_url_unique;
+
+create unique index idx_links_user_url_unique
+on links(user_id, normalized_url)
+where deleted_at is null and workspace_id is null;
+
+create unique index idx_links_workspace_url_unique
+on links(workspace_id, normalized_url)
+where deleted_at is null and workspace_id is not null;
+
+create index idx_links_workspace_rating_created
+on links(workspace_id, rating desc nulls last, created_at desc)
+where deleted_at is null and workspace_id is not null;
+
+drop index idx_tags_user_name_unique;
+
+create unique index idx_tags_user_name_unique
+on tags(user_id, lower(name))
+where workspace_id is null;
+
+create unique index idx_tags_workspace_name_unique
+on tags(workspace_id, lower(name))
+where workspace_id is not null;
+
+drop index idx_collections_user_name_unique;
+
+create unique index idx_collections_user_name_unique
+on collections(user_id, lower(name))
+where workspace_id is null;
+
+create unique index idx_collections_workspace_name_unique
+on collections(workspace_id, lower(name))
+where workspace_id is not null;
+
+-- the same url can only wait in the queue once per user and space
+drop index idx_link_import_queue_user_url_unique;
+
+create unique index idx_link_import_queue_user_url_unique
+on link_import_queue(user_id, workspace_id, normalized_url) nulls not distinct
+where status = 'queued';
+
+-- ============================================================================
+-- 4. functions and triggers
+-- ============================================================================
+
+-- role of the current user in a workspace, null when not a member
+create or replace function workspace_role(p_workspace_id uuid)
+returns text as $$
+    select role from workspace_members
+    where workspace_id = p_workspace_id and user_id = auth.uid();
+$$ language sql stable security definer set search_path = public;
+
+comment on function workspace_role is 'role of the current user in the workspace (null = not a member)';
+
+-- can the current user read rows of a space (personal space of p_user_id or workspace)
+create or replace function can_access_space(p_user_id uuid, p_workspace_id uuid)
+returns boolean as $$
+    select case
+        when p_workspace_id is null then p_user_id = auth.uid()
+        else workspace_role(p_workspace_id) is not null
+    end;
+$$ language sql stable security definer set search_path = public;
+
+-- can the current user change rows of a space
+create or replace function can_edit_space(p_user_id uuid, p_workspace_id uuid)
+returns boolean as $$
+    select case
+        when p_workspace_id is null then p_user_id = auth.uid()
+        else coalesce(workspace_role(p_workspace_id) in ('owner', 'editor'), false)
+    end;
+$$ language sql stable security definer set search_path = public;
+
+comment on function can_access_space is 'read access to a personal space (workspace_id null) or a workspace';
+comment on function can_edit_space is 'write access to a personal space (workspace_id null) or a workspace';
+
+-- the creator of a workspace becomes its first owner
+create or replace function add_workspace_owner()
+returns trigger as $$
+begin
+    insert into workspace_members (workspace_id, user_id, role)
+    values (new.id, new.created_by, 'owner');
+    return new;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+create trigger trigger_workspaces_add_owner
+    after insert on workspaces
+    for each row
+    execute function add_workspace_owner();
+
+create or replace function update_workspaces_updated_at()
+returns trigger as $$
+begin
+    new.updated_at = current_timestamp;
+    return new;
+end;
+$$ language plpgsql;
+
+create trigger trigger_workspaces_updated_at
+    before update on workspaces
+    for each row
+    execute function update_workspaces_updated_at();
+
+-- joins the current user to the workspace of a valid invitation sent to their email
+-- returns the workspace id, or null when the token is unknown, used, expired or for another email
+create or replace function accept_workspace_invitation(p_token text)
+returns uuid as $$
+declare
+    invitation workspace_invitations%rowtype;
+begin
+    select * into invitation
+    from workspace_invitations
+    where token = p_token
+      and accepted_at is null
+      and expires_at > current_timestamp
+      and lower(email) = lower(auth.jwt() ->> 'email')
+    for update;
+
+    if not found then
+        return null;
+    end if;
+
+    -- members that are already in the workspace keep their role
+    insert into workspace_members (workspace_id, user_id, role)
+    values (invitation.workspace_id, auth.uid(), invitation.role)
+    on conflict (workspace_id, user_id) do nothing;
+
+    update workspace_invitations
+    set accepted_at = current_timestamp
+    where id = invitation.id;
+
+    return invitation.workspace_id;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+comment on function accept_workspace_invitation is 'adds the current user to the workspace of an invitation';
+
+-- members with their emails (auth.users is not readable by the app)
+create or replace function get_workspace_members(p_workspace_id uuid)
+returns table (user_id uuid, email text, role text, created_at timestamptz) as $$
+    select m.user_id, u.email::text, m.role::text, m.created_at
+    from workspace_members m
+    join auth.users u on u.id = m.user_id
+    where m.workspace_id = p_workspace_id
+      and workspace_role(p_workspace_id) is not null
+    order by m.created_at;
+$$ language sql stable security definer set search_path = public;
+
+comment on function get_workspace_members is 'members of a workspace the current user belongs to';
+
+grant execute on function accept_workspace_invitation(text) to authenticated;
+grant execute on function get_workspace_members(uuid) to authenticated;
+
+-- ============================================================================
+-- 5. row level security for workspace tables
+-- ============================================================================
+
+alter table workspaces enable row level security;
+alter table workspace_members enable row level security;
+alter table workspace_invitations enable row level security;
+
+-- select policy: members can view their workspaces
+create policy "authenticated users can select member workspaces"
+on workspaces for select
+to authenticated
+using (workspace_role(id) is not null);
+
+-- insert policy: users can create workspaces (the trigger makes them the owner)
+create policy "authenticated users can insert own workspaces"
+on workspaces for insert
+to authenticated
+with check (auth.uid() = created_by);
+
+-- update policy: owners can rename their workspaces
+create policy "authenticated users can update owned workspaces"
+on workspaces for update
+to authenticated
+using (workspace_role(id) = 'owner')
+with check (workspace_role(id) = 'owner');
+
+-- delete policy: owners can delete their workspaces
+create policy "authenticated users can delete owned workspaces"
+on workspaces for delete
+to authenticated
+using (workspace_role(id) = 'owner');
+
+-- select policy: members can see who else is in the workspace
+create policy "authenticated users can select workspace_members"
+on workspace_members for select
+to authenticated
+using (workspace_role(workspace_id) is not null);
+
+-- insert: only through add_workspace_owner and accept_workspace_invitation
+-- no insert policy created
+
+-- update policy: owners can change roles
+create policy "authenticated users can update workspace_members"
+on workspace_members for update
+to authenticated
+using (workspace_role(workspace_id) = 'owner')
+with check (workspace_role(workspace_id) = 'owner');
+
+-- delete policy: owners can remove members, members can leave
+create policy "authenticated users can delete workspace_members"
+on workspace_members for delete
+to authenticated
+using (auth.uid() = user_id or workspace_role(workspace_id) = 'owner');
+
+-- select policy: owners can view the invitations of their workspaces
+create policy "authenticated users can select workspace_invitations"
+on workspace_invitations for select
+to authenticated
+using (workspace_role(workspace_id) = 'owner');
+
+-- insert policy: owners can invite people
+create policy "authenticated users can insert workspace_invitations"
+on workspace_invitations for insert
+to authenticated
+with check (auth.uid() = invited_by and workspace_role(workspace_id) = 'owner');
+
+-- delete policy: owners can revoke invitations
+create policy "authenticated users can delete workspace_invitations"
+on workspace_invitations for delete
+to authenticated
+using (workspace_role(workspace_id) = 'owner');
+
+-- ============================================================================
+-- 6. workspace-aware rls for content tables
+-- ============================================================================
+
+-- ----------------------------------------------------------------------------
+-- 6.1 links
+-- ----------------------------------------------------------------------------
+
+drop policy "authenticated users can select own links" on links;
+drop policy "authenticated users can insert own links" on links;
+drop policy "authenticated users can update own links" on links;
+drop policy "authenticated users can delete own links" on links;
+
+-- select policy: own personal links and links of the user's workspaces
+create policy "authenticated users can select space links"
+on links for select
+to authenticated
+using (can_access_space(user_id, workspace_id));
+
+-- insert policy: links are created by the user in a space they can edit
+create policy "authenticated users can insert space links"
+on links for insert
+to authenticated
+with check (auth.uid() = user_id and can_edit_space(user_id, workspace_id));
+
+-- update policy: editors can change any link of the space; links cannot change space
+-- (enforced by trigger_links_lock_space, see 20251127110000_lock_row_space.sql)
+create policy "authenticated users can update space links"
+on links for update
+to authenticated
+using (can_edit_space(user_id, workspace_id))
+with check (can_edit_space(user_id, workspace_id));
+
+-- delete policy: editors can delete links of the space
+create policy "authenticated users can delete space links"
+on links for delete
+to authenticated
+using (can_edit_space(user_id, workspace_id));
+
+-- ----------------------------------------------------------------------------
+-- 6.2 tags
+-- ----------------------------------------------------------------------------
+
+drop policy "authenticated users can select own tags" on tags;
+drop policy "authenticated users can insert own tags" on tags;
+drop policy "authenticated users can update own tags" on tags;
+drop policy "authenticated users can delete own tags" on tags;
+
+create policy "authenticated users can select space tags"
+on tags for select
+to authenticated
+using (can_access_space(user_id, workspace_id));
+
+create policy "authenticated users can insert space tags"
+on tags for insert
+to authenticated
+with check (auth.uid() = user_id and can_edit_space(user_id, workspace_id));
+
+create policy "authenticated users can update space tags"
+on tags for update
+to authenticated
+using (can_edit_space(user_id, workspace_id))
+with check (can_edit_space(user_id, workspace_id));
+
+create policy "authenticated users can delete space tags"
+on tags for delete
+to authenticated
+using (can_edit_space(user_id, workspace_id));
+
+-- ----------------------------------------------------------------------------
+-- 6.3 link_tags
+-- ----------------------------------------------------------------------------
+
+drop policy "authenticated users can select own link_tags" on link_tags;
+drop policy "authenticated users can insert own link_tags" on link_tags;
+drop policy "authenticated users can delete own link_tags" on link_tags;
+
+create policy "authenticated users can select space link_tags"
+on link_tags for select
+to authenticated
+using (
+    exists (
+        select 1 from links
+        where links.id = link_tags.link_id
+        and can_access_space(links.user_id, links.workspace_id)
+    )
+);
+
+-- insert policy: the link and the tag must be in the same space
+create policy "authenticated users can insert space link_tags"
+on link_tags for insert
+to authenticated
+with check (
+    exists (
+        select 1 from links
+        join tags on tags.id = link_tags.tag_id
+        where links.id = link_tags.link_id
+        and can_edit_space(links.user_id, links.workspace_id)
+        and tags.workspace_id is not distinct from links.workspace_id
+        and (links.workspace_id is not null or tags.user_id = links.user_id)
+    )
+);
+
+create policy "authenticated users can delete space link_tags"
+on link_tags for delete
+to authenticated
+using (
+    exists (
+        select 1 from links
+        where links.id = link_tags.link_id
+        and can_edit_space(links.user_id, links.workspace_id)
+    )
+);
+
+-- ----------------------------------------------------------------------------
+-- 6.4 collections and collection_links
+-- ----------------------------------------------------------------------------
+
+drop policy "authenticated users can select own collections" on collections;
+drop policy "authenticated users can insert own collections" on collections;
+drop policy "authenticated users can update own collections" on collections;
+drop policy "authenticated users can delete own collections" on collections;
+drop policy "authenticated users can select own collection_links" on collection_links;
+drop policy "authenticated users can insert own collection_links" on collection_links;
+drop policy "authenticated users can update own collection_links" on collection_links;
+drop policy "authenticated users can delete own collection_links" on collection_links;
+
+create policy "authenticated users can select space collections"
+on collections for select
+to authenticated
+using (can_access_space(user_id, workspace_id));
+
+create policy "authenticated users can insert space collections"
+on collections for insert
+to authenticated
+with check (auth.uid() = user_id and can_edit_space(user_id, workspace_id));
+
+create policy "authenticated users can update space collections"
+on collections for update
+to authenticated
+using (can_edit_space(user_id, workspace_id))
+with check (can_edit_space(user_id, workspace_id));
+
+create policy "authenticated users can delete space collections"
+on collections for delete
+to authenticated
+using (can_edit_space(user_id, workspace_id));
+
+create policy "authenticated users can select space collection_links"
+on collection_links for select
+to authenticated
+using (
+    exists (
+        select 1 from collections
+        where collections.id = collection_links.collection_id
+        and can_access_space(collections.user_id, collections.workspace_id)
+    )
+);
+
+-- insert policy: the link and the collection must be in the same space
+create policy "authenticated users can insert space collection_links"
+on collection_links for insert
+to authenticated
+with check (
+    exists (
+        select 1 from collections
+        join links on links.id = collection_links.link_id
+        where collections.id = collection_links.collection_id
+        and can_edit_space(collections.user_id, collections.workspace_id)
+        and links.workspace_id is not distinct from collections.workspace_id
+        and (collections.workspace_id is not null or links.user_id = collections.user_id)
+    )
+);
+
+-- (gets the insert checks as with check in 20251127150000_collection_links_update_check.sql)
+create policy "authenticated users can update space collection_links"
+on collection_links for update
+to authenticated
+using (
+    exists (
+        select 1 from collections
+        where collections.id = collection_links.collection_id
+        and can_edit_space(collections.user_id, collections.workspace_id)
+    )
+);
+
+create policy "authenticated users can delete space collection_links"
+on collection_links for delete
+to authenticated
+using (
+    exists (
+        select 1 from collections
+        where collections.id = collection_links.collection_id
+        and can_edit_space(collections.user_id, collections.workspace_id)
+    )
+);
+
+-- ----------------------------------------------------------------------------
+-- 6.5 link_archives and link_highlights (follow their link)
+-- ----------------------------------------------------------------------------
+
+drop policy "authenticated users can select own link_archives" on link_archives;
+drop policy "authenticated users can insert own link_archives" on link_archives;
+drop policy "authenticated users can update own link_archives" on link_archives;
+drop policy "authenticated users can delete own link_archives" on link_archives;
+
+create policy "authenticated users can select space link_archives"
+on link_archives for select
+to authenticated
+using (
+    exists (
+        select 1 from links l
+        where l.id = link_archives.link_id and can_access_space(l.user_id, l.workspace_id)
+    )
+);
+
+-- insert policy: any editor may (re-)process a link of the space
+create policy "authenticated users can insert space link_archives"
+on link_archives for insert
+to authenticated
+with check (
+    exists (
+        select 1 from links l
+        where l.id = link_archives.link_id and can_edit_space(l.user_id, l.workspace_id)
+    )
+);
+
+create policy "authenticated users can update space link_archives"
+on link_archives for update
+to authenticated
+using (
+    exists (
+        select 1 from links l
+        where l.id = link_archives.link_id and can_edit_space(l.user_id, l.workspace_id)
+    )
+);
+
+create policy "authenticated users can delete space link_archives"
+on link_archives for delete
+to authenticated
+using (
+    exists (
+        select 1 from links l
+        where l.id = link_archives.link_id and can_edit_space(l.user_id, l.workspace_id)
+    )
+);
+
+drop policy "authenticated users can select own link_highlights" on link_highlights;
+drop policy "authenticated users can insert own link_highlights" on link_highlights;
+drop policy "authenticated users can update own link_highlights" on link_highlights;
+drop policy "authenticated users can delete own link_highlights" on link_highlights;
+
+-- select policy: highlights are shared with everyone who can read the link
+create policy "authenticated users can select space link_highlights"
+on link_highlights for select
+to authenticated
+using (
+    exists (
+        select 1 from links l
+        where l.id = link_highlights.link_id and can_access_space(l.user_id, l.workspace_id)
+    )
+);
+
+-- insert policy: editors highlight links of the space under their own name
+create policy "authenticated users can insert space link_highlights"
+on link_highlights for insert
+to authenticated
+with check (
+    auth.uid() = user_id
+    and exists (
+        select 1 from links l
+        where l.id = link_highlights.link_id and can_edit_space(l.user_id, l.workspace_id)
+    )
+);
+
+-- update policy: users can only edit the comments of their own highlights
+-- (replaced with a space check and a link_id lock, see 20251127140000_lock_highlight_link.sql)
+create policy "authenticated users can update own link_highlights"
+on link_highlights for update
+to authenticated
+using (auth.uid() = user_id)
+with check (auth.uid() = user_id);
+
+-- delete policy: own highlights, or any highlight of a space the user edits
+create policy "authenticated users can delete space link_highlights"
+on link_highlights for delete
+to authenticated
+using (
+    auth.uid() = user_id
+    or exists (
+        select 1 from links l
+        where l.id = link_highlights.link_id and can_edit_space(l.user_id, l.workspace_id)
+    )
+);
+
+-- ----------------------------------------------------------------------------
+-- 6.6 share_links
+-- ----------------------------------------------------------------------------
+
+drop policy "authenticated users can select own share_links" on share_links;
+drop policy "authenticated users can insert own share_links" on share_links;
+drop policy "authenticated users can update own share_links" on share_links;
+drop policy "authenticated users can delete own share_links" on share_links;
+
+create policy "authenticated users can select space share_links"
+on share_links for select
+to authenticated
+using (can_access_space(user_id, workspace_id));
+
+-- insert policy: the shared tag or collection must be in the same space
+create policy "authenticated users can insert space share_links"
+on share_links for insert
+to authenticated
+with check (
+    auth.uid() = user_id
+    and can_edit_space(user_id, workspace_id)
+    and (tag_id is null or exists (
+        select 1 from tags
+        where tags.id = share_links.tag_id
+        and tags.workspace_id is not distinct from share_links.workspace_id
+        and (share_links.workspace_id is not null or tags.user_id = auth.uid())
+    ))
+    and (collection_id is null or exists (
+        select 1 from collections
+        where collections.id = share_links.collection_id
+        and collections.workspace_id is not distinct from share_links.workspace_id
+        and (share_links.workspace_id is not null or collections.user_id = auth.uid())
+    ))
+);
+
+create policy "authenticated users can update space share_links"
+on share_links for update
+to authenticated
+using (can_edit_space(user_id, workspace_id))
+with check (can_edit_space(user_id, workspace_id));
+
+create policy "authenticated users can delete space share_links"
+on share_links for delete
+to authenticated
+using (can_edit_space(user_id, workspace_id));
+
+-- ----------------------------------------------------------------------------
+-- 6.7 link_import_queue
+-- ----------------------------------------------------------------------------
+
+drop policy "authenticated users can insert own link_import_queue" on link_import_queue;
+
+-- insert policy: users can queue imports for themselves into spaces they can edit
+create policy "authenticated users can insert own link_import_queue"
+on link_import_queue for insert
+to authenticated
+with check (auth.uid() = user_id and can_edit_space(user_id, workspace_id));
+
+-- anonymous users cannot access workspaces
+-- no policies created = no access
@@ -0,0 +1,74 @@
+-- migration: personal access tokens
+-- purpose: bearer tokens for the versioned rest api (/api/v1/*), created and revoked on /settings
+-- affected objects:
+--   - tables: personal_access_tokens (new)
+--   - indexes: idx_personal_access_tokens_hash_unique, idx_personal_access_tokens_user_id
+--   - policies: rls for personal_access_tokens
+-- notes:
+--   - only the sha-256 hash of a token is stored; the plain token is shown once when it is created
+--   - token_prefix keeps the first characters so users can tell their tokens apart
+--   - a token works in the space that was active when it was created (workspace_id null = personal);
+--     the member role is looked up on every request, so removed members lose access right away
+--   - the api looks tokens up with the service role, so there is no update policy for last_used_at
+--   - revoking a token deletes it
+
+-- ============================================================================
+-- 1. tables
+-- ============================================================================
+
+create table personal_access_tokens (
+    id uuid default gen_random_uuid() primary key,
+    user_id uuid not null references auth.users(id) on delete cascade,
+    workspace_id uuid references workspaces(id) on delete cascade,
+    name varchar(100) not null,
+    token_hash char(64) not null,
+    token_prefix varchar(20) not null,
+    scopes text[] not null check (
+        cardinality(scopes) > 0
+        and scopes <@ array['links:read', 'links:write', 'tags:read', 'tags:write']
+    ),
+    last_used_at timestamptz,
+    expires_at timestamptz,
+    created_at timestamptz default current_timestamp
+);
+
+comment on table personal_access_tokens is 'bearer tokens of the rest api, stored as sha-256 hashes';
+comment on column personal_access_tokens.token_hash is 'hex sha-256 of the token, the plain token is never stored';
+comment on column personal_access_tokens.workspace_id is 'space the token works in (null = personal space)';
+
+-- ============================================================================
+-- 2. indexes
+-- ============================================================================
+
+create unique index idx_personal_access_tokens_hash_unique
+on personal_access_tokens(token_hash);
+
+create index idx_personal_access_tokens_user_id
+on personal_access_tokens(user_id, created_at desc);
+
+-- ============================================================================
+-- 3. row level security
+-- ============================================================================
+
+alter table personal_access_tokens enable row level security;
+
+-- select policy: users can only view their own tokens
+create policy "authenticated users can select own personal_access_tokens"
+on personal_access_tokens for select
+to authenticated
+using (auth.uid() = user_id);
+
+-- insert policy: users can only create tokens for spaces they belong to
+create policy "authenticated users can insert own personal_access_tokens"
+on personal_access_tokens for insert
+to authenticated
+with check (auth.uid() = user_id and can_access_space(user_id, workspace_id));
+
+-- delete policy: users can only revoke their own tokens
+create policy "authenticated users can delete own personal_access_tokens"
+on personal_access_tokens for delete
+to authenticated
+using (auth.uid() = user_id);
+
+-- anonymous users cannot access personal_access_tokens
+-- no policies created = no access
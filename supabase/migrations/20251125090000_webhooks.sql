@@ -0,0 +1,184 @@
+-- migration: webhooks
+-- purpose: push link and tag events to user-defined https endpoints, signed with hmac-sha256
+-- affected objects:
+--   - tables: webhook_endpoints (new), webhook_deliveries (new)
+--   - functions: claim_webhook_deliveries
+--   - indexes: idx_webhook_endpoints_user_id, idx_webhook_deliveries_endpoint,
+--     idx_webhook_deliveries_due
+--   - policies: rls for webhook_endpoints and webhook_deliveries
+-- notes:
+--   - endpoints belong to a user; events fire for what that user does (and for the
+--     background processing of links they added)
+--   - the secret is kept in plain text because every delivery is signed with it
+--   - each event becomes one delivery row per subscribed endpoint; failed deliveries are
+--     retried with backoff (see src/lib/webhooks) and stay in the log for manual redelivery
+--   - deleting an endpoint deletes its delivery log
+
+-- ============================================================================
+-- 1. tables
+-- ============================================================================
+
+create table webhook_endpoints (
+    id uuid default gen_random_uuid() primary key,
+    user_id uuid not null references auth.users(id) on delete cascade,
+    url varchar(2000) not null,
+    description varchar(100),
+    secret varchar(64) not null,
+    events text[] not null check (cardinality(events) > 0),
+    active boolean not null default true,
+    created_at timestamptz default current_timestamp,
+    updated_at timestamptz default current_timestamp
+);
+
+comment on table webhook_endpoints is 'urls that receive signed link and tag events of a user';
+comment on column webhook_endpoints.secret is 'hmac-sha256 key of the X-TagLink-Signature header';
+comment on column webhook_endpoints.events is 'subscribed events, e.g. link.created, tag.merged';
+
+create table webhook_deliveries (
+    id uuid default gen_random_uuid() primary key,
+    endpoint_id uuid not null references webhook_endpoints(id) on delete cascade,
+    user_id uuid not null references auth.users(id) on delete cascade,
+    event varchar(50) not null,
+    payload jsonb not null,
+    status varchar(20) not null default 'pending'
+        check (status in ('pending', 'sending', 'succeeded', 'failed')),
+    attempts int not null default 0,
+    next_attempt_at timestamptz default current_timestamp,
+    last_attempt_at timestamptz,
+    response_status int,
+    last_error varchar(500),
+    created_at timestamptz default current_timestamp
+);
+
+comment on table webhook_deliveries is 'delivery log and retry queue of webhook events';
+comment on column webhook_deliveries.next_attempt_at is 'earliest time a pending delivery is sent';
+
+-- ============================================================================
+-- 2. indexes
+-- ============================================================================
+
+create index idx_webhook_endpoints_user_id
+on webhook_endpoints(user_id);
+
+create index idx_webhook_deliveries_endpoint
+on webhook_deliveries(endpoint_id, created_at desc);
+
+create index idx_webhook_deliveries_due
+on webhook_deliveries(status, next_attempt_at)
+where status in ('pending', 'sending');
+
+-- ============================================================================
+-- 3. triggers
+-- ============================================================================
+
+create or replace function update_webhook_endpoints_updated_at()
+returns trigger as $$
+begin
+    new.updated_at = current_timestamp;
+    return new;
+end;
+$$ language plpgsql;
+
+create trigger trigger_webhook_endpoints_updated_at
+    before update on webhook_endpoints
+    for each row
+    execute function update_webhook_endpoints_updated_at();
+
+-- ============================================================================
+-- 4. claim function
+-- ============================================================================
+
+-- atomically moves up to p_limit due deliveries to 'sending' and returns them
+-- uses skip locked so the inline sender and the cron worker never send the same row twice
+-- security invoker: authenticated users can only claim their own rows (rls),
+-- the service role (cron worker) can claim rows of every user
+create or replace function claim_webhook_deliveries(
+    p_limit int default 10,
+    p_user_id uuid default null,
+    p_stale_after interval default interval '5 minutes'
+)
+returns setof webhook_deliveries as $$
+begin
+    return query
+    update webhook_deliveries
+    set status = 'sending',
+        attempts = webhook_deliveries.attempts + 1,
+        last_attempt_at = current_timestamp
+    where webhook_deliveries.id in (
+        select d.id
+        from webhook_deliveries d
+        where (p_user_id is null or d.user_id = p_user_id)
+          and (
+              -- pending deliveries whose (retry) time has come
+              (d.status = 'pending' and d.next_attempt_at <= current_timestamp)
+              or
+              -- deliveries abandoned by a crashed sender
+              (d.status = 'sending' and d.last_attempt_at < current_timestamp - p_stale_after)
+          )
+        order by d.created_at
+        limit p_limit
+        for update skip locked
+    )
+    returning webhook_deliveries.*;
+end;
+$$ language plpgsql;
+
+comment on function claim_webhook_deliveries is 'claims due webhook deliveries for sending (pending->sending)';
+
+grant execute on function claim_webhook_deliveries(int, uuid, interval) to authenticated, service_role;
+
+-- ============================================================================
+-- 5. row level security
+-- ============================================================================
+
+alter table webhook_endpoints enable row level security;
+alter table webhook_deliveries enable row level security;
+
+-- webhook_endpoints: users manage their own endpoints
+create policy "authenticated users can select own webhook_endpoints"
+on webhook_endpoints for select
+to authenticated
+using (auth.uid() = user_id);
+
+create policy "authenticated users can insert own webhook_endpoints"
+on webhook_endpoints for insert
+to authenticated
+with check (auth.uid() = user_id);
+
+create policy "authenticated users can update own webhook_endpoints"
+on webhook_endpoints for update
+to authenticated
+using (auth.uid() = user_id)
+with check (auth.uid() = user_id);
+
+create policy "authenticated users can delete own webhook_endpoints"
+on webhook_endpoints for delete
+to authenticated
+using (auth.uid() = user_id);
+
+-- webhook_deliveries: users queue, send and read deliveries of their own endpoints
+create policy "authenticated users can select own webhook_deliveries"
+on webhook_deliveries for select
+to authenticated
+using (auth.uid() = user_id);
+
+create policy "authenticated users can insert own webhook_deliveries"
+on webhook_deliveries for insert
+to authenticated
+with check (
+    auth.uid() = user_id
+    and exists (
+        select 1 from webhook_endpoints
+        where webhook_endpoints.id = webhook_deliveries.endpoint_id
+          and webhook_endpoints.user_id = auth.uid()
+    )
+);
+
+create policy "authenticated users can update own webhook_deliveries"
+on webhook_deliveries for update
+to authenticated
+using (auth.uid() = user_id)
+with check (auth.uid() = user_id);
+
+-- anonymous users cannot access webhooks
+-- no policies created = no access
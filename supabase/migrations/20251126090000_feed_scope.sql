@@ -0,0 +1,17 @@
+-- migration: feed scope for personal access tokens
+-- purpose: allow tokens that can only read rss/atom feeds (/api/v1/feeds/rss, /api/v1/feeds/atom)
+-- affected objects:
+--   - tables: personal_access_tokens (scopes check constraint)
+-- notes:
+--   - feed readers cannot send an authorization header, so feeds take the token from the
+--     ?token= query parameter; the feeds:read scope keeps such tokens (which end up in urls
+--     and server logs) from reading or changing anything else
+
+alter table personal_access_tokens
+    drop constraint personal_access_tokens_scopes_check;
+
+alter table personal_access_tokens
+    add constraint personal_access_tokens_scopes_check check (
+        cardinality(scopes) > 0
+        and scopes <@ array['links:read', 'links:write', 'tags:read', 'tags:write', 'feeds:read']
+    );
@@ -0,0 +1,54 @@
+-- migration: import queue fairness and retry limit
+-- purpose: stop one user's backlog from starving the import queue and stop retrying broken rows forever
+-- affected objects:
+--   - tables: link_import_queue (new column attempts, status check gets 'failed')
+--   - functions: next_queued_imports
+-- notes:
+--   - the worker used to read the globally oldest queued rows, so a user with a large backlog
+--     (who is rate limited anyway) filled every run; next_queued_imports takes a few rows per
+--     user and hands them out round robin
+--   - rows whose link could not be saved (temporary errors) count an attempt and end as
+--     'failed' after MAX_IMPORT_ATTEMPTS (see src/lib/links/import-queue.ts); hitting the
+--     hourly limit does not count as an attempt
+
+-- ============================================================================
+-- 1. columns
+-- ============================================================================
+
+alter table link_import_queue add column attempts int not null default 0;
+
+comment on column link_import_queue.attempts is 'failed tries to add the link, rate limits not counted';
+
+alter table link_import_queue
+    drop constraint link_import_queue_status_check;
+
+alter table link_import_queue
+    add constraint link_import_queue_status_check
+    check (status in ('queued', 'created', 'duplicate', 'invalid', 'failed'));
+
+-- ============================================================================
+-- 2. worker query
+-- ============================================================================
+
+-- oldest p_per_user queued rows of every user, first rows of all users before second rows
+create or replace function next_queued_imports(
+    p_per_user int default 10,
+    p_limit int default 100
+)
+returns setof link_import_queue as $$
+    select q.id, q.user_id, q.url, q.normalized_url, q.title, q.status, q.error,
+           q.created_at, q.processed_at, q.workspace_id, q.attempts
+    from (
+        select link_import_queue.*,
+               row_number() over (partition by user_id order by created_at) as position
+        from link_import_queue
+        where status = 'queued'
+    ) q
+    where q.position <= p_per_user
+    order by q.position, q.created_at
+    limit p_limit;
+$$ language sql stable;
+
+comment on function next_queued_imports is 'queued imports for the worker, a fair share per user';
+
+grant execute on function next_queued_imports(int, int) to service_role;
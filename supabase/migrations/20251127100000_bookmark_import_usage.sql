@@ -0,0 +1,44 @@
+-- migration: bookmark import usage
+-- purpose: enforce the bookmark import cap and the ai quota on the server
+-- affected objects:
+--   - tables: link_import_usage (new)
+--   - indexes: idx_link_import_usage_user_created
+--   - policies: rls for link_import_usage
+-- notes:
+--   - bookmark files are imported in batches by the browser; every saved batch is logged here so
+--     the batch action can cap the bookmarks imported per day no matter how many calls a client makes
+--   - imported links keep the bookmark's date as created_at, so the hourly limit (which counts
+--     links by created_at) cannot see them; ai_links is the number of links of the batch queued for
+--     ai processing that the hourly limit would miss, and getRemainingLinkQuota counts them
+
+create table link_import_usage (
+    id uuid default gen_random_uuid() primary key,
+    user_id uuid not null references auth.users(id) on delete cascade,
+    links int not null check (links >= 0),
+    ai_links int not null default 0 check (ai_links >= 0),
+    created_at timestamptz default current_timestamp
+);
+
+comment on table link_import_usage is 'saved bookmark import batches, for the daily import cap and the ai quota';
+comment on column link_import_usage.ai_links is 'links of the batch queued for ai processing with a created_at outside the hourly window';
+
+create index idx_link_import_usage_user_created
+on link_import_usage(user_id, created_at desc);
+
+alter table link_import_usage enable row level security;
+
+-- select policy: users read their own usage (the quota checks)
+create policy "authenticated users can select own link_import_usage"
+on link_import_usage for select
+to authenticated
+using (auth.uid() = user_id);
+
+-- insert policy: users log their own batches
+create policy "authenticated users can insert own link_import_usage"
+on link_import_usage for insert
+to authenticated
+with check (auth.uid() = user_id);
+
+-- no update or delete policies: the log cannot be rewritten to get more quota
+-- anonymous users cannot access the log
+-- no policies created = no access
@@ -0,0 +1,51 @@
+-- migration: lock the space and creator of content rows
+-- purpose: keep editors from moving rows between spaces or handing them to another user
+-- affected objects:
+--   - functions: prevent_space_change
+--   - triggers: trigger_links_lock_space, trigger_tags_lock_space,
+--     trigger_collections_lock_space, trigger_share_links_lock_space
+-- notes:
+--   - the update policies of the workspaces migration only check the new row with
+--     can_edit_space, so an editor of two spaces could change workspace_id (leaving
+--     link_tags and collection_links pointing at tags and collections of the old space)
+--     or user_id (the creator); rows now keep both for their whole life
+--   - the app never changes either column, content is copied into another space instead
+
+create or replace function prevent_space_change()
+returns trigger as $$
+begin
+    if new.workspace_id is distinct from old.workspace_id then
+        raise exception 'rows cannot be moved to another space'
+            using errcode = 'check_violation';
+    end if;
+
+    if new.user_id is distinct from old.user_id then
+        raise exception 'the creator of a row cannot be changed'
+            using errcode = 'check_violation';
+    end if;
+
+    return new;
+end;
+$$ language plpgsql;
+
+comment on function prevent_space_change is 'rejects updates of workspace_id and user_id';
+
+create trigger trigger_links_lock_space
+    before update of workspace_id, user_id on links
+    for each row
+    execute function prevent_space_change();
+
+create trigger trigger_tags_lock_space
+    before update of workspace_id, user_id on tags
+    for each row
+    execute function prevent_space_change();
+
+create trigger trigger_collections_lock_space
+    before update of workspace_id, user_id on collections
+    for each row
+    execute function prevent_space_change();
+
+create trigger trigger_share_links_lock_space
+    before update of workspace_id, user_id on share_links
+    for each row
+    execute function prevent_space_change();
@@ -0,0 +1,90 @@
+-- migration: hand workspace content over when an account is deleted
+-- purpose: keep team content when one member deletes their account
+-- affected objects:
+--   - functions: hand_over_workspace_content (new), prevent_space_change (replaced)
+--   - triggers: trigger_auth_users_hand_over_content (on auth.users)
+-- notes:
+--   - user_id of links, tags, collections, share_links and link_archives cascades on delete, so
+--     deleting an account used to wipe every row the member had created in shared workspaces
+--   - before the account is deleted its workspace rows are handed to another member of the
+--     workspace: the longest-standing owner, else the longest-standing member; when the deleted
+--     user was the last owner, that member becomes owner
+--   - workspaces without any other member lose their content with the account as before
+--   - personal rows, highlights and queued imports still go away with the account
+--   - prevent_space_change lets the hand-over (a nested trigger) change user_id
+
+create or replace function prevent_space_change()
+returns trigger as $$
+begin
+    if new.workspace_id is distinct from old.workspace_id then
+        raise exception 'rows cannot be moved to another space'
+            using errcode = 'check_violation';
+    end if;
+
+    -- pg_trigger_depth() > 1: changed by hand_over_workspace_content, not by a user
+    if new.user_id is distinct from old.user_id and pg_trigger_depth() <= 1 then
+        raise exception 'the creator of a row cannot be changed'
+            using errcode = 'check_violation';
+    end if;
+
+    return new;
+end;
+$$ language plpgsql;
+
+create or replace function hand_over_workspace_content()
+returns trigger as $$
+declare
+    space_id uuid;
+    heir uuid;
+begin
+    for space_id in
+        select workspace_id from workspace_members where user_id = old.id
+        union
+        select workspace_id from links where user_id = old.id and workspace_id is not null
+        union
+        select workspace_id from tags where user_id = old.id and workspace_id is not null
+        union
+        select workspace_id from collections where user_id = old.id and workspace_id is not null
+        union
+        select workspace_id from share_links where user_id = old.id and workspace_id is not null
+    loop
+        select m.user_id into heir
+        from workspace_members m
+        where m.workspace_id = space_id and m.user_id <> old.id
+        order by (m.role = 'owner') desc, m.created_at
+        limit 1;
+
+        -- nobody left in the workspace
+        continue when heir is null;
+
+        update links set user_id = heir where workspace_id = space_id and user_id = old.id;
+        update tags set user_id = heir where workspace_id = space_id and user_id = old.id;
+        update collections set user_id = heir where workspace_id = space_id and user_id = old.id;
+        update share_links set user_id = heir where workspace_id = space_id and user_id = old.id;
+
+        update link_archives a
+        set user_id = heir
+        from links l
+        where l.id = a.link_id and l.workspace_id = space_id and a.user_id = old.id;
+
+        -- a workspace always keeps an owner
+        if not exists (
+            select 1 from workspace_members
+            where workspace_id = space_id and role = 'owner' and user_id <> old.id
+        ) then
+            update workspace_members
+            set role = 'owner'
+            where workspace_id = space_id and user_id = heir;
+        end if;
+    end loop;
+
+    return old;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+comment on function hand_over_workspace_content is 'gives workspace rows of a deleted account to another member';
+
+create trigger trigger_auth_users_hand_over_content
+    before delete on auth.users
+    for each row
+    execute function hand_over_workspace_content();
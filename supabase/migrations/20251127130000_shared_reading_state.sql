@@ -0,0 +1,19 @@
+-- migration: document shared reading state and reminders
+-- purpose: make explicit that reading state and reminders belong to the link, not to a member
+-- affected objects:
+--   - columns: comments of links.reading_state, reading_started_at, read_at, archived_at,
+--     remind_at, resurface_dismissed_at
+-- notes:
+--   - in a workspace these columns work as the team's read-later queue: when one member marks a
+--     link as read, snoozes or dismisses it, every member sees the change
+--   - like any other change of a workspace link they need the editor or owner role; viewers
+--     see the state but cannot change it
+--   - per-member state would need a (link_id, user_id) table joined into every link query;
+--     this migration only documents the behaviour
+
+comment on column links.reading_state is 'read-later state: unread, reading, read or archived; shared by the members of a workspace';
+comment on column links.reading_started_at is 'when the link was last marked as reading; shared by the members of a workspace';
+comment on column links.read_at is 'when the link was last marked as read; shared by the members of a workspace';
+comment on column links.archived_at is 'when the link was archived (null when not archived); shared by the members of a workspace';
+comment on column links.remind_at is 'when the link shows up in the today section; shared by the members of a workspace';
+comment on column links.resurface_dismissed_at is 'last dismissal from the today section; shared by the members of a workspace';
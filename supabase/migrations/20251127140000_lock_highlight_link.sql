@@ -0,0 +1,61 @@
+-- migration: lock highlights to their link and space
+-- purpose: keep authors from moving highlights onto links they cannot edit
+-- affected objects:
+--   - policies: "authenticated users can update own link_highlights"
+--   - functions: prevent_highlight_link_change
+--   - triggers: trigger_link_highlights_lock_link
+-- notes:
+--   - the update policy of the workspaces migration only checked the author, so an author
+--     could point link_id at any link and the highlight showed up in that link's reader
+--     view (the select policy shares highlights with everyone who can read the link);
+--     members removed from a workspace could also keep editing their old highlights
+--   - authors now need edit access to the link's space, like the insert policy, and
+--     link_id can no longer change
+
+-- ============================================================================
+-- update policy
+-- ============================================================================
+
+drop policy "authenticated users can update own link_highlights" on link_highlights;
+
+-- update policy: authors edit the comments of their highlights while they can edit the link
+create policy "authenticated users can update own link_highlights"
+on link_highlights for update
+to authenticated
+using (
+    auth.uid() = user_id
+    and exists (
+        select 1 from links l
+        where l.id = link_highlights.link_id and can_edit_space(l.user_id, l.workspace_id)
+    )
+)
+with check (
+    auth.uid() = user_id
+    and exists (
+        select 1 from links l
+        where l.id = link_highlights.link_id and can_edit_space(l.user_id, l.workspace_id)
+    )
+);
+
+-- ============================================================================
+-- link_id lock
+-- ============================================================================
+
+create or replace function prevent_highlight_link_change()
+returns trigger as $$
+begin
+    if new.link_id is distinct from old.link_id then
+        raise exception 'highlights cannot be moved to another link'
+            using errcode = 'check_violation';
+    end if;
+
+    return new;
+end;
+$$ language plpgsql;
+
+comment on function prevent_highlight_link_change is 'rejects updates of link_highlights.link_id';
+
+create trigger trigger_link_highlights_lock_link
+    before update of link_id on link_highlights
+    for each row
+    execute function prevent_highlight_link_change();
@@ -0,0 +1,35 @@
+-- migration: check the new row of collection_links updates
+-- purpose: keep editors from pointing a collection entry at a link of another space
+-- affected objects:
+--   - policies: "authenticated users can update space collection_links"
+-- notes:
+--   - the update policy of the workspaces migration had no with check, so an editor could
+--     change link_id to a link of another space (or another user's personal space) and it
+--     showed up in the collection and its public share page
+--   - the new row now has to pass the same checks as an insert; the app itself only
+--     changes position (reordering)
+
+drop policy "authenticated users can update space collection_links" on collection_links;
+
+-- update policy: the collection must be editable, before and after, and keep its link
+-- in the same space
+create policy "authenticated users can update space collection_links"
+on collection_links for update
+to authenticated
+using (
+    exists (
+        select 1 from collections
+        where collections.id = collection_links.collection_id
+        and can_edit_space(collections.user_id, collections.workspace_id)
+    )
+)
+with check (
+    exists (
+        select 1 from collections
+        join links on links.id = collection_links.link_id
+        where collections.id = collection_links.collection_id
+        and can_edit_space(collections.user_id, collections.workspace_id)
+        and links.workspace_id is not distinct from collections.workspace_id
+        and (collections.workspace_id is not null or links.user_id = collections.user_id)
+    )
+);